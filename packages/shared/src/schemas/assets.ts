@@ -0,0 +1,81 @@
+import { z } from "zod";
+
+export const AssetTypeSchema = z.enum(["PRODUCT", "PACKAGE", "BATCH", "EQUIPMENT", "DOCUMENT"]);
+
+/** Aggregation levels, lowest first: items pack into cases, cases onto pallets */
+export const PackagingLevelSchema = z.enum(["ITEM", "CASE", "PALLET"]);
+
+/** Check digits are validated server-side */
+const GtinSchema = z.string().regex(/^(\d{8}|\d{12}|\d{13}|\d{14})$/, "GTIN must have 8, 12, 13 or 14 digits");
+const SsccSchema = z.string().regex(/^\d{18}$/, "SSCC must have 18 digits");
+
+/** GS1 batch/serial values: up to 20 characters */
+const Gs1ValueSchema = z.string().min(1).max(20);
+
+const AssetFieldsSchema = z.object({
+  assetName: z.string().min(1).max(200),
+  assetType: AssetTypeSchema,
+  productId: z.string().max(100).nullable().optional(),
+  gtin: GtinSchema.nullable().optional(),
+  batchNumber: Gs1ValueSchema.nullable().optional(),
+  serialNumber: Gs1ValueSchema.nullable().optional(),
+  /** ISO date (YYYY-MM-DD) */
+  expiryDate: z.string().date().nullable().optional(),
+  packagingLevel: PackagingLevelSchema.nullable().optional(),
+  sscc: SsccSchema.nullable().optional(),
+});
+
+export const CreateAssetSchema = AssetFieldsSchema.extend({
+  projectId: z.number(),
+});
+
+export const UpdateAssetSchema = AssetFieldsSchema.partial().extend({
+  assetId: z.number(),
+});
+
+export const AssetIdSchema = z.object({
+  assetId: z.number(),
+});
+
+export const ListAssetsSchema = z.object({
+  projectId: z.number(),
+  assetType: AssetTypeSchema.optional(),
+  packagingLevel: PackagingLevelSchema.optional(),
+  /** Matches name, product ID, GTIN, batch, serial or SSCC */
+  search: z.string().optional(),
+  /** Direct children of an asset; null lists unaggregated assets */
+  parentId: z.number().nullable().optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+  offset: z.number().int().min(0).default(0),
+});
+
+/**
+ * Bulk import. CSV needs a header row; JSON is an array of objects. Column
+ * names: assetName, assetType, productId, gtin, batchNumber (or lot),
+ * serialNumber (or serial), expiryDate, packagingLevel, sscc, parentSscc.
+ */
+export const ImportAssetsSchema = z.object({
+  projectId: z.number(),
+  format: z.enum(["CSV", "JSON"]),
+  data: z.string().min(1).max(5 * 1024 * 1024),
+  /** Used for rows without an assetType */
+  defaultAssetType: AssetTypeSchema.default("PRODUCT"),
+  /** Validate only */
+  dryRun: z.boolean().default(false),
+});
+
+export const AggregateAssetsSchema = z.object({
+  parentId: z.number(),
+  childIds: z.array(z.number()).min(1).max(1000),
+});
+
+export const DisaggregateAssetsSchema = z.object({
+  childIds: z.array(z.number()).min(1).max(1000),
+});
+
+export type AssetType = z.infer<typeof AssetTypeSchema>;
+export type PackagingLevel = z.infer<typeof PackagingLevelSchema>;
+export type CreateAssetInput = z.infer<typeof CreateAssetSchema>;
+export type UpdateAssetInput = z.infer<typeof UpdateAssetSchema>;
+export type ListAssetsInput = z.infer<typeof ListAssetsSchema>;
+export type ImportAssetsInput = z.infer<typeof ImportAssetsSchema>;
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+/** Lifecycle of a config pack version; published versions are immutable */
+export const ConfigPackStatusSchema = z.enum(["DRAFT", "PUBLISHED", "DEPRECATED"]);
+
+export const ListConfigPacksSchema = z.object({
+  projectId: z.number().optional(),
+  status: ConfigPackStatusSchema.optional(),
+});
+
+export const ConfigPackIdSchema = z.object({
+  configPackId: z.number(),
+});
+
+/**
+ * Edit a draft version; omitted fields are left unchanged
+ */
+export const UpdateConfigPackDraftSchema = z.object({
+  configPackId: z.number(),
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().max(2000).nullable().optional(),
+  configJson: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Start a new draft version of a pack from one of its versions
+ */
+export const CreateConfigPackVersionSchema = z.object({
+  fromId: z.number(),
+});
+
+export const DiffConfigPacksSchema = z.object({
+  fromId: z.number(),
+  toId: z.number(),
+});
+
+export const PinConfigPackSchema = z.object({
+  projectId: z.number(),
+  configPackId: z.number(),
+});
+
+export const UnpinConfigPackSchema = z.object({
+  projectId: z.number(),
+});
+
+export type ConfigPackStatus = z.infer<typeof ConfigPackStatusSchema>;
+export type ListConfigPacksInput = z.infer<typeof ListConfigPacksSchema>;
+export type UpdateConfigPackDraftInput = z.infer<typeof UpdateConfigPackDraftSchema>;
+export type CreateConfigPackVersionInput = z.infer<typeof CreateConfigPackVersionSchema>;
+export type DiffConfigPacksInput = z.infer<typeof DiffConfigPacksSchema>;
+export type PinConfigPackInput = z.infer<typeof PinConfigPackSchema>;
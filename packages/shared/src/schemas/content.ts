@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { RedirectRuleSetSchema } from "./redirects";
+import { LandingPageSchema } from "./landingPages";
+
+export const ContentTypeSchema = z.enum([
+  "URL_REDIRECT",
+  "LANDING_PAGE",
+  "PDF_DOCUMENT",
+  "IMAGE",
+  "VIDEO",
+  "CAMPAIGN",
+]);
+
+const HttpUrlSchema = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), { message: "URLs must use http or https" });
+
+/**
+ * A file uploaded with a presigned URL from content.createUploadUrl
+ */
+export const ContentUploadSchema = z.object({
+  objectKey: z.string().min(1),
+});
+
+export const CreateContentUploadUrlSchema = z.object({
+  projectId: z.number(),
+  contentType: ContentTypeSchema,
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  fileSize: z.number().int().positive(),
+});
+
+export const CreateContentSchema = z.object({
+  projectId: z.number(),
+  title: z.string().min(1, "Title is required").max(200),
+  contentType: ContentTypeSchema,
+  url: HttpUrlSchema.optional(),
+  upload: ContentUploadSchema.optional(),
+  gs1LinkType: z.string().optional(),
+  /** Hosted page, LANDING_PAGE content only */
+  landingPage: LandingPageSchema.optional(),
+});
+
+export const UpdateContentSchema = z.object({
+  contentId: z.number(),
+  title: z.string().min(1).max(200).optional(),
+  url: HttpUrlSchema.nullable().optional(),
+  upload: ContentUploadSchema.optional(),
+  gs1LinkType: z.string().nullable().optional(),
+  redirectRules: RedirectRuleSetSchema.nullable().optional(),
+  landingPage: LandingPageSchema.nullable().optional(),
+});
+
+export const ListContentSchema = z.object({
+  projectId: z.number(),
+  contentType: ContentTypeSchema.optional(),
+  status: z.enum(["ACTIVE", "ARCHIVED", "ALL"]).default("ALL"),
+  search: z.string().optional(),
+});
+
+export const RollbackContentSchema = z.object({
+  contentId: z.number(),
+  version: z.number().int().positive(),
+});
+
+export type ContentType = z.infer<typeof ContentTypeSchema>;
+export type ContentUpload = z.infer<typeof ContentUploadSchema>;
+export type CreateContentUploadUrlInput = z.infer<typeof CreateContentUploadUrlSchema>;
+export type CreateContentInput = z.infer<typeof CreateContentSchema>;
+export type UpdateContentInput = z.infer<typeof UpdateContentSchema>;
+export type ListContentInput = z.infer<typeof ListContentSchema>;
+export type RollbackContentInput = z.infer<typeof RollbackContentSchema>;
@@ -0,0 +1,155 @@
+import { z } from "zod";
+
+/**
+ * EPCIS 2.0 (GS1) events in their JSON-LD form. Unknown members (sensor
+ * data, ILMD, extensions) are kept as captured.
+ */
+
+export const EpcisEventTypeSchema = z.enum(["OBJECT", "AGGREGATION", "TRANSFORMATION"]);
+export const EpcisActionSchema = z.enum(["ADD", "OBSERVE", "DELETE"]);
+/** Where an EPC appears: epcList/quantityList, parentID, childEPCs, inputs, outputs */
+export const EpcisObjectRoleSchema = z.enum(["EPC", "PARENT", "CHILD", "INPUT", "OUTPUT"]);
+
+/** EPC, class, location or party identifier: GS1 Digital Link URI or EPC URN */
+const EpcisUriSchema = z.string().min(1).max(500);
+
+const TimeZoneOffsetSchema = z
+  .string()
+  .regex(/^[+-](0\d|1[0-4]):[0-5]\d$/, "eventTimeZoneOffset must look like +01:00");
+
+const LocationSchema = z.object({ id: EpcisUriSchema }).passthrough();
+
+const QuantityElementSchema = z
+  .object({
+    epcClass: EpcisUriSchema,
+    quantity: z.number().nonnegative().optional(),
+    uom: z.string().max(10).optional(),
+  })
+  .passthrough();
+
+const BizTransactionSchema = z
+  .object({
+    type: z.string().max(200).optional(),
+    bizTransaction: EpcisUriSchema,
+  })
+  .passthrough();
+
+/** Party or location types: owning_party, possessing_party, location */
+const SourceSchema = z.object({ type: z.string().max(200), source: EpcisUriSchema }).passthrough();
+const DestinationSchema = z.object({ type: z.string().max(200), destination: EpcisUriSchema }).passthrough();
+
+const EpcListSchema = z.array(EpcisUriSchema).max(10_000).default([]);
+const QuantityListSchema = z.array(QuantityElementSchema).max(1_000).default([]);
+
+const EventFieldsSchema = z
+  .object({
+    /** Generated as urn:uuid:… when absent */
+    eventID: EpcisUriSchema.optional(),
+    eventTime: z.string().datetime({ offset: true }),
+    eventTimeZoneOffset: TimeZoneOffsetSchema,
+    /** CBV short name ("shipping") or URI */
+    bizStep: z.string().min(1).max(200).optional(),
+    disposition: z.string().min(1).max(200).optional(),
+    readPoint: LocationSchema.optional(),
+    bizLocation: LocationSchema.optional(),
+    bizTransactionList: z.array(BizTransactionSchema).max(50).optional(),
+    sourceList: z.array(SourceSchema).max(50).optional(),
+    destinationList: z.array(DestinationSchema).max(50).optional(),
+  })
+  .passthrough();
+
+export const ObjectEventSchema = EventFieldsSchema.extend({
+  type: z.literal("ObjectEvent"),
+  action: EpcisActionSchema,
+  epcList: EpcListSchema,
+  quantityList: QuantityListSchema,
+});
+
+export const AggregationEventSchema = EventFieldsSchema.extend({
+  type: z.literal("AggregationEvent"),
+  action: EpcisActionSchema,
+  /** The containing unit, e.g. a pallet's SSCC */
+  parentID: EpcisUriSchema.optional(),
+  childEPCs: EpcListSchema,
+  childQuantityList: QuantityListSchema,
+});
+
+export const TransformationEventSchema = EventFieldsSchema.extend({
+  type: z.literal("TransformationEvent"),
+  inputEPCList: EpcListSchema,
+  outputEPCList: EpcListSchema,
+  inputQuantityList: QuantityListSchema,
+  outputQuantityList: QuantityListSchema,
+  transformationID: EpcisUriSchema.optional(),
+});
+
+export const EpcisEventSchema = z
+  .discriminatedUnion("type", [ObjectEventSchema, AggregationEventSchema, TransformationEventSchema])
+  .superRefine((event, ctx) => {
+    switch (event.type) {
+      case "ObjectEvent":
+        if (event.epcList.length === 0 && event.quantityList.length === 0) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ObjectEvent needs an epcList or quantityList" });
+        }
+        break;
+      case "AggregationEvent":
+        if (event.action !== "DELETE" && !event.parentID) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `AggregationEvent ${event.action} needs a parentID` });
+        }
+        break;
+      case "TransformationEvent":
+        if (
+          event.inputEPCList.length + event.inputQuantityList.length === 0 &&
+          event.outputEPCList.length + event.outputQuantityList.length === 0
+        ) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "TransformationEvent needs inputs or outputs" });
+        }
+        break;
+    }
+  });
+
+/**
+ * Capture document (POST /api/epcis/capture)
+ */
+export const EpcisDocumentSchema = z
+  .object({
+    "@context": z.unknown().optional(),
+    type: z.literal("EPCISDocument"),
+    schemaVersion: z.string().optional(),
+    creationDate: z.string().datetime({ offset: true }).optional(),
+    epcisBody: z.object({
+      eventList: z.array(EpcisEventSchema).min(1).max(1_000),
+    }),
+  })
+  .passthrough();
+
+export const CaptureEpcisSchema = z.object({
+  projectId: z.number(),
+  document: EpcisDocumentSchema,
+});
+
+export const ListSupplyChainEventsSchema = z.object({
+  projectId: z.number(),
+  eventType: EpcisEventTypeSchema.optional(),
+  action: EpcisActionSchema.optional(),
+  bizStep: z.string().optional(),
+  disposition: z.string().optional(),
+  readPoint: z.string().optional(),
+  bizLocation: z.string().optional(),
+  /** Events naming this EPC in any role */
+  epc: z.string().optional(),
+  /** Events naming this asset in any role */
+  assetId: z.number().optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+  offset: z.number().int().min(0).default(0),
+});
+
+export type EpcisEventType = z.infer<typeof EpcisEventTypeSchema>;
+export type EpcisAction = z.infer<typeof EpcisActionSchema>;
+export type EpcisObjectRole = z.infer<typeof EpcisObjectRoleSchema>;
+export type EpcisEvent = z.infer<typeof EpcisEventSchema>;
+export type EpcisDocument = z.infer<typeof EpcisDocumentSchema>;
+export type CaptureEpcisInput = z.infer<typeof CaptureEpcisSchema>;
+export type ListSupplyChainEventsInput = z.infer<typeof ListSupplyChainEventsSchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+export const ExperimentStatusSchema = z.enum(["DRAFT", "RUNNING", "COMPLETED", "STOPPED"]);
+
+/**
+ * One destination of an experiment; traffic splits by relative weight
+ */
+export const ExperimentVariantSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[A-Za-z0-9_-]{1,32}$/, "Variant keys are 1-32 letters, digits, '-' or '_'"),
+  name: z.string().min(1).max(100),
+  url: z.string().url().regex(/^https?:\/\//i, "Variant URLs must be http(s)"),
+  weight: z.number().int().min(1).max(1000).default(1),
+});
+
+const VariantsSchema = z
+  .array(ExperimentVariantSchema)
+  .min(2, "An experiment needs at least two variants")
+  .max(10)
+  .refine((variants) => new Set(variants.map((variant) => variant.key)).size === variants.length, {
+    message: "Variant keys must be unique",
+  });
+
+const ExperimentSettingsSchema = z.object({
+  /** Confidence the leader must reach against every other variant */
+  confidenceLevel: z.number().min(0.8).max(0.999).default(0.95),
+  /** Exposures each variant needs before significance is assessed */
+  minSamplesPerVariant: z.number().int().min(10).max(1_000_000).default(100),
+  autoPromote: z.boolean().default(true),
+});
+
+export const CreateExperimentSchema = ExperimentSettingsSchema.extend({
+  contentId: z.number(),
+  name: z.string().min(1).max(100),
+  variants: VariantsSchema,
+});
+
+export const UpdateExperimentSchema = ExperimentSettingsSchema.partial().extend({
+  experimentId: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  /** Only while the experiment is a draft */
+  variants: VariantsSchema.optional(),
+});
+
+export const ExperimentIdSchema = z.object({
+  experimentId: z.number(),
+});
+
+export const ListExperimentsSchema = z.object({
+  projectId: z.number(),
+  status: ExperimentStatusSchema.optional(),
+});
+
+export const PromoteVariantSchema = z.object({
+  experimentId: z.number(),
+  variantKey: z.string(),
+});
+
+export type ExperimentStatus = z.infer<typeof ExperimentStatusSchema>;
+export type ExperimentVariant = z.infer<typeof ExperimentVariantSchema>;
+export type CreateExperimentInput = z.infer<typeof CreateExperimentSchema>;
+export type UpdateExperimentInput = z.infer<typeof UpdateExperimentSchema>;
@@ -3,3 +3,16 @@ export * from "./project";
 export * from "./analytics";
 export * from "./keys";
 export * from "./notifications";
+export * from "./redirects";
+export * from "./landingPages";
+export * from "./content";
+export * from "./experiments";
+export * from "./assets";
+export * from "./epcis";
+export * from "./maintenance";
+export * from "./workflows";
+export * from "./configPacks";
+export * from "./templates";
+export * from "./permissions";
+export * from "./serviceAccounts";
+export * from "./mfa";
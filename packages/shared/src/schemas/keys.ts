@@ -2,10 +2,18 @@ import { z } from "zod";
 
 export const KeyTypeSchema = z.enum(["ENCRYPTION", "SIGNING", "NFC_PAIRING", "RFID_PAIRING"]);
 
+export const KeyAlgorithmSchema = z.enum(["prime256v1", "rsa-2048", "rsa-4096", "ed25519"]);
+
+export const KeyStatusSchema = z.enum(["ACTIVE", "ROTATING", "RETIRED", "COMPROMISED"]);
+
+/** RETAIN keeps old codes verifying under the retired key; RESIGN re-signs them with the new key */
+export const KeyRotationPolicySchema = z.enum(["RETAIN", "RESIGN"]);
+
 export const GenerateKeySchema = z.object({
   projectId: z.number(),
   keyName: z.string().min(1, "Key name is required"),
   keyType: KeyTypeSchema,
+  algorithm: KeyAlgorithmSchema.optional(),
   expiresAt: z.string().optional(),
 });
 
@@ -27,6 +35,8 @@ export const ListKeysSchema = z.object({
 
 export const RotateKeySchema = z.object({
   keyId: z.number(),
+  gracePeriodDays: z.number().int().min(0).max(365).optional(),
+  policy: KeyRotationPolicySchema.optional(),
 });
 
 export const RevokeKeySchema = z.object({
@@ -38,6 +48,9 @@ export const GetActiveKeysSchema = z.object({
 });
 
 export type KeyType = z.infer<typeof KeyTypeSchema>;
+export type KeyAlgorithm = z.infer<typeof KeyAlgorithmSchema>;
+export type KeyStatus = z.infer<typeof KeyStatusSchema>;
+export type KeyRotationPolicy = z.infer<typeof KeyRotationPolicySchema>;
 export type GenerateKeyInput = z.infer<typeof GenerateKeySchema>;
 export type Key = z.infer<typeof KeySchema>;
 export type ListKeysInput = z.infer<typeof ListKeysSchema>;
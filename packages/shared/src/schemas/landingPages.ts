@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+/** Asset attributes the product facts block can show */
+export const ProductFactFieldSchema = z.enum([
+  "assetName",
+  "productId",
+  "gtin",
+  "batchNumber",
+  "serialNumber",
+  "expiryDate",
+  "assetType",
+]);
+
+export const HeroBlockSchema = z.object({
+  type: z.literal("HERO"),
+  title: z.string().min(1).max(200),
+  subtitle: z.string().max(500).optional(),
+  /** IMAGE content shown above the title */
+  imageContentId: z.number().int().positive().optional(),
+});
+
+export const ProductFactsBlockSchema = z.object({
+  type: z.literal("PRODUCT_FACTS"),
+  title: z.string().max(200).optional(),
+  fields: z.array(ProductFactFieldSchema).min(1).default(["assetName", "productId", "gtin", "batchNumber", "expiryDate"]),
+});
+
+export const VerificationBadgeBlockSchema = z.object({
+  type: z.literal("VERIFICATION_BADGE"),
+  verifiedText: z.string().max(200).optional(),
+  showTrustScore: z.boolean().default(true),
+});
+
+export const DocumentListBlockSchema = z.object({
+  type: z.literal("DOCUMENT_LIST"),
+  title: z.string().max(200).optional(),
+  /** Content items of the same project, listed in this order */
+  contentIds: z.array(z.number().int().positive()).min(1).max(20),
+});
+
+export const FeedbackFormBlockSchema = z.object({
+  type: z.literal("FEEDBACK_FORM"),
+  title: z.string().max(200).optional(),
+  prompt: z.string().max(500).optional(),
+  askRating: z.boolean().default(true),
+  askEmail: z.boolean().default(false),
+});
+
+/**
+ * Supply chain trail of the scanned product, from its EPCIS events
+ */
+export const ProvenanceBlockSchema = z.object({
+  type: z.literal("PROVENANCE"),
+  title: z.string().max(200).optional(),
+  /** Most recent steps shown */
+  limit: z.number().int().min(1).max(50).default(10),
+  showLocations: z.boolean().default(true),
+});
+
+export const LandingPageBlockSchema = z.discriminatedUnion("type", [
+  HeroBlockSchema,
+  ProductFactsBlockSchema,
+  VerificationBadgeBlockSchema,
+  DocumentListBlockSchema,
+  FeedbackFormBlockSchema,
+  ProvenanceBlockSchema,
+]);
+
+/**
+ * Hosted page of a LANDING_PAGE content item
+ */
+export const LandingPageSchema = z.object({
+  title: z.string().min(1).max(200),
+  blocks: z.array(LandingPageBlockSchema).min(1).max(30),
+});
+
+export const PreviewLandingPageSchema = z.object({
+  contentId: z.number(),
+  /** Unsaved page to render instead of the stored one */
+  page: LandingPageSchema.optional(),
+});
+
+export const PageFeedbackSchema = z.object({
+  contentId: z.coerce.number().int().positive(),
+  rating: z.coerce.number().int().min(1).max(5).optional(),
+  comment: z.string().max(2000).optional(),
+  email: z.string().email().max(254).optional(),
+});
+
+export type ProductFactField = z.infer<typeof ProductFactFieldSchema>;
+export type LandingPageBlock = z.infer<typeof LandingPageBlockSchema>;
+export type LandingPage = z.infer<typeof LandingPageSchema>;
+export type PreviewLandingPageInput = z.infer<typeof PreviewLandingPageSchema>;
+export type PageFeedbackInput = z.infer<typeof PageFeedbackSchema>;
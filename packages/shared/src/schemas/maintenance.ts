@@ -0,0 +1,149 @@
+import { z } from "zod";
+
+/** INTERVAL schedules fall due after a number of days, USAGE ones after a meter delta */
+export const MaintenanceTriggerSchema = z.enum(["INTERVAL", "USAGE"]);
+
+export const WorkOrderStatusSchema = z.enum(["OPEN", "IN_PROGRESS", "COMPLETED", "CANCELLED"]);
+
+export const ChecklistItemSchema = z.object({
+  key: z.string().regex(/^[A-Za-z0-9_-]{1,40}$/, "Checklist keys are 1-40 letters, digits, '-' or '_'"),
+  label: z.string().min(1).max(200),
+  /** Completion needs at least one photo for this item */
+  requiresPhoto: z.boolean().default(false),
+});
+
+const ChecklistSchema = z
+  .array(ChecklistItemSchema)
+  .max(50)
+  .refine((items) => new Set(items.map((item) => item.key)).size === items.length, {
+    message: "Checklist keys must be unique",
+  });
+
+const UsageUnitSchema = z.string().min(1).max(20);
+
+const ScheduleFieldsSchema = z.object({
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  triggerType: MaintenanceTriggerSchema,
+  /** INTERVAL: days between services */
+  intervalDays: z.number().int().min(1).max(3650).nullable().optional(),
+  /** USAGE: meter units between services, e.g. 500 (hours) */
+  usageInterval: z.number().positive().nullable().optional(),
+  usageUnit: UsageUnitSchema.nullable().optional(),
+  checklist: ChecklistSchema.optional(),
+});
+
+export const CreateMaintenanceScheduleSchema = ScheduleFieldsSchema.extend({
+  /** An EQUIPMENT asset */
+  assetId: z.number(),
+  /** First due date of an interval schedule; one interval from now when absent */
+  firstDueAt: z.string().datetime({ offset: true }).optional(),
+}).superRefine((input, ctx) => {
+  if (input.triggerType === "INTERVAL" && !input.intervalDays) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["intervalDays"], message: "Interval schedules need intervalDays" });
+  }
+  if (input.triggerType === "USAGE" && (!input.usageInterval || !input.usageUnit)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["usageInterval"],
+      message: "Usage schedules need usageInterval and usageUnit",
+    });
+  }
+});
+
+export const UpdateMaintenanceScheduleSchema = ScheduleFieldsSchema.partial().extend({
+  scheduleId: z.number(),
+  isActive: z.boolean().optional(),
+});
+
+export const MaintenanceScheduleIdSchema = z.object({
+  scheduleId: z.number(),
+});
+
+export const ListMaintenanceSchedulesSchema = z.object({
+  projectId: z.number(),
+  assetId: z.number().optional(),
+  overdueOnly: z.boolean().default(false),
+});
+
+/**
+ * Meter reading for an asset; updates its usage schedules in this unit
+ */
+export const RecordUsageSchema = z.object({
+  assetId: z.number(),
+  reading: z.number().nonnegative(),
+  usageUnit: UsageUnitSchema,
+});
+
+/**
+ * Open (or resume) a work order for the asset behind a scanned code. Without
+ * a schedule, the asset's most overdue schedule is used, if any.
+ */
+export const OpenWorkOrderSchema = z.object({
+  codeValue: z.string().min(1),
+  scheduleId: z.number().optional(),
+  title: z.string().min(1).max(200).optional(),
+  notes: z.string().max(5000).optional(),
+});
+
+export const ListWorkOrdersSchema = z.object({
+  /** Without a project: the caller's own work orders */
+  projectId: z.number().optional(),
+  assetId: z.number().optional(),
+  status: WorkOrderStatusSchema.optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const WorkOrderIdSchema = z.object({
+  workOrderId: z.number(),
+});
+
+export const UpdateChecklistItemSchema = z.object({
+  workOrderId: z.number(),
+  key: z.string(),
+  done: z.boolean(),
+  note: z.string().max(2000).nullable().optional(),
+});
+
+export const CreateEvidenceUploadUrlSchema = z.object({
+  workOrderId: z.number(),
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  fileSize: z.number().int().positive(),
+});
+
+/**
+ * A photo uploaded with a presigned URL from createEvidenceUploadUrl
+ */
+export const AttachEvidenceSchema = z.object({
+  workOrderId: z.number(),
+  objectKey: z.string().min(1),
+  /** Checklist item the photo documents */
+  itemKey: z.string().optional(),
+});
+
+export const WorkOrderEvidenceIdSchema = z.object({
+  evidenceId: z.number(),
+});
+
+export const CompleteWorkOrderSchema = z.object({
+  workOrderId: z.number(),
+  notes: z.string().max(5000).optional(),
+  /** Meter reading at completion, in the schedule's usage unit */
+  usageReading: z.number().nonnegative().optional(),
+});
+
+export type MaintenanceTrigger = z.infer<typeof MaintenanceTriggerSchema>;
+export type WorkOrderStatus = z.infer<typeof WorkOrderStatusSchema>;
+export type ChecklistItem = z.infer<typeof ChecklistItemSchema>;
+export type CreateMaintenanceScheduleInput = z.infer<typeof CreateMaintenanceScheduleSchema>;
+export type UpdateMaintenanceScheduleInput = z.infer<typeof UpdateMaintenanceScheduleSchema>;
+export type ListMaintenanceSchedulesInput = z.infer<typeof ListMaintenanceSchedulesSchema>;
+export type RecordUsageInput = z.infer<typeof RecordUsageSchema>;
+export type OpenWorkOrderInput = z.infer<typeof OpenWorkOrderSchema>;
+export type ListWorkOrdersInput = z.infer<typeof ListWorkOrdersSchema>;
+export type UpdateChecklistItemInput = z.infer<typeof UpdateChecklistItemSchema>;
+export type CreateEvidenceUploadUrlInput = z.infer<typeof CreateEvidenceUploadUrlSchema>;
+export type AttachEvidenceInput = z.infer<typeof AttachEvidenceSchema>;
+export type CompleteWorkOrderInput = z.infer<typeof CompleteWorkOrderSchema>;
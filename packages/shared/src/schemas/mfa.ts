@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { ArchetypeCodeSchema } from "./permissions";
+
+/**
+ * Error message of mutations that need a fresh step-up re-authentication;
+ * clients ask for the second factor (or password) and retry
+ */
+export const STEP_UP_REQUIRED = "Re-authentication required";
+
+/** A 6-digit authenticator code or a recovery code */
+export const MfaCodeSchema = z.string().trim().min(6, "Enter your authentication code").max(20);
+
+export const TotpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+/** Sign-in waiting for a second factor, identified by the challenge from `login` */
+export const VerifyMfaSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: MfaCodeSchema,
+});
+
+/**
+ * Start or finish enrollment; signed-in users omit the challenge, users the
+ * tenant policy stops at sign-in pass the one `login` returned
+ */
+export const BeginMfaEnrollmentSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+});
+
+export const ConfirmMfaEnrollmentSchema = z.object({
+  challengeToken: z.string().min(1).optional(),
+  code: TotpCodeSchema,
+});
+
+export const DisableMfaSchema = z.object({
+  code: MfaCodeSchema,
+});
+
+export const RegenerateRecoveryCodesSchema = z.object({
+  code: MfaCodeSchema,
+});
+
+/** Re-authenticate with the second factor, or the password without one */
+export const StepUpSchema = z
+  .object({
+    code: MfaCodeSchema.optional(),
+    password: z.string().min(1).optional(),
+  })
+  .refine((input) => input.code !== undefined || input.password !== undefined, {
+    message: "Enter your authentication code or password",
+  });
+
+export const UpdateMfaPolicySchema = z.object({
+  mfaRequiredArchetypes: z.array(ArchetypeCodeSchema.exclude(["PUBLIC"])),
+});
+
+export type VerifyMfaInput = z.infer<typeof VerifyMfaSchema>;
+export type BeginMfaEnrollmentInput = z.infer<typeof BeginMfaEnrollmentSchema>;
+export type ConfirmMfaEnrollmentInput = z.infer<typeof ConfirmMfaEnrollmentSchema>;
+export type DisableMfaInput = z.infer<typeof DisableMfaSchema>;
+export type RegenerateRecoveryCodesInput = z.infer<typeof RegenerateRecoveryCodesSchema>;
+export type StepUpInput = z.infer<typeof StepUpSchema>;
+export type UpdateMfaPolicyInput = z.infer<typeof UpdateMfaPolicySchema>;
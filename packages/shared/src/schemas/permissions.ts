@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+/** Fine-grained permissions, `resource:action` */
+export const PERMISSIONS = [
+  "projects:read",
+  "projects:manage",
+  "keys:read",
+  "keys:create",
+  "keys:rotate",
+  "keys:revoke",
+  "codes:read",
+  "codes:generate",
+  "codes:revoke",
+  "codes:export",
+  "scans:write",
+  "content:manage",
+  "assets:manage",
+  "epcis:capture",
+  "maintenance:manage",
+  "maintenance:perform",
+  "workflows:manage",
+  "config-packs:manage",
+  "config-packs:publish",
+  "templates:manage",
+  "templates:global",
+  "analytics:read",
+  "analytics:global",
+  "notifications:admin",
+  "roles:manage",
+  "service-accounts:manage",
+] as const;
+
+/**
+ * Platform-wide permissions; only ADMINs hold them and tenant overrides
+ * cannot grant them
+ */
+export const GLOBAL_PERMISSIONS = ["templates:global", "analytics:global", "notifications:admin"] as const;
+
+export const ARCHETYPE_CODES = ["ADMIN", "MANAGER", "OPERATOR", "INSPECTOR", "MAINTAINER", "PUBLIC"] as const;
+
+export const PermissionSchema = z.enum(PERMISSIONS);
+
+export const ArchetypeCodeSchema = z.enum(ARCHETYPE_CODES);
+
+export type Permission = z.infer<typeof PermissionSchema>;
+export type ArchetypeCode = z.infer<typeof ArchetypeCodeSchema>;
+
+/**
+ * What each archetype may do unless its tenant overrides it. ADMIN holds
+ * every permission and cannot be overridden.
+ */
+export const DEFAULT_ARCHETYPE_PERMISSIONS: Record<ArchetypeCode, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  MANAGER: [
+    "projects:read",
+    "projects:manage",
+    "keys:read",
+    "keys:create",
+    "keys:rotate",
+    "keys:revoke",
+    "codes:read",
+    "codes:generate",
+    "codes:revoke",
+    "codes:export",
+    "scans:write",
+    "content:manage",
+    "assets:manage",
+    "epcis:capture",
+    "maintenance:manage",
+    "maintenance:perform",
+    "workflows:manage",
+    "config-packs:manage",
+    "config-packs:publish",
+    "templates:manage",
+    "analytics:read",
+  ],
+  OPERATOR: [
+    "projects:read",
+    "keys:read",
+    "codes:read",
+    "codes:generate",
+    "scans:write",
+    "assets:manage",
+    "epcis:capture",
+    "analytics:read",
+  ],
+  INSPECTOR: ["projects:read", "codes:read", "scans:write", "epcis:capture", "analytics:read"],
+  MAINTAINER: ["projects:read", "codes:read", "maintenance:perform"],
+  PUBLIC: [],
+};
+
+export const RolePermissionsQuerySchema = z.object({
+  /** Tenant whose matrix to show; the caller's own by default */
+  tenantId: z.number().optional(),
+});
+
+/**
+ * Set what an archetype may do in a tenant; stored as grants and revocations
+ * relative to the defaults
+ */
+export const UpdateRolePermissionsSchema = z.object({
+  tenantId: z.number().optional(),
+  archetypeCode: ArchetypeCodeSchema,
+  permissions: z.array(PermissionSchema),
+});
+
+export const ResetRolePermissionsSchema = z.object({
+  tenantId: z.number().optional(),
+  archetypeCode: ArchetypeCodeSchema,
+});
+
+export type RolePermissionsQueryInput = z.infer<typeof RolePermissionsQuerySchema>;
+export type UpdateRolePermissionsInput = z.infer<typeof UpdateRolePermissionsSchema>;
+export type ResetRolePermissionsInput = z.infer<typeof ResetRolePermissionsSchema>;
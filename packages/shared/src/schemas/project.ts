@@ -1,7 +1,6 @@
 import { z } from "zod";
 
 export const CreateProjectSchema = z.object({
-  token: z.string(),
   name: z.string().min(1, "Project name is required"),
   description: z.string().optional(),
 });
@@ -30,10 +29,5 @@ export const ProjectSchema = z.object({
     .optional(),
 });
 
-export const GetProjectsSchema = z.object({
-  token: z.string(),
-});
-
 export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
 export type Project = z.infer<typeof ProjectSchema>;
-export type GetProjectsInput = z.infer<typeof GetProjectsSchema>;
@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+export const ScanDeviceTypeSchema = z.enum(["MOBILE", "DESKTOP", "TABLET", "IOT_DEVICE", "SCANNER"]);
+
+const CountryCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2}$/, "Use ISO 3166-1 alpha-2 country codes")
+  .transform((code) => code.toUpperCase());
+
+const LanguageTagSchema = z
+  .string()
+  .regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, "Use BCP 47 language tags")
+  .transform((tag) => tag.toLowerCase());
+
+/**
+ * Time window. `from`/`until` bound the absolute range; `days` (0 = Sunday)
+ * and `hours` ([from, to) in 0-24) repeat in `timezone` (IANA, default UTC).
+ */
+export const RedirectTimeWindowSchema = z
+  .object({
+    from: z.string().datetime({ offset: true }).optional(),
+    until: z.string().datetime({ offset: true }).optional(),
+    days: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+    hours: z
+      .object({
+        from: z.number().int().min(0).max(23),
+        to: z.number().int().min(1).max(24),
+      })
+      .optional(),
+    timezone: z.string().optional(),
+  })
+  .refine((window) => !window.from || !window.until || window.from < window.until, {
+    message: "Time window must end after it starts",
+  })
+  .refine((window) => !window.timezone || isTimeZone(window.timezone), {
+    message: "Unknown time zone",
+  });
+
+/**
+ * All present conditions must hold for a rule to fire; list conditions match
+ * any of their entries
+ */
+export const RedirectConditionsSchema = z.object({
+  country: z.array(CountryCodeSchema).min(1).optional(),
+  region: z.array(z.string().min(1)).min(1).optional(),
+  deviceType: z.array(ScanDeviceTypeSchema).min(1).optional(),
+  time: RedirectTimeWindowSchema.optional(),
+  /** Scans of the code including the current one */
+  scanCount: z
+    .object({
+      min: z.number().int().min(1).optional(),
+      max: z.number().int().min(1).optional(),
+    })
+    .refine((range) => range.min === undefined || range.max === undefined || range.min <= range.max, {
+      message: "scanCount.min must not exceed scanCount.max",
+    })
+    .optional(),
+  /** `role` in the code payload */
+  role: z.array(z.string().min(1)).min(1).optional(),
+  /** Preferred languages of the scanning device; "de" also matches "de-CH" */
+  language: z.array(LanguageTagSchema).min(1).optional(),
+  /** Stable 0-99 bucket of the scanning device, inclusive range */
+  abBucket: z
+    .object({
+      from: z.number().int().min(0).max(99),
+      to: z.number().int().min(0).max(99),
+    })
+    .refine((range) => range.from <= range.to, { message: "abBucket.from must not exceed abBucket.to" })
+    .optional(),
+});
+
+export const RedirectActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("REDIRECT"),
+    url: z
+      .string()
+      .url()
+      .refine((url) => /^https?:\/\//i.test(url), { message: "Redirects must use http or https" }),
+  }),
+  z.object({
+    type: z.literal("SERVE_CONTENT"),
+    contentId: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("BLOCK"),
+    message: z.string().max(500).optional(),
+  }),
+]);
+
+export const RedirectRuleSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().max(200).optional(),
+  enabled: z.boolean().default(true),
+  conditions: RedirectConditionsSchema.default({}),
+  action: RedirectActionSchema,
+});
+
+/**
+ * Rules are evaluated in order; the first enabled rule whose conditions hold
+ * fires
+ */
+export const RedirectRuleSetSchema = z
+  .object({
+    rules: z.array(RedirectRuleSchema).max(100),
+  })
+  .refine((ruleSet) => new Set(ruleSet.rules.map((rule) => rule.id)).size === ruleSet.rules.length, {
+    message: "Rule ids must be unique",
+  });
+
+/**
+ * A scan to evaluate rules against without verifying or recording it
+ */
+export const SimulatedScanSchema = z.object({
+  country: CountryCodeSchema.optional(),
+  region: z.string().optional(),
+  deviceType: ScanDeviceTypeSchema.optional(),
+  at: z.string().datetime({ offset: true }).optional(),
+  scanCount: z.number().int().min(1).default(1),
+  role: z.string().optional(),
+  language: z.array(LanguageTagSchema).default([]),
+  abBucket: z.number().int().min(0).max(99).optional(),
+});
+
+export const UpdateRedirectRulesSchema = z.object({
+  contentId: z.number(),
+  ruleSet: RedirectRuleSetSchema.nullable(),
+});
+
+export const DryRunRedirectSchema = z.object({
+  projectId: z.number(),
+  scan: SimulatedScanSchema,
+  /** Evaluate unsaved rules for one content item instead of its stored rules */
+  override: UpdateRedirectRulesSchema.optional(),
+});
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type ScanDeviceType = z.infer<typeof ScanDeviceTypeSchema>;
+export type RedirectTimeWindow = z.infer<typeof RedirectTimeWindowSchema>;
+export type RedirectConditions = z.infer<typeof RedirectConditionsSchema>;
+export type RedirectAction = z.infer<typeof RedirectActionSchema>;
+export type RedirectRule = z.infer<typeof RedirectRuleSchema>;
+export type RedirectRuleSet = z.infer<typeof RedirectRuleSetSchema>;
+export type SimulatedScan = z.infer<typeof SimulatedScanSchema>;
+export type UpdateRedirectRulesInput = z.infer<typeof UpdateRedirectRulesSchema>;
+export type DryRunRedirectInput = z.infer<typeof DryRunRedirectSchema>;
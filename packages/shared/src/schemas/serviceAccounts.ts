@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { GLOBAL_PERMISSIONS, PERMISSIONS, PermissionSchema, type Permission } from "./permissions";
+
+export const API_KEY_RATE_LIMIT_TIERS = ["LOW", "STANDARD", "HIGH"] as const;
+
+export const ApiKeyRateLimitTierSchema = z.enum(API_KEY_RATE_LIMIT_TIERS);
+
+const unscopable: readonly Permission[] = [...GLOBAL_PERMISSIONS, "roles:manage", "service-accounts:manage"];
+
+/**
+ * Permissions an API key can carry as scopes; platform-wide permissions and
+ * managing people or other keys stay with signed-in users
+ */
+export const API_KEY_SCOPES: readonly Permission[] = PERMISSIONS.filter(
+  (permission) => !unscopable.includes(permission)
+);
+
+export const ApiKeyScopeSchema = PermissionSchema.refine((permission) => API_KEY_SCOPES.includes(permission), {
+  message: "Permission cannot be granted to an API key",
+});
+
+export const CreateServiceAccountSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  description: z.string().max(500).optional(),
+});
+
+export const UpdateServiceAccountSchema = z.object({
+  serviceAccountId: z.number(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const CreateApiKeySchema = z.object({
+  serviceAccountId: z.number(),
+  name: z.string().min(1, "Key name is required").max(100),
+  scopes: z.array(ApiKeyScopeSchema).min(1, "Select at least one scope"),
+  rateLimitTier: ApiKeyRateLimitTierSchema.default("STANDARD"),
+  /** No expiry when omitted */
+  expiresInDays: z.number().int().min(1).max(730).optional(),
+});
+
+/** The replaced key keeps working for `overlapHours` so clients can switch over */
+export const RotateApiKeySchema = z.object({
+  apiKeyId: z.number(),
+  overlapHours: z.number().int().min(0).max(168).default(0),
+});
+
+export const RevokeApiKeySchema = z.object({
+  apiKeyId: z.number(),
+});
+
+export const ApiKeyActivitySchema = z.object({
+  apiKeyId: z.number(),
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+export type ApiKeyRateLimitTier = z.infer<typeof ApiKeyRateLimitTierSchema>;
+export type CreateServiceAccountInput = z.infer<typeof CreateServiceAccountSchema>;
+export type UpdateServiceAccountInput = z.infer<typeof UpdateServiceAccountSchema>;
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
+export type RotateApiKeyInput = z.infer<typeof RotateApiKeySchema>;
+export type RevokeApiKeyInput = z.infer<typeof RevokeApiKeySchema>;
+export type ApiKeyActivityInput = z.infer<typeof ApiKeyActivitySchema>;
@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+/** Template body format understood by this release */
+export const TEMPLATE_SCHEMA_VERSION = 1;
+
+/** GLOBAL templates are visible to every tenant; TENANT templates to their own */
+export const TemplateScopeSchema = z.enum(["GLOBAL", "TENANT"]);
+
+export const TemplateUseCaseSchema = z.enum(["AUTHENTICATION", "MAINTENANCE", "COMPLIANCE", "ENGAGEMENT"]);
+
+export const TemplateParameterTypeSchema = z.enum(["string", "number", "boolean", "enum", "list", "products"]);
+
+export const TemplateProductSchema = z.object({
+  gtin: z.string().optional(),
+  batch: z.string().optional(),
+  serial: z.string().optional(),
+  name: z.string().optional(),
+});
+
+/**
+ * A template parameter; the body refers to it as `{{key}}`
+ */
+export const TemplateParameterSchema = z
+  .object({
+    key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, "Use letters, digits and underscores"),
+    label: z.string().min(1).max(100),
+    type: TemplateParameterTypeSchema,
+    description: z.string().max(500).optional(),
+    required: z.boolean().default(false),
+    default: z.unknown().optional(),
+    /** Allowed values of an `enum` parameter */
+    options: z.array(z.string().min(1)).max(100).optional(),
+  })
+  .refine((parameter) => parameter.type !== "enum" || (parameter.options?.length ?? 0) > 0, {
+    message: "Enum parameters need options",
+    path: ["options"],
+  });
+
+/**
+ * What a template produces. Any value may be a `{{key}}` placeholder; a
+ * string that is only a placeholder takes the parameter's value as is.
+ */
+export const TemplateBodySchema = z.object({
+  roles: z.unknown(),
+  actions: z.unknown(),
+  productList: z.unknown().optional(),
+  configJson: z.record(z.unknown()),
+});
+
+/**
+ * A template as stored in the catalog and exchanged in bundles
+ */
+export const TemplateDefinitionSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9-]{0,63}$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  category: z.string().min(1).max(100),
+  useCase: TemplateUseCaseSchema,
+  schemaVersion: z.number().int().min(1).max(TEMPLATE_SCHEMA_VERSION).default(TEMPLATE_SCHEMA_VERSION),
+  parameters: z.array(TemplateParameterSchema).max(50).default([]),
+  body: TemplateBodySchema,
+});
+
+/**
+ * A config pack as rendered from a template, before it is stored
+ */
+export const RenderedConfigPackSchema = z.object({
+  roles: z.array(z.string().min(1)),
+  actions: z.record(z.array(z.string())),
+  productList: z.array(TemplateProductSchema).default([]),
+  configJson: z.record(z.unknown()),
+});
+
+export const TemplateBundleSchema = z.object({
+  format: z.literal("optropic.config-pack-templates"),
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  templates: z.array(TemplateDefinitionSchema).min(1).max(100),
+});
+
+export const ListTemplatesSchema = z.object({
+  category: z.string().optional(),
+  scope: TemplateScopeSchema.optional(),
+  search: z.string().optional(),
+  includeArchived: z.boolean().default(false),
+});
+
+export const TemplateIdSchema = z.object({
+  templateId: z.number(),
+});
+
+/**
+ * Add a template to the catalog; only ADMINs add GLOBAL templates
+ */
+export const CreateTemplateSchema = TemplateDefinitionSchema.extend({
+  scope: TemplateScopeSchema.default("TENANT"),
+});
+
+export const UpdateTemplateSchema = TemplateDefinitionSchema.omit({ key: true })
+  .partial()
+  .extend({ templateId: z.number() });
+
+export const InstantiateTemplateSchema = z.object({
+  templateId: z.number(),
+  /** Name of the config pack; defaults to the template name */
+  name: z.string().min(1).max(200).optional(),
+  projectId: z.number().optional(),
+  parameters: z.record(z.unknown()).default({}),
+});
+
+export const ExportTemplatesSchema = z.object({
+  /** Templates to export; all of the tenant's own templates if omitted */
+  templateIds: z.array(z.number()).max(100).optional(),
+});
+
+export const ImportTemplatesSchema = z.object({
+  bundle: TemplateBundleSchema,
+  scope: TemplateScopeSchema.default("TENANT"),
+  /** Replace templates with the same key instead of skipping them */
+  overwrite: z.boolean().default(false),
+});
+
+export type TemplateScope = z.infer<typeof TemplateScopeSchema>;
+export type TemplateParameterType = z.infer<typeof TemplateParameterTypeSchema>;
+export type TemplateParameter = z.infer<typeof TemplateParameterSchema>;
+export type TemplateBody = z.infer<typeof TemplateBodySchema>;
+export type TemplateDefinition = z.infer<typeof TemplateDefinitionSchema>;
+export type RenderedConfigPack = z.infer<typeof RenderedConfigPackSchema>;
+export type TemplateBundle = z.infer<typeof TemplateBundleSchema>;
+export type ListTemplatesInput = z.infer<typeof ListTemplatesSchema>;
+export type CreateTemplateInput = z.infer<typeof CreateTemplateSchema>;
+export type UpdateTemplateInput = z.infer<typeof UpdateTemplateSchema>;
+export type InstantiateTemplateInput = z.infer<typeof InstantiateTemplateSchema>;
+export type ExportTemplatesInput = z.infer<typeof ExportTemplatesSchema>;
+export type ImportTemplatesInput = z.infer<typeof ImportTemplatesSchema>;
@@ -0,0 +1,70 @@
+import { z } from "zod";
+
+/** Events that start config pack workflows */
+export const WorkflowTriggerSchema = z.enum(["CODE_SCAN", "MAINTENANCE_DUE", "AUDIT_REQUIRED", "PUBLIC_SCAN"]);
+
+export const WorkflowStatusSchema = z.enum(["ACTIVE", "COMPLETED", "CANCELLED"]);
+
+export const WorkflowTaskStatusSchema = z.enum(["PENDING", "OPEN", "COMPLETED", "CANCELLED"]);
+
+/**
+ * A step of a config pack workflow. Roles are the config pack's role types
+ * (INSTALLER, INSPECTOR, MAINTAINER, MANAGER, PUBLIC).
+ */
+export const WorkflowStepDefinitionSchema = z.object({
+  action: z.string().min(1).max(100),
+  roles: z.array(z.string().min(1)).min(1),
+});
+
+/**
+ * A workflow as generated into a config pack's `configJson.workflows`;
+ * triggers use the snake_case names, e.g. `code_scan`
+ */
+export const WorkflowDefinitionSchema = z.object({
+  name: z.string().min(1).max(200),
+  trigger: z.string().min(1),
+  steps: z.array(WorkflowStepDefinitionSchema).min(1).max(50),
+});
+
+/**
+ * Start the project's workflows for a trigger by hand, e.g. an audit
+ */
+export const StartWorkflowSchema = z.object({
+  projectId: z.number(),
+  trigger: WorkflowTriggerSchema.default("AUDIT_REQUIRED"),
+  assetId: z.number().optional(),
+});
+
+export const ListWorkflowInstancesSchema = z.object({
+  projectId: z.number(),
+  assetId: z.number().optional(),
+  status: WorkflowStatusSchema.optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const WorkflowInstanceIdSchema = z.object({
+  instanceId: z.number(),
+});
+
+export const ListWorkflowTasksSchema = z.object({
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+export const CompleteWorkflowTaskSchema = z.object({
+  taskId: z.number(),
+  notes: z.string().max(5000).optional(),
+  /** Step output, e.g. an inspection result */
+  result: z.record(z.unknown()).optional(),
+});
+
+export type WorkflowTrigger = z.infer<typeof WorkflowTriggerSchema>;
+export type WorkflowStatus = z.infer<typeof WorkflowStatusSchema>;
+export type WorkflowTaskStatus = z.infer<typeof WorkflowTaskStatusSchema>;
+export type WorkflowStepDefinition = z.infer<typeof WorkflowStepDefinitionSchema>;
+export type WorkflowDefinition = z.infer<typeof WorkflowDefinitionSchema>;
+export type StartWorkflowInput = z.infer<typeof StartWorkflowSchema>;
+export type ListWorkflowInstancesInput = z.infer<typeof ListWorkflowInstancesSchema>;
+export type ListWorkflowTasksInput = z.infer<typeof ListWorkflowTasksSchema>;
+export type CompleteWorkflowTaskInput = z.infer<typeof CompleteWorkflowTaskSchema>;
@@ -9,7 +9,6 @@ export type {
 export type {
   CreateProjectInput,
   Project,
-  GetProjectsInput,
 } from "../schemas/project";
 
 export type {
@@ -1,7 +1,9 @@
 import { ReactNode, useState } from "react";
-import { Menu, X, Hop as Home, FolderOpen, Key, FileText, ChartBar as BarChart3, Settings, Users, LogOut, Bell, Search, User, QrCode } from "lucide-react";
+import { Menu, X, Hop as Home, FolderOpen, Key, FileText, ChartBar as BarChart3, Settings, Users, LogOut, Bell, Search, User, QrCode, Package, Wrench, ListChecks, Layers, LayoutTemplate, Bot } from "lucide-react";
 import { Link, useLocation } from "@tanstack/react-router";
+import { useMutation } from "@tanstack/react-query";
 import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
 import { NotificationCenter } from "~/components/NotificationCenter";
 import toast from "react-hot-toast";
 
@@ -14,6 +16,12 @@ const navigation = [
   { name: "Projects", href: "/projects", icon: FolderOpen },
   { name: "Key Management", href: "/keys", icon: Key },
   { name: "Content Hub", href: "/content", icon: FileText },
+  { name: "Assets", href: "/assets", icon: Package },
+  { name: "Maintenance", href: "/maintenance", icon: Wrench },
+  { name: "Tasks", href: "/tasks", icon: ListChecks },
+  { name: "Config Packs", href: "/config-packs", icon: Layers },
+  { name: "Templates", href: "/templates", icon: LayoutTemplate },
+  { name: "Service Accounts", href: "/service-accounts", icon: Bot },
   { name: "Scan Simulator", href: "/simulate-scan", icon: QrCode },
   { name: "Notifications", href: "/notifications", icon: Bell },
   { name: "Settings", href: "/settings", icon: Settings },
@@ -26,12 +34,20 @@ const adminNavigation = [
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { user, logout, isAdmin, getRoleLabel } = useAuthStore();
+  const { user, logout, refreshToken, isAdmin, getRoleLabel } = useAuthStore();
   const location = useLocation();
+  const trpc = useTRPC();
+
+  // Revokes the refresh token and clears the session cookie
+  const logoutMutation = useMutation(trpc.logout.mutationOptions({
+    onSettled: () => {
+      logout();
+      toast.success("Logged out successfully");
+    },
+  }));
 
   const handleLogout = () => {
-    logout();
-    toast.success("Logged out successfully");
+    logoutMutation.mutate({ refreshToken: refreshToken ?? undefined });
   };
 
   const isCurrentPath = (path: string) => {
@@ -1,11 +1,13 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Lock, Mail, Eye, EyeOff } from "lucide-react";
-import { useState } from "react";
+import { Lock, Mail, Eye, EyeOff, ShieldCheck } from "lucide-react";
+import { useState, type FormEvent } from "react";
 import { useMutation } from "@tanstack/react-query";
 import toast from "react-hot-toast";
+import type { inferRouterOutputs } from "@trpc/server";
 import { useTRPC } from "~/trpc/react";
+import type { AppRouter } from "~/server/trpc/root";
 import { useAuthStore } from "~/stores/auth";
 
 const loginSchema = z.object({
@@ -19,24 +21,85 @@ interface LoginFormProps {
   onSuccess?: () => void;
 }
 
+/** A completed sign-in, from `login` or from the second factor */
+type Session = Extract<inferRouterOutputs<AppRouter>["login"], { status: "AUTHENTICATED" }>;
+
+/** Sign-in waiting for a second factor or for enrolling one */
+interface MfaChallenge {
+  status: "MFA_REQUIRED" | "MFA_ENROLLMENT_REQUIRED";
+  challengeToken: string;
+}
+
+const inputClassName =
+  "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors";
+const submitClassName =
+  "w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed";
+
 export function LoginForm({ onSuccess }: LoginFormProps) {
   const [showPassword, setShowPassword] = useState(false);
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [code, setCode] = useState("");
+  const [recovery, setRecovery] = useState<{ codes: string[]; session: Omit<Session, "status"> } | null>(null);
   const trpc = useTRPC();
   const { login } = useAuthStore();
 
+  const finish = (session: Omit<Session, "status">) => {
+    login(session.user, session.token, session.refreshToken);
+    toast.success(`Welcome back, ${session.user.firstName}!`);
+    onSuccess?.();
+  };
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Login failed");
+  };
+
+  const enrollmentMutation = useMutation(trpc.mfa.beginEnrollment.mutationOptions({ onError }));
+
   const loginMutation = useMutation(
     trpc.login.mutationOptions({
       onSuccess: (data) => {
-        login(data.user, data.token);
-        toast.success(`Welcome back, ${data.user.firstName}!`);
-        onSuccess?.();
+        if (data.status === "AUTHENTICATED") {
+          finish(data);
+          return;
+        }
+        setChallenge(data);
+        setCode("");
+        if (data.status === "MFA_ENROLLMENT_REQUIRED") {
+          enrollmentMutation.mutate({ challengeToken: data.challengeToken });
+        }
       },
-      onError: (error) => {
-        toast.error(error.message || "Login failed");
+      onError,
+    })
+  );
+
+  const verifyMutation = useMutation(
+    trpc.mfa.verify.mutationOptions({
+      onSuccess: finish,
+      onError,
+    })
+  );
+
+  const confirmEnrollmentMutation = useMutation(
+    trpc.mfa.confirmEnrollment.mutationOptions({
+      onSuccess: (data) => {
+        if (data.session) {
+          setRecovery({ codes: data.recoveryCodes, session: data.session });
+        }
       },
+      onError,
     })
   );
 
+  const submitCode = (e: FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+    if (challenge.status === "MFA_REQUIRED") {
+      verifyMutation.mutate({ challengeToken: challenge.challengeToken, code });
+    } else {
+      confirmEnrollmentMutation.mutate({ challengeToken: challenge.challengeToken, code });
+    }
+  };
+
   const {
     register,
     handleSubmit,
@@ -63,6 +126,76 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
 
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+          {recovery ? (
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Save your recovery codes</h2>
+                <p className="mt-1 text-sm text-gray-600">
+                  Each code signs you in once if you lose your authenticator. They are shown only now.
+                </p>
+              </div>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 p-4 rounded-lg">
+                {recovery.codes.map((recoveryCode) => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <button type="button" onClick={() => finish(recovery.session)} className={submitClassName}>
+                Continue
+              </button>
+            </div>
+          ) : challenge ? (
+            <form onSubmit={submitCode} className="space-y-6">
+              <div className="flex items-start">
+                <ShieldCheck className="h-6 w-6 text-blue-600 mr-3 flex-shrink-0" />
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    {challenge.status === "MFA_REQUIRED" ? "Two-factor authentication" : "Set up two-factor authentication"}
+                  </h2>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {challenge.status === "MFA_REQUIRED"
+                      ? "Enter the code from your authenticator app, or one of your recovery codes."
+                      : "Your organisation requires a second factor for your role. Scan the QR code with an authenticator app and enter the code it shows."}
+                  </p>
+                </div>
+              </div>
+
+              {challenge.status === "MFA_ENROLLMENT_REQUIRED" && enrollmentMutation.data && (
+                <div className="text-center space-y-2">
+                  <img src={enrollmentMutation.data.qrCode} alt="Authenticator QR code" className="mx-auto h-48 w-48" />
+                  <p className="text-xs text-gray-500">
+                    Or enter this key: <span className="font-mono break-all">{enrollmentMutation.data.secret}</span>
+                  </p>
+                </div>
+              )}
+
+              <input
+                type="text"
+                inputMode={challenge.status === "MFA_REQUIRED" ? "text" : "numeric"}
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+                placeholder={challenge.status === "MFA_REQUIRED" ? "123456 or recovery code" : "123456"}
+              />
+
+              <button
+                type="submit"
+                disabled={!code.trim() || verifyMutation.isPending || confirmEnrollmentMutation.isPending}
+                className={submitClassName}
+              >
+                {challenge.status === "MFA_REQUIRED" ? "Verify" : "Enable and sign in"}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setChallenge(null)}
+                className="w-full text-sm text-gray-600 hover:text-gray-900"
+              >
+                Back to sign in
+              </button>
+            </form>
+          ) : (
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             <div>
               <label htmlFor="email" className="block text-sm font-semibold text-gray-700 mb-2">
@@ -112,7 +245,7 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
             <button
               type="submit"
               disabled={loginMutation.isPending}
-              className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 px-4 rounded-lg font-semibold hover:from-blue-700 hover:to-purple-700 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              className={submitClassName}
             >
               {loginMutation.isPending ? (
                 <div className="flex items-center justify-center">
@@ -124,6 +257,7 @@ export function LoginForm({ onSuccess }: LoginFormProps) {
               )}
             </button>
           </form>
+          )}
 
           <div className="mt-6 text-center text-sm text-gray-600">
             <p>Demo Credentials:</p>
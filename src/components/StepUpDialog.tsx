@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { useTRPC } from "~/trpc/react";
+import { useAuthStore } from "~/stores/auth";
+import { useStepUpStore } from "~/stores/stepUp";
+
+/**
+ * Re-authentication prompt for sensitive actions such as rotating or
+ * revoking keys; opened by the tRPC client when the server asks for a
+ * step-up, which then retries the action
+ */
+export function StepUpDialog() {
+  const trpc = useTRPC();
+  const { isOpen, settle } = useStepUpStore();
+  const setToken = useAuthStore((state) => state.setToken);
+  const [secret, setSecret] = useState("");
+
+  const statusQuery = useQuery(trpc.mfa.status.queryOptions(undefined, { enabled: isOpen }));
+  const mfaEnabled = statusQuery.data?.enabled ?? false;
+
+  const stepUpMutation = useMutation(
+    trpc.mfa.stepUp.mutationOptions({
+      onSuccess: (result) => {
+        setToken(result.token);
+        setSecret("");
+        settle(true);
+      },
+      onError: (error) => {
+        toast.error(error.message || "Re-authentication failed");
+      },
+    })
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const close = () => {
+    setSecret("");
+    settle(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+        <form
+          className="mt-3 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            stepUpMutation.mutate(mfaEnabled ? { code: secret } : { password: secret });
+          }}
+        >
+          <div className="flex items-start">
+            <ShieldCheck className="h-6 w-6 text-blue-600" />
+            <div className="ml-3">
+              <h3 className="text-lg font-medium text-gray-900">Confirm it's you</h3>
+              <p className="text-sm text-gray-500">
+                {mfaEnabled
+                  ? "Enter the code from your authenticator app, or one of your recovery codes, to continue."
+                  : "Enter your password to continue."}
+              </p>
+            </div>
+          </div>
+          <input
+            type={mfaEnabled ? "text" : "password"}
+            autoComplete={mfaEnabled ? "one-time-code" : "current-password"}
+            autoFocus
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={mfaEnabled ? "123456" : "Password"}
+            className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={close}
+              className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!secret.trim() || !statusQuery.data || stepUpMutation.isPending}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Continue
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
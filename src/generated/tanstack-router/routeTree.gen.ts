@@ -6,13 +6,20 @@
 
 import { Route as rootRouteImport } from './../../routes/__root'
 import { Route as IndexRouteImport } from './../../routes/index'
+import { Route as TemplatesIndexRouteImport } from './../../routes/templates/index'
+import { Route as TasksIndexRouteImport } from './../../routes/tasks/index'
 import { Route as SimulateScanIndexRouteImport } from './../../routes/simulate-scan/index'
 import { Route as SetupWizardIndexRouteImport } from './../../routes/setup-wizard/index'
+import { Route as SettingsIndexRouteImport } from './../../routes/settings/index'
+import { Route as ServiceAccountsIndexRouteImport } from './../../routes/service-accounts/index'
 import { Route as ProjectsIndexRouteImport } from './../../routes/projects/index'
 import { Route as NotificationsIndexRouteImport } from './../../routes/notifications/index'
+import { Route as MaintenanceIndexRouteImport } from './../../routes/maintenance/index'
 import { Route as KeysIndexRouteImport } from './../../routes/keys/index'
 import { Route as DashboardIndexRouteImport } from './../../routes/dashboard/index'
 import { Route as ContentIndexRouteImport } from './../../routes/content/index'
+import { Route as ConfigPacksIndexRouteImport } from './../../routes/config-packs/index'
+import { Route as AssetsIndexRouteImport } from './../../routes/assets/index'
 import { Route as AdminRoleManagerIndexRouteImport } from './../../routes/admin/role-manager/index'
 
 const IndexRoute = IndexRouteImport.update({
@@ -20,6 +27,16 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const TemplatesIndexRoute = TemplatesIndexRouteImport.update({
+  id: '/templates/',
+  path: '/templates/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const TasksIndexRoute = TasksIndexRouteImport.update({
+  id: '/tasks/',
+  path: '/tasks/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SimulateScanIndexRoute = SimulateScanIndexRouteImport.update({
   id: '/simulate-scan/',
   path: '/simulate-scan/',
@@ -30,6 +47,16 @@ const SetupWizardIndexRoute = SetupWizardIndexRouteImport.update({
   path: '/setup-wizard/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SettingsIndexRoute = SettingsIndexRouteImport.update({
+  id: '/settings/',
+  path: '/settings/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ServiceAccountsIndexRoute = ServiceAccountsIndexRouteImport.update({
+  id: '/service-accounts/',
+  path: '/service-accounts/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ProjectsIndexRoute = ProjectsIndexRouteImport.update({
   id: '/projects/',
   path: '/projects/',
@@ -40,6 +67,11 @@ const NotificationsIndexRoute = NotificationsIndexRouteImport.update({
   path: '/notifications/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MaintenanceIndexRoute = MaintenanceIndexRouteImport.update({
+  id: '/maintenance/',
+  path: '/maintenance/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const KeysIndexRoute = KeysIndexRouteImport.update({
   id: '/keys/',
   path: '/keys/',
@@ -55,6 +87,16 @@ const ContentIndexRoute = ContentIndexRouteImport.update({
   path: '/content/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ConfigPacksIndexRoute = ConfigPacksIndexRouteImport.update({
+  id: '/config-packs/',
+  path: '/config-packs/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AssetsIndexRoute = AssetsIndexRouteImport.update({
+  id: '/assets/',
+  path: '/assets/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminRoleManagerIndexRoute = AdminRoleManagerIndexRouteImport.update({
   id: '/admin/role-manager/',
   path: '/admin/role-manager/',
@@ -63,83 +105,132 @@ const AdminRoleManagerIndexRoute = AdminRoleManagerIndexRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/assets': typeof AssetsIndexRoute
+  '/config-packs': typeof ConfigPacksIndexRoute
   '/content': typeof ContentIndexRoute
   '/dashboard': typeof DashboardIndexRoute
   '/keys': typeof KeysIndexRoute
+  '/maintenance': typeof MaintenanceIndexRoute
   '/notifications': typeof NotificationsIndexRoute
   '/projects': typeof ProjectsIndexRoute
+  '/service-accounts': typeof ServiceAccountsIndexRoute
+  '/settings': typeof SettingsIndexRoute
   '/setup-wizard': typeof SetupWizardIndexRoute
   '/simulate-scan': typeof SimulateScanIndexRoute
+  '/tasks': typeof TasksIndexRoute
+  '/templates': typeof TemplatesIndexRoute
   '/admin/role-manager': typeof AdminRoleManagerIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/assets': typeof AssetsIndexRoute
+  '/config-packs': typeof ConfigPacksIndexRoute
   '/content': typeof ContentIndexRoute
   '/dashboard': typeof DashboardIndexRoute
   '/keys': typeof KeysIndexRoute
+  '/maintenance': typeof MaintenanceIndexRoute
   '/notifications': typeof NotificationsIndexRoute
   '/projects': typeof ProjectsIndexRoute
+  '/service-accounts': typeof ServiceAccountsIndexRoute
+  '/settings': typeof SettingsIndexRoute
   '/setup-wizard': typeof SetupWizardIndexRoute
   '/simulate-scan': typeof SimulateScanIndexRoute
+  '/tasks': typeof TasksIndexRoute
+  '/templates': typeof TemplatesIndexRoute
   '/admin/role-manager': typeof AdminRoleManagerIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/assets/': typeof AssetsIndexRoute
+  '/config-packs/': typeof ConfigPacksIndexRoute
   '/content/': typeof ContentIndexRoute
   '/dashboard/': typeof DashboardIndexRoute
   '/keys/': typeof KeysIndexRoute
+  '/maintenance/': typeof MaintenanceIndexRoute
   '/notifications/': typeof NotificationsIndexRoute
   '/projects/': typeof ProjectsIndexRoute
+  '/service-accounts/': typeof ServiceAccountsIndexRoute
+  '/settings/': typeof SettingsIndexRoute
   '/setup-wizard/': typeof SetupWizardIndexRoute
   '/simulate-scan/': typeof SimulateScanIndexRoute
+  '/tasks/': typeof TasksIndexRoute
+  '/templates/': typeof TemplatesIndexRoute
   '/admin/role-manager/': typeof AdminRoleManagerIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/assets'
+    | '/config-packs'
     | '/content'
     | '/dashboard'
     | '/keys'
+    | '/maintenance'
     | '/notifications'
     | '/projects'
+    | '/service-accounts'
+    | '/settings'
     | '/setup-wizard'
     | '/simulate-scan'
+    | '/tasks'
+    | '/templates'
     | '/admin/role-manager'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/assets'
+    | '/config-packs'
     | '/content'
     | '/dashboard'
     | '/keys'
+    | '/maintenance'
     | '/notifications'
     | '/projects'
+    | '/service-accounts'
+    | '/settings'
     | '/setup-wizard'
     | '/simulate-scan'
+    | '/tasks'
+    | '/templates'
     | '/admin/role-manager'
   id:
     | '__root__'
     | '/'
+    | '/assets/'
+    | '/config-packs/'
     | '/content/'
     | '/dashboard/'
     | '/keys/'
+    | '/maintenance/'
     | '/notifications/'
     | '/projects/'
+    | '/service-accounts/'
+    | '/settings/'
     | '/setup-wizard/'
     | '/simulate-scan/'
+    | '/tasks/'
+    | '/templates/'
     | '/admin/role-manager/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  AssetsIndexRoute: typeof AssetsIndexRoute
+  ConfigPacksIndexRoute: typeof ConfigPacksIndexRoute
   ContentIndexRoute: typeof ContentIndexRoute
   DashboardIndexRoute: typeof DashboardIndexRoute
   KeysIndexRoute: typeof KeysIndexRoute
+  MaintenanceIndexRoute: typeof MaintenanceIndexRoute
   NotificationsIndexRoute: typeof NotificationsIndexRoute
   ProjectsIndexRoute: typeof ProjectsIndexRoute
+  ServiceAccountsIndexRoute: typeof ServiceAccountsIndexRoute
+  SettingsIndexRoute: typeof SettingsIndexRoute
   SetupWizardIndexRoute: typeof SetupWizardIndexRoute
   SimulateScanIndexRoute: typeof SimulateScanIndexRoute
+  TasksIndexRoute: typeof TasksIndexRoute
+  TemplatesIndexRoute: typeof TemplatesIndexRoute
   AdminRoleManagerIndexRoute: typeof AdminRoleManagerIndexRoute
 }
 
@@ -152,6 +243,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/templates/': {
+      id: '/templates/'
+      path: '/templates'
+      fullPath: '/templates'
+      preLoaderRoute: typeof TemplatesIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/tasks/': {
+      id: '/tasks/'
+      path: '/tasks'
+      fullPath: '/tasks'
+      preLoaderRoute: typeof TasksIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/simulate-scan/': {
       id: '/simulate-scan/'
       path: '/simulate-scan'
@@ -166,6 +271,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SetupWizardIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/settings/': {
+      id: '/settings/'
+      path: '/settings'
+      fullPath: '/settings'
+      preLoaderRoute: typeof SettingsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/service-accounts/': {
+      id: '/service-accounts/'
+      path: '/service-accounts'
+      fullPath: '/service-accounts'
+      preLoaderRoute: typeof ServiceAccountsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/projects/': {
       id: '/projects/'
       path: '/projects'
@@ -180,6 +299,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof NotificationsIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/maintenance/': {
+      id: '/maintenance/'
+      path: '/maintenance'
+      fullPath: '/maintenance'
+      preLoaderRoute: typeof MaintenanceIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/keys/': {
       id: '/keys/'
       path: '/keys'
@@ -201,6 +327,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ContentIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/config-packs/': {
+      id: '/config-packs/'
+      path: '/config-packs'
+      fullPath: '/config-packs'
+      preLoaderRoute: typeof ConfigPacksIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/assets/': {
+      id: '/assets/'
+      path: '/assets'
+      fullPath: '/assets'
+      preLoaderRoute: typeof AssetsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/role-manager/': {
       id: '/admin/role-manager/'
       path: '/admin/role-manager'
@@ -213,13 +353,20 @@ declare module '@tanstack/react-router' {
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  AssetsIndexRoute: AssetsIndexRoute,
+  ConfigPacksIndexRoute: ConfigPacksIndexRoute,
   ContentIndexRoute: ContentIndexRoute,
   DashboardIndexRoute: DashboardIndexRoute,
   KeysIndexRoute: KeysIndexRoute,
+  MaintenanceIndexRoute: MaintenanceIndexRoute,
   NotificationsIndexRoute: NotificationsIndexRoute,
   ProjectsIndexRoute: ProjectsIndexRoute,
+  ServiceAccountsIndexRoute: ServiceAccountsIndexRoute,
+  SettingsIndexRoute: SettingsIndexRoute,
   SetupWizardIndexRoute: SetupWizardIndexRoute,
   SimulateScanIndexRoute: SimulateScanIndexRoute,
+  TasksIndexRoute: TasksIndexRoute,
+  TemplatesIndexRoute: TemplatesIndexRoute,
   AdminRoleManagerIndexRoute: AdminRoleManagerIndexRoute,
 }
 export const routeTree = rootRouteImport
@@ -5,6 +5,7 @@ import {
 } from "@tanstack/react-router";
 import { Toaster } from "react-hot-toast";
 import { TRPCReactProvider } from "~/trpc/react";
+import { StepUpDialog } from "~/components/StepUpDialog";
 
 export const Route = createRootRoute({
   component: RootComponent,
@@ -27,6 +28,7 @@ function RootComponent() {
   return (
     <TRPCReactProvider>
       <Toaster position="top-right" />
+      <StepUpDialog />
       <Outlet />
     </TRPCReactProvider>
   );
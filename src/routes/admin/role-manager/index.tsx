@@ -5,7 +5,8 @@ import { useAuthStore } from "~/stores/auth";
 import { useTRPC } from "~/trpc/react";
 import { DashboardLayout } from "~/components/Layout/DashboardLayout";
 import toast from "react-hot-toast";
-import { Shield, Users, CreditCard as Edit3, Save, X, Plus, Settings, Eye, EyeOff, Hash } from "lucide-react";
+import { Shield, Users, CreditCard as Edit3, Save, X, Plus, Settings, Eye, EyeOff, Hash, Lock, RotateCcw } from "lucide-react";
+import { PERMISSIONS, type ArchetypeCode, type Permission } from "@optropic/shared";
 
 interface RoleArchetype {
   id: number;
@@ -40,16 +41,16 @@ interface EditingMapping {
 }
 
 function RoleManager() {
-  const { isAuthenticated, token, isAdmin } = useAuthStore();
+  const { isAuthenticated, isAdmin } = useAuthStore();
   const [editingMapping, setEditingMapping] = useState<EditingMapping | null>(null);
   const [selectedTenantId, setSelectedTenantId] = useState<number | null>(null);
+  const [permissionDrafts, setPermissionDrafts] = useState<Record<string, Permission[]>>({});
   
   const trpc = useTRPC();
 
   // Fetch role archetypes
   const archetypesQuery = useQuery(
     trpc.getRoleArchetypes.queryOptions({
-      token: token!,
       includeInactive: true,
     }, {
       enabled: isAuthenticated && isAdmin(),
@@ -59,7 +60,6 @@ function RoleManager() {
   // Fetch tenant role mappings
   const mappingsQuery = useQuery(
     trpc.getTenantRoleMappings.queryOptions({
-      token: token!,
       tenantId: selectedTenantId || undefined,
     }, {
       enabled: isAuthenticated && isAdmin(),
@@ -89,6 +89,44 @@ function RoleManager() {
     },
   }));
 
+  // Fetch the archetype × permission matrix
+  const matrixQuery = useQuery(
+    trpc.permissions.matrix.queryOptions({
+      tenantId: selectedTenantId || undefined,
+    }, {
+      enabled: isAuthenticated && isAdmin(),
+    })
+  );
+
+  const clearDraft = (code: string) => {
+    setPermissionDrafts((drafts) => {
+      const { [code]: _, ...rest } = drafts;
+      return rest;
+    });
+  };
+
+  const updatePermissionsMutation = useMutation(trpc.permissions.updateRole.mutationOptions({
+    onSuccess: (role) => {
+      toast.success(`Permissions of ${role.label} saved`);
+      clearDraft(role.code);
+      void matrixQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save permissions");
+    },
+  }));
+
+  const resetPermissionsMutation = useMutation(trpc.permissions.resetRole.mutationOptions({
+    onSuccess: (role) => {
+      toast.success(`Permissions of ${role.label} reset to defaults`);
+      clearDraft(role.code);
+      void matrixQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to reset permissions");
+    },
+  }));
+
   // Access control - now after all hooks
   if (!isAuthenticated || !isAdmin()) {
     return <Navigate to="/dashboard" />;
@@ -96,6 +134,34 @@ function RoleManager() {
 
   const archetypes = archetypesQuery.data || [];
   const mappings = mappingsQuery.data || [];
+  const matrix = matrixQuery.data || [];
+
+  const permissionsOf = (role: (typeof matrix)[number]) => permissionDrafts[role.code] ?? role.permissions;
+
+  const handleTogglePermission = (role: (typeof matrix)[number], permission: Permission) => {
+    const current = permissionsOf(role);
+    setPermissionDrafts({
+      ...permissionDrafts,
+      [role.code]: current.includes(permission)
+        ? current.filter((candidate) => candidate !== permission)
+        : [...current, permission],
+    });
+  };
+
+  const handleSavePermissions = (role: (typeof matrix)[number]) => {
+    updatePermissionsMutation.mutate({
+      tenantId: selectedTenantId || undefined,
+      archetypeCode: role.code as ArchetypeCode,
+      permissions: permissionsOf(role),
+    });
+  };
+
+  const handleResetPermissions = (role: (typeof matrix)[number]) => {
+    resetPermissionsMutation.mutate({
+      tenantId: selectedTenantId || undefined,
+      archetypeCode: role.code as ArchetypeCode,
+    });
+  };
 
   const handleEdit = (mapping: TenantRoleMapping) => {
     setEditingMapping({
@@ -110,7 +176,6 @@ function RoleManager() {
     if (!editingMapping) return;
 
     updateMutation.mutate({
-      token: token!,
       mappingId: editingMapping.id,
       customLabel: editingMapping.customLabel,
       icon: editingMapping.icon,
@@ -124,7 +189,6 @@ function RoleManager() {
 
   const handleToggleEnabled = (mapping: TenantRoleMapping) => {
     updateMutation.mutate({
-      token: token!,
       mappingId: mapping.id,
       isEnabled: !mapping.isEnabled,
     });
@@ -405,6 +469,108 @@ function RoleManager() {
               )}
             </div>
           </div>
+
+          {/* Permission Matrix */}
+          <div className="mt-8">
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Permission Matrix</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  What each role may do in {selectedTenantId ? "the selected tenant" : "your tenant"}. Highlighted cells
+                  differ from the role's defaults; Administrator permissions are fixed.
+                </p>
+              </div>
+
+              {matrixQuery.isLoading ? (
+                <div className="p-6 text-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                  <p className="mt-2 text-sm text-gray-500">Loading permissions...</p>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Permission
+                        </th>
+                        {matrix.map((role) => (
+                          <th
+                            key={role.code}
+                            className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            <div className="flex items-center justify-center">
+                              {role.locked && <Lock className="h-3 w-3 mr-1" />}
+                              {role.label}
+                            </div>
+                            {!role.isEnabled && (
+                              <div className="mt-1 text-[10px] normal-case text-gray-400">Disabled</div>
+                            )}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {PERMISSIONS.map((permission) => (
+                        <tr key={permission} className="hover:bg-gray-50">
+                          <td className="px-6 py-2 whitespace-nowrap text-sm font-mono text-gray-700">
+                            {permission}
+                          </td>
+                          {matrix.map((role) => {
+                            const checked = permissionsOf(role).includes(permission);
+                            const overridden = checked !== role.defaults.includes(permission);
+                            return (
+                              <td
+                                key={role.code}
+                                className={`px-4 py-2 text-center ${overridden ? "bg-amber-50" : ""}`}
+                              >
+                                <input
+                                  type="checkbox"
+                                  checked={checked}
+                                  disabled={role.locked}
+                                  onChange={() => handleTogglePermission(role, permission)}
+                                  className="h-4 w-4 text-blue-600 border-gray-300 rounded disabled:opacity-50"
+                                />
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot className="bg-gray-50">
+                      <tr>
+                        <td className="px-6 py-3" />
+                        {matrix.map((role) => (
+                          <td key={role.code} className="px-4 py-3 text-center">
+                            {!role.locked && (
+                              <div className="flex items-center justify-center space-x-2">
+                                <button
+                                  onClick={() => handleSavePermissions(role)}
+                                  disabled={!permissionDrafts[role.code] || updatePermissionsMutation.isPending}
+                                  title="Save"
+                                  className="text-green-600 hover:text-green-900 disabled:opacity-30"
+                                >
+                                  <Save className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleResetPermissions(role)}
+                                  disabled={resetPermissionsMutation.isPending}
+                                  title="Reset to defaults"
+                                  className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                </button>
+                              </div>
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
         </div>
       </div>
     </DashboardLayout>
@@ -0,0 +1,637 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { AssetType, PackagingLevel } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { Package, Plus, Search, Upload, Trash2, Boxes, ChevronRight, History, TriangleAlert as AlertTriangle } from "lucide-react";
+import toast from "react-hot-toast";
+
+const ASSET_TYPES: { value: AssetType; label: string }[] = [
+  { value: "PRODUCT", label: "Product" },
+  { value: "PACKAGE", label: "Package" },
+  { value: "BATCH", label: "Batch" },
+  { value: "EQUIPMENT", label: "Equipment" },
+  { value: "DOCUMENT", label: "Document" },
+];
+
+const PACKAGING_LEVELS: { value: PackagingLevel; label: string }[] = [
+  { value: "ITEM", label: "Item" },
+  { value: "CASE", label: "Case" },
+  { value: "PALLET", label: "Pallet" },
+];
+
+const CSV_TEMPLATE = "assetName,assetType,gtin,batchNumber,serialNumber,expiryDate,packagingLevel,sscc,parentSscc\n";
+
+interface AssetForm {
+  assetName: string;
+  assetType: AssetType;
+  productId: string;
+  gtin: string;
+  batchNumber: string;
+  serialNumber: string;
+  expiryDate: string;
+  packagingLevel: PackagingLevel | "";
+  sscc: string;
+}
+
+const emptyForm: AssetForm = {
+  assetName: "",
+  assetType: "PRODUCT",
+  productId: "",
+  gtin: "",
+  batchNumber: "",
+  serialNumber: "",
+  expiryDate: "",
+  packagingLevel: "",
+  sscc: "",
+};
+
+interface ImportForm {
+  format: "CSV" | "JSON";
+  data: string;
+}
+
+interface ContentsNode {
+  id: number;
+  assetName: string;
+  packagingLevel: PackagingLevel | null;
+  sscc: string | null;
+  gtin: string | null;
+  serialNumber: string | null;
+  childCount: number;
+  children: ContentsNode[];
+}
+
+function ContentsTree({ node }: { node: ContentsNode }) {
+  return (
+    <li className="py-1">
+      <div className="flex items-center text-sm text-gray-900">
+        {node.childCount > 0 ? <Boxes className="h-4 w-4 mr-2 text-blue-600" /> : <Package className="h-4 w-4 mr-2 text-gray-400" />}
+        <span className="font-medium">{node.assetName}</span>
+        <span className="ml-2 text-xs text-gray-500">
+          {node.sscc ? `SSCC ${node.sscc}` : [node.gtin, node.serialNumber].filter(Boolean).join(" · ")}
+        </span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-6 border-l border-gray-200 pl-3">
+          {node.children.map((child) => (
+            <ContentsTree key={child.id} node={child} />
+          ))}
+          {node.childCount > node.children.length && (
+            <li className="py-1 text-xs text-gray-500">{node.childCount - node.children.length} more</li>
+          )}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function AssetManagement() {
+  const { isAuthenticated, canManage } = useAuthStore();
+  const trpc = useTRPC();
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedType, setSelectedType] = useState("ALL");
+  const [selectedLevel, setSelectedLevel] = useState("ALL");
+  const [form, setForm] = useState<AssetForm | null>(null);
+  const [importForm, setImportForm] = useState<ImportForm | null>(null);
+  const [contentsFor, setContentsFor] = useState<number | null>(null);
+  const [timelineFor, setTimelineFor] = useState<number | null>(null);
+
+  const allowed = isAuthenticated && canManage();
+
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: allowed })
+  );
+  const projects = projectsQuery.data || [];
+  const activeProjectId = projectId ?? projects[0]?.id ?? null;
+
+  const assetsQuery = useQuery(
+    trpc.assets.list.queryOptions(
+      {
+        projectId: activeProjectId ?? 0,
+        assetType: selectedType === "ALL" ? undefined : (selectedType as AssetType),
+        packagingLevel: selectedLevel === "ALL" ? undefined : (selectedLevel as PackagingLevel),
+        search: searchTerm || undefined,
+      },
+      { enabled: allowed && activeProjectId !== null }
+    )
+  );
+  const contentsQuery = useQuery(
+    trpc.assets.contents.queryOptions({ assetId: contentsFor ?? 0 }, { enabled: contentsFor !== null })
+  );
+  const timelineQuery = useQuery(
+    trpc.epcis.timeline.queryOptions({ assetId: timelineFor ?? 0 }, { enabled: timelineFor !== null })
+  );
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const createMutation = useMutation(
+    trpc.assets.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Asset created");
+        setForm(null);
+        void assetsQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const deleteMutation = useMutation(
+    trpc.assets.delete.mutationOptions({
+      onSuccess: () => {
+        toast.success("Asset deleted");
+        void assetsQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const importMutation = useMutation(
+    trpc.assets.import.mutationOptions({
+      onSuccess: (result) => {
+        if (result.errors.length > 0) {
+          toast.error(`${result.total - result.valid} of ${result.total} rows have errors`);
+        } else if (result.dryRun) {
+          toast.success(`All ${result.total} rows are valid`);
+        } else {
+          toast.success(`Imported ${result.imported} assets`);
+          setImportForm(null);
+          void assetsQuery.refetch();
+        }
+      },
+      onError,
+    })
+  );
+
+  if (!allowed) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const assets = assetsQuery.data?.assets || [];
+  const total = assetsQuery.data?.total ?? 0;
+
+  const handleCreate = () => {
+    if (!form || activeProjectId === null) return;
+    createMutation.mutate({
+      projectId: activeProjectId,
+      assetName: form.assetName,
+      assetType: form.assetType,
+      productId: form.productId || undefined,
+      gtin: form.gtin || undefined,
+      batchNumber: form.batchNumber || undefined,
+      serialNumber: form.serialNumber || undefined,
+      expiryDate: form.expiryDate || undefined,
+      packagingLevel: form.packagingLevel || undefined,
+      sscc: form.sscc || undefined,
+    });
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!importForm || activeProjectId === null) return;
+    importMutation.mutate({ projectId: activeProjectId, format: importForm.format, data: importForm.data, dryRun });
+  };
+
+  const readImportFile = async (file: File) => {
+    const data = await file.text();
+    setImportForm({ format: file.name.toLowerCase().endsWith(".json") ? "JSON" : "CSV", data });
+    importMutation.reset();
+  };
+
+  const textField = (label: string, key: keyof AssetForm, placeholder?: string, type = "text") =>
+    form && (
+      <div>
+        <label className="block text-sm font-medium text-gray-700">{label}</label>
+        <input
+          type={type}
+          placeholder={placeholder}
+          value={form[key]}
+          onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+    );
+
+  const importErrors = importMutation.data?.errors ?? [];
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Assets
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Manage products, batches and serialized items, and how they are packed into cases and pallets.
+              </p>
+            </div>
+            <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+              <select
+                value={activeProjectId ?? ""}
+                onChange={(e) => setProjectId(Number(e.target.value))}
+                className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+              >
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                disabled={activeProjectId === null}
+                onClick={() => {
+                  importMutation.reset();
+                  setImportForm({ format: "CSV", data: CSV_TEMPLATE });
+                }}
+                className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                <Upload className="-ml-1 mr-2 h-5 w-5" />
+                Import
+              </button>
+              <button
+                type="button"
+                disabled={activeProjectId === null}
+                onClick={() => setForm(emptyForm)}
+                className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+              >
+                <Plus className="-ml-1 mr-2 h-5 w-5" />
+                Add Asset
+              </button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="mt-6 flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  placeholder="Search name, GTIN, batch, serial or SSCC..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-4">
+              <select
+                value={selectedType}
+                onChange={(e) => setSelectedType(e.target.value)}
+                className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+              >
+                <option value="ALL">All Types</option>
+                {ASSET_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={selectedLevel}
+                onChange={(e) => setSelectedLevel(e.target.value)}
+                className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+              >
+                <option value="ALL">All Levels</option>
+                {PACKAGING_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Asset Table */}
+          <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Asset</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">GTIN</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Batch / Serial</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Packaging</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Codes</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {assets.map((asset) => (
+                    <tr key={asset.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{asset.assetName}</div>
+                        <div className="text-xs text-gray-500">
+                          {ASSET_TYPES.find((type) => type.value === asset.assetType)?.label ?? asset.assetType}
+                          {asset.productId && ` · ${asset.productId}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">{asset.gtin ?? "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {[asset.batchNumber, asset.serialNumber].filter(Boolean).join(" / ") || "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {asset.packagingLevel ? (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {PACKAGING_LEVELS.find((level) => level.value === asset.packagingLevel)?.label}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                        {asset.sscc && <div className="mt-1 text-xs font-mono">{asset.sscc}</div>}
+                        {asset.parentId !== null && <div className="mt-1 text-xs">Packed</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{asset.codeCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <div className="flex items-center justify-end space-x-2">
+                          {asset.childCount > 0 && (
+                            <button
+                              onClick={() => setContentsFor(asset.id)}
+                              className="inline-flex items-center text-blue-600 hover:text-blue-900"
+                              title="Show contents"
+                            >
+                              {asset.childCount}
+                              <ChevronRight className="h-4 w-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setTimelineFor(asset.id)}
+                            className="text-gray-600 hover:text-gray-900"
+                            title="Supply chain history"
+                          >
+                            <History className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (confirm(`Delete ${asset.assetName}?`)) deleteMutation.mutate({ assetId: asset.id });
+                            }}
+                            disabled={asset.codeCount > 0 || asset.childCount > 0}
+                            className="text-red-600 hover:text-red-900 disabled:text-gray-300"
+                            title={asset.codeCount > 0 ? "Assets with codes cannot be deleted" : "Delete"}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {total > assets.length && (
+              <div className="px-6 py-3 text-sm text-gray-500 border-t border-gray-200">
+                Showing {assets.length} of {total} assets
+              </div>
+            )}
+          </div>
+
+          {assets.length === 0 && (
+            <div className="text-center py-12 bg-white rounded-lg border border-gray-200 mt-6">
+              <Package className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No assets found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {searchTerm || selectedType !== "ALL" || selectedLevel !== "ALL"
+                  ? "Try adjusting your search or filter criteria."
+                  : "Add an asset or import a CSV to get started."}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Create Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">Add Asset</h3>
+              {textField("Name", "assetName")}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Type</label>
+                <select
+                  value={form.assetType}
+                  onChange={(e) => setForm({ ...form, assetType: e.target.value as AssetType })}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {ASSET_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {textField("Product ID", "productId")}
+              {textField("GTIN", "gtin", "8, 12, 13 or 14 digits")}
+              <div className="grid grid-cols-2 gap-3">
+                {textField("Batch / lot", "batchNumber")}
+                {textField("Serial", "serialNumber")}
+              </div>
+              {textField("Expiry date", "expiryDate", undefined, "date")}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Packaging level</label>
+                <select
+                  value={form.packagingLevel}
+                  onChange={(e) => setForm({ ...form, packagingLevel: e.target.value as PackagingLevel | "" })}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">None</option>
+                  {PACKAGING_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {(form.packagingLevel === "CASE" || form.packagingLevel === "PALLET") &&
+                textField("SSCC", "sscc", "18 digits")}
+              <div className="flex items-center justify-end space-x-2">
+                <button
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCreate}
+                  disabled={!form.assetName || createMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {createMutation.isPending ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Import Modal */}
+      {importForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-10 mx-auto p-5 border w-[40rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">Import Assets</h3>
+              <div className="flex items-center space-x-3">
+                <select
+                  value={importForm.format}
+                  onChange={(e) => setImportForm({ ...importForm, format: e.target.value as "CSV" | "JSON" })}
+                  className="block pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="CSV">CSV</option>
+                  <option value="JSON">JSON</option>
+                </select>
+                <input
+                  type="file"
+                  accept=".csv,.json,text/csv,application/json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void readImportFile(file);
+                  }}
+                  className="text-sm text-gray-600"
+                />
+              </div>
+              <textarea
+                rows={10}
+                value={importForm.data}
+                onChange={(e) => setImportForm({ ...importForm, data: e.target.value })}
+                className="block w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500">
+                Cases and pallets need an SSCC; rows join a case or pallet through parentSscc. Nothing is imported
+                while any row has errors.
+              </p>
+              {importErrors.length > 0 && (
+                <div className="max-h-48 overflow-y-auto border border-red-200 rounded-md">
+                  <table className="min-w-full text-xs">
+                    <thead className="bg-red-50 text-red-800">
+                      <tr>
+                        <th className="px-3 py-1 text-left">Row</th>
+                        <th className="px-3 py-1 text-left">Field</th>
+                        <th className="px-3 py-1 text-left">Problem</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-red-100">
+                      {importErrors.map((error, index) => (
+                        <tr key={index}>
+                          <td className="px-3 py-1">{error.row}</td>
+                          <td className="px-3 py-1 font-mono">{error.field ?? ""}</td>
+                          <td className="px-3 py-1">
+                            <AlertTriangle className="inline h-3 w-3 mr-1 text-red-500" />
+                            {error.message}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="flex items-center justify-end space-x-2">
+                <button
+                  onClick={() => setImportForm(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => runImport(true)}
+                  disabled={importMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Validate
+                </button>
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={importMutation.isPending}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {importMutation.isPending ? "Importing..." : "Import"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Contents Modal */}
+      {contentsFor !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 text-center mb-4">Contents</h3>
+            {contentsQuery.data ? (
+              <ul className="max-h-96 overflow-y-auto">
+                <ContentsTree node={contentsQuery.data} />
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 text-center">Loading...</p>
+            )}
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => setContentsFor(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Custody Timeline Modal */}
+      {timelineFor !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[40rem] shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 text-center mb-4">Supply Chain History</h3>
+            {!timelineQuery.data ? (
+              <p className="text-sm text-gray-500 text-center">Loading...</p>
+            ) : timelineQuery.data.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center">No EPCIS events recorded for this asset</p>
+            ) : (
+              <ol className="max-h-96 overflow-y-auto border-l-2 border-blue-200 ml-2">
+                {timelineQuery.data.map((step) => (
+                  <li key={step.eventId} className="pl-4 pb-4">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-900">
+                        {step.bizStep ?? step.eventType.toLowerCase()}
+                        {step.disposition && <span className="ml-2 text-xs text-gray-500">{step.disposition}</span>}
+                      </span>
+                      <span className="text-xs text-gray-500">{new Date(step.eventTime).toLocaleString()}</span>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500 break-all">
+                      {[
+                        step.location,
+                        step.possessor && `Held by ${step.possessor}`,
+                        step.owner && `Owned by ${step.owner}`,
+                        step.via && `Via ${step.via.sscc ? `SSCC ${step.via.sscc}` : step.via.assetName}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => setTimelineFor(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/assets/")({
+  component: AssetManagement,
+});
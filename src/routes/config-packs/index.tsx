@@ -0,0 +1,295 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { ConfigPackStatus } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { Layers, GitCompare, Pin, RotateCcw, Send, Archive, FilePlus } from "lucide-react";
+import toast from "react-hot-toast";
+
+const STATUS_STYLES: Record<ConfigPackStatus, string> = {
+  DRAFT: "bg-yellow-100 text-yellow-800",
+  PUBLISHED: "bg-green-100 text-green-800",
+  DEPRECATED: "bg-gray-100 text-gray-800",
+};
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+function ChangeList({ label, added, removed, changed = [] }: { label: string; added: string[]; removed: string[]; changed?: string[] }) {
+  if (added.length + removed.length + changed.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900">{label}</h4>
+      <ul className="mt-1 space-y-0.5 text-xs">
+        {added.map((item) => (
+          <li key={`+${item}`} className="text-green-700">+ {item}</li>
+        ))}
+        {removed.map((item) => (
+          <li key={`-${item}`} className="text-red-700">− {item}</li>
+        ))}
+        {changed.map((item) => (
+          <li key={`~${item}`} className="text-blue-700">~ {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ConfigPacks() {
+  const { isAuthenticated, canManage } = useAuthStore();
+  const trpc = useTRPC();
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [diffIds, setDiffIds] = useState<{ fromId: number; toId: number } | null>(null);
+
+  const managing = isAuthenticated && canManage();
+
+  const packsQuery = useQuery(trpc.configPacks.list.queryOptions({}, { enabled: isAuthenticated }));
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: managing })
+  );
+  const diffQuery = useQuery(
+    trpc.configPacks.diff.queryOptions(diffIds ?? { fromId: 0, toId: 0 }, { enabled: diffIds !== null })
+  );
+
+  const projects = projectsQuery.data || [];
+  const activeProject = projects.find((project) => project.id === projectId) ?? projects[0] ?? null;
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const refresh = () => {
+    void packsQuery.refetch();
+    void projectsQuery.refetch();
+  };
+
+  const mutationOptions = (message: string) => ({
+    onSuccess: () => {
+      toast.success(message);
+      refresh();
+    },
+    onError,
+  });
+
+  const publishMutation = useMutation(trpc.configPacks.publish.mutationOptions(mutationOptions("Version published")));
+  const deprecateMutation = useMutation(
+    trpc.configPacks.deprecate.mutationOptions(mutationOptions("Version deprecated"))
+  );
+  const createVersionMutation = useMutation(
+    trpc.configPacks.createVersion.mutationOptions(mutationOptions("Draft version created"))
+  );
+  const pinMutation = useMutation(trpc.configPacks.pin.mutationOptions(mutationOptions("Project pinned")));
+  const unpinMutation = useMutation(trpc.configPacks.unpin.mutationOptions(mutationOptions("Project unpinned")));
+  const rollbackMutation = useMutation(
+    trpc.configPacks.rollback.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(
+          `Published as version ${result.configPack.version}; ${result.repinnedProjectIds.length} project${result.repinnedProjectIds.length !== 1 ? "s" : ""} re-pinned`
+        );
+        refresh();
+      },
+      onError,
+    })
+  );
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" />;
+  }
+
+  const packs = packsQuery.data || [];
+  const latestVersions = new Map<number, number>();
+  for (const pack of packs) {
+    latestVersions.set(pack.lineageId, Math.max(latestVersions.get(pack.lineageId) ?? 0, pack.version));
+  }
+  const diff = diffQuery.data;
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Config Packs
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Versions of your config packs. Published versions are immutable; projects and their devices run the version they are pinned to.
+              </p>
+            </div>
+            {managing && (
+              <div className="mt-4 flex items-center space-x-3 md:mt-0 md:ml-4">
+                <select
+                  value={activeProject?.id ?? ""}
+                  onChange={(e) => setProjectId(Number(e.target.value))}
+                  className="block pl-3 pr-10 py-2 text-sm border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                >
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+                {activeProject?.configPackId && (
+                  <button
+                    type="button"
+                    onClick={() => unpinMutation.mutate({ projectId: activeProject.id })}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Unpin
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Versions */}
+          <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+            <ul className="divide-y divide-gray-200">
+              {packs.map((pack) => (
+                <li key={pack.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {pack.name} <span className="text-gray-500">v{pack.version}</span>
+                      {activeProject?.configPackId === pack.id && (
+                        <span className="ml-2 inline-flex items-center text-xs text-blue-700">
+                          <Pin className="mr-1 h-3 w-3" />
+                          pinned to {activeProject.name}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {pack.useCase.toLowerCase()} · {pack.pinnedCount} pinned project{pack.pinnedCount !== 1 ? "s" : ""}
+                      {pack.publishedAt && ` · published ${formatTime(pack.publishedAt)}`}
+                      {pack.deprecatedAt && ` · deprecated ${formatTime(pack.deprecatedAt)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[pack.status]}`}>
+                      {pack.status.toLowerCase()}
+                    </span>
+                    {pack.basedOnId !== null && (
+                      <button
+                        onClick={() => setDiffIds({ fromId: pack.basedOnId ?? 0, toId: pack.id })}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Changes from the previous version"
+                      >
+                        <GitCompare className="h-4 w-4" />
+                      </button>
+                    )}
+                    {managing && pack.status === "DRAFT" && (
+                      <button
+                        onClick={() => publishMutation.mutate({ configPackId: pack.id })}
+                        className="text-green-600 hover:text-green-900"
+                        title="Publish"
+                      >
+                        <Send className="h-4 w-4" />
+                      </button>
+                    )}
+                    {managing && pack.status !== "DRAFT" && (
+                      <button
+                        onClick={() => createVersionMutation.mutate({ fromId: pack.id })}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="New draft from this version"
+                      >
+                        <FilePlus className="h-4 w-4" />
+                      </button>
+                    )}
+                    {managing && pack.status === "PUBLISHED" && activeProject && activeProject.configPackId !== pack.id && (
+                      <button
+                        onClick={() => pinMutation.mutate({ projectId: activeProject.id, configPackId: pack.id })}
+                        className="text-blue-600 hover:text-blue-900"
+                        title={`Pin ${activeProject.name} to this version`}
+                      >
+                        <Pin className="h-4 w-4" />
+                      </button>
+                    )}
+                    {managing && pack.status !== "DRAFT" && pack.version !== latestVersions.get(pack.lineageId) && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Publish a copy of ${pack.name} v${pack.version} and re-pin its projects?`)) {
+                            rollbackMutation.mutate({ configPackId: pack.id });
+                          }
+                        }}
+                        className="text-orange-600 hover:text-orange-900"
+                        title="Roll back to this version"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </button>
+                    )}
+                    {managing && pack.status === "PUBLISHED" && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Deprecate ${pack.name} v${pack.version}?`)) {
+                            deprecateMutation.mutate({ configPackId: pack.id });
+                          }
+                        }}
+                        className="text-red-600 hover:text-red-900"
+                        title="Deprecate"
+                      >
+                        <Archive className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {packs.length === 0 && (
+              <div className="text-center py-12">
+                <Layers className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No config packs</h3>
+                <p className="mt-1 text-sm text-gray-500">Config packs generated in the setup wizard start as drafts.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Diff Modal */}
+      {diffIds !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[36rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              {!diff ? (
+                <p className="text-sm text-gray-500 text-center">Loading...</p>
+              ) : (
+                <>
+                  <h3 className="text-lg font-medium text-gray-900">
+                    {diff.to.name}: v{diff.from.version} → v{diff.to.version}
+                  </h3>
+                  {diff.diff.unchanged ? (
+                    <p className="text-sm text-gray-500">No changes to roles, actions, products or workflows.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <ChangeList label="Roles" {...diff.diff.roles} />
+                      {diff.diff.actions.map((actions) => (
+                        <ChangeList key={actions.role} label={`${actions.role} actions`} {...actions} />
+                      ))}
+                      <ChangeList label="Products" {...diff.diff.products} />
+                      <ChangeList label="Workflows" {...diff.diff.workflows} />
+                    </div>
+                  )}
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => setDiffIds(null)}
+                      className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/config-packs/")({
+  component: ConfigPacks,
+});
@@ -1,90 +1,155 @@
 import { createFileRoute, Navigate } from "@tanstack/react-router";
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { CreateContentInput, LandingPage } from "@optropic/shared";
 import { useAuthStore } from "~/stores/auth";
+import { useTRPC, useTRPCClient } from "~/trpc/react";
 import { DashboardLayout } from "~/components/Layout/DashboardLayout";
-import { FileText, Plus, Search, Upload, Eye, CreditCard as Edit, Trash2, Download, ExternalLink, Image, Video, File as FileIcon, Globe, Calendar, Clock, ListFilter as Filter } from "lucide-react";
+import { FileText, Plus, Search, Upload, Eye, CreditCard as Edit, Archive, RotateCcw, History, Download, ExternalLink, Image, Video, File as FileIcon, Globe, Calendar, Clock, ListFilter as Filter } from "lucide-react";
 import toast from "react-hot-toast";
 
-const mockContent = [
-  {
-    id: 1,
-    title: "Product Authentication Guide",
-    contentType: "PDF_DOCUMENT",
-    url: null,
-    fileUrl: "https://example.com/files/auth-guide.pdf",
-    version: 3,
-    isActive: true,
-    createdAt: "2024-01-15T10:00:00Z",
-    updatedAt: "2024-01-20T14:30:00Z",
-    fileSize: "2.4 MB",
-    downloads: 156,
-  },
-  {
-    id: 2,
-    title: "Brand Landing Page",
-    contentType: "LANDING_PAGE",
-    url: "https://brand.example.com/product/abc123",
-    fileUrl: null,
-    version: 1,
-    isActive: true,
-    createdAt: "2024-01-10T09:15:00Z",
-    updatedAt: "2024-01-10T09:15:00Z",
-    fileSize: null,
-    downloads: 0,
-  },
-  {
-    id: 3,
-    title: "Campaign Redirect",
-    contentType: "CAMPAIGN",
-    url: "https://campaign.example.com/winter2024",
-    fileUrl: null,
-    version: 2,
-    isActive: true,
-    createdAt: "2024-01-05T16:20:00Z",
-    updatedAt: "2024-01-18T11:45:00Z",
-    fileSize: null,
-    downloads: 0,
-  },
-  {
-    id: 4,
-    title: "Product Demo Video",
-    contentType: "VIDEO",
-    url: null,
-    fileUrl: "https://example.com/videos/demo.mp4",
-    version: 1,
-    isActive: false,
-    createdAt: "2024-01-01T12:00:00Z",
-    updatedAt: "2024-01-01T12:00:00Z",
-    fileSize: "15.2 MB",
-    downloads: 89,
-  },
+type ContentType = CreateContentInput["contentType"];
+
+const CONTENT_TYPES: { value: ContentType; label: string }[] = [
+  { value: "PDF_DOCUMENT", label: "PDF Document" },
+  { value: "IMAGE", label: "Image" },
+  { value: "VIDEO", label: "Video" },
+  { value: "LANDING_PAGE", label: "Landing Page" },
+  { value: "URL_REDIRECT", label: "URL Redirect" },
+  { value: "CAMPAIGN", label: "Campaign" },
 ];
 
+const FILE_CONTENT_TYPES: ContentType[] = ["PDF_DOCUMENT", "IMAGE", "VIDEO"];
+
+function formatBytes(bytes: number | null | undefined) {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const STARTER_PAGE: LandingPage = {
+  title: "Product information",
+  blocks: [
+    { type: "HERO", title: "Thank you for choosing us" },
+    { type: "VERIFICATION_BADGE", showTrustScore: true },
+    { type: "PRODUCT_FACTS", fields: ["assetName", "productId", "gtin", "batchNumber", "expiryDate"] },
+    { type: "FEEDBACK_FORM", askRating: true, askEmail: false },
+  ],
+};
+
+interface ContentForm {
+  contentId?: number;
+  title: string;
+  contentType: ContentType;
+  url: string;
+  file: File | null;
+  /** Landing page blocks as JSON */
+  pageJson: string;
+}
+
+const emptyForm: ContentForm = { title: "", contentType: "PDF_DOCUMENT", url: "", file: null, pageJson: "" };
+
+function parsePageJson(pageJson: string): LandingPage | undefined {
+  if (!pageJson.trim()) return undefined;
+  try {
+    return JSON.parse(pageJson) as LandingPage;
+  } catch {
+    throw new Error("Landing page blocks are not valid JSON");
+  }
+}
+
 function ContentHub() {
   const { isAuthenticated, canManage } = useAuthStore();
+  const trpc = useTRPC();
+  const trpcClient = useTRPCClient();
+  const [projectId, setProjectId] = useState<number | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedType, setSelectedType] = useState("ALL");
-  const [selectedStatus, setSelectedStatus] = useState("ALL");
-  const [showUploadModal, setShowUploadModal] = useState(false);
+  const [selectedStatus, setSelectedStatus] = useState<"ALL" | "ACTIVE" | "ARCHIVED">("ALL");
+  const [form, setForm] = useState<ContentForm | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [historyFor, setHistoryFor] = useState<number | null>(null);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
-  if (!isAuthenticated || !canManage()) {
+  const allowed = isAuthenticated && canManage();
+
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: allowed })
+  );
+  const projects = projectsQuery.data || [];
+  const activeProjectId = projectId ?? projects[0]?.id ?? null;
+
+  const contentQuery = useQuery(
+    trpc.content.list.queryOptions(
+      {
+        projectId: activeProjectId ?? 0,
+        status: selectedStatus,
+        contentType: selectedType === "ALL" ? undefined : (selectedType as ContentType),
+        search: searchTerm || undefined,
+      },
+      { enabled: allowed && activeProjectId !== null }
+    )
+  );
+  const statsQuery = useQuery(
+    trpc.content.stats.queryOptions({ projectId: activeProjectId ?? 0 }, { enabled: allowed && activeProjectId !== null })
+  );
+  const versionsQuery = useQuery(
+    trpc.content.versions.queryOptions({ contentId: historyFor ?? 0 }, { enabled: historyFor !== null })
+  );
+
+  const refresh = () => {
+    void contentQuery.refetch();
+    void statsQuery.refetch();
+    if (historyFor !== null) void versionsQuery.refetch();
+  };
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const createUploadUrlMutation = useMutation(trpc.content.createUploadUrl.mutationOptions());
+  const createMutation = useMutation(trpc.content.create.mutationOptions());
+  const updateMutation = useMutation(trpc.content.update.mutationOptions());
+  const archiveMutation = useMutation(
+    trpc.content.archive.mutationOptions({
+      onSuccess: () => {
+        toast.success("Content archived");
+        refresh();
+      },
+      onError,
+    })
+  );
+  const restoreMutation = useMutation(
+    trpc.content.restore.mutationOptions({
+      onSuccess: () => {
+        toast.success("Content restored");
+        refresh();
+      },
+      onError,
+    })
+  );
+  const rollbackMutation = useMutation(
+    trpc.content.rollback.mutationOptions({
+      onSuccess: (content) => {
+        toast.success(`Rolled back, now at v${content.version}`);
+        refresh();
+      },
+      onError,
+    })
+  );
+
+  if (!allowed) {
     return <Navigate to="/dashboard" />;
   }
 
-  const filteredContent = mockContent.filter((item) => {
-    const matchesSearch = item.title.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = selectedType === "ALL" || item.contentType === selectedType;
-    const matchesStatus = selectedStatus === "ALL" || 
-      (selectedStatus === "ACTIVE" && item.isActive) ||
-      (selectedStatus === "INACTIVE" && !item.isActive);
-    return matchesSearch && matchesType && matchesStatus;
-  });
+  const content = contentQuery.data || [];
+  const stats = statsQuery.data;
 
-  const totalPages = Math.ceil(filteredContent.length / itemsPerPage);
+  const totalPages = Math.ceil(content.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedContent = filteredContent.slice(startIndex, startIndex + itemsPerPage);
+  const paginatedContent = content.slice(startIndex, startIndex + itemsPerPage);
 
   const getContentTypeIcon = (type: string) => {
     switch (type) {
@@ -110,10 +175,73 @@ function ContentHub() {
     }
   };
 
-  const handleFileUpload = () => {
-    // Mock file upload
-    toast.success("File uploaded successfully");
-    setShowUploadModal(false);
+  const showPreview = async (contentId: number, page?: LandingPage) => {
+    try {
+      const { html } = await trpcClient.content.previewPage.query({ contentId, page });
+      setPreviewHtml(html);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  /**
+   * Upload the file straight to storage, then save the content item
+   */
+  const handleSave = async () => {
+    if (!form || activeProjectId === null) return;
+
+    setUploading(true);
+    try {
+      const landingPage = form.contentType === "LANDING_PAGE" ? parsePageJson(form.pageJson) : undefined;
+      let upload: { objectKey: string } | undefined;
+      if (form.file) {
+        const target = await createUploadUrlMutation.mutateAsync({
+          projectId: activeProjectId,
+          contentType: form.contentType,
+          fileName: form.file.name,
+          mimeType: form.file.type || "application/octet-stream",
+          fileSize: form.file.size,
+        });
+
+        const response = await fetch(target.uploadUrl, {
+          method: "PUT",
+          headers: { "Content-Type": form.file.type || "application/octet-stream" },
+          body: form.file,
+        });
+        if (!response.ok) {
+          throw new Error(`Upload failed (${response.status})`);
+        }
+        upload = { objectKey: target.objectKey };
+      }
+
+      if (form.contentId) {
+        await updateMutation.mutateAsync({
+          contentId: form.contentId,
+          title: form.title,
+          url: form.url || null,
+          upload,
+          ...(landingPage ? { landingPage } : {}),
+        });
+        toast.success("Content updated");
+      } else {
+        await createMutation.mutateAsync({
+          projectId: activeProjectId,
+          title: form.title,
+          contentType: form.contentType,
+          url: form.url || undefined,
+          upload,
+          landingPage,
+        });
+        toast.success("Content created");
+      }
+
+      setForm(null);
+      refresh();
+    } catch (error) {
+      onError(error as Error);
+    } finally {
+      setUploading(false);
+    }
   };
 
   return (
@@ -131,9 +259,24 @@ function ContentHub() {
               </p>
             </div>
             <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+              <select
+                value={activeProjectId ?? ""}
+                onChange={(e) => {
+                  setProjectId(Number(e.target.value));
+                  setCurrentPage(1);
+                }}
+                className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+              >
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
               <button
                 type="button"
-                onClick={() => setShowUploadModal(true)}
+                disabled={activeProjectId === null}
+                onClick={() => setForm(emptyForm)}
                 className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
               >
                 <Plus className="-ml-1 mr-2 h-5 w-5" />
@@ -153,7 +296,7 @@ function ContentHub() {
                   <div className="ml-5 w-0 flex-1">
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">Total Content</dt>
-                      <dd className="text-lg font-medium text-gray-900">{mockContent.length}</dd>
+                      <dd className="text-lg font-medium text-gray-900">{stats?.total ?? 0}</dd>
                     </dl>
                   </div>
                 </div>
@@ -170,7 +313,7 @@ function ContentHub() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">Active Content</dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {mockContent.filter(c => c.isActive).length}
+                        {stats?.active ?? 0}
                       </dd>
                     </dl>
                   </div>
@@ -188,7 +331,7 @@ function ContentHub() {
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">Total Downloads</dt>
                       <dd className="text-lg font-medium text-gray-900">
-                        {mockContent.reduce((sum, c) => sum + (c.downloads || 0), 0)}
+                        {stats?.downloads ?? 0}
                       </dd>
                     </dl>
                   </div>
@@ -205,7 +348,9 @@ function ContentHub() {
                   <div className="ml-5 w-0 flex-1">
                     <dl>
                       <dt className="text-sm font-medium text-gray-500 truncate">Storage Used</dt>
-                      <dd className="text-lg font-medium text-gray-900">47.8 MB</dd>
+                      <dd className="text-lg font-medium text-gray-900">
+                        {formatBytes(stats?.storageBytes) ?? "0 KB"}
+                      </dd>
                     </dl>
                   </div>
                 </div>
@@ -224,7 +369,10 @@ function ContentHub() {
                   type="text"
                   placeholder="Search content..."
                   value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    setCurrentPage(1);
+                  }}
                   className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
@@ -232,25 +380,30 @@ function ContentHub() {
             <div className="flex items-center space-x-4">
               <select
                 value={selectedType}
-                onChange={(e) => setSelectedType(e.target.value)}
+                onChange={(e) => {
+                  setSelectedType(e.target.value);
+                  setCurrentPage(1);
+                }}
                 className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
               >
                 <option value="ALL">All Types</option>
-                <option value="PDF_DOCUMENT">PDF Document</option>
-                <option value="IMAGE">Image</option>
-                <option value="VIDEO">Video</option>
-                <option value="LANDING_PAGE">Landing Page</option>
-                <option value="URL_REDIRECT">URL Redirect</option>
-                <option value="CAMPAIGN">Campaign</option>
+                {CONTENT_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
               </select>
               <select
                 value={selectedStatus}
-                onChange={(e) => setSelectedStatus(e.target.value)}
+                onChange={(e) => {
+                  setSelectedStatus(e.target.value as "ALL" | "ACTIVE" | "ARCHIVED");
+                  setCurrentPage(1);
+                }}
                 className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
               >
                 <option value="ALL">All Status</option>
                 <option value="ACTIVE">Active</option>
-                <option value="INACTIVE">Inactive</option>
+                <option value="ARCHIVED">Archived</option>
               </select>
             </div>
           </div>
@@ -292,8 +445,8 @@ function ContentHub() {
                           <div className="ml-4">
                             <div className="text-sm font-medium text-gray-900">{item.title}</div>
                             <div className="text-sm text-gray-500">
-                              {item.fileSize && `${item.fileSize} • `}
-                              {item.downloads > 0 && `${item.downloads} downloads`}
+                              {item.fileSize ? `${formatBytes(item.fileSize)} • ` : null}
+                              {item.downloadCount > 0 && `${item.downloadCount} downloads`}
                             </div>
                           </div>
                         </div>
@@ -319,7 +472,7 @@ function ContentHub() {
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                           item.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
                         }`}>
-                          {item.isActive ? 'active' : 'inactive'}
+                          {item.isActive ? 'active' : 'archived'}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -331,20 +484,68 @@ function ContentHub() {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex items-center space-x-2">
-                          <button className="text-blue-600 hover:text-blue-900" title="View">
-                            <Eye className="h-4 w-4" />
-                          </button>
-                          <button className="text-gray-600 hover:text-gray-900" title="Edit">
-                            <Edit className="h-4 w-4" />
+                          <button
+                            onClick={() => setHistoryFor(item.id)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Version history"
+                          >
+                            <History className="h-4 w-4" />
                           </button>
+                          {item.isActive && (
+                            <button
+                              onClick={() =>
+                                setForm({
+                                  contentId: item.id,
+                                  title: item.title,
+                                  contentType: item.contentType,
+                                  url: item.url ?? "",
+                                  file: null,
+                                  pageJson: item.landingPage ? JSON.stringify(item.landingPage, null, 2) : "",
+                                })
+                              }
+                              className="text-gray-600 hover:text-gray-900"
+                              title="Edit"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                          )}
+                          {item.landingPage && (
+                            <button
+                              onClick={() => void showPreview(item.id)}
+                              className="text-purple-600 hover:text-purple-900"
+                              title="Preview page"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </button>
+                          )}
                           {(item.url || item.fileUrl) && (
-                            <button className="text-green-600 hover:text-green-900" title="Open">
+                            <a
+                              href={(item.url || item.fileUrl)!}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-green-600 hover:text-green-900"
+                              title="Open"
+                            >
                               <ExternalLink className="h-4 w-4" />
+                            </a>
+                          )}
+                          {item.isActive ? (
+                            <button
+                              onClick={() => archiveMutation.mutate({ contentId: item.id })}
+                              className="text-red-600 hover:text-red-900"
+                              title="Archive"
+                            >
+                              <Archive className="h-4 w-4" />
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => restoreMutation.mutate({ contentId: item.id })}
+                              className="text-green-600 hover:text-green-900"
+                              title="Restore"
+                            >
+                              <RotateCcw className="h-4 w-4" />
                             </button>
                           )}
-                          <button className="text-red-600 hover:text-red-900" title="Delete">
-                            <Trash2 className="h-4 w-4" />
-                          </button>
                         </div>
                       </td>
                     </tr>
@@ -377,8 +578,8 @@ function ContentHub() {
                 <div>
                   <p className="text-sm text-gray-700">
                     Showing <span className="font-medium">{startIndex + 1}</span> to{' '}
-                    <span className="font-medium">{Math.min(startIndex + itemsPerPage, filteredContent.length)}</span> of{' '}
-                    <span className="font-medium">{filteredContent.length}</span> results
+                    <span className="font-medium">{Math.min(startIndex + itemsPerPage, content.length)}</span> of{' '}
+                    <span className="font-medium">{content.length}</span> results
                   </p>
                 </div>
                 <div>
@@ -416,7 +617,7 @@ function ContentHub() {
             </div>
           )}
 
-          {filteredContent.length === 0 && (
+          {content.length === 0 && (
             <div className="text-center py-12 bg-white rounded-lg border border-gray-200 mt-6">
               <FileText className="mx-auto h-12 w-12 text-gray-400" />
               <h3 className="mt-2 text-sm font-medium text-gray-900">No content found</h3>
@@ -431,39 +632,197 @@ function ContentHub() {
       </div>
 
       {/* Upload Modal */}
-      {showUploadModal && (
+      {form && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
-            <div className="mt-3">
-              <h3 className="text-lg font-medium text-gray-900 text-center">Upload Content</h3>
-              <div className="mt-4 px-4 py-3 border-2 border-gray-300 border-dashed rounded-lg text-center">
-                <Upload className="mx-auto h-12 w-12 text-gray-400" />
-                <p className="mt-2 text-sm text-gray-600">
-                  <button className="font-medium text-blue-600 hover:text-blue-500">
-                    Click to upload
-                  </button>{' '}
-                  or drag and drop
-                </p>
-                <p className="text-xs text-gray-500">PNG, JPG, PDF up to 10MB</p>
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">
+                {form.contentId ? "Edit Content" : "Add Content"}
+              </h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              {!form.contentId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Type</label>
+                  <select
+                    value={form.contentType}
+                    onChange={(e) => {
+                      const contentType = e.target.value as ContentType;
+                      setForm({
+                        ...form,
+                        contentType,
+                        file: null,
+                        pageJson:
+                          contentType === "LANDING_PAGE" && !form.pageJson
+                            ? JSON.stringify(STARTER_PAGE, null, 2)
+                            : form.pageJson,
+                      });
+                    }}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {CONTENT_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700">URL</label>
+                <input
+                  type="url"
+                  placeholder="https://"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
               </div>
-              <div className="flex items-center justify-end space-x-2 mt-4">
+              {FILE_CONTENT_TYPES.includes(form.contentType) && (
+                <label className="block px-4 py-3 border-2 border-gray-300 border-dashed rounded-lg text-center cursor-pointer">
+                  <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                  <p className="mt-2 text-sm text-gray-600">
+                    <span className="font-medium text-blue-600 hover:text-blue-500">
+                      {form.file ? form.file.name : form.contentId ? "Replace file" : "Click to upload"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {form.contentType === "PDF_DOCUMENT" && "PDF up to 25MB"}
+                    {form.contentType === "IMAGE" && "PNG, JPG, WebP, GIF up to 10MB"}
+                    {form.contentType === "VIDEO" && "MP4, WebM, MOV up to 500MB"}
+                  </p>
+                  <input
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => setForm({ ...form, file: e.target.files?.[0] ?? null })}
+                  />
+                </label>
+              )}
+              {form.contentType === "LANDING_PAGE" && (
+                <div>
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-medium text-gray-700">Page blocks</label>
+                    {form.contentId && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          try {
+                            void showPreview(form.contentId!, parsePageJson(form.pageJson));
+                          } catch (error) {
+                            onError(error as Error);
+                          }
+                        }}
+                        className="text-sm text-purple-600 hover:text-purple-900"
+                      >
+                        Preview
+                      </button>
+                    )}
+                  </div>
+                  <textarea
+                    rows={10}
+                    value={form.pageJson}
+                    onChange={(e) => setForm({ ...form, pageJson: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Blocks: HERO, PRODUCT_FACTS, VERIFICATION_BADGE, DOCUMENT_LIST, FEEDBACK_FORM
+                  </p>
+                </div>
+              )}
+              <div className="flex items-center justify-end space-x-2">
                 <button
-                  onClick={() => setShowUploadModal(false)}
+                  onClick={() => setForm(null)}
                   className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
                 >
                   Cancel
                 </button>
                 <button
-                  onClick={handleFileUpload}
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                  onClick={() => void handleSave()}
+                  disabled={uploading || !form.title}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 disabled:opacity-50"
                 >
-                  Upload
+                  {uploading ? "Saving..." : "Save"}
                 </button>
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {/* Landing Page Preview */}
+      {previewHtml !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-[60]">
+          <div className="relative top-10 mx-auto p-4 border w-[26rem] shadow-lg rounded-md bg-white">
+            <iframe
+              title="Landing page preview"
+              srcDoc={previewHtml}
+              sandbox=""
+              className="w-full h-[36rem] border border-gray-200 rounded"
+            />
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => setPreviewHtml(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Version History Modal */}
+      {historyFor !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 text-center">Version History</h3>
+            <ul className="mt-4 divide-y divide-gray-200 max-h-96 overflow-y-auto">
+              {(versionsQuery.data || []).map((version, index) => (
+                <li key={version.id} className="py-3 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      v{version.version} · {version.title}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      <Clock className="h-3 w-3 inline mr-1" />
+                      {new Date(version.createdAt).toLocaleString()}
+                      {version.restoredFrom !== null && ` · restored from v${version.restoredFrom}`}
+                      {version.fileSize ? ` · ${formatBytes(version.fileSize)}` : null}
+                    </div>
+                  </div>
+                  {index === 0 ? (
+                    <span className="text-xs font-medium text-green-700">current</span>
+                  ) : (
+                    <button
+                      onClick={() => rollbackMutation.mutate({ contentId: historyFor, version: version.version })}
+                      disabled={rollbackMutation.isPending}
+                      className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Roll back
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end mt-4">
+              <button
+                onClick={() => setHistoryFor(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </DashboardLayout>
   );
 }
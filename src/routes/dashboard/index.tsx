@@ -28,7 +28,7 @@ export const Route = createFileRoute("/dashboard/")({
 });
 
 function Dashboard() {
-  const { isAuthenticated, token, user, isAdmin } = useAuthStore();
+  const { isAuthenticated, user, isAdmin } = useAuthStore();
   const trpc = useTRPC();
   const [dateRange, setDateRange] = useState("7d");
 
@@ -39,9 +39,7 @@ function Dashboard() {
   const userIsAdmin = isAdmin();
 
   const projectsQuery = useQuery(
-    trpc.getProjects.queryOptions({
-      token: token!,
-    })
+    trpc.getProjects.queryOptions()
   );
 
   const projects = projectsQuery.data || [];
@@ -0,0 +1,769 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { MaintenanceTrigger, WorkOrderStatus } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { Wrench, Plus, ScanLine, Camera, Gauge, Power, Trash2, TriangleAlert as AlertTriangle } from "lucide-react";
+import toast from "react-hot-toast";
+
+const STATUS_STYLES: Record<WorkOrderStatus, string> = {
+  OPEN: "bg-blue-100 text-blue-800",
+  IN_PROGRESS: "bg-yellow-100 text-yellow-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+const STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  OPEN: "Open",
+  IN_PROGRESS: "In progress",
+  COMPLETED: "Completed",
+  CANCELLED: "Cancelled",
+};
+
+interface ChecklistRow {
+  label: string;
+  requiresPhoto: boolean;
+}
+
+interface ScheduleForm {
+  assetId: number | null;
+  name: string;
+  description: string;
+  triggerType: MaintenanceTrigger;
+  intervalDays: string;
+  usageInterval: string;
+  usageUnit: string;
+  checklist: ChecklistRow[];
+}
+
+const emptyScheduleForm: ScheduleForm = {
+  assetId: null,
+  name: "",
+  description: "",
+  triggerType: "INTERVAL",
+  intervalDays: "90",
+  usageInterval: "",
+  usageUnit: "hours",
+  checklist: [{ label: "", requiresPhoto: false }],
+};
+
+const formatDate = (value: Date | string | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+function EvidenceLink({ evidenceId, label }: { evidenceId: number; label: string }) {
+  const trpc = useTRPC();
+  const [requested, setRequested] = useState(false);
+  const urlQuery = useQuery(trpc.maintenance.evidenceUrl.queryOptions({ evidenceId }, { enabled: requested }));
+
+  if (urlQuery.data) {
+    return (
+      <a href={urlQuery.data.url} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-900">
+        {label}
+      </a>
+    );
+  }
+  return (
+    <button type="button" onClick={() => setRequested(true)} className="text-blue-600 hover:text-blue-900">
+      {label}
+    </button>
+  );
+}
+
+function MaintenanceManagement() {
+  const { isAuthenticated, canManage, hasRole } = useAuthStore();
+  const trpc = useTRPC();
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [codeValue, setCodeValue] = useState("");
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm | null>(null);
+  const [workOrderId, setWorkOrderId] = useState<number | null>(null);
+  const [completion, setCompletion] = useState({ notes: "", usageReading: "" });
+  const [uploading, setUploading] = useState<string | null>(null);
+
+  const managing = isAuthenticated && canManage();
+  const allowed = managing || (isAuthenticated && hasRole("MAINTAINER"));
+
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: managing })
+  );
+  const projects = projectsQuery.data || [];
+  const activeProjectId = projectId ?? projects[0]?.id ?? null;
+
+  const schedulesQuery = useQuery(
+    trpc.maintenance.schedules.queryOptions(
+      { projectId: activeProjectId ?? 0 },
+      { enabled: managing && activeProjectId !== null }
+    )
+  );
+  const workOrdersQuery = useQuery(
+    trpc.maintenance.workOrders.queryOptions(
+      { projectId: managing ? (activeProjectId ?? undefined) : undefined },
+      { enabled: allowed && (!managing || activeProjectId !== null) }
+    )
+  );
+  const equipmentQuery = useQuery(
+    trpc.assets.list.queryOptions(
+      { projectId: activeProjectId ?? 0, assetType: "EQUIPMENT", limit: 200 },
+      { enabled: scheduleForm !== null && activeProjectId !== null }
+    )
+  );
+  const workOrderQuery = useQuery(
+    trpc.maintenance.workOrder.queryOptions({ workOrderId: workOrderId ?? 0 }, { enabled: workOrderId !== null })
+  );
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const refresh = () => {
+    void schedulesQuery.refetch();
+    void workOrdersQuery.refetch();
+    if (workOrderId !== null) void workOrderQuery.refetch();
+  };
+
+  const createScheduleMutation = useMutation(
+    trpc.maintenance.createSchedule.mutationOptions({
+      onSuccess: () => {
+        toast.success("Schedule created");
+        setScheduleForm(null);
+        refresh();
+      },
+      onError,
+    })
+  );
+  const updateScheduleMutation = useMutation(
+    trpc.maintenance.updateSchedule.mutationOptions({ onSuccess: refresh, onError })
+  );
+  const recordUsageMutation = useMutation(
+    trpc.maintenance.recordUsage.mutationOptions({
+      onSuccess: () => {
+        toast.success("Meter reading recorded");
+        refresh();
+      },
+      onError,
+    })
+  );
+  const openMutation = useMutation(
+    trpc.maintenance.openFromScan.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(result.resumed ? "Resumed open work order" : "Work order opened");
+        setCodeValue("");
+        setCompletion({ notes: "", usageReading: "" });
+        setWorkOrderId(result.workOrder.id);
+        refresh();
+      },
+      onError,
+    })
+  );
+  const checklistMutation = useMutation(
+    trpc.maintenance.updateChecklistItem.mutationOptions({ onSuccess: refresh, onError })
+  );
+  const uploadUrlMutation = useMutation(trpc.maintenance.createEvidenceUploadUrl.mutationOptions());
+  const attachMutation = useMutation(trpc.maintenance.attachEvidence.mutationOptions());
+  const completeMutation = useMutation(
+    trpc.maintenance.completeWorkOrder.mutationOptions({
+      onSuccess: () => {
+        toast.success("Work order completed");
+        setWorkOrderId(null);
+        refresh();
+      },
+      onError,
+    })
+  );
+  const cancelMutation = useMutation(
+    trpc.maintenance.cancelWorkOrder.mutationOptions({
+      onSuccess: () => {
+        toast.success("Work order cancelled");
+        setWorkOrderId(null);
+        refresh();
+      },
+      onError,
+    })
+  );
+
+  if (!allowed) {
+    return <Navigate to="/dashboard" />;
+  }
+
+  const schedules = schedulesQuery.data || [];
+  const workOrders = workOrdersQuery.data?.workOrders || [];
+  const workOrder = workOrderQuery.data;
+  const isOpen = workOrder?.status === "OPEN" || workOrder?.status === "IN_PROGRESS";
+
+  const handleCreateSchedule = () => {
+    if (!scheduleForm?.assetId) return;
+    const checklist = scheduleForm.checklist
+      .filter((row) => row.label.trim())
+      .map((row, index) => ({ key: `item-${index + 1}`, label: row.label.trim(), requiresPhoto: row.requiresPhoto }));
+
+    createScheduleMutation.mutate({
+      assetId: scheduleForm.assetId,
+      name: scheduleForm.name,
+      description: scheduleForm.description || undefined,
+      triggerType: scheduleForm.triggerType,
+      ...(scheduleForm.triggerType === "INTERVAL"
+        ? { intervalDays: Number(scheduleForm.intervalDays) }
+        : { usageInterval: Number(scheduleForm.usageInterval), usageUnit: scheduleForm.usageUnit }),
+      checklist,
+    });
+  };
+
+  const handleRecordUsage = (assetId: number, usageUnit: string) => {
+    const reading = prompt(`Current meter reading (${usageUnit})`);
+    if (reading === null || reading.trim() === "" || Number.isNaN(Number(reading))) return;
+    recordUsageMutation.mutate({ assetId, reading: Number(reading), usageUnit });
+  };
+
+  const handlePhoto = async (file: File, itemKey?: string) => {
+    if (!workOrder) return;
+
+    setUploading(itemKey ?? "general");
+    try {
+      const target = await uploadUrlMutation.mutateAsync({
+        workOrderId: workOrder.id,
+        fileName: file.name,
+        mimeType: file.type || "application/octet-stream",
+        fileSize: file.size,
+      });
+
+      const response = await fetch(target.uploadUrl, {
+        method: "PUT",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload failed (${response.status})`);
+      }
+
+      await attachMutation.mutateAsync({ workOrderId: workOrder.id, objectKey: target.objectKey, itemKey });
+      toast.success("Photo attached");
+      void workOrderQuery.refetch();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleComplete = () => {
+    if (!workOrder) return;
+    completeMutation.mutate({
+      workOrderId: workOrder.id,
+      notes: completion.notes || undefined,
+      usageReading: completion.usageReading ? Number(completion.usageReading) : undefined,
+    });
+  };
+
+  const photoInput = (itemKey?: string) => (
+    <label className="inline-flex items-center text-xs text-blue-600 hover:text-blue-900 cursor-pointer">
+      <Camera className="h-4 w-4 mr-1" />
+      {uploading === (itemKey ?? "general") ? "Uploading..." : "Add photo"}
+      <input
+        type="file"
+        accept="image/jpeg,image/png,image/webp,image/heic"
+        className="hidden"
+        disabled={uploading !== null}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) void handlePhoto(file, itemKey);
+        }}
+      />
+    </label>
+  );
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Maintenance
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Schedule equipment service and work through it by scanning the asset's code.
+              </p>
+            </div>
+            {managing && (
+              <div className="mt-4 flex md:mt-0 md:ml-4 space-x-3">
+                <select
+                  value={activeProjectId ?? ""}
+                  onChange={(e) => setProjectId(Number(e.target.value))}
+                  className="block pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                >
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={activeProjectId === null}
+                  onClick={() => setScheduleForm(emptyScheduleForm)}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <Plus className="-ml-1 mr-2 h-5 w-5" />
+                  New Schedule
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Open by scan */}
+          <form
+            className="mt-6 flex gap-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (codeValue.trim()) openMutation.mutate({ codeValue: codeValue.trim() });
+            }}
+          >
+            <div className="relative flex-1">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <ScanLine className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                placeholder="Scan or enter the equipment's code..."
+                value={codeValue}
+                onChange={(e) => setCodeValue(e.target.value)}
+                className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!codeValue.trim() || openMutation.isPending}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Wrench className="-ml-1 mr-2 h-5 w-5" />
+              Open Work Order
+            </button>
+          </form>
+
+          {/* Schedules */}
+          {managing && (
+            <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h3 className="text-lg font-medium text-gray-900">Schedules</h3>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schedule</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trigger</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Service</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Due</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {schedules.map((schedule) => (
+                      <tr key={schedule.id} className={schedule.isActive ? "hover:bg-gray-50" : "bg-gray-50 text-gray-400"}>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">{schedule.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {schedule.assetName} · {schedule.checklist.length} checklist items
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {schedule.triggerType === "INTERVAL"
+                            ? `Every ${schedule.intervalDays} days`
+                            : `Every ${schedule.usageInterval} ${schedule.usageUnit}`}
+                          {schedule.triggerType === "USAGE" && (
+                            <div className="text-xs">
+                              Meter: {schedule.currentUsage} {schedule.usageUnit}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(schedule.lastPerformedAt)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {schedule.triggerType === "INTERVAL"
+                            ? formatDate(schedule.nextDueAt)
+                            : `${schedule.nextDueUsage ?? "—"} ${schedule.usageUnit}`}
+                          {schedule.overdue && (
+                            <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Overdue
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <div className="flex items-center justify-end space-x-2">
+                            {schedule.triggerType === "USAGE" && schedule.usageUnit && (
+                              <button
+                                onClick={() => handleRecordUsage(schedule.assetId, schedule.usageUnit!)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Record meter reading"
+                              >
+                                <Gauge className="h-4 w-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() =>
+                                updateScheduleMutation.mutate({ scheduleId: schedule.id, isActive: !schedule.isActive })
+                              }
+                              className={schedule.isActive ? "text-red-600 hover:text-red-900" : "text-green-600 hover:text-green-900"}
+                              title={schedule.isActive ? "Deactivate" : "Activate"}
+                            >
+                              <Power className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {schedules.length === 0 && (
+                <div className="px-6 py-8 text-center text-sm text-gray-500">
+                  No schedules yet. Create one for an equipment asset.
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Work Orders */}
+          <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">{managing ? "Work Orders" : "My Work Orders"}</h3>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {workOrders.map((order) => (
+                <li key={order.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setCompletion({ notes: "", usageReading: "" });
+                      setWorkOrderId(order.id);
+                    }}
+                    className="w-full px-6 py-4 flex items-center justify-between text-left hover:bg-gray-50"
+                  >
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{order.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {order.assetName} · opened {formatDate(order.createdAt)}
+                        {order.dueAt && ` · due ${formatDate(order.dueAt)}`}
+                        {order.completedAt && ` · completed ${formatDate(order.completedAt)}`}
+                      </div>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[order.status]}`}>
+                      {STATUS_LABELS[order.status]}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {workOrders.length === 0 && (
+              <div className="text-center py-12">
+                <Wrench className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No work orders</h3>
+                <p className="mt-1 text-sm text-gray-500">Scan an equipment code to open one.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Schedule Modal */}
+      {scheduleForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">New Maintenance Schedule</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Equipment</label>
+                <select
+                  value={scheduleForm.assetId ?? ""}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, assetId: Number(e.target.value) || null })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Select equipment...</option>
+                  {(equipmentQuery.data?.assets || []).map((asset) => (
+                    <option key={asset.id} value={asset.id}>
+                      {asset.assetName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  type="text"
+                  placeholder="Quarterly inspection"
+                  value={scheduleForm.name}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Description</label>
+                <textarea
+                  rows={2}
+                  value={scheduleForm.description}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, description: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Due</label>
+                <div className="mt-1 flex gap-2">
+                  <select
+                    value={scheduleForm.triggerType}
+                    onChange={(e) => setScheduleForm({ ...scheduleForm, triggerType: e.target.value as MaintenanceTrigger })}
+                    className="block px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="INTERVAL">Every N days</option>
+                    <option value="USAGE">Every N units of use</option>
+                  </select>
+                  {scheduleForm.triggerType === "INTERVAL" ? (
+                    <input
+                      type="number"
+                      min={1}
+                      value={scheduleForm.intervalDays}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, intervalDays: e.target.value })}
+                      className="block w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  ) : (
+                    <>
+                      <input
+                        type="number"
+                        min={0}
+                        placeholder="500"
+                        value={scheduleForm.usageInterval}
+                        onChange={(e) => setScheduleForm({ ...scheduleForm, usageInterval: e.target.value })}
+                        className="block w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <input
+                        type="text"
+                        placeholder="hours"
+                        value={scheduleForm.usageUnit}
+                        onChange={(e) => setScheduleForm({ ...scheduleForm, usageUnit: e.target.value })}
+                        className="block w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Checklist</label>
+                <div className="mt-1 space-y-2">
+                  {scheduleForm.checklist.map((row, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        placeholder="Check belt tension"
+                        value={row.label}
+                        onChange={(e) =>
+                          setScheduleForm({
+                            ...scheduleForm,
+                            checklist: scheduleForm.checklist.map((item, i) => (i === index ? { ...item, label: e.target.value } : item)),
+                          })
+                        }
+                        className="block flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <label className="inline-flex items-center text-xs text-gray-600" title="Requires a photo">
+                        <input
+                          type="checkbox"
+                          checked={row.requiresPhoto}
+                          onChange={(e) =>
+                            setScheduleForm({
+                              ...scheduleForm,
+                              checklist: scheduleForm.checklist.map((item, i) =>
+                                i === index ? { ...item, requiresPhoto: e.target.checked } : item
+                              ),
+                            })
+                          }
+                          className="mr-1"
+                        />
+                        <Camera className="h-4 w-4" />
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setScheduleForm({ ...scheduleForm, checklist: scheduleForm.checklist.filter((_, i) => i !== index) })
+                        }
+                        className="text-red-600 hover:text-red-900"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setScheduleForm({ ...scheduleForm, checklist: [...scheduleForm.checklist, { label: "", requiresPhoto: false }] })
+                    }
+                    className="text-sm text-blue-600 hover:text-blue-900"
+                  >
+                    Add item
+                  </button>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setScheduleForm(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleCreateSchedule}
+                  disabled={!scheduleForm.assetId || !scheduleForm.name || createScheduleMutation.isPending}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Work Order Modal */}
+      {workOrderId !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[36rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              {!workOrder ? (
+                <p className="text-sm text-gray-500 text-center">Loading...</p>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{workOrder.title}</h3>
+                      <p className="text-sm text-gray-500">
+                        {workOrder.assetName}
+                        {workOrder.dueAt && ` · due ${formatDate(workOrder.dueAt)}`}
+                      </p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[workOrder.status]}`}>
+                      {STATUS_LABELS[workOrder.status]}
+                    </span>
+                  </div>
+
+                  {workOrder.checklist.length > 0 && (
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                      {workOrder.checklist.map((item) => {
+                        const photos = workOrder.evidence.filter((evidence) => evidence.itemKey === item.key);
+                        return (
+                          <li key={item.key} className="px-4 py-3">
+                            <div className="flex items-center justify-between">
+                              <label className="inline-flex items-center text-sm text-gray-900">
+                                <input
+                                  type="checkbox"
+                                  checked={item.done}
+                                  disabled={!isOpen || checklistMutation.isPending}
+                                  onChange={(e) =>
+                                    checklistMutation.mutate({ workOrderId: workOrder.id, key: item.key, done: e.target.checked })
+                                  }
+                                  className="mr-2"
+                                />
+                                {item.label}
+                                {item.requiresPhoto && photos.length === 0 && (
+                                  <span className="ml-2 text-xs text-orange-600">photo required</span>
+                                )}
+                              </label>
+                              {isOpen && photoInput(item.key)}
+                            </div>
+                            {photos.length > 0 && (
+                              <div className="mt-1 ml-6 flex gap-3 text-xs">
+                                {photos.map((photo, index) => (
+                                  <EvidenceLink key={photo.id} evidenceId={photo.id} label={`Photo ${index + 1}`} />
+                                ))}
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex gap-3 text-xs">
+                      {workOrder.evidence
+                        .filter((evidence) => evidence.itemKey === null)
+                        .map((photo, index) => (
+                          <EvidenceLink key={photo.id} evidenceId={photo.id} label={`General photo ${index + 1}`} />
+                        ))}
+                    </div>
+                    {isOpen && photoInput()}
+                  </div>
+
+                  {isOpen ? (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700">Notes</label>
+                        <textarea
+                          rows={3}
+                          value={completion.notes}
+                          placeholder={workOrder.notes ?? ""}
+                          onChange={(e) => setCompletion({ ...completion, notes: e.target.value })}
+                          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                      {workOrder.usageUnit && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">Meter reading ({workOrder.usageUnit})</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={completion.usageReading}
+                            onChange={(e) => setCompletion({ ...completion, usageReading: e.target.value })}
+                            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    workOrder.notes && <p className="text-sm text-gray-700 whitespace-pre-wrap">{workOrder.notes}</p>
+                  )}
+
+                  <div className="flex justify-end space-x-3">
+                    {isOpen && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm("Cancel this work order?")) cancelMutation.mutate({ workOrderId: workOrder.id });
+                        }}
+                        className="px-4 py-2 text-red-600 hover:text-red-900"
+                      >
+                        Cancel Work Order
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setWorkOrderId(null)}
+                      className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                    >
+                      Close
+                    </button>
+                    {isOpen && (
+                      <button
+                        type="button"
+                        onClick={handleComplete}
+                        disabled={completeMutation.isPending || uploading !== null}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Complete
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/maintenance/")({
+  component: MaintenanceManagement,
+});
@@ -22,7 +22,7 @@ export const Route = createFileRoute("/projects/")({
 });
 
 function Projects() {
-  const { isAuthenticated, token } = useAuthStore();
+  const { isAuthenticated } = useAuthStore();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("ALL");
@@ -33,9 +33,7 @@ function Projects() {
   }
 
   const projectsQuery = useQuery(
-    trpc.getProjects.queryOptions({
-      token: token!,
-    })
+    trpc.getProjects.queryOptions()
   );
 
   const createProjectMutation = useMutation(
@@ -61,10 +59,7 @@ function Projects() {
   });
 
   const onCreateProject = (data: CreateProjectFormData) => {
-    createProjectMutation.mutate({
-      token: token!,
-      ...data,
-    });
+    createProjectMutation.mutate(data);
   };
 
   const projects = projectsQuery.data || [];
@@ -0,0 +1,384 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { API_KEY_RATE_LIMIT_TIERS, API_KEY_SCOPES, type ApiKeyRateLimitTier, type Permission } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { Bot, Plus, KeyRound, RefreshCw, Trash2, Copy, Power } from "lucide-react";
+import toast from "react-hot-toast";
+
+const STATUS_STYLES: Record<string, string> = {
+  ACTIVE: "bg-green-100 text-green-800",
+  EXPIRED: "bg-yellow-100 text-yellow-800",
+  REVOKED: "bg-gray-100 text-gray-800",
+};
+
+/** The replaced key keeps working this long after a rotation */
+const ROTATION_OVERLAP_HOURS = 24;
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+interface KeyForm {
+  serviceAccountId: number;
+  name: string;
+  scopes: Permission[];
+  rateLimitTier: ApiKeyRateLimitTier;
+  expiresInDays: string;
+}
+
+function ServiceAccounts() {
+  const { isAuthenticated } = useAuthStore();
+  const trpc = useTRPC();
+  const [accountName, setAccountName] = useState("");
+  const [keyForm, setKeyForm] = useState<KeyForm | null>(null);
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const meQuery = useQuery(trpc.permissions.me.queryOptions(undefined, { enabled: isAuthenticated }));
+  const managing = meQuery.data?.permissions.includes("service-accounts:manage") ?? false;
+  const accountsQuery = useQuery(trpc.serviceAccounts.list.queryOptions(undefined, { enabled: managing }));
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const mutationOptions = (message: string) => ({
+    onSuccess: () => {
+      toast.success(message);
+      void accountsQuery.refetch();
+    },
+    onError,
+  });
+
+  const issuedOptions = (message: string) => ({
+    onSuccess: (result: { key: string }) => {
+      toast.success(message);
+      setKeyForm(null);
+      setIssuedKey(result.key);
+      void accountsQuery.refetch();
+    },
+    onError,
+  });
+
+  const createAccountMutation = useMutation(
+    trpc.serviceAccounts.create.mutationOptions({
+      onSuccess: () => {
+        toast.success("Service account created");
+        setAccountName("");
+        void accountsQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const updateAccountMutation = useMutation(
+    trpc.serviceAccounts.update.mutationOptions(mutationOptions("Service account updated"))
+  );
+  const createKeyMutation = useMutation(trpc.serviceAccounts.createKey.mutationOptions(issuedOptions("API key issued")));
+  const rotateKeyMutation = useMutation(trpc.serviceAccounts.rotateKey.mutationOptions(issuedOptions("API key rotated")));
+  const revokeKeyMutation = useMutation(trpc.serviceAccounts.revokeKey.mutationOptions(mutationOptions("API key revoked")));
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" />;
+  }
+
+  const accounts = accountsQuery.data || [];
+
+  const toggleScope = (scope: Permission) => {
+    if (!keyForm) return;
+    setKeyForm({
+      ...keyForm,
+      scopes: keyForm.scopes.includes(scope)
+        ? keyForm.scopes.filter((candidate) => candidate !== scope)
+        : [...keyForm.scopes, scope],
+    });
+  };
+
+  const submitKey = () => {
+    if (!keyForm) return;
+    createKeyMutation.mutate({
+      serviceAccountId: keyForm.serviceAccountId,
+      name: keyForm.name,
+      scopes: keyForm.scopes,
+      rateLimitTier: keyForm.rateLimitTier,
+      expiresInDays: keyForm.expiresInDays ? Number(keyForm.expiresInDays) : undefined,
+    });
+  };
+
+  const copyIssuedKey = () => {
+    if (!issuedKey) return;
+    void navigator.clipboard.writeText(issuedKey).then(() => toast.success("Copied to clipboard"));
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Service Accounts
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Scanner fleets, production lines and integrations call the API with scoped API keys instead of a person's sign-in. Every call is recorded in the activity log.
+              </p>
+            </div>
+            {managing && (
+              <form
+                className="mt-4 flex items-center space-x-3 md:mt-0 md:ml-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createAccountMutation.mutate({ name: accountName });
+                }}
+              >
+                <input
+                  type="text"
+                  value={accountName}
+                  onChange={(e) => setAccountName(e.target.value)}
+                  placeholder="e.g. Line 3 scanners"
+                  className="block w-56 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!accountName.trim() || createAccountMutation.isPending}
+                  className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:opacity-50"
+                >
+                  <Plus className="-ml-1 mr-2 h-5 w-5" />
+                  Add Account
+                </button>
+              </form>
+            )}
+          </div>
+
+          {meQuery.data && !managing && (
+            <div className="mt-6 text-center py-12 bg-white rounded-lg border border-gray-200">
+              <Bot className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No access</h3>
+              <p className="mt-1 text-sm text-gray-500">Managing service accounts needs the service-accounts:manage permission.</p>
+            </div>
+          )}
+
+          {/* Accounts */}
+          {managing && (
+            <div className="mt-6 space-y-6">
+              {accounts.map((account) => (
+                <div key={account.id} className="bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+                  <div className="px-6 py-4 flex items-center justify-between border-b border-gray-200">
+                    <div className="flex items-center">
+                      <Bot className={`h-6 w-6 ${account.isActive ? "text-blue-600" : "text-gray-400"}`} />
+                      <div className="ml-3">
+                        <div className="text-sm font-medium text-gray-900">
+                          {account.name}
+                          {!account.isActive && <span className="ml-2 text-xs text-gray-500">disabled</span>}
+                        </div>
+                        {account.description && <div className="text-xs text-gray-500">{account.description}</div>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() =>
+                          updateAccountMutation.mutate({ serviceAccountId: account.id, isActive: !account.isActive })
+                        }
+                        className="text-gray-600 hover:text-gray-900"
+                        title={account.isActive ? "Disable account and its keys" : "Enable account"}
+                      >
+                        <Power className="h-4 w-4" />
+                      </button>
+                      {account.isActive && (
+                        <button
+                          onClick={() =>
+                            setKeyForm({
+                              serviceAccountId: account.id,
+                              name: "",
+                              scopes: [],
+                              rateLimitTier: "STANDARD",
+                              expiresInDays: "90",
+                            })
+                          }
+                          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900"
+                        >
+                          <KeyRound className="mr-1 h-4 w-4" />
+                          New key
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <ul className="divide-y divide-gray-200">
+                    {account.apiKeys.map((apiKey) => (
+                      <li key={apiKey.id} className="px-6 py-3 flex items-center justify-between">
+                        <div>
+                          <div className="text-sm text-gray-900">
+                            {apiKey.name} <code className="ml-1 text-xs text-gray-500">{apiKey.displayKey}</code>
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {apiKey.scopes.join(", ")} · {apiKey.rateLimitTier.toLowerCase()} tier · expires {formatTime(apiKey.expiresAt)}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            Last used {formatTime(apiKey.lastUsedAt)}
+                            {apiKey.lastUsedIp && ` from ${apiKey.lastUsedIp}`}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[apiKey.status]}`}>
+                            {apiKey.status.toLowerCase()}
+                          </span>
+                          {apiKey.status === "ACTIVE" && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  if (confirm(`Rotate ${apiKey.name}? The current key keeps working for ${ROTATION_OVERLAP_HOURS} hours.`)) {
+                                    rotateKeyMutation.mutate({ apiKeyId: apiKey.id, overlapHours: ROTATION_OVERLAP_HOURS });
+                                  }
+                                }}
+                                className="text-blue-600 hover:text-blue-900"
+                                title="Rotate key"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => {
+                                  if (confirm(`Revoke ${apiKey.name}? Clients using it stop working immediately.`)) {
+                                    revokeKeyMutation.mutate({ apiKeyId: apiKey.id });
+                                  }
+                                }}
+                                className="text-red-600 hover:text-red-900"
+                                title="Revoke key"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                    {account.apiKeys.length === 0 && (
+                      <li className="px-6 py-3 text-sm text-gray-500">No API keys yet.</li>
+                    )}
+                  </ul>
+                </div>
+              ))}
+              {accounts.length === 0 && (
+                <div className="text-center py-12 bg-white rounded-lg border border-gray-200">
+                  <Bot className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No service accounts</h3>
+                  <p className="mt-1 text-sm text-gray-500">Add one for each fleet or integration that calls the API.</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* New Key Modal */}
+      {keyForm !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[36rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">New API key</h3>
+              <input
+                type="text"
+                value={keyForm.name}
+                onChange={(e) => setKeyForm({ ...keyForm, name: e.target.value })}
+                placeholder="Key name"
+                className="block w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">Scopes</h4>
+                <div className="mt-2 grid grid-cols-2 gap-1">
+                  {API_KEY_SCOPES.map((scope) => (
+                    <label key={scope} className="flex items-center text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={keyForm.scopes.includes(scope)}
+                        onChange={() => toggleScope(scope)}
+                        className="mr-2"
+                      />
+                      {scope}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <label className="flex-1 text-sm text-gray-700">
+                  Rate limit
+                  <select
+                    value={keyForm.rateLimitTier}
+                    onChange={(e) => setKeyForm({ ...keyForm, rateLimitTier: e.target.value as ApiKeyRateLimitTier })}
+                    className="mt-1 block w-full pl-3 pr-10 py-2 text-sm border border-gray-300 rounded-md"
+                  >
+                    {API_KEY_RATE_LIMIT_TIERS.map((tier) => (
+                      <option key={tier} value={tier}>
+                        {tier.toLowerCase()}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1 text-sm text-gray-700">
+                  Expires after (days, empty for never)
+                  <input
+                    type="number"
+                    min={1}
+                    max={730}
+                    value={keyForm.expiresInDays}
+                    onChange={(e) => setKeyForm({ ...keyForm, expiresInDays: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 text-sm border border-gray-300 rounded-md"
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setKeyForm(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={submitKey}
+                  disabled={!keyForm.name.trim() || keyForm.scopes.length === 0 || createKeyMutation.isPending}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Issue key
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Issued Key Modal */}
+      {issuedKey !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[36rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Copy your API key</h3>
+              <p className="text-sm text-gray-500">
+                It is shown only once. Send it as the <code>X-API-Key</code> header or as a bearer token.
+              </p>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 break-all rounded bg-gray-100 px-3 py-2 text-xs text-gray-900">{issuedKey}</code>
+                <button onClick={copyIssuedKey} className="text-gray-600 hover:text-gray-900" title="Copy key">
+                  <Copy className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setIssuedKey(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/service-accounts/")({
+  component: ServiceAccounts,
+});
@@ -0,0 +1,281 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ARCHETYPE_CODES, type ArchetypeCode } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { ShieldCheck, ShieldOff, RefreshCw, Users } from "lucide-react";
+import toast from "react-hot-toast";
+
+type PolicyArchetype = Exclude<ArchetypeCode, "PUBLIC">;
+
+const isPolicyArchetype = (code: string): code is PolicyArchetype =>
+  code !== "PUBLIC" && (ARCHETYPE_CODES as readonly string[]).includes(code);
+
+/** Archetypes a tenant can require MFA for; the public role has no sign-in */
+const POLICY_ARCHETYPES = ARCHETYPE_CODES.filter(isPolicyArchetype);
+
+const inputClassName =
+  "block w-40 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+function Settings() {
+  const { isAuthenticated } = useAuthStore();
+  const trpc = useTRPC();
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [policyDraft, setPolicyDraft] = useState<PolicyArchetype[] | null>(null);
+
+  const statusQuery = useQuery(trpc.mfa.status.queryOptions(undefined, { enabled: isAuthenticated }));
+  const meQuery = useQuery(trpc.permissions.me.queryOptions(undefined, { enabled: isAuthenticated }));
+  const managingRoles = meQuery.data?.permissions.includes("roles:manage") ?? false;
+  const policyQuery = useQuery(trpc.mfa.policy.queryOptions(undefined, { enabled: managingRoles }));
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const codesIssued = (message: string) => ({
+    onSuccess: (result: { recoveryCodes: string[] }) => {
+      toast.success(message);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      void statusQuery.refetch();
+    },
+    onError,
+  });
+
+  const beginEnrollmentMutation = useMutation(trpc.mfa.beginEnrollment.mutationOptions({ onError }));
+  const confirmEnrollmentMutation = useMutation(
+    trpc.mfa.confirmEnrollment.mutationOptions({
+      ...codesIssued("Two-factor authentication enabled"),
+      onSettled: () => beginEnrollmentMutation.reset(),
+    })
+  );
+  const regenerateMutation = useMutation(
+    trpc.mfa.regenerateRecoveryCodes.mutationOptions(codesIssued("New recovery codes issued"))
+  );
+  const disableMutation = useMutation(
+    trpc.mfa.disable.mutationOptions({
+      onSuccess: () => {
+        toast.success("Two-factor authentication disabled");
+        setCode("");
+        void statusQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const updatePolicyMutation = useMutation(
+    trpc.mfa.updatePolicy.mutationOptions({
+      onSuccess: () => {
+        toast.success("MFA policy saved");
+        setPolicyDraft(null);
+        void policyQuery.refetch();
+        void statusQuery.refetch();
+      },
+      onError,
+    })
+  );
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" />;
+  }
+
+  const status = statusQuery.data;
+  const enrollment = beginEnrollmentMutation.data;
+  const required = policyDraft ?? (policyQuery.data?.mfaRequiredArchetypes ?? []).filter(isPolicyArchetype);
+
+  const toggleArchetype = (archetype: PolicyArchetype) => {
+    setPolicyDraft(
+      required.includes(archetype)
+        ? required.filter((candidate) => candidate !== archetype)
+        : [...required, archetype]
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 md:px-8 space-y-6">
+          {/* Header */}
+          <div>
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">Settings</h2>
+            <p className="mt-1 text-sm text-gray-500">Sign-in security for your account and organisation.</p>
+          </div>
+
+          {/* Two-factor authentication */}
+          <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-4">
+            <div className="flex items-start justify-between">
+              <div className="flex items-start">
+                {status?.enabled ? (
+                  <ShieldCheck className="h-6 w-6 text-green-600" />
+                ) : (
+                  <ShieldOff className="h-6 w-6 text-gray-400" />
+                )}
+                <div className="ml-3">
+                  <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+                  <p className="text-sm text-gray-500">
+                    {status?.enabled
+                      ? `Enabled ${status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : ""} · ${status.recoveryCodesRemaining} recovery codes left`
+                      : "Sign in with a code from an authenticator app as well as your password."}
+                  </p>
+                  {status?.required && (
+                    <p className="text-xs text-blue-700">Required for your role by your organisation.</p>
+                  )}
+                </div>
+              </div>
+              {status && !status.enabled && !enrollment && (
+                <button
+                  onClick={() => beginEnrollmentMutation.mutate({})}
+                  disabled={beginEnrollmentMutation.isPending}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Set up
+                </button>
+              )}
+            </div>
+
+            {enrollment && (
+              <form
+                className="space-y-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  confirmEnrollmentMutation.mutate({ code });
+                }}
+              >
+                <p className="text-sm text-gray-700">
+                  Scan the QR code with an authenticator app, then enter the code it shows.
+                </p>
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48" />
+                <p className="text-xs text-gray-500">
+                  Or enter this key: <span className="font-mono break-all">{enrollment.secret}</span>
+                </p>
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    placeholder="123456"
+                    className={inputClassName}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!code.trim() || confirmEnrollmentMutation.isPending}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Enable
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {status?.enabled && (
+              <div className="flex items-center space-x-3">
+                <input
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="Code or recovery code"
+                  className={inputClassName}
+                />
+                <button
+                  onClick={() => regenerateMutation.mutate({ code })}
+                  disabled={!code.trim() || regenerateMutation.isPending}
+                  className="inline-flex items-center text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                >
+                  <RefreshCw className="mr-1 h-4 w-4" />
+                  New recovery codes
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={() => {
+                      if (confirm("Disable two-factor authentication? Your recovery codes stop working.")) {
+                        disableMutation.mutate({ code });
+                      }
+                    }}
+                    disabled={!code.trim() || disableMutation.isPending}
+                    className="text-sm text-red-600 hover:text-red-900 disabled:opacity-50"
+                  >
+                    Disable
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Tenant policy */}
+          {managingRoles && (
+            <div className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 space-y-4">
+              <div className="flex items-start">
+                <Users className="h-6 w-6 text-blue-600" />
+                <div className="ml-3">
+                  <h3 className="text-lg font-medium text-gray-900">Require two-factor authentication</h3>
+                  <p className="text-sm text-gray-500">
+                    Users with these roles set up an authenticator at their next sign-in and cannot disable it.
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {POLICY_ARCHETYPES.map((archetype) => (
+                  <label key={archetype} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={required.includes(archetype)}
+                      onChange={() => toggleArchetype(archetype)}
+                      className="mr-2"
+                    />
+                    {archetype.toLowerCase()}
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => updatePolicyMutation.mutate({ mfaRequiredArchetypes: required })}
+                  disabled={policyDraft === null || updatePolicyMutation.isPending}
+                  className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save policy
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Recovery Codes Modal */}
+      {recoveryCodes !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[28rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900">Save your recovery codes</h3>
+              <p className="text-sm text-gray-500">
+                Each code signs you in once if you lose your authenticator. They are shown only now.
+              </p>
+              <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 p-4 rounded-md">
+                {recoveryCodes.map((recoveryCode) => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setRecoveryCodes(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/settings/")({
+  component: Settings,
+});
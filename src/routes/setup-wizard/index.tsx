@@ -1,4 +1,4 @@
-import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { createFileRoute, Navigate, Link } from "@tanstack/react-router";
 import { useState } from "react";
 import { useAuthStore } from "~/stores/auth";
 import { useWizardStore, type UseCase, type UserRoleType, type ActionType, type ProductItem } from "~/stores/wizard";
@@ -22,7 +22,7 @@ const wizardSteps = [
 ];
 
 function SetupWizard() {
-  const { isAuthenticated, token } = useAuthStore();
+  const { isAuthenticated } = useAuthStore();
   const { 
     currentStep, 
     wizardData, 
@@ -56,7 +56,7 @@ function SetupWizard() {
     },
   }));
 
-  if (!isAuthenticated || !token) {
+  if (!isAuthenticated) {
     return <Navigate to="/" />;
   }
 
@@ -224,7 +224,6 @@ function SetupWizard() {
     }
 
     generateConfigMutation.mutate({
-      token: token!,
       name: configName,
       useCase: wizardData.useCase,
       selectedRoles: wizardData.selectedRoles,
@@ -613,8 +612,10 @@ function SetupWizard() {
                     <h4 className="font-semibold text-green-900">Configuration Generated Successfully!</h4>
                   </div>
                   <p className="text-green-800 mb-4">
-                    Your tenant configuration pack has been created and stored. 
+                    Your tenant configuration pack has been created and stored as a draft.
                     Configuration ID: <code className="bg-green-100 px-2 py-1 rounded">{generatedConfig.id}</code>
+                    . Publish it under{" "}
+                    <Link to="/config-packs" className="underline">Config Packs</Link> to put it into use.
                   </p>
                   <div className="bg-white border border-green-200 rounded p-4 max-h-64 overflow-y-auto">
                     <pre className="text-xs text-gray-700">
@@ -0,0 +1,344 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { WorkflowStatus, WorkflowTaskStatus } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { ListChecks, Workflow, ClipboardCheck, CheckCircle, XCircle } from "lucide-react";
+import toast from "react-hot-toast";
+
+const INSTANCE_STYLES: Record<WorkflowStatus, string> = {
+  ACTIVE: "bg-blue-100 text-blue-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-800",
+};
+
+const TASK_STYLES: Record<WorkflowTaskStatus, string> = {
+  PENDING: "text-gray-400",
+  OPEN: "text-blue-600 font-medium",
+  COMPLETED: "text-green-600",
+  CANCELLED: "text-gray-400 line-through",
+};
+
+const formatAction = (action: string) => action.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+function TaskInbox() {
+  const { isAuthenticated, canManage } = useAuthStore();
+  const trpc = useTRPC();
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [completing, setCompleting] = useState<{ taskId: number; action: string; notes: string } | null>(null);
+  const [instanceId, setInstanceId] = useState<number | null>(null);
+
+  const managing = isAuthenticated && canManage();
+
+  const inboxQuery = useQuery(trpc.workflows.inbox.queryOptions({}, { enabled: isAuthenticated }));
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: managing })
+  );
+  const projects = projectsQuery.data || [];
+  const activeProjectId = projectId ?? projects[0]?.id ?? null;
+
+  const instancesQuery = useQuery(
+    trpc.workflows.instances.queryOptions(
+      { projectId: activeProjectId ?? 0 },
+      { enabled: managing && activeProjectId !== null }
+    )
+  );
+  const instanceQuery = useQuery(
+    trpc.workflows.instance.queryOptions({ instanceId: instanceId ?? 0 }, { enabled: instanceId !== null })
+  );
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const refresh = () => {
+    void inboxQuery.refetch();
+    void instancesQuery.refetch();
+    if (instanceId !== null) void instanceQuery.refetch();
+  };
+
+  const completeMutation = useMutation(
+    trpc.workflows.completeTask.mutationOptions({
+      onSuccess: () => {
+        toast.success("Task completed");
+        setCompleting(null);
+        refresh();
+      },
+      onError,
+    })
+  );
+  const startMutation = useMutation(
+    trpc.workflows.start.mutationOptions({
+      onSuccess: (result) => {
+        if (result.started.length === 0) {
+          toast.error("No audit workflow to start, or one is already running");
+        } else {
+          toast.success(`Started ${result.started.length} workflow${result.started.length !== 1 ? "s" : ""}`);
+        }
+        refresh();
+      },
+      onError,
+    })
+  );
+  const cancelMutation = useMutation(
+    trpc.workflows.cancel.mutationOptions({
+      onSuccess: () => {
+        toast.success("Workflow cancelled");
+        refresh();
+      },
+      onError,
+    })
+  );
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" />;
+  }
+
+  const tasks = inboxQuery.data?.tasks || [];
+  const instances = instancesQuery.data?.instances || [];
+  const instance = instanceQuery.data;
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Tasks
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Workflow steps waiting for your role, started by scans, due maintenance and audits.
+              </p>
+            </div>
+          </div>
+
+          {/* Inbox */}
+          <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">
+                Inbox{inboxQuery.data ? ` (${inboxQuery.data.total})` : ""}
+              </h3>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {tasks.map((task) => (
+                <li key={task.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{formatAction(task.action)}</div>
+                    <div className="text-xs text-gray-500">
+                      {task.workflowName}
+                      {task.assetName && ` · ${task.assetName}`} · step {task.stepIndex + 1} · waiting since{" "}
+                      {formatTime(task.openedAt)}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => setInstanceId(task.instanceId)}
+                      className="text-sm text-gray-600 hover:text-gray-900"
+                    >
+                      Details
+                    </button>
+                    <button
+                      onClick={() => setCompleting({ taskId: task.id, action: task.action, notes: "" })}
+                      className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                    >
+                      <CheckCircle className="-ml-0.5 mr-1.5 h-4 w-4" />
+                      Complete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {tasks.length === 0 && (
+              <div className="text-center py-12">
+                <ListChecks className="mx-auto h-12 w-12 text-gray-400" />
+                <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing waiting for you</h3>
+                <p className="mt-1 text-sm text-gray-500">Tasks appear here when a workflow reaches a step for your role.</p>
+              </div>
+            )}
+          </div>
+
+          {/* Workflow runs */}
+          {managing && (
+            <div className="mt-6 bg-white shadow-sm rounded-lg border border-gray-200 overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-lg font-medium text-gray-900">Workflow Runs</h3>
+                <div className="flex space-x-3">
+                  <select
+                    value={activeProjectId ?? ""}
+                    onChange={(e) => setProjectId(Number(e.target.value))}
+                    className="block pl-3 pr-10 py-2 text-sm border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+                  >
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    disabled={activeProjectId === null || startMutation.isPending}
+                    onClick={() => activeProjectId !== null && startMutation.mutate({ projectId: activeProjectId })}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <ClipboardCheck className="-ml-1 mr-2 h-5 w-5" />
+                    Start Audit
+                  </button>
+                </div>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {instances.map((run) => (
+                  <li key={run.id} className="px-6 py-4 flex items-center justify-between">
+                    <button type="button" onClick={() => setInstanceId(run.id)} className="text-left">
+                      <div className="text-sm font-medium text-gray-900">{run.workflowName}</div>
+                      <div className="text-xs text-gray-500">
+                        {run.assetName ?? (run.codeId ? `Code #${run.codeId}` : "Project")} · started {formatTime(run.createdAt)}
+                        {run.currentStep !== null && ` · at ${formatAction(run.tasks[run.currentStep]?.action ?? "")}`}
+                      </div>
+                    </button>
+                    <div className="flex items-center space-x-3">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${INSTANCE_STYLES[run.status]}`}>
+                        {run.status.toLowerCase()}
+                      </span>
+                      {run.status === "ACTIVE" && (
+                        <button
+                          onClick={() => {
+                            if (confirm(`Cancel "${run.workflowName}"?`)) cancelMutation.mutate({ instanceId: run.id });
+                          }}
+                          className="text-red-600 hover:text-red-900"
+                          title="Cancel"
+                        >
+                          <XCircle className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {instances.length === 0 && (
+                <div className="text-center py-12">
+                  <Workflow className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No workflow runs</h3>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Workflows from this project's config packs start when their trigger fires.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Complete Modal */}
+      {completing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">{formatAction(completing.action)}</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notes</label>
+                <textarea
+                  rows={4}
+                  value={completing.notes}
+                  onChange={(e) => setCompleting({ ...completing, notes: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setCompleting(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={completeMutation.isPending}
+                  onClick={() =>
+                    completeMutation.mutate({ taskId: completing.taskId, notes: completing.notes || undefined })
+                  }
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Complete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Instance Modal */}
+      {instanceId !== null && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[36rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              {!instance ? (
+                <p className="text-sm text-gray-500 text-center">Loading...</p>
+              ) : (
+                <>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{instance.workflowName}</h3>
+                      <p className="text-sm text-gray-500">
+                        {instance.trigger.toLowerCase().replace(/_/g, " ")}
+                        {instance.assetName && ` · ${instance.assetName}`}
+                      </p>
+                    </div>
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${INSTANCE_STYLES[instance.status]}`}>
+                      {instance.status.toLowerCase()}
+                    </span>
+                  </div>
+
+                  <ol className="space-y-1 text-sm">
+                    {instance.tasks.map((task) => (
+                      <li key={task.id} className={TASK_STYLES[task.status]}>
+                        {task.stepIndex + 1}. {formatAction(task.action)}
+                        <span className="ml-2 text-xs text-gray-500">{task.roles.join(", ")}</span>
+                      </li>
+                    ))}
+                  </ol>
+
+                  <div>
+                    <h4 className="text-sm font-medium text-gray-900">Audit Trail</h4>
+                    <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-gray-100 text-xs text-gray-600">
+                      {instance.events.map((event) => (
+                        <li key={event.id} className="py-1.5 flex justify-between">
+                          <span>
+                            {event.type.toLowerCase().replace(/_/g, " ")}
+                            {event.stepIndex !== null && ` · step ${event.stepIndex + 1}`}
+                            {event.actorId !== null && ` · user #${event.actorId}`}
+                            {event.role && ` (${event.role})`}
+                          </span>
+                          <span className="text-gray-400">{formatTime(event.createdAt)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      type="button"
+                      onClick={() => setInstanceId(null)}
+                      className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/tasks/")({
+  component: TaskInbox,
+});
@@ -0,0 +1,402 @@
+import { createFileRoute, Navigate } from "@tanstack/react-router";
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { TemplateBundleSchema, type TemplateParameter, type TemplateScope } from "@optropic/shared";
+import { useAuthStore } from "~/stores/auth";
+import { useTRPC } from "~/trpc/react";
+import { DashboardLayout } from "~/components/Layout/DashboardLayout";
+import { LayoutTemplate, Download, Upload, Archive, PlayCircle } from "lucide-react";
+import toast from "react-hot-toast";
+
+const SCOPE_STYLES: Record<TemplateScope, string> = {
+  GLOBAL: "bg-purple-100 text-purple-800",
+  TENANT: "bg-blue-100 text-blue-800",
+};
+
+interface InstantiateForm {
+  templateId: number;
+  templateName: string;
+  name: string;
+  projectId: number | null;
+  parameters: TemplateParameter[];
+  /** Field values as typed; parsed per parameter type on submit */
+  values: Record<string, string | boolean>;
+}
+
+const initialValue = (parameter: TemplateParameter): string | boolean => {
+  if (parameter.type === "boolean") return parameter.default === true;
+  if (parameter.default === undefined) return "";
+  if (parameter.type === "list" && Array.isArray(parameter.default)) return parameter.default.join(", ");
+  if (parameter.type === "products") return JSON.stringify(parameter.default, null, 2);
+  if (typeof parameter.default === "object") return JSON.stringify(parameter.default);
+  return String(parameter.default as string | number);
+};
+
+/**
+ * Typed parameter values from the form; empty optional fields are left out
+ */
+const parseValues = (form: InstantiateForm): Record<string, unknown> => {
+  const values: Record<string, unknown> = {};
+  for (const parameter of form.parameters) {
+    const raw = form.values[parameter.key];
+    if (typeof raw === "boolean") {
+      values[parameter.key] = raw;
+      continue;
+    }
+    if (raw === undefined || raw.trim() === "") continue;
+
+    switch (parameter.type) {
+      case "number":
+        values[parameter.key] = Number(raw);
+        break;
+      case "list":
+        values[parameter.key] = raw.split(",").map((item) => item.trim()).filter(Boolean);
+        break;
+      case "products":
+        values[parameter.key] = JSON.parse(raw) as unknown;
+        break;
+      default:
+        values[parameter.key] = raw;
+    }
+  }
+  return values;
+};
+
+function Templates() {
+  const { isAuthenticated, canManage, isAdmin } = useAuthStore();
+  const trpc = useTRPC();
+  const queryClient = useQueryClient();
+  const [category, setCategory] = useState("");
+  const [form, setForm] = useState<InstantiateForm | null>(null);
+
+  const managing = isAuthenticated && canManage();
+
+  const templatesQuery = useQuery(trpc.templates.list.queryOptions({}, { enabled: isAuthenticated }));
+  const projectsQuery = useQuery(
+    trpc.getProjects.queryOptions(undefined, { enabled: isAuthenticated })
+  );
+
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Request failed");
+  };
+
+  const instantiateMutation = useMutation(
+    trpc.templates.instantiate.mutationOptions({
+      onSuccess: (configPack) => {
+        toast.success(`Draft config pack "${configPack.name}" created`);
+        setForm(null);
+        void templatesQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const archiveMutation = useMutation(
+    trpc.templates.archive.mutationOptions({
+      onSuccess: () => {
+        toast.success("Template archived");
+        void templatesQuery.refetch();
+      },
+      onError,
+    })
+  );
+  const importMutation = useMutation(
+    trpc.templates.import.mutationOptions({
+      onSuccess: (result) => {
+        toast.success(
+          `Imported ${result.created.length} new, ${result.updated.length} updated, ${result.skipped.length} skipped`
+        );
+        void templatesQuery.refetch();
+      },
+      onError,
+    })
+  );
+
+  if (!isAuthenticated) {
+    return <Navigate to="/" />;
+  }
+
+  const templates = templatesQuery.data || [];
+  const categories = [...new Set(templates.map((template) => template.category))].sort();
+  const shown = category ? templates.filter((template) => template.category === category) : templates;
+  const projects = projectsQuery.data || [];
+
+  const exportTemplates = async (templateIds?: number[]) => {
+    try {
+      const bundle = await queryClient.fetchQuery(trpc.templates.export.queryOptions({ templateIds }));
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `templates-${Date.now()}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const bundle = TemplateBundleSchema.parse(JSON.parse(await file.text()));
+      importMutation.mutate({ bundle, scope: "TENANT", overwrite: confirm("Replace templates with the same key?") });
+    } catch {
+      toast.error("Not a valid template bundle");
+    }
+  };
+
+  const submit = () => {
+    if (!form) return;
+    let parameters: Record<string, unknown>;
+    try {
+      parameters = parseValues(form);
+    } catch {
+      toast.error("Products must be a JSON list");
+      return;
+    }
+    instantiateMutation.mutate({
+      templateId: form.templateId,
+      name: form.name || undefined,
+      projectId: form.projectId ?? undefined,
+      parameters,
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="py-6">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 md:px-8">
+          {/* Header */}
+          <div className="md:flex md:items-center md:justify-between">
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+                Templates
+              </h2>
+              <p className="mt-1 text-sm text-gray-500">
+                Global and tenant templates. Fill in a template's parameters to create a draft config pack.
+              </p>
+            </div>
+            <div className="mt-4 flex items-center space-x-3 md:mt-0 md:ml-4">
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                className="block pl-3 pr-10 py-2 text-sm border border-gray-300 focus:outline-none focus:ring-blue-500 focus:border-blue-500 rounded-md"
+              >
+                <option value="">All categories</option>
+                {categories.map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              {managing && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => void exportTemplates()}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Download className="-ml-1 mr-2 h-5 w-5" />
+                    Export
+                  </button>
+                  <label className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+                    <Upload className="-ml-1 mr-2 h-5 w-5" />
+                    Import
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) void importFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Catalog */}
+          <div className="mt-6 grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {shown.map((template) => (
+              <div key={template.id} className="bg-white shadow-sm rounded-lg border border-gray-200 p-6 flex flex-col">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900">{template.name}</h3>
+                    <p className="text-xs text-gray-500">
+                      {template.category} · {template.useCase.toLowerCase()} · v{template.version}
+                    </p>
+                  </div>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${SCOPE_STYLES[template.scope]}`}>
+                    {template.scope.toLowerCase()}
+                  </span>
+                </div>
+                {template.description && <p className="mt-3 text-sm text-gray-600 flex-1">{template.description}</p>}
+                <p className="mt-3 text-xs text-gray-500">
+                  {template.parameters.length} parameter{template.parameters.length !== 1 ? "s" : ""} · used{" "}
+                  {template.instanceCount} time{template.instanceCount !== 1 ? "s" : ""}
+                </p>
+                <div className="mt-4 flex items-center justify-between">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setForm({
+                        templateId: template.id,
+                        templateName: template.name,
+                        name: template.name,
+                        projectId: null,
+                        parameters: template.parameters,
+                        values: Object.fromEntries(
+                          template.parameters.map((parameter) => [parameter.key, initialValue(parameter)])
+                        ),
+                      })
+                    }
+                    className="inline-flex items-center px-3 py-1.5 border border-transparent rounded-md text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+                  >
+                    <PlayCircle className="-ml-0.5 mr-1.5 h-4 w-4" />
+                    Use Template
+                  </button>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => void exportTemplates([template.id])}
+                      className="text-gray-600 hover:text-gray-900"
+                      title="Export"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                    {managing && (template.scope === "TENANT" || isAdmin()) && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Archive "${template.name}"?`)) archiveMutation.mutate({ templateId: template.id });
+                        }}
+                        className="text-red-600 hover:text-red-900"
+                        title="Archive"
+                      >
+                        <Archive className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          {shown.length === 0 && (
+            <div className="mt-6 text-center py-12 bg-white shadow-sm rounded-lg border border-gray-200">
+              <LayoutTemplate className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No templates</h3>
+              <p className="mt-1 text-sm text-gray-500">Import a template bundle to add templates for your tenant.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Instantiate Modal */}
+      {form && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-[32rem] shadow-lg rounded-md bg-white">
+            <div className="mt-3 space-y-4">
+              <h3 className="text-lg font-medium text-gray-900 text-center">{form.templateName}</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Config pack name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Project</label>
+                <select
+                  value={form.projectId ?? ""}
+                  onChange={(e) => setForm({ ...form, projectId: e.target.value ? Number(e.target.value) : null })}
+                  className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">No project</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {form.parameters.map((parameter) => {
+                const value = form.values[parameter.key];
+                const setValue = (next: string | boolean) =>
+                  setForm({ ...form, values: { ...form.values, [parameter.key]: next } });
+
+                return (
+                  <div key={parameter.key}>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {parameter.label}
+                      {parameter.required && " *"}
+                    </label>
+                    {parameter.type === "boolean" ? (
+                      <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(e) => setValue(e.target.checked)}
+                        className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    ) : parameter.type === "enum" ? (
+                      <select
+                        value={String(value ?? "")}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="mt-1 block w-full pl-3 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {!parameter.required && <option value="">—</option>}
+                        {(parameter.options ?? []).map((option) => (
+                          <option key={option} value={option}>
+                            {option}
+                          </option>
+                        ))}
+                      </select>
+                    ) : parameter.type === "products" ? (
+                      <textarea
+                        rows={5}
+                        value={String(value ?? "")}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    ) : (
+                      <input
+                        type={parameter.type === "number" ? "number" : "text"}
+                        value={String(value ?? "")}
+                        placeholder={parameter.type === "list" ? "Comma-separated" : undefined}
+                        onChange={(e) => setValue(e.target.value)}
+                        className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    )}
+                    {parameter.description && <p className="mt-1 text-xs text-gray-500">{parameter.description}</p>}
+                  </div>
+                );
+              })}
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={instantiateMutation.isPending}
+                  onClick={submit}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Create Draft
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+export const Route = createFileRoute("/templates/")({
+  component: Templates,
+});
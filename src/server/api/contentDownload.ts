@@ -0,0 +1,51 @@
+/**
+ * Content Download Proxy
+ * ----------------------
+ * GET /api/content/{downloadToken}/download
+ * Redirects to a short-lived signed URL for the current file of an active
+ * content item. The token is unguessable, so files cannot be enumerated;
+ * requests are rate-limited per client and a client's downloads count once
+ * per hour.
+ */
+
+import { ContentService } from "../services/contentService";
+import { checkRateLimit } from "../middleware/rateLimitStore";
+import { logError } from "../utils/logger";
+
+const REQUESTS_PER_MINUTE = 60;
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request || (request.method !== "GET" && request.method !== "HEAD")) {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const match = /\/([0-9a-f-]{36})\/download\/?$/i.exec(new URL(request.url).pathname);
+  if (!match) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const clientIp = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown";
+  if (!checkRateLimit(`content-download:${clientIp}`, 60 * 1000, REQUESTS_PER_MINUTE).allowed) {
+    return new Response("Too many requests", { status: 429, headers: { "Retry-After": "60" } });
+  }
+
+  try {
+    const url = await ContentService.getDownloadUrl(match[1]!, clientIp);
+    if (!url) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: url,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    logError(error, { handler: "contentDownload" });
+    return new Response("Internal server error", { status: 500 });
+  }
+}
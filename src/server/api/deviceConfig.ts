@@ -0,0 +1,81 @@
+/**
+ * Device Config Endpoint
+ * ----------------------
+ * GET /api/config/{projectId}
+ * Serves the config pack version pinned for a project to field devices.
+ * Devices authenticate with an API key, or a user's token or session, that
+ * holds projects:read in the project's tenant. The ETag is the hash of the config content, so devices poll with
+ * If-None-Match and get 304 until the pin or its content changes.
+ * Deprecated versions are still served, with a Deprecation header.
+ */
+
+import { db } from "../db";
+import { authorizeRequest } from "../middleware/requestAuth";
+import { ConfigPackService } from "../services/configPackService";
+import { inTenant } from "../trpc/tenantAccess";
+import { etagMatches } from "../utils/configPacks";
+import { logError } from "../utils/logger";
+
+async function serveConfig(request: Request, projectId: number, tenantId: number): Promise<Response> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: { id: true, userId: true, tenantId: true },
+  });
+  if (!project || !inTenant(project, tenantId)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const config = await ConfigPackService.getDeviceConfig(project.id);
+  if (!config) {
+    return new Response("No config pack pinned", { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    ETag: config.etag,
+    "Cache-Control": "private, no-cache",
+    "X-Config-Pack-Id": String(config.configPackId),
+    "X-Config-Pack-Version": String(config.version),
+  };
+  if (config.status === "DEPRECATED") {
+    headers.Deprecation = config.deprecatedAt ? `@${Math.floor(config.deprecatedAt.getTime() / 1000)}` : "true";
+  }
+
+  if (etagMatches(request.headers.get("if-none-match"), config.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(request.method === "HEAD" ? null : JSON.stringify(config.configJson), {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request || (request.method !== "GET" && request.method !== "HEAD")) {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const match = /\/(\d+)\/?$/.exec(new URL(request.url).pathname);
+  if (!match) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  try {
+    const result = await authorizeRequest(request, ["projects:read"], (access) =>
+      serveConfig(request, Number(match[1]), access.tenantId)
+    );
+
+    if (result.status === "missing" || result.status === "invalid") {
+      return new Response("Unauthorized", { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+    }
+    if (result.status === "forbidden") {
+      return new Response(`Missing permission: ${result.missing.join(", ")}`, { status: 403 });
+    }
+    return result.response;
+  } catch (error) {
+    logError(error, { handler: "deviceConfig" });
+    return new Response("Internal server error", { status: 500 });
+  }
+}
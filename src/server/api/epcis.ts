@@ -0,0 +1,190 @@
+/**
+ * EPCIS 2.0 Endpoint
+ * ------------------
+ * POST /api/epcis/capture?projectId={id}   EPCISDocument (JSON-LD)
+ * POST /api/epcis/events?projectId={id}    a single event
+ * GET  /api/epcis/events?projectId={id}    EPCISQueryDocument; supports
+ *      eventType, GE_eventTime, LT_eventTime, EQ_action, EQ_bizStep,
+ *      EQ_disposition, EQ_readPoint, EQ_bizLocation, MATCH_anyEPC,
+ *      perPage and nextPageToken
+ * Requests carry a user's token or session, or an API key, and the project
+ * must be in the caller's tenant. Captures need epcis:capture, queries
+ * projects:read.
+ * Captures are processed synchronously and answer 201 with the stored and
+ * duplicate eventIDs. Errors are RFC 7807 problem documents using the
+ * EPCIS exception types.
+ */
+
+import type { ZodError } from "zod";
+import {
+  EpcisDocumentSchema,
+  EpcisEventSchema,
+  ListSupplyChainEventsSchema,
+  type EpcisEvent,
+} from "@optropic/shared";
+import { db } from "../db";
+import { authorizeRequest } from "../middleware/requestAuth";
+import { EpcisService, toQueryDocument } from "../services/epcisService";
+import type { UserAccess } from "../services/permissionService";
+import { inTenant } from "../trpc/tenantAccess";
+import { EVENT_TYPES } from "../utils/epcis";
+import { logError } from "../utils/logger";
+
+const VERSION_HEADERS = { "GS1-EPCIS-Version": "2.0.0", "GS1-CBV-Version": "2.0.0" };
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/ld+json",
+      "Cache-Control": "no-store",
+      ...VERSION_HEADERS,
+      ...headers,
+    },
+  });
+}
+
+function problem(status: number, exception: string, title: string): Response {
+  return new Response(JSON.stringify({ type: `epcisException:${exception}`, title, status }), {
+    status,
+    headers: {
+      "Content-Type": "application/problem+json",
+      "Cache-Control": "no-store",
+      ...VERSION_HEADERS,
+    },
+  });
+}
+
+function validationProblem(error: ZodError): Response {
+  const issue = error.issues[0];
+  const path = issue?.path.join(".");
+  return problem(400, "ValidationException", `${path ? `${path}: ` : ""}${issue?.message ?? "Invalid request"}`);
+}
+
+async function capture(projectId: number, events: EpcisEvent[], userId: number): Promise<Response> {
+  const result = await EpcisService.captureEvents(projectId, events, userId);
+
+  if (result.captured.length > 0) {
+    await db.activityLog.create({
+      data: {
+        action: "EPCIS_EVENTS_CAPTURED",
+        entityType: "Project",
+        entityId: projectId,
+        newValues: {
+          captured: result.captured.length,
+          duplicates: result.duplicates.length,
+        },
+        userId,
+      },
+    });
+  }
+
+  return json(201, result);
+}
+
+async function query(url: URL, projectId: number): Promise<Response> {
+  const param = (name: string) => url.searchParams.get(name) ?? undefined;
+  const eventType = param("eventType");
+
+  const parsed = ListSupplyChainEventsSchema.safeParse({
+    projectId,
+    eventType: eventType ? (EVENT_TYPES[eventType as EpcisEvent["type"]] ?? eventType) : undefined,
+    action: param("EQ_action"),
+    bizStep: param("EQ_bizStep"),
+    disposition: param("EQ_disposition"),
+    readPoint: param("EQ_readPoint"),
+    bizLocation: param("EQ_bizLocation"),
+    epc: param("MATCH_anyEPC"),
+    from: param("GE_eventTime"),
+    until: param("LT_eventTime"),
+    limit: param("perPage") ? Number(param("perPage")) : undefined,
+    offset: param("nextPageToken") ? Number(param("nextPageToken")) : undefined,
+  });
+  if (!parsed.success) {
+    return validationProblem(parsed.error);
+  }
+
+  const { eventList, total } = await EpcisService.queryDocuments(parsed.data);
+
+  const next = parsed.data.offset + eventList.length;
+  const headers: Record<string, string> = {};
+  if (next < total) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set("nextPageToken", String(next));
+    headers.Link = `<${nextUrl.toString()}>; rel="next"`;
+  }
+
+  return json(200, toQueryDocument(eventList), headers);
+}
+
+async function handle(request: Request, url: URL, isCapture: boolean, access: UserAccess): Promise<Response> {
+  const projectId = Number(url.searchParams.get("projectId"));
+  const project = Number.isInteger(projectId)
+    ? await db.project.findUnique({ where: { id: projectId }, select: { id: true, userId: true, tenantId: true } })
+    : null;
+  if (!project || !inTenant(project, access.tenantId)) {
+    return problem(403, "SecurityException", "Project not found or unauthorized");
+  }
+
+  try {
+    if (request.method === "GET") {
+      return await query(url, project.id);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return problem(400, "ValidationException", "Request body is not valid JSON");
+    }
+
+    if (isCapture) {
+      const parsed = EpcisDocumentSchema.safeParse(body);
+      if (!parsed.success) return validationProblem(parsed.error);
+      return await capture(project.id, parsed.data.epcisBody.eventList, access.userId);
+    }
+
+    const parsed = EpcisEventSchema.safeParse(body);
+    if (!parsed.success) return validationProblem(parsed.error);
+    return await capture(project.id, [parsed.data], access.userId);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Duplicate eventID")) {
+      return problem(400, "ValidationException", error.message);
+    }
+    logError(error, { handler: "epcis" });
+    return problem(500, "ImplementationException", "Internal server error");
+  }
+}
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request) {
+    return new Response("No request", { status: 400 });
+  }
+
+  const url = new URL(request.url);
+  const resource = url.pathname.split("/").filter(Boolean).pop();
+  const isCapture = request.method === "POST" && resource === "capture";
+  const isEvents = resource === "events" && (request.method === "POST" || request.method === "GET");
+
+  if (!isCapture && !isEvents) {
+    return problem(404, "NoSuchResourceException", "Unknown EPCIS resource");
+  }
+
+  try {
+    const permission = request.method === "GET" ? "projects:read" : "epcis:capture";
+    const result = await authorizeRequest(request, [permission], (access) => handle(request, url, isCapture, access));
+
+    if (result.status === "missing" || result.status === "invalid") {
+      return problem(401, "SecurityException", "No valid authorization token provided");
+    }
+    if (result.status === "forbidden") {
+      return problem(403, "SecurityException", `Missing permission: ${result.missing.join(", ")}`);
+    }
+    return result.response;
+  } catch (error) {
+    logError(error, { handler: "epcis" });
+    return problem(500, "ImplementationException", "Internal server error");
+  }
+}
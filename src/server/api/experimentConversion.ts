@@ -0,0 +1,44 @@
+/**
+ * Experiment Conversion Pixel
+ * ---------------------------
+ * GET /api/experiments/convert?opx={token}
+ * Destinations served by an experiment receive the scan's conversion token
+ * in the `opx` query parameter and embed this 1x1 GIF once the visitor
+ * converts. The answer is the same pixel whether or not the token counted.
+ */
+
+import { ExperimentService } from "../services/experimentService";
+import { CONVERSION_PARAM } from "../utils/experiments";
+import { logError } from "../utils/logger";
+
+const PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+function pixel(): Response {
+  return new Response(PIXEL, {
+    status: 200,
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request || (request.method !== "GET" && request.method !== "HEAD")) {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const token = new URL(request.url).searchParams.get(CONVERSION_PARAM);
+  if (token && request.method === "GET") {
+    try {
+      await ExperimentService.recordConversion(token);
+    } catch (error) {
+      logError(error, { handler: "experimentConversion" });
+    }
+  }
+
+  return pixel();
+}
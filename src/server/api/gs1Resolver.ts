@@ -0,0 +1,73 @@
+/**
+ * GS1 Digital Link Resolver
+ * -------------------------
+ * GET /01/{gtin}[/10/{lot}][/21/{serial}][?17={YYMMDD}&linkType={type}]
+ *  - linkType=all or Accept: application/linkset+json → linkset JSON
+ *  - linkType={type} → 307 to that link, or the default link if missing
+ *  - otherwise → 307 to the default link
+ */
+
+import { parseDigitalLink } from "../utils/gs1DigitalLink";
+import { Gs1Service, answerResolverRequest } from "../services/gs1Service";
+import { logError } from "../utils/logger";
+
+const LINKSET_TYPE = "application/linkset+json";
+
+function json(status: number, body: unknown, contentType = "application/json"): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": contentType,
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request || (request.method !== "GET" && request.method !== "HEAD")) {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const url = new URL(request.url);
+
+  let ids;
+  try {
+    ids = parseDigitalLink(url.pathname + url.search);
+  } catch (error) {
+    return json(400, { error: (error as Error).message });
+  }
+
+  try {
+    const resolved = await Gs1Service.resolve(ids);
+    const answer = answerResolverRequest(resolved, {
+      linkType: url.searchParams.get("linkType") ?? url.searchParams.get("linktype"),
+      acceptLinkset: (request.headers.get("accept") ?? "").includes(LINKSET_TYPE),
+    });
+
+    switch (answer.kind) {
+      case "notFound":
+        return json(404, { error: answer.message });
+
+      case "linkset":
+        return json(200, answer.body, LINKSET_TYPE);
+
+      case "redirect": {
+        const linkset = new URL(url);
+        linkset.searchParams.set("linkType", "all");
+        return new Response(null, {
+          status: 307,
+          headers: {
+            Location: answer.location,
+            Link: `<${linkset.toString()}>; rel="linkset"; type="${LINKSET_TYPE}"`,
+            "Cache-Control": "no-cache",
+          },
+        });
+      }
+    }
+  } catch (error) {
+    logError(error, { handler: "gs1Resolver" });
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Scan Resolution Endpoint
+ * ------------------------
+ * GET /r/{codeValue}[?picc_data={hex}&cmac={hex}]
+ *  - verifies the code (and a mirrored NTAG 424 SUN message, if present)
+ *  - evaluates the project's redirect rules for the scan
+ *  - 302 to the destination, 200 with a hosted landing page, 403 when
+ *    blocked or unverified, 404 without content
+ * Clients sending Accept: application/json get the decision instead of a redirect.
+ *
+ * POST /r/{codeValue}/feedback accepts a landing page's feedback form.
+ */
+
+import { PageFeedbackSchema } from "@optropic/shared";
+import { RedirectService, type RedirectDecision } from "../services/redirectService";
+import { LandingPageService, LANDING_PAGE_CSP } from "../services/landingPageService";
+import { detectDeviceType, parseAcceptLanguage } from "../utils/redirectRules";
+import { logError } from "../utils/logger";
+
+const STATUS_BY_DECISION: Record<RedirectDecision["kind"], number> = {
+  redirect: 302,
+  page: 200,
+  blocked: 403,
+  unverified: 403,
+  notFound: 404,
+};
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function html(status: number, body: string): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Content-Security-Policy": LANDING_PAGE_CSP,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+async function handleFeedback(request: Request, codeValue: string): Promise<Response> {
+  const form = Object.fromEntries(
+    [...(await request.formData()).entries()].filter(([, value]) => typeof value === "string" && value !== "")
+  );
+
+  const parsed = PageFeedbackSchema.safeParse(form);
+  if (!parsed.success) {
+    return json(400, { error: "Invalid feedback" });
+  }
+
+  try {
+    return html(200, await LandingPageService.submitFeedback(codeValue, parsed.data));
+  } catch (error) {
+    return json(404, { error: (error as Error).message });
+  }
+}
+
+function header(request: Request, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const value = request.headers.get(name);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+export default async function handler(event: { request?: Request }) {
+  const request = event.request ?? (event as Request);
+
+  if (!request) {
+    return new Response("No request", { status: 400 });
+  }
+
+  const url = new URL(request.url);
+  const feedback = /\/([^/]+)\/feedback\/?$/.exec(url.pathname);
+
+  if (request.method === "POST" && feedback) {
+    return await handleFeedback(request, decodeURIComponent(feedback[1]!));
+  }
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const codeValue = decodeURIComponent(url.pathname.split("/").filter(Boolean).pop() ?? "");
+  if (!codeValue || codeValue === "r") {
+    return json(400, { error: "Missing code" });
+  }
+
+  const piccData = url.searchParams.get("picc_data");
+  const cmac = url.searchParams.get("cmac");
+  const userAgent = header(request, "user-agent");
+
+  try {
+    const { decision, code } = await RedirectService.resolveScan({
+      codeValue,
+      ipAddress: header(request, "x-forwarded-for")?.split(",")[0]?.trim(),
+      userAgent,
+      deviceType: detectDeviceType(userAgent),
+      country: header(request, "cf-ipcountry", "x-vercel-ip-country", "x-country-code")?.toUpperCase(),
+      region: header(request, "x-vercel-ip-country-region", "x-region"),
+      city: header(request, "x-vercel-ip-city", "x-city"),
+      languages: parseAcceptLanguage(header(request, "accept-language")),
+      ...(piccData && cmac ? { tag: { piccData, cmac } } : {}),
+    });
+
+    if ((header(request, "accept") ?? "").includes("application/json")) {
+      return json(200, decision);
+    }
+
+    switch (decision.kind) {
+      case "redirect":
+        return new Response(null, {
+          status: STATUS_BY_DECISION.redirect,
+          headers: { Location: decision.location, "Cache-Control": "no-store" },
+        });
+      case "page": {
+        const page = code
+          ? await LandingPageService.renderForScan(decision.contentId, {
+              codeId: code.id,
+              codeValue,
+              verification: { verified: true, checkedAt: new Date(), ...code },
+            })
+          : null;
+        return page ? html(STATUS_BY_DECISION.page, page) : json(404, { error: "Page not available" });
+      }
+      case "blocked":
+        return json(STATUS_BY_DECISION.blocked, { error: decision.message });
+      case "unverified":
+        return json(STATUS_BY_DECISION.unverified, { error: decision.message, reason: decision.reason });
+      case "notFound":
+        return json(STATUS_BY_DECISION.notFound, { error: decision.message });
+    }
+  } catch (error) {
+    logError(error, { handler: "scanRedirect" });
+    return json(500, { error: "Internal server error" });
+  }
+}
@@ -1,6 +1,14 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 import { env } from "~/server/env";
+import { getDataScope, runInDataScope } from "~/server/tenantContext";
+import {
+  isReadOperation,
+  isTenantScoped,
+  scopeArgs,
+  scopeNestedWrites,
+  type RelationMap,
+} from "~/server/utils/tenantScope";
 
 const createPrismaClient = () =>
   new PrismaClient({
@@ -8,10 +16,105 @@ const createPrismaClient = () =>
       env.NODE_ENV === "development" ? ["query", "error", "warn"] : ["error"],
   });
 
+const setCurrentUser = (client: Pick<PrismaClient, "$executeRaw">, userId: number) =>
+  client.$executeRaw`SELECT set_config('app.current_user_id', ${String(userId)}, TRUE)`;
+
+/** Relation fields of every model, for checking nested writes */
+const relations: RelationMap = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    new Map(model.fields.filter((field) => field.kind === "object").map((field) => [field.name, field.type])),
+  ])
+);
+
+interface TenantQuery {
+  model?: string;
+  operation: string;
+  args: unknown;
+  query: (args: unknown) => Prisma.PrismaPromise<unknown>;
+}
+
+/**
+ * The tenant extension's query hook. Inside a tenant scope, tenant models
+ * are filtered and stamped with the tenant and nested writes into them are
+ * checked. Every query, read or write, runs in the same batched transaction
+ * as the `set_config` of `app.current_user_id`, so the RLS policies see the
+ * caller too; queries of an open transaction reuse the one it set.
+ */
+export const createTenantQuery =
+  (base: Pick<PrismaClient, "$transaction" | "$executeRaw">, relationMap: RelationMap = relations) =>
+  async ({ model, operation, args, query }: TenantQuery): Promise<unknown> => {
+    const scope = getDataScope();
+    if (scope?.kind !== "tenant") {
+      return query(args);
+    }
+
+    let scopedArgs = isTenantScoped(model) ? scopeArgs(operation, args, scope.tenantId) : args;
+    if (model !== undefined && !isReadOperation(operation)) {
+      scopedArgs = scopeNestedWrites(model, scopedArgs, scope.tenantId, relationMap);
+    }
+    if (scope.inTransaction) {
+      return query(scopedArgs);
+    }
+
+    const [, result] = await base.$transaction([setCurrentUser(base, scope.userId), query(scopedArgs)]);
+    return result;
+  };
+
+/**
+ * Tenant-aware client: the query hook above, plus transactions that set the
+ * session variable once for all of their queries
+ */
+const createTenantAwareClient = (base: PrismaClient) => {
+  const tenantQuery = createTenantQuery(base);
+  const scoped = base.$extends(
+    Prisma.defineExtension({
+      name: "tenant-scope",
+      query: {
+        $allModels: {
+          async $allOperations(params) {
+            return tenantQuery(params as TenantQuery);
+          },
+        },
+      },
+    })
+  );
+
+  // Transactions set the session variable once; their queries skip it
+  const $transaction = (input: unknown, options?: Parameters<typeof base.$transaction>[1]) => {
+    const scope = getDataScope();
+    if (scope?.kind !== "tenant") {
+      return scoped.$transaction(input as never, options);
+    }
+
+    const inner = { ...scope, inTransaction: true };
+    if (typeof input === "function") {
+      const callback = input as (tx: Prisma.TransactionClient) => Promise<unknown>;
+      return scoped.$transaction(async (tx) => {
+        await setCurrentUser(tx, scope.userId);
+        return await runInDataScope(inner, () => callback(tx as Prisma.TransactionClient));
+      }, options);
+    }
+
+    return runInDataScope(inner, async () => {
+      const [, ...results] = await scoped.$transaction(
+        [setCurrentUser(scoped, scope.userId), ...(input as Prisma.PrismaPromise<unknown>[])],
+        options
+      );
+      return results;
+    });
+  };
+
+  // Neither extension changes the client's types
+  return scoped.$extends({
+    client: { $transaction: $transaction as typeof scoped.$transaction },
+  }) as unknown as PrismaClient;
+};
+
 const globalForPrisma = globalThis as unknown as {
-  prisma: ReturnType<typeof createPrismaClient> | undefined;
+  prisma: ReturnType<typeof createTenantAwareClient> | undefined;
 };
 
-export const db = globalForPrisma.prisma ?? createPrismaClient();
+export const db = globalForPrisma.prisma ?? createTenantAwareClient(createPrismaClient());
 
 if (env.NODE_ENV !== "production") globalForPrisma.prisma = db;
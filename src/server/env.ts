@@ -13,6 +13,11 @@ const envSchema = z.object({
   SECRET_KEY: z.string().default("default-secret-key-change-in-production"),
   ENCRYPTION_ALGORITHM: z.string().optional(),
 
+  // Envelope encryption: master key provider for tenant data keys
+  KEY_PROVIDER: z.enum(["local", "kms"]).default("local"),
+  MASTER_KEYS: z.string().optional(),
+  MASTER_KEY_FILE: z.string().optional(),
+
   // Monitoring & Logging
   SENTRY_DSN: z.string().optional(),
 
@@ -26,6 +31,7 @@ const envSchema = z.object({
   AWS_ACCESS_KEY_ID: z.string().optional(),
   AWS_SECRET_ACCESS_KEY: z.string().optional(),
   AWS_REGION: z.string().optional(),
+  AWS_KMS_ENDPOINT: z.string().optional(),
 
   GS1_DIGITAL_LINK_API_KEY: z.string().optional(),
   GS1_DIGITAL_LINK_BASE_URL: z.string().optional(),
@@ -0,0 +1,25 @@
+/**
+ * Startup Job: Batch Resume
+ * -------------------------
+ * Restarts code batches that were PENDING or RUNNING when the process
+ * running them stopped, once their lease has expired. Run on server
+ * startup and periodically.
+ */
+
+import { BatchService } from "../services/batchService";
+import { runAsSystem } from "../tenantContext";
+
+/**
+ * Resume interrupted code generation batches
+ */
+export async function runBatchResume(): Promise<void> {
+  try {
+    console.log("[BatchResume] Looking for interrupted code batches...");
+
+    const count = await runAsSystem("job:batchResume", () => BatchService.resumeInterruptedBatches());
+
+    console.log(`[BatchResume] Resumed ${count} batch${count !== 1 ? "es" : ""}`);
+  } catch (error) {
+    console.error("[BatchResume] Failed:", error);
+  }
+}
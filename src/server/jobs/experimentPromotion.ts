@@ -0,0 +1,24 @@
+/**
+ * Scheduled Job: Experiment Promotion
+ * -----------------------------------
+ * Promotes the leading variant of running auto-promote experiments once it
+ * reaches the configured confidence with enough exposures per variant.
+ */
+
+import { ExperimentService } from "../services/experimentService";
+import { runAsSystem } from "../tenantContext";
+
+/**
+ * Promote significant winners
+ */
+export async function runExperimentPromotion(): Promise<void> {
+  try {
+    const promoted = await runAsSystem("job:experimentPromotion", () => ExperimentService.promoteSignificantWinners());
+
+    if (promoted > 0) {
+      console.log(`[ExperimentPromotion] Promoted ${promoted} experiment winner${promoted !== 1 ? "s" : ""}`);
+    }
+  } catch (error) {
+    console.error("[ExperimentPromotion] Failed:", error);
+  }
+}
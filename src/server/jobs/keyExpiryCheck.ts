@@ -6,6 +6,12 @@
  */
 
 import { NotificationService } from "../services/notificationService";
+import { runAsSystem } from "../tenantContext";
+import { runBatchResume } from "./batchResume";
+import { runExperimentPromotion } from "./experimentPromotion";
+import { runKeyRotationSweep } from "./keyRotationSweep";
+import { runMaintenanceOverdueCheck } from "./maintenanceOverdue";
+import { runMasterKeyRewrap } from "./masterKeyRewrap";
 
 /**
  * Check for expiring keys and notify owners
@@ -16,7 +22,7 @@ export async function runKeyExpiryCheck(daysAhead: number = 7): Promise<void> {
       `[KeyExpiryCheck] Running check for keys expiring in ${daysAhead} days...`
     );
 
-    await NotificationService.triggerKeyExpiry(daysAhead);
+    await runAsSystem("job:keyExpiryCheck", () => NotificationService.triggerKeyExpiry(daysAhead));
 
     console.log("[KeyExpiryCheck] Check completed successfully");
   } catch (error) {
@@ -42,7 +48,7 @@ export async function runNotificationCleanup(
       `[NotificationCleanup] Cleaning up read notifications older than ${daysOld} days...`
     );
 
-    const result = await NotificationService.deleteOld(daysOld);
+    const result = await runAsSystem("job:notificationCleanup", () => NotificationService.deleteOld(daysOld));
 
     console.log(
       `[NotificationCleanup] Deleted ${result.count} old notifications`
@@ -59,6 +65,13 @@ export async function runNotificationCleanup(
 export function initializeScheduledJobs(): void {
   console.log("[Jobs] Initializing scheduled jobs...");
 
+  // Pick up code batches interrupted by a restart, then those whose
+  // process stopped holding their lease
+  void runBatchResume();
+  setInterval(() => {
+    void runBatchResume();
+  }, 10 * 60 * 1000);
+
   // Run key expiry check daily at 2 AM (if server is always running)
   const DAILY_MS = 24 * 60 * 60 * 1000;
 
@@ -72,6 +85,28 @@ export function initializeScheduledJobs(): void {
     runKeyExpiryCheck(7);
   }, DAILY_MS);
 
+  // Finish any master key rotation on startup, then daily
+  void runMasterKeyRewrap();
+  setInterval(() => {
+    void runMasterKeyRewrap();
+  }, DAILY_MS);
+
+  // Retire rotated keys past their grace window, hourly
+  void runKeyRotationSweep();
+  setInterval(() => {
+    void runKeyRotationSweep();
+  }, 60 * 60 * 1000);
+
+  // Promote significant experiment winners every 15 minutes
+  setInterval(() => {
+    void runExperimentPromotion();
+  }, 15 * 60 * 1000);
+
+  // Notify about overdue maintenance, hourly
+  setInterval(() => {
+    void runMaintenanceOverdueCheck();
+  }, 60 * 60 * 1000);
+
   // Cleanup old notifications weekly (Sunday at 3 AM)
   const now = new Date();
   const nextSunday = new Date(now);
@@ -92,4 +127,9 @@ export function initializeScheduledJobs(): void {
   console.log("[Jobs] Scheduled jobs initialized");
   console.log(`[Jobs] - Key expiry check: Daily`);
   console.log(`[Jobs] - Notification cleanup: Weekly (Sundays at 3 AM)`);
+  console.log(`[Jobs] - Batch resume: On startup, then every 10 minutes`);
+  console.log(`[Jobs] - Master key re-wrap: On startup, then daily`);
+  console.log(`[Jobs] - Key rotation sweep: Hourly`);
+  console.log(`[Jobs] - Experiment promotion: Every 15 minutes`);
+  console.log(`[Jobs] - Maintenance overdue check: Hourly`);
 }
@@ -0,0 +1,34 @@
+/**
+ * Scheduled Job: Key Rotation Sweep
+ * ---------------------------------
+ * Resumes re-signing runs (RESIGN rotations) a stopped process left
+ * unfinished, then retires rotated keys whose grace window has ended and
+ * whose codes are re-signed. Verification already treats such keys as
+ * retired; this records the transition (retiredAt) so key listings and
+ * offline bundles reflect it.
+ */
+
+import { KeyService } from "../services/keyService";
+import { runAsSystem } from "../tenantContext";
+
+/**
+ * Finish pending re-signs, then move ROTATING keys past their grace window
+ * to RETIRED
+ */
+export async function runKeyRotationSweep(): Promise<void> {
+  try {
+    const resumed = await runAsSystem("job:keyRotationSweep", () => KeyService.resumePendingResigns());
+
+    if (resumed > 0) {
+      console.log(`[KeyRotationSweep] Resumed re-signing for ${resumed} key${resumed !== 1 ? "s" : ""}`);
+    }
+
+    const retired = await runAsSystem("job:keyRotationSweep", () => KeyService.retireExpiredRotations());
+
+    if (retired > 0) {
+      console.log(`[KeyRotationSweep] Retired ${retired} key${retired !== 1 ? "s" : ""} past their grace window`);
+    }
+  } catch (error) {
+    console.error("[KeyRotationSweep] Failed:", error);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Scheduled Job: Maintenance Overdue
+ * ----------------------------------
+ * Notifies project owners and their tenant's maintainers once about each
+ * maintenance schedule that fell due, by date or meter reading.
+ */
+
+import { MaintenanceService } from "../services/maintenanceService";
+import { runAsSystem } from "../tenantContext";
+
+/**
+ * Notify about newly overdue schedules
+ */
+export async function runMaintenanceOverdueCheck(): Promise<void> {
+  try {
+    const { notified } = await runAsSystem("job:maintenanceOverdue", () => MaintenanceService.notifyOverdueSchedules());
+
+    if (notified > 0) {
+      console.log(`[MaintenanceOverdue] Notified about ${notified} overdue schedule${notified !== 1 ? "s" : ""}`);
+    }
+  } catch (error) {
+    console.error("[MaintenanceOverdue] Failed:", error);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Scheduled Job: Master Key Re-wrap
+ * ---------------------------------
+ * Re-wraps tenant data keys that are still wrapped by a previous master key
+ * and moves legacy SECRET_KEY private keys onto tenant data keys.
+ *
+ * Rotating the master key:
+ *  1. Add the new key as current, keep the old one configured
+ *     (MASTER_KEYS / MASTER_KEY_FILE, or point AWS_KMS_KEY_ID at the new key)
+ *  2. Restart; new data keys are wrapped by the new master key
+ *  3. Let this job run until it reports nothing left to re-wrap
+ *  4. Remove the old master key
+ */
+
+import { EnvelopeService } from "../services/envelopeService";
+import { NotificationService } from "../services/notificationService";
+import { runAsSystem } from "../tenantContext";
+
+/**
+ * Re-wrap data keys under the current master key
+ */
+export async function runMasterKeyRewrap(): Promise<void> {
+  try {
+    console.log("[MasterKeyRewrap] Re-wrapping tenant data keys...");
+
+    const report = await runAsSystem("job:masterKeyRewrap", () => EnvelopeService.rewrapDataKeys());
+
+    console.log(
+      `[MasterKeyRewrap] Master key ${report.masterKeyId}: re-wrapped ${report.rewrapped}/${report.scanned} data keys, ` +
+        `migrated ${report.legacyPrivateKeysMigrated} legacy private keys`
+    );
+
+    if (report.failed > 0) {
+      await NotificationService.triggerSystem(
+        `Master key re-wrap could not unwrap ${report.failed} tenant data key${report.failed !== 1 ? "s" : ""}; keep the previous master key configured`,
+        "WARNING"
+      );
+    }
+  } catch (error) {
+    console.error("[MasterKeyRewrap] Failed:", error);
+  }
+}
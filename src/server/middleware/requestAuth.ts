@@ -0,0 +1,85 @@
+/**
+ * Request Authorization
+ * ---------------------
+ * The HTTP endpoints' counterpart of `requirePermission`: resolves the
+ * caller from the Authorization header, session cookie or API key, checks
+ * the permissions and runs the handler in the caller's tenant scope. Calls
+ * made with an API key are narrowed to its scopes and audited like tRPC
+ * calls.
+ */
+
+import type { Permission } from "@optropic/shared";
+import { db } from "../db";
+import { AuthService } from "../services/authService";
+import { PermissionService, type UserAccess } from "../services/permissionService";
+import { runAsTenant } from "../tenantContext";
+import { logError } from "../utils/logger";
+
+export type RequestAuthorization =
+  | { status: "authorized"; response: Response }
+  | { status: "missing" }
+  | { status: "invalid" }
+  | { status: "forbidden"; missing: Permission[] };
+
+/**
+ * Run `handler` for the caller of `request` if they hold every permission;
+ * otherwise say why not, so the endpoint can answer in its own format
+ */
+export async function authorizeRequest(
+  request: Request,
+  permissions: Permission[],
+  handler: (access: UserAccess) => Promise<Response>
+): Promise<RequestAuthorization> {
+  const auth = await AuthService.resolve(request);
+  if (auth.status !== "authenticated") {
+    return auth;
+  }
+
+  const { id, tenantId, apiKey } = auth.user;
+  const grant = apiKey && {
+    apiKeyId: apiKey.apiKeyId,
+    serviceAccountId: apiKey.serviceAccountId,
+    scopes: apiKey.scopes,
+  };
+
+  return runAsTenant(
+    id,
+    tenantId,
+    async (): Promise<RequestAuthorization> => {
+      const access = await PermissionService.forUser(id);
+      const missing = permissions.filter((permission) => !access.permissions.has(permission));
+      if (missing.length > 0) {
+        return { status: "forbidden", missing };
+      }
+
+      const response = await handler(access);
+
+      if (apiKey) {
+        try {
+          await db.activityLog.create({
+            data: {
+              action: "API_KEY_CALL",
+              entityType: "ApiKey",
+              entityId: apiKey.apiKeyId,
+              apiKeyId: apiKey.apiKeyId,
+              newValues: {
+                path: new URL(request.url).pathname,
+                type: request.method,
+                ok: response.ok,
+                serviceAccountId: apiKey.serviceAccountId,
+              },
+              ipAddress: request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || "unknown",
+              userAgent: request.headers.get("user-agent") ?? undefined,
+              userId: id,
+            },
+          });
+        } catch (error) {
+          logError(error, { apiKeyId: apiKey.apiKeyId, audit: "API_KEY_CALL" });
+        }
+      }
+
+      return { status: "authorized", response };
+    },
+    grant
+  );
+}
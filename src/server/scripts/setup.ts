@@ -63,7 +63,7 @@ async function setup() {
       }
     }
 
-    // Create industry template packs if they don't exist
+    // Create the global industry templates of the catalog if they don't exist
     const industryTemplates = [
       {
         name: "SafeEvac",
@@ -190,16 +190,37 @@ async function setup() {
       }
     ];
 
-    for (const template of industryTemplates) {
-      const existingTemplate = await db.tenantConfigPack.findFirst({
-        where: { name: template.name }
+    for (const { name, useCase, description, roles, actions, productList, configJson } of industryTemplates) {
+      const key = name.toLowerCase();
+      const existingTemplate = await db.configPackTemplate.findFirst({
+        where: { key, scope: "GLOBAL" }
       });
 
       if (!existingTemplate) {
-        await db.tenantConfigPack.create({
-          data: template
+        await db.configPackTemplate.create({
+          data: {
+            key,
+            name,
+            description,
+            category: configJson.metadata.industry,
+            useCase,
+            scope: "GLOBAL",
+            parameters: [
+              { key: "organizationName", label: "Organization name", type: "string", required: true },
+              { key: "products", label: "Products", type: "products", required: false, default: productList }
+            ],
+            body: {
+              roles,
+              actions,
+              productList: "{{products}}",
+              configJson: {
+                ...configJson,
+                metadata: { ...configJson.metadata, organization: "{{organizationName}}" }
+              }
+            }
+          }
         });
-        console.log(`✅ Created industry template: ${template.name}`);
+        console.log(`✅ Created industry template: ${name}`);
       }
     }
 
@@ -0,0 +1,558 @@
+/**
+ * Optropic Platform – Asset Service
+ * ---------------------------------
+ * Responsibilities:
+ *  - Create, update, list and delete assets (products, packages, batches,
+ *    equipment, documents) with validated GS1 identifiers
+ *  - Bulk import of GTIN/batch/serial rows from CSV or JSON, reporting
+ *    validation errors per row; nothing is written unless every row is valid
+ *  - Packaging hierarchy: aggregate items into cases and cases onto pallets
+ *    (identified by SSCC), disaggregate, and reveal a parent's contents
+ */
+
+import type { Prisma } from "@prisma/client";
+import type {
+  CreateAssetInput,
+  ImportAssetsInput,
+  ListAssetsInput,
+  PackagingLevel,
+  UpdateAssetInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import { normalizeGtin, normalizeSscc } from "../utils/gs1DigitalLink";
+import {
+  checkImportBatch,
+  packagingRank,
+  readImportRows,
+  validateImportRow,
+  type ImportRowError,
+} from "../utils/assetImport";
+import { Gs1Service } from "./gs1Service";
+
+/** Levels of a parent's contents revealed on scan (pallet → case → item) */
+export const PACKAGING_DEPTH = 3;
+/** Children listed per parent when revealing contents */
+export const PACKAGING_CHILD_LIMIT = 200;
+
+export interface AssetDTO {
+  id: number;
+  assetName: string;
+  assetType: string;
+  productId: string | null;
+  gtin: string | null;
+  batchNumber: string | null;
+  serialNumber: string | null;
+  expiryDate: Date | null;
+  packagingLevel: PackagingLevel | null;
+  sscc: string | null;
+  parentId: number | null;
+  aggregatedAt: Date | null;
+  childCount: number;
+  codeCount: number;
+  digitalLink: string | null;
+  projectId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A packaging unit and what it contains
+ */
+export interface PackagingNode {
+  id: number;
+  assetName: string;
+  assetType: string;
+  packagingLevel: PackagingLevel | null;
+  sscc: string | null;
+  gtin: string | null;
+  batchNumber: string | null;
+  serialNumber: string | null;
+  /** Direct children, including those not listed */
+  childCount: number;
+  children: PackagingNode[];
+}
+
+export interface AssetImportResult {
+  total: number;
+  valid: number;
+  imported: number;
+  dryRun: boolean;
+  errors: ImportRowError[];
+}
+
+const assetInclude = {
+  _count: { select: { children: true, codes: true } },
+} satisfies Prisma.AssetInclude;
+
+type AssetRow = Prisma.AssetGetPayload<{ include: typeof assetInclude }>;
+
+function toAssetDTO(asset: AssetRow): AssetDTO {
+  return {
+    id: asset.id,
+    assetName: asset.assetName,
+    assetType: asset.assetType,
+    productId: asset.productId,
+    gtin: asset.gtin,
+    batchNumber: asset.batchNumber,
+    serialNumber: asset.serialNumber,
+    expiryDate: asset.expiryDate,
+    packagingLevel: asset.packagingLevel,
+    sscc: asset.sscc,
+    parentId: asset.parentId,
+    aggregatedAt: asset.aggregatedAt,
+    childCount: asset._count.children,
+    codeCount: asset._count.codes,
+    digitalLink: Gs1Service.linkForAsset(asset),
+    projectId: asset.projectId,
+    createdAt: asset.createdAt,
+    updatedAt: asset.updatedAt,
+  };
+}
+
+async function getRow(assetId: number): Promise<AssetRow> {
+  const asset = await db.asset.findUnique({ where: { id: assetId }, include: assetInclude });
+  if (!asset) {
+    throw new Error("Asset not found");
+  }
+  return asset;
+}
+
+/**
+ * Normalise the GS1 fields of an asset write; `undefined` leaves a field unchanged
+ */
+function normalizeIdentifiers(input: {
+  gtin?: string | null;
+  sscc?: string | null;
+  expiryDate?: string | null;
+}): { gtin?: string | null; sscc?: string | null; expiryDate?: Date | null } {
+  return {
+    ...(input.gtin !== undefined ? { gtin: input.gtin === null ? null : normalizeGtin(input.gtin) } : {}),
+    ...(input.sscc !== undefined ? { sscc: input.sscc === null ? null : normalizeSscc(input.sscc) } : {}),
+    ...(input.expiryDate !== undefined
+      ? { expiryDate: input.expiryDate === null ? null : new Date(`${input.expiryDate}T00:00:00.000Z`) }
+      : {}),
+  };
+}
+
+function checkPackaging(level: PackagingLevel | null, sscc: string | null): void {
+  if (packagingRank(level) > 0 && !sscc) {
+    throw new Error(`A ${level!.toLowerCase()} needs an SSCC`);
+  }
+  if (packagingRank(level) === 0 && sscc && level !== null) {
+    throw new Error("Only cases and pallets carry an SSCC");
+  }
+}
+
+async function ensureUnique(
+  projectId: number,
+  fields: { sscc: string | null; gtin: string | null; batchNumber: string | null; serialNumber: string | null },
+  excludeId?: number
+): Promise<void> {
+  if (fields.sscc) {
+    const taken = await db.asset.findFirst({
+      where: { sscc: fields.sscc, ...(excludeId ? { id: { not: excludeId } } : {}) },
+      select: { id: true },
+    });
+    if (taken) throw new Error(`SSCC ${fields.sscc} is already registered`);
+  }
+
+  if (fields.gtin && fields.serialNumber) {
+    const taken = await db.asset.findFirst({
+      where: {
+        projectId,
+        gtin: fields.gtin,
+        batchNumber: fields.batchNumber,
+        serialNumber: fields.serialNumber,
+        ...(excludeId ? { id: { not: excludeId } } : {}),
+      },
+      select: { id: true },
+    });
+    if (taken) throw new Error("An asset with this GTIN, batch and serial already exists");
+  }
+}
+
+export const AssetService = {
+  /**
+   * Create an asset
+   */
+  async createAsset(input: CreateAssetInput & { tenantId: number | null }): Promise<AssetDTO> {
+    const identifiers = normalizeIdentifiers(input);
+    const sscc = identifiers.sscc ?? null;
+    const packagingLevel = input.packagingLevel ?? (sscc ? "CASE" : null);
+    checkPackaging(packagingLevel, sscc);
+
+    await ensureUnique(input.projectId, {
+      sscc,
+      gtin: identifiers.gtin ?? null,
+      batchNumber: input.batchNumber ?? null,
+      serialNumber: input.serialNumber ?? null,
+    });
+
+    const asset = await db.asset.create({
+      data: {
+        assetName: input.assetName,
+        assetType: input.assetType,
+        productId: input.productId ?? null,
+        gtin: identifiers.gtin ?? null,
+        batchNumber: input.batchNumber ?? null,
+        serialNumber: input.serialNumber ?? null,
+        expiryDate: identifiers.expiryDate ?? null,
+        packagingLevel,
+        sscc,
+        projectId: input.projectId,
+        tenantId: input.tenantId,
+      },
+      include: assetInclude,
+    });
+
+    return toAssetDTO(asset);
+  },
+
+  /**
+   * Update an asset. Its packaging level must stay between its parent's
+   * and its children's.
+   */
+  async updateAsset(input: UpdateAssetInput): Promise<AssetDTO> {
+    const current = await getRow(input.assetId);
+    const identifiers = normalizeIdentifiers(input);
+
+    const next = {
+      gtin: identifiers.gtin !== undefined ? identifiers.gtin : current.gtin,
+      sscc: identifiers.sscc !== undefined ? identifiers.sscc : current.sscc,
+      batchNumber: input.batchNumber !== undefined ? input.batchNumber : current.batchNumber,
+      serialNumber: input.serialNumber !== undefined ? input.serialNumber : current.serialNumber,
+      packagingLevel: input.packagingLevel !== undefined ? input.packagingLevel : current.packagingLevel,
+    };
+    checkPackaging(next.packagingLevel, next.sscc);
+    await ensureUnique(current.projectId, next, current.id);
+
+    if (next.packagingLevel !== current.packagingLevel) {
+      const rank = packagingRank(next.packagingLevel);
+      const [parent, highestChild] = await Promise.all([
+        current.parentId
+          ? db.asset.findUnique({ where: { id: current.parentId }, select: { packagingLevel: true } })
+          : null,
+        db.asset.findFirst({
+          where: { parentId: current.id },
+          orderBy: { packagingLevel: "desc" },
+          select: { packagingLevel: true },
+        }),
+      ]);
+      if (parent && packagingRank(parent.packagingLevel) <= rank) {
+        throw new Error("The asset's parent must be a higher packaging level");
+      }
+      if (highestChild && packagingRank(highestChild.packagingLevel) >= rank) {
+        throw new Error("The asset's children must be a lower packaging level");
+      }
+    }
+
+    const asset = await db.asset.update({
+      where: { id: current.id },
+      data: {
+        assetName: input.assetName,
+        assetType: input.assetType,
+        productId: input.productId,
+        batchNumber: input.batchNumber,
+        serialNumber: input.serialNumber,
+        packagingLevel: input.packagingLevel,
+        ...identifiers,
+      },
+      include: assetInclude,
+    });
+
+    return toAssetDTO(asset);
+  },
+
+  /**
+   * Delete an asset that no code references and nothing is packed into
+   */
+  async deleteAsset(assetId: number): Promise<void> {
+    const asset = await getRow(assetId);
+
+    if (asset._count.codes > 0) {
+      throw new Error("Assets with issued codes cannot be deleted");
+    }
+    if (asset._count.children > 0) {
+      throw new Error("Disaggregate the asset's contents before deleting it");
+    }
+
+    await db.asset.delete({ where: { id: asset.id } });
+  },
+
+  /**
+   * An asset with the chain of units it is packed in (innermost first)
+   */
+  async getAsset(assetId: number): Promise<AssetDTO & { ancestors: AssetDTO[] }> {
+    const asset = toAssetDTO(await getRow(assetId));
+
+    const ancestors: AssetDTO[] = [];
+    let parentId = asset.parentId;
+    while (parentId !== null && ancestors.length < PACKAGING_DEPTH) {
+      const parent = toAssetDTO(await getRow(parentId));
+      ancestors.push(parent);
+      parentId = parent.parentId;
+    }
+
+    return { ...asset, ancestors };
+  },
+
+  /**
+   * List a project's assets
+   */
+  async listAssets(input: ListAssetsInput): Promise<{ assets: AssetDTO[]; total: number }> {
+    const search = input.search?.trim();
+    const where: Prisma.AssetWhereInput = {
+      projectId: input.projectId,
+      ...(input.assetType ? { assetType: input.assetType } : {}),
+      ...(input.packagingLevel ? { packagingLevel: input.packagingLevel } : {}),
+      ...(input.parentId !== undefined ? { parentId: input.parentId } : {}),
+      ...(search
+        ? {
+            OR: [
+              { assetName: { contains: search, mode: "insensitive" } },
+              { productId: { contains: search, mode: "insensitive" } },
+              { gtin: { contains: search } },
+              { batchNumber: { contains: search, mode: "insensitive" } },
+              { serialNumber: { contains: search, mode: "insensitive" } },
+              { sscc: { contains: search } },
+            ],
+          }
+        : {}),
+    };
+
+    const [assets, total] = await Promise.all([
+      db.asset.findMany({
+        where,
+        include: assetInclude,
+        orderBy: { createdAt: "desc" },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.asset.count({ where }),
+    ]);
+
+    return { assets: assets.map(toAssetDTO), total };
+  },
+
+  /**
+   * Validate and import asset rows. Rows reference their case or pallet by
+   * parentSscc, either another row of the import or an existing asset.
+   */
+  async importAssets(input: ImportAssetsInput & { tenantId: number | null }): Promise<AssetImportResult> {
+    const raw = readImportRows(input.format, input.data);
+    const rows = raw.map((row, index) => validateImportRow(row, index + 1, input.defaultAssetType));
+    const errors = [...rows.flatMap((row) => row.errors), ...checkImportBatch(rows)];
+
+    const valid = rows.filter((row) => row.asset !== null);
+    const assets = valid.map((row) => row.asset!);
+    const importedSsccs = new Set(assets.map((asset) => asset.sscc).filter((sscc) => sscc !== null));
+
+    // Identifiers that already exist, and parents outside the file
+    const ssccs = [...importedSsccs];
+    const externalParents = [
+      ...new Set(assets.map((asset) => asset.parentSscc).filter((sscc) => sscc !== null && !importedSsccs.has(sscc))),
+    ] as string[];
+    const serialized = assets.filter((asset) => asset.gtin && asset.serialNumber);
+
+    const [takenSsccs, parents, existingItems] = await Promise.all([
+      ssccs.length > 0 ? db.asset.findMany({ where: { sscc: { in: ssccs } }, select: { sscc: true } }) : [],
+      externalParents.length > 0
+        ? db.asset.findMany({
+            where: { sscc: { in: externalParents } },
+            select: { id: true, sscc: true, projectId: true, packagingLevel: true },
+          })
+        : [],
+      serialized.length > 0
+        ? db.asset.findMany({
+            where: {
+              projectId: input.projectId,
+              OR: serialized.map((asset) => ({ gtin: asset.gtin, serialNumber: asset.serialNumber })),
+            },
+            select: { gtin: true, batchNumber: true, serialNumber: true },
+          })
+        : [],
+    ]);
+
+    const taken = new Set(takenSsccs.map((asset) => asset.sscc));
+    const parentBySscc = new Map(parents.map((parent) => [parent.sscc!, parent]));
+    const existingKeys = new Set(
+      existingItems.map((asset) => `${asset.gtin}|${asset.batchNumber ?? ""}|${asset.serialNumber}`)
+    );
+
+    for (const row of valid) {
+      const asset = row.asset!;
+      if (asset.sscc && taken.has(asset.sscc)) {
+        errors.push({ row: row.row, field: "sscc", message: `SSCC ${asset.sscc} is already registered` });
+      }
+      if (asset.gtin && asset.serialNumber && existingKeys.has(`${asset.gtin}|${asset.batchNumber ?? ""}|${asset.serialNumber}`)) {
+        errors.push({ row: row.row, field: "serialNumber", message: "An asset with this GTIN, batch and serial already exists" });
+      }
+      if (asset.parentSscc && !importedSsccs.has(asset.parentSscc)) {
+        const parent = parentBySscc.get(asset.parentSscc);
+        if (!parent || parent.projectId !== input.projectId) {
+          errors.push({ row: row.row, field: "parentSscc", message: `No case or pallet with SSCC ${asset.parentSscc}` });
+        } else if (packagingRank(parent.packagingLevel) <= packagingRank(asset.packagingLevel)) {
+          errors.push({ row: row.row, field: "parentSscc", message: "The parent must be a higher packaging level" });
+        }
+      }
+    }
+
+    errors.sort((a, b) => a.row - b.row);
+    const result = { total: rows.length, valid: rows.length - new Set(errors.map((error) => error.row)).size, dryRun: input.dryRun };
+
+    if (errors.length > 0 || input.dryRun) {
+      return { ...result, imported: 0, errors };
+    }
+
+    // Parents first so children can reference them
+    const ordered = [...assets].sort((a, b) => packagingRank(b.packagingLevel) - packagingRank(a.packagingLevel));
+    const now = new Date();
+
+    await db.$transaction(
+      async (tx) => {
+        const idBySscc = new Map<string, number>(parents.map((parent) => [parent.sscc!, parent.id]));
+
+        for (const asset of ordered) {
+          const parentId = asset.parentSscc ? idBySscc.get(asset.parentSscc) : undefined;
+          const created = await tx.asset.create({
+            data: {
+              assetName: asset.assetName,
+              assetType: asset.assetType,
+              productId: asset.productId,
+              gtin: asset.gtin,
+              batchNumber: asset.batchNumber,
+              serialNumber: asset.serialNumber,
+              expiryDate: asset.expiryDate,
+              packagingLevel: asset.packagingLevel,
+              sscc: asset.sscc,
+              parentId: parentId ?? null,
+              aggregatedAt: parentId ? now : null,
+              projectId: input.projectId,
+              tenantId: input.tenantId,
+            },
+            select: { id: true },
+          });
+          if (asset.sscc) idBySscc.set(asset.sscc, created.id);
+        }
+      },
+      { timeout: 60_000 }
+    );
+
+    return { ...result, imported: assets.length, errors };
+  },
+
+  /**
+   * Pack assets into a case or pallet. Children must be a lower packaging
+   * level, in the same project and not already packed elsewhere.
+   */
+  async aggregate(parentId: number, childIds: number[]): Promise<number> {
+    const parent = await getRow(parentId);
+    if (packagingRank(parent.packagingLevel) === 0 || !parent.sscc) {
+      throw new Error("Only cases and pallets with an SSCC can contain assets");
+    }
+
+    const ids = [...new Set(childIds)];
+    const children = await db.asset.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, projectId: true, parentId: true, packagingLevel: true },
+    });
+
+    for (const id of ids) {
+      const child = children.find((candidate) => candidate.id === id);
+      if (!child || child.projectId !== parent.projectId) {
+        throw new Error(`Asset ${id} not found in the parent's project`);
+      }
+      if (child.id === parent.id) {
+        throw new Error("An asset cannot contain itself");
+      }
+      if (packagingRank(child.packagingLevel) >= packagingRank(parent.packagingLevel)) {
+        throw new Error(`Asset ${id} is not a lower packaging level than the parent`);
+      }
+      if (child.parentId !== null && child.parentId !== parent.id) {
+        throw new Error(`Asset ${id} is already packed in another unit; disaggregate it first`);
+      }
+    }
+
+    const { count } = await db.asset.updateMany({
+      where: { id: { in: ids }, parentId: null },
+      data: { parentId: parent.id, aggregatedAt: new Date() },
+    });
+
+    return count;
+  },
+
+  /**
+   * Unpack assets from their case or pallet
+   */
+  async disaggregate(childIds: number[]): Promise<number> {
+    const { count } = await db.asset.updateMany({
+      where: { id: { in: childIds }, parentId: { not: null } },
+      data: { parentId: null, aggregatedAt: null },
+    });
+
+    return count;
+  },
+
+  /**
+   * The contents of a packaging unit, down to `depth` levels; null for a
+   * missing asset
+   */
+  async getPackagingContents(assetId: number, depth = PACKAGING_DEPTH): Promise<PackagingNode | null> {
+    const select = {
+      id: true,
+      assetName: true,
+      assetType: true,
+      packagingLevel: true,
+      sscc: true,
+      gtin: true,
+      batchNumber: true,
+      serialNumber: true,
+      parentId: true,
+      _count: { select: { children: true } },
+    } satisfies Prisma.AssetSelect;
+
+    const root = await db.asset.findUnique({ where: { id: assetId }, select });
+    if (!root) return null;
+
+    const toNode = (asset: typeof root): PackagingNode => ({
+      id: asset.id,
+      assetName: asset.assetName,
+      assetType: asset.assetType,
+      packagingLevel: asset.packagingLevel,
+      sscc: asset.sscc,
+      gtin: asset.gtin,
+      batchNumber: asset.batchNumber,
+      serialNumber: asset.serialNumber,
+      childCount: asset._count.children,
+      children: [],
+    });
+
+    const rootNode = toNode(root);
+    let level = [rootNode];
+
+    for (let i = 0; i < depth; i++) {
+      const parents = level.filter((node) => node.childCount > 0);
+      if (parents.length === 0) break;
+
+      // One query per level; children beyond the limit are counted only
+      const children = await db.asset.findMany({
+        where: { parentId: { in: parents.map((node) => node.id) } },
+        select,
+        orderBy: { id: "asc" },
+        take: PACKAGING_CHILD_LIMIT * parents.length,
+      });
+
+      const byParent = new Map(parents.map((node) => [node.id, node]));
+      level = [];
+      for (const child of children) {
+        const parent = byParent.get(child.parentId!);
+        if (!parent || parent.children.length >= PACKAGING_CHILD_LIMIT) continue;
+        const node = toNode(child);
+        parent.children.push(node);
+        level.push(node);
+      }
+    }
+
+    return rootNode;
+  },
+};
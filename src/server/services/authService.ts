@@ -0,0 +1,169 @@
+/**
+ * Optropic Platform – Auth Service
+ * --------------------------------
+ * Responsibilities:
+ *  - Resolve the caller of a request once, from the Authorization header or
+ *    the session cookie, into an active user
+ *  - Resolve service account API keys into their tenant; such calls act as
+ *    the tenant owner, narrowed to the key's scopes
+ *  - Complete a sign-in once every factor is checked: issue the token pair
+ *    and set the session cookie
+ *  - Write and clear the session cookie on sign-in, refresh and sign-out
+ */
+
+import jwt from "jsonwebtoken";
+import { db } from "../db";
+import { env } from "../env";
+import {
+  clearedSessionCookie,
+  readCredentials,
+  sessionCookie,
+  type CredentialSource,
+} from "../utils/authCredentials";
+import { ServiceAccountService, type AuthenticatedApiKey } from "./serviceAccountService";
+import { createTokenPair } from "./refreshTokenService";
+
+export interface AuthenticatedUser {
+  id: number;
+  email: string;
+  role: string;
+  tenantId: number;
+  source: CredentialSource;
+  /** Set when the caller presented an API key */
+  apiKey?: AuthenticatedApiKey;
+  /** When the user last re-authenticated for sensitive actions (epoch seconds) */
+  stepUpAt?: number;
+}
+
+interface AccessTokenClaims {
+  userId?: unknown;
+  stepUpAt?: unknown;
+}
+
+/**
+ * The resolved caller; `missing` and `invalid` become UNAUTHORIZED on
+ * protected procedures
+ */
+export type AuthResult =
+  | { status: "authenticated"; user: AuthenticatedUser }
+  | { status: "missing" }
+  | { status: "invalid" };
+
+const secureCookies = env.NODE_ENV === "production";
+
+async function activeUser(userId: number) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, role: true, isActive: true, tenantId: true },
+  });
+  return user?.isActive ? user : null;
+}
+
+async function resolveApiKey(request: Request, key: string): Promise<AuthResult> {
+  const ipAddress = request.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  const apiKey = await ServiceAccountService.authenticate(key, ipAddress);
+  const owner = apiKey ? await activeUser(apiKey.tenantId) : null;
+  if (!apiKey || !owner) {
+    return { status: "invalid" };
+  }
+
+  return {
+    status: "authenticated",
+    user: {
+      id: owner.id,
+      email: owner.email,
+      role: owner.role,
+      tenantId: apiKey.tenantId,
+      source: "api-key",
+      apiKey,
+    },
+  };
+}
+
+export const AuthService = {
+  async resolve(request: Request | undefined): Promise<AuthResult> {
+    const credentials = request ? readCredentials(request.headers) : null;
+    if (!request || !credentials) {
+      return { status: "missing" };
+    }
+    if (credentials.source === "api-key") {
+      return await resolveApiKey(request, credentials.token);
+    }
+
+    let claims: AccessTokenClaims;
+    try {
+      claims = jwt.verify(credentials.token, env.JWT_SECRET) as AccessTokenClaims;
+    } catch {
+      return { status: "invalid" };
+    }
+    if (typeof claims.userId !== "number") {
+      return { status: "invalid" };
+    }
+
+    const user = await activeUser(claims.userId);
+    if (!user) {
+      return { status: "invalid" };
+    }
+
+    return {
+      status: "authenticated",
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        tenantId: user.tenantId ?? user.id,
+        source: credentials.source,
+        stepUpAt: typeof claims.stepUpAt === "number" ? claims.stepUpAt : undefined,
+      },
+    };
+  },
+
+  /**
+   * Issue the session of a user who passed every sign-in factor
+   */
+  async signIn(userId: number, resHeaders: Headers | undefined) {
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: userId },
+      include: {
+        archetype: true,
+        roleMappings: {
+          where: { isEnabled: true },
+          include: {
+            archetype: true,
+          },
+          take: 1, // Get the primary role mapping for this user
+        },
+      },
+    });
+
+    const tokens = await createTokenPair(user.id);
+    this.setSessionCookie(resHeaders, tokens.accessToken, tokens.expiresIn);
+
+    // Get the primary tenant role mapping (user's own tenant or first enabled mapping)
+    const primaryRoleMapping = user.roleMappings.find((mapping) => mapping.tenantId === user.id) || user.roleMappings[0];
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        archetype: user.archetype,
+        tenantRoleMapping: primaryRoleMapping,
+        tenantId: user.tenantId,
+      },
+      token: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    };
+  },
+
+  setSessionCookie(resHeaders: Headers | undefined, accessToken: string, expiresIn: number): void {
+    resHeaders?.append("Set-Cookie", sessionCookie(accessToken, expiresIn, secureCookies));
+  },
+
+  clearSessionCookie(resHeaders: Headers | undefined): void {
+    resHeaders?.append("Set-Cookie", clearedSessionCookie(secureCookies));
+  },
+};
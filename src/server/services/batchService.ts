@@ -0,0 +1,499 @@
+/**
+ * Optropic Platform – Batch Code Generation Service
+ * -------------------------------------------------
+ * Responsibilities:
+ *  - Persist bulk generation jobs (50k–1M codes per print run)
+ *  - Decrypt the signing key (and tenant data key) once per run and sign codes in chunks
+ *  - Insert each chunk with createMany inside a transaction with the progress counter
+ *  - Claim a job with a database lease before running it, so no two
+ *    processes generate (and hand out serials for) the same batch
+ *  - Resume interrupted jobs from the last committed chunk
+ *  - Support cancellation between chunks
+ *  - Publish progress events for real-time subscriptions
+ */
+
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type { Prisma } from "@prisma/client";
+import { db } from "../db";
+import { KeyService } from "./keyService";
+import { EnvelopeService } from "./envelopeService";
+import { Gs1Service } from "./gs1Service";
+import {
+  allocateSerials,
+  buildCompactCode,
+  buildSignedCode,
+  type CodeFormat,
+  type CodeType,
+  type EncryptionLevel,
+} from "./codeService";
+import { NotificationService } from "./notificationService";
+import { assertKeySupportsLevel } from "../utils/cryptoSuites";
+import { logger, logError } from "../utils/logger";
+
+export const MAX_BATCH_QUANTITY = 1_000_000;
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const MAX_CHUNK_SIZE = 5000;
+/** A running batch renews its lease with every chunk; after this it may be taken over */
+export const BATCH_LEASE_MS = 5 * 60 * 1000;
+
+export type CodeBatchStatus =
+  | "PENDING"
+  | "RUNNING"
+  | "COMPLETED"
+  | "FAILED"
+  | "CANCELLED";
+
+export interface CodeBatchOptions {
+  contentId?: number;
+  assetId?: number;
+  role?: string;
+  metadata?: Record<string, any>;
+  codeFormat?: CodeFormat;
+}
+
+export interface CreateBatchInput extends CodeBatchOptions {
+  projectId: number;
+  keyId: number;
+  quantity: number;
+  codeType: CodeType;
+  encryptionLevel: EncryptionLevel;
+  encryptPayload?: boolean;
+  chunkSize?: number;
+}
+
+export interface CodeBatchDTO {
+  id: number;
+  projectId: number;
+  keyId: number;
+  status: CodeBatchStatus;
+  quantity: number;
+  generatedCount: number;
+  chunkSize: number;
+  progress: number;
+  codeType: CodeType;
+  encryptionLevel: EncryptionLevel;
+  errorMessage: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+}
+
+export interface BatchProgressEvent {
+  batchId: number;
+  status: CodeBatchStatus;
+  generatedCount: number;
+  quantity: number;
+  progress: number;
+  errorMessage?: string | null;
+}
+
+class BatchEvents extends EventEmitter {
+  constructor() {
+    super();
+    this.setMaxListeners(100);
+  }
+}
+
+export const batchEvents = new BatchEvents();
+
+/**
+ * Lease owner of this process
+ */
+const INSTANCE_ID = crypto.randomUUID();
+
+const leaseExpiry = () => new Date(Date.now() + BATCH_LEASE_MS);
+
+const leaseAvailable = (now: Date): Prisma.CodeBatchWhereInput => ({
+  OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+});
+
+function calculateProgress(generatedCount: number, quantity: number): number {
+  if (quantity === 0) return 100;
+  return Math.floor((generatedCount / quantity) * 10000) / 100;
+}
+
+function toDTO(batch: {
+  id: number;
+  projectId: number;
+  keyId: number;
+  status: string;
+  quantity: number;
+  generatedCount: number;
+  chunkSize: number;
+  codeType: string;
+  encryptionLevel: string;
+  errorMessage: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+}): CodeBatchDTO {
+  return {
+    id: batch.id,
+    projectId: batch.projectId,
+    keyId: batch.keyId,
+    status: batch.status as CodeBatchStatus,
+    quantity: batch.quantity,
+    generatedCount: batch.generatedCount,
+    chunkSize: batch.chunkSize,
+    progress: calculateProgress(batch.generatedCount, batch.quantity),
+    codeType: batch.codeType as CodeType,
+    encryptionLevel: batch.encryptionLevel as EncryptionLevel,
+    errorMessage: batch.errorMessage,
+    createdAt: batch.createdAt,
+    startedAt: batch.startedAt,
+    completedAt: batch.completedAt,
+    cancelledAt: batch.cancelledAt,
+  };
+}
+
+function emitProgress(batch: CodeBatchDTO): void {
+  const event: BatchProgressEvent = {
+    batchId: batch.id,
+    status: batch.status,
+    generatedCount: batch.generatedCount,
+    quantity: batch.quantity,
+    progress: batch.progress,
+    errorMessage: batch.errorMessage,
+  };
+  batchEvents.emit("batch:progress", event);
+}
+
+export const BatchService = {
+  /**
+   * Persist a new batch job in PENDING state
+   */
+  async createBatch(input: CreateBatchInput, requestedById: number): Promise<CodeBatchDTO> {
+    if (input.quantity < 1 || input.quantity > MAX_BATCH_QUANTITY) {
+      throw new Error(`Batch quantity must be between 1 and ${MAX_BATCH_QUANTITY}`);
+    }
+
+    if (input.codeFormat === "COMPACT" && input.encryptPayload) {
+      throw new Error("Compact codes cannot carry an encrypted payload");
+    }
+
+    const key = await db.key.findUnique({
+      where: { id: input.keyId },
+    });
+
+    if (!key || !key.isActive || key.projectId !== input.projectId) {
+      throw new Error("Key not found or inactive");
+    }
+
+    assertKeySupportsLevel(key.algorithm, input.encryptionLevel);
+
+    const options: CodeBatchOptions = {
+      contentId: input.contentId,
+      assetId: input.assetId,
+      role: input.role,
+      metadata: input.metadata || {},
+      codeFormat: input.codeFormat ?? "STANDARD",
+    };
+
+    const batch = await db.codeBatch.create({
+      data: {
+        projectId: input.projectId,
+        keyId: input.keyId,
+        requestedById,
+        quantity: input.quantity,
+        chunkSize: Math.min(input.chunkSize ?? DEFAULT_CHUNK_SIZE, MAX_CHUNK_SIZE),
+        codeType: input.codeType,
+        encryptionLevel: input.encryptionLevel,
+        encryptPayload: input.encryptPayload ?? false,
+        options: options as Prisma.InputJsonValue,
+        status: "PENDING",
+      },
+    });
+
+    return toDTO(batch);
+  },
+
+  /**
+   * Start processing a batch in the background
+   */
+  start(batchId: number): void {
+    this.runBatch(batchId).catch((err) => logError(err, { batchId }));
+  },
+
+  /**
+   * Claim a batch for this process: it must be unfinished and not leased by
+   * a live run elsewhere
+   */
+  async claimBatch(batchId: number): Promise<boolean> {
+    const now = new Date();
+    const { count } = await db.codeBatch.updateMany({
+      where: {
+        id: batchId,
+        status: { in: ["PENDING", "RUNNING", "FAILED"] },
+        ...leaseAvailable(now),
+      },
+      data: {
+        status: "RUNNING",
+        leaseOwner: INSTANCE_ID,
+        leaseExpiresAt: leaseExpiry(),
+        errorMessage: null,
+      },
+    });
+    return count === 1;
+  },
+
+  /**
+   * Process a batch until it completes, fails or is cancelled.
+   * Safe to call on a partially generated batch: it continues from generatedCount.
+   * Does nothing when the batch is finished or another run holds its lease.
+   */
+  async runBatch(batchId: number): Promise<CodeBatchDTO> {
+    if (!(await this.claimBatch(batchId))) {
+      return await this.getBatch(batchId);
+    }
+
+    try {
+      const batch = await db.codeBatch.findUnique({
+        where: { id: batchId },
+        include: { key: true },
+      });
+
+      if (!batch) {
+        throw new Error("Batch not found");
+      }
+
+      if (!batch.key.isActive) {
+        return await this.failBatch(batchId, "Key is inactive or revoked");
+      }
+
+      const started = await db.codeBatch.update({
+        where: { id: batchId },
+        data: { startedAt: batch.startedAt ?? new Date() },
+      });
+      emitProgress(toDTO(started));
+
+      logger.info(
+        { batchId, quantity: batch.quantity, resumeFrom: batch.generatedCount },
+        "Batch generation started"
+      );
+
+      const privateKey = await KeyService.getPrivateKey(batch.keyId);
+      const dataKey = batch.encryptPayload
+        ? await EnvelopeService.getDataKey(await EnvelopeService.resolveTenantId(batch.projectId))
+        : undefined;
+      const options = (batch.options ?? {}) as CodeBatchOptions;
+      const asset =
+        batch.codeType === "GS1_COMPLIANT" && options.assetId
+          ? await db.asset.findUnique({ where: { id: options.assetId } })
+          : null;
+      const gs1DigitalLink = asset ? Gs1Service.linkForAsset(asset) : null;
+      let generatedCount = batch.generatedCount;
+
+      while (generatedCount < batch.quantity) {
+        const size = Math.min(batch.chunkSize, batch.quantity - generatedCount);
+        // Key serials are reserved up front; a crash mid-chunk only leaves a gap
+        const firstKeySerial =
+          options.codeFormat === "COMPACT" ? await allocateSerials(batch.keyId, size) : 0;
+
+        const rows = Array.from({ length: size }, (_, i) => {
+          const serial = generatedCount + i + 1;
+          const params = {
+            projectId: batch.projectId,
+            keyId: batch.keyId,
+            codeType: batch.codeType as CodeType,
+            encryptionLevel: batch.encryptionLevel as EncryptionLevel,
+            contentId: options.contentId,
+            role: options.role,
+            metadata: { ...options.metadata, batchId, serial },
+          };
+          const signed =
+            options.codeFormat === "COMPACT"
+              ? buildCompactCode(privateKey, firstKeySerial + i, params)
+              : buildSignedCode(privateKey, { ...params, encryptPayload: batch.encryptPayload, dataKey });
+
+          return {
+            codeValue: signed.codeValue,
+            codeType: batch.codeType,
+            encryptionLevel: batch.encryptionLevel,
+            entropySeed: signed.entropySeed,
+            signature: signed.signature,
+            payload: signed.payload as unknown as Prisma.InputJsonValue,
+            isActive: true,
+            projectId: batch.projectId,
+            tenantId: batch.tenantId,
+            keyId: batch.keyId,
+            assetId: options.assetId ?? null,
+            batchId,
+            serial: signed.payload.serial ?? null,
+            gs1DigitalLink,
+          };
+        });
+
+        // Codes and the progress counter commit together, so a crash never
+        // leaves the counter out of step with the inserted rows. The counter
+        // only moves while this run still holds a RUNNING batch; a cancel or
+        // a lost lease drops the chunk.
+        const updated = await db.$transaction(async (tx) => {
+          const { count } = await tx.codeBatch.updateMany({
+            where: { id: batchId, status: "RUNNING", leaseOwner: INSTANCE_ID },
+            data: { generatedCount: { increment: size }, leaseExpiresAt: leaseExpiry() },
+          });
+          if (count === 0) return null;
+
+          await tx.optropicCode.createMany({ data: rows });
+          return await tx.codeBatch.findUniqueOrThrow({ where: { id: batchId } });
+        });
+
+        if (!updated) {
+          logger.info({ batchId, generatedCount }, "Batch generation stopped: cancelled or lease lost");
+          return await this.getBatch(batchId);
+        }
+
+        generatedCount = updated.generatedCount;
+        emitProgress(toDTO(updated));
+      }
+
+      const { count } = await db.codeBatch.updateMany({
+        where: { id: batchId, status: "RUNNING", leaseOwner: INSTANCE_ID },
+        data: {
+          status: "COMPLETED",
+          completedAt: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+        },
+      });
+      const dto = await this.getBatch(batchId);
+      if (count === 0) {
+        // Cancelled while the last chunk was committing
+        return dto;
+      }
+      emitProgress(dto);
+
+      logger.info({ batchId, quantity: batch.quantity }, "Batch generation completed");
+
+      await NotificationService.create({
+        userId: batch.requestedById,
+        type: "SUCCESS",
+        title: "Code Batch Completed",
+        message: `Batch #${batchId} finished generating ${batch.quantity.toLocaleString()} codes.`,
+        metadata: {
+          batchId,
+          projectId: batch.projectId,
+          quantity: batch.quantity,
+        },
+        link: `/projects/${batch.projectId}`,
+      }).catch((err) => logError(err, { batchId }));
+
+      return dto;
+    } catch (error) {
+      logError(error, { batchId });
+      return await this.failBatch(
+        batchId,
+        error instanceof Error ? error.message : "Batch generation failed"
+      );
+    }
+  },
+
+  /**
+   * Mark a batch this process runs as failed and release its lease; it can
+   * be resumed later. A cancelled batch stays cancelled.
+   */
+  async failBatch(batchId: number, message: string): Promise<CodeBatchDTO> {
+    await db.codeBatch.updateMany({
+      where: { id: batchId, status: "RUNNING", leaseOwner: INSTANCE_ID },
+      data: {
+        status: "FAILED",
+        errorMessage: message,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+    const dto = await this.getBatch(batchId);
+    emitProgress(dto);
+    return dto;
+  },
+
+  /**
+   * Cancel a pending or running batch. Codes already generated are kept.
+   */
+  async cancelBatch(batchId: number): Promise<CodeBatchDTO> {
+    const result = await db.codeBatch.updateMany({
+      where: {
+        id: batchId,
+        status: { in: ["PENDING", "RUNNING", "FAILED"] },
+      },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new Error("Batch cannot be cancelled in its current state");
+    }
+
+    const dto = await this.getBatch(batchId);
+    emitProgress(dto);
+    return dto;
+  },
+
+  /**
+   * Resume a failed or interrupted batch from its last committed chunk.
+   * A batch still running (here or elsewhere) keeps its current run.
+   */
+  async resumeBatch(batchId: number): Promise<CodeBatchDTO> {
+    const batch = await this.getBatch(batchId);
+
+    if (batch.status === "COMPLETED" || batch.status === "CANCELLED") {
+      throw new Error(`Batch is ${batch.status.toLowerCase()} and cannot be resumed`);
+    }
+
+    this.start(batchId);
+
+    return batch;
+  },
+
+  /**
+   * Restart batches left RUNNING or PENDING whose lease has expired, i.e.
+   * whose process stopped (call on startup and periodically)
+   */
+  async resumeInterruptedBatches(): Promise<number> {
+    const batches = await db.codeBatch.findMany({
+      where: { status: { in: ["PENDING", "RUNNING"] }, ...leaseAvailable(new Date()) },
+      select: { id: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    for (const batch of batches) {
+      this.start(batch.id);
+    }
+
+    return batches.length;
+  },
+
+  /**
+   * Get a single batch
+   */
+  async getBatch(batchId: number): Promise<CodeBatchDTO> {
+    const batch = await db.codeBatch.findUnique({
+      where: { id: batchId },
+    });
+
+    if (!batch) {
+      throw new Error("Batch not found");
+    }
+
+    return toDTO(batch);
+  },
+
+  /**
+   * List batches for a project
+   */
+  async listBatches(projectId: number): Promise<CodeBatchDTO[]> {
+    const batches = await db.codeBatch.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return batches.map(toDTO);
+  },
+};
@@ -3,23 +3,50 @@
  * ----------------------------------------------------------
  * Responsibilities:
  *  - Generate cryptographically signed Optropic codes
- *  - Encrypt payloads (AES-256-GCM)
- *  - Sign code payloads with private keys
+ *  - Encrypt payloads with the encryption level's suite (see utils/cryptoSuites)
+ *  - Sign canonical (RFC 8785 JCS) code payloads with the key's algorithm
  *  - Store codes in database
  *  - Revoke codes
- *  - Generate QR code representations
+ *  - Generate scannable QR code representations (ISO/IEC 18004)
  *  - Support both encrypted and plaintext payload modes
+ *  - Issue compact binary codes that verify offline (see utils/compactCode)
  */
 
 import crypto from "crypto";
 import { db } from "../db";
 import { KeyService, signData, generateEntropySeed } from "./keyService";
+import { EnvelopeService, type TenantDataKey } from "./envelopeService";
+import { Gs1Service } from "./gs1Service";
 import { env } from "../env";
+import {
+  encodeQR,
+  renderQRCodePNG,
+  renderQRCodeSVG,
+  toQRCodeSVGDataUrl,
+  type QRErrorCorrectionLevel,
+} from "../utils/qrEncoder";
+import { COMPACT_HEADER_LENGTH, isCompactCode, signCompactCode } from "../utils/compactCode";
+import { canonicalBytes } from "../utils/jcs";
+import {
+  assertKeySupportsLevel,
+  decryptWithSuite,
+  encryptWithSuite,
+  keyAlgorithmOf,
+  signWithAlgorithm,
+  type SuiteEncryptedPayload,
+} from "../utils/cryptoSuites";
 
-const ALGORITHM = "aes-256-gcm";
+/**
+ * Signature scheme embedded in JSON code values as `v`.
+ *  - 1 (no `v`): ECDSA over a SHA-256 digest of JSON.stringify(payload)
+ *  - 2: JCS canonical payload signed with the key's algorithm
+ *    (ECDSA P-256 / RSA-PSS / Ed25519)
+ */
+export const SIGNATURE_SCHEME_VERSION = 2;
 
 export type CodeType = "OPTROPIC" | "QRSSL" | "GS1_COMPLIANT";
-export type EncryptionLevel = "AES_128" | "AES_256" | "RSA_2048" | "RSA_4096";
+export type EncryptionLevel = "AES_128" | "AES_256" | "RSA_2048" | "RSA_4096" | "ED25519";
+export type CodeFormat = "STANDARD" | "COMPACT";
 
 export interface CodeDTO {
   id: number;
@@ -30,6 +57,7 @@ export interface CodeDTO {
   isActive: boolean;
   createdAt: Date;
   qrCodeUrl?: string;
+  gs1DigitalLink?: string | null;
 }
 
 export interface CodePayload {
@@ -42,12 +70,31 @@ export interface CodePayload {
   contentId?: number;
   role?: string;
   metadata?: Record<string, any>;
+  /** Per-key serial, only set for compact codes */
+  serial?: number;
+}
+
+export type SymbolFormat = "svg" | "png" | "matrix";
+
+export interface CodeSymbolDTO {
+  format: SymbolFormat;
+  mimeType: string;
+  version: number;
+  errorCorrection: QRErrorCorrectionLevel;
+  size: number;
+  svg?: string;
+  pngBase64?: string;
+  modules?: boolean[][];
 }
 
-export interface EncryptedPayload {
-  encrypted: string;
-  iv: string;
-  tag: string;
+export type EncryptedPayload = SuiteEncryptedPayload;
+
+export interface SignedCode {
+  codeValue: string;
+  entropySeed: string;
+  signature: string;
+  payload: CodePayload;
+  encryptedPayload?: EncryptedPayload;
 }
 
 export interface GenerateCodeInput {
@@ -60,80 +107,241 @@ export interface GenerateCodeInput {
   role?: string;
   metadata?: Record<string, any>;
   encryptPayload?: boolean;
+  qrErrorCorrection?: QRErrorCorrectionLevel;
+  codeFormat?: CodeFormat;
 }
 
 /**
- * Helper: AES encrypt payload
+ * Helper: encrypt payload with the encryption level's cipher under the
+ * tenant's data key. RSA levels wrap the content key for the signing key.
  */
-function encryptPayload(data: any): EncryptedPayload {
-  const iv = crypto.randomBytes(12);
-  const key = Buffer.from(env.SECRET_KEY.padEnd(32, '0').substring(0, 32));
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-
-  const jsonData = JSON.stringify(data);
-  const encrypted = Buffer.concat([
-    cipher.update(jsonData, "utf8"),
-    cipher.final(),
-  ]);
-  const tag = cipher.getAuthTag();
+function encryptPayload(data: CodePayload, privateKey: string, dataKey: TenantDataKey): EncryptedPayload {
+  const encrypted = encryptWithSuite(data.encryptionLevel, Buffer.from(JSON.stringify(data), "utf8"), {
+    secret: dataKey.key,
+    publicKey: crypto.createPublicKey(privateKey).export({ type: "spki", format: "pem" }).toString(),
+  });
+  return { ...encrypted, dataKey: dataKey.ref };
+}
+
+/**
+ * Helper: decrypt payload. Payloads without a data key reference were
+ * encrypted with the server secret; the private key is only needed for
+ * RSA-wrapped payloads.
+ */
+export function decryptPayload(
+  encrypted: EncryptedPayload,
+  keys: { dataKey?: TenantDataKey; privateKey?: string } = {}
+): unknown {
+  if (encrypted.dataKey && encrypted.dataKey !== keys.dataKey?.ref) {
+    throw new Error(`Payload requires data key ${encrypted.dataKey}`);
+  }
+
+  const decrypted = decryptWithSuite(encrypted, {
+    secret: encrypted.dataKey ? keys.dataKey!.key : env.SECRET_KEY,
+    privateKey: keys.privateKey,
+  });
+  return JSON.parse(decrypted.toString("utf8"));
+}
+
+/**
+ * The object a JSON code signature covers: the payload, flagged when the
+ * code value carries it encrypted
+ */
+export function signedPayload(payload: CodePayload, encrypted: boolean): CodePayload & { encrypted?: true } {
+  return encrypted ? { ...payload, encrypted: true } : payload;
+}
+
+/**
+ * Build and sign a single code value without persisting it.
+ * The private key is passed in so batch jobs can decrypt it once.
+ */
+export function buildSignedCode(
+  privateKey: string,
+  params: {
+    projectId: number;
+    keyId: number;
+    codeType: CodeType;
+    encryptionLevel: EncryptionLevel;
+    contentId?: number;
+    role?: string;
+    metadata?: Record<string, any>;
+    encryptPayload?: boolean;
+    /** Tenant data key, required when encryptPayload is set */
+    dataKey?: TenantDataKey;
+  }
+): SignedCode {
+  const entropySeed = generateEntropySeed();
+
+  const payload: CodePayload = {
+    projectId: params.projectId,
+    keyId: params.keyId,
+    entropySeed,
+    timestamp: Date.now(),
+    codeType: params.codeType,
+    encryptionLevel: params.encryptionLevel,
+    contentId: params.contentId,
+    role: params.role,
+    metadata: params.metadata || {},
+  };
+
+  return signCodePayload(privateKey, payload, params);
+}
+
+/**
+ * Sign (and optionally encrypt) a prepared payload into a JSON code value
+ */
+function signCodePayload(
+  privateKey: string,
+  payload: CodePayload,
+  options: { encryptPayload?: boolean; dataKey?: TenantDataKey }
+): SignedCode {
+  if (options.encryptPayload && !options.dataKey) {
+    throw new Error("Payload encryption requires the tenant's data key");
+  }
+
+  const encryptedPayloadData = options.encryptPayload
+    ? encryptPayload(payload, privateKey, options.dataKey!)
+    : undefined;
+
+  const signature = signWithAlgorithm(
+    keyAlgorithmOf(privateKey),
+    privateKey,
+    canonicalBytes(signedPayload(payload, !!encryptedPayloadData))
+  ).toString("base64");
+
+  const codeValue = Buffer.from(
+    JSON.stringify({
+      v: SIGNATURE_SCHEME_VERSION,
+      e: payload.entropySeed,
+      s: signature,
+      k: payload.keyId,
+      ...(encryptedPayloadData
+        ? {
+            enc: encryptedPayloadData.encrypted,
+            iv: encryptedPayloadData.iv,
+            tag: encryptedPayloadData.tag,
+            alg: encryptedPayloadData.alg,
+            ek: encryptedPayloadData.wrappedKey,
+            dk: encryptedPayloadData.dataKey,
+          }
+        : {}),
+    })
+  ).toString("base64url");
 
   return {
-    encrypted: encrypted.toString("base64"),
-    iv: iv.toString("base64"),
-    tag: tag.toString("base64"),
+    codeValue,
+    entropySeed: payload.entropySeed,
+    signature,
+    payload,
+    encryptedPayload: encryptedPayloadData,
   };
 }
 
 /**
- * Helper: AES decrypt payload
+ * Build a compact binary code for a pre-allocated key serial.
+ * The full payload is still stored server-side; only the header is signed.
  */
-function decryptPayload(encrypted: string, iv: string, tag: string): any {
-  const key = Buffer.from(env.SECRET_KEY.padEnd(32, '0').substring(0, 32));
-  const decipher = crypto.createDecipheriv(
-    ALGORITHM,
-    key,
-    Buffer.from(iv, "base64")
+export function buildCompactCode(
+  privateKey: string,
+  serial: number,
+  params: {
+    projectId: number;
+    keyId: number;
+    codeType: CodeType;
+    encryptionLevel: EncryptionLevel;
+    contentId?: number;
+    role?: string;
+    metadata?: Record<string, any>;
+  }
+): SignedCode {
+  const entropySeed = generateEntropySeed();
+
+  const payload: CodePayload = {
+    projectId: params.projectId,
+    keyId: params.keyId,
+    entropySeed,
+    timestamp: Date.now(),
+    codeType: params.codeType,
+    encryptionLevel: params.encryptionLevel,
+    contentId: params.contentId,
+    role: params.role,
+    metadata: params.metadata || {},
+    serial,
+  };
+
+  const codeValue = signCompactCode(
+    { keyId: params.keyId, serial, codeType: params.codeType },
+    privateKey
   );
-  decipher.setAuthTag(Buffer.from(tag, "base64"));
 
-  const decrypted = Buffer.concat([
-    decipher.update(Buffer.from(encrypted, "base64")),
-    decipher.final(),
-  ]);
+  return {
+    codeValue,
+    entropySeed,
+    signature: Buffer.from(codeValue, "base64url").subarray(COMPACT_HEADER_LENGTH).toString("base64"),
+    payload,
+  };
+}
 
-  return JSON.parse(decrypted.toString("utf8"));
+/**
+ * Whether a JSON code value carries an encrypted payload
+ */
+function hasEncryptedPayload(codeValue: string): boolean {
+  try {
+    const decoded = JSON.parse(Buffer.from(codeValue, "base64url").toString("utf8")) as { enc?: unknown };
+    return typeof decoded.enc === "string";
+  } catch {
+    return false;
+  }
 }
 
 /**
- * Generate a simple QR code SVG representation
- * For production, consider using a proper QR code library like 'qrcode'
+ * Re-sign an issued code with a successor key, keeping its entropy seed and
+ * payload. Compact codes need a serial reserved on the new key; encrypted
+ * payloads are re-encrypted with the tenant's current data key.
  */
-function generateQRCodeSVG(data: string): string {
-  const size = 200;
-  const modules = 33;
-  const moduleSize = size / modules;
-
-  let paths = "";
-  for (let i = 0; i < modules; i++) {
-    for (let j = 0; j < modules; j++) {
-      const hash = Math.abs(
-        data.split("").reduce((acc, char) => {
-          return ((acc << 5) - acc + char.charCodeAt(0)) | 0;
-        }, i * modules + j)
-      );
-
-      if (hash % 2 === 0) {
-        const x = j * moduleSize;
-        const y = i * moduleSize;
-        paths += `<rect x="${x}" y="${y}" width="${moduleSize}" height="${moduleSize}" fill="black"/>`;
-      }
+export function resignCode(
+  privateKey: string,
+  code: { codeValue: string; payload: CodePayload },
+  newKeyId: number,
+  options: { serial?: number; dataKey?: TenantDataKey } = {}
+): SignedCode {
+  const payload: CodePayload = { ...code.payload, keyId: newKeyId };
+
+  if (isCompactCode(code.codeValue)) {
+    if (!options.serial) {
+      throw new Error("Re-signing a compact code requires a serial on the new key");
     }
+    payload.serial = options.serial;
+    const codeValue = signCompactCode(
+      { keyId: newKeyId, serial: options.serial, codeType: payload.codeType },
+      privateKey
+    );
+    return {
+      codeValue,
+      entropySeed: payload.entropySeed,
+      signature: Buffer.from(codeValue, "base64url").subarray(COMPACT_HEADER_LENGTH).toString("base64"),
+      payload,
+    };
   }
 
-  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}">
-    <rect width="${size}" height="${size}" fill="white"/>
-    ${paths}
-  </svg>`;
+  return signCodePayload(privateKey, payload, {
+    encryptPayload: hasEncryptedPayload(code.codeValue),
+    dataKey: options.dataKey,
+  });
+}
+
+/**
+ * Reserve a contiguous range of compact-code serials for a key
+ * Returns the first serial of the range
+ */
+export async function allocateSerials(keyId: number, count: number): Promise<number> {
+  const key = await db.key.update({
+    where: { id: keyId },
+    data: { serialCounter: { increment: count } },
+    select: { serialCounter: true },
+  });
+
+  return key.serialCounter - count + 1;
 }
 
 export const CodeService = {
@@ -152,8 +360,14 @@ export const CodeService = {
       role,
       metadata,
       encryptPayload: shouldEncryptPayload = false,
+      qrErrorCorrection = "M",
+      codeFormat = "STANDARD",
     } = input;
 
+    if (codeFormat === "COMPACT" && shouldEncryptPayload) {
+      throw new Error("Compact codes cannot carry an encrypted payload");
+    }
+
     const key = await db.key.findUnique({
       where: { id: keyId },
     });
@@ -162,53 +376,41 @@ export const CodeService = {
       throw new Error("Key not found or inactive");
     }
 
-    const entropySeed = generateEntropySeed();
-
-    const payload: CodePayload = {
-      projectId,
-      keyId,
-      entropySeed,
-      timestamp: Date.now(),
-      codeType,
-      encryptionLevel,
-      contentId,
-      role,
-      metadata: metadata || {},
-    };
-
-    let encryptedPayloadData: EncryptedPayload | undefined;
-    let payloadForSigning = payload;
-
-    if (shouldEncryptPayload) {
-      encryptedPayloadData = encryptPayload(payload);
-      payloadForSigning = { ...payload, encrypted: true } as any;
-    }
-
-    const payloadHash = crypto
-      .createHash("sha256")
-      .update(JSON.stringify(payloadForSigning))
-      .digest();
+    assertKeySupportsLevel(key.algorithm, encryptionLevel);
 
     const privateKey = await KeyService.getPrivateKey(keyId);
-    const sign = crypto.createSign("SHA256");
-    sign.update(payloadHash);
-    sign.end();
-    const signature = sign.sign(privateKey).toString("base64");
-
-    const codeValue = Buffer.from(
-      JSON.stringify({
-        e: entropySeed,
-        s: signature,
-        k: keyId,
-        ...(shouldEncryptPayload && encryptedPayloadData
-          ? {
-              enc: encryptedPayloadData.encrypted,
-              iv: encryptedPayloadData.iv,
-              tag: encryptedPayloadData.tag,
-            }
-          : {}),
-      })
-    ).toString("base64url");
+    const dataKey = shouldEncryptPayload
+      ? await EnvelopeService.getDataKey(await EnvelopeService.resolveTenantId(projectId))
+      : undefined;
+    const { codeValue, entropySeed, signature, payload, encryptedPayload: encryptedPayloadData } =
+      codeFormat === "COMPACT"
+        ? buildCompactCode(privateKey, await allocateSerials(keyId, 1), {
+            projectId,
+            keyId,
+            codeType,
+            encryptionLevel,
+            contentId,
+            role,
+            metadata,
+          })
+        : buildSignedCode(privateKey, {
+            projectId,
+            keyId,
+            codeType,
+            encryptionLevel,
+            contentId,
+            role,
+            metadata,
+            encryptPayload: shouldEncryptPayload,
+            dataKey,
+          });
+
+    // GS1-compliant codes link to the asset's Digital Link when it has a GTIN
+    const asset =
+      codeType === "GS1_COMPLIANT" && assetId
+        ? await db.asset.findUnique({ where: { id: assetId } })
+        : null;
+    const gs1DigitalLink = asset ? Gs1Service.linkForAsset(asset) : null;
 
     const code = await db.optropicCode.create({
       data: {
@@ -222,11 +424,14 @@ export const CodeService = {
         projectId,
         keyId,
         assetId: assetId || null,
+        serial: payload.serial ?? null,
+        gs1DigitalLink,
       },
     });
 
-    const qrCodeSVG = generateQRCodeSVG(codeValue);
-    const qrCodeUrl = `data:image/svg+xml;base64,${Buffer.from(qrCodeSVG).toString("base64")}`;
+    const qrCodeUrl = toQRCodeSVGDataUrl(codeValue, {
+      errorCorrection: qrErrorCorrection,
+    });
 
     return {
       id: code.id,
@@ -237,6 +442,7 @@ export const CodeService = {
       isActive: code.isActive,
       createdAt: code.createdAt,
       qrCodeUrl,
+      gs1DigitalLink: code.gs1DigitalLink,
       ...(encryptedPayloadData ? { encryptedPayload: encryptedPayloadData } : {}),
     };
   },
@@ -283,6 +489,18 @@ export const CodeService = {
     };
   },
 
+  /**
+   * Revoke many codes of one project at once; codes of other projects and
+   * codes already revoked are skipped. Returns how many were revoked.
+   */
+  async revokeCodes(projectId: number, codeIds: number[]): Promise<number> {
+    const { count } = await db.optropicCode.updateMany({
+      where: { projectId, id: { in: codeIds }, isActive: true },
+      data: { isActive: false },
+    });
+    return count;
+  },
+
   /**
    * List codes for a project
    */
@@ -324,6 +542,53 @@ export const CodeService = {
     });
   },
 
+  /**
+   * Render the printable QR symbol for a code
+   */
+  async renderSymbol(
+    codeId: number,
+    format: SymbolFormat,
+    errorCorrection: QRErrorCorrectionLevel = "M",
+    quietZone?: number
+  ): Promise<CodeSymbolDTO> {
+    const code = await db.optropicCode.findUnique({
+      where: { id: codeId },
+    });
+
+    if (!code) {
+      throw new Error("Code not found");
+    }
+
+    const matrix = encodeQR(code.codeValue, { errorCorrection });
+    const base = {
+      format,
+      version: matrix.version,
+      errorCorrection: matrix.errorCorrection,
+      size: matrix.size,
+    };
+
+    switch (format) {
+      case "svg":
+        return {
+          ...base,
+          mimeType: "image/svg+xml",
+          svg: renderQRCodeSVG(matrix, { quietZone }),
+        };
+      case "png":
+        return {
+          ...base,
+          mimeType: "image/png",
+          pngBase64: renderQRCodePNG(matrix, { quietZone }).toString("base64"),
+        };
+      case "matrix":
+        return {
+          ...base,
+          mimeType: "application/json",
+          modules: matrix.modules,
+        };
+    }
+  },
+
   /**
    * Get code statistics
    */
@@ -351,118 +616,4 @@ export const CodeService = {
       totalScans: scans,
     };
   },
-
-  /**
-   * Verify and decrypt an encrypted code payload
-   */
-  async verifyEncryptedCode(
-    codeValue: string,
-    deviceId?: string,
-    geoHash?: string
-  ): Promise<{
-    valid: boolean;
-    trustScore: number;
-    message: string;
-    payload?: any;
-    code?: any;
-  }> {
-    try {
-      const decoded = JSON.parse(
-        Buffer.from(codeValue, "base64url").toString("utf8")
-      );
-
-      const { e: entropySeed, s: signature, k: keyId, enc, iv, tag } = decoded;
-
-      const code = await db.optropicCode.findFirst({
-        where: { entropySeed },
-        include: {
-          key: true,
-          project: true,
-        },
-      });
-
-      if (!code) {
-        return {
-          valid: false,
-          trustScore: 0,
-          message: "Code not found",
-        };
-      }
-
-      if (!code.isActive) {
-        return {
-          valid: false,
-          trustScore: 0,
-          message: "Code has been revoked",
-        };
-      }
-
-      if (!code.key || !code.key.isActive) {
-        return {
-          valid: false,
-          trustScore: 0,
-          message: "Key is inactive or revoked",
-        };
-      }
-
-      let payloadData: any = code.payload;
-
-      if (enc && iv && tag) {
-        try {
-          payloadData = decryptPayload(enc, iv, tag);
-        } catch (error) {
-          return {
-            valid: false,
-            trustScore: 0,
-            message: "Failed to decrypt payload",
-          };
-        }
-      }
-
-      const payloadHash = crypto
-        .createHash("sha256")
-        .update(JSON.stringify(payloadData))
-        .digest();
-
-      const verify = crypto.createVerify("SHA256");
-      verify.update(payloadHash);
-      verify.end();
-
-      const isValid = verify.verify(
-        code.key.publicKey!,
-        signature,
-        "base64"
-      );
-
-      await db.scan.create({
-        data: {
-          codeId: code.id,
-          deviceType: null,
-          geoHash: geoHash || null,
-          verificationSuccess: isValid,
-          trustScore: isValid ? 100 : 0,
-          isSuspicious: !isValid,
-          riskScore: isValid ? 0 : 100,
-        },
-      });
-
-      return {
-        valid: isValid,
-        trustScore: isValid ? 100 : 0,
-        message: isValid ? "Verification successful" : "Invalid signature",
-        payload: payloadData,
-        code: {
-          id: code.id,
-          codeType: code.codeType,
-          project: code.project.name,
-        },
-      };
-    } catch (error) {
-      return {
-        valid: false,
-        trustScore: 0,
-        message: "Invalid code format",
-      };
-    }
-  },
 };
@@ -0,0 +1,494 @@
+/**
+ * Optropic Platform – Config Pack Service
+ * ---------------------------------------
+ * Responsibilities:
+ *  - Version config packs: versions of one pack share a lineage (the id of
+ *    version 1) and move DRAFT → PUBLISHED → DEPRECATED
+ *  - Keep published versions immutable; changes go into a new draft
+ *  - Diff two versions structurally (roles, actions, products, workflows)
+ *  - Roll back by publishing a copy of an older version and re-pinning the
+ *    projects that ran the pack
+ *  - Pin projects to a published version and serve it to field devices
+ */
+
+import { Prisma, type UseCase } from "@prisma/client";
+import {
+  WorkflowDefinitionSchema,
+  type ConfigPackStatus,
+  type ListConfigPacksInput,
+  type UpdateConfigPackDraftInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import { configEtag, diffConfigPacks, type ConfigPackDiff } from "../utils/configPacks";
+
+export interface ConfigPackDTO {
+  id: number;
+  name: string;
+  description: string | null;
+  useCase: string;
+  status: ConfigPackStatus;
+  lineageId: number;
+  version: number;
+  basedOnId: number | null;
+  isActive: boolean;
+  projectId: number | null;
+  tenantId: number | null;
+  createdById: number | null;
+  templateId: number | null;
+  /** Projects pinned to this version */
+  pinnedCount: number;
+  createdAt: Date;
+  publishedAt: Date | null;
+  deprecatedAt: Date | null;
+}
+
+export interface ConfigPackDetailDTO extends ConfigPackDTO {
+  roles: string[];
+  actions: Prisma.JsonValue;
+  productList: Prisma.JsonValue;
+  configJson: Prisma.JsonValue;
+  etag: string;
+}
+
+export interface ConfigPackDiffDTO {
+  from: ConfigPackDTO;
+  to: ConfigPackDTO;
+  diff: ConfigPackDiff;
+}
+
+/**
+ * The pinned config as served to field devices
+ */
+export interface DeviceConfig {
+  configPackId: number;
+  lineageId: number;
+  version: number;
+  status: ConfigPackStatus;
+  deprecatedAt: Date | null;
+  configJson: Prisma.JsonValue;
+  etag: string;
+}
+
+/**
+ * Content of a new config pack version
+ */
+export interface ConfigPackContent {
+  name: string;
+  description?: string | null;
+  useCase: UseCase;
+  roles: string[];
+  actions: Prisma.InputJsonValue;
+  productList: Prisma.InputJsonValue;
+  configJson: Prisma.InputJsonValue;
+  /** Catalog template the content was instantiated from */
+  templateId?: number | null;
+  templateVersion?: number | null;
+}
+
+const configPackInclude = {
+  _count: { select: { pinnedBy: true } },
+} satisfies Prisma.TenantConfigPackInclude;
+
+type ConfigPackRow = Prisma.TenantConfigPackGetPayload<{ include: typeof configPackInclude }>;
+
+function toConfigPackDTO(pack: ConfigPackRow): ConfigPackDTO {
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    useCase: pack.useCase,
+    status: pack.status,
+    lineageId: pack.lineageId ?? pack.id,
+    version: pack.version,
+    basedOnId: pack.basedOnId,
+    isActive: pack.isActive,
+    projectId: pack.projectId,
+    tenantId: pack.tenantId,
+    createdById: pack.createdById,
+    templateId: pack.templateId,
+    pinnedCount: pack._count.pinnedBy,
+    createdAt: pack.createdAt,
+    publishedAt: pack.publishedAt,
+    deprecatedAt: pack.deprecatedAt,
+  };
+}
+
+function toConfigPackDetailDTO(pack: ConfigPackRow): ConfigPackDetailDTO {
+  return {
+    ...toConfigPackDTO(pack),
+    roles: pack.roles,
+    actions: pack.actions,
+    productList: pack.productList,
+    configJson: pack.configJson,
+    etag: configEtag(pack.configJson),
+  };
+}
+
+async function getRow(configPackId: number): Promise<ConfigPackRow> {
+  const pack = await db.tenantConfigPack.findUnique({ where: { id: configPackId }, include: configPackInclude });
+  if (!pack) {
+    throw new Error("Config pack not found");
+  }
+  return pack;
+}
+
+/**
+ * Copyable content of an existing version
+ */
+function contentOf(pack: ConfigPackRow): ConfigPackContent {
+  return {
+    name: pack.name,
+    description: pack.description,
+    useCase: pack.useCase,
+    roles: pack.roles,
+    actions: pack.actions ?? {},
+    productList: pack.productList ?? [],
+    configJson: pack.configJson ?? {},
+    templateId: pack.templateId,
+    templateVersion: pack.templateVersion,
+  };
+}
+
+/**
+ * Columns kept in step with an edited `configJson`
+ */
+function derivedColumns(configJson: Record<string, unknown>) {
+  const roles = Array.isArray(configJson.roles)
+    ? configJson.roles.filter((role): role is string => typeof role === "string")
+    : undefined;
+
+  return {
+    ...(roles ? { roles } : {}),
+    ...(configJson.permissions !== undefined ? { actions: configJson.permissions as Prisma.InputJsonValue } : {}),
+    ...(configJson.products !== undefined ? { productList: configJson.products as Prisma.InputJsonValue } : {}),
+  };
+}
+
+/**
+ * Workflows must run before a version goes out
+ */
+function assertPublishable(configJson: Prisma.JsonValue): void {
+  const workflows = (configJson as { workflows?: unknown } | null)?.workflows;
+  if (workflows === undefined) return;
+  if (!Array.isArray(workflows)) {
+    throw new Error("configJson.workflows must be a list");
+  }
+
+  workflows.forEach((workflow, index) => {
+    const parsed = WorkflowDefinitionSchema.safeParse(workflow);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Workflow ${index + 1} is invalid: ${issue?.path.join(".")} ${issue?.message}`.trim());
+    }
+  });
+}
+
+async function nextVersion(tx: Prisma.TransactionClient, lineageId: number): Promise<number> {
+  const latest = await tx.tenantConfigPack.aggregate({ where: { lineageId }, _max: { version: true } });
+  return (latest._max.version ?? 0) + 1;
+}
+
+export const ConfigPackService = {
+  /**
+   * Create a draft: version 1 of a new pack, or the next version of the
+   * pack whose lineage is given
+   */
+  async createDraft(
+    content: ConfigPackContent,
+    owner: { projectId?: number | null; tenantId: number; createdById: number },
+    lineageId?: number
+  ): Promise<ConfigPackDetailDTO> {
+    const id = await db.$transaction(async (tx) => {
+      if (lineageId === undefined) {
+        const pack = await tx.tenantConfigPack.create({
+          data: { ...content, ...owner, status: "DRAFT", version: 1 },
+          select: { id: true },
+        });
+        await tx.tenantConfigPack.update({ where: { id: pack.id }, data: { lineageId: pack.id } });
+        return pack.id;
+      }
+
+      const latest = await tx.tenantConfigPack.findFirst({
+        where: { lineageId },
+        orderBy: { version: "desc" },
+        select: { id: true },
+      });
+      if (!latest) {
+        throw new Error("Config pack not found");
+      }
+
+      const pack = await tx.tenantConfigPack.create({
+        data: {
+          ...content,
+          ...owner,
+          status: "DRAFT",
+          lineageId,
+          version: await nextVersion(tx, lineageId),
+          basedOnId: latest.id,
+        },
+        select: { id: true },
+      });
+      return pack.id;
+    });
+
+    return toConfigPackDetailDTO(await getRow(id));
+  },
+
+  /**
+   * A tenant's config pack versions, newest version of each pack first
+   */
+  async list(tenantId: number, input: ListConfigPacksInput): Promise<ConfigPackDTO[]> {
+    const packs = await db.tenantConfigPack.findMany({
+      where: {
+        tenantId,
+        ...(input.projectId ? { projectId: input.projectId } : {}),
+        ...(input.status ? { status: input.status } : {}),
+      },
+      include: configPackInclude,
+      orderBy: [{ lineageId: "desc" }, { version: "desc" }],
+    });
+
+    return packs.map(toConfigPackDTO);
+  },
+
+  /**
+   * All versions of a pack, newest first
+   */
+  async listVersions(lineageId: number): Promise<ConfigPackDTO[]> {
+    const packs = await db.tenantConfigPack.findMany({
+      where: { lineageId },
+      include: configPackInclude,
+      orderBy: { version: "desc" },
+    });
+
+    return packs.map(toConfigPackDTO);
+  },
+
+  async getConfigPack(configPackId: number): Promise<ConfigPackDetailDTO> {
+    return toConfigPackDetailDTO(await getRow(configPackId));
+  },
+
+  /**
+   * Edit a draft; published and deprecated versions are immutable
+   */
+  async updateDraft(input: UpdateConfigPackDraftInput): Promise<ConfigPackDetailDTO> {
+    const existing = await getRow(input.configPackId);
+    if (existing.status !== "DRAFT") {
+      throw new Error("Published config pack versions are immutable; create a new version to make changes");
+    }
+
+    const pack = await db.tenantConfigPack.update({
+      where: { id: existing.id },
+      data: {
+        name: input.name,
+        description: input.description,
+        ...(input.configJson
+          ? { configJson: input.configJson as Prisma.InputJsonObject, ...derivedColumns(input.configJson) }
+          : {}),
+      },
+      include: configPackInclude,
+    });
+
+    return toConfigPackDetailDTO(pack);
+  },
+
+  /**
+   * Start the next draft of a pack from one of its versions. A pack has at
+   * most one draft at a time.
+   */
+  async createVersion(fromId: number, userId: number): Promise<ConfigPackDetailDTO> {
+    const from = await getRow(fromId);
+    const lineageId = from.lineageId ?? from.id;
+
+    const draft = await db.tenantConfigPack.findFirst({
+      where: { lineageId, status: "DRAFT" },
+      select: { version: true },
+    });
+    if (draft) {
+      throw new Error(`Version ${draft.version} is already a draft`);
+    }
+
+    const id = await db.$transaction(async (tx) => {
+      const pack = await tx.tenantConfigPack.create({
+        data: {
+          ...contentOf(from),
+          projectId: from.projectId,
+          tenantId: from.tenantId,
+          createdById: userId,
+          status: "DRAFT",
+          lineageId,
+          version: await nextVersion(tx, lineageId),
+          basedOnId: from.id,
+        },
+        select: { id: true },
+      });
+      return pack.id;
+    });
+
+    return toConfigPackDetailDTO(await getRow(id));
+  },
+
+  /**
+   * Publish a draft after checking its workflows
+   */
+  async publish(configPackId: number): Promise<ConfigPackDetailDTO> {
+    const existing = await getRow(configPackId);
+    if (existing.status !== "DRAFT") {
+      throw new Error(`Config pack version is already ${existing.status.toLowerCase()}`);
+    }
+    assertPublishable(existing.configJson);
+
+    const pack = await db.tenantConfigPack.update({
+      where: { id: existing.id },
+      data: { status: "PUBLISHED", publishedAt: new Date() },
+      include: configPackInclude,
+    });
+
+    return toConfigPackDetailDTO(pack);
+  },
+
+  /**
+   * Deprecate a published version. Pinned projects keep it, and devices are
+   * told to move on.
+   */
+  async deprecate(configPackId: number): Promise<ConfigPackDetailDTO> {
+    const existing = await getRow(configPackId);
+    if (existing.status !== "PUBLISHED") {
+      throw new Error("Only published config pack versions can be deprecated");
+    }
+
+    const pack = await db.tenantConfigPack.update({
+      where: { id: existing.id },
+      data: { status: "DEPRECATED", deprecatedAt: new Date() },
+      include: configPackInclude,
+    });
+
+    return toConfigPackDetailDTO(pack);
+  },
+
+  async diff(fromId: number, toId: number): Promise<ConfigPackDiffDTO> {
+    const [from, to] = await Promise.all([getRow(fromId), getRow(toId)]);
+
+    return {
+      from: toConfigPackDTO(from),
+      to: toConfigPackDTO(to),
+      diff: diffConfigPacks(from.configJson, to.configJson),
+    };
+  },
+
+  /**
+   * Publish a copy of an older version as the newest version of its pack
+   * and re-pin every project pinned to a version of the pack
+   */
+  async rollback(
+    toId: number,
+    userId: number
+  ): Promise<{ configPack: ConfigPackDetailDTO; repinnedProjectIds: number[] }> {
+    const target = await getRow(toId);
+    if (target.status === "DRAFT") {
+      throw new Error("Cannot roll back to a draft");
+    }
+    const lineageId = target.lineageId ?? target.id;
+
+    const result = await db.$transaction(async (tx) => {
+      const pack = await tx.tenantConfigPack.create({
+        data: {
+          ...contentOf(target),
+          projectId: target.projectId,
+          tenantId: target.tenantId,
+          createdById: userId,
+          status: "PUBLISHED",
+          publishedAt: new Date(),
+          lineageId,
+          version: await nextVersion(tx, lineageId),
+          basedOnId: target.id,
+        },
+        select: { id: true },
+      });
+
+      const pinned = await tx.project.findMany({
+        where: { configPack: { lineageId } },
+        select: { id: true },
+      });
+      await tx.project.updateMany({
+        where: { id: { in: pinned.map((project) => project.id) } },
+        data: { configPackId: pack.id },
+      });
+
+      return { id: pack.id, repinnedProjectIds: pinned.map((project) => project.id) };
+    });
+
+    return {
+      configPack: toConfigPackDetailDTO(await getRow(result.id)),
+      repinnedProjectIds: result.repinnedProjectIds,
+    };
+  },
+
+  /**
+   * Pin a project to a published version
+   */
+  async pin(projectId: number, configPackId: number): Promise<ConfigPackDTO> {
+    const pack = await getRow(configPackId);
+    if (pack.status !== "PUBLISHED") {
+      throw new Error("Only published config pack versions can be pinned");
+    }
+
+    await db.project.update({ where: { id: projectId }, data: { configPackId: pack.id } });
+    return toConfigPackDTO(await getRow(pack.id));
+  },
+
+  async unpin(projectId: number): Promise<void> {
+    await db.project.update({ where: { id: projectId }, data: { configPackId: null } });
+  },
+
+  /**
+   * Packs whose workflows run for a project: the pinned version, or else the
+   * newest published version of each of the project's active packs
+   */
+  async listRunnablePacks(projectId: number): Promise<{ id: number; configJson: Prisma.JsonValue }[]> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { configPack: { select: { id: true, configJson: true } } },
+    });
+    if (!project) return [];
+    if (project.configPack) return [project.configPack];
+
+    const packs = await db.tenantConfigPack.findMany({
+      where: { projectId, isActive: true, status: "PUBLISHED" },
+      select: { id: true, lineageId: true, configJson: true },
+      orderBy: { version: "desc" },
+    });
+
+    const seen = new Set<number>();
+    return packs
+      .filter((pack) => {
+        const lineageId = pack.lineageId ?? pack.id;
+        if (seen.has(lineageId)) return false;
+        seen.add(lineageId);
+        return true;
+      })
+      .map(({ id, configJson }) => ({ id, configJson }));
+  },
+
+  /**
+   * The project's pinned config for field devices, or null when unpinned
+   */
+  async getDeviceConfig(projectId: number): Promise<DeviceConfig | null> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { configPack: true },
+    });
+    const pack = project?.configPack;
+    if (!pack) return null;
+
+    return {
+      configPackId: pack.id,
+      lineageId: pack.lineageId ?? pack.id,
+      version: pack.version,
+      status: pack.status,
+      deprecatedAt: pack.deprecatedAt,
+      configJson: pack.configJson,
+      etag: configEtag(pack.configJson),
+    };
+  },
+};
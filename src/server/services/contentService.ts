@@ -0,0 +1,526 @@
+/**
+ * Optropic Platform – Content Service
+ * -----------------------------------
+ * Responsibilities:
+ *  - Create, update, archive and restore content items, including hosted
+ *    landing pages
+ *  - Presigned direct-to-MinIO uploads into optropic-content, with MIME type
+ *    and size validation once the object is in place
+ *  - Snapshot every change as an immutable version; roll back to any version
+ *  - Serve uploaded files through the download proxy under an unguessable
+ *    token, counting a download once per client and hour
+ */
+
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import type {
+  ContentType,
+  CreateContentInput,
+  CreateContentUploadUrlInput,
+  LandingPage,
+  ListContentInput,
+  UpdateContentInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import { minioClient } from "../minio";
+import { getBaseUrl } from "../utils/base-url";
+import { checkRateLimit } from "../middleware/rateLimitStore";
+import { parseLandingPage } from "./landingPageService";
+
+export const CONTENT_BUCKET = "optropic-content";
+export const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+export const DOWNLOAD_URL_EXPIRY_SECONDS = 5 * 60;
+/** A client's repeated downloads of an item count once per window */
+export const DOWNLOAD_COUNT_WINDOW_MS = 60 * 60 * 1000;
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted uploads per content type. SVG is excluded: it can carry script.
+ */
+export const UPLOAD_RULES: Partial<Record<ContentType, { mimeTypes: string[]; maxBytes: number }>> = {
+  PDF_DOCUMENT: { mimeTypes: ["application/pdf"], maxBytes: 25 * MB },
+  IMAGE: { mimeTypes: ["image/png", "image/jpeg", "image/webp", "image/gif"], maxBytes: 10 * MB },
+  VIDEO: { mimeTypes: ["video/mp4", "video/webm", "video/quicktime"], maxBytes: 500 * MB },
+};
+
+/** Content types that are only a link */
+const URL_CONTENT_TYPES: ContentType[] = ["URL_REDIRECT", "CAMPAIGN"];
+
+type ContentRow = Prisma.ContentGetPayload<object>;
+type ContentVersionRow = Prisma.ContentVersionGetPayload<object>;
+type Tx = Prisma.TransactionClient;
+
+export interface ContentDTO {
+  id: number;
+  projectId: number;
+  title: string;
+  contentType: ContentType;
+  url: string | null;
+  fileUrl: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  version: number;
+  downloadCount: number;
+  isActive: boolean;
+  archivedAt: Date | null;
+  gs1LinkType: string | null;
+  hasRedirectRules: boolean;
+  landingPage: LandingPage | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ContentVersionDTO {
+  id: number;
+  version: number;
+  title: string;
+  url: string | null;
+  fileUrl: string | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  gs1LinkType: string | null;
+  hasRedirectRules: boolean;
+  restoredFrom: number | null;
+  createdById: number | null;
+  createdAt: Date;
+}
+
+export interface UploadTarget {
+  uploadUrl: string;
+  objectKey: string;
+  expiresAt: Date;
+}
+
+interface StoredUpload {
+  objectKey: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+function toContentDTO(content: ContentRow): ContentDTO {
+  return {
+    id: content.id,
+    projectId: content.projectId,
+    title: content.title,
+    contentType: content.contentType,
+    url: content.url,
+    fileUrl: content.fileUrl,
+    fileSize: content.fileSize,
+    mimeType: content.mimeType,
+    version: content.version,
+    downloadCount: content.downloadCount,
+    isActive: content.isActive,
+    archivedAt: content.archivedAt,
+    gs1LinkType: content.gs1LinkType,
+    hasRedirectRules: content.redirectRules !== null,
+    landingPage: parseLandingPage(content.landingPage),
+    createdAt: content.createdAt,
+    updatedAt: content.updatedAt,
+  };
+}
+
+function toVersionDTO(version: ContentVersionRow): ContentVersionDTO {
+  return {
+    id: version.id,
+    version: version.version,
+    title: version.title,
+    url: version.url,
+    fileUrl: version.fileUrl,
+    fileSize: version.fileSize,
+    mimeType: version.mimeType,
+    gs1LinkType: version.gs1LinkType,
+    hasRedirectRules: version.redirectRules !== null,
+    restoredFrom: version.restoredFrom,
+    createdById: version.createdById,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * Check a file against the upload rules of a content type
+ */
+export function validateUpload(contentType: ContentType, mimeType: string, fileSize: number): void {
+  const rules = UPLOAD_RULES[contentType];
+  if (!rules) {
+    throw new Error(`${contentType} content does not take file uploads`);
+  }
+
+  const baseType = mimeType.split(";")[0]!.trim().toLowerCase();
+  if (!rules.mimeTypes.includes(baseType)) {
+    throw new Error(`${contentType} uploads must be one of: ${rules.mimeTypes.join(", ")}`);
+  }
+  if (fileSize > rules.maxBytes) {
+    throw new Error(`${contentType} uploads are limited to ${rules.maxBytes / MB} MB`);
+  }
+}
+
+/**
+ * Content types other than links need a URL or an uploaded file
+ */
+function validateTarget(contentType: ContentType, url: string | null, objectKey: string | null): void {
+  if (URL_CONTENT_TYPES.includes(contentType) && !url) {
+    throw new Error(`${contentType} content requires a URL`);
+  }
+  if (UPLOAD_RULES[contentType] && !url && !objectKey) {
+    throw new Error(`${contentType} content requires an uploaded file or a URL`);
+  }
+}
+
+/**
+ * Last path segment of a client file name, reduced to object-key-safe characters
+ */
+export function safeFileName(fileName: string): string {
+  const name = fileName.split(/[\\/]/).pop()!.replace(/[^A-Za-z0-9._-]+/g, "_").slice(-100);
+  return name.replace(/^\.+/, "") || "file";
+}
+
+/**
+ * Public download proxy for an uploaded file
+ */
+export function downloadProxyUrl(downloadToken: string): string {
+  return `${getBaseUrl()}/api/content/${downloadToken}/download`;
+}
+
+/**
+ * Confirm an upload landed in the project's prefix and satisfies the rules
+ * using the stored object's size and type, not the client's claim
+ */
+async function verifyUpload(projectId: number, contentType: ContentType, objectKey: string): Promise<StoredUpload> {
+  if (!objectKey.startsWith(`${projectId}/`)) {
+    throw new Error("Upload does not belong to this project");
+  }
+
+  let stat;
+  try {
+    stat = await minioClient.statObject(CONTENT_BUCKET, objectKey);
+  } catch {
+    throw new Error("Upload not found; upload the file before saving");
+  }
+
+  const mimeType = String(stat.metaData?.["content-type"] ?? "application/octet-stream");
+  validateUpload(contentType, mimeType, stat.size);
+
+  return { objectKey, fileSize: stat.size, mimeType: mimeType.split(";")[0]!.trim().toLowerCase() };
+}
+
+function jsonOrDbNull(value: Prisma.JsonValue | undefined): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+async function snapshot(
+  tx: Tx,
+  content: ContentRow,
+  userId: number | null,
+  restoredFrom: number | null = null
+): Promise<void> {
+  await tx.contentVersion.create({
+    data: {
+      contentId: content.id,
+      tenantId: content.tenantId,
+      version: content.version,
+      title: content.title,
+      url: content.url,
+      fileUrl: content.fileUrl,
+      objectKey: content.objectKey,
+      fileSize: content.fileSize,
+      mimeType: content.mimeType,
+      redirectRules: jsonOrDbNull(content.redirectRules),
+      gs1LinkType: content.gs1LinkType,
+      landingPage: jsonOrDbNull(content.landingPage),
+      restoredFrom,
+      createdById: userId,
+    },
+  });
+}
+
+/**
+ * Apply a change as the next version. The version check makes concurrent
+ * editors fail instead of silently overwriting each other.
+ */
+async function commitVersion(
+  current: ContentRow,
+  data: Prisma.ContentUpdateManyMutationInput,
+  userId: number | null,
+  restoredFrom: number | null = null
+): Promise<ContentRow> {
+  return await db.$transaction(async (tx) => {
+    const { count } = await tx.content.updateMany({
+      where: { id: current.id, version: current.version },
+      data: { ...data, version: current.version + 1 },
+    });
+
+    if (count === 0) {
+      throw new Error("Content was changed by someone else; reload and try again");
+    }
+
+    const updated = await tx.content.findUniqueOrThrow({ where: { id: current.id } });
+    await snapshot(tx, updated, userId, restoredFrom);
+    return updated;
+  });
+}
+
+async function getRow(contentId: number): Promise<ContentRow> {
+  const content = await db.content.findUnique({ where: { id: contentId } });
+
+  if (!content) {
+    throw new Error("Content not found");
+  }
+
+  return content;
+}
+
+export const ContentService = {
+  /**
+   * Presigned PUT URL for uploading a file straight to MinIO
+   */
+  async createUploadUrl(input: CreateContentUploadUrlInput): Promise<UploadTarget> {
+    validateUpload(input.contentType, input.mimeType, input.fileSize);
+
+    const objectKey = `${input.projectId}/${crypto.randomUUID()}/${safeFileName(input.fileName)}`;
+    const uploadUrl = await minioClient.presignedPutObject(CONTENT_BUCKET, objectKey, UPLOAD_URL_EXPIRY_SECONDS);
+
+    return {
+      uploadUrl,
+      objectKey,
+      expiresAt: new Date(Date.now() + UPLOAD_URL_EXPIRY_SECONDS * 1000),
+    };
+  },
+
+  /**
+   * Create a content item as version 1
+   */
+  async createContent(
+    input: CreateContentInput & { tenantId: number | null },
+    userId: number | null
+  ): Promise<ContentDTO> {
+    const upload = input.upload ? await verifyUpload(input.projectId, input.contentType, input.upload.objectKey) : null;
+    if (upload && !UPLOAD_RULES[input.contentType]) {
+      throw new Error(`${input.contentType} content does not take file uploads`);
+    }
+    validateTarget(input.contentType, input.url ?? null, upload?.objectKey ?? null);
+    if (input.landingPage && input.contentType !== "LANDING_PAGE") {
+      throw new Error("Only LANDING_PAGE content can host a page");
+    }
+
+    const content = await db.$transaction(async (tx) => {
+      const created = await tx.content.create({
+        data: {
+          projectId: input.projectId,
+          tenantId: input.tenantId,
+          title: input.title,
+          contentType: input.contentType,
+          url: input.url ?? null,
+          gs1LinkType: input.gs1LinkType ?? null,
+          landingPage: input.landingPage ? (input.landingPage as Prisma.InputJsonValue) : Prisma.DbNull,
+          objectKey: upload?.objectKey ?? null,
+          fileSize: upload?.fileSize ?? null,
+          mimeType: upload?.mimeType ?? null,
+        },
+      });
+
+      const withFile = upload
+        ? await tx.content.update({ where: { id: created.id }, data: { fileUrl: downloadProxyUrl(created.downloadToken) } })
+        : created;
+
+      await snapshot(tx, withFile, userId);
+      return withFile;
+    });
+
+    return toContentDTO(content);
+  },
+
+  /**
+   * Update a content item; every effective change becomes a new version
+   */
+  async updateContent(input: UpdateContentInput, userId: number | null): Promise<ContentDTO> {
+    const current = await getRow(input.contentId);
+    if (!current.isActive) {
+      throw new Error("Archived content cannot be edited; restore it first");
+    }
+
+    const data: Prisma.ContentUpdateManyMutationInput = {};
+    if (input.title !== undefined && input.title !== current.title) data.title = input.title;
+    if (input.url !== undefined && input.url !== current.url) data.url = input.url;
+    if (input.gs1LinkType !== undefined && input.gs1LinkType !== current.gs1LinkType) {
+      data.gs1LinkType = input.gs1LinkType;
+    }
+    if (input.redirectRules !== undefined && JSON.stringify(input.redirectRules) !== JSON.stringify(current.redirectRules)) {
+      data.redirectRules = input.redirectRules
+        ? (input.redirectRules as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull;
+    }
+    if (input.landingPage !== undefined && JSON.stringify(input.landingPage) !== JSON.stringify(current.landingPage)) {
+      if (current.contentType !== "LANDING_PAGE") {
+        throw new Error("Only LANDING_PAGE content can host a page");
+      }
+      data.landingPage = input.landingPage ? (input.landingPage as Prisma.InputJsonValue) : Prisma.DbNull;
+    }
+
+    let objectKey = current.objectKey;
+    if (input.upload && input.upload.objectKey !== current.objectKey) {
+      const upload = await verifyUpload(current.projectId, current.contentType, input.upload.objectKey);
+      objectKey = upload.objectKey;
+      Object.assign(data, {
+        objectKey: upload.objectKey,
+        fileSize: upload.fileSize,
+        mimeType: upload.mimeType,
+        fileUrl: downloadProxyUrl(current.downloadToken),
+      });
+    }
+
+    validateTarget(current.contentType, data.url !== undefined ? (data.url as string | null) : current.url, objectKey);
+
+    if (Object.keys(data).length === 0) {
+      return toContentDTO(current);
+    }
+
+    return toContentDTO(await commitVersion(current, data, userId));
+  },
+
+  /**
+   * Archive a content item; scans stop resolving to it
+   */
+  async archiveContent(contentId: number): Promise<ContentDTO> {
+    const content = await db.content.update({
+      where: { id: contentId },
+      data: { isActive: false, archivedAt: new Date() },
+    });
+
+    return toContentDTO(content);
+  },
+
+  /**
+   * Bring an archived content item back
+   */
+  async restoreContent(contentId: number): Promise<ContentDTO> {
+    const content = await db.content.update({
+      where: { id: contentId },
+      data: { isActive: true, archivedAt: null },
+    });
+
+    return toContentDTO(content);
+  },
+
+  /**
+   * Restore the state of an earlier version as the next version
+   */
+  async rollback(contentId: number, version: number, userId: number | null): Promise<ContentDTO> {
+    const current = await getRow(contentId);
+    if (version === current.version) {
+      throw new Error(`Content is already at version ${version}`);
+    }
+
+    const target = await db.contentVersion.findUnique({
+      where: { contentId_version: { contentId, version } },
+    });
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    const restored = await commitVersion(
+      current,
+      {
+        title: target.title,
+        url: target.url,
+        fileUrl: target.fileUrl,
+        objectKey: target.objectKey,
+        fileSize: target.fileSize,
+        mimeType: target.mimeType,
+        redirectRules: jsonOrDbNull(target.redirectRules),
+        gs1LinkType: target.gs1LinkType,
+        landingPage: jsonOrDbNull(target.landingPage),
+      },
+      userId,
+      version
+    );
+
+    return toContentDTO(restored);
+  },
+
+  /**
+   * List content for a project
+   */
+  async listContent(input: ListContentInput): Promise<ContentDTO[]> {
+    const contents = await db.content.findMany({
+      where: {
+        projectId: input.projectId,
+        ...(input.contentType ? { contentType: input.contentType } : {}),
+        ...(input.status === "ACTIVE" ? { isActive: true } : input.status === "ARCHIVED" ? { isActive: false } : {}),
+        ...(input.search ? { title: { contains: input.search, mode: "insensitive" as const } } : {}),
+      },
+      orderBy: { updatedAt: "desc" },
+    });
+
+    return contents.map(toContentDTO);
+  },
+
+  /**
+   * Get a single content item
+   */
+  async getContent(contentId: number): Promise<ContentDTO> {
+    return toContentDTO(await getRow(contentId));
+  },
+
+  /**
+   * Version history, newest first
+   */
+  async listVersions(contentId: number): Promise<ContentVersionDTO[]> {
+    const versions = await db.contentVersion.findMany({
+      where: { contentId },
+      orderBy: { version: "desc" },
+    });
+
+    return versions.map(toVersionDTO);
+  },
+
+  /**
+   * Totals for the content hub
+   */
+  async getStats(projectId: number) {
+    const [total, active, sums] = await Promise.all([
+      db.content.count({ where: { projectId } }),
+      db.content.count({ where: { projectId, isActive: true } }),
+      db.content.aggregate({
+        where: { projectId },
+        _sum: { downloadCount: true, fileSize: true },
+      }),
+    ]);
+
+    return {
+      total,
+      active,
+      downloads: sums._sum.downloadCount ?? 0,
+      storageBytes: sums._sum.fileSize ?? 0,
+    };
+  },
+
+  /**
+   * Return a short-lived signed URL for the current file of the active item
+   * behind a download token, counting the download once per client and
+   * window. Null when there is nothing to download.
+   */
+  async getDownloadUrl(downloadToken: string, clientIp: string = "unknown"): Promise<string | null> {
+    const content = await db.content.findUnique({
+      where: { downloadToken },
+      select: { id: true, title: true, isActive: true, objectKey: true, mimeType: true },
+    });
+
+    if (!content || !content.isActive || !content.objectKey) {
+      return null;
+    }
+
+    if (checkRateLimit(`content-download:${content.id}:${clientIp}`, DOWNLOAD_COUNT_WINDOW_MS, 1).allowed) {
+      await db.content.update({
+        where: { id: content.id },
+        data: { downloadCount: { increment: 1 } },
+      });
+    }
+
+    const fileName = content.objectKey.split("/").pop()!;
+    return await minioClient.presignedGetObject(CONTENT_BUCKET, content.objectKey, DOWNLOAD_URL_EXPIRY_SECONDS, {
+      "response-content-disposition": `inline; filename="${fileName}"`,
+      ...(content.mimeType ? { "response-content-type": content.mimeType } : {}),
+    });
+  },
+};
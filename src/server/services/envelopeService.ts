@@ -0,0 +1,333 @@
+/**
+ * Optropic Platform – Envelope Encryption Service
+ * -----------------------------------------------
+ * Responsibilities:
+ *  - Create and cache one random data-encryption key (DEK) per tenant
+ *  - Store DEKs only wrapped by the master key provider (see utils/keyProvider)
+ *  - Derive purpose-specific keys (private keys, code payloads) with HKDF
+ *  - Encrypt / decrypt signing private keys, including the legacy
+ *    SECRET_KEY format
+ *  - Encrypt / decrypt users' TOTP secrets
+ *  - Re-wrap DEKs under a new master key and migrate legacy private keys
+ *
+ * Private key format: env1:{tenantId}:{version}:{iv}:{tag}:{ciphertext} (hex)
+ * Legacy format:      {iv}:{tag}:{ciphertext} with the padded SECRET_KEY
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { env } from "../env";
+import {
+  getKeyProvider,
+  getKeyProviderByName,
+  type EncryptionContext,
+  type KeyProviderName,
+  type WrappedKey,
+} from "../utils/keyProvider";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+const PRIVATE_KEY_PREFIX = "env1";
+
+/** Unwrapped keys are cached so hot paths do not hit the provider */
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface TenantDataKey {
+  tenantId: number;
+  version: number;
+  /** Reference stored next to data encrypted with this key */
+  ref: string;
+  key: Buffer;
+}
+
+export interface RewrapReport {
+  masterKeyId: string;
+  scanned: number;
+  rewrapped: number;
+  failed: number;
+  legacyPrivateKeysMigrated: number;
+}
+
+const cache = new Map<string, { dataKey: TenantDataKey; expiresAt: number }>();
+
+function contextFor(tenantId: number, version: number): EncryptionContext {
+  return { tenantId: String(tenantId), version: String(version), purpose: "tenant-data-key" };
+}
+
+function toDataKey(tenantId: number, version: number, key: Buffer): TenantDataKey {
+  return { tenantId, version, ref: `${tenantId}.${version}`, key };
+}
+
+function wrappedFrom(row: { provider: string; masterKeyId: string; wrappedKey: string }): WrappedKey {
+  return { provider: row.provider as KeyProviderName, masterKeyId: row.masterKeyId, ciphertext: row.wrappedKey };
+}
+
+function remember(dataKey: TenantDataKey): TenantDataKey {
+  cache.set(dataKey.ref, { dataKey, expiresAt: Date.now() + CACHE_TTL_MS });
+  return dataKey;
+}
+
+/**
+ * Derive a purpose-specific key from a tenant DEK
+ */
+function deriveKey(dataKey: TenantDataKey, purpose: string): Buffer {
+  return Buffer.from(crypto.hkdfSync("sha256", dataKey.key, `tenant-${dataKey.tenantId}`, purpose, 32));
+}
+
+function legacySecretKey(): Buffer {
+  return Buffer.from(env.SECRET_KEY.padEnd(32, "0").substring(0, 32));
+}
+
+function aesEncrypt(key: Buffer, plaintext: string): string[] {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [iv.toString("hex"), cipher.getAuthTag().toString("hex"), encrypted.toString("hex")];
+}
+
+function aesDecrypt(key: Buffer, iv: string, tag: string, encrypted: string): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, "hex"));
+  decipher.setAuthTag(Buffer.from(tag, "hex"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "hex")), decipher.final()]).toString("utf8");
+}
+
+export const EnvelopeService = {
+  /**
+   * Tenant that owns a project's encryption keys
+   */
+  async resolveTenantId(projectId: number): Promise<number> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { tenantId: true, userId: true },
+    });
+
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    return project.tenantId ?? project.userId;
+  },
+
+  /**
+   * Current DEK for a tenant, created on first use
+   */
+  async getDataKey(tenantId: number): Promise<TenantDataKey> {
+    const existing = await db.tenantDataKey.findFirst({
+      where: { tenantId },
+      orderBy: { version: "desc" },
+    });
+
+    if (existing) {
+      return await this.getDataKeyVersion(tenantId, existing.version);
+    }
+
+    const provider = getKeyProvider();
+    const key = crypto.randomBytes(DATA_KEY_LENGTH);
+    const wrapped = await provider.wrap(key, contextFor(tenantId, 1));
+
+    try {
+      await db.tenantDataKey.create({
+        data: {
+          tenantId,
+          version: 1,
+          provider: wrapped.provider,
+          masterKeyId: wrapped.masterKeyId,
+          wrappedKey: wrapped.ciphertext,
+        },
+      });
+    } catch (error) {
+      // Another request created the key first; use theirs
+      if ((error as { code?: string }).code === "P2002") {
+        return await this.getDataKeyVersion(tenantId, 1);
+      }
+      throw error;
+    }
+
+    return remember(toDataKey(tenantId, 1, key));
+  },
+
+  /**
+   * A specific DEK version (for decrypting older data)
+   */
+  async getDataKeyVersion(tenantId: number, version: number): Promise<TenantDataKey> {
+    const cached = cache.get(`${tenantId}.${version}`);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.dataKey;
+    }
+
+    const row = await db.tenantDataKey.findUnique({
+      where: { tenantId_version: { tenantId, version } },
+    });
+
+    if (!row) {
+      throw new Error(`Data key ${tenantId}.${version} not found`);
+    }
+
+    const wrapped = wrappedFrom(row);
+    const key = await getKeyProviderByName(wrapped.provider).unwrap(wrapped, contextFor(tenantId, version));
+
+    return remember(toDataKey(tenantId, version, key));
+  },
+
+  /**
+   * Resolve a "tenantId.version" reference stored with encrypted data
+   */
+  async getDataKeyByRef(ref: string): Promise<TenantDataKey> {
+    const [tenantId, version] = ref.split(".").map(Number);
+    if (!Number.isInteger(tenantId) || !Number.isInteger(version)) {
+      throw new Error("Invalid data key reference");
+    }
+    return await this.getDataKeyVersion(tenantId!, version!);
+  },
+
+  /**
+   * Encrypt a signing private key (PEM) with the tenant's DEK
+   */
+  async encryptPrivateKey(tenantId: number, privateKey: string): Promise<string> {
+    const dataKey = await this.getDataKey(tenantId);
+    const parts = aesEncrypt(deriveKey(dataKey, "private-key"), privateKey);
+    return [PRIVATE_KEY_PREFIX, dataKey.tenantId, dataKey.version, ...parts].join(":");
+  },
+
+  /**
+   * Decrypt a stored private key in either the envelope or legacy format
+   */
+  async decryptPrivateKey(encryptedData: string): Promise<string> {
+    const parts = encryptedData.split(":");
+
+    if (parts.length === 3) {
+      return aesDecrypt(legacySecretKey(), parts[0]!, parts[1]!, parts[2]!);
+    }
+
+    if (parts.length !== 6 || parts[0] !== PRIVATE_KEY_PREFIX) {
+      throw new Error("Invalid encrypted key format");
+    }
+
+    const dataKey = await this.getDataKeyVersion(Number(parts[1]), Number(parts[2]));
+    return aesDecrypt(deriveKey(dataKey, "private-key"), parts[3]!, parts[4]!, parts[5]!);
+  },
+
+  /**
+   * Encrypt a user's TOTP secret with their tenant's DEK, in the private key
+   * format
+   */
+  async encryptMfaSecret(tenantId: number, secret: string): Promise<string> {
+    const dataKey = await this.getDataKey(tenantId);
+    const parts = aesEncrypt(deriveKey(dataKey, "mfa-secret"), secret);
+    return [PRIVATE_KEY_PREFIX, dataKey.tenantId, dataKey.version, ...parts].join(":");
+  },
+
+  async decryptMfaSecret(encryptedData: string): Promise<string> {
+    const parts = encryptedData.split(":");
+    if (parts.length !== 6 || parts[0] !== PRIVATE_KEY_PREFIX) {
+      throw new Error("Invalid encrypted secret format");
+    }
+
+    const dataKey = await this.getDataKeyVersion(Number(parts[1]), Number(parts[2]));
+    return aesDecrypt(deriveKey(dataKey, "mfa-secret"), parts[3]!, parts[4]!, parts[5]!);
+  },
+
+  /**
+   * Whether a stored private key still uses the shared SECRET_KEY
+   */
+  isLegacyPrivateKey(encryptedData: string): boolean {
+    return encryptedData.split(":").length === 3;
+  },
+
+  /**
+   * Re-wrap every DEK not wrapped by the current master key, then move
+   * legacy private keys onto their tenant's DEK. The plaintext DEKs do not
+   * change, so data encrypted under them stays readable throughout; old
+   * master keys can be removed once a run reports nothing left to re-wrap.
+   */
+  async rewrapDataKeys(batchSize: number = 100): Promise<RewrapReport> {
+    const provider = getKeyProvider();
+    const masterKeyId = provider.currentMasterKeyId();
+    const report: RewrapReport = { masterKeyId, scanned: 0, rewrapped: 0, failed: 0, legacyPrivateKeysMigrated: 0 };
+    let cursor = 0;
+
+    for (;;) {
+      const rows = await db.tenantDataKey.findMany({
+        where: { id: { gt: cursor }, NOT: { provider: provider.name, masterKeyId } },
+        orderBy: { id: "asc" },
+        take: batchSize,
+      });
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        cursor = row.id;
+        report.scanned++;
+        const context = contextFor(row.tenantId, row.version);
+
+        try {
+          // The wrapping provider must still hold the old master key
+          const previous = wrappedFrom(row);
+          const key = await getKeyProviderByName(previous.provider).unwrap(previous, context);
+          const wrapped = await provider.wrap(key, context);
+
+          // Only replace the row if no concurrent run already did
+          const { count } = await db.tenantDataKey.updateMany({
+            where: { id: row.id, masterKeyId: row.masterKeyId, wrappedKey: row.wrappedKey },
+            data: {
+              provider: wrapped.provider,
+              masterKeyId: wrapped.masterKeyId,
+              wrappedKey: wrapped.ciphertext,
+              rewrappedAt: new Date(),
+            },
+          });
+          report.rewrapped += count;
+        } catch {
+          report.failed++;
+        }
+      }
+    }
+
+    report.legacyPrivateKeysMigrated = await this.migrateLegacyPrivateKeys(batchSize);
+    return report;
+  },
+
+  /**
+   * Re-encrypt private keys still stored under the shared SECRET_KEY
+   */
+  async migrateLegacyPrivateKeys(batchSize: number = 100): Promise<number> {
+    let migrated = 0;
+    let cursor = 0;
+
+    for (;;) {
+      const keys = await db.key.findMany({
+        where: { id: { gt: cursor } },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        select: { id: true, encryptedPrivateKey: true, project: { select: { tenantId: true, userId: true } } },
+      });
+      if (keys.length === 0) break;
+
+      for (const key of keys) {
+        cursor = key.id;
+        if (!this.isLegacyPrivateKey(key.encryptedPrivateKey)) continue;
+
+        const privateKey = await this.decryptPrivateKey(key.encryptedPrivateKey);
+        const encryptedPrivateKey = await this.encryptPrivateKey(
+          key.project.tenantId ?? key.project.userId,
+          privateKey
+        );
+
+        const { count } = await db.key.updateMany({
+          where: { id: key.id, encryptedPrivateKey: key.encryptedPrivateKey },
+          data: { encryptedPrivateKey },
+        });
+        migrated += count;
+      }
+    }
+
+    return migrated;
+  },
+
+  /**
+   * Drop cached plaintext DEKs
+   */
+  clearCache(): void {
+    cache.clear();
+  },
+};
@@ -0,0 +1,441 @@
+/**
+ * Optropic Platform – EPCIS Service
+ * ---------------------------------
+ * Responsibilities:
+ *  - Capture EPCIS 2.0 Object, Aggregation and Transformation events for a
+ *    project, linking each EPC to the asset or code it identifies
+ *  - Keep the packaging hierarchy in step with captured aggregation events
+ *  - Query events by type, CBV values, location, EPC, asset and time
+ *  - Build an asset's custody timeline, including the events recorded on
+ *    the cases and pallets it travelled in
+ */
+
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+import type {
+  EpcisAction,
+  EpcisEvent,
+  EpcisEventType,
+  EpcisObjectRole,
+  ListSupplyChainEventsInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import {
+  EPCIS_CONTEXT,
+  EVENT_TYPES,
+  buildCustodyTimeline,
+  eventObjects,
+  normalizeCbv,
+  parseEpc,
+  type CustodyEvent,
+  type CustodyStep,
+  type EventObject,
+} from "../utils/epcis";
+import { AssetService } from "./assetService";
+
+/** Packaging levels walked up from an asset for its custody timeline */
+const CUSTODY_DEPTH = 5;
+
+/** Events returned in one custody timeline */
+const CUSTODY_EVENT_LIMIT = 1000;
+
+/** Identifiers resolved per database query */
+const RESOLVE_CHUNK = 500;
+
+export interface SupplyChainEventDTO {
+  id: number;
+  eventId: string;
+  eventType: EpcisEventType;
+  action: EpcisAction | null;
+  eventTime: Date;
+  eventTimeZoneOffset: string;
+  bizStep: string | null;
+  disposition: string | null;
+  readPoint: string | null;
+  bizLocation: string | null;
+  recordTime: Date;
+  objects: {
+    role: EpcisObjectRole;
+    epc: string;
+    quantity: number | null;
+    uom: string | null;
+    assetId: number | null;
+    codeId: number | null;
+  }[];
+}
+
+export interface CaptureResult {
+  /** eventIDs stored by this capture */
+  captured: string[];
+  /** eventIDs already stored for the project; captures are idempotent */
+  duplicates: string[];
+  /** Aggregations that could not be applied to the packaging hierarchy */
+  warnings: string[];
+}
+
+interface ResolvedEpc {
+  assetId: number | null;
+  codeId: number | null;
+}
+
+type EventRow = Prisma.SupplyChainEventGetPayload<{ include: { objects: true } }>;
+
+function toEventDTO(event: EventRow): SupplyChainEventDTO {
+  return {
+    id: event.id,
+    eventId: event.eventId,
+    eventType: event.eventType,
+    action: event.action,
+    eventTime: event.eventTime,
+    eventTimeZoneOffset: event.eventTimeZoneOffset,
+    bizStep: event.bizStep,
+    disposition: event.disposition,
+    readPoint: event.readPoint,
+    bizLocation: event.bizLocation,
+    recordTime: event.createdAt,
+    objects: event.objects.map((object) => ({
+      role: object.role,
+      epc: object.epc,
+      quantity: object.quantity,
+      uom: object.uom,
+      assetId: object.assetId,
+      codeId: object.codeId,
+    })),
+  };
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += RESOLVE_CHUNK) {
+    result.push(items.slice(i, i + RESOLVE_CHUNK));
+  }
+  return result;
+}
+
+/**
+ * Assets and codes of a project identified by EPCs. Classes (lots, GTINs
+ * without serial) name no single asset and stay unresolved.
+ */
+async function resolveEpcs(projectId: number, epcs: string[]): Promise<Map<string, ResolvedEpc>> {
+  const resolved = new Map<string, ResolvedEpc>();
+  const items: { epc: string; gtin: string; serial: string }[] = [];
+  const ssccs: { epc: string; sscc: string }[] = [];
+  const codes: { epc: string; codeValue: string }[] = [];
+
+  for (const epc of new Set(epcs)) {
+    const identity = parseEpc(epc);
+    if (identity?.kind === "item") items.push({ epc, gtin: identity.gtin, serial: identity.serial });
+    if (identity?.kind === "sscc") ssccs.push({ epc, sscc: identity.sscc });
+    if (identity?.kind === "code") codes.push({ epc, codeValue: identity.codeValue });
+  }
+
+  for (const chunk of chunks(items)) {
+    const assets = await db.asset.findMany({
+      where: { projectId, OR: chunk.map(({ gtin, serial }) => ({ gtin, serialNumber: serial })) },
+      select: { id: true, gtin: true, serialNumber: true },
+    });
+    for (const item of chunk) {
+      const asset = assets.find((candidate) => candidate.gtin === item.gtin && candidate.serialNumber === item.serial);
+      if (asset) resolved.set(item.epc, { assetId: asset.id, codeId: null });
+    }
+  }
+
+  for (const chunk of chunks(ssccs)) {
+    const assets = await db.asset.findMany({
+      where: { projectId, sscc: { in: chunk.map(({ sscc }) => sscc) } },
+      select: { id: true, sscc: true },
+    });
+    for (const unit of chunk) {
+      const asset = assets.find((candidate) => candidate.sscc === unit.sscc);
+      if (asset) resolved.set(unit.epc, { assetId: asset.id, codeId: null });
+    }
+  }
+
+  for (const chunk of chunks(codes)) {
+    const found = await db.optropicCode.findMany({
+      where: { projectId, codeValue: { in: chunk.map(({ codeValue }) => codeValue) } },
+      select: { id: true, codeValue: true, assetId: true },
+    });
+    for (const item of chunk) {
+      const code = found.find((candidate) => candidate.codeValue === item.codeValue);
+      if (code) resolved.set(item.epc, { assetId: code.assetId, codeId: code.id });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Mirror a captured aggregation in the packaging hierarchy: ADD packs the
+ * children into the parent, DELETE unpacks them (all of them when the
+ * event lists none)
+ */
+async function applyAggregation(
+  event: Extract<EpcisEvent, { type: "AggregationEvent" }>,
+  eventId: string,
+  resolved: Map<string, ResolvedEpc>
+): Promise<string | null> {
+  if (event.action === "OBSERVE") return null;
+
+  const parentId = event.parentID ? resolved.get(event.parentID)?.assetId : undefined;
+  const childIds = event.childEPCs
+    .map((epc) => resolved.get(epc)?.assetId)
+    .filter((id): id is number => id !== null && id !== undefined);
+
+  try {
+    if (event.action === "ADD" && parentId && childIds.length > 0) {
+      await AssetService.aggregate(parentId, childIds);
+    } else if (event.action === "DELETE" && event.childEPCs.length > 0) {
+      await AssetService.disaggregate(childIds);
+    } else if (event.action === "DELETE" && parentId) {
+      const children = await db.asset.findMany({ where: { parentId }, select: { id: true } });
+      await AssetService.disaggregate(children.map((child) => child.id));
+    }
+    return null;
+  } catch (error) {
+    return `${eventId}: ${(error as Error).message}`;
+  }
+}
+
+function eventWhere(input: ListSupplyChainEventsInput): Prisma.SupplyChainEventWhereInput {
+  const objects: Prisma.SupplyChainEventObjectWhereInput[] = [];
+  if (input.epc) objects.push({ epc: input.epc });
+  if (input.assetId !== undefined) objects.push({ assetId: input.assetId });
+
+  return {
+    projectId: input.projectId,
+    ...(input.eventType ? { eventType: input.eventType } : {}),
+    ...(input.action ? { action: input.action } : {}),
+    ...(input.bizStep ? { bizStep: normalizeCbv(input.bizStep, "bizStep") } : {}),
+    ...(input.disposition ? { disposition: normalizeCbv(input.disposition, "disposition") } : {}),
+    ...(input.readPoint ? { readPoint: input.readPoint } : {}),
+    ...(input.bizLocation ? { bizLocation: input.bizLocation } : {}),
+    ...(input.from || input.until
+      ? {
+          eventTime: {
+            ...(input.from ? { gte: new Date(input.from) } : {}),
+            ...(input.until ? { lt: new Date(input.until) } : {}),
+          },
+        }
+      : {}),
+    ...(objects.length > 0 ? { AND: objects.map((where) => ({ objects: { some: where } })) } : {}),
+  };
+}
+
+export const EpcisService = {
+  /**
+   * Store a batch of events for a project. Events already captured (same
+   * eventID) are skipped; the rest are stored together.
+   */
+  async captureEvents(projectId: number, events: EpcisEvent[], userId: number | null): Promise<CaptureResult> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, userId: true, tenantId: true },
+    });
+    if (!project) {
+      throw new Error("Project not found");
+    }
+
+    const prepared = events.map((event) => {
+      const eventId = event.eventID ?? `urn:uuid:${crypto.randomUUID()}`;
+      return { event: { ...event, eventID: eventId }, eventId, objects: eventObjects(event) };
+    });
+
+    const seen = new Set<string>();
+    for (const { eventId } of prepared) {
+      if (seen.has(eventId)) {
+        throw new Error(`Duplicate eventID in capture: ${eventId}`);
+      }
+      seen.add(eventId);
+    }
+
+    const existing = await db.supplyChainEvent.findMany({
+      where: { projectId, eventId: { in: [...seen] } },
+      select: { eventId: true },
+    });
+    const duplicates = new Set(existing.map((row) => row.eventId));
+    const fresh = prepared.filter(({ eventId }) => !duplicates.has(eventId));
+
+    const resolved = await resolveEpcs(
+      projectId,
+      fresh.flatMap(({ objects }) => objects.map((object) => object.epc))
+    );
+    const link = (object: EventObject) => ({
+      ...object,
+      assetId: resolved.get(object.epc)?.assetId ?? null,
+      codeId: resolved.get(object.epc)?.codeId ?? null,
+    });
+
+    await db.$transaction(async (tx) => {
+      for (const { event, eventId, objects } of fresh) {
+        await tx.supplyChainEvent.create({
+          data: {
+            eventId,
+            eventType: EVENT_TYPES[event.type],
+            action: event.type === "TransformationEvent" ? null : event.action,
+            eventTime: new Date(event.eventTime),
+            eventTimeZoneOffset: event.eventTimeZoneOffset,
+            bizStep: event.bizStep ? normalizeCbv(event.bizStep, "bizStep") : null,
+            disposition: event.disposition ? normalizeCbv(event.disposition, "disposition") : null,
+            readPoint: event.readPoint?.id ?? null,
+            bizLocation: event.bizLocation?.id ?? null,
+            document: event as Prisma.InputJsonObject,
+            projectId,
+            tenantId: project.tenantId ?? project.userId,
+            capturedById: userId,
+            objects: { create: objects.map(link) },
+          },
+        });
+      }
+    });
+
+    const warnings: string[] = [];
+    const aggregations = fresh
+      .filter(({ event }) => event.type === "AggregationEvent")
+      .sort((a, b) => new Date(a.event.eventTime).getTime() - new Date(b.event.eventTime).getTime());
+    for (const { event, eventId } of aggregations) {
+      if (event.type !== "AggregationEvent") continue;
+      const warning = await applyAggregation(event, eventId, resolved);
+      if (warning) warnings.push(warning);
+    }
+
+    return {
+      captured: fresh.map(({ eventId }) => eventId),
+      duplicates: [...duplicates],
+      warnings,
+    };
+  },
+
+  /**
+   * Query a project's events, latest first
+   */
+  async queryEvents(input: ListSupplyChainEventsInput): Promise<{ events: SupplyChainEventDTO[]; total: number }> {
+    const where = eventWhere(input);
+
+    const [events, total] = await Promise.all([
+      db.supplyChainEvent.findMany({
+        where,
+        include: { objects: true },
+        orderBy: [{ eventTime: "desc" }, { id: "desc" }],
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.supplyChainEvent.count({ where }),
+    ]);
+
+    return { events: events.map(toEventDTO), total };
+  },
+
+  /**
+   * Query events in their JSON-LD form, as captured plus recordTime
+   */
+  async queryDocuments(input: ListSupplyChainEventsInput): Promise<{ eventList: unknown[]; total: number }> {
+    const where = eventWhere(input);
+
+    const [events, total] = await Promise.all([
+      db.supplyChainEvent.findMany({
+        where,
+        select: { document: true, createdAt: true },
+        orderBy: [{ eventTime: "desc" }, { id: "desc" }],
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.supplyChainEvent.count({ where }),
+    ]);
+
+    return {
+      eventList: events.map((event) => ({
+        ...(event.document as Prisma.JsonObject),
+        recordTime: event.createdAt.toISOString(),
+      })),
+      total,
+    };
+  },
+
+  /**
+   * An asset's events in time order with custody after each. Events on
+   * the cases and pallets it is packed in count from when it was packed.
+   */
+  async getCustodyTimeline(assetId: number): Promise<CustodyStep[]> {
+    const asset = await db.asset.findUnique({
+      where: { id: assetId },
+      select: { id: true, parentId: true, aggregatedAt: true },
+    });
+    if (!asset) {
+      throw new Error("Asset not found");
+    }
+
+    // Ancestors and the time the asset has been inside each
+    const units: { id: number; assetName: string; sscc: string | null; since: Date }[] = [];
+    let since = asset.aggregatedAt;
+    let parentId = asset.parentId;
+    while (parentId !== null && since !== null && units.length < CUSTODY_DEPTH) {
+      const parent = await db.asset.findUnique({
+        where: { id: parentId },
+        select: { id: true, assetName: true, sscc: true, parentId: true, aggregatedAt: true },
+      });
+      if (!parent) break;
+
+      units.push({ id: parent.id, assetName: parent.assetName, sscc: parent.sscc, since });
+      since = parent.aggregatedAt && parent.aggregatedAt > since ? parent.aggregatedAt : since;
+      if (parent.aggregatedAt === null) break;
+      parentId = parent.parentId;
+    }
+
+    const objects = await db.supplyChainEventObject.findMany({
+      where: {
+        OR: [
+          { assetId: asset.id },
+          ...units.map((unit) => ({ assetId: unit.id, event: { eventTime: { gte: unit.since } } })),
+        ],
+      },
+      include: { event: true },
+      orderBy: { event: { eventTime: "desc" } },
+      take: CUSTODY_EVENT_LIMIT,
+    });
+
+    // One entry per event; naming the asset itself wins over its unit
+    const byEvent = new Map<number, CustodyEvent>();
+    for (const object of objects) {
+      const current = byEvent.get(object.eventId);
+      if (current && current.via === null) continue;
+
+      const unit = object.assetId === asset.id ? undefined : units.find((candidate) => candidate.id === object.assetId);
+      const event = object.event;
+      byEvent.set(object.eventId, {
+        eventId: event.eventId,
+        eventType: event.eventType,
+        action: event.action,
+        eventTime: event.eventTime,
+        eventTimeZoneOffset: event.eventTimeZoneOffset,
+        bizStep: event.bizStep,
+        disposition: event.disposition,
+        readPoint: event.readPoint,
+        bizLocation: event.bizLocation,
+        role: object.role,
+        via: unit ? { assetId: unit.id, assetName: unit.assetName, sscc: unit.sscc } : null,
+        document: event.document,
+      });
+    }
+
+    return buildCustodyTimeline([...byEvent.values()]);
+  },
+};
+
+/**
+ * Wrap events in an EPCIS 2.0 query document
+ */
+export function toQueryDocument(eventList: unknown[]) {
+  return {
+    "@context": [EPCIS_CONTEXT],
+    type: "EPCISQueryDocument",
+    schemaVersion: "2.0",
+    creationDate: new Date().toISOString(),
+    epcisBody: {
+      queryResults: {
+        queryName: "SimpleEventQuery",
+        resultsBody: { eventList },
+      },
+    },
+  };
+}
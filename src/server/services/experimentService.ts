@@ -0,0 +1,357 @@
+/**
+ * Optropic Platform – Experiment Service
+ * --------------------------------------
+ * Responsibilities:
+ *  - Create, start and stop A/B and multivariate experiments on CAMPAIGN
+ *    content (one running experiment per content item)
+ *  - Tag a scan with the variant it was served and hand out its
+ *    conversion token; record conversions from the callback pixel
+ *  - Compute per-variant results and significance from the scans
+ *  - Promote a winner: the content's URL becomes the winning destination
+ *    (as a new content version) and the experiment completes
+ */
+
+import type { Prisma } from "@prisma/client";
+import {
+  ExperimentVariantSchema,
+  type CreateExperimentInput,
+  type ExperimentStatus,
+  type ExperimentVariant,
+  type UpdateExperimentInput,
+} from "@optropic/shared";
+import { z } from "zod";
+import { db } from "../db";
+import { env } from "../env";
+import {
+  analyzeExperiment,
+  signConversionToken,
+  verifyConversionToken,
+  withConversionToken,
+  type ExperimentAnalysis,
+} from "../utils/experiments";
+import { ContentService } from "./contentService";
+
+export interface ExperimentDTO {
+  id: number;
+  name: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  confidenceLevel: number;
+  minSamplesPerVariant: number;
+  autoPromote: boolean;
+  winnerKey: string | null;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  contentId: number;
+  projectId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExperimentResults extends ExperimentAnalysis {
+  experimentId: number;
+  status: ExperimentStatus;
+  winnerKey: string | null;
+}
+
+type ExperimentRow = Prisma.ExperimentGetPayload<object>;
+
+const StoredVariantsSchema = z.array(ExperimentVariantSchema).min(1);
+
+/**
+ * Validate stored variants; throws on malformed JSON
+ */
+export function parseVariants(value: Prisma.JsonValue): ExperimentVariant[] {
+  const parsed = StoredVariantsSchema.safeParse(value);
+  if (!parsed.success) {
+    throw new Error(`Invalid experiment variants: ${parsed.error.issues[0]?.message ?? "unknown error"}`);
+  }
+  return parsed.data;
+}
+
+function toExperimentDTO(experiment: ExperimentRow): ExperimentDTO {
+  return {
+    id: experiment.id,
+    name: experiment.name,
+    status: experiment.status,
+    variants: parseVariants(experiment.variants),
+    confidenceLevel: experiment.confidenceLevel,
+    minSamplesPerVariant: experiment.minSamplesPerVariant,
+    autoPromote: experiment.autoPromote,
+    winnerKey: experiment.winnerKey,
+    startedAt: experiment.startedAt,
+    endedAt: experiment.endedAt,
+    contentId: experiment.contentId,
+    projectId: experiment.projectId,
+    createdAt: experiment.createdAt,
+    updatedAt: experiment.updatedAt,
+  };
+}
+
+async function getRow(experimentId: number): Promise<ExperimentRow> {
+  const experiment = await db.experiment.findUnique({ where: { id: experimentId } });
+  if (!experiment) {
+    throw new Error("Experiment not found");
+  }
+  return experiment;
+}
+
+/**
+ * Move an experiment out of `from`; false when another request already did
+ */
+async function transition(
+  experimentId: number,
+  from: ExperimentStatus,
+  data: Prisma.ExperimentUpdateManyMutationInput
+): Promise<boolean> {
+  const { count } = await db.experiment.updateMany({
+    where: { id: experimentId, status: from },
+    data,
+  });
+  return count === 1;
+}
+
+export const ExperimentService = {
+  /**
+   * Create a draft experiment on a CAMPAIGN content item
+   */
+  async createExperiment(input: CreateExperimentInput): Promise<ExperimentDTO> {
+    const content = await db.content.findUnique({
+      where: { id: input.contentId },
+      select: { id: true, contentType: true, isActive: true, projectId: true, tenantId: true },
+    });
+
+    if (!content || !content.isActive) {
+      throw new Error("Content not found or archived");
+    }
+    if (content.contentType !== "CAMPAIGN") {
+      throw new Error("Experiments can only run on CAMPAIGN content");
+    }
+
+    const experiment = await db.experiment.create({
+      data: {
+        name: input.name,
+        variants: input.variants,
+        confidenceLevel: input.confidenceLevel,
+        minSamplesPerVariant: input.minSamplesPerVariant,
+        autoPromote: input.autoPromote,
+        contentId: content.id,
+        projectId: content.projectId,
+        tenantId: content.tenantId,
+      },
+    });
+
+    return toExperimentDTO(experiment);
+  },
+
+  /**
+   * Edit an experiment. Variants are fixed once traffic has been split.
+   */
+  async updateExperiment(input: UpdateExperimentInput): Promise<ExperimentDTO> {
+    const current = await getRow(input.experimentId);
+
+    if (current.status === "COMPLETED" || current.status === "STOPPED") {
+      throw new Error("Finished experiments cannot be edited");
+    }
+    if (input.variants && current.status !== "DRAFT") {
+      throw new Error("Variants can only be changed while the experiment is a draft");
+    }
+
+    const experiment = await db.experiment.update({
+      where: { id: current.id },
+      data: {
+        name: input.name,
+        variants: input.variants,
+        confidenceLevel: input.confidenceLevel,
+        minSamplesPerVariant: input.minSamplesPerVariant,
+        autoPromote: input.autoPromote,
+      },
+    });
+
+    return toExperimentDTO(experiment);
+  },
+
+  /**
+   * Start splitting traffic
+   */
+  async startExperiment(experimentId: number): Promise<ExperimentDTO> {
+    const current = await getRow(experimentId);
+
+    const running = await db.experiment.findFirst({
+      where: { contentId: current.contentId, status: "RUNNING", id: { not: current.id } },
+      select: { id: true },
+    });
+    if (running) {
+      throw new Error("Another experiment is already running on this content");
+    }
+
+    if (!(await transition(current.id, "DRAFT", { status: "RUNNING", startedAt: new Date() }))) {
+      throw new Error("Only draft experiments can be started");
+    }
+
+    return toExperimentDTO(await getRow(current.id));
+  },
+
+  /**
+   * Stop without a winner; the content's own URL serves again
+   */
+  async stopExperiment(experimentId: number): Promise<ExperimentDTO> {
+    if (!(await transition(experimentId, "RUNNING", { status: "STOPPED", endedAt: new Date() }))) {
+      throw new Error("Only running experiments can be stopped");
+    }
+
+    return toExperimentDTO(await getRow(experimentId));
+  },
+
+  async getExperiment(experimentId: number): Promise<ExperimentDTO> {
+    return toExperimentDTO(await getRow(experimentId));
+  },
+
+  /**
+   * List experiments for a project, newest first
+   */
+  async listExperiments(projectId: number, status?: ExperimentStatus): Promise<ExperimentDTO[]> {
+    const experiments = await db.experiment.findMany({
+      where: { projectId, ...(status ? { status } : {}) },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return experiments.map(toExperimentDTO);
+  },
+
+  /**
+   * Record the variant served for a scan and return the destination,
+   * carrying the scan's conversion token
+   */
+  async recordExposure(
+    exposure: { experimentId: number; variantKey: string; location: string },
+    scanId: number | undefined
+  ): Promise<string> {
+    if (scanId === undefined) return exposure.location;
+
+    await db.scan.update({
+      where: { id: scanId },
+      data: { experimentId: exposure.experimentId, variantKey: exposure.variantKey },
+    });
+
+    return withConversionToken(exposure.location, signConversionToken(scanId, env.SECRET_KEY));
+  },
+
+  /**
+   * Record a conversion from the callback pixel. Each scan converts once;
+   * returns false for invalid tokens and repeats.
+   */
+  async recordConversion(token: string): Promise<boolean> {
+    const scanId = verifyConversionToken(token, env.SECRET_KEY);
+    if (scanId === null) return false;
+
+    const { count } = await db.scan.updateMany({
+      where: { id: scanId, experimentId: { not: null }, convertedAt: null },
+      data: { convertedAt: new Date() },
+    });
+
+    return count === 1;
+  },
+
+  /**
+   * Exposures, conversions and significance per variant
+   */
+  async getResults(experimentId: number): Promise<ExperimentResults> {
+    const experiment = toExperimentDTO(await getRow(experimentId));
+
+    const [exposures, conversions] = await Promise.all([
+      db.scan.groupBy({
+        by: ["variantKey"],
+        where: { experimentId },
+        _count: { _all: true },
+      }),
+      db.scan.groupBy({
+        by: ["variantKey"],
+        where: { experimentId, convertedAt: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countFor = (rows: typeof exposures, key: string) =>
+      rows.find((row) => row.variantKey === key)?._count._all ?? 0;
+
+    const analysis = analyzeExperiment(
+      experiment.variants.map((variant) => ({
+        key: variant.key,
+        exposures: countFor(exposures, variant.key),
+        conversions: countFor(conversions, variant.key),
+      })),
+      experiment
+    );
+
+    return {
+      ...analysis,
+      experimentId: experiment.id,
+      status: experiment.status,
+      winnerKey: experiment.winnerKey,
+    };
+  },
+
+  /**
+   * Complete a running experiment with a winner and point the content at
+   * the winning destination
+   */
+  async promoteVariant(experimentId: number, variantKey: string, userId: number | null): Promise<ExperimentDTO> {
+    const experiment = toExperimentDTO(await getRow(experimentId));
+    const winner = experiment.variants.find((variant) => variant.key === variantKey);
+    if (!winner) {
+      throw new Error(`Unknown variant: ${variantKey}`);
+    }
+
+    if (
+      !(await transition(experiment.id, "RUNNING", {
+        status: "COMPLETED",
+        winnerKey: winner.key,
+        endedAt: new Date(),
+      }))
+    ) {
+      throw new Error("Only running experiments can be promoted");
+    }
+
+    await ContentService.updateContent({ contentId: experiment.contentId, url: winner.url }, userId);
+
+    return toExperimentDTO(await getRow(experiment.id));
+  },
+
+  /**
+   * Promote the leader of every auto-promoting experiment that reached its
+   * confidence level. Returns the number promoted.
+   */
+  async promoteSignificantWinners(): Promise<number> {
+    const running = await db.experiment.findMany({
+      where: { status: "RUNNING", autoPromote: true },
+      select: { id: true, content: { select: { project: { select: { userId: true, tenantId: true } } } } },
+    });
+
+    let promoted = 0;
+    for (const experiment of running) {
+      const results = await this.getResults(experiment.id);
+      if (!results.significant || !results.leader) continue;
+
+      await this.promoteVariant(experiment.id, results.leader, null);
+      await db.activityLog.create({
+        data: {
+          action: "EXPERIMENT_PROMOTED",
+          entityType: "Experiment",
+          entityId: experiment.id,
+          newValues: {
+            winnerKey: results.leader,
+            confidence: results.confidence,
+            automatic: true,
+          },
+          // Logged against the project owner
+          userId: experiment.content.project.userId,
+          tenantId: experiment.content.project.tenantId,
+        },
+      });
+      promoted++;
+    }
+
+    return promoted;
+  },
+};
@@ -0,0 +1,493 @@
+/**
+ * Optropic Platform – Code Export Service
+ * ---------------------------------------
+ * Responsibilities:
+ *  - Export code manifests as CSV or JSONL
+ *  - Export QR symbols as a ZIP of SVG or PNG files
+ *  - Export printable PDF label sheets with configurable layout
+ *  - Filter by batch, asset and creation date
+ *  - Stream output to the optropic-exports bucket and hand out signed URLs
+ */
+
+import { Readable } from "stream";
+import type { Prisma } from "@prisma/client";
+import { db } from "../db";
+import { minioClient } from "../minio";
+import { NotificationService } from "./notificationService";
+import {
+  encodeQR,
+  renderQRCodePNG,
+  renderQRCodeSVG,
+  type QRErrorCorrectionLevel,
+} from "../utils/qrEncoder";
+import { ZipWriter, ZIP_MAX_ENTRIES } from "../utils/zipWriter";
+import { renderLabelSheetPDF, type LabelSheetLayout } from "../utils/pdfLabelSheet";
+import { logger, logError } from "../utils/logger";
+
+export const EXPORT_BUCKET = "optropic-exports";
+export const DEFAULT_DOWNLOAD_EXPIRY_SECONDS = 15 * 60;
+const PAGE_SIZE = 1000;
+
+/**
+ * One archive entry per code plus the manifest
+ */
+export const MAX_SYMBOL_EXPORT_CODES = ZIP_MAX_ENTRIES - 1;
+
+export type CodeExportFormat = "CSV" | "JSONL" | "ZIP_SVG" | "ZIP_PNG" | "PDF_LABELS";
+export type CodeExportStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export interface CodeExportFilters {
+  batchId?: number;
+  assetId?: number;
+  createdFrom?: Date | string;
+  createdTo?: Date | string;
+  includeRevoked?: boolean;
+}
+
+export interface CodeExportOptions {
+  errorCorrection?: QRErrorCorrectionLevel;
+  quietZone?: number;
+  /** SVG width/height in pixels */
+  svgSize?: number;
+  /** PNG pixels per module */
+  pngScale?: number;
+  /** Text printed under each label */
+  caption?: "serial" | "codeValue" | "none";
+  layout?: Partial<LabelSheetLayout>;
+}
+
+export interface CreateExportInput {
+  projectId: number;
+  format: CodeExportFormat;
+  filters?: CodeExportFilters;
+  options?: CodeExportOptions;
+}
+
+export interface CodeExportDTO {
+  id: number;
+  projectId: number;
+  format: CodeExportFormat;
+  status: CodeExportStatus;
+  filters: CodeExportFilters;
+  codeCount: number;
+  fileSize: number | null;
+  fileName: string;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export interface ManifestRow {
+  id: number;
+  codeValue: string;
+  serial: number | null;
+  batchId: number | null;
+  assetId: number | null;
+  codeType: string;
+  encryptionLevel: string;
+  isActive: boolean;
+  createdAt: string;
+  gs1DigitalLink: string | null;
+}
+
+type ExportCode = Awaited<ReturnType<typeof fetchPage>>[number];
+
+const MANIFEST_COLUMNS: (keyof ManifestRow)[] = [
+  "id",
+  "codeValue",
+  "serial",
+  "batchId",
+  "assetId",
+  "codeType",
+  "encryptionLevel",
+  "isActive",
+  "createdAt",
+  "gs1DigitalLink",
+];
+
+const FORMAT_FILES: Record<CodeExportFormat, { extension: string; mimeType: string }> = {
+  CSV: { extension: "csv", mimeType: "text/csv" },
+  JSONL: { extension: "jsonl", mimeType: "application/x-ndjson" },
+  ZIP_SVG: { extension: "zip", mimeType: "application/zip" },
+  ZIP_PNG: { extension: "zip", mimeType: "application/zip" },
+  PDF_LABELS: { extension: "pdf", mimeType: "application/pdf" },
+};
+
+function exportFileName(exportId: number, format: CodeExportFormat): string {
+  const suffix = format === "ZIP_SVG" ? "-svg" : format === "ZIP_PNG" ? "-png" : "";
+  return `codes-export-${exportId}${suffix}.${FORMAT_FILES[format].extension}`;
+}
+
+function buildWhere(projectId: number, filters: CodeExportFilters) {
+  return {
+    projectId,
+    ...(filters.batchId !== undefined && { batchId: filters.batchId }),
+    ...(filters.assetId !== undefined && { assetId: filters.assetId }),
+    ...(!filters.includeRevoked && { isActive: true }),
+    ...((filters.createdFrom || filters.createdTo) && {
+      createdAt: {
+        ...(filters.createdFrom && { gte: new Date(filters.createdFrom) }),
+        ...(filters.createdTo && { lte: new Date(filters.createdTo) }),
+      },
+    }),
+  };
+}
+
+function fetchPage(where: ReturnType<typeof buildWhere>, afterId: number) {
+  return db.optropicCode.findMany({
+    where: { ...where, id: { gt: afterId } },
+    orderBy: { id: "asc" },
+    take: PAGE_SIZE,
+    select: {
+      id: true,
+      codeValue: true,
+      codeType: true,
+      encryptionLevel: true,
+      isActive: true,
+      createdAt: true,
+      gs1DigitalLink: true,
+      payload: true,
+      batchId: true,
+      assetId: true,
+    },
+  });
+}
+
+/**
+ * Walk matching codes in id order without loading them all at once
+ */
+async function* iterateCodes(where: ReturnType<typeof buildWhere>): AsyncGenerator<ExportCode> {
+  let afterId = 0;
+  for (;;) {
+    const page = await fetchPage(where, afterId);
+    if (page.length === 0) return;
+    yield* page;
+    afterId = page[page.length - 1]!.id;
+  }
+}
+
+export function toManifestRow(code: ExportCode): ManifestRow {
+  const metadata = (code.payload as { metadata?: { serial?: unknown } } | null)?.metadata;
+  return {
+    id: code.id,
+    codeValue: code.codeValue,
+    serial: typeof metadata?.serial === "number" ? metadata.serial : null,
+    batchId: code.batchId,
+    assetId: code.assetId,
+    codeType: code.codeType,
+    encryptionLevel: code.encryptionLevel,
+    isActive: code.isActive,
+    createdAt: code.createdAt.toISOString(),
+    gs1DigitalLink: code.gs1DigitalLink,
+  };
+}
+
+function csvValue(value: ManifestRow[keyof ManifestRow]): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(row: ManifestRow): string {
+  return MANIFEST_COLUMNS.map((column) => csvValue(row[column])).join(",") + "\r\n";
+}
+
+export const CSV_HEADER = MANIFEST_COLUMNS.join(",") + "\r\n";
+
+function symbolEntryName(code: ExportCode, extension: string): string {
+  const row = toManifestRow(code);
+  const stem = row.serial !== null && row.batchId !== null
+    ? `batch-${row.batchId}/${String(row.serial).padStart(7, "0")}`
+    : `code-${code.id}`;
+  return `symbols/${stem}.${extension}`;
+}
+
+function labelCaption(code: ExportCode, caption: CodeExportOptions["caption"]): string | undefined {
+  if (caption === "none") return undefined;
+  const row = toManifestRow(code);
+  if (caption === "codeValue" || row.serial === null) return code.codeValue;
+  return `#${row.serial}`;
+}
+
+async function* manifestStream(
+  codes: AsyncIterable<ExportCode>,
+  format: "CSV" | "JSONL"
+): AsyncGenerator<Buffer> {
+  if (format === "CSV") {
+    yield Buffer.from(CSV_HEADER);
+  }
+  for await (const code of codes) {
+    const row = toManifestRow(code);
+    yield Buffer.from(format === "CSV" ? toCsvLine(row) : JSON.stringify(row) + "\n");
+  }
+}
+
+async function* symbolArchiveStream(
+  codes: AsyncIterable<ExportCode>,
+  format: "ZIP_SVG" | "ZIP_PNG",
+  options: CodeExportOptions
+): AsyncGenerator<Buffer> {
+  const zip = new ZipWriter();
+  const manifest = [CSV_HEADER];
+  const extension = format === "ZIP_SVG" ? "svg" : "png";
+
+  for await (const code of codes) {
+    const matrix = encodeQR(code.codeValue, { errorCorrection: options.errorCorrection ?? "M" });
+    const name = symbolEntryName(code, extension);
+
+    if (format === "ZIP_SVG") {
+      const svg = renderQRCodeSVG(matrix, { quietZone: options.quietZone, size: options.svgSize });
+      yield zip.addFile(name, Buffer.from(svg));
+    } else {
+      // PNG data is already deflated
+      const png = renderQRCodePNG(matrix, { quietZone: options.quietZone, scale: options.pngScale });
+      yield zip.addFile(name, png, { compress: false });
+    }
+
+    manifest.push(toCsvLine(toManifestRow(code)));
+  }
+
+  yield zip.addFile("manifest.csv", Buffer.from(manifest.join("")));
+  yield zip.finish();
+}
+
+function labelSheetStream(
+  codes: AsyncIterable<ExportCode>,
+  options: CodeExportOptions
+): AsyncGenerator<Buffer> {
+  async function* items() {
+    for await (const code of codes) {
+      yield { data: code.codeValue, caption: labelCaption(code, options.caption) };
+    }
+  }
+
+  return renderLabelSheetPDF(items(), {
+    ...options.layout,
+    ...(options.errorCorrection && { errorCorrection: options.errorCorrection }),
+    ...(options.quietZone !== undefined && { quietZone: options.quietZone }),
+  });
+}
+
+function toDTO(record: {
+  id: number;
+  projectId: number;
+  format: string;
+  status: string;
+  filters: unknown;
+  codeCount: number;
+  fileSize: number | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}): CodeExportDTO {
+  return {
+    id: record.id,
+    projectId: record.projectId,
+    format: record.format as CodeExportFormat,
+    status: record.status as CodeExportStatus,
+    filters: (record.filters ?? {}) as CodeExportFilters,
+    codeCount: record.codeCount,
+    fileSize: record.fileSize,
+    fileName: exportFileName(record.id, record.format as CodeExportFormat),
+    errorMessage: record.errorMessage,
+    createdAt: record.createdAt,
+    completedAt: record.completedAt,
+  };
+}
+
+export const ExportService = {
+  /**
+   * Persist a new export job in PENDING state
+   */
+  async createExport(input: CreateExportInput, requestedById: number): Promise<CodeExportDTO> {
+    const filters = input.filters || {};
+
+    if (filters.createdFrom && filters.createdTo &&
+        new Date(filters.createdFrom) > new Date(filters.createdTo)) {
+      throw new Error("createdFrom must be before createdTo");
+    }
+
+    if (filters.batchId !== undefined) {
+      const batch = await db.codeBatch.findUnique({ where: { id: filters.batchId } });
+      if (!batch || batch.projectId !== input.projectId) {
+        throw new Error("Batch not found in this project");
+      }
+    }
+
+    const record = await db.codeExport.create({
+      data: {
+        projectId: input.projectId,
+        requestedById,
+        format: input.format,
+        filters: filters as Prisma.InputJsonValue,
+        options: (input.options || {}) as Prisma.InputJsonValue,
+        status: "PENDING",
+      },
+    });
+
+    return toDTO(record);
+  },
+
+  /**
+   * Start generating an export in the background
+   */
+  start(exportId: number): void {
+    this.runExport(exportId).catch((err) => logError(err, { exportId }));
+  },
+
+  /**
+   * Generate the export file and upload it to MinIO
+   */
+  async runExport(exportId: number): Promise<CodeExportDTO> {
+    try {
+      const record = await db.codeExport.findUnique({ where: { id: exportId } });
+
+      if (!record) {
+        throw new Error("Export not found");
+      }
+
+      const format = record.format as CodeExportFormat;
+      const filters = (record.filters ?? {}) as CodeExportFilters;
+      const options = (record.options ?? {}) as CodeExportOptions;
+      const where = buildWhere(record.projectId, filters);
+
+      const codeCount = await db.optropicCode.count({ where });
+
+      if ((format === "ZIP_SVG" || format === "ZIP_PNG") && codeCount > MAX_SYMBOL_EXPORT_CODES) {
+        return await this.failExport(
+          exportId,
+          `Symbol archives are limited to ${MAX_SYMBOL_EXPORT_CODES} codes; narrow the filters or use PDF_LABELS`
+        );
+      }
+
+      await db.codeExport.update({
+        where: { id: exportId },
+        data: { status: "RUNNING", codeCount, errorMessage: null },
+      });
+
+      logger.info({ exportId, format, codeCount }, "Code export started");
+
+      const codes = iterateCodes(where);
+      const source =
+        format === "CSV" || format === "JSONL"
+          ? manifestStream(codes, format)
+          : format === "PDF_LABELS"
+            ? labelSheetStream(codes, options)
+            : symbolArchiveStream(codes, format, options);
+
+      let fileSize = 0;
+      async function* counted() {
+        for await (const chunk of source) {
+          fileSize += chunk.length;
+          yield chunk;
+        }
+      }
+
+      const objectKey = `projects/${record.projectId}/exports/${exportFileName(exportId, format)}`;
+      await minioClient.putObject(EXPORT_BUCKET, objectKey, Readable.from(counted()), undefined, {
+        "Content-Type": FORMAT_FILES[format].mimeType,
+      });
+
+      const completed = await db.codeExport.update({
+        where: { id: exportId },
+        data: {
+          status: "COMPLETED",
+          objectKey,
+          fileSize,
+          completedAt: new Date(),
+        },
+      });
+
+      logger.info({ exportId, objectKey, fileSize }, "Code export completed");
+
+      await NotificationService.create({
+        userId: record.requestedById,
+        type: "SUCCESS",
+        title: "Code Export Ready",
+        message: `Export #${exportId} (${format}) with ${codeCount.toLocaleString()} codes is ready to download.`,
+        metadata: {
+          exportId,
+          projectId: record.projectId,
+          format,
+        },
+        link: `/projects/${record.projectId}`,
+      }).catch((err) => logError(err, { exportId }));
+
+      return toDTO(completed);
+    } catch (error) {
+      logError(error, { exportId });
+      return await this.failExport(
+        exportId,
+        error instanceof Error ? error.message : "Export failed"
+      );
+    }
+  },
+
+  /**
+   * Mark an export as failed
+   */
+  async failExport(exportId: number, message: string): Promise<CodeExportDTO> {
+    const failed = await db.codeExport.update({
+      where: { id: exportId },
+      data: {
+        status: "FAILED",
+        errorMessage: message,
+      },
+    });
+    return toDTO(failed);
+  },
+
+  /**
+   * Get a short-lived signed download URL for a completed export
+   */
+  async getDownloadUrl(
+    exportId: number,
+    expirySeconds: number = DEFAULT_DOWNLOAD_EXPIRY_SECONDS
+  ): Promise<{ url: string; fileName: string; expiresAt: Date }> {
+    const record = await db.codeExport.findUnique({ where: { id: exportId } });
+
+    if (!record) {
+      throw new Error("Export not found");
+    }
+
+    if (record.status !== "COMPLETED" || !record.objectKey) {
+      throw new Error("Export is not ready for download");
+    }
+
+    const fileName = exportFileName(record.id, record.format as CodeExportFormat);
+    const url = await minioClient.presignedGetObject(EXPORT_BUCKET, record.objectKey, expirySeconds, {
+      "response-content-disposition": `attachment; filename="${fileName}"`,
+    });
+
+    return {
+      url,
+      fileName,
+      expiresAt: new Date(Date.now() + expirySeconds * 1000),
+    };
+  },
+
+  /**
+   * Get a single export
+   */
+  async getExport(exportId: number): Promise<CodeExportDTO> {
+    const record = await db.codeExport.findUnique({ where: { id: exportId } });
+
+    if (!record) {
+      throw new Error("Export not found");
+    }
+
+    return toDTO(record);
+  },
+
+  /**
+   * List exports for a project
+   */
+  async listExports(projectId: number): Promise<CodeExportDTO[]> {
+    const records = await db.codeExport.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return records.map(toDTO);
+  },
+};
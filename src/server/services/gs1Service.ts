@@ -0,0 +1,204 @@
+/**
+ * Optropic Platform – GS1 Digital Link Service
+ * --------------------------------------------
+ * Responsibilities:
+ *  - Build Digital Link URIs for assets (GTIN, lot, serial, expiry)
+ *  - Resolve Digital Link identifiers to the owning project's content
+ *  - Shape resolver answers: linkset JSON or a redirect to one link type
+ */
+
+import { db } from "../db";
+import { env } from "../env";
+import { buildDigitalLink, toGs1Date, type Gs1Identifiers } from "../utils/gs1DigitalLink";
+
+export const GS1_VOCABULARY = "https://gs1.org/voc/";
+export const DEFAULT_LINK_TYPE = "gs1:defaultLink";
+
+/** Link type served by content without an explicit gs1LinkType */
+const LINK_TYPE_BY_CONTENT: Record<string, string> = {
+  URL_REDIRECT: "gs1:pip",
+  LANDING_PAGE: "gs1:pip",
+  PDF_DOCUMENT: "gs1:instructions",
+  IMAGE: "gs1:relatedImage",
+  VIDEO: "gs1:relatedVideo",
+  CAMPAIGN: "gs1:promotion",
+};
+
+export interface ResolvedLink {
+  linkType: string;
+  href: string;
+  title: string;
+  type?: string;
+}
+
+export interface ResolvedIdentifiers {
+  /** Canonical Digital Link for the request */
+  anchor: string;
+  projectId: number;
+  links: ResolvedLink[];
+}
+
+export type ResolverAnswer =
+  | { kind: "linkset"; body: { linkset: Record<string, unknown>[] } }
+  | { kind: "redirect"; location: string; linkType: string }
+  | { kind: "notFound"; message: string };
+
+/**
+ * Domain Digital Links are issued on
+ */
+export function resolverBaseUrl(): string {
+  return env.GS1_DIGITAL_LINK_BASE_URL ?? env.BASE_URL ?? "http://localhost:3000";
+}
+
+/**
+ * Expand a "gs1:" CURIE to the vocabulary URI used as linkset relation
+ */
+export function linkTypeUri(linkType: string): string {
+  return linkType.startsWith("gs1:") ? `${GS1_VOCABULARY}${linkType.slice(4)}` : linkType;
+}
+
+/**
+ * Accept link types as CURIEs or vocabulary URIs
+ */
+export function normalizeLinkType(linkType: string): string {
+  return linkType.startsWith(GS1_VOCABULARY) ? `gs1:${linkType.slice(GS1_VOCABULARY.length)}` : linkType;
+}
+
+/**
+ * Default link: explicit gs1:defaultLink, then the product information page,
+ * then the first link
+ */
+export function defaultLink(links: ResolvedLink[]): ResolvedLink | undefined {
+  return (
+    links.find((link) => link.linkType === DEFAULT_LINK_TYPE) ??
+    links.find((link) => link.linkType === "gs1:pip") ??
+    links[0]
+  );
+}
+
+/**
+ * RFC 9264 linkset for a resolved identifier
+ */
+export function buildLinkset(resolved: ResolvedIdentifiers): { linkset: Record<string, unknown>[] } {
+  const entry: Record<string, unknown> = { anchor: resolved.anchor };
+  const fallback = defaultLink(resolved.links);
+
+  const grouped = new Map<string, ResolvedLink[]>();
+  if (fallback && fallback.linkType !== DEFAULT_LINK_TYPE) {
+    grouped.set(DEFAULT_LINK_TYPE, [fallback]);
+  }
+  for (const link of resolved.links) {
+    grouped.set(link.linkType, [...(grouped.get(link.linkType) ?? []), link]);
+  }
+
+  for (const [linkType, links] of grouped) {
+    entry[linkTypeUri(linkType)] = links.map((link) => ({
+      href: link.href,
+      title: link.title,
+      ...(link.type ? { type: link.type } : {}),
+    }));
+  }
+
+  return { linkset: [entry] };
+}
+
+/**
+ * Answer a resolver request: "all" (or a linkset Accept header) returns the
+ * linkset, otherwise redirect to the requested link type, falling back to
+ * the default link
+ */
+export function answerResolverRequest(
+  resolved: ResolvedIdentifiers | null,
+  options: { linkType?: string | null; acceptLinkset?: boolean } = {}
+): ResolverAnswer {
+  if (!resolved) {
+    return { kind: "notFound", message: "No product registered for this identifier" };
+  }
+
+  const requested = options.linkType ? normalizeLinkType(options.linkType) : null;
+  if (requested === "all" || (!requested && options.acceptLinkset)) {
+    return { kind: "linkset", body: buildLinkset(resolved) };
+  }
+
+  const link =
+    (requested && resolved.links.find((candidate) => candidate.linkType === requested)) ||
+    defaultLink(resolved.links);
+
+  if (!link) {
+    return { kind: "notFound", message: "No content published for this identifier" };
+  }
+
+  return { kind: "redirect", location: link.href, linkType: link.linkType };
+}
+
+export const Gs1Service = {
+  /**
+   * Digital Link for an asset, or null when it has no GTIN
+   */
+  linkForAsset(asset: {
+    gtin: string | null;
+    batchNumber: string | null;
+    serialNumber: string | null;
+    expiryDate: Date | null;
+  }): string | null {
+    if (!asset.gtin) return null;
+
+    return buildDigitalLink(
+      {
+        gtin: asset.gtin,
+        lot: asset.batchNumber ?? undefined,
+        serial: asset.serialNumber ?? undefined,
+        expiry: asset.expiryDate ? toGs1Date(asset.expiryDate) : undefined,
+      },
+      resolverBaseUrl()
+    );
+  },
+
+  /**
+   * Find the asset for an identifier (most specific match first) and the
+   * active content of its project
+   */
+  async resolve(ids: Gs1Identifiers): Promise<ResolvedIdentifiers | null> {
+    const candidates = [
+      ids.serial !== undefined ? { gtin: ids.gtin, serialNumber: ids.serial } : null,
+      ids.lot !== undefined ? { gtin: ids.gtin, batchNumber: ids.lot } : null,
+      { gtin: ids.gtin },
+    ].filter((where) => where !== null);
+
+    let asset: { projectId: number } | null = null;
+    for (const where of candidates) {
+      asset = await db.asset.findFirst({
+        where,
+        orderBy: { createdAt: "desc" },
+        select: { projectId: true },
+      });
+      if (asset) break;
+    }
+
+    if (!asset) return null;
+
+    const contents = await db.content.findMany({
+      where: { projectId: asset.projectId, isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    const links: ResolvedLink[] = contents.flatMap((content) => {
+      const href = content.url ?? content.fileUrl;
+      if (!href) return [];
+      return [
+        {
+          linkType: normalizeLinkType(content.gs1LinkType ?? LINK_TYPE_BY_CONTENT[content.contentType] ?? "gs1:pip"),
+          href,
+          title: content.title,
+          ...(content.mimeType ? { type: content.mimeType } : {}),
+        },
+      ];
+    });
+
+    return {
+      anchor: buildDigitalLink({ gtin: ids.gtin, lot: ids.lot, serial: ids.serial }, resolverBaseUrl()),
+      projectId: asset.projectId,
+      links,
+    };
+  },
+};
@@ -2,95 +2,82 @@
  * Optropic Platform – Key Management Service
  * ------------------------------------------
  * Responsibilities:
- *  - Generate ECC (P-256) keypairs
- *  - Encrypt private keys (AES-256-GCM)
+ *  - Generate keypairs for each supported suite (P-256, RSA, Ed25519), or an
+ *    AES master for NFC/RFID pairing keys
+ *  - Encrypt private keys with the tenant's data key (envelope encryption)
  *  - Store & retrieve keys via Prisma
- *  - Rotate / revoke lifecycle management
+ *  - Rotation lifecycle: ACTIVE → ROTATING (verify-only, grace window) →
+ *    RETIRED, or COMPROMISED on revocation
+ *  - Re-sign a rotated key's codes with its successor (RESIGN policy),
+ *    saving progress on the key so an interrupted run resumes from the sweep
+ *    and the key is not retired until it finishes
  *  - Return only safe public data to frontend
  */
 
 import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
 import { db } from "../db";
-import { env } from "../env";
-
-const ALGORITHM = "aes-256-gcm";
-const IV_LENGTH = 12;
-const AUTH_TAG_LENGTH = 16;
+import { EnvelopeService } from "./envelopeService";
+import { NotificationService } from "./notificationService";
+import { allocateSerials, resignCode, type CodePayload } from "./codeService";
+import { generateKeyPairFor, type KeyAlgorithm } from "../utils/cryptoSuites";
+import { isCompactCode } from "../utils/compactCode";
+import { PAIRING_KEY_ALGORITHM } from "../utils/ntag424";
+import { logError } from "../utils/logger";
 
 export type KeyType = "ENCRYPTION" | "SIGNING" | "NFC_PAIRING" | "RFID_PAIRING";
+export type KeyStatus = "ACTIVE" | "ROTATING" | "RETIRED" | "COMPROMISED";
+export type KeyRotationPolicy = "RETAIN" | "RESIGN";
+
+export const DEFAULT_GRACE_PERIOD_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface KeyDTO {
   id: number;
   keyName: string;
   type: KeyType;
-  publicKey: string;
+  /** Null for pairing keys */
+  publicKey: string | null;
   algorithm: string;
   isActive: boolean;
+  status: KeyStatus;
+  graceEndsAt: Date | null;
+  successorKeyId: number | null;
   expiresAt: Date | null;
   createdAt: Date;
 }
 
-export interface KeyPair {
-  publicKey: string;
-  privateKey: string;
+export interface RotateKeyOptions {
+  /** Days the old key keeps verifying while labels are replaced */
+  gracePeriodDays?: number;
+  policy?: KeyRotationPolicy;
 }
 
-/**
- * Generate ECC (P-256) keypair
- */
-function generateECCKeyPair(): KeyPair {
-  const { publicKey, privateKey } = crypto.generateKeyPairSync("ec", {
-    namedCurve: "prime256v1",
-    publicKeyEncoding: {
-      type: "spki",
-      format: "pem",
-    },
-    privateKeyEncoding: {
-      type: "pkcs8",
-      format: "pem",
-    },
-  });
-
-  return { publicKey, privateKey };
+export interface KeyRotationReport {
+  oldKeyId: number;
+  newKeyId: number;
+  policy: KeyRotationPolicy;
+  graceEndsAt: Date;
+  affectedCodes: {
+    total: number;
+    active: number;
+    revoked: number;
+    compact: number;
+    json: number;
+    byBatch: { batchId: number | null; count: number }[];
+  };
+  /** Active codes queued for re-signing (RESIGN only) */
+  resignQueued: number;
 }
 
-/**
- * Encrypt private key using AES-256-GCM
- */
-function encryptPrivateKey(privateKey: string): string {
-  const key = Buffer.from(env.SECRET_KEY.padEnd(32, '0').substring(0, 32));
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-
-  let encrypted = cipher.update(privateKey, "utf8", "hex");
-  encrypted += cipher.final("hex");
-
-  const authTag = cipher.getAuthTag();
-
-  return `${iv.toString("hex")}:${authTag.toString("hex")}:${encrypted}`;
+export interface ResignReport {
+  resigned: number;
+  failed: number;
 }
 
-/**
- * Decrypt private key (only used internally, never exposed)
- */
-function decryptPrivateKey(encryptedData: string): string {
-  const parts = encryptedData.split(":");
-  if (parts.length !== 3) {
-    throw new Error("Invalid encrypted key format");
-  }
-
-  const iv = Buffer.from(parts[0]!, "hex");
-  const authTag = Buffer.from(parts[1]!, "hex");
-  const encrypted = parts[2]!;
-
-  const key = Buffer.from(env.SECRET_KEY.padEnd(32, '0').substring(0, 32));
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
-
-  const decryptedBuffer = decipher.update(encrypted, "hex", "utf8");
-  const finalBuffer = decipher.final("utf8");
-
-  return decryptedBuffer + finalBuffer;
+export interface KeyPair {
+  publicKey: string;
+  privateKey: string;
 }
 
 /**
@@ -134,48 +121,110 @@ export function generateEntropySeed(): string {
   return `${uuid}-${timestamp}-${random}`;
 }
 
+type KeyRow = Prisma.KeyGetPayload<object>;
+
+function toKeyDTO(key: KeyRow): KeyDTO {
+  return {
+    id: key.id,
+    keyName: key.keyName,
+    type: key.keyType as KeyType,
+    publicKey: key.publicKey,
+    algorithm: key.algorithm,
+    isActive: key.isActive,
+    status: key.status,
+    graceEndsAt: key.graceEndsAt,
+    successorKeyId: key.successorKeyId,
+    expiresAt: key.expiresAt,
+    createdAt: key.createdAt,
+  };
+}
+
+/**
+ * NFC/RFID pairing keys authenticate tags rather than sign codes
+ */
+export function isPairingKeyType(type: string): boolean {
+  return type === "NFC_PAIRING" || type === "RFID_PAIRING";
+}
+
+/**
+ * Pairing keys hold a 16-byte AES master (hex) from which tag keys are
+ * diversified; every other type holds a keypair for the requested suite
+ */
+function generateKeyMaterial(
+  type: string,
+  algorithm: string
+): { publicKey: string | null; privateKey: string; algorithm: string } {
+  if (isPairingKeyType(type)) {
+    return { publicKey: null, privateKey: crypto.randomBytes(16).toString("hex"), algorithm: PAIRING_KEY_ALGORITHM };
+  }
+  return { ...generateKeyPairFor(algorithm as KeyAlgorithm), algorithm };
+}
+
+/**
+ * Status a key verifies under: a rotation past its grace window is retired
+ * even before the sweep job records it, unless its codes are still being
+ * re-signed
+ */
+export function effectiveKeyStatus(
+  key: { status: string; graceEndsAt: Date | null; resignPending?: boolean },
+  now: Date = new Date()
+): KeyStatus {
+  if (key.status === "ROTATING" && key.graceEndsAt && key.graceEndsAt <= now && !key.resignPending) {
+    return "RETIRED";
+  }
+  return key.status as KeyStatus;
+}
+
+/**
+ * Keys this process is re-signing the codes of. A second run elsewhere is
+ * harmless: each code moves only if it still has its old value.
+ */
+const resigningKeys = new Set<number>();
+
 export const KeyService = {
   /**
-   * Generate a new ECC (P-256) keypair and store in DB
+   * Generate a new keypair for the given algorithm and store in DB
    */
   async generateKey(
     projectId: number,
     keyName: string,
     type: KeyType,
-    expiresAt?: Date
+    expiresAt?: Date,
+    algorithm: KeyAlgorithm = "prime256v1"
   ): Promise<KeyDTO> {
-    const { publicKey, privateKey } = generateECCKeyPair();
-    const encryptedPrivateKey = encryptPrivateKey(privateKey);
+    const material = generateKeyMaterial(type, algorithm);
+    const tenantId = await EnvelopeService.resolveTenantId(projectId);
+    const encryptedPrivateKey = await EnvelopeService.encryptPrivateKey(tenantId, material.privateKey);
 
     const key = await db.key.create({
       data: {
         keyName,
         keyType: type,
-        publicKey,
+        publicKey: material.publicKey,
         encryptedPrivateKey,
-        algorithm: "prime256v1",
+        algorithm: material.algorithm,
         isActive: true,
         expiresAt: expiresAt || null,
         projectId,
       },
     });
 
-    return {
-      id: key.id,
-      keyName: key.keyName,
-      type: key.keyType as KeyType,
-      publicKey: key.publicKey!,
-      algorithm: key.algorithm,
-      isActive: key.isActive,
-      expiresAt: key.expiresAt,
-      createdAt: key.createdAt,
-    };
+    return toKeyDTO(key);
   },
 
   /**
-   * Rotate an existing key (generate new pair, mark old as rotated)
+   * Rotate an active key: the successor takes over signing while the old key
+   * stays verify-only (ROTATING) until the grace window ends. With the RESIGN
+   * policy the old key's active codes are re-signed with the successor in the
+   * background; with RETAIN they keep verifying under the retired key.
    */
-  async rotateKey(keyId: number): Promise<KeyDTO> {
+  async rotateKey(
+    keyId: number,
+    options: RotateKeyOptions = {}
+  ): Promise<{ newKey: KeyDTO; report: KeyRotationReport }> {
+    const policy = options.policy ?? "RETAIN";
+    const gracePeriodDays = options.gracePeriodDays ?? DEFAULT_GRACE_PERIOD_DAYS;
+
     const oldKey = await db.key.findUnique({
       where: { id: keyId },
     });
@@ -184,59 +233,255 @@ export const KeyService = {
       throw new Error("Key not found");
     }
 
-    await db.key.update({
-      where: { id: keyId },
-      data: { isActive: false },
+    if (oldKey.status !== "ACTIVE") {
+      throw new Error(`Only active keys can be rotated (key is ${oldKey.status})`);
+    }
+
+    // Rotation keeps the suite so existing encryption levels stay valid
+    const material = generateKeyMaterial(oldKey.keyType, oldKey.algorithm);
+    const tenantId = await EnvelopeService.resolveTenantId(oldKey.projectId);
+    const encryptedPrivateKey = await EnvelopeService.encryptPrivateKey(tenantId, material.privateKey);
+
+    const rotatedAt = new Date();
+    const graceEndsAt = new Date(rotatedAt.getTime() + gracePeriodDays * DAY_MS);
+
+    const newKey = await db.$transaction(async (tx) => {
+      const created = await tx.key.create({
+        data: {
+          keyName: `${oldKey.keyName} (Rotated)`,
+          keyType: oldKey.keyType,
+          publicKey: material.publicKey,
+          encryptedPrivateKey,
+          algorithm: oldKey.algorithm,
+          isActive: true,
+          expiresAt: oldKey.expiresAt,
+          projectId: oldKey.projectId,
+          pairedKeyId: oldKey.pairedKeyId,
+        },
+      });
+
+      // Only one rotation may win for a key
+      const { count } = await tx.key.updateMany({
+        where: { id: keyId, status: "ACTIVE" },
+        data: {
+          status: "ROTATING",
+          isActive: false,
+          rotationPolicy: policy,
+          rotatedAt,
+          graceEndsAt,
+          successorKeyId: created.id,
+          resignPending: policy === "RESIGN",
+        },
+      });
+
+      if (count === 0) {
+        throw new Error("Key is already being rotated");
+      }
+
+      return created;
     });
 
-    const { publicKey, privateKey } = generateECCKeyPair();
-    const encryptedPrivateKey = encryptPrivateKey(privateKey);
+    const report = await this.buildRotationReport(keyId, newKey.id, policy, graceEndsAt);
 
-    const newKey = await db.key.create({
-      data: {
-        keyName: `${oldKey.keyName} (Rotated)`,
-        keyType: oldKey.keyType,
-        publicKey,
-        encryptedPrivateKey,
-        algorithm: oldKey.algorithm,
-        isActive: true,
-        expiresAt: oldKey.expiresAt,
-        projectId: oldKey.projectId,
-        pairedKeyId: oldKey.pairedKeyId,
-      },
+    if (policy === "RESIGN") {
+      void this.runResign(keyId, newKey.id);
+    }
+
+    return { newKey: toKeyDTO(newKey), report };
+  },
+
+  /**
+   * Re-sign a rotated key's codes and notify when done. Failures are logged;
+   * the sweep resumes the run from its saved progress.
+   */
+  async runResign(oldKeyId: number, newKeyId: number): Promise<ResignReport | null> {
+    if (resigningKeys.has(oldKeyId)) {
+      return null;
+    }
+    resigningKeys.add(oldKeyId);
+
+    try {
+      const result = await this.resignCodes(oldKeyId, newKeyId);
+      await NotificationService.triggerSystem(
+        `Key ${oldKeyId} rotation: re-signed ${result.resigned} codes with key ${newKeyId}` +
+          (result.failed > 0 ? `, ${result.failed} failed` : ""),
+        result.failed > 0 ? "WARNING" : "SUCCESS"
+      );
+      return result;
+    } catch (error) {
+      logError(error, { keyId: oldKeyId, newKeyId });
+      return null;
+    } finally {
+      resigningKeys.delete(oldKeyId);
+    }
+  },
+
+  /**
+   * Resume re-signing runs left unfinished by a stopped process
+   */
+  async resumePendingResigns(): Promise<number> {
+    const keys = await db.key.findMany({
+      where: { resignPending: true, successorKeyId: { not: null } },
+      select: { id: true, successorKeyId: true },
     });
 
+    for (const key of keys) {
+      if (key.successorKeyId !== null) {
+        await this.runResign(key.id, key.successorKeyId);
+      }
+    }
+
+    return keys.length;
+  },
+
+  /**
+   * Count the codes a rotation affects
+   */
+  async buildRotationReport(
+    oldKeyId: number,
+    newKeyId: number,
+    policy: KeyRotationPolicy,
+    graceEndsAt: Date
+  ): Promise<KeyRotationReport> {
+    const [total, active, compact, batches] = await Promise.all([
+      db.optropicCode.count({ where: { keyId: oldKeyId } }),
+      db.optropicCode.count({ where: { keyId: oldKeyId, isActive: true } }),
+      db.optropicCode.count({ where: { keyId: oldKeyId, serial: { not: null } } }),
+      db.optropicCode.groupBy({
+        by: ["batchId"],
+        where: { keyId: oldKeyId },
+        _count: { _all: true },
+      }),
+    ]);
+
     return {
-      id: newKey.id,
-      keyName: newKey.keyName,
-      type: newKey.keyType as KeyType,
-      publicKey: newKey.publicKey!,
-      algorithm: newKey.algorithm,
-      isActive: newKey.isActive,
-      expiresAt: newKey.expiresAt,
-      createdAt: newKey.createdAt,
+      oldKeyId,
+      newKeyId,
+      policy,
+      graceEndsAt,
+      affectedCodes: {
+        total,
+        active,
+        revoked: total - active,
+        compact,
+        json: total - compact,
+        byBatch: batches.map((batch) => ({ batchId: batch.batchId, count: batch._count._all })),
+      },
+      resignQueued: policy === "RESIGN" ? active : 0,
     };
   },
 
   /**
-   * Revoke a key permanently (cannot be reactivated)
+   * Re-sign a rotated key's active codes with its successor. Each code keeps
+   * its row (scans, batch, asset); the old value is kept so printed labels
+   * verify until the grace window ends. Continues after the last code a
+   * previous run passed, saves progress after every page and clears
+   * `resignPending` when done.
+   */
+  async resignCodes(oldKeyId: number, newKeyId: number, batchSize: number = 200): Promise<ResignReport> {
+    const [oldKey, newKey] = await Promise.all([
+      db.key.findUnique({ where: { id: oldKeyId }, select: { resignCursor: true } }),
+      db.key.findUnique({ where: { id: newKeyId }, select: { projectId: true } }),
+    ]);
+
+    if (!oldKey || !newKey) {
+      throw new Error("Key not found");
+    }
+
+    const privateKey = await this.getPrivateKey(newKeyId);
+    const dataKey = await EnvelopeService.getDataKey(await EnvelopeService.resolveTenantId(newKey.projectId));
+    const report: ResignReport = { resigned: 0, failed: 0 };
+    let cursor = oldKey.resignCursor;
+
+    for (;;) {
+      const codes = await db.optropicCode.findMany({
+        where: { keyId: oldKeyId, isActive: true, id: { gt: cursor } },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        select: { id: true, codeValue: true, payload: true },
+      });
+      if (codes.length === 0) break;
+
+      const compactCount = codes.filter((code) => isCompactCode(code.codeValue)).length;
+      let serial = compactCount > 0 ? await allocateSerials(newKeyId, compactCount) : 0;
+      const page: ResignReport = { resigned: 0, failed: 0 };
+
+      for (const code of codes) {
+        cursor = code.id;
+
+        try {
+          const signed = resignCode(
+            privateKey,
+            { codeValue: code.codeValue, payload: code.payload as unknown as CodePayload },
+            newKeyId,
+            { serial: isCompactCode(code.codeValue) ? serial++ : undefined, dataKey }
+          );
+
+          // Skip codes revoked or rotated while this run was in flight
+          const { count } = await db.optropicCode.updateMany({
+            where: { id: code.id, keyId: oldKeyId, codeValue: code.codeValue, isActive: true },
+            data: {
+              codeValue: signed.codeValue,
+              signature: signed.signature,
+              payload: signed.payload as unknown as Prisma.InputJsonValue,
+              serial: signed.payload.serial ?? null,
+              keyId: newKeyId,
+              previousCodeValue: code.codeValue,
+              previousKeyId: oldKeyId,
+              reboundAt: new Date(),
+            },
+          });
+          page.resigned += count;
+        } catch (error) {
+          logError(error, { keyId: oldKeyId, newKeyId, codeId: code.id });
+          page.failed++;
+        }
+      }
+
+      await db.key.update({
+        where: { id: oldKeyId },
+        data: {
+          resignCursor: cursor,
+          resignedCount: { increment: page.resigned },
+          resignFailedCount: { increment: page.failed },
+        },
+      });
+      report.resigned += page.resigned;
+      report.failed += page.failed;
+    }
+
+    await db.key.update({
+      where: { id: oldKeyId },
+      data: { resignPending: false },
+    });
+
+    return report;
+  },
+
+  /**
+   * Mark rotations whose grace window has ended as RETIRED, once their codes
+   * are re-signed
+   */
+  async retireExpiredRotations(now: Date = new Date()): Promise<number> {
+    const { count } = await db.key.updateMany({
+      where: { status: "ROTATING", graceEndsAt: { lte: now }, resignPending: false },
+      data: { status: "RETIRED", retiredAt: now },
+    });
+
+    return count;
+  },
+
+  /**
+   * Revoke a key permanently (cannot be reactivated). Codes signed with a
+   * compromised key no longer verify.
    */
   async revokeKey(keyId: number): Promise<KeyDTO> {
     const key = await db.key.update({
       where: { id: keyId },
-      data: { isActive: false },
+      data: { isActive: false, status: "COMPROMISED", retiredAt: new Date() },
     });
 
-    return {
-      id: key.id,
-      keyName: key.keyName,
-      type: key.keyType as KeyType,
-      publicKey: key.publicKey!,
-      algorithm: key.algorithm,
-      isActive: key.isActive,
-      expiresAt: key.expiresAt,
-      createdAt: key.createdAt,
-    };
+    return toKeyDTO(key);
   },
 
   /**
@@ -248,16 +493,7 @@ export const KeyService = {
       orderBy: { createdAt: "desc" },
     });
 
-    return keys.map((key) => ({
-      id: key.id,
-      keyName: key.keyName,
-      type: key.keyType as KeyType,
-      publicKey: key.publicKey!,
-      algorithm: key.algorithm,
-      isActive: key.isActive,
-      expiresAt: key.expiresAt,
-      createdAt: key.createdAt,
-    }));
+    return keys.map(toKeyDTO);
   },
 
   /**
@@ -273,7 +509,7 @@ export const KeyService = {
       throw new Error("Key not found");
     }
 
-    return decryptPrivateKey(key.encryptedPrivateKey);
+    return await EnvelopeService.decryptPrivateKey(key.encryptedPrivateKey);
   },
 
   /**
@@ -0,0 +1,272 @@
+/**
+ * Optropic Platform – Landing Page Service
+ * ----------------------------------------
+ * Responsibilities:
+ *  - Serve hosted LANDING_PAGE content at scan time with the verification
+ *    result, the scanned code's asset and its supply chain trail
+ *  - Brand pages from the tenant's role mappings (colours, icon)
+ *  - Preview stored or unsaved pages with sample data
+ *  - Accept feedback form submissions
+ */
+
+import { LandingPageSchema, type LandingPage, type PageFeedbackInput } from "@optropic/shared";
+import { db } from "../db";
+import { EpcisService } from "./epcisService";
+import {
+  DEFAULT_BRANDING,
+  renderLandingPage,
+  type LandingPageRenderData,
+  type PageBranding,
+  type PageDocument,
+  type PageProvenanceStep,
+  type PageVerification,
+} from "../utils/landingPageRenderer";
+
+/**
+ * Pages are static HTML without scripts; forms post back to the scan route
+ */
+export const LANDING_PAGE_CSP =
+  "default-src 'none'; img-src https: http: data:; style-src 'unsafe-inline'; form-action 'self'; base-uri 'none'; frame-ancestors 'self'";
+
+export interface ScanPageContext {
+  codeId: number;
+  codeValue: string;
+  verification: PageVerification;
+}
+
+interface PageContent {
+  id: number;
+  projectId: number;
+  landingPage: LandingPage;
+}
+
+/**
+ * Validate a stored page; null when absent or invalid
+ */
+export function parseLandingPage(value: unknown): LandingPage | null {
+  if (value === null || value === undefined) return null;
+
+  const result = LandingPageSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Form target for a scanned code's page
+ */
+export function feedbackPath(codeValue: string): string {
+  return `/r/${encodeURIComponent(codeValue)}/feedback`;
+}
+
+async function loadPageContent(contentId: number): Promise<PageContent | null> {
+  const content = await db.content.findUnique({
+    where: { id: contentId },
+    select: { id: true, projectId: true, contentType: true, isActive: true, landingPage: true },
+  });
+
+  if (!content || !content.isActive || content.contentType !== "LANDING_PAGE") {
+    return null;
+  }
+
+  const landingPage = parseLandingPage(content.landingPage);
+  return landingPage ? { id: content.id, projectId: content.projectId, landingPage } : null;
+}
+
+/**
+ * Images and documents referenced by the page's blocks, limited to active
+ * content of the same project
+ */
+async function loadLinkedContent(content: PageContent) {
+  const ids = new Set<number>();
+  for (const block of content.landingPage.blocks) {
+    if (block.type === "HERO" && block.imageContentId !== undefined) ids.add(block.imageContentId);
+    if (block.type === "DOCUMENT_LIST") block.contentIds.forEach((id) => ids.add(id));
+  }
+
+  const images = new Map<number, string>();
+  const documents = new Map<number, PageDocument>();
+  if (ids.size === 0) return { images, documents };
+
+  const linked = await db.content.findMany({
+    where: { id: { in: [...ids] }, projectId: content.projectId, isActive: true },
+    select: { id: true, title: true, contentType: true, url: true, fileUrl: true, fileSize: true },
+  });
+
+  for (const item of linked) {
+    const href = item.url ?? item.fileUrl;
+    if (!href) continue;
+    if (item.contentType === "IMAGE") images.set(item.id, href);
+    documents.set(item.id, { title: item.title, href, contentType: item.contentType, fileSize: item.fileSize });
+  }
+
+  return { images, documents };
+}
+
+/**
+ * Supply chain trail for the page's provenance block; empty without one
+ */
+async function loadProvenance(content: PageContent, assetId: number | null): Promise<PageProvenanceStep[]> {
+  if (assetId === null || !content.landingPage.blocks.some((block) => block.type === "PROVENANCE")) {
+    return [];
+  }
+
+  const timeline = await EpcisService.getCustodyTimeline(assetId);
+  return timeline.map((step) => ({
+    bizStep: step.bizStep,
+    disposition: step.disposition,
+    eventTime: step.eventTime,
+    location: step.location,
+  }));
+}
+
+async function renderPage(
+  content: PageContent,
+  options: Pick<
+    LandingPageRenderData,
+    "verification" | "asset" | "provenance" | "feedbackAction" | "preview" | "notice"
+  >
+): Promise<string> {
+  const [branding, linked] = await Promise.all([
+    LandingPageService.getBranding(content.projectId),
+    loadLinkedContent(content),
+  ]);
+
+  return renderLandingPage(content.landingPage, {
+    ...options,
+    ...linked,
+    branding,
+    contentId: content.id,
+  });
+}
+
+export const LandingPageService = {
+  /**
+   * Branding for a project's pages: the owner's role mapping first, then the
+   * tenant's other enabled mappings, then the platform defaults
+   */
+  async getBranding(projectId: number): Promise<PageBranding> {
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { name: true, userId: true, tenantId: true, user: { select: { archetypeId: true } } },
+    });
+
+    if (!project) {
+      return DEFAULT_BRANDING;
+    }
+
+    const mappings = await db.tenantRoleMapping.findMany({
+      where: { tenantId: project.tenantId ?? project.userId, isEnabled: true },
+      orderBy: { archetypeId: "asc" },
+    });
+
+    const owner = mappings.find((mapping) => mapping.archetypeId === project.user.archetypeId);
+    const ordered = owner ? [owner, ...mappings.filter((mapping) => mapping !== owner)] : mappings;
+    const colors = ordered.map((mapping) => mapping.color).filter((color): color is string => !!color);
+
+    return {
+      brandName: project.name,
+      primaryColor: colors[0] ?? DEFAULT_BRANDING.primaryColor,
+      accentColor: colors.find((color) => color !== colors[0]) ?? DEFAULT_BRANDING.accentColor,
+      icon: ordered.find((mapping) => mapping.icon)?.icon ?? DEFAULT_BRANDING.icon,
+    };
+  },
+
+  /**
+   * Page for a verified scan; null when the content has no hosted page
+   */
+  async renderForScan(contentId: number, scan: ScanPageContext): Promise<string | null> {
+    const content = await loadPageContent(contentId);
+    if (!content) return null;
+
+    const code = await db.optropicCode.findUnique({
+      where: { id: scan.codeId },
+      select: { asset: true },
+    });
+
+    const hasFeedback = content.landingPage.blocks.some((block) => block.type === "FEEDBACK_FORM");
+    return await renderPage(content, {
+      verification: scan.verification,
+      asset: code?.asset ?? null,
+      provenance: await loadProvenance(content, code?.asset?.id ?? null),
+      feedbackAction: hasFeedback ? feedbackPath(scan.codeValue) : null,
+      preview: false,
+    });
+  },
+
+  /**
+   * Preview a stored page, or an unsaved one, with a sample verification and
+   * the project's latest asset
+   */
+  async renderPreview(contentId: number, page?: LandingPage): Promise<string> {
+    const content = await db.content.findUnique({
+      where: { id: contentId },
+      select: { id: true, projectId: true, contentType: true, landingPage: true },
+    });
+
+    if (!content || content.contentType !== "LANDING_PAGE") {
+      throw new Error("Content is not a landing page");
+    }
+
+    const landingPage = page ?? parseLandingPage(content.landingPage);
+    if (!landingPage) {
+      throw new Error("Landing page has no blocks yet");
+    }
+
+    const asset = await db.asset.findFirst({
+      where: { projectId: content.projectId },
+      orderBy: { createdAt: "desc" },
+    });
+    const previewed: PageContent = { id: content.id, projectId: content.projectId, landingPage };
+
+    return await renderPage(previewed, {
+      verification: { verified: true, trustScore: 95, warnings: [], factors: ["OPTICAL"], checkedAt: new Date() },
+      asset,
+      provenance: await loadProvenance(previewed, asset?.id ?? null),
+      feedbackAction: null,
+      preview: true,
+    });
+  },
+
+  /**
+   * Store feedback posted from a scanned code's page and return the
+   * confirmation page
+   */
+  async submitFeedback(codeValue: string, input: PageFeedbackInput): Promise<string> {
+    const code = await db.optropicCode.findFirst({
+      where: { OR: [{ codeValue }, { previousCodeValue: codeValue }] },
+      select: { id: true, projectId: true, tenantId: true },
+    });
+    const content = await loadPageContent(input.contentId);
+
+    if (
+      !code ||
+      !content ||
+      content.projectId !== code.projectId ||
+      !content.landingPage.blocks.some((block) => block.type === "FEEDBACK_FORM")
+    ) {
+      throw new Error("Feedback is not accepted for this page");
+    }
+
+    await db.pageFeedback.create({
+      data: {
+        contentId: content.id,
+        codeId: code.id,
+        projectId: code.projectId,
+        tenantId: code.tenantId,
+        rating: input.rating ?? null,
+        comment: input.comment?.trim() || null,
+        email: input.email ?? null,
+      },
+    });
+
+    return await renderPage(
+      { ...content, landingPage: { title: content.landingPage.title, blocks: [{ type: "HERO", title: "Thank you" }] } },
+      {
+        verification: null,
+        asset: null,
+        feedbackAction: null,
+        preview: false,
+        notice: "Your feedback has been sent.",
+      }
+    );
+  },
+};
@@ -0,0 +1,769 @@
+/**
+ * Optropic Platform – Maintenance Service
+ * ---------------------------------------
+ * Responsibilities:
+ *  - Maintenance schedules for EQUIPMENT assets, due after a number of days
+ *    (INTERVAL) or a meter delta (USAGE), with a checklist
+ *  - Work orders opened by scanning the asset's code, resuming the open one
+ *    for the same schedule instead of duplicating it
+ *  - Checklist progress and photo evidence uploaded straight to MinIO
+ *    (optropic-assets); completion requires every item done and photographed
+ *    where the checklist asks for it, then advances the schedule
+ *  - Service history per asset and overdue notifications to the project
+ *    owner and the tenant's maintainers; overdue schedules also start the
+ *    project's maintenance_due workflows
+ */
+
+import crypto from "crypto";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import {
+  ChecklistItemSchema,
+  type AttachEvidenceInput,
+  type ChecklistItem,
+  type CompleteWorkOrderInput,
+  type CreateEvidenceUploadUrlInput,
+  type CreateMaintenanceScheduleInput,
+  type ListMaintenanceSchedulesInput,
+  type ListWorkOrdersInput,
+  type MaintenanceTrigger,
+  type OpenWorkOrderInput,
+  type RecordUsageInput,
+  type UpdateChecklistItemInput,
+  type UpdateMaintenanceScheduleInput,
+  type WorkOrderStatus,
+} from "@optropic/shared";
+import { db } from "../db";
+import { minioClient } from "../minio";
+import {
+  completionProblems,
+  isOverdue,
+  nextDue,
+  toWorkOrderChecklist,
+  validateEvidence,
+  type WorkOrderChecklistItem,
+} from "../utils/maintenance";
+import { DOWNLOAD_URL_EXPIRY_SECONDS, safeFileName, UPLOAD_URL_EXPIRY_SECONDS, type UploadTarget } from "./contentService";
+import { NotificationService } from "./notificationService";
+import { WorkflowService } from "./workflowService";
+import { logError } from "../utils/logger";
+
+export const EVIDENCE_BUCKET = "optropic-assets";
+
+const OPEN_STATUSES: WorkOrderStatus[] = ["OPEN", "IN_PROGRESS"];
+
+export interface MaintenanceScheduleDTO {
+  id: number;
+  name: string;
+  description: string | null;
+  triggerType: MaintenanceTrigger;
+  intervalDays: number | null;
+  usageInterval: number | null;
+  usageUnit: string | null;
+  currentUsage: number;
+  checklist: ChecklistItem[];
+  lastPerformedAt: Date | null;
+  lastPerformedUsage: number | null;
+  nextDueAt: Date | null;
+  nextDueUsage: number | null;
+  overdue: boolean;
+  isActive: boolean;
+  assetId: number;
+  assetName: string;
+  projectId: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkOrderEvidenceDTO {
+  id: number;
+  itemKey: string | null;
+  mimeType: string;
+  fileSize: number;
+  uploadedById: number;
+  createdAt: Date;
+}
+
+export interface WorkOrderDTO {
+  id: number;
+  title: string;
+  notes: string | null;
+  status: WorkOrderStatus;
+  checklist: WorkOrderChecklistItem[];
+  usageReading: number | null;
+  dueAt: Date | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  assetId: number;
+  assetName: string;
+  scheduleId: number | null;
+  scheduleName: string | null;
+  usageUnit: string | null;
+  codeId: number | null;
+  openedById: number;
+  completedById: number | null;
+  projectId: number;
+  evidence: WorkOrderEvidenceDTO[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The asset behind a scanned code
+ */
+export interface ScannedAsset {
+  codeId: number;
+  projectId: number;
+  tenantId: number | null;
+  assetId: number;
+  assetName: string;
+}
+
+const ScheduleChecklistSchema = z.array(ChecklistItemSchema);
+const WorkOrderChecklistSchema = z.array(
+  ChecklistItemSchema.extend({ done: z.boolean(), note: z.string().nullable() })
+);
+
+const scheduleInclude = {
+  asset: { select: { assetName: true } },
+} satisfies Prisma.MaintenanceScheduleInclude;
+
+const workOrderInclude = {
+  asset: { select: { assetName: true } },
+  schedule: { select: { name: true, usageUnit: true } },
+  evidence: { orderBy: { createdAt: "asc" } },
+} satisfies Prisma.WorkOrderInclude;
+
+type ScheduleRow = Prisma.MaintenanceScheduleGetPayload<{ include: typeof scheduleInclude }>;
+type WorkOrderRow = Prisma.WorkOrderGetPayload<{ include: typeof workOrderInclude }>;
+
+function parseScheduleChecklist(value: Prisma.JsonValue): ChecklistItem[] {
+  const result = ScheduleChecklistSchema.safeParse(value);
+  return result.success ? result.data : [];
+}
+
+function parseWorkOrderChecklist(value: Prisma.JsonValue): WorkOrderChecklistItem[] {
+  const result = WorkOrderChecklistSchema.safeParse(value);
+  return result.success ? result.data : [];
+}
+
+function toScheduleDTO(schedule: ScheduleRow, now = new Date()): MaintenanceScheduleDTO {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    description: schedule.description,
+    triggerType: schedule.triggerType,
+    intervalDays: schedule.intervalDays,
+    usageInterval: schedule.usageInterval,
+    usageUnit: schedule.usageUnit,
+    currentUsage: schedule.currentUsage,
+    checklist: parseScheduleChecklist(schedule.checklist),
+    lastPerformedAt: schedule.lastPerformedAt,
+    lastPerformedUsage: schedule.lastPerformedUsage,
+    nextDueAt: schedule.nextDueAt,
+    nextDueUsage: schedule.nextDueUsage,
+    overdue: schedule.isActive && isOverdue(schedule, now),
+    isActive: schedule.isActive,
+    assetId: schedule.assetId,
+    assetName: schedule.asset.assetName,
+    projectId: schedule.projectId,
+    createdAt: schedule.createdAt,
+    updatedAt: schedule.updatedAt,
+  };
+}
+
+function toWorkOrderDTO(order: WorkOrderRow): WorkOrderDTO {
+  return {
+    id: order.id,
+    title: order.title,
+    notes: order.notes,
+    status: order.status,
+    checklist: parseWorkOrderChecklist(order.checklist),
+    usageReading: order.usageReading,
+    dueAt: order.dueAt,
+    startedAt: order.startedAt,
+    completedAt: order.completedAt,
+    assetId: order.assetId,
+    assetName: order.asset.assetName,
+    scheduleId: order.scheduleId,
+    scheduleName: order.schedule?.name ?? null,
+    usageUnit: order.schedule?.usageUnit ?? null,
+    codeId: order.codeId,
+    openedById: order.openedById,
+    completedById: order.completedById,
+    projectId: order.projectId,
+    evidence: order.evidence.map((evidence) => ({
+      id: evidence.id,
+      itemKey: evidence.itemKey,
+      mimeType: evidence.mimeType,
+      fileSize: evidence.fileSize,
+      uploadedById: evidence.uploadedById,
+      createdAt: evidence.createdAt,
+    })),
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
+
+async function getScheduleRow(scheduleId: number): Promise<ScheduleRow> {
+  const schedule = await db.maintenanceSchedule.findUnique({ where: { id: scheduleId }, include: scheduleInclude });
+  if (!schedule) {
+    throw new Error("Maintenance schedule not found");
+  }
+  return schedule;
+}
+
+async function getWorkOrderRow(workOrderId: number): Promise<WorkOrderRow> {
+  const order = await db.workOrder.findUnique({ where: { id: workOrderId }, include: workOrderInclude });
+  if (!order) {
+    throw new Error("Work order not found");
+  }
+  return order;
+}
+
+function assertOpen(order: WorkOrderRow): void {
+  if (!OPEN_STATUSES.includes(order.status)) {
+    throw new Error(`Work order is ${order.status.toLowerCase().replace("_", " ")}`);
+  }
+}
+
+function evidencePrefix(order: { projectId: number; id: number }): string {
+  return `maintenance/${order.projectId}/${order.id}/`;
+}
+
+/**
+ * Check the trigger fields of a schedule as they will be stored
+ */
+function checkTrigger(schedule: {
+  triggerType: MaintenanceTrigger;
+  intervalDays: number | null;
+  usageInterval: number | null;
+  usageUnit: string | null;
+}): void {
+  if (schedule.triggerType === "INTERVAL" && !schedule.intervalDays) {
+    throw new Error("Interval schedules need intervalDays");
+  }
+  if (schedule.triggerType === "USAGE" && (!schedule.usageInterval || !schedule.usageUnit)) {
+    throw new Error("Usage schedules need usageInterval and usageUnit");
+  }
+}
+
+export const MaintenanceService = {
+  /**
+   * Create a schedule for an EQUIPMENT asset. Interval schedules fall due on
+   * firstDueAt or one interval from now; usage schedules one interval past
+   * the current reading.
+   */
+  async createSchedule(
+    input: CreateMaintenanceScheduleInput & { projectId: number; tenantId: number | null },
+    userId: number
+  ): Promise<MaintenanceScheduleDTO> {
+    const asset = await db.asset.findUnique({
+      where: { id: input.assetId },
+      select: { id: true, assetType: true, projectId: true },
+    });
+    if (!asset || asset.projectId !== input.projectId) {
+      throw new Error("Asset not found");
+    }
+    if (asset.assetType !== "EQUIPMENT") {
+      throw new Error("Maintenance schedules can only be created for EQUIPMENT assets");
+    }
+
+    const trigger = {
+      triggerType: input.triggerType,
+      intervalDays: input.triggerType === "INTERVAL" ? (input.intervalDays ?? null) : null,
+      usageInterval: input.triggerType === "USAGE" ? (input.usageInterval ?? null) : null,
+      usageUnit: input.triggerType === "USAGE" ? (input.usageUnit ?? null) : null,
+    };
+    checkTrigger(trigger);
+
+    const due =
+      input.firstDueAt && input.triggerType === "INTERVAL"
+        ? { nextDueAt: new Date(input.firstDueAt), nextDueUsage: null }
+        : nextDue(trigger, new Date(), 0);
+
+    const schedule = await db.maintenanceSchedule.create({
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        ...trigger,
+        ...due,
+        checklist: input.checklist ?? [],
+        assetId: asset.id,
+        projectId: asset.projectId,
+        tenantId: input.tenantId,
+        createdById: userId,
+      },
+      include: scheduleInclude,
+    });
+
+    return toScheduleDTO(schedule);
+  },
+
+  /**
+   * Update a schedule. Changing the trigger recomputes the next due date or
+   * reading from the last service (or creation).
+   */
+  async updateSchedule(input: UpdateMaintenanceScheduleInput): Promise<MaintenanceScheduleDTO> {
+    const existing = await getScheduleRow(input.scheduleId);
+
+    const triggerType = input.triggerType ?? existing.triggerType;
+    const trigger = {
+      triggerType,
+      intervalDays:
+        triggerType === "INTERVAL"
+          ? input.intervalDays !== undefined
+            ? input.intervalDays
+            : existing.intervalDays
+          : null,
+      usageInterval:
+        triggerType === "USAGE"
+          ? input.usageInterval !== undefined
+            ? input.usageInterval
+            : existing.usageInterval
+          : null,
+      usageUnit:
+        triggerType === "USAGE" ? (input.usageUnit !== undefined ? input.usageUnit : existing.usageUnit) : null,
+    };
+    checkTrigger(trigger);
+
+    const triggerChanged =
+      trigger.triggerType !== existing.triggerType ||
+      trigger.intervalDays !== existing.intervalDays ||
+      trigger.usageInterval !== existing.usageInterval;
+
+    const schedule = await db.maintenanceSchedule.update({
+      where: { id: existing.id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+        ...(input.checklist !== undefined ? { checklist: input.checklist } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+        ...trigger,
+        ...(triggerChanged
+          ? {
+              ...nextDue(trigger, existing.lastPerformedAt ?? existing.createdAt, existing.lastPerformedUsage ?? 0),
+              overdueNotifiedAt: null,
+            }
+          : {}),
+      },
+      include: scheduleInclude,
+    });
+
+    return toScheduleDTO(schedule);
+  },
+
+  /**
+   * A project's schedules, soonest due first
+   */
+  async listSchedules(input: ListMaintenanceSchedulesInput): Promise<MaintenanceScheduleDTO[]> {
+    const schedules = await db.maintenanceSchedule.findMany({
+      where: {
+        projectId: input.projectId,
+        ...(input.assetId ? { assetId: input.assetId } : {}),
+        ...(input.overdueOnly ? { isActive: true } : {}),
+      },
+      include: scheduleInclude,
+      orderBy: [{ isActive: "desc" }, { nextDueAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    });
+
+    const now = new Date();
+    const dtos = schedules.map((schedule) => toScheduleDTO(schedule, now));
+    return input.overdueOnly ? dtos.filter((schedule) => schedule.overdue) : dtos;
+  },
+
+  async getSchedule(scheduleId: number): Promise<MaintenanceScheduleDTO> {
+    return toScheduleDTO(await getScheduleRow(scheduleId));
+  },
+
+  /**
+   * Record a meter reading for the asset's usage schedules in that unit.
+   * Readings only go up.
+   */
+  async recordUsage(input: RecordUsageInput): Promise<{ updated: number }> {
+    const schedules = await db.maintenanceSchedule.findMany({
+      where: { assetId: input.assetId, triggerType: "USAGE", usageUnit: input.usageUnit },
+      select: { id: true, currentUsage: true },
+    });
+
+    if (schedules.some((schedule) => schedule.currentUsage > input.reading)) {
+      throw new Error("Meter reading is below the last recorded reading");
+    }
+
+    const { count } = await db.maintenanceSchedule.updateMany({
+      where: { id: { in: schedules.map((schedule) => schedule.id) } },
+      data: { currentUsage: input.reading },
+    });
+
+    return { updated: count };
+  },
+
+  /**
+   * Resolve a scanned code (current or pre-rotation value) to its EQUIPMENT
+   * asset
+   */
+  async findScannedAsset(codeValue: string): Promise<ScannedAsset> {
+    const code = await db.optropicCode.findFirst({
+      where: { OR: [{ codeValue }, { previousCodeValue: codeValue }] },
+      select: {
+        id: true,
+        isActive: true,
+        projectId: true,
+        tenantId: true,
+        asset: { select: { id: true, assetName: true, assetType: true } },
+      },
+    });
+
+    if (!code) {
+      throw new Error("Code not found");
+    }
+    if (!code.isActive) {
+      throw new Error("Code has been revoked");
+    }
+    if (!code.asset) {
+      throw new Error("Code is not linked to an asset");
+    }
+    if (code.asset.assetType !== "EQUIPMENT") {
+      throw new Error("Work orders can only be opened for EQUIPMENT assets");
+    }
+
+    return {
+      codeId: code.id,
+      projectId: code.projectId,
+      tenantId: code.tenantId,
+      assetId: code.asset.id,
+      assetName: code.asset.assetName,
+    };
+  },
+
+  /**
+   * Open a work order for a scanned asset, for the given schedule or else
+   * the asset's most overdue one (none: an ad-hoc work order). An open work
+   * order for the same schedule is returned instead of a new one.
+   */
+  async openWorkOrder(
+    scanned: ScannedAsset,
+    input: Omit<OpenWorkOrderInput, "codeValue">,
+    userId: number
+  ): Promise<{ workOrder: WorkOrderDTO; resumed: boolean }> {
+    const now = new Date();
+    let schedule: ScheduleRow | null = null;
+
+    if (input.scheduleId) {
+      schedule = await getScheduleRow(input.scheduleId);
+      if (schedule.assetId !== scanned.assetId || !schedule.isActive) {
+        throw new Error("Maintenance schedule not found for this asset");
+      }
+    } else {
+      const schedules = await db.maintenanceSchedule.findMany({
+        where: { assetId: scanned.assetId, isActive: true },
+        include: scheduleInclude,
+        orderBy: [{ nextDueAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+      });
+      schedule = schedules.find((candidate) => isOverdue(candidate, now)) ?? null;
+    }
+
+    const existing = await db.workOrder.findFirst({
+      where: { assetId: scanned.assetId, scheduleId: schedule?.id ?? null, status: { in: OPEN_STATUSES } },
+      include: workOrderInclude,
+      orderBy: { createdAt: "desc" },
+    });
+    if (existing) {
+      return { workOrder: toWorkOrderDTO(existing), resumed: true };
+    }
+
+    const order = await db.workOrder.create({
+      data: {
+        title: input.title ?? schedule?.name ?? `Service: ${scanned.assetName}`,
+        notes: input.notes ?? null,
+        checklist: schedule ? toWorkOrderChecklist(parseScheduleChecklist(schedule.checklist)) : [],
+        dueAt: schedule?.nextDueAt ?? null,
+        assetId: scanned.assetId,
+        scheduleId: schedule?.id ?? null,
+        codeId: scanned.codeId,
+        openedById: userId,
+        projectId: scanned.projectId,
+        tenantId: scanned.tenantId,
+      },
+      include: workOrderInclude,
+    });
+
+    return { workOrder: toWorkOrderDTO(order), resumed: false };
+  },
+
+  /**
+   * Work orders, open ones first, newest first within a status
+   */
+  async listWorkOrders(
+    input: ListWorkOrdersInput & { openedById?: number }
+  ): Promise<{ workOrders: WorkOrderDTO[]; total: number }> {
+    const where: Prisma.WorkOrderWhereInput = {
+      ...(input.projectId ? { projectId: input.projectId } : {}),
+      ...(input.openedById ? { openedById: input.openedById } : {}),
+      ...(input.assetId ? { assetId: input.assetId } : {}),
+      ...(input.status ? { status: input.status } : {}),
+    };
+
+    const [workOrders, total] = await Promise.all([
+      db.workOrder.findMany({
+        where,
+        include: workOrderInclude,
+        orderBy: [{ status: "asc" }, { createdAt: "desc" }],
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.workOrder.count({ where }),
+    ]);
+
+    return { workOrders: workOrders.map(toWorkOrderDTO), total };
+  },
+
+  async getWorkOrder(workOrderId: number): Promise<WorkOrderDTO> {
+    return toWorkOrderDTO(await getWorkOrderRow(workOrderId));
+  },
+
+  /**
+   * Tick or untick a checklist item; the first update starts the work order
+   */
+  async updateChecklistItem(input: UpdateChecklistItemInput): Promise<WorkOrderDTO> {
+    const order = await getWorkOrderRow(input.workOrderId);
+    assertOpen(order);
+
+    const checklist = parseWorkOrderChecklist(order.checklist);
+    const item = checklist.find((candidate) => candidate.key === input.key);
+    if (!item) {
+      throw new Error("Checklist item not found");
+    }
+    item.done = input.done;
+    if (input.note !== undefined) item.note = input.note;
+
+    const updated = await db.workOrder.update({
+      where: { id: order.id },
+      data: {
+        checklist,
+        ...(order.status === "OPEN" ? { status: "IN_PROGRESS", startedAt: new Date() } : {}),
+      },
+      include: workOrderInclude,
+    });
+
+    return toWorkOrderDTO(updated);
+  },
+
+  /**
+   * Presigned PUT URL for a photo of the work order
+   */
+  async createEvidenceUploadUrl(input: CreateEvidenceUploadUrlInput): Promise<UploadTarget> {
+    const order = await getWorkOrderRow(input.workOrderId);
+    assertOpen(order);
+    validateEvidence(input.mimeType, input.fileSize);
+
+    const objectKey = `${evidencePrefix(order)}${crypto.randomUUID()}/${safeFileName(input.fileName)}`;
+    const uploadUrl = await minioClient.presignedPutObject(EVIDENCE_BUCKET, objectKey, UPLOAD_URL_EXPIRY_SECONDS);
+
+    return {
+      uploadUrl,
+      objectKey,
+      expiresAt: new Date(Date.now() + UPLOAD_URL_EXPIRY_SECONDS * 1000),
+    };
+  },
+
+  /**
+   * Record an uploaded photo, checked against the stored object rather than
+   * the client's claim
+   */
+  async attachEvidence(input: AttachEvidenceInput, userId: number): Promise<WorkOrderDTO> {
+    const order = await getWorkOrderRow(input.workOrderId);
+    assertOpen(order);
+
+    if (!input.objectKey.startsWith(evidencePrefix(order))) {
+      throw new Error("Upload does not belong to this work order");
+    }
+    if (input.itemKey && !parseWorkOrderChecklist(order.checklist).some((item) => item.key === input.itemKey)) {
+      throw new Error("Checklist item not found");
+    }
+
+    let stat;
+    try {
+      stat = await minioClient.statObject(EVIDENCE_BUCKET, input.objectKey);
+    } catch {
+      throw new Error("Upload not found; upload the photo before attaching it");
+    }
+
+    const mimeType = String(stat.metaData?.["content-type"] ?? "application/octet-stream");
+    validateEvidence(mimeType, stat.size);
+
+    await db.workOrderEvidence.create({
+      data: {
+        itemKey: input.itemKey ?? null,
+        objectKey: input.objectKey,
+        mimeType: mimeType.split(";")[0]!.trim().toLowerCase(),
+        fileSize: stat.size,
+        workOrderId: order.id,
+        uploadedById: userId,
+      },
+    });
+
+    return toWorkOrderDTO(await getWorkOrderRow(order.id));
+  },
+
+  /**
+   * Short-lived URL for viewing a photo
+   */
+  async getEvidenceUrl(evidenceId: number): Promise<{ workOrderId: number; url: string }> {
+    const evidence = await db.workOrderEvidence.findUnique({ where: { id: evidenceId } });
+    if (!evidence) {
+      throw new Error("Evidence not found");
+    }
+
+    const url = await minioClient.presignedGetObject(EVIDENCE_BUCKET, evidence.objectKey, DOWNLOAD_URL_EXPIRY_SECONDS, {
+      "response-content-type": evidence.mimeType,
+    });
+
+    return { workOrderId: evidence.workOrderId, url };
+  },
+
+  /**
+   * Complete a work order once its checklist is done and photographed, and
+   * advance its schedule from now (and the reading at completion)
+   */
+  async completeWorkOrder(input: CompleteWorkOrderInput, userId: number): Promise<WorkOrderDTO> {
+    const order = await getWorkOrderRow(input.workOrderId);
+    assertOpen(order);
+
+    const photographed = new Set(
+      order.evidence.map((evidence) => evidence.itemKey).filter((key): key is string => key !== null)
+    );
+    const problems = completionProblems(parseWorkOrderChecklist(order.checklist), photographed);
+    if (problems.length > 0) {
+      throw new Error(`Work order cannot be completed: ${problems.join("; ")}`);
+    }
+
+    const schedule = order.scheduleId ? await getScheduleRow(order.scheduleId) : null;
+    if (schedule?.triggerType === "USAGE" && input.usageReading === undefined) {
+      throw new Error(`Enter the meter reading (${schedule.usageUnit}) to complete this work order`);
+    }
+    if (schedule && input.usageReading !== undefined && input.usageReading < schedule.currentUsage) {
+      throw new Error("Meter reading is below the last recorded reading");
+    }
+
+    const now = new Date();
+
+    await db.$transaction(async (tx) => {
+      const { count } = await tx.workOrder.updateMany({
+        where: { id: order.id, status: { in: OPEN_STATUSES } },
+        data: {
+          status: "COMPLETED",
+          completedAt: now,
+          completedById: userId,
+          startedAt: order.startedAt ?? now,
+          usageReading: input.usageReading ?? null,
+          ...(input.notes !== undefined ? { notes: input.notes } : {}),
+        },
+      });
+      if (count === 0) {
+        throw new Error("Work order is no longer open");
+      }
+
+      if (schedule) {
+        const usage = input.usageReading ?? schedule.currentUsage;
+        await tx.maintenanceSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            lastPerformedAt: now,
+            lastPerformedUsage: usage,
+            currentUsage: usage,
+            ...nextDue(schedule, now, usage),
+            overdueNotifiedAt: null,
+          },
+        });
+      }
+    });
+
+    return toWorkOrderDTO(await getWorkOrderRow(order.id));
+  },
+
+  async cancelWorkOrder(workOrderId: number): Promise<WorkOrderDTO> {
+    const order = await getWorkOrderRow(workOrderId);
+    assertOpen(order);
+
+    const updated = await db.workOrder.update({
+      where: { id: order.id },
+      data: { status: "CANCELLED" },
+      include: workOrderInclude,
+    });
+
+    return toWorkOrderDTO(updated);
+  },
+
+  /**
+   * Completed work orders of an asset, most recent first
+   */
+  async getServiceHistory(assetId: number): Promise<WorkOrderDTO[]> {
+    const orders = await db.workOrder.findMany({
+      where: { assetId, status: "COMPLETED" },
+      include: workOrderInclude,
+      orderBy: { completedAt: "desc" },
+    });
+    return orders.map(toWorkOrderDTO);
+  },
+
+  /**
+   * Notify the project owner and the tenant's maintainers once about each
+   * newly overdue schedule
+   */
+  async notifyOverdueSchedules(now = new Date()): Promise<{ notified: number }> {
+    const candidates = await db.maintenanceSchedule.findMany({
+      where: {
+        isActive: true,
+        overdueNotifiedAt: null,
+        OR: [{ nextDueAt: { lte: now } }, { triggerType: "USAGE", nextDueUsage: { not: null } }],
+      },
+      select: {
+        id: true,
+        assetId: true,
+        projectId: true,
+        triggerType: true,
+        nextDueAt: true,
+        nextDueUsage: true,
+        currentUsage: true,
+      },
+    });
+    const overdue = candidates.filter((schedule) => isOverdue(schedule, now));
+
+    const recipientsByProject = new Map<number, number[]>();
+    for (const schedule of overdue) {
+      let recipients = recipientsByProject.get(schedule.projectId);
+      if (!recipients) {
+        const project = await db.project.findUnique({
+          where: { id: schedule.projectId },
+          select: { userId: true, tenantId: true },
+        });
+        if (!project) continue;
+
+        const tenantId = project.tenantId ?? project.userId;
+        const maintainers = await db.user.findMany({
+          where: { tenantId, isActive: true, archetype: { code: "MAINTAINER" } },
+          select: { id: true },
+        });
+        recipients = [...new Set([project.userId, ...maintainers.map((user) => user.id)])];
+        recipientsByProject.set(schedule.projectId, recipients);
+      }
+
+      for (const userId of recipients) {
+        await NotificationService.triggerMaintenanceOverdue(schedule.id, userId);
+      }
+      await db.maintenanceSchedule.update({
+        where: { id: schedule.id },
+        data: { overdueNotifiedAt: now },
+      });
+
+      await WorkflowService.trigger("MAINTENANCE_DUE", {
+        projectId: schedule.projectId,
+        assetId: schedule.assetId,
+        details: { scheduleId: schedule.id },
+      }).catch((err) => logError(err, { trigger: "MAINTENANCE_DUE", scheduleId: schedule.id }));
+    }
+
+    return { notified: overdue.length };
+  },
+};
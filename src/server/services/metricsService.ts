@@ -79,6 +79,13 @@ export const authAttempts = new Counter({
   registers: [register],
 });
 
+export const systemDataAccess = new Counter({
+  name: "optropic_system_data_access_total",
+  help: "Total number of cross-tenant (system) data scopes entered",
+  labelNames: ["reason"],
+  registers: [register],
+});
+
 export const codeScans = new Counter({
   name: "optropic_code_scans_total",
   help: "Total number of code scans",
@@ -0,0 +1,310 @@
+/**
+ * Optropic Platform – MFA Service
+ * -------------------------------
+ * Responsibilities:
+ *  - Enroll users in TOTP (RFC 6238): a pending secret shown as a QR code,
+ *    enabled once the first code verifies, stored encrypted with the
+ *    tenant's data key
+ *  - Issue hashed one-time recovery codes and accept them in place of a
+ *    TOTP code
+ *  - Verify second-factor codes without accepting a TOTP step twice
+ *  - Keep the tenant policy naming the archetypes that must use MFA, and
+ *    decide what a password sign-in still needs
+ *  - Sign the short-lived challenges that carry a sign-in from the password
+ *    step to the second factor
+ */
+
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { db } from "../db";
+import { env } from "../env";
+import { logger } from "../utils/logger";
+import { encodeQR, renderQRCodeSVG } from "../utils/qrEncoder";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isMfaRequired,
+  looksLikeTotp,
+  normalizeRecoveryCode,
+  otpauthUri,
+  verifyTotp,
+} from "../utils/totp";
+import { EnvelopeService } from "./envelopeService";
+
+const ISSUER = "Optropic";
+const CHALLENGE_EXPIRY = "5m";
+/** Challenges are signed apart from access tokens so neither passes as the other */
+const CHALLENGE_SECRET = `${env.JWT_SECRET}:mfa-challenge`;
+
+/** What a sign-in needs after the password: nothing, a code, or enrollment first */
+export type MfaRequirement = "none" | "verify" | "enroll";
+
+export type MfaChallengePurpose = "verify" | "enroll";
+
+export interface MfaStatusDTO {
+  enabled: boolean;
+  enabledAt: Date | null;
+  /** The tenant policy requires MFA for the user's archetype */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollmentDTO {
+  /** Base32 secret for manual entry */
+  secret: string;
+  otpauthUri: string;
+  /** The URI as an SVG QR code data URI */
+  qrCode: string;
+}
+
+export interface MfaPolicyDTO {
+  tenantId: number;
+  mfaRequiredArchetypes: string[];
+  updatedAt: Date | null;
+}
+
+const mfaUserSelect = {
+  id: true,
+  email: true,
+  role: true,
+  tenantId: true,
+  mfaEnabled: true,
+  mfaEnabledAt: true,
+  mfaSecret: true,
+  mfaPendingSecret: true,
+  mfaLastStep: true,
+  archetype: { select: { code: true } },
+} as const;
+
+async function getUser(userId: number) {
+  const user = await db.user.findUnique({ where: { id: userId }, select: mfaUserSelect });
+  if (!user) {
+    throw new Error("User not found");
+  }
+  return user;
+}
+
+type MfaUser = Awaited<ReturnType<typeof getUser>>;
+
+function tenantOf(user: { id: number; tenantId: number | null }): number {
+  return user.tenantId ?? user.id;
+}
+
+async function requiredArchetypes(tenantId: number): Promise<string[]> {
+  const policy = await db.tenantSecurityPolicy.findUnique({ where: { tenantId } });
+  return policy?.mfaRequiredArchetypes ?? [];
+}
+
+async function isRequiredFor(user: MfaUser): Promise<boolean> {
+  return isMfaRequired(await requiredArchetypes(tenantOf(user)), user.archetype?.code ?? user.role);
+}
+
+/**
+ * Replace a user's recovery codes; returns the new codes in plain text
+ */
+async function replaceRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  const hashes = await Promise.all(codes.map((code) => bcrypt.hash(normalizeRecoveryCode(code), 10)));
+
+  await db.$transaction([
+    db.mfaRecoveryCode.deleteMany({ where: { userId } }),
+    db.mfaRecoveryCode.createMany({ data: hashes.map((codeHash) => ({ userId, codeHash })) }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Accept a TOTP step once; a concurrent request with the same code loses
+ */
+async function acceptStep(userId: number, step: number): Promise<boolean> {
+  const { count } = await db.user.updateMany({
+    where: { id: userId, OR: [{ mfaLastStep: null }, { mfaLastStep: { lt: step } }] },
+    data: { mfaLastStep: step },
+  });
+  return count === 1;
+}
+
+async function useRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const normalized = normalizeRecoveryCode(code);
+  const candidates = await db.mfaRecoveryCode.findMany({ where: { userId, usedAt: null } });
+
+  for (const candidate of candidates) {
+    if (await bcrypt.compare(normalized, candidate.codeHash)) {
+      const { count } = await db.mfaRecoveryCode.updateMany({
+        where: { id: candidate.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (count === 1) {
+        logger.info({ userId, remaining: candidates.length - 1 }, "MFA recovery code used");
+      }
+      return count === 1;
+    }
+  }
+
+  return false;
+}
+
+async function verifyUserCode(user: MfaUser, code: string): Promise<boolean> {
+  if (!user.mfaEnabled || !user.mfaSecret) {
+    return false;
+  }
+
+  if (looksLikeTotp(code)) {
+    const secret = await EnvelopeService.decryptMfaSecret(user.mfaSecret);
+    const step = verifyTotp(secret, code, new Date(), user.mfaLastStep);
+    return step !== null && (await acceptStep(user.id, step));
+  }
+
+  return await useRecoveryCode(user.id, code);
+}
+
+export const MfaService = {
+  async getPolicy(tenantId: number): Promise<MfaPolicyDTO> {
+    const policy = await db.tenantSecurityPolicy.findUnique({ where: { tenantId } });
+    return {
+      tenantId,
+      mfaRequiredArchetypes: policy?.mfaRequiredArchetypes ?? [],
+      updatedAt: policy?.updatedAt ?? null,
+    };
+  },
+
+  /**
+   * Require MFA for these archetypes; their users are sent to enrollment at
+   * their next sign-in
+   */
+  async updatePolicy(tenantId: number, archetypes: string[], updatedById: number): Promise<MfaPolicyDTO> {
+    const mfaRequiredArchetypes = [...new Set(archetypes)];
+    const policy = await db.tenantSecurityPolicy.upsert({
+      where: { tenantId },
+      create: { tenantId, mfaRequiredArchetypes, updatedById },
+      update: { mfaRequiredArchetypes, updatedById },
+    });
+    return { tenantId, mfaRequiredArchetypes: policy.mfaRequiredArchetypes, updatedAt: policy.updatedAt };
+  },
+
+  async status(userId: number): Promise<MfaStatusDTO> {
+    const user = await getUser(userId);
+    const recoveryCodesRemaining = await db.mfaRecoveryCode.count({ where: { userId, usedAt: null } });
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      required: await isRequiredFor(user),
+      recoveryCodesRemaining,
+    };
+  },
+
+  async loginRequirement(userId: number): Promise<MfaRequirement> {
+    const user = await getUser(userId);
+    if (user.mfaEnabled) return "verify";
+    return (await isRequiredFor(user)) ? "enroll" : "none";
+  },
+
+  createChallenge(userId: number, purpose: MfaChallengePurpose): string {
+    return jwt.sign({ mfaUserId: userId, purpose }, CHALLENGE_SECRET, { expiresIn: CHALLENGE_EXPIRY });
+  },
+
+  /**
+   * The user a challenge was issued to, if it is valid and for `purpose`
+   */
+  readChallenge(token: string, purpose: MfaChallengePurpose): number | null {
+    try {
+      const claims = jwt.verify(token, CHALLENGE_SECRET) as { mfaUserId?: number; purpose?: string };
+      return claims.purpose === purpose && typeof claims.mfaUserId === "number" ? claims.mfaUserId : null;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * A new pending secret; MFA is enabled only once a code from it verifies
+   */
+  async beginEnrollment(userId: number): Promise<MfaEnrollmentDTO> {
+    const user = await getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error("MFA is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await db.user.update({
+      where: { id: userId },
+      data: { mfaPendingSecret: await EnvelopeService.encryptMfaSecret(tenantOf(user), secret) },
+    });
+
+    const uri = otpauthUri(ISSUER, user.email, secret);
+    const svg = renderQRCodeSVG(encodeQR(uri, { errorCorrection: "M" }), { size: 200 });
+
+    return {
+      secret,
+      otpauthUri: uri,
+      qrCode: `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`,
+    };
+  },
+
+  /**
+   * Enable MFA with the first code from the pending secret; returns the
+   * recovery codes, which are shown once
+   */
+  async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const user = await getUser(userId);
+    if (user.mfaEnabled) {
+      throw new Error("MFA is already enabled");
+    }
+    if (!user.mfaPendingSecret) {
+      throw new Error("MFA enrollment has not been started");
+    }
+
+    const secret = await EnvelopeService.decryptMfaSecret(user.mfaPendingSecret);
+    const step = verifyTotp(secret, code, new Date());
+    if (step === null) {
+      throw new Error("Invalid authentication code");
+    }
+
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaEnabledAt: new Date(),
+        mfaSecret: user.mfaPendingSecret,
+        mfaPendingSecret: null,
+        mfaLastStep: step,
+      },
+    });
+
+    return await replaceRecoveryCodes(userId);
+  },
+
+  /**
+   * Check a TOTP or recovery code of a user with MFA enabled
+   */
+  async verify(userId: number, code: string): Promise<boolean> {
+    return await verifyUserCode(await getUser(userId), code);
+  },
+
+  async disable(userId: number, code: string): Promise<void> {
+    const user = await getUser(userId);
+    if (await isRequiredFor(user)) {
+      throw new Error("Your tenant requires MFA for your role");
+    }
+    if (!(await verifyUserCode(user, code))) {
+      throw new Error("Invalid authentication code");
+    }
+
+    await db.$transaction([
+      db.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      db.user.update({
+        where: { id: userId },
+        data: { mfaEnabled: false, mfaEnabledAt: null, mfaSecret: null, mfaPendingSecret: null, mfaLastStep: null },
+      }),
+    ]);
+  },
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    const user = await getUser(userId);
+    if (!(await verifyUserCode(user, code))) {
+      throw new Error("Invalid authentication code");
+    }
+    return await replaceRecoveryCodes(userId);
+  },
+};
@@ -21,7 +21,8 @@ export type NotificationCategory =
   | "KEY_ROTATED"
   | "KEY_REVOKED"
   | "KEY_EXPIRING"
-  | "VERIFICATION_FAILED";
+  | "VERIFICATION_FAILED"
+  | "MAINTENANCE";
 
 export type NotificationType = "INFO" | "WARNING" | "CRITICAL" | "SUCCESS";
 
@@ -461,6 +462,45 @@ export const NotificationService = {
     });
   },
 
+  /**
+   * Trigger: Maintenance schedule overdue
+   */
+  async triggerMaintenanceOverdue(
+    scheduleId: number,
+    userId: number
+  ): Promise<void> {
+    const schedule = await db.maintenanceSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { asset: { select: { id: true, assetName: true } } },
+    });
+
+    if (!schedule) return;
+
+    const due =
+      schedule.triggerType === "USAGE"
+        ? `at ${schedule.nextDueUsage} ${schedule.usageUnit ?? ""}`.trimEnd()
+        : `since ${schedule.nextDueAt?.toISOString().slice(0, 10)}`;
+
+    await this.create({
+      userId,
+      category: "MAINTENANCE",
+      type: "WARNING",
+      title: "Maintenance Overdue",
+      message: `"${schedule.name}" for "${schedule.asset.assetName}" is overdue (due ${due}).`,
+      metadata: {
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        assetId: schedule.asset.id,
+        assetName: schedule.asset.assetName,
+        projectId: schedule.projectId,
+        nextDueAt: schedule.nextDueAt?.toISOString() ?? null,
+        nextDueUsage: schedule.nextDueUsage,
+        currentUsage: schedule.currentUsage,
+      },
+      link: `/maintenance`,
+    });
+  },
+
   // ---- Helpers --------------------------------------------------------------
 
   /**
@@ -0,0 +1,151 @@
+/**
+ * Optropic Platform – Permission Service
+ * --------------------------------------
+ * Responsibilities:
+ *  - Resolve a user's permissions from their archetype (falling back to the
+ *    legacy role) and their tenant's TenantRoleMapping overrides; calls made
+ *    with an API key hold only the key's scopes
+ *  - Show a tenant's archetype × permission matrix
+ *  - Store matrix edits as grants and revocations relative to the defaults
+ */
+
+import type { Permission, ArchetypeCode } from "@optropic/shared";
+import { db } from "../db";
+import { getApiKeyGrant } from "../tenantContext";
+import { grantedScopes } from "../utils/apiKeys";
+import { defaultPermissions, overridesFor, resolvePermissions } from "../utils/permissions";
+
+/**
+ * A signed-in user's access, as put on the tRPC context by
+ * `requirePermission`
+ */
+export interface UserAccess {
+  userId: number;
+  tenantId: number;
+  /** Archetype code, falling back to the legacy role */
+  archetype: string | null;
+  /** Users without a tenant own their own tenant */
+  isTenantOwner: boolean;
+  permissions: Set<Permission>;
+}
+
+export interface RolePermissionsDTO {
+  archetypeId: number;
+  code: string;
+  label: string;
+  isEnabled: boolean;
+  /** ADMIN always holds every permission */
+  locked: boolean;
+  defaults: Permission[];
+  permissions: Permission[];
+  grantedPermissions: string[];
+  revokedPermissions: string[];
+}
+
+async function getArchetype(code: ArchetypeCode) {
+  const archetype = await db.roleArchetype.findUnique({ where: { code } });
+  if (!archetype) {
+    throw new Error("Role archetype not found");
+  }
+  return archetype;
+}
+
+export const PermissionService = {
+  async forUser(userId: number): Promise<UserAccess> {
+    const user = await db.user.findUnique({ where: { id: userId }, include: { archetype: true } });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const tenantId = user.tenantId ?? user.id;
+    const archetype = user.archetype?.code ?? user.role;
+    const override = await db.tenantRoleMapping.findFirst({
+      where: { tenantId, archetype: { code: archetype } },
+      select: { isEnabled: true, grantedPermissions: true, revokedPermissions: true },
+    });
+
+    const permissions = resolvePermissions(archetype, override, tenantId === user.id);
+
+    // API keys act as the tenant owner, limited to their scopes and without
+    // the owner's archetype
+    const apiKey = getApiKeyGrant();
+    if (apiKey && user.id === tenantId) {
+      return {
+        userId: user.id,
+        tenantId,
+        archetype: null,
+        isTenantOwner: false,
+        permissions: grantedScopes(apiKey.scopes, permissions),
+      };
+    }
+
+    return {
+      userId: user.id,
+      tenantId,
+      archetype,
+      isTenantOwner: tenantId === user.id,
+      permissions,
+    };
+  },
+
+  async can(userId: number, permission: Permission): Promise<boolean> {
+    const access = await this.forUser(userId);
+    return access.permissions.has(permission);
+  },
+
+  /**
+   * Every active archetype with its effective permissions in the tenant
+   */
+  async getMatrix(tenantId: number): Promise<RolePermissionsDTO[]> {
+    const [archetypes, mappings] = await Promise.all([
+      db.roleArchetype.findMany({ where: { isActive: true }, orderBy: { id: "asc" } }),
+      db.tenantRoleMapping.findMany({ where: { tenantId } }),
+    ]);
+
+    return archetypes.map((archetype) => {
+      const mapping = mappings.find((candidate) => candidate.archetypeId === archetype.id) ?? null;
+      return {
+        archetypeId: archetype.id,
+        code: archetype.code,
+        label: mapping?.customLabel || archetype.defaultLabel,
+        isEnabled: mapping?.isEnabled ?? true,
+        locked: archetype.code === "ADMIN",
+        defaults: defaultPermissions(archetype.code),
+        permissions: [...resolvePermissions(archetype.code, mapping)],
+        grantedPermissions: mapping?.grantedPermissions ?? [],
+        revokedPermissions: mapping?.revokedPermissions ?? [],
+      };
+    });
+  },
+
+  /**
+   * Give an archetype exactly these permissions in the tenant
+   */
+  async setRolePermissions(
+    tenantId: number,
+    code: ArchetypeCode,
+    permissions: Permission[]
+  ): Promise<RolePermissionsDTO> {
+    if (code === "ADMIN") {
+      throw new Error("ADMIN permissions cannot be changed");
+    }
+    const archetype = await getArchetype(code);
+    const overrides = overridesFor(code, permissions);
+
+    await db.tenantRoleMapping.upsert({
+      where: { tenantId_archetypeId: { tenantId, archetypeId: archetype.id } },
+      create: { tenantId, archetypeId: archetype.id, ...overrides },
+      update: overrides,
+    });
+
+    const matrix = await this.getMatrix(tenantId);
+    return matrix.find((row) => row.code === code)!;
+  },
+
+  /**
+   * Back to the archetype's defaults
+   */
+  async resetRolePermissions(tenantId: number, code: ArchetypeCode): Promise<RolePermissionsDTO> {
+    return await this.setRolePermissions(tenantId, code, defaultPermissions(code));
+  },
+};
@@ -0,0 +1,323 @@
+/**
+ * Optropic Platform – Redirect Service
+ * ------------------------------------
+ * Responsibilities:
+ *  - Resolve a scanned code to its destination: verify the code, evaluate
+ *    the project's content redirect rules, fall back to the default content
+ *  - Route to hosted landing pages, which the scan route renders
+ *  - Split CAMPAIGN traffic across the variants of a running experiment
+ *  - Start the project's public_scan workflows for verified scans
+ *  - Dry-run rules against a simulated scan (nothing verified or recorded)
+ *  - Validate and store Content.redirectRules (versioned with the content)
+ */
+
+import type { Prisma } from "@prisma/client";
+import type { RedirectRuleSet, SimulatedScan } from "@optropic/shared";
+import { db } from "../db";
+import { logError } from "../utils/logger";
+import {
+  abBucketFor,
+  evaluateRules,
+  parseRuleSet,
+  type RedirectScanContext,
+  type RuleTrace,
+} from "../utils/redirectRules";
+import {
+  verificationPipeline,
+  type VerificationFactor,
+  type VerificationRequest,
+} from "./verificationPipeline";
+import { ContentService } from "./contentService";
+import { ExperimentService, parseVariants } from "./experimentService";
+import { assignVariant } from "../utils/experiments";
+import { WorkflowService } from "./workflowService";
+
+export type RedirectDecision =
+  | {
+      kind: "redirect";
+      location: string;
+      contentId: number;
+      ruleId?: string;
+      /** Variant served by a running experiment */
+      experiment?: { id: number; variantKey: string };
+    }
+  | { kind: "page"; contentId: number; ruleId?: string }
+  | { kind: "blocked"; message: string; contentId: number; ruleId: string }
+  | { kind: "unverified"; reason?: string; message: string }
+  | { kind: "notFound"; message: string };
+
+export interface ContentRuleTrace {
+  contentId: number;
+  title: string;
+  rules: RuleTrace[];
+  /** Stored rules that failed validation and were skipped */
+  error?: string;
+}
+
+export interface RedirectEvaluation {
+  decision: RedirectDecision;
+  context?: RedirectScanContext;
+  contents: ContentRuleTrace[];
+  /** The verified code, for rendering hosted pages */
+  code?: {
+    id: number;
+    trustScore: number;
+    warnings: string[];
+    factors: VerificationFactor[];
+  };
+}
+
+export interface ScanRedirectRequest extends VerificationRequest {
+  /** Parsed Accept-Language, most preferred first */
+  languages?: string[];
+}
+
+interface RoutableContent {
+  id: number;
+  title: string;
+  contentType: string;
+  url: string | null;
+  fileUrl: string | null;
+  redirectRules: Prisma.JsonValue;
+  landingPage: Prisma.JsonValue;
+  /** The running experiment, if any */
+  experiments: { id: number; variants: Prisma.JsonValue }[];
+}
+
+const DEFAULT_BLOCK_MESSAGE = "This code is not available here";
+
+/**
+ * Where a content item sends the scanner: its running experiment's variant
+ * for this visitor, its link, else its hosted page
+ */
+function destinationOf(content: RoutableContent, ctx: RedirectScanContext, ruleId?: string): RedirectDecision | null {
+  const experiment = content.experiments[0];
+  if (experiment) {
+    try {
+      const variant = assignVariant(parseVariants(experiment.variants), ctx.visitorKey, String(experiment.id));
+      return {
+        kind: "redirect",
+        location: variant.url,
+        contentId: content.id,
+        ...(ruleId ? { ruleId } : {}),
+        experiment: { id: experiment.id, variantKey: variant.key },
+      };
+    } catch (error) {
+      logError(error, { experimentId: experiment.id });
+    }
+  }
+
+  const href = content.url ?? content.fileUrl;
+  if (href) {
+    return { kind: "redirect", location: href, contentId: content.id, ...(ruleId ? { ruleId } : {}) };
+  }
+  if (content.contentType === "LANDING_PAGE" && content.landingPage !== null) {
+    return { kind: "page", contentId: content.id, ...(ruleId ? { ruleId } : {}) };
+  }
+  return null;
+}
+
+async function activeContents(projectId: number): Promise<RoutableContent[]> {
+  return await db.content.findMany({
+    where: { projectId, isActive: true },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      title: true,
+      contentType: true,
+      url: true,
+      fileUrl: true,
+      redirectRules: true,
+      landingPage: true,
+      experiments: {
+        where: { status: "RUNNING" },
+        select: { id: true, variants: true },
+        take: 1,
+      },
+    },
+  });
+}
+
+/**
+ * Evaluate each content item's rules in creation order; the first rule that
+ * fires decides. Without one, use the first content with a destination.
+ */
+function decide(
+  contents: RoutableContent[],
+  ctx: RedirectScanContext,
+  overrides: Map<number, RedirectRuleSet | null> = new Map()
+): Omit<RedirectEvaluation, "context"> {
+  const traces: ContentRuleTrace[] = [];
+  let decision: RedirectDecision | null = null;
+
+  for (const content of contents) {
+    let ruleSet: RedirectRuleSet | null;
+    try {
+      ruleSet = overrides.has(content.id) ? overrides.get(content.id)! : parseRuleSet(content.redirectRules);
+    } catch (error) {
+      traces.push({ contentId: content.id, title: content.title, rules: [], error: (error as Error).message });
+      continue;
+    }
+
+    // Rules after the deciding one are listed but not evaluated
+    if (decision) {
+      const rules = (ruleSet?.rules ?? []).map((rule) => ({
+        ruleId: rule.id,
+        name: rule.name,
+        enabled: rule.enabled,
+        matched: false,
+        failed: [],
+      }));
+      traces.push({ contentId: content.id, title: content.title, rules });
+      continue;
+    }
+
+    const evaluation = evaluateRules(ruleSet, ctx);
+    traces.push({ contentId: content.id, title: content.title, rules: evaluation.trace });
+    if (!evaluation.rule || !evaluation.action) continue;
+
+    const ruleId = evaluation.rule.id;
+    const action = evaluation.action;
+
+    if (action.type === "BLOCK") {
+      decision = { kind: "blocked", message: action.message ?? DEFAULT_BLOCK_MESSAGE, contentId: content.id, ruleId };
+    } else if (action.type === "REDIRECT") {
+      decision = { kind: "redirect", location: action.url, contentId: content.id, ruleId };
+    } else {
+      const target = contents.find((candidate) => candidate.id === action.contentId);
+      decision = (target && destinationOf(target, ctx, ruleId)) ?? {
+        kind: "notFound",
+        message: "Content for this rule is not available",
+      };
+    }
+  }
+
+  if (!decision) {
+    decision = contents.map((content) => destinationOf(content, ctx)).find((destination) => destination !== null) ?? {
+      kind: "notFound",
+      message: "No content published for this code",
+    };
+  }
+
+  return { decision, contents: traces };
+}
+
+export const RedirectService = {
+  /**
+   * Verify a scanned code and decide where to send the scanner
+   */
+  async resolveScan(request: ScanRedirectRequest): Promise<RedirectEvaluation> {
+    const outcome = await verificationPipeline.verify(request);
+
+    if (!outcome.success || !outcome.code) {
+      return {
+        decision: { kind: "unverified", reason: outcome.reason, message: outcome.message },
+        contents: [],
+      };
+    }
+
+    const code = outcome.code;
+    void WorkflowService.trigger("PUBLIC_SCAN", {
+      projectId: code.project.id,
+      assetId: code.assetId,
+      codeId: code.id,
+      details: { scanId: outcome.scanId },
+    }).catch((err) => logError(err, { trigger: "PUBLIC_SCAN", codeId: code.id }));
+
+    const [scanCount, contents] = await Promise.all([
+      db.scan.count({ where: { codeId: outcome.code.id } }),
+      activeContents(outcome.code.project.id),
+    ]);
+
+    const role = (outcome.payload as { role?: unknown } | null)?.role;
+    const visitorKey = request.deviceId ?? request.ipAddress ?? request.userAgent ?? request.codeValue;
+    const context: RedirectScanContext = {
+      now: new Date(),
+      country: request.country,
+      region: request.region,
+      deviceType: request.deviceType,
+      scanCount,
+      role: typeof role === "string" ? role : undefined,
+      languages: request.languages ?? [],
+      abBucket: abBucketFor(visitorKey, String(outcome.code.project.id)),
+      visitorKey,
+    };
+
+    const evaluation = decide(contents, context);
+    for (const trace of evaluation.contents) {
+      if (trace.error) logError(new Error(trace.error), { contentId: trace.contentId });
+    }
+
+    const { decision } = evaluation;
+    if (decision.kind === "redirect" && decision.experiment) {
+      decision.location = await ExperimentService.recordExposure(
+        { experimentId: decision.experiment.id, variantKey: decision.experiment.variantKey, location: decision.location },
+        outcome.scanId
+      );
+    }
+
+    return {
+      ...evaluation,
+      context,
+      code: {
+        id: outcome.code.id,
+        trustScore: outcome.trustScore,
+        warnings: outcome.warnings,
+        factors: outcome.factors,
+      },
+    };
+  },
+
+  /**
+   * Show which rule would fire for a simulated scan. `override` evaluates
+   * unsaved rules in place of one content item's stored rules.
+   */
+  async dryRun(
+    projectId: number,
+    scan: SimulatedScan,
+    override?: { contentId: number; ruleSet: RedirectRuleSet | null }
+  ): Promise<RedirectEvaluation> {
+    const contents = await activeContents(projectId);
+
+    const overrides = new Map<number, RedirectRuleSet | null>();
+    if (override) {
+      if (!contents.some((content) => content.id === override.contentId)) {
+        throw new Error("Content not found or inactive");
+      }
+      overrides.set(override.contentId, override.ruleSet);
+    }
+
+    const context: RedirectScanContext = {
+      now: scan.at ? new Date(scan.at) : new Date(),
+      country: scan.country,
+      region: scan.region,
+      deviceType: scan.deviceType,
+      scanCount: scan.scanCount,
+      role: scan.role,
+      languages: scan.language,
+      abBucket: scan.abBucket ?? 0,
+      // The simulated bucket stands in for the scanner's device hash
+      visitorKey: String(scan.abBucket ?? 0),
+    };
+
+    return { ...decide(contents, context, overrides), context };
+  },
+
+  /**
+   * Replace a content item's rules as a new content version; null clears them
+   */
+  async updateRules(
+    contentId: number,
+    ruleSet: RedirectRuleSet | null,
+    userId: number | null
+  ): Promise<RedirectRuleSet | null> {
+    await ContentService.updateContent({ contentId, redirectRules: ruleSet }, userId);
+
+    const content = await db.content.findUniqueOrThrow({
+      where: { id: contentId },
+      select: { redirectRules: true },
+    });
+
+    return parseRuleSet(content.redirectRules);
+  },
+};
@@ -45,10 +45,11 @@ async function verifyTokenHash(
 }
 
 /**
- * Generate JWT access token
+ * Generate JWT access token; `stepUpAt` (epoch seconds) marks a recent
+ * re-authentication
  */
-function generateAccessToken(userId: number): string {
-  return jwt.sign({ userId }, env.JWT_SECRET, {
+function generateAccessToken(userId: number, stepUpAt?: number): string {
+  return jwt.sign(stepUpAt === undefined ? { userId } : { userId, stepUpAt }, env.JWT_SECRET, {
     expiresIn: `${ACCESS_TOKEN_EXPIRY_HOURS}h`,
   });
 }
@@ -81,6 +82,20 @@ export async function createTokenPair(userId: number): Promise<TokenPair> {
   };
 }
 
+/**
+ * Access token for a user who just re-authenticated (step-up); refreshed
+ * tokens drop the mark again
+ */
+export function createStepUpAccessToken(userId: number): { accessToken: string; expiresIn: number; stepUpAt: number } {
+  const stepUpAt = Math.floor(Date.now() / 1000);
+  logger.info({ userId }, "Issued step-up access token");
+  return {
+    accessToken: generateAccessToken(userId, stepUpAt),
+    expiresIn: ACCESS_TOKEN_EXPIRY_HOURS * 3600,
+    stepUpAt,
+  };
+}
+
 /**
  * Validate and refresh access token
  */
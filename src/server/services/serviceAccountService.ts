@@ -0,0 +1,335 @@
+/**
+ * Optropic Platform – Service Account Service
+ * -------------------------------------------
+ * Responsibilities:
+ *  - Keep a tenant's service accounts, the machine clients (scanner fleets,
+ *    MES lines, ERP integrations) that call the API without a person
+ *  - Issue API keys with scopes, a rate-limit tier and an optional expiry;
+ *    the key is returned once and only its hash is stored
+ *  - Rotate keys, optionally letting the old key overlap the new one, and
+ *    revoke them
+ *  - Authenticate a presented key and track when and from where it was
+ *    last used
+ */
+
+import { Prisma } from "@prisma/client";
+import type {
+  ApiKeyRateLimitTier,
+  CreateApiKeyInput,
+  CreateServiceAccountInput,
+  Permission,
+  UpdateServiceAccountInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import type { ApiKeyGrant } from "../tenantContext";
+import {
+  apiKeyScopes,
+  generateApiKey,
+  isApiKeyUsable,
+  matchesApiKeyHash,
+  parseApiKey,
+  shouldTrackUse,
+} from "../utils/apiKeys";
+
+export type ApiKeyStatus = "ACTIVE" | "EXPIRED" | "REVOKED";
+
+export interface ApiKeyDTO {
+  id: number;
+  name: string;
+  /** Recognisable start of the key, e.g. `opk_1a2b3c4d5e6f_…` */
+  displayKey: string;
+  scopes: Permission[];
+  rateLimitTier: ApiKeyRateLimitTier;
+  status: ApiKeyStatus;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  rotatedFromId: number | null;
+  createdAt: Date;
+}
+
+export interface ServiceAccountDTO {
+  id: number;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  createdById: number | null;
+  apiKeys: ApiKeyDTO[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A newly issued key; `key` is not stored and cannot be shown again */
+export interface IssuedApiKey {
+  apiKey: ApiKeyDTO;
+  key: string;
+}
+
+export interface ApiKeyActivityDTO {
+  id: number;
+  action: string;
+  path: string | null;
+  type: string | null;
+  ok: boolean | null;
+  ipAddress: string | null;
+  createdAt: Date;
+}
+
+/** A key accepted by `authenticate`, with the tenant it acts for */
+export interface AuthenticatedApiKey extends ApiKeyGrant {
+  name: string;
+  rateLimitTier: ApiKeyRateLimitTier;
+  tenantId: number;
+}
+
+const serviceAccountInclude = {
+  apiKeys: { orderBy: { createdAt: "desc" } },
+} satisfies Prisma.ServiceAccountInclude;
+
+type ServiceAccountRow = Prisma.ServiceAccountGetPayload<{ include: typeof serviceAccountInclude }>;
+type ApiKeyRow = ServiceAccountRow["apiKeys"][number];
+
+function statusOf(apiKey: ApiKeyRow, now = new Date()): ApiKeyStatus {
+  if (apiKey.revokedAt) return "REVOKED";
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) return "EXPIRED";
+  return "ACTIVE";
+}
+
+function toApiKeyDTO(apiKey: ApiKeyRow): ApiKeyDTO {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    displayKey: `opk_${apiKey.prefix}_…`,
+    scopes: apiKeyScopes(apiKey.scopes),
+    rateLimitTier: apiKey.rateLimitTier,
+    status: statusOf(apiKey),
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp,
+    revokedAt: apiKey.revokedAt,
+    rotatedFromId: apiKey.rotatedFromId,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+function toServiceAccountDTO(account: ServiceAccountRow): ServiceAccountDTO {
+  return {
+    id: account.id,
+    name: account.name,
+    description: account.description,
+    isActive: account.isActive,
+    createdById: account.createdById,
+    apiKeys: account.apiKeys.map(toApiKeyDTO),
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+  };
+}
+
+async function getRow(tenantId: number, serviceAccountId: number): Promise<ServiceAccountRow> {
+  const account = await db.serviceAccount.findFirst({
+    where: { id: serviceAccountId, tenantId },
+    include: serviceAccountInclude,
+  });
+  if (!account) {
+    throw new Error("Service account not found");
+  }
+  return account;
+}
+
+async function getKeyRow(tenantId: number, apiKeyId: number): Promise<ApiKeyRow> {
+  const apiKey = await db.apiKey.findFirst({ where: { id: apiKeyId, tenantId } });
+  if (!apiKey) {
+    throw new Error("API key not found");
+  }
+  return apiKey;
+}
+
+function expiryIn(days: number | undefined, from = new Date()): Date | null {
+  return days === undefined ? null : new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export const ServiceAccountService = {
+  async list(tenantId: number): Promise<ServiceAccountDTO[]> {
+    const accounts = await db.serviceAccount.findMany({
+      where: { tenantId },
+      include: serviceAccountInclude,
+      orderBy: { name: "asc" },
+    });
+    return accounts.map(toServiceAccountDTO);
+  },
+
+  async get(tenantId: number, serviceAccountId: number): Promise<ServiceAccountDTO> {
+    return toServiceAccountDTO(await getRow(tenantId, serviceAccountId));
+  },
+
+  async create(tenantId: number, createdById: number, input: CreateServiceAccountInput): Promise<ServiceAccountDTO> {
+    const existing = await db.serviceAccount.findFirst({ where: { tenantId, name: input.name } });
+    if (existing) {
+      throw new Error("A service account with this name already exists");
+    }
+
+    const account = await db.serviceAccount.create({
+      data: { tenantId, createdById, name: input.name, description: input.description },
+      include: serviceAccountInclude,
+    });
+    return toServiceAccountDTO(account);
+  },
+
+  /**
+   * Rename, describe or disable an account; a disabled account's keys stop
+   * working until it is enabled again
+   */
+  async update(tenantId: number, input: UpdateServiceAccountInput): Promise<ServiceAccountDTO> {
+    await getRow(tenantId, input.serviceAccountId);
+
+    const account = await db.serviceAccount.update({
+      where: { id: input.serviceAccountId },
+      data: { name: input.name, description: input.description, isActive: input.isActive },
+      include: serviceAccountInclude,
+    });
+    return toServiceAccountDTO(account);
+  },
+
+  async createKey(tenantId: number, createdById: number, input: CreateApiKeyInput): Promise<IssuedApiKey> {
+    const account = await getRow(tenantId, input.serviceAccountId);
+    if (!account.isActive) {
+      throw new Error("Service account is disabled");
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const apiKey = await db.apiKey.create({
+      data: {
+        serviceAccountId: account.id,
+        tenantId,
+        createdById,
+        name: input.name,
+        prefix,
+        keyHash,
+        scopes: input.scopes,
+        rateLimitTier: input.rateLimitTier,
+        expiresAt: expiryIn(input.expiresInDays),
+      },
+    });
+
+    return { apiKey: toApiKeyDTO(apiKey), key };
+  },
+
+  /**
+   * Replace a key with a new one of the same scopes, tier and lifetime. The
+   * old key is revoked, or expires after `overlapHours` when clients need
+   * time to switch.
+   */
+  async rotateKey(tenantId: number, createdById: number, apiKeyId: number, overlapHours: number): Promise<IssuedApiKey> {
+    const current = await getKeyRow(tenantId, apiKeyId);
+    if (statusOf(current) !== "ACTIVE") {
+      throw new Error("Only active API keys can be rotated");
+    }
+
+    const now = new Date();
+    const lifetime = current.expiresAt ? current.expiresAt.getTime() - current.createdAt.getTime() : null;
+    const overlapEnd = new Date(now.getTime() + overlapHours * 60 * 60 * 1000);
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const [, apiKey] = await db.$transaction([
+      db.apiKey.update({
+        where: { id: current.id },
+        data:
+          overlapHours > 0
+            ? { expiresAt: current.expiresAt && current.expiresAt < overlapEnd ? current.expiresAt : overlapEnd }
+            : { revokedAt: now },
+      }),
+      db.apiKey.create({
+        data: {
+          serviceAccountId: current.serviceAccountId,
+          tenantId,
+          createdById,
+          name: current.name,
+          prefix,
+          keyHash,
+          scopes: current.scopes,
+          rateLimitTier: current.rateLimitTier,
+          expiresAt: lifetime === null ? null : new Date(now.getTime() + lifetime),
+          rotatedFromId: current.id,
+        },
+      }),
+    ]);
+
+    return { apiKey: toApiKeyDTO(apiKey), key };
+  },
+
+  async revokeKey(tenantId: number, apiKeyId: number): Promise<ApiKeyDTO> {
+    const current = await getKeyRow(tenantId, apiKeyId);
+    if (current.revokedAt) {
+      return toApiKeyDTO(current);
+    }
+
+    const apiKey = await db.apiKey.update({
+      where: { id: current.id },
+      data: { revokedAt: new Date() },
+    });
+    return toApiKeyDTO(apiKey);
+  },
+
+  /**
+   * Calls recently made with a key, from the activity log
+   */
+  async activity(tenantId: number, apiKeyId: number, limit: number): Promise<ApiKeyActivityDTO[]> {
+    await getKeyRow(tenantId, apiKeyId);
+
+    const logs = await db.activityLog.findMany({
+      where: { apiKeyId, tenantId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return logs.map((log) => {
+      const values = (log.newValues ?? {}) as { path?: string; type?: string; ok?: boolean };
+      return {
+        id: log.id,
+        action: log.action,
+        path: values.path ?? null,
+        type: values.type ?? null,
+        ok: values.ok ?? null,
+        ipAddress: log.ipAddress,
+        createdAt: log.createdAt,
+      };
+    });
+  },
+
+  /**
+   * The key a caller presented, if it is well-formed, known and usable.
+   * Runs before any tenant is known, so it reads across tenants.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<AuthenticatedApiKey | null> {
+    const prefix = parseApiKey(key);
+    if (!prefix) {
+      return null;
+    }
+
+    const apiKey = await db.apiKey.findUnique({
+      where: { prefix },
+      include: { serviceAccount: { select: { isActive: true } } },
+    });
+    const now = new Date();
+    if (!apiKey || !matchesApiKeyHash(key, apiKey.keyHash) || !isApiKeyUsable(apiKey, now)) {
+      return null;
+    }
+
+    if (shouldTrackUse(apiKey.lastUsedAt, now)) {
+      await db.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress },
+      });
+    }
+
+    return {
+      apiKeyId: apiKey.id,
+      serviceAccountId: apiKey.serviceAccountId,
+      name: apiKey.name,
+      scopes: apiKeyScopes(apiKey.scopes),
+      rateLimitTier: apiKey.rateLimitTier,
+      tenantId: apiKey.tenantId,
+    };
+  },
+};
@@ -0,0 +1,216 @@
+/**
+ * Optropic Platform – Tag Pairing Service
+ * ---------------------------------------
+ * Responsibilities:
+ *  - Bind an optical code to an NFC/RFID tag UID under a pairing key
+ *  - Hand out the diversified SUN keys to write to the tag (once, at pairing)
+ *  - Load pairings and their tag keys for scan-time verification
+ *  - Accept each SDM read counter at most once (replay protection)
+ *  - Unpair / list pairings
+ */
+
+import { db } from "../db";
+import { KeyService, isPairingKeyType } from "./keyService";
+import { deriveTagKeys, parseUid, type TagKeys } from "../utils/ntag424";
+
+export type TagTechnology = "NFC" | "RFID";
+
+export interface TagPairingDTO {
+  id: number;
+  technology: TagTechnology;
+  tagUid: string;
+  status: "ACTIVE" | "REVOKED";
+  codeId: number;
+  pairingKeyId: number;
+  lastCounter: number;
+  lastVerifiedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Keys to configure on the tag's SDM file (hex, AES-128)
+ */
+export interface TagProvisioning {
+  tagUid: string;
+  sdmMetaReadKey: string;
+  sdmFileReadKey: string;
+}
+
+export interface PairTagInput {
+  codeId: number;
+  pairingKeyId: number;
+  tagUid: string;
+}
+
+/**
+ * An active pairing with the keys needed to check a tag response
+ */
+export interface VerifiableTagPairing {
+  id: number;
+  tagUid: string;
+  lastCounter: number;
+  /** Null when the pairing key has been compromised */
+  keys: TagKeys | null;
+}
+
+const TECHNOLOGY_BY_KEY_TYPE: Record<string, TagTechnology> = {
+  NFC_PAIRING: "NFC",
+  RFID_PAIRING: "RFID",
+};
+
+function toPairingDTO(pairing: {
+  id: number;
+  technology: TagTechnology;
+  tagUid: string;
+  status: "ACTIVE" | "REVOKED";
+  codeId: number;
+  pairingKeyId: number;
+  lastCounter: number;
+  lastVerifiedAt: Date | null;
+  createdAt: Date;
+}): TagPairingDTO {
+  return {
+    id: pairing.id,
+    technology: pairing.technology,
+    tagUid: pairing.tagUid,
+    status: pairing.status,
+    codeId: pairing.codeId,
+    pairingKeyId: pairing.pairingKeyId,
+    lastCounter: pairing.lastCounter,
+    lastVerifiedAt: pairing.lastVerifiedAt,
+    createdAt: pairing.createdAt,
+  };
+}
+
+async function tagKeysFor(pairingKeyId: number, tagUid: string): Promise<TagKeys> {
+  const master = await KeyService.getPrivateKey(pairingKeyId);
+  return deriveTagKeys(Buffer.from(master, "hex"), tagUid);
+}
+
+export const TagPairingService = {
+  /**
+   * Pair a code with a tag. The returned keys must be written to the tag's
+   * SDM settings; they are not shown again.
+   */
+  async pairTag(input: PairTagInput): Promise<{ pairing: TagPairingDTO; provisioning: TagProvisioning }> {
+    const tagUid = parseUid(input.tagUid).toString("hex").toUpperCase();
+
+    const [code, pairingKey] = await Promise.all([
+      db.optropicCode.findUnique({
+        where: { id: input.codeId },
+        select: { id: true, projectId: true, tenantId: true, isActive: true },
+      }),
+      db.key.findUnique({
+        where: { id: input.pairingKeyId },
+      }),
+    ]);
+
+    if (!code) {
+      throw new Error("Code not found");
+    }
+    if (!code.isActive) {
+      throw new Error("Revoked codes cannot be paired");
+    }
+    if (!pairingKey || pairingKey.projectId !== code.projectId) {
+      throw new Error("Pairing key not found in the code's project");
+    }
+    if (!isPairingKeyType(pairingKey.keyType)) {
+      throw new Error("Key is not an NFC or RFID pairing key");
+    }
+    if (pairingKey.status !== "ACTIVE") {
+      throw new Error("Pairing key is not active");
+    }
+
+    const existing = await db.tagPairing.findUnique({
+      where: { codeId: code.id },
+    });
+
+    if (existing?.status === "ACTIVE") {
+      throw new Error("Code is already paired with a tag");
+    }
+
+    const data = {
+      technology: TECHNOLOGY_BY_KEY_TYPE[pairingKey.keyType]!,
+      tagUid,
+      status: "ACTIVE" as const,
+      lastCounter: 0,
+      lastVerifiedAt: null,
+      revokedAt: null,
+      pairingKeyId: pairingKey.id,
+      projectId: code.projectId,
+      tenantId: code.tenantId,
+    };
+
+    // A code whose previous tag was unpaired can be paired again
+    const pairing = existing
+      ? await db.tagPairing.update({ where: { id: existing.id }, data })
+      : await db.tagPairing.create({ data: { ...data, codeId: code.id } });
+
+    const keys = await tagKeysFor(pairingKey.id, tagUid);
+
+    return {
+      pairing: toPairingDTO(pairing),
+      provisioning: {
+        tagUid,
+        sdmMetaReadKey: keys.metaReadKey.toString("hex").toUpperCase(),
+        sdmFileReadKey: keys.fileReadKey.toString("hex").toUpperCase(),
+      },
+    };
+  },
+
+  /**
+   * Revoke a pairing; the code verifies as optical-only afterwards
+   */
+  async unpairTag(pairingId: number): Promise<TagPairingDTO> {
+    const pairing = await db.tagPairing.update({
+      where: { id: pairingId },
+      data: { status: "REVOKED", revokedAt: new Date() },
+    });
+
+    return toPairingDTO(pairing);
+  },
+
+  /**
+   * List pairings for a project
+   */
+  async listPairings(projectId: number): Promise<TagPairingDTO[]> {
+    const pairings = await db.tagPairing.findMany({
+      where: { projectId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return pairings.map(toPairingDTO);
+  },
+
+  /**
+   * Active pairing of a code with its tag keys
+   */
+  async findVerifiablePairing(codeId: number): Promise<VerifiableTagPairing | null> {
+    const pairing = await db.tagPairing.findUnique({
+      where: { codeId },
+      include: { pairingKey: { select: { status: true } } },
+    });
+
+    if (!pairing || pairing.status !== "ACTIVE") {
+      return null;
+    }
+
+    const keys =
+      pairing.pairingKey.status === "COMPROMISED" ? null : await tagKeysFor(pairing.pairingKeyId, pairing.tagUid);
+
+    return { id: pairing.id, tagUid: pairing.tagUid, lastCounter: pairing.lastCounter, keys };
+  },
+
+  /**
+   * Record an accepted read counter. Returns false when the counter was not
+   * above the last accepted one, i.e. the response is a replay.
+   */
+  async advanceCounter(pairingId: number, counter: number): Promise<boolean> {
+    const { count } = await db.tagPairing.updateMany({
+      where: { id: pairingId, status: "ACTIVE", lastCounter: { lt: counter } },
+      data: { lastCounter: counter, lastVerifiedAt: new Date() },
+    });
+
+    return count === 1;
+  },
+};
@@ -0,0 +1,371 @@
+/**
+ * Optropic Platform – Template Service
+ * ------------------------------------
+ * Responsibilities:
+ *  - Keep the config pack template catalog: GLOBAL templates for every
+ *    tenant and TENANT templates private to their tenant, by category
+ *  - Check that a template's placeholders, parameters and defaults agree
+ *  - Instantiate a template with parameter values into a draft config pack
+ *  - Export templates as JSON bundles and import bundles into a tenant
+ */
+
+import { Prisma } from "@prisma/client";
+import {
+  RenderedConfigPackSchema,
+  TemplateBodySchema,
+  TemplateParameterSchema,
+  type CreateTemplateInput,
+  type ImportTemplatesInput,
+  type InstantiateTemplateInput,
+  type ListTemplatesInput,
+  type TemplateBody,
+  type TemplateBundle,
+  type TemplateDefinition,
+  type TemplateParameter,
+  type TemplateScope,
+  type UpdateTemplateInput,
+} from "@optropic/shared";
+import { db } from "../db";
+import { ConfigPackService, type ConfigPackDetailDTO } from "./configPackService";
+import { parametersSchema, renderTemplate, templateProblems } from "../utils/templates";
+
+export interface TemplateDTO {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  category: string;
+  useCase: string;
+  scope: TemplateScope;
+  parameters: TemplateParameter[];
+  body: TemplateBody;
+  schemaVersion: number;
+  version: number;
+  isActive: boolean;
+  tenantId: number | null;
+  createdById: number | null;
+  /** Config packs instantiated from the template */
+  instanceCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TemplateOwner {
+  tenantId: number;
+  createdById: number;
+}
+
+export interface TemplateImportResult {
+  created: string[];
+  updated: string[];
+  skipped: string[];
+}
+
+const templateInclude = {
+  _count: { select: { configPacks: true } },
+} satisfies Prisma.ConfigPackTemplateInclude;
+
+type TemplateRow = Prisma.ConfigPackTemplateGetPayload<{ include: typeof templateInclude }>;
+
+/**
+ * Stored parameters, skipping entries that no longer parse
+ */
+function parametersOf(template: { parameters: Prisma.JsonValue }): TemplateParameter[] {
+  const parameters = Array.isArray(template.parameters) ? template.parameters : [];
+  return parameters.flatMap((parameter) => {
+    const parsed = TemplateParameterSchema.safeParse(parameter);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+function bodyOf(template: { body: Prisma.JsonValue }): TemplateBody {
+  const parsed = TemplateBodySchema.safeParse(template.body);
+  return parsed.success ? parsed.data : { roles: [], actions: {}, configJson: {} };
+}
+
+function toTemplateDTO(template: TemplateRow): TemplateDTO {
+  return {
+    id: template.id,
+    key: template.key,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    useCase: template.useCase,
+    scope: template.scope,
+    parameters: parametersOf(template),
+    body: bodyOf(template),
+    schemaVersion: template.schemaVersion,
+    version: template.version,
+    isActive: template.isActive,
+    tenantId: template.tenantId,
+    createdById: template.createdById,
+    instanceCount: template._count.configPacks,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+function toDefinition(template: TemplateRow): TemplateDefinition {
+  return {
+    key: template.key,
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    useCase: template.useCase,
+    schemaVersion: template.schemaVersion,
+    parameters: parametersOf(template),
+    body: bodyOf(template),
+  };
+}
+
+async function getRow(templateId: number): Promise<TemplateRow> {
+  const template = await db.configPackTemplate.findUnique({ where: { id: templateId }, include: templateInclude });
+  if (!template) {
+    throw new Error("Template not found");
+  }
+  return template;
+}
+
+function assertConsistent(parameters: TemplateParameter[], body: TemplateBody): void {
+  const problems = templateProblems(parameters, body);
+  if (problems.length > 0) {
+    throw new Error(`Invalid template: ${problems.join("; ")}`);
+  }
+}
+
+/**
+ * Template with the key in the scope: among GLOBAL templates, or the
+ * tenant's own
+ */
+async function findByKey(key: string, scope: TemplateScope, tenantId: number, tx: Prisma.TransactionClient = db) {
+  return await tx.configPackTemplate.findFirst({
+    where: scope === "GLOBAL" ? { key, scope: "GLOBAL" } : { key, tenantId },
+    select: { id: true },
+  });
+}
+
+function definitionData(definition: TemplateDefinition) {
+  return {
+    name: definition.name,
+    description: definition.description ?? null,
+    category: definition.category,
+    useCase: definition.useCase,
+    schemaVersion: definition.schemaVersion,
+    parameters: definition.parameters as Prisma.InputJsonValue,
+    body: definition.body as Prisma.InputJsonObject,
+  };
+}
+
+/**
+ * Fields of a partial update that were given
+ */
+function stripUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as Partial<T>;
+}
+
+export const TemplateService = {
+  /**
+   * Templates a tenant sees: GLOBAL ones and its own
+   */
+  async list(tenantId: number, input: ListTemplatesInput): Promise<TemplateDTO[]> {
+    const templates = await db.configPackTemplate.findMany({
+      where: {
+        AND: [
+          { OR: [{ scope: "GLOBAL" }, { tenantId }] },
+          input.scope ? { scope: input.scope } : {},
+          input.category ? { category: input.category } : {},
+          input.search ? { name: { contains: input.search, mode: "insensitive" } } : {},
+          input.includeArchived ? {} : { isActive: true },
+        ],
+      },
+      include: templateInclude,
+      orderBy: [{ category: "asc" }, { name: "asc" }],
+    });
+
+    return templates.map(toTemplateDTO);
+  },
+
+  async getTemplate(templateId: number): Promise<TemplateDTO> {
+    return toTemplateDTO(await getRow(templateId));
+  },
+
+  async create(input: CreateTemplateInput, owner: TemplateOwner): Promise<TemplateDTO> {
+    assertConsistent(input.parameters, input.body);
+    if (await findByKey(input.key, input.scope, owner.tenantId)) {
+      throw new Error(`A template with key "${input.key}" already exists`);
+    }
+
+    const template = await db.configPackTemplate.create({
+      data: {
+        key: input.key,
+        ...definitionData(input),
+        scope: input.scope,
+        tenantId: input.scope === "GLOBAL" ? null : owner.tenantId,
+        createdById: owner.createdById,
+      },
+      include: templateInclude,
+    });
+
+    return toTemplateDTO(template);
+  },
+
+  /**
+   * Change a template; the version goes up so packs record which revision
+   * they came from
+   */
+  async update(input: UpdateTemplateInput): Promise<TemplateDTO> {
+    const { templateId, ...changes } = input;
+    const existing = await getRow(templateId);
+    const definition: TemplateDefinition = { ...toDefinition(existing), ...stripUndefined(changes) };
+    assertConsistent(definition.parameters, definition.body);
+
+    const template = await db.configPackTemplate.update({
+      where: { id: existing.id },
+      data: { ...definitionData(definition), version: { increment: 1 } },
+      include: templateInclude,
+    });
+
+    return toTemplateDTO(template);
+  },
+
+  /**
+   * Hide a template from the catalog; packs made from it are unaffected
+   */
+  async archive(templateId: number): Promise<TemplateDTO> {
+    const template = await db.configPackTemplate.update({
+      where: { id: templateId },
+      data: { isActive: false },
+      include: templateInclude,
+    });
+
+    return toTemplateDTO(template);
+  },
+
+  /**
+   * Render a template with parameter values into a draft config pack
+   */
+  async instantiate(
+    input: InstantiateTemplateInput,
+    owner: TemplateOwner
+  ): Promise<ConfigPackDetailDTO> {
+    const template = await getRow(input.templateId);
+    if (!template.isActive) {
+      throw new Error("Template is archived");
+    }
+
+    const values = parametersSchema(parametersOf(template)).safeParse(input.parameters);
+    if (!values.success) {
+      const issue = values.error.issues[0];
+      throw new Error(`Invalid parameter ${issue?.path.join(".")}: ${issue?.message}`);
+    }
+
+    const rendered = RenderedConfigPackSchema.safeParse(renderTemplate(bodyOf(template), values.data));
+    if (!rendered.success) {
+      const issue = rendered.error.issues[0];
+      throw new Error(`Template renders an invalid config pack at ${issue?.path.join(".")}: ${issue?.message}`);
+    }
+
+    const name = input.name ?? template.name;
+    const { roles, actions, productList, configJson } = rendered.data;
+    const metadata = (configJson.metadata ?? {}) as Record<string, unknown>;
+
+    return await ConfigPackService.createDraft(
+      {
+        name,
+        description: template.description,
+        useCase: template.useCase,
+        roles,
+        actions,
+        productList,
+        configJson: {
+          ...configJson,
+          metadata: {
+            ...metadata,
+            name,
+            useCase: template.useCase,
+            generatedAt: new Date().toISOString(),
+            template: { key: template.key, version: template.version },
+          },
+          roles,
+          permissions: actions,
+          products: productList,
+        } as Prisma.InputJsonObject,
+        templateId: template.id,
+        templateVersion: template.version,
+      },
+      { projectId: input.projectId, tenantId: owner.tenantId, createdById: owner.createdById }
+    );
+  },
+
+  /**
+   * A JSON bundle of templates
+   */
+  async exportBundle(templateIds: number[]): Promise<TemplateBundle> {
+    const templates = await db.configPackTemplate.findMany({
+      where: { id: { in: templateIds } },
+      include: templateInclude,
+      orderBy: { key: "asc" },
+    });
+
+    return {
+      format: "optropic.config-pack-templates",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      templates: templates.map(toDefinition),
+    };
+  },
+
+  /**
+   * Add a bundle's templates to a scope. Templates whose key exists are
+   * skipped, or replaced with `overwrite`. The bundle is checked in full
+   * before anything is written.
+   */
+  async importBundle(input: ImportTemplatesInput, owner: TemplateOwner): Promise<TemplateImportResult> {
+    const keys = input.bundle.templates.map((template) => template.key);
+    const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (duplicate) {
+      throw new Error(`Bundle contains template "${duplicate}" more than once`);
+    }
+    for (const template of input.bundle.templates) {
+      const problems = templateProblems(template.parameters, template.body);
+      if (problems.length > 0) {
+        throw new Error(`Invalid template "${template.key}": ${problems.join("; ")}`);
+      }
+    }
+
+    const result: TemplateImportResult = { created: [], updated: [], skipped: [] };
+
+    await db.$transaction(async (tx) => {
+      for (const template of input.bundle.templates) {
+        const existing = await findByKey(template.key, input.scope, owner.tenantId, tx);
+
+        if (existing && !input.overwrite) {
+          result.skipped.push(template.key);
+          continue;
+        }
+
+        if (existing) {
+          await tx.configPackTemplate.update({
+            where: { id: existing.id },
+            data: { ...definitionData(template), isActive: true, version: { increment: 1 } },
+          });
+          result.updated.push(template.key);
+          continue;
+        }
+
+        await tx.configPackTemplate.create({
+          data: {
+            key: template.key,
+            ...definitionData(template),
+            scope: input.scope,
+            tenantId: input.scope === "GLOBAL" ? null : owner.tenantId,
+            createdById: owner.createdById,
+          },
+        });
+        result.created.push(template.key);
+      }
+    });
+
+    return result;
+  },
+};
@@ -0,0 +1,146 @@
+/**
+ * Optropic Platform – Verification Bundle Service
+ * -----------------------------------------------
+ * Responsibilities:
+ *  - Build offline verification bundles (public keys + revocation list)
+ *  - Sign bundles with the project's newest active key
+ *  - Store bundle snapshots in the exports bucket for scanner sync
+ */
+
+import { db } from "../db";
+import { minioClient } from "../minio";
+import { KeyService, effectiveKeyStatus } from "./keyService";
+import { EXPORT_BUCKET } from "./exportService";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  signBundle,
+  toSerialRanges,
+  type BundleRevocation,
+  type VerificationBundle,
+} from "../utils/verificationBundle";
+
+export const DEFAULT_BUNDLE_VALIDITY_HOURS = 24;
+export const MAX_BUNDLE_VALIDITY_HOURS = 24 * 30;
+
+/**
+ * Whether codes signed with a key still verify: rotating keys do until their
+ * grace window ends, retired keys only under the RETAIN policy
+ */
+function keyVerifiesOffline(
+  key: {
+    isActive: boolean;
+    status: string;
+    rotationPolicy: string | null;
+    graceEndsAt: Date | null;
+    resignPending?: boolean;
+  },
+  now: Date
+): boolean {
+  switch (effectiveKeyStatus(key, now)) {
+    case "ACTIVE":
+      return key.isActive;
+    case "ROTATING":
+      return true;
+    case "RETIRED":
+      return key.rotationPolicy === "RETAIN";
+    case "COMPROMISED":
+      return false;
+  }
+}
+
+export const VerificationBundleService = {
+  /**
+   * Build and sign a verification bundle for a project
+   */
+  async buildBundle(
+    projectId: number,
+    validityHours: number = DEFAULT_BUNDLE_VALIDITY_HOURS
+  ): Promise<VerificationBundle> {
+    if (validityHours <= 0 || validityHours > MAX_BUNDLE_VALIDITY_HOURS) {
+      throw new Error(`Bundle validity must be between 1 and ${MAX_BUNDLE_VALIDITY_HOURS} hours`);
+    }
+
+    const keys = await db.key.findMany({
+      where: { projectId, publicKey: { not: null } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const signingKey = keys.find(
+      (key) => key.isActive && key.algorithm === "prime256v1" && (!key.expiresAt || key.expiresAt > new Date())
+    );
+
+    if (!signingKey) {
+      throw new Error("No active P-256 key available to sign the bundle");
+    }
+
+    const revokedCodes = await db.optropicCode.findMany({
+      where: {
+        projectId,
+        isActive: false,
+        serial: { not: null },
+      },
+      select: { keyId: true, serial: true },
+    });
+
+    const serialsByKey = new Map<number, number[]>();
+    for (const code of revokedCodes) {
+      if (code.keyId === null || code.serial === null) continue;
+      const serials = serialsByKey.get(code.keyId) ?? [];
+      serials.push(code.serial);
+      serialsByKey.set(code.keyId, serials);
+    }
+
+    const revocations: BundleRevocation[] = [...serialsByKey.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([keyId, serials]) => ({ keyId, serials: toSerialRanges(serials) }));
+
+    const issuedAt = new Date();
+    const bundle: VerificationBundle = {
+      format: BUNDLE_FORMAT,
+      version: BUNDLE_VERSION,
+      projectId,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: new Date(issuedAt.getTime() + validityHours * 60 * 60 * 1000).toISOString(),
+      keys: keys.map((key) => ({
+        keyId: key.id,
+        algorithm: key.algorithm,
+        publicKey: key.publicKey!,
+        status: keyVerifiesOffline(key, issuedAt) ? ("ACTIVE" as const) : ("REVOKED" as const),
+        expiresAt: key.expiresAt ? key.expiresAt.toISOString() : null,
+      })),
+      revocations,
+    };
+
+    const privateKey = await KeyService.getPrivateKey(signingKey.id);
+    return signBundle(bundle, signingKey.id, privateKey);
+  },
+
+  /**
+   * Build a bundle and publish it to the exports bucket, returning a signed URL
+   */
+  async publishBundle(
+    projectId: number,
+    validityHours?: number
+  ): Promise<{ bundle: VerificationBundle; url: string; objectKey: string }> {
+    const bundle = await this.buildBundle(projectId, validityHours);
+    const objectKey = `projects/${projectId}/verification-bundles/bundle-${Date.parse(bundle.issuedAt)}.json`;
+    const body = Buffer.from(JSON.stringify(bundle));
+
+    await minioClient.putObject(EXPORT_BUCKET, objectKey, body, body.length, {
+      "Content-Type": "application/json",
+    });
+
+    const expirySeconds = Math.floor(
+      (Date.parse(bundle.expiresAt) - Date.parse(bundle.issuedAt)) / 1000
+    );
+    // S3 presigned URLs are capped at seven days
+    const url = await minioClient.presignedGetObject(
+      EXPORT_BUCKET,
+      objectKey,
+      Math.min(expirySeconds, 7 * 24 * 60 * 60)
+    );
+
+    return { bundle, url, objectKey };
+  },
+};
@@ -0,0 +1,686 @@
+/**
+ * Optropic Platform – Verification Pipeline
+ * -----------------------------------------
+ * Single verification path shared by every public verify endpoint.
+ *  - Parse the code value and detect its signature scheme
+ *  - Look up the issued code (entropy seed or key + serial), falling back to
+ *    the pre-rotation value of codes re-signed with a successor key
+ *  - Run pluggable checks in order; the first failure stops evaluation
+ *  - Run every check's `after` hook on the outcome (scan logging, alerts)
+ *
+ * Default checks: revocation → key status → expiry → decryption →
+ * signature → tag pairing → trust scoring → scan logging.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { NotificationService } from "./notificationService";
+import {
+  decryptPayload,
+  signedPayload,
+  SIGNATURE_SCHEME_VERSION,
+  type CodePayload,
+  type EncryptedPayload,
+} from "./codeService";
+import { KeyService, effectiveKeyStatus } from "./keyService";
+import { EnvelopeService } from "./envelopeService";
+import { TagPairingService, type VerifiableTagPairing } from "./tagPairingService";
+import {
+  decodeCompactCode,
+  verifyCompactSignature,
+  type DecodedCompactCode,
+} from "../utils/compactCode";
+import { canonicalBytes } from "../utils/jcs";
+import { verifyWithAlgorithm, type PayloadCipher } from "../utils/cryptoSuites";
+import { verifySunMessage, type SunMessage } from "../utils/ntag424";
+import { logError } from "../utils/logger";
+
+/**
+ * The signature algorithm within a scheme follows the key's stored algorithm
+ */
+export type SignatureScheme = "LEGACY_SHA256_DIGEST" | "JCS" | "COMPACT_V1";
+
+export type VerificationFailureReason =
+  | "INVALID_FORMAT"
+  | "UNSUPPORTED_SCHEME"
+  | "CODE_NOT_FOUND"
+  | "CODE_REVOKED"
+  | "KEY_INACTIVE"
+  | "KEY_RETIRED"
+  | "KEY_COMPROMISED"
+  | "KEY_EXPIRED"
+  | "DECRYPTION_FAILED"
+  | "PAYLOAD_MISMATCH"
+  | "INVALID_SIGNATURE"
+  | "TAG_MISMATCH"
+  | "TAG_REPLAYED";
+
+/** Authentication factors a successful scan presented */
+export type VerificationFactor = "OPTICAL" | "TAG";
+
+export type ScanDeviceType = "MOBILE" | "DESKTOP" | "TABLET" | "IOT_DEVICE" | "SCANNER";
+
+export interface VerificationRequest {
+  codeValue: string;
+  deviceId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  deviceType?: ScanDeviceType;
+  geoHash?: string;
+  country?: string;
+  city?: string;
+  region?: string;
+  /** SUN message read from the paired NFC/RFID tag */
+  tag?: SunMessage;
+}
+
+export interface ParsedCodeValue {
+  scheme: SignatureScheme;
+  codeValue: string;
+  keyId: number;
+  /** JSON codes */
+  entropySeed?: string;
+  signature?: string;
+  encrypted?: EncryptedPayload;
+  /** Compact codes */
+  compact?: DecodedCompactCode;
+}
+
+/**
+ * The subset of an issued code the pipeline needs
+ */
+export interface VerifiableCode {
+  id: number;
+  codeType: string;
+  assetId?: number | null;
+  encryptionLevel: string;
+  createdAt: Date;
+  isActive: boolean;
+  payload: unknown;
+  key: {
+    id: number;
+    isActive: boolean;
+    status: string;
+    rotationPolicy: string | null;
+    graceEndsAt: Date | null;
+    resignPending?: boolean;
+    algorithm: string;
+    publicKey: string | null;
+    expiresAt: Date | null;
+  } | null;
+  /** Matched by its pre-rotation value; `key` and `payload` are the previous key's */
+  rebound?: boolean;
+  project: {
+    id: number;
+    name: string;
+    userId: number;
+    tenantId?: number | null;
+  };
+}
+
+export interface VerificationFailure {
+  reason: VerificationFailureReason;
+  message: string;
+  riskScore: number;
+}
+
+export interface VerificationContext {
+  request: VerificationRequest;
+  parsed: ParsedCodeValue;
+  code: VerifiableCode;
+  /** Stored payload, replaced by the decrypted payload for encrypted codes */
+  payload: unknown;
+  trustScore: number;
+  warnings: string[];
+  factors: VerificationFactor[];
+  /** Set by the tag pairing check when the code is paired with a tag */
+  tagPairing?: VerifiableTagPairing;
+  deps: VerificationDeps;
+}
+
+export interface VerificationOutcome {
+  success: boolean;
+  reason?: VerificationFailureReason;
+  message: string;
+  trustScore: number;
+  riskScore: number;
+  isSuspicious: boolean;
+  scheme?: SignatureScheme;
+  code?: VerifiableCode;
+  payload?: unknown;
+  warnings: string[];
+  factors: VerificationFactor[];
+  /** Recorded scan row, set by the scan logging check */
+  scanId?: number;
+}
+
+export interface VerificationCheck {
+  name: string;
+  /** Return a failure to stop the pipeline */
+  run?(
+    ctx: VerificationContext
+  ): VerificationFailure | void | Promise<VerificationFailure | void>;
+  /** Called with the final outcome, including failures before lookup */
+  after?(outcome: VerificationOutcome, request: VerificationRequest, deps: VerificationDeps): Promise<void>;
+}
+
+export interface ScanRecord {
+  codeId: number;
+  verificationSuccess: boolean;
+  trustScore: number;
+  isSuspicious: boolean;
+  riskScore: number;
+  failureReason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  deviceType?: ScanDeviceType;
+  geoHash?: string;
+  country?: string;
+  city?: string;
+  region?: string;
+  tagVerified?: boolean;
+}
+
+export interface VerificationDeps {
+  findCode(parsed: ParsedCodeValue): Promise<VerifiableCode | null>;
+  findTagPairing(codeId: number): Promise<VerifiableTagPairing | null>;
+  /** Accept a tag read counter once; false for a replayed response */
+  advanceTagCounter(pairingId: number, counter: number): Promise<boolean>;
+  /** Returns the id of the recorded scan */
+  logScan(record: ScanRecord): Promise<number | void>;
+  notifyRevokedUsage(codeId: number, ownerId: number): Promise<void>;
+  decrypt(encrypted: EncryptedPayload, code: VerifiableCode): Promise<unknown>;
+  now(): Date;
+}
+
+// ---- Parsing ---------------------------------------------------------------
+
+/**
+ * Detect the format and signature scheme of a code value
+ */
+export function parseCodeValue(codeValue: string): ParsedCodeValue | { error: VerificationFailureReason } {
+  const compact = decodeCompactCode(codeValue);
+  if (compact) {
+    return { scheme: "COMPACT_V1", codeValue, keyId: compact.keyId, compact };
+  }
+
+  let decoded: Record<string, unknown>;
+  try {
+    decoded = JSON.parse(Buffer.from(codeValue, "base64url").toString("utf8")) as Record<string, unknown>;
+  } catch {
+    return { error: "INVALID_FORMAT" };
+  }
+
+  const { v, e, s, k, enc, iv, tag, alg, ek, dk } = decoded;
+  if (typeof e !== "string" || typeof s !== "string" || typeof k !== "number") {
+    return { error: "INVALID_FORMAT" };
+  }
+
+  let scheme: SignatureScheme;
+  if (v === undefined) {
+    scheme = "LEGACY_SHA256_DIGEST";
+  } else if (v === SIGNATURE_SCHEME_VERSION) {
+    scheme = "JCS";
+  } else {
+    return { error: "UNSUPPORTED_SCHEME" };
+  }
+
+  return {
+    scheme,
+    codeValue,
+    keyId: k,
+    entropySeed: e,
+    signature: s,
+    ...(typeof enc === "string" && typeof iv === "string" && typeof tag === "string"
+      ? {
+          encrypted: {
+            encrypted: enc,
+            iv,
+            tag,
+            ...(typeof alg === "string" ? { alg: alg as PayloadCipher } : {}),
+            ...(typeof ek === "string" ? { wrappedKey: ek } : {}),
+            ...(typeof dk === "string" ? { dataKey: dk } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+// ---- Signature schemes -----------------------------------------------------
+
+const LEGACY_PAYLOAD_FIELDS: (keyof CodePayload | "encrypted")[] = [
+  "projectId",
+  "keyId",
+  "entropySeed",
+  "timestamp",
+  "codeType",
+  "encryptionLevel",
+  "contentId",
+  "role",
+  "metadata",
+  "encrypted",
+];
+
+/**
+ * Scheme 1 hashed JSON.stringify output, which depends on key order.
+ * Postgres JSONB does not preserve it, so rebuild the issuing order.
+ * Nested metadata order cannot be recovered; such codes need re-signing.
+ */
+function legacySignedBytes(payload: object): Buffer {
+  const source = payload as Record<string, unknown>;
+  const ordered: Record<string, unknown> = {};
+  for (const field of LEGACY_PAYLOAD_FIELDS) {
+    if (field in source) ordered[field] = source[field];
+  }
+  return crypto.createHash("sha256").update(JSON.stringify(ordered)).digest();
+}
+
+/**
+ * Verify the signature of a parsed code against the signed payload,
+ * dispatching on the signing key's stored algorithm
+ */
+export function verifyCodeSignature(
+  parsed: ParsedCodeValue,
+  payload: unknown,
+  publicKey: string,
+  algorithm = "prime256v1"
+): boolean {
+  try {
+    switch (parsed.scheme) {
+      case "COMPACT_V1":
+        return verifyCompactSignature(parsed.compact!, publicKey, algorithm);
+
+      case "JCS":
+        return verifyWithAlgorithm(
+          algorithm,
+          publicKey,
+          canonicalBytes(signedPayload(payload as CodePayload, !!parsed.encrypted)),
+          Buffer.from(parsed.signature!, "base64")
+        );
+
+      case "LEGACY_SHA256_DIGEST": {
+        // Scheme 1 predates key suites and was only issued with P-256 keys
+        if (algorithm !== "prime256v1") return false;
+        const verify = crypto.createVerify("SHA256");
+        verify.update(
+          legacySignedBytes(signedPayload(payload as CodePayload, !!parsed.encrypted))
+        );
+        verify.end();
+        return verify.verify(publicKey, parsed.signature!, "base64");
+      }
+    }
+  } catch {
+    return false;
+  }
+}
+
+// ---- Default checks --------------------------------------------------------
+
+export const revocationCheck: VerificationCheck = {
+  name: "revocation",
+  run(ctx) {
+    if (!ctx.code.isActive) {
+      return { reason: "CODE_REVOKED", message: "Code has been revoked", riskScore: 90 };
+    }
+  },
+  async after(outcome, _request, deps) {
+    if (outcome.reason === "CODE_REVOKED" && outcome.code) {
+      await deps.notifyRevokedUsage(outcome.code.id, outcome.code.project.userId);
+    }
+  },
+};
+
+export const keyStatusCheck: VerificationCheck = {
+  name: "keyStatus",
+  run(ctx) {
+    const key = ctx.code.key;
+    const inactive: VerificationFailure = {
+      reason: "KEY_INACTIVE",
+      message: "Key is inactive or revoked",
+      riskScore: 95,
+    };
+    if (!key || !key.publicKey) return inactive;
+
+    switch (effectiveKeyStatus(key, ctx.deps.now())) {
+      case "ACTIVE":
+        return key.isActive ? undefined : inactive;
+
+      case "ROTATING":
+        ctx.warnings.push("Signing key is being rotated");
+        if (ctx.code.rebound) {
+          ctx.warnings.push("Code has been re-signed with a new key; replace this label");
+        }
+        return;
+
+      case "RETIRED":
+        // Deactivated outside a rotation
+        if (!key.rotationPolicy) return inactive;
+        if (key.rotationPolicy === "RETAIN" && !ctx.code.rebound) {
+          ctx.warnings.push("Signing key has been retired");
+          return;
+        }
+        return { reason: "KEY_RETIRED", message: "Signing key has been retired", riskScore: 90 };
+
+      case "COMPROMISED":
+        return { reason: "KEY_COMPROMISED", message: "Signing key has been compromised", riskScore: 100 };
+    }
+  },
+};
+
+export const expiryCheck: VerificationCheck = {
+  name: "expiry",
+  run(ctx) {
+    const expiresAt = ctx.code.key?.expiresAt;
+    if (!expiresAt) return;
+
+    // A code issued after its key expired can only be a forgery or misuse
+    if (ctx.code.createdAt > expiresAt) {
+      return { reason: "KEY_EXPIRED", message: "Code was issued after its key expired", riskScore: 95 };
+    }
+
+    if (expiresAt < ctx.deps.now()) {
+      ctx.warnings.push("Signing key has expired");
+    }
+  },
+};
+
+export const decryptionCheck: VerificationCheck = {
+  name: "decryption",
+  async run(ctx) {
+    if (!ctx.parsed.encrypted) return;
+
+    let decrypted: unknown;
+    try {
+      decrypted = await ctx.deps.decrypt(ctx.parsed.encrypted, ctx.code);
+    } catch {
+      return { reason: "DECRYPTION_FAILED", message: "Failed to decrypt payload", riskScore: 100 };
+    }
+
+    if ((decrypted as CodePayload | null)?.entropySeed !== ctx.parsed.entropySeed) {
+      return { reason: "PAYLOAD_MISMATCH", message: "Encrypted payload does not match code", riskScore: 100 };
+    }
+
+    ctx.payload = decrypted;
+  },
+};
+
+export const signatureCheck: VerificationCheck = {
+  name: "signature",
+  run(ctx) {
+    const key = ctx.code.key!;
+    if (!verifyCodeSignature(ctx.parsed, ctx.payload, key.publicKey!, key.algorithm)) {
+      return { reason: "INVALID_SIGNATURE", message: "Invalid signature", riskScore: 100 };
+    }
+  },
+};
+
+export const tagPairingCheck: VerificationCheck = {
+  name: "tagPairing",
+  async run(ctx) {
+    const pairing = await ctx.deps.findTagPairing(ctx.code.id);
+    const tag = ctx.request.tag;
+
+    if (!pairing) {
+      if (tag) ctx.warnings.push("Code is not paired with a tag");
+      return;
+    }
+
+    ctx.tagPairing = pairing;
+    if (!tag) {
+      ctx.warnings.push("Paired tag was not presented");
+      return;
+    }
+
+    const reading = pairing.keys ? verifySunMessage(pairing.keys, tag) : null;
+    if (!reading) {
+      return { reason: "TAG_MISMATCH", message: "Tag response is invalid", riskScore: 100 };
+    }
+    if (reading.uid !== pairing.tagUid) {
+      return { reason: "TAG_MISMATCH", message: "Tag is not paired with this code", riskScore: 100 };
+    }
+
+    // The read counter only moves forward; a repeat is a copied response
+    if (reading.counter <= pairing.lastCounter || !(await ctx.deps.advanceTagCounter(pairing.id, reading.counter))) {
+      return { reason: "TAG_REPLAYED", message: "Tag response has already been used", riskScore: 100 };
+    }
+
+    ctx.factors.push("TAG");
+  },
+};
+
+export const trustScoreCheck: VerificationCheck = {
+  name: "trustScore",
+  run(ctx) {
+    let score = 100;
+    const now = ctx.deps.now();
+
+    const ageInDays = (now.getTime() - ctx.code.createdAt.getTime()) / (1000 * 60 * 60 * 24);
+    if (ageInDays > 365) {
+      score -= 20;
+    } else if (ageInDays > 180) {
+      score -= 10;
+    }
+
+    if (ctx.code.key?.expiresAt && ctx.code.key.expiresAt < now) {
+      score -= 30;
+    }
+
+    if (ctx.code.key && effectiveKeyStatus(ctx.code.key, now) !== "ACTIVE") {
+      score -= 10;
+    }
+
+    // A paired code is only fully trusted when its tag matched too
+    if (ctx.tagPairing && !ctx.factors.includes("TAG")) {
+      score -= 30;
+    }
+
+    if (ctx.code.encryptionLevel === "AES_128" || ctx.code.encryptionLevel === "RSA_2048") {
+      score -= 10;
+    }
+
+    if (ctx.parsed.scheme === "LEGACY_SHA256_DIGEST") {
+      ctx.warnings.push("Code uses the deprecated v1 signature scheme");
+    }
+
+    ctx.trustScore = Math.max(0, Math.min(100, score));
+  },
+};
+
+export const scanLoggingCheck: VerificationCheck = {
+  name: "scanLogging",
+  async after(outcome, request, deps) {
+    // Scans reference a code row, so unknown codes are not persisted
+    if (!outcome.code) return;
+
+    const scanId = await deps.logScan({
+      codeId: outcome.code.id,
+      verificationSuccess: outcome.success,
+      trustScore: outcome.trustScore,
+      isSuspicious: outcome.isSuspicious,
+      riskScore: outcome.riskScore,
+      failureReason: outcome.success ? undefined : outcome.message,
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent,
+      deviceType: request.deviceType,
+      geoHash: request.geoHash,
+      country: request.country,
+      city: request.city,
+      region: request.region,
+      tagVerified: request.tag ? outcome.factors.includes("TAG") : undefined,
+    });
+    if (typeof scanId === "number") outcome.scanId = scanId;
+  },
+};
+
+export const DEFAULT_CHECKS: VerificationCheck[] = [
+  revocationCheck,
+  keyStatusCheck,
+  expiryCheck,
+  decryptionCheck,
+  signatureCheck,
+  tagPairingCheck,
+  trustScoreCheck,
+  scanLoggingCheck,
+];
+
+// ---- Default dependencies --------------------------------------------------
+
+const defaultDeps: VerificationDeps = {
+  async findCode(parsed) {
+    const code = await db.optropicCode.findFirst({
+      where: parsed.compact
+        ? { keyId: parsed.compact.keyId, serial: parsed.compact.serial }
+        : { entropySeed: parsed.entropySeed, keyId: parsed.keyId },
+      include: {
+        key: true,
+        project: true,
+      },
+    });
+    if (code) return code;
+
+    // A label printed before its code was re-signed during a key rotation
+    const rebound = await db.optropicCode.findUnique({
+      where: { previousCodeValue: parsed.codeValue },
+      include: {
+        previousKey: true,
+        project: true,
+      },
+    });
+    if (!rebound?.previousKey) return null;
+
+    const { previousKey, ...rest } = rebound;
+    const payload: Record<string, unknown> = { ...(rebound.payload as Record<string, unknown>), keyId: previousKey.id };
+    delete payload.serial;
+    if (parsed.compact) payload.serial = parsed.compact.serial;
+
+    return { ...rest, payload, key: previousKey, rebound: true };
+  },
+
+  async findTagPairing(codeId) {
+    return await TagPairingService.findVerifiablePairing(codeId);
+  },
+
+  async advanceTagCounter(pairingId, counter) {
+    return await TagPairingService.advanceCounter(pairingId, counter);
+  },
+
+  async logScan(record) {
+    const scan = await db.scan.create({ data: record, select: { id: true } });
+    return scan.id;
+  },
+
+  async notifyRevokedUsage(codeId, ownerId) {
+    await NotificationService.triggerRevokedCodeUsage(codeId, ownerId);
+  },
+
+  async decrypt(encrypted, code) {
+    const dataKey = encrypted.dataKey ? await EnvelopeService.getDataKeyByRef(encrypted.dataKey) : undefined;
+    if (dataKey && dataKey.tenantId !== (code.project.tenantId ?? code.project.userId)) {
+      throw new Error("Payload data key belongs to another tenant");
+    }
+    // RSA suites wrap the content key for the code's signing key
+    const privateKey = encrypted.wrappedKey && code.key ? await KeyService.getPrivateKey(code.key.id) : undefined;
+    return decryptPayload(encrypted, { dataKey, privateKey });
+  },
+
+  now: () => new Date(),
+};
+
+// ---- Pipeline --------------------------------------------------------------
+
+const FORMAT_MESSAGES: Partial<Record<VerificationFailureReason, string>> = {
+  INVALID_FORMAT: "Invalid code format",
+  UNSUPPORTED_SCHEME: "Unsupported signature scheme",
+};
+
+function failed(failure: VerificationFailure, extra: Partial<VerificationOutcome> = {}): VerificationOutcome {
+  return {
+    success: false,
+    reason: failure.reason,
+    message: failure.message,
+    trustScore: 0,
+    riskScore: failure.riskScore,
+    isSuspicious: true,
+    warnings: [],
+    factors: [],
+    ...extra,
+  };
+}
+
+export function createVerificationPipeline(
+  options: { checks?: VerificationCheck[]; deps?: Partial<VerificationDeps> } = {}
+) {
+  const checks = options.checks ?? DEFAULT_CHECKS;
+  const deps: VerificationDeps = { ...defaultDeps, ...options.deps };
+
+  async function evaluate(request: VerificationRequest): Promise<VerificationOutcome> {
+    const parsed = parseCodeValue(request.codeValue);
+    if ("error" in parsed) {
+      return failed({
+        reason: parsed.error,
+        message: FORMAT_MESSAGES[parsed.error] ?? "Invalid code format",
+        riskScore: 100,
+      });
+    }
+
+    const code = await deps.findCode(parsed);
+    if (!code) {
+      return failed(
+        { reason: "CODE_NOT_FOUND", message: "Code not found", riskScore: 100 },
+        { scheme: parsed.scheme }
+      );
+    }
+
+    const ctx: VerificationContext = {
+      request,
+      parsed,
+      code,
+      payload: code.payload,
+      trustScore: 100,
+      warnings: [],
+      factors: ["OPTICAL"],
+      deps,
+    };
+
+    for (const check of checks) {
+      const failure = await check.run?.(ctx);
+      if (failure) {
+        return failed(failure, { scheme: parsed.scheme, code, warnings: ctx.warnings });
+      }
+    }
+
+    return {
+      success: true,
+      message: "Code verified successfully",
+      trustScore: ctx.trustScore,
+      riskScore: 100 - ctx.trustScore,
+      isSuspicious: ctx.trustScore < 50,
+      scheme: parsed.scheme,
+      code,
+      payload: ctx.payload,
+      warnings: ctx.warnings,
+      factors: ctx.factors,
+    };
+  }
+
+  return {
+    checks,
+
+    async verify(request: VerificationRequest): Promise<VerificationOutcome> {
+      const outcome = await evaluate(request);
+
+      for (const check of checks) {
+        await check.after?.(outcome, request, deps).catch((err) =>
+          logError(err, { check: check.name, codeId: outcome.code?.id })
+        );
+      }
+
+      return outcome;
+    },
+  };
+}
+
+/**
+ * Pipeline with the default checks and database-backed dependencies
+ */
+export const verificationPipeline = createVerificationPipeline();
@@ -2,36 +2,35 @@
  * Optropic Platform – Verification Service
  * ----------------------------------------
  * Responsibilities:
- *  - Verify scanned codes
- *  - Validate signatures
- *  - Calculate trust scores
- *  - Log scan events
+ *  - Verify scanned codes through the shared verification pipeline
+ *  - Shape pipeline outcomes for the public endpoints, revealing the
+ *    contents of scanned cases and pallets
+ *  - Start the project's code_scan workflows for verified codes
+ *  - Scan history and statistics
  *  - Detect suspicious activity
  */
 
 import { db } from "../db";
-import { verifySignature } from "./keyService";
-import { CodeService } from "./codeService";
-import { NotificationService } from "./notificationService";
-import { logger, logError } from "../utils/logger";
+import { AssetService, type PackagingNode } from "./assetService";
+import {
+  verificationPipeline,
+  type VerificationFactor,
+  type VerificationRequest,
+} from "./verificationPipeline";
+import { WorkflowService } from "./workflowService";
+import { logError } from "../utils/logger";
 
-export interface VerificationRequest {
-  codeValue: string;
-  deviceId?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  deviceType?: "MOBILE" | "DESKTOP" | "TABLET" | "IOT_DEVICE" | "SCANNER";
-  geoHash?: string;
-  country?: string;
-  city?: string;
-  region?: string;
-}
+export type { VerificationRequest } from "./verificationPipeline";
 
 export interface VerificationResult {
   success: boolean;
   trustScore: number;
   message: string;
   isSuspicious: boolean;
+  reason?: string;
+  warnings?: string[];
+  /** OPTICAL, plus TAG when a paired tag's response matched */
+  factors?: VerificationFactor[];
   code?: {
     id: number;
     codeType: string;
@@ -42,80 +41,20 @@ export interface VerificationResult {
     id: number;
     name: string;
   };
+  /** The code's asset; for cases and pallets, with what they contain */
+  asset?: PackagingNode;
 }
 
-/**
- * Calculate trust score based on various factors
- */
-function calculateTrustScore(code: any): number {
-  let score = 100;
-
-  const ageInDays =
-    (Date.now() - new Date(code.createdAt).getTime()) / (1000 * 60 * 60 * 24);
-
-  if (ageInDays > 365) {
-    score -= 20;
-  } else if (ageInDays > 180) {
-    score -= 10;
-  }
-
-  if (code.key?.expiresAt && new Date(code.key.expiresAt) < new Date()) {
-    score -= 30;
-  }
-
-  if (
-    code.encryptionLevel === "AES_128" ||
-    code.encryptionLevel === "RSA_2048"
-  ) {
-    score -= 10;
-  }
-
-  if (!code.key?.isActive) {
-    score -= 50;
-  }
-
-  return Math.max(0, Math.min(100, score));
-}
-
-/**
- * Log scan event to database
- */
-async function logScan(data: {
-  codeId?: number;
-  verificationSuccess: boolean;
+export interface EncryptedVerificationResult {
+  valid: boolean;
   trustScore: number;
-  isSuspicious: boolean;
-  riskScore: number;
-  failureReason?: string;
-  ipAddress?: string;
-  userAgent?: string;
-  deviceType?: "MOBILE" | "DESKTOP" | "TABLET" | "IOT_DEVICE" | "SCANNER";
-  geoHash?: string;
-  country?: string;
-  city?: string;
-  region?: string;
-}) {
-  if (!data.codeId) {
-    return;
-  }
-
-  await db.scan.create({
-    data: {
-      codeId: data.codeId,
-      verificationSuccess: data.verificationSuccess,
-      trustScore: data.trustScore,
-      isSuspicious: data.isSuspicious,
-      riskScore: data.riskScore,
-      failureReason: data.failureReason,
-      ipAddress: data.ipAddress,
-      userAgent: data.userAgent,
-      deviceType: data.deviceType,
-      geoHash: data.geoHash,
-      country: data.country,
-      city: data.city,
-      region: data.region,
-    },
-  });
+  message: string;
+  payload?: unknown;
+  code?: {
+    id: number;
+    codeType: string;
+    project: string;
+  };
 }
 
 export const VerificationService = {
@@ -125,154 +64,78 @@ export const VerificationService = {
   async verifyCode(
     request: VerificationRequest
   ): Promise<VerificationResult> {
-    try {
-      const decodedPayload = JSON.parse(
-        Buffer.from(request.codeValue, "base64url").toString("utf8")
-      );
-
-      const { e: entropySeed, s: signature, k: keyId } = decodedPayload;
-
-      const code = await db.optropicCode.findFirst({
-        where: { entropySeed },
-        include: {
-          key: true,
-          project: true,
-        },
-      });
-
-      if (!code) {
-        await logScan({
-          verificationSuccess: false,
-          failureReason: "Code not found",
-          trustScore: 0,
-          isSuspicious: true,
-          riskScore: 100,
-          ...request,
-        });
-
-        return {
-          success: false,
-          trustScore: 0,
-          message: "Code not found",
-          isSuspicious: true,
-        };
-      }
-
-      if (!code.isActive) {
-        await logScan({
-          codeId: code.id,
-          verificationSuccess: false,
-          failureReason: "Code revoked",
-          trustScore: 0,
-          isSuspicious: true,
-          riskScore: 90,
-          ...request,
-        });
-
-        NotificationService.triggerRevokedCodeUsage(
-          code.id,
-          code.project.userId
-        ).catch((err) =>
-          logError(err, { codeId: code.id, userId: code.project.userId })
-        );
-
-        return {
-          success: false,
-          trustScore: 0,
-          message: "Code has been revoked",
-          isSuspicious: true,
-        };
-      }
-
-      if (!code.key || !code.key.isActive) {
-        await logScan({
-          codeId: code.id,
-          verificationSuccess: false,
-          failureReason: "Key inactive or revoked",
-          trustScore: 0,
-          isSuspicious: true,
-          riskScore: 95,
-          ...request,
-        });
-
-        return {
-          success: false,
-          trustScore: 0,
-          message: "Key is inactive or revoked",
-          isSuspicious: true,
-        };
-      }
-
-      const payloadString = JSON.stringify(code.payload);
-      const isValid = verifySignature(
-        payloadString,
-        signature,
-        code.key.publicKey!
-      );
-
-      if (!isValid) {
-        await logScan({
-          codeId: code.id,
-          verificationSuccess: false,
-          failureReason: "Invalid signature",
-          trustScore: 0,
-          isSuspicious: true,
-          riskScore: 100,
-          ...request,
-        });
-
-        return {
-          success: false,
-          trustScore: 0,
-          message: "Invalid signature",
-          isSuspicious: true,
-        };
-      }
-
-      const trustScore = calculateTrustScore(code);
-
-      await logScan({
-        codeId: code.id,
-        verificationSuccess: true,
-        trustScore,
-        isSuspicious: trustScore < 50,
-        riskScore: 100 - trustScore,
-        ...request,
-      });
+    const outcome = await verificationPipeline.verify(request);
 
+    if (!outcome.success || !outcome.code) {
       return {
-        success: true,
-        trustScore,
-        message: "Code verified successfully",
-        isSuspicious: false,
-        code: {
-          id: code.id,
-          codeType: code.codeType,
-          encryptionLevel: code.encryptionLevel,
-          createdAt: code.createdAt,
-        },
-        project: {
-          id: code.project.id,
-          name: code.project.name,
-        },
-      };
-    } catch (error) {
-      await logScan({
-        verificationSuccess: false,
-        failureReason: "Invalid code format",
+        success: false,
         trustScore: 0,
+        message: outcome.message,
         isSuspicious: true,
-        riskScore: 100,
-        ...request,
-      });
+        reason: outcome.reason,
+      };
+    }
+
+    const code = outcome.code;
+    void WorkflowService.trigger("CODE_SCAN", {
+      projectId: code.project.id,
+      assetId: code.assetId,
+      codeId: code.id,
+      details: { scanId: outcome.scanId, deviceId: request.deviceId },
+    }).catch((err) => logError(err, { trigger: "CODE_SCAN", codeId: code.id }));
+
+    const asset = outcome.code.assetId ? await AssetService.getPackagingContents(outcome.code.assetId) : null;
+
+    return {
+      success: true,
+      trustScore: outcome.trustScore,
+      message: outcome.message,
+      isSuspicious: outcome.isSuspicious,
+      warnings: outcome.warnings,
+      factors: outcome.factors,
+      code: {
+        id: outcome.code.id,
+        codeType: outcome.code.codeType,
+        encryptionLevel: outcome.code.encryptionLevel,
+        createdAt: outcome.code.createdAt,
+      },
+      project: {
+        id: outcome.code.project.id,
+        name: outcome.code.project.name,
+      },
+      ...(asset ? { asset } : {}),
+    };
+  },
 
+  /**
+   * Verify a code and return its (decrypted) payload
+   */
+  async verifyEncryptedCode(
+    codeValue: string,
+    deviceId?: string,
+    geoHash?: string
+  ): Promise<EncryptedVerificationResult> {
+    const outcome = await verificationPipeline.verify({ codeValue, deviceId, geoHash });
+
+    if (!outcome.success || !outcome.code) {
       return {
-        success: false,
+        valid: false,
         trustScore: 0,
-        message: "Invalid code format",
-        isSuspicious: true,
+        message: outcome.message,
       };
     }
+
+    return {
+      valid: true,
+      trustScore: outcome.trustScore,
+      message: "Verification successful",
+      payload: outcome.payload,
+      code: {
+        id: outcome.code.id,
+        codeType: outcome.code.codeType,
+        project: outcome.code.project.name,
+      },
+    };
   },
 
   /**
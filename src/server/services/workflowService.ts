@@ -0,0 +1,481 @@
+/**
+ * Optropic Platform – Workflow Service
+ * ------------------------------------
+ * Responsibilities:
+ *  - Start the workflows of a project's pinned or published config packs
+ *    when their trigger fires (code_scan, maintenance_due, audit_required, public_scan),
+ *    at most one active instance per workflow and asset (or code)
+ *  - Run steps in order: the current step is an OPEN task for the archetypes
+ *    its roles map to; completing it opens the next one
+ *  - Enforce step roles on completion, recording refusals
+ *  - Keep an execution audit trail per instance and a task inbox per user
+ */
+
+import { Prisma } from "@prisma/client";
+import type {
+  CompleteWorkflowTaskInput,
+  ListWorkflowInstancesInput,
+  ListWorkflowTasksInput,
+  WorkflowDefinition,
+  WorkflowStatus,
+  WorkflowTaskStatus,
+  WorkflowTrigger,
+} from "@optropic/shared";
+import { db } from "../db";
+import { ConfigPackService } from "./configPackService";
+import { canCompleteStep, isPublicStep, stepArchetypes, workflowsFor } from "../utils/workflows";
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * What fired a trigger
+ */
+export interface WorkflowTriggerContext {
+  projectId: number;
+  assetId?: number | null;
+  codeId?: number | null;
+  /** Signed-in user behind the trigger, if any */
+  actorId?: number | null;
+  /** Stored with the instance, e.g. { scanId } */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A signed-in user acting on workflow tasks
+ */
+export interface WorkflowActor {
+  id: number;
+  /** Archetype code, falling back to the legacy role */
+  archetype: string | null;
+  tenantId: number;
+}
+
+export interface WorkflowTaskDTO {
+  id: number;
+  stepIndex: number;
+  action: string;
+  roles: string[];
+  status: WorkflowTaskStatus;
+  notes: string | null;
+  result: Prisma.JsonValue;
+  openedAt: Date | null;
+  completedAt: Date | null;
+  completedById: number | null;
+  instanceId: number;
+  assetId: number | null;
+}
+
+export interface WorkflowInboxTaskDTO extends WorkflowTaskDTO {
+  workflowName: string;
+  trigger: WorkflowTrigger;
+  projectId: number;
+  assetName: string | null;
+}
+
+export interface WorkflowEventDTO {
+  id: number;
+  type: string;
+  stepIndex: number | null;
+  role: string | null;
+  details: Prisma.JsonValue;
+  taskId: number | null;
+  actorId: number | null;
+  createdAt: Date;
+}
+
+export interface WorkflowInstanceDTO {
+  id: number;
+  workflowName: string;
+  trigger: WorkflowTrigger;
+  status: WorkflowStatus;
+  configPackId: number;
+  projectId: number;
+  assetId: number | null;
+  assetName: string | null;
+  codeId: number | null;
+  /** Index of the OPEN step; null once the instance ended */
+  currentStep: number | null;
+  tasks: WorkflowTaskDTO[];
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+const instanceInclude = {
+  asset: { select: { assetName: true } },
+  tasks: { orderBy: { stepIndex: "asc" } },
+} satisfies Prisma.WorkflowInstanceInclude;
+
+const inboxInclude = {
+  instance: {
+    select: { workflowName: true, trigger: true, projectId: true, asset: { select: { assetName: true } } },
+  },
+} satisfies Prisma.WorkflowTaskInclude;
+
+type InstanceRow = Prisma.WorkflowInstanceGetPayload<{ include: typeof instanceInclude }>;
+type TaskRow = InstanceRow["tasks"][number];
+type InboxTaskRow = Prisma.WorkflowTaskGetPayload<{ include: typeof inboxInclude }>;
+
+function toTaskDTO(task: TaskRow): WorkflowTaskDTO {
+  return {
+    id: task.id,
+    stepIndex: task.stepIndex,
+    action: task.action,
+    roles: task.roles,
+    status: task.status,
+    notes: task.notes,
+    result: task.result,
+    openedAt: task.openedAt,
+    completedAt: task.completedAt,
+    completedById: task.completedById,
+    instanceId: task.instanceId,
+    assetId: task.assetId,
+  };
+}
+
+function toInboxTaskDTO(task: InboxTaskRow): WorkflowInboxTaskDTO {
+  return {
+    ...toTaskDTO(task),
+    workflowName: task.instance.workflowName,
+    trigger: task.instance.trigger,
+    projectId: task.instance.projectId,
+    assetName: task.instance.asset?.assetName ?? null,
+  };
+}
+
+function toInstanceDTO(instance: InstanceRow): WorkflowInstanceDTO {
+  return {
+    id: instance.id,
+    workflowName: instance.workflowName,
+    trigger: instance.trigger,
+    status: instance.status,
+    configPackId: instance.configPackId,
+    projectId: instance.projectId,
+    assetId: instance.assetId,
+    assetName: instance.asset?.assetName ?? null,
+    codeId: instance.codeId,
+    currentStep: instance.tasks.find((task) => task.status === "OPEN")?.stepIndex ?? null,
+    tasks: instance.tasks.map(toTaskDTO),
+    createdAt: instance.createdAt,
+    completedAt: instance.completedAt,
+  };
+}
+
+async function getInstanceRow(instanceId: number): Promise<InstanceRow> {
+  const instance = await db.workflowInstance.findUnique({ where: { id: instanceId }, include: instanceInclude });
+  if (!instance) {
+    throw new Error("Workflow instance not found");
+  }
+  return instance;
+}
+
+/**
+ * Move an instance to the step at `stepIndex`: PUBLIC-only steps complete on
+ * the spot, the first other step opens, and the instance completes when no
+ * steps are left
+ */
+async function openStep(tx: Tx, instanceId: number, stepIndex: number, now: Date): Promise<void> {
+  const tasks = await tx.workflowTask.findMany({
+    where: { instanceId, stepIndex: { gte: stepIndex }, status: "PENDING" },
+    orderBy: { stepIndex: "asc" },
+  });
+
+  for (const task of tasks) {
+    if (isPublicStep(task.roles)) {
+      await tx.workflowTask.update({
+        where: { id: task.id },
+        data: { status: "COMPLETED", openedAt: now, completedAt: now },
+      });
+      await tx.workflowEvent.create({
+        data: {
+          type: "STEP_COMPLETED",
+          stepIndex: task.stepIndex,
+          role: "PUBLIC",
+          details: { action: task.action, automatic: true },
+          instanceId,
+          taskId: task.id,
+        },
+      });
+      continue;
+    }
+
+    await tx.workflowTask.update({
+      where: { id: task.id },
+      data: { status: "OPEN", openedAt: now },
+    });
+    await tx.workflowEvent.create({
+      data: {
+        type: "STEP_OPENED",
+        stepIndex: task.stepIndex,
+        details: { action: task.action, roles: task.roles },
+        instanceId,
+        taskId: task.id,
+      },
+    });
+    return;
+  }
+
+  await tx.workflowInstance.update({
+    where: { id: instanceId },
+    data: { status: "COMPLETED", completedAt: now },
+  });
+  await tx.workflowEvent.create({
+    data: { type: "COMPLETED", instanceId },
+  });
+}
+
+async function startInstance(
+  configPackId: number,
+  definition: WorkflowDefinition,
+  trigger: WorkflowTrigger,
+  ctx: WorkflowTriggerContext,
+  tenantId: number
+): Promise<number> {
+  const now = new Date();
+
+  return await db.$transaction(async (tx) => {
+    const instance = await tx.workflowInstance.create({
+      data: {
+        workflowName: definition.name,
+        trigger,
+        definition,
+        context: ctx.details ? (ctx.details as Prisma.InputJsonObject) : Prisma.DbNull,
+        configPackId,
+        projectId: ctx.projectId,
+        assetId: ctx.assetId ?? null,
+        codeId: ctx.codeId ?? null,
+        tenantId,
+        startedById: ctx.actorId ?? null,
+        tasks: {
+          create: definition.steps.map((step, stepIndex) => ({
+            stepIndex,
+            action: step.action,
+            roles: stepArchetypes(step.roles),
+            assetId: ctx.assetId ?? null,
+            tenantId,
+          })),
+        },
+      },
+      select: { id: true },
+    });
+
+    await tx.workflowEvent.create({
+      data: {
+        type: "STARTED",
+        details: { workflowName: definition.name, trigger, configPackId },
+        instanceId: instance.id,
+        actorId: ctx.actorId ?? null,
+      },
+    });
+    await openStep(tx, instance.id, 0, now);
+
+    return instance.id;
+  });
+}
+
+export const WorkflowService = {
+  /**
+   * Start the workflows of the project's config packs for a trigger: the
+   * pinned version, else the newest published version of each active pack.
+   * A workflow already active for the same asset (or code) is not started
+   * again. Returns the ids of the started instances.
+   */
+  async trigger(trigger: WorkflowTrigger, ctx: WorkflowTriggerContext): Promise<number[]> {
+    const packs = await ConfigPackService.listRunnablePacks(ctx.projectId);
+    const runnable = packs
+      .map((pack) => ({ pack, definitions: workflowsFor(pack.configJson, trigger) }))
+      .filter(({ definitions }) => definitions.length > 0);
+    if (runnable.length === 0) return [];
+
+    const project = await db.project.findUnique({
+      where: { id: ctx.projectId },
+      select: { userId: true, tenantId: true },
+    });
+    if (!project) return [];
+
+    const subject: Prisma.WorkflowInstanceWhereInput = ctx.assetId
+      ? { assetId: ctx.assetId }
+      : { assetId: null, codeId: ctx.codeId ?? null };
+
+    const started: number[] = [];
+    for (const { pack, definitions } of runnable) {
+      for (const definition of definitions) {
+        const active = await db.workflowInstance.findFirst({
+          where: { configPackId: pack.id, workflowName: definition.name, status: "ACTIVE", ...subject },
+          select: { id: true },
+        });
+        if (active) continue;
+
+        started.push(await startInstance(pack.id, definition, trigger, ctx, project.tenantId ?? project.userId));
+      }
+    }
+
+    return started;
+  },
+
+  /**
+   * Complete the OPEN task of an instance and move on to the next step.
+   * Users without one of the step's archetypes are refused, and the attempt
+   * is recorded.
+   */
+  async completeTask(input: CompleteWorkflowTaskInput, actor: WorkflowActor): Promise<WorkflowInstanceDTO> {
+    const task = await db.workflowTask.findUnique({ where: { id: input.taskId } });
+    if (!task) {
+      throw new Error("Workflow task not found");
+    }
+    if (task.status !== "OPEN") {
+      throw new Error(`Task is ${task.status.toLowerCase()}`);
+    }
+
+    if (!canCompleteStep(task.roles, actor.archetype)) {
+      await db.workflowEvent.create({
+        data: {
+          type: "STEP_DENIED",
+          stepIndex: task.stepIndex,
+          role: actor.archetype,
+          details: { action: task.action, roles: task.roles },
+          instanceId: task.instanceId,
+          taskId: task.id,
+          actorId: actor.id,
+        },
+      });
+      throw new Error(`Step "${task.action}" requires one of: ${task.roles.join(", ")}`);
+    }
+
+    const now = new Date();
+    await db.$transaction(async (tx) => {
+      const { count } = await tx.workflowTask.updateMany({
+        where: { id: task.id, status: "OPEN" },
+        data: {
+          status: "COMPLETED",
+          completedAt: now,
+          completedById: actor.id,
+          notes: input.notes ?? null,
+          result: input.result ? (input.result as Prisma.InputJsonObject) : Prisma.DbNull,
+        },
+      });
+      if (count === 0) {
+        throw new Error("Task is no longer open");
+      }
+
+      await tx.workflowEvent.create({
+        data: {
+          type: "STEP_COMPLETED",
+          stepIndex: task.stepIndex,
+          role: actor.archetype,
+          details: { action: task.action, ...(input.notes ? { notes: input.notes } : {}) },
+          instanceId: task.instanceId,
+          taskId: task.id,
+          actorId: actor.id,
+        },
+      });
+      await openStep(tx, task.instanceId, task.stepIndex + 1, now);
+    });
+
+    return toInstanceDTO(await getInstanceRow(task.instanceId));
+  },
+
+  /**
+   * Cancel an active instance and its remaining steps
+   */
+  async cancelInstance(instanceId: number, actorId: number): Promise<WorkflowInstanceDTO> {
+    const instance = await getInstanceRow(instanceId);
+    if (instance.status !== "ACTIVE") {
+      throw new Error(`Workflow is ${instance.status.toLowerCase()}`);
+    }
+
+    await db.$transaction([
+      db.workflowInstance.update({
+        where: { id: instance.id },
+        data: { status: "CANCELLED", completedAt: new Date() },
+      }),
+      db.workflowTask.updateMany({
+        where: { instanceId: instance.id, status: { in: ["PENDING", "OPEN"] } },
+        data: { status: "CANCELLED" },
+      }),
+      db.workflowEvent.create({
+        data: { type: "CANCELLED", instanceId: instance.id, actorId },
+      }),
+    ]);
+
+    return toInstanceDTO(await getInstanceRow(instance.id));
+  },
+
+  /**
+   * Open tasks in the actor's tenant for their archetype, oldest first
+   */
+  async listInbox(
+    actor: WorkflowActor,
+    input: ListWorkflowTasksInput
+  ): Promise<{ tasks: WorkflowInboxTaskDTO[]; total: number }> {
+    if (!actor.archetype) return { tasks: [], total: 0 };
+
+    const where: Prisma.WorkflowTaskWhereInput = {
+      tenantId: actor.tenantId,
+      status: "OPEN",
+      ...(actor.archetype === "ADMIN" ? {} : { roles: { has: actor.archetype } }),
+    };
+
+    const [tasks, total] = await Promise.all([
+      db.workflowTask.findMany({
+        where,
+        include: inboxInclude,
+        orderBy: { openedAt: "asc" },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.workflowTask.count({ where }),
+    ]);
+
+    return { tasks: tasks.map(toInboxTaskDTO), total };
+  },
+
+  /**
+   * A project's instances, newest first
+   */
+  async listInstances(
+    input: ListWorkflowInstancesInput
+  ): Promise<{ instances: WorkflowInstanceDTO[]; total: number }> {
+    const where: Prisma.WorkflowInstanceWhereInput = {
+      projectId: input.projectId,
+      ...(input.assetId ? { assetId: input.assetId } : {}),
+      ...(input.status ? { status: input.status } : {}),
+    };
+
+    const [instances, total] = await Promise.all([
+      db.workflowInstance.findMany({
+        where,
+        include: instanceInclude,
+        orderBy: { createdAt: "desc" },
+        take: input.limit,
+        skip: input.offset,
+      }),
+      db.workflowInstance.count({ where }),
+    ]);
+
+    return { instances: instances.map(toInstanceDTO), total };
+  },
+
+  /**
+   * An instance with its audit trail
+   */
+  async getInstance(instanceId: number): Promise<WorkflowInstanceDTO & { events: WorkflowEventDTO[] }> {
+    const [instance, events] = await Promise.all([
+      getInstanceRow(instanceId),
+      db.workflowEvent.findMany({ where: { instanceId }, orderBy: { id: "asc" } }),
+    ]);
+
+    return {
+      ...toInstanceDTO(instance),
+      events: events.map((event) => ({
+        id: event.id,
+        type: event.type,
+        stepIndex: event.stepIndex,
+        role: event.role,
+        details: event.details,
+        taskId: event.taskId,
+        actorId: event.actorId,
+        createdAt: event.createdAt,
+      })),
+    };
+  },
+};
@@ -0,0 +1,81 @@
+/**
+ * Tenant Context
+ * --------------
+ * The data scope of the running request or job, read by the tenant-aware
+ * database client in `db.ts`:
+ *  - tenant: authenticated tRPC calls; tenant models are filtered and
+ *    stamped with the tenant, and queries set `app.current_user_id` for RLS.
+ *    Calls made with an API key also carry the key, which narrows the
+ *    caller's permissions to its scopes
+ *  - system: jobs and admin tooling that span tenants; entered only through
+ *    `runAsSystem`, which logs and counts every use
+ *
+ * Code outside either scope (sign-in, public scans) runs unscoped as before.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { logger } from "./utils/logger";
+import { systemDataAccess } from "./services/metricsService";
+import type { Permission } from "@optropic/shared";
+
+/** The API key a call was made with */
+export interface ApiKeyGrant {
+  apiKeyId: number;
+  serviceAccountId: number;
+  scopes: Permission[];
+}
+
+export type DataScope =
+  | {
+      kind: "tenant";
+      userId: number;
+      tenantId: number;
+      /** Inside a transaction that already set the session variable */
+      inTransaction?: boolean;
+      apiKey?: ApiKeyGrant;
+    }
+  | {
+      kind: "system";
+      reason: string;
+    };
+
+const dataScope = new AsyncLocalStorage<DataScope>();
+
+export function getDataScope(): DataScope | undefined {
+  return dataScope.getStore();
+}
+
+export function runInDataScope<T>(scope: DataScope, fn: () => T): T {
+  return dataScope.run(scope, fn);
+}
+
+/**
+ * Run `fn` scoped to a tenant, as the given user or with the given API key
+ */
+export function runAsTenant<T>(userId: number, tenantId: number, fn: () => T, apiKey?: ApiKeyGrant): T {
+  return dataScope.run({ kind: "tenant", userId, tenantId, apiKey }, fn);
+}
+
+/**
+ * The API key the running call was made with, if any
+ */
+export function getApiKeyGrant(): ApiKeyGrant | undefined {
+  const scope = dataScope.getStore();
+  return scope?.kind === "tenant" ? scope.apiKey : undefined;
+}
+
+/**
+ * Run `fn` across all tenants. `reason` names the job or feature and ends up
+ * in the audit log line; `actorId` is the user who asked for it, if any.
+ */
+export async function runAsSystem<T>(reason: string, fn: () => Promise<T>, actorId?: number): Promise<T> {
+  const outer = dataScope.getStore();
+
+  logger.info(
+    { reason, actorId, tenantId: outer?.kind === "tenant" ? outer.tenantId : undefined },
+    "System data access"
+  );
+  systemDataAccess.inc({ reason });
+
+  return await dataScope.run({ kind: "system", reason }, fn);
+}
@@ -1,5 +1,6 @@
 import { fetchRequestHandler } from "@trpc/server/adapters/fetch";
 import { appRouter } from "./root";
+import { createTRPCContext } from "./main";
 import { corsConfig } from "../middleware/cors";
 import { logger, logError } from "../utils/logger";
 
@@ -29,8 +30,8 @@ export default async function handler(event: any) {
       endpoint: "/trpc",
       req: request,
       router: appRouter,
-      createContext() {
-        return { req: request };
+      createContext({ resHeaders }) {
+        return createTRPCContext(request as Request, resHeaders);
       },
       onError({ error, path }) {
         logError(error, { path });
@@ -1,23 +1,47 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
-import jwt from "jsonwebtoken";
 import crypto from "crypto";
-import { db } from "../db";
-import { env } from "../env";
 import { checkRateLimit } from "../middleware/rateLimitStore";
 import { createRequestLogger, logError } from "../utils/logger";
-import { captureError, setUser } from "../utils/sentry";
+import { setUser } from "../utils/sentry";
 import { trpcCallDuration, trpcCallTotal, errorTotal, authAttempts } from "../services/metricsService";
+import { PermissionService } from "../services/permissionService";
+import { AuthService, type AuthResult } from "../services/authService";
+import type { AuthenticatedApiKey } from "../services/serviceAccountService";
+import { runAsTenant } from "../tenantContext";
+import { RATE_LIMIT_TIERS } from "../utils/apiKeys";
+import { isStepUpFresh } from "../utils/totp";
+import { db } from "../db";
+import { STEP_UP_REQUIRED, type Permission } from "@optropic/shared";
 
 interface Context {
   req?: any;
+  resHeaders?: Headers;
+  auth?: AuthResult;
   requestId?: string;
   logger?: ReturnType<typeof createRequestLogger>;
   user?: {
     id: number;
     email: string;
     role: string;
+    tenantId: number;
+    /** Last step-up re-authentication (epoch seconds) */
+    stepUpAt?: number;
+  };
+  /** The API key of a machine client; `user` is then its tenant's owner */
+  apiKey?: AuthenticatedApiKey;
+}
+
+/**
+ * Per-request context; the caller is resolved here once and checked by
+ * `isAuthed`
+ */
+export async function createTRPCContext(req: Request, resHeaders?: Headers): Promise<Context> {
+  return {
+    req,
+    resHeaders,
+    auth: await AuthService.resolve(req),
   };
 }
 
@@ -92,14 +116,17 @@ const loggingMiddleware = t.middleware(async ({ ctx, next, path }) => {
 const rateLimitMiddleware = t.middleware(async ({ ctx, next, path }) => {
   const ip = getClientIp(ctx.req);
   const isAuthEndpoint = path?.includes("login") || path?.includes("auth");
+  // API keys are limited per key by their tier rather than per address
+  const apiKey = ctx.auth?.status === "authenticated" ? ctx.auth.user.apiKey : undefined;
 
-  const windowMs = isAuthEndpoint ? 60000 : 900000;
-  const maxRequests = isAuthEndpoint ? 5 : 100;
+  const { windowMs, maxRequests } = apiKey
+    ? RATE_LIMIT_TIERS[apiKey.rateLimitTier]
+    : { windowMs: isAuthEndpoint ? 60000 : 900000, maxRequests: isAuthEndpoint ? 5 : 100 };
 
-  const { allowed } = checkRateLimit(ip, windowMs, maxRequests);
+  const { allowed } = checkRateLimit(apiKey ? `api-key:${apiKey.apiKeyId}` : ip, windowMs, maxRequests);
 
   if (!allowed) {
-    ctx.logger?.warn({ ip, path }, "Rate limit exceeded");
+    ctx.logger?.warn({ ip, path, apiKeyId: apiKey?.apiKeyId }, "Rate limit exceeded");
     throw new TRPCError({
       code: "TOO_MANY_REQUESTS",
       message: isAuthEndpoint
@@ -111,72 +138,128 @@ const rateLimitMiddleware = t.middleware(async ({ ctx, next, path }) => {
   return next();
 });
 
-const isAuthed = t.middleware(async ({ ctx, next }) => {
-  const authHeader = ctx.req?.headers?.authorization;
+const isAuthed = t.middleware(async ({ ctx, next, path, type }) => {
+  const auth = ctx.auth ?? (await AuthService.resolve(ctx.req as Request | undefined));
 
-  if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    ctx.logger?.warn("Missing authorization header");
+  if (auth.status !== "authenticated") {
+    ctx.logger?.warn({ reason: auth.status }, "Authentication failed");
+    authAttempts.inc({ status: "failure" });
     throw new TRPCError({
       code: "UNAUTHORIZED",
-      message: "No authorization token provided",
+      message: auth.status === "missing" ? "No authorization token provided" : "Invalid or expired token",
     });
   }
 
-  const token = authHeader.substring(7);
+  const { source, apiKey, ...user } = auth.user;
+  ctx.logger?.info({ userId: user.id, email: user.email, source, apiKeyId: apiKey?.apiKeyId }, "User authenticated");
+  setUser({ id: user.id, email: user.email });
+  authAttempts.inc({ status: "success" });
 
-  try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as { userId: number };
-
-    const user = await db.user.findUnique({
-      where: { id: decoded.userId },
-      select: {
-        id: true,
-        email: true,
-        role: true,
-        isActive: true,
-      },
-    });
+  if (!apiKey) {
+    // Everything the procedure does with the database is scoped to the user's tenant
+    return runAsTenant(user.id, user.tenantId, () =>
+      next({
+        ctx: {
+          ...ctx,
+          user,
+        },
+      })
+    );
+  }
 
-    if (!user || !user.isActive) {
-      ctx.logger?.warn({ userId: decoded.userId }, "Invalid or inactive user");
-      throw new TRPCError({
-        code: "UNAUTHORIZED",
-        message: "Invalid or expired token",
-      });
-    }
+  const { scopes, apiKeyId, serviceAccountId } = apiKey;
+  return runAsTenant(
+    user.id,
+    user.tenantId,
+    async () => {
+      const result = await next({ ctx: { ...ctx, user, apiKey } });
 
-    ctx.logger?.info({ userId: user.id, email: user.email }, "User authenticated");
-    setUser({ id: user.id, email: user.email });
-    authAttempts.inc({ status: "success" });
+      // Every call made with an API key is audited, whatever its outcome
+      try {
+        await db.activityLog.create({
+          data: {
+            action: "API_KEY_CALL",
+            entityType: "ApiKey",
+            entityId: apiKeyId,
+            apiKeyId,
+            newValues: { path, type, ok: result.ok, serviceAccountId },
+            ipAddress: getClientIp(ctx.req),
+            userAgent: (ctx.req as Request | undefined)?.headers?.get?.("user-agent") ?? undefined,
+            userId: user.id,
+          },
+        });
+      } catch (error) {
+        ctx.logger?.error({ error, apiKeyId, path }, "Failed to audit API key call");
+      }
 
-    return next({
-      ctx: {
-        ...ctx,
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-        },
-      },
-    });
-  } catch (error) {
-    ctx.logger?.error({ error }, "Authentication failed");
-    captureError(error as Error, { requestId: ctx.requestId });
-    authAttempts.inc({ status: "failure" });
+      return result;
+    },
+    { apiKeyId, serviceAccountId, scopes }
+  );
+});
+
+/**
+ * API keys reach only procedures behind `requirePermission`, where their
+ * scopes apply; a key acts as its tenant's owner, so any other check would
+ * let it through
+ */
+const noApiKeys = t.middleware(async ({ ctx, next }) => {
+  if (ctx.apiKey) {
     throw new TRPCError({
-      code: "UNAUTHORIZED",
-      message: "Invalid or expired token",
+      code: "FORBIDDEN",
+      message: "This procedure cannot be called with an API key",
     });
   }
+  return next();
 });
 
 export const createCallerFactory = t.createCallerFactory;
 export const createTRPCRouter = t.router;
 export const baseProcedure = t.procedure.use(loggingMiddleware);
-export const protectedProcedure = t.procedure
+const authedProcedure = t.procedure
   .use(loggingMiddleware)
   .use(rateLimitMiddleware)
   .use(isAuthed);
+export const protectedProcedure = authedProcedure.use(noApiKeys);
+
+/**
+ * Protected procedure that also requires every listed permission; the
+ * caller's resolved access is passed on as `ctx.access`. API keys pass when
+ * their scopes cover the permissions.
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return authedProcedure.use(async ({ ctx, next }) => {
+    const access = await PermissionService.forUser(ctx.user.id);
+    const missing = permissions.filter((permission) => !access.permissions.has(permission));
+
+    if (missing.length > 0) {
+      ctx.logger?.warn({ userId: ctx.user.id, missing }, "Permission denied");
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `Missing permission: ${missing.join(", ")}`,
+      });
+    }
+
+    return next({ ctx: { ...ctx, access } });
+  });
+}
+
+/**
+ * Sensitive mutations (revoking or rotating keys, bulk revocation) also need
+ * a step-up re-authentication through `mfa.stepUp` within the last few
+ * minutes. API keys cannot step up.
+ */
+export const requireStepUp = t.middleware(async ({ ctx, next, path }) => {
+  if (ctx.apiKey || !isStepUpFresh(ctx.user?.stepUpAt, new Date())) {
+    ctx.logger?.warn({ userId: ctx.user?.id, path }, "Step-up re-authentication required");
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: STEP_UP_REQUIRED,
+    });
+  }
+  return next();
+});
+
 export const publicProcedure = t.procedure
   .use(loggingMiddleware)
   .use(rateLimitMiddleware);
@@ -1,13 +1,10 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
 import { db } from "~/server/db";
-import { env } from "~/server/env";
-import { baseProcedure } from "~/server/trpc/main";
+import { requirePermission } from "~/server/trpc/main";
 
-export const createTenantRoleMapping = baseProcedure
+export const createTenantRoleMapping = requirePermission("roles:manage")
   .input(z.object({ 
-    token: z.string(),
     tenantId: z.number(),
     archetypeId: z.number(),
     customLabel: z.string().optional(),
@@ -15,28 +12,10 @@ export const createTenantRoleMapping = baseProcedure
     color: z.string().optional(),
     isEnabled: z.boolean().optional().default(true),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
     try {
-      const verified = jwt.verify(input.token, env.JWT_SECRET);
-      const parsed = z.object({ userId: z.number() }).parse(verified);
-      
-      const user = await db.user.findUnique({
-        where: { id: parsed.userId },
-        include: {
-          archetype: true
-        }
-      });
-
-      if (!user || !user.isActive) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "User not found or inactive",
-        });
-      }
-
       // Only admins can create tenant role mappings for other tenants
-      const isAdmin = user.role === "ADMIN" || user.archetype?.code === "ADMIN";
-      if (!isAdmin && input.tenantId !== user.id) {
+      if (ctx.access.archetype !== "ADMIN" && input.tenantId !== ctx.access.tenantId) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "Access denied. Admin privileges required.",
@@ -109,7 +88,7 @@ export const createTenantRoleMapping = baseProcedure
       // Log the activity
       await db.activityLog.create({
         data: {
-          userId: user.id,
+          userId: ctx.user.id,
           action: "CREATE_TENANT_ROLE_MAPPING",
           entityType: "TenantRoleMapping",
           entityId: newMapping.id,
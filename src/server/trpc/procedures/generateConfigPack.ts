@@ -1,9 +1,8 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
 import { db } from "~/server/db";
-import { env } from "~/server/env";
-import { baseProcedure } from "~/server/trpc/main";
+import { protectedProcedure } from "~/server/trpc/main";
+import { ConfigPackService } from "~/server/services/configPackService";
 
 const ProductItemSchema = z.object({
   gtin: z.string().optional(),
@@ -82,32 +81,27 @@ function generateWorkflows(useCase: string, roles: string[], roleActions: Record
   return workflows;
 }
 
-export const generateConfigPack = baseProcedure
+export const generateConfigPack = protectedProcedure
   .input(z.object({
-    token: z.string(),
     name: z.string().min(1, "Configuration name is required"),
     useCase: UseCaseSchema,
     selectedRoles: z.array(UserRoleTypeSchema),
     roleActions: z.record(UserRoleTypeSchema, z.array(ActionTypeSchema)),
     productList: z.array(ProductItemSchema),
     projectId: z.number().optional(),
+    // Generate the next draft version of an existing pack instead of a new one
+    lineageId: z.number().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
     try {
-      const verified = jwt.verify(input.token, env.JWT_SECRET);
-      const parsed = z.object({ userId: z.number() }).parse(verified);
-      
       const user = await db.user.findUnique({
-        where: { id: parsed.userId },
-        include: {
-          archetype: true
-        }
+        where: { id: ctx.user.id },
       });
 
-      if (!user || !user.isActive) {
+      if (!user) {
         throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "User not found or inactive",
+          code: "NOT_FOUND",
+          message: "User not found",
         });
       }
 
@@ -149,18 +143,35 @@ export const generateConfigPack = baseProcedure
         workflows: generateWorkflows(input.useCase, input.selectedRoles, input.roleActions),
       };
 
-      // Store the configuration pack in the database
-      const configPack = await db.tenantConfigPack.create({
-        data: {
+      const tenantId = ctx.user.tenantId;
+
+      if (input.lineageId) {
+        const lineage = await db.tenantConfigPack.findFirst({
+          where: { lineageId: input.lineageId, tenantId },
+          select: { id: true },
+        });
+
+        if (!lineage) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "Configuration pack not found or access denied",
+          });
+        }
+      }
+
+      // Store the configuration pack as a draft version; it runs once published
+      const configPack = await ConfigPackService.createDraft(
+        {
           name: input.name,
           useCase: input.useCase,
           roles: input.selectedRoles,
           actions: input.roleActions,
           productList: input.productList,
           configJson,
-          projectId: input.projectId,
         },
-      });
+        { projectId: input.projectId, tenantId, createdById: user.id },
+        input.lineageId
+      );
 
       // Log the activity
       await db.activityLog.create({
@@ -169,14 +180,22 @@ export const generateConfigPack = baseProcedure
           action: "GENERATE_CONFIG_PACK",
           entityType: "TenantConfigPack",
           entityId: configPack.id,
-          newValues: { name: input.name, useCase: input.useCase },
+          newValues: {
+            name: input.name,
+            useCase: input.useCase,
+            lineageId: configPack.lineageId,
+            version: configPack.version,
+          },
         },
       });
 
       return {
         id: configPack.id,
+        lineageId: configPack.lineageId,
+        version: configPack.version,
+        status: configPack.status,
         config: configJson,
-        message: "Configuration pack generated successfully!",
+        message: "Configuration pack draft generated. Publish it to put it into use.",
       };
     } catch (error) {
       if (error instanceof TRPCError) throw error;
@@ -1,68 +1,43 @@
-import { z } from "zod";
-import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
 import { db } from "~/server/db";
-import { env } from "~/server/env";
-import { baseProcedure } from "~/server/trpc/main";
+import { protectedProcedure } from "~/server/trpc/main";
+import { PermissionService } from "~/server/services/permissionService";
+import { runAsSystem } from "~/server/tenantContext";
 
-export const getProjects = baseProcedure
-  .input(z.object({ 
-    token: z.string(),
-  }))
-  .query(async ({ input }) => {
-    try {
-      const verified = jwt.verify(input.token, env.JWT_SECRET);
-      const parsed = z.object({ userId: z.number() }).parse(verified);
-      
-      const user = await db.user.findUnique({
-        where: { id: parsed.userId },
-        include: {
-          archetype: true
-        }
-      });
+const projectInclude = {
+  user: {
+    select: {
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  _count: {
+    select: {
+      codes: true,
+      keys: true,
+      assets: true,
+    },
+  },
+} as const;
 
-      if (!user || !user.isActive) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "User not found or inactive",
-        });
-      }
+export const getProjects = protectedProcedure
+  .query(async ({ ctx }) => {
+    const access = await PermissionService.forUser(ctx.user.id);
 
-      // Admin can see all projects, others see only their own
-      // Check both old role system and new archetype system for backward compatibility
-      const isAdmin = user.role === "ADMIN" || user.archetype?.code === "ADMIN";
-      const whereClause = isAdmin ? {} : { userId: user.id };
-
-      const projects = await db.project.findMany({
-        where: whereClause,
-        include: {
-          user: {
-            select: {
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
-          },
-          _count: {
-            select: {
-              codes: true,
-              keys: true,
-              assets: true,
-            },
-          },
-        },
-        orderBy: {
-          createdAt: "desc",
-        },
-      });
-
-      return projects;
-    } catch (error) {
-      if (error instanceof TRPCError) throw error;
-      
-      throw new TRPCError({
-        code: "UNAUTHORIZED",
-        message: "Invalid token",
-      });
+    // Admin can see all projects across tenants, others see only their own
+    if (access.archetype === "ADMIN") {
+      return await runAsSystem(
+        "getProjects:admin",
+        () => db.project.findMany({ include: projectInclude, orderBy: { createdAt: "desc" } }),
+        ctx.user.id
+      );
     }
+
+    return await db.project.findMany({
+      where: { userId: ctx.user.id },
+      include: projectInclude,
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
   });
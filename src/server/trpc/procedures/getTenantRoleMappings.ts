@@ -1,73 +1,46 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
 import { db } from "~/server/db";
-import { env } from "~/server/env";
-import { baseProcedure } from "~/server/trpc/main";
+import { protectedProcedure } from "~/server/trpc/main";
+import { PermissionService } from "~/server/services/permissionService";
 
-export const getTenantRoleMappings = baseProcedure
+export const getTenantRoleMappings = protectedProcedure
   .input(z.object({ 
-    token: z.string(),
     tenantId: z.number().optional(), // If not provided, get for current user's tenant
   }))
-  .query(async ({ input }) => {
-    try {
-      const verified = jwt.verify(input.token, env.JWT_SECRET);
-      const parsed = z.object({ userId: z.number() }).parse(verified);
-      
-      const user = await db.user.findUnique({
-        where: { id: parsed.userId },
-        include: {
-          archetype: true
-        }
-      });
-
-      if (!user || !user.isActive) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "User not found or inactive",
-        });
-      }
+  .query(async ({ input, ctx }) => {
+    const access = await PermissionService.forUser(ctx.user.id);
 
-      // Determine the target tenant ID
-      const targetTenantId = input.tenantId || user.id;
+    // Determine the target tenant ID
+    const targetTenantId = input.tenantId ?? access.tenantId;
 
-      // Only admins can view other tenants' mappings, or users can view their own
-      const isAdmin = user.role === "ADMIN" || user.archetype?.code === "ADMIN";
-      if (!isAdmin && targetTenantId !== user.id) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "Access denied. Can only view your own tenant mappings.",
-        });
-      }
-
-      const mappings = await db.tenantRoleMapping.findMany({
-        where: { 
-          tenantId: targetTenantId,
-        },
-        include: {
-          archetype: true,
-          tenant: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true
-            }
-          }
-        },
-        orderBy: [
-          { archetype: { code: "asc" } }
-        ]
-      });
-
-      return mappings;
-    } catch (error) {
-      if (error instanceof TRPCError) throw error;
-      
+    // Only admins can view other tenants' mappings, or users can view their own
+    if (access.archetype !== "ADMIN" && targetTenantId !== access.tenantId) {
       throw new TRPCError({
-        code: "UNAUTHORIZED",
-        message: "Invalid token",
+        code: "FORBIDDEN",
+        message: "Access denied. Can only view your own tenant mappings.",
       });
     }
+
+    const mappings = await db.tenantRoleMapping.findMany({
+      where: { 
+        tenantId: targetTenantId,
+      },
+      include: {
+        archetype: true,
+        tenant: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true
+          }
+        }
+      },
+      orderBy: [
+        { archetype: { code: "asc" } }
+      ]
+    });
+
+    return mappings;
   });
@@ -3,23 +3,15 @@ import bcrypt from "bcryptjs";
 import { AuthLoginSchema } from "@optropic/shared";
 import { db } from "~/server/db";
 import { baseProcedure } from "~/server/trpc/main";
-import { createTokenPair } from "~/server/services/refreshTokenService";
+import { AuthService } from "~/server/services/authService";
+import { MfaService } from "~/server/services/mfaService";
 
 export const login = baseProcedure
   .input(AuthLoginSchema)
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
     const user = await db.user.findUnique({
       where: { email: input.email },
-      include: {
-        archetype: true,
-        roleMappings: {
-          where: { isEnabled: true },
-          include: {
-            archetype: true
-          },
-          take: 1 // Get the primary role mapping for this user
-        }
-      }
+      select: { id: true, password: true, isActive: true },
     });
 
     if (!user || !user.isActive) {
@@ -37,24 +29,18 @@ export const login = baseProcedure
       });
     }
 
-    const tokens = await createTokenPair(user.id);
-
-    // Get the primary tenant role mapping (user's own tenant or first enabled mapping)
-    const primaryRoleMapping = user.roleMappings.find(mapping => mapping.tenantId === user.id) || user.roleMappings[0];
+    // A second factor, or enrolling one the tenant requires, comes first;
+    // the challenge carries the sign-in to `mfa.verify` or `mfa.confirmEnrollment`
+    const mfa = await MfaService.loginRequirement(user.id);
+    if (mfa !== "none") {
+      return {
+        status: mfa === "verify" ? ("MFA_REQUIRED" as const) : ("MFA_ENROLLMENT_REQUIRED" as const),
+        challengeToken: MfaService.createChallenge(user.id, mfa),
+      };
+    }
 
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        archetype: user.archetype,
-        tenantRoleMapping: primaryRoleMapping,
-        tenantId: user.tenantId,
-      },
-      token: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      expiresIn: tokens.expiresIn,
+      status: "AUTHENTICATED" as const,
+      ...(await AuthService.signIn(user.id, ctx.resHeaders)),
     };
   });
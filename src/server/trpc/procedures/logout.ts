@@ -4,6 +4,7 @@ import {
   revokeRefreshToken,
   revokeAllUserTokens,
 } from "~/server/services/refreshTokenService";
+import { AuthService } from "~/server/services/authService";
 
 export const logout = protectedProcedure
   .input(
@@ -13,6 +14,8 @@ export const logout = protectedProcedure
     })
   )
   .mutation(async ({ ctx, input }) => {
+    AuthService.clearSessionCookie(ctx.resHeaders);
+
     if (input.allDevices) {
       const revokedCount = await revokeAllUserTokens(ctx.user.id);
       return {
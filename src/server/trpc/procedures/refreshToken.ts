@@ -2,6 +2,7 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { baseProcedure } from "~/server/trpc/main";
 import { refreshAccessToken } from "~/server/services/refreshTokenService";
+import { AuthService } from "~/server/services/authService";
 
 export const refreshToken = baseProcedure
   .input(
@@ -9,7 +10,7 @@ export const refreshToken = baseProcedure
       refreshToken: z.string().min(1),
     })
   )
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
     const result = await refreshAccessToken(input.refreshToken);
 
     if (!result) {
@@ -19,6 +20,8 @@ export const refreshToken = baseProcedure
       });
     }
 
+    AuthService.setSessionCookie(ctx.resHeaders, result.accessToken, result.expiresIn);
+
     return {
       token: result.accessToken,
       expiresIn: result.expiresIn,
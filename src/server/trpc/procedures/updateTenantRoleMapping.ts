@@ -1,38 +1,18 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import jwt from "jsonwebtoken";
 import { db } from "~/server/db";
-import { env } from "~/server/env";
-import { baseProcedure } from "~/server/trpc/main";
+import { requirePermission } from "~/server/trpc/main";
 
-export const updateTenantRoleMapping = baseProcedure
+export const updateTenantRoleMapping = requirePermission("roles:manage")
   .input(z.object({ 
-    token: z.string(),
     mappingId: z.number(),
     customLabel: z.string().optional(),
     icon: z.string().optional(),
     color: z.string().optional(),
     isEnabled: z.boolean().optional(),
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
     try {
-      const verified = jwt.verify(input.token, env.JWT_SECRET);
-      const parsed = z.object({ userId: z.number() }).parse(verified);
-      
-      const user = await db.user.findUnique({
-        where: { id: parsed.userId },
-        include: {
-          archetype: true
-        }
-      });
-
-      if (!user || !user.isActive) {
-        throw new TRPCError({
-          code: "UNAUTHORIZED",
-          message: "User not found or inactive",
-        });
-      }
-
       // Get the existing mapping to check ownership
       const existingMapping = await db.tenantRoleMapping.findUnique({
         where: { id: input.mappingId },
@@ -49,8 +29,7 @@ export const updateTenantRoleMapping = baseProcedure
       }
 
       // Only admins can update any tenant's mappings, or users can update their own
-      const isAdmin = user.role === "ADMIN" || user.archetype?.code === "ADMIN";
-      if (!isAdmin && existingMapping.tenantId !== user.id) {
+      if (ctx.access.archetype !== "ADMIN" && existingMapping.tenantId !== ctx.access.tenantId) {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "Access denied. Can only update your own tenant role mappings.",
@@ -83,7 +62,7 @@ export const updateTenantRoleMapping = baseProcedure
       // Log the activity
       await db.activityLog.create({
         data: {
-          userId: user.id,
+          userId: ctx.user.id,
           action: "UPDATE_TENANT_ROLE_MAPPING",
           entityType: "TenantRoleMapping",
           entityId: updatedMapping.id,
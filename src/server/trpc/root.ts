@@ -19,6 +19,19 @@ import { keysRouter } from "./routers/keysRouter";
 import { codesRouter } from "./routers/codesRouter";
 import { analyticsRouter } from "./routers/analyticsRouter";
 import { notificationsRouter } from "./routers/notificationsRouter";
+import { pairingsRouter } from "./routers/pairingsRouter";
+import { redirectsRouter } from "./routers/redirectsRouter";
+import { contentRouter } from "./routers/contentRouter";
+import { experimentsRouter } from "./routers/experimentsRouter";
+import { assetsRouter } from "./routers/assetsRouter";
+import { epcisRouter } from "./routers/epcisRouter";
+import { maintenanceRouter } from "./routers/maintenanceRouter";
+import { workflowsRouter } from "./routers/workflowsRouter";
+import { configPacksRouter } from "./routers/configPacksRouter";
+import { templatesRouter } from "./routers/templatesRouter";
+import { permissionsRouter } from "./routers/permissionsRouter";
+import { serviceAccountsRouter } from "./routers/serviceAccountsRouter";
+import { mfaRouter } from "./routers/mfaRouter";
 
 export const appRouter = createTRPCRouter({
   // Authentication
@@ -46,6 +59,19 @@ export const appRouter = createTRPCRouter({
   codes: codesRouter,
   analytics: analyticsRouter,
   notifications: notificationsRouter,
+  pairings: pairingsRouter,
+  redirects: redirectsRouter,
+  content: contentRouter,
+  experiments: experimentsRouter,
+  assets: assetsRouter,
+  epcis: epcisRouter,
+  maintenance: maintenanceRouter,
+  workflows: workflowsRouter,
+  configPacks: configPacksRouter,
+  templates: templatesRouter,
+  permissions: permissionsRouter,
+  serviceAccounts: serviceAccountsRouter,
+  mfa: mfaRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -9,35 +9,28 @@ import {
   GetTimeSeriesSchema,
   GetComparativeSchema,
 } from "@optropic/shared";
-import { protectedProcedure, createTRPCRouter } from "../main";
+import { requirePermission, createTRPCRouter } from "../main";
+import { runAsSystem } from "../../tenantContext";
 import { AnalyticsService } from "../../services/analyticsService";
 import { db } from "../../db";
+import { getTenantProject, tenantProjectWhere } from "../tenantAccess";
 
 export const analyticsRouter = createTRPCRouter({
   /**
    * Get dashboard overview metrics
    * Includes caching for performance
    */
-  getOverview: protectedProcedure.query(async ({ ctx }) => {
+  getOverview: requirePermission("analytics:read").query(async ({ ctx }) => {
     return await AnalyticsService.getOverviewCached(ctx.user.id);
   }),
 
   /**
    * Get detailed project analytics
    */
-  getProjectAnalytics: protectedProcedure
+  getProjectAnalytics: requirePermission("analytics:read")
     .input(GetProjectAnalyticsSchema)
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await AnalyticsService.getProjectAnalytics(
         input.projectId,
@@ -48,19 +41,10 @@ export const analyticsRouter = createTRPCRouter({
   /**
    * Detect anomalies in scan patterns
    */
-  detectAnomalies: protectedProcedure
+  detectAnomalies: requirePermission("analytics:read")
     .input(DetectAnomaliesSchema)
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await AnalyticsService.detectAnomalies(
         input.projectId,
@@ -71,7 +55,7 @@ export const analyticsRouter = createTRPCRouter({
   /**
    * Manually refresh analytics cache
    */
-  refreshCache: protectedProcedure.mutation(async ({ ctx }) => {
+  refreshCache: requirePermission("analytics:read").mutation(async ({ ctx }) => {
     await AnalyticsService.cacheDailySnapshot(ctx.user.id);
 
     return {
@@ -81,32 +65,19 @@ export const analyticsRouter = createTRPCRouter({
   }),
 
   /**
-   * Get global analytics (admin only)
+   * Get global analytics (needs analytics:global)
    */
-  getGlobalOverview: protectedProcedure.query(async ({ ctx }) => {
-    if (ctx.user.role !== "ADMIN") {
-      throw new Error("Unauthorized: Admin access required");
-    }
-
-    return await AnalyticsService.getOverview();
+  getGlobalOverview: requirePermission("analytics:global").query(async ({ ctx }) => {
+    return await runAsSystem("analytics:getGlobalOverview", () => AnalyticsService.getOverview(), ctx.user.id);
   }),
 
   /**
    * Get time-series data for custom date range
    */
-  getTimeSeries: protectedProcedure
+  getTimeSeries: requirePermission("analytics:read")
     .input(GetTimeSeriesSchema)
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       const startDate = new Date(input.startDate);
       const endDate = new Date(input.endDate);
@@ -169,13 +140,13 @@ export const analyticsRouter = createTRPCRouter({
   /**
    * Get comparative analytics across projects
    */
-  getComparative: protectedProcedure
+  getComparative: requirePermission("analytics:read")
     .input(GetComparativeSchema)
     .query(async ({ input, ctx }) => {
       const projects = await db.project.findMany({
         where: {
           id: { in: input.projectIds },
-          userId: ctx.user.id,
+          ...tenantProjectWhere(ctx.access.tenantId),
         },
       });
 
@@ -0,0 +1,239 @@
+/**
+ * tRPC Router for Asset Management
+ */
+
+import {
+  AggregateAssetsSchema,
+  AssetIdSchema,
+  CreateAssetSchema,
+  DisaggregateAssetsSchema,
+  ImportAssetsSchema,
+  ListAssetsSchema,
+  UpdateAssetSchema,
+} from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { AssetService } from "../../services/assetService";
+import { db } from "../../db";
+import { getTenantProject, inTenant, tenantProjectWhere } from "../tenantAccess";
+
+/**
+ * Load an asset of a project in the caller's tenant
+ */
+async function getTenantAsset(assetId: number, tenantId: number) {
+  const asset = await db.asset.findUnique({
+    where: { id: assetId },
+    include: { project: true },
+  });
+
+  if (!asset || !inTenant(asset.project, tenantId)) {
+    throw new Error("Asset not found or unauthorized");
+  }
+
+  return asset;
+}
+
+/**
+ * Verify every listed asset belongs to the caller's tenant
+ */
+async function assertTenantAssets(assetIds: number[], tenantId: number) {
+  const found = await db.asset.count({
+    where: {
+      id: { in: assetIds },
+      project: tenantProjectWhere(tenantId),
+    },
+  });
+
+  if (found !== new Set(assetIds).size) {
+    throw new Error("Asset not found or unauthorized");
+  }
+}
+
+export const assetsRouter = createTRPCRouter({
+  /**
+   * List a project's assets
+   */
+  list: requirePermission("projects:read")
+    .input(ListAssetsSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await AssetService.listAssets(input);
+    }),
+
+  /**
+   * Get an asset with the units it is packed in
+   */
+  get: requirePermission("projects:read")
+    .input(AssetIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantAsset(input.assetId, ctx.access.tenantId);
+      return await AssetService.getAsset(input.assetId);
+    }),
+
+  /**
+   * What a case or pallet contains
+   */
+  contents: requirePermission("projects:read")
+    .input(AssetIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantAsset(input.assetId, ctx.access.tenantId);
+      return await AssetService.getPackagingContents(input.assetId);
+    }),
+
+  /**
+   * Create an asset
+   */
+  create: requirePermission("assets:manage")
+    .input(CreateAssetSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const asset = await AssetService.createAsset({ ...input, tenantId: project.tenantId ?? project.userId });
+
+      await db.activityLog.create({
+        data: {
+          action: "ASSET_CREATED",
+          entityType: "Asset",
+          entityId: asset.id,
+          newValues: {
+            assetName: asset.assetName,
+            assetType: asset.assetType,
+            gtin: asset.gtin,
+            sscc: asset.sscc,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return asset;
+    }),
+
+  /**
+   * Update an asset
+   */
+  update: requirePermission("assets:manage")
+    .input(UpdateAssetSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantAsset(input.assetId, ctx.access.tenantId);
+
+      const asset = await AssetService.updateAsset(input);
+
+      await db.activityLog.create({
+        data: {
+          action: "ASSET_UPDATED",
+          entityType: "Asset",
+          entityId: asset.id,
+          newValues: {
+            fields: Object.keys(input).filter((key) => key !== "assetId"),
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return asset;
+    }),
+
+  /**
+   * Delete an asset without codes or contents
+   */
+  delete: requirePermission("assets:manage")
+    .input(AssetIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const asset = await getTenantAsset(input.assetId, ctx.access.tenantId);
+
+      await AssetService.deleteAsset(asset.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "ASSET_DELETED",
+          entityType: "Asset",
+          entityId: asset.id,
+          oldValues: {
+            assetName: asset.assetName,
+            gtin: asset.gtin,
+            sscc: asset.sscc,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return { success: true };
+    }),
+
+  /**
+   * Bulk import from CSV or JSON; returns per-row errors
+   */
+  import: requirePermission("assets:manage")
+    .input(ImportAssetsSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const result = await AssetService.importAssets({ ...input, tenantId: project.tenantId ?? project.userId });
+
+      if (result.imported > 0) {
+        await db.activityLog.create({
+          data: {
+            action: "ASSETS_IMPORTED",
+            entityType: "Project",
+            entityId: project.id,
+            newValues: {
+              format: input.format,
+              imported: result.imported,
+            },
+            userId: ctx.user.id,
+          },
+        });
+      }
+
+      return result;
+    }),
+
+  /**
+   * Pack assets into a case or pallet
+   */
+  aggregate: requirePermission("assets:manage")
+    .input(AggregateAssetsSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantAsset(input.parentId, ctx.access.tenantId);
+      await assertTenantAssets(input.childIds, ctx.access.tenantId);
+
+      const aggregated = await AssetService.aggregate(input.parentId, input.childIds);
+
+      await db.activityLog.create({
+        data: {
+          action: "ASSETS_AGGREGATED",
+          entityType: "Asset",
+          entityId: input.parentId,
+          newValues: {
+            childIds: input.childIds,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return { aggregated };
+    }),
+
+  /**
+   * Unpack assets from their case or pallet
+   */
+  disaggregate: requirePermission("assets:manage")
+    .input(DisaggregateAssetsSchema)
+    .mutation(async ({ input, ctx }) => {
+      await assertTenantAssets(input.childIds, ctx.access.tenantId);
+
+      const disaggregated = await AssetService.disaggregate(input.childIds);
+
+      await db.activityLog.create({
+        data: {
+          action: "ASSETS_DISAGGREGATED",
+          entityType: "Asset",
+          newValues: {
+            childIds: input.childIds,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return { disaggregated };
+    }),
+});
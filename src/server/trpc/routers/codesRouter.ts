@@ -3,41 +3,100 @@
  */
 
 import { z } from "zod";
-import { protectedProcedure, publicProcedure, createTRPCRouter } from "../main";
+import { observable } from "@trpc/server/observable";
+import { publicProcedure, requirePermission, requireStepUp, createTRPCRouter } from "../main";
 import { CodeService } from "../../services/codeService";
+import {
+  BatchService,
+  batchEvents,
+  MAX_BATCH_QUANTITY,
+  MAX_CHUNK_SIZE,
+  type BatchProgressEvent,
+} from "../../services/batchService";
+import { ExportService } from "../../services/exportService";
 import { VerificationService } from "../../services/verificationService";
+import {
+  VerificationBundleService,
+  MAX_BUNDLE_VALIDITY_HOURS,
+} from "../../services/verificationBundleService";
 import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+const verifyCodeInput = z.object({
+  codeValue: z.string(),
+  deviceId: z.string().optional(),
+  ipAddress: z.string().optional(),
+  userAgent: z.string().optional(),
+  deviceType: z
+    .enum(["MOBILE", "DESKTOP", "TABLET", "IOT_DEVICE", "SCANNER"])
+    .optional(),
+  geoHash: z.string().optional(),
+  country: z.string().optional(),
+  city: z.string().optional(),
+  region: z.string().optional(),
+  tag: z
+    .object({
+      piccData: z.string().regex(/^[0-9A-Fa-f]{32}$/),
+      cmac: z.string().regex(/^[0-9A-Fa-f]{16}$/),
+    })
+    .optional(),
+});
+
+/**
+ * Load a batch of a project in the caller's tenant
+ */
+async function getTenantBatch(batchId: number, tenantId: number) {
+  const batch = await db.codeBatch.findUnique({
+    where: { id: batchId },
+    include: { project: true },
+  });
+
+  if (!batch || !inTenant(batch.project, tenantId)) {
+    throw new Error("Batch not found or unauthorized");
+  }
+
+  return batch;
+}
+
+/**
+ * Load an export of a project in the caller's tenant
+ */
+async function getTenantExport(exportId: number, tenantId: number) {
+  const record = await db.codeExport.findUnique({
+    where: { id: exportId },
+    include: { project: true },
+  });
+
+  if (!record || !inTenant(record.project, tenantId)) {
+    throw new Error("Export not found or unauthorized");
+  }
+
+  return record;
+}
 
 export const codesRouter = createTRPCRouter({
   /**
    * Generate a new code
    * Supports both plaintext and encrypted payload modes
    */
-  generate: protectedProcedure
+  generate: requirePermission("codes:generate")
     .input(
       z.object({
         projectId: z.number(),
         keyId: z.number(),
         codeType: z.enum(["OPTROPIC", "QRSSL", "GS1_COMPLIANT"]),
-        encryptionLevel: z.enum(["AES_128", "AES_256", "RSA_2048", "RSA_4096"]),
+        encryptionLevel: z.enum(["AES_128", "AES_256", "RSA_2048", "RSA_4096", "ED25519"]),
         contentId: z.number().optional(),
         assetId: z.number().optional(),
         role: z.string().optional(),
         metadata: z.record(z.any()).optional(),
         encryptPayload: z.boolean().optional(),
+        qrErrorCorrection: z.enum(["L", "M", "Q", "H"]).optional(),
+        codeFormat: z.enum(["STANDARD", "COMPACT"]).optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       const code = await CodeService.generateCode({
         projectId: input.projectId,
@@ -49,6 +108,8 @@ export const codesRouter = createTRPCRouter({
         role: input.role,
         metadata: input.metadata,
         encryptPayload: input.encryptPayload || false,
+        qrErrorCorrection: input.qrErrorCorrection,
+        codeFormat: input.codeFormat,
       });
 
       await db.activityLog.create({
@@ -68,34 +129,399 @@ export const codesRouter = createTRPCRouter({
       return code;
     }),
 
+  /**
+   * Create a bulk generation job and start processing it in the background
+   */
+  generateBatch: requirePermission("codes:generate")
+    .input(
+      z.object({
+        projectId: z.number(),
+        keyId: z.number(),
+        quantity: z.number().int().min(1).max(MAX_BATCH_QUANTITY),
+        codeType: z.enum(["OPTROPIC", "QRSSL", "GS1_COMPLIANT"]),
+        encryptionLevel: z.enum(["AES_128", "AES_256", "RSA_2048", "RSA_4096", "ED25519"]),
+        chunkSize: z.number().int().min(1).max(MAX_CHUNK_SIZE).optional(),
+        contentId: z.number().optional(),
+        assetId: z.number().optional(),
+        role: z.string().optional(),
+        metadata: z.record(z.any()).optional(),
+        encryptPayload: z.boolean().optional(),
+        codeFormat: z.enum(["STANDARD", "COMPACT"]).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const batch = await BatchService.createBatch(input, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "CODE_BATCH_CREATED",
+          entityType: "CodeBatch",
+          entityId: batch.id,
+          newValues: {
+            quantity: batch.quantity,
+            codeType: batch.codeType,
+            keyId: batch.keyId,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      BatchService.start(batch.id);
+
+      return batch;
+    }),
+
+  /**
+   * List generation batches for a project
+   */
+  listBatches: requirePermission("codes:read")
+    .input(
+      z.object({
+        projectId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await BatchService.listBatches(input.projectId);
+    }),
+
+  /**
+   * Get the current state of a batch
+   */
+  batchStatus: requirePermission("codes:read")
+    .input(
+      z.object({
+        batchId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await getTenantBatch(input.batchId, ctx.access.tenantId);
+      return await BatchService.getBatch(input.batchId);
+    }),
+
+  /**
+   * Cancel a pending or running batch
+   */
+  cancelBatch: requirePermission("codes:generate")
+    .input(
+      z.object({
+        batchId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantBatch(input.batchId, ctx.access.tenantId);
+      const batch = await BatchService.cancelBatch(input.batchId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CODE_BATCH_CANCELLED",
+          entityType: "CodeBatch",
+          entityId: batch.id,
+          newValues: {
+            generatedCount: batch.generatedCount,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return batch;
+    }),
+
+  /**
+   * Resume a failed or interrupted batch
+   */
+  resumeBatch: requirePermission("codes:generate")
+    .input(
+      z.object({
+        batchId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantBatch(input.batchId, ctx.access.tenantId);
+      return await BatchService.resumeBatch(input.batchId);
+    }),
+
+  /**
+   * Real-time batch progress
+   * Emits the current state first, then every committed chunk
+   */
+  batchProgress: requirePermission("codes:read")
+    .input(
+      z.object({
+        batchId: z.number(),
+      })
+    )
+    .subscription(({ input, ctx }) => {
+      return observable<BatchProgressEvent>((emit) => {
+        // Teardown can run before the lookup below resolves
+        let unsubscribed = false;
+        const onProgress = (event: BatchProgressEvent) => {
+          if (event.batchId === input.batchId) {
+            emit.next(event);
+          }
+        };
+
+        getTenantBatch(input.batchId, ctx.access.tenantId)
+          .then(() => BatchService.getBatch(input.batchId))
+          .then((batch) => {
+            if (unsubscribed) return;
+            emit.next({
+              batchId: batch.id,
+              status: batch.status,
+              generatedCount: batch.generatedCount,
+              quantity: batch.quantity,
+              progress: batch.progress,
+              errorMessage: batch.errorMessage,
+            });
+            batchEvents.on("batch:progress", onProgress);
+          })
+          .catch((err: Error) => emit.error(err));
+
+        return () => {
+          unsubscribed = true;
+          batchEvents.off("batch:progress", onProgress);
+        };
+      });
+    }),
+
+  /**
+   * Export codes as a manifest (CSV/JSONL), symbol archive (ZIP) or PDF label sheets
+   * The file is generated in the background and stored in the exports bucket
+   */
+  createExport: requirePermission("codes:export")
+    .input(
+      z.object({
+        projectId: z.number(),
+        format: z.enum(["CSV", "JSONL", "ZIP_SVG", "ZIP_PNG", "PDF_LABELS"]),
+        filters: z
+          .object({
+            batchId: z.number().optional(),
+            assetId: z.number().optional(),
+            createdFrom: z.date().optional(),
+            createdTo: z.date().optional(),
+            includeRevoked: z.boolean().optional(),
+          })
+          .optional(),
+        options: z
+          .object({
+            errorCorrection: z.enum(["L", "M", "Q", "H"]).optional(),
+            quietZone: z.number().min(0).max(16).optional(),
+            svgSize: z.number().min(16).max(4096).optional(),
+            pngScale: z.number().int().min(1).max(32).optional(),
+            caption: z.enum(["serial", "codeValue", "none"]).optional(),
+            layout: z
+              .object({
+                pageWidth: z.number().positive().optional(),
+                pageHeight: z.number().positive().optional(),
+                columns: z.number().int().min(1).max(20).optional(),
+                rows: z.number().int().min(1).max(40).optional(),
+                marginTop: z.number().min(0).optional(),
+                marginLeft: z.number().min(0).optional(),
+                gapX: z.number().min(0).optional(),
+                gapY: z.number().min(0).optional(),
+                labelWidth: z.number().positive().optional(),
+                labelHeight: z.number().positive().optional(),
+                fontSize: z.number().min(0).max(24).optional(),
+              })
+              .optional(),
+          })
+          .optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const codeExport = await ExportService.createExport(input, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "CODE_EXPORT_CREATED",
+          entityType: "CodeExport",
+          entityId: codeExport.id,
+          newValues: {
+            format: codeExport.format,
+            batchId: input.filters?.batchId,
+            assetId: input.filters?.assetId,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      ExportService.start(codeExport.id);
+
+      return codeExport;
+    }),
+
+  /**
+   * List exports for a project
+   */
+  listExports: requirePermission("codes:export")
+    .input(
+      z.object({
+        projectId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await ExportService.listExports(input.projectId);
+    }),
+
+  /**
+   * Get the current state of an export
+   */
+  exportStatus: requirePermission("codes:export")
+    .input(
+      z.object({
+        exportId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await getTenantExport(input.exportId, ctx.access.tenantId);
+      return await ExportService.getExport(input.exportId);
+    }),
+
+  /**
+   * Get a short-lived signed URL for downloading a completed export
+   */
+  exportDownloadUrl: requirePermission("codes:export")
+    .input(
+      z.object({
+        exportId: z.number(),
+        expiresInSeconds: z.number().int().min(60).max(24 * 60 * 60).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantExport(input.exportId, ctx.access.tenantId);
+      const download = await ExportService.getDownloadUrl(
+        input.exportId,
+        input.expiresInSeconds
+      );
+
+      await db.activityLog.create({
+        data: {
+          action: "CODE_EXPORT_DOWNLOADED",
+          entityType: "CodeExport",
+          entityId: input.exportId,
+          userId: ctx.user.id,
+        },
+      });
+
+      return download;
+    }),
+
+  /**
+   * Offline verification bundle: public keys and revoked compact-code serials
+   * Field scanners verify compact codes against it without connectivity
+   */
+  verificationBundle: requirePermission("codes:read")
+    .input(
+      z.object({
+        projectId: z.number(),
+        validityHours: z.number().int().min(1).max(MAX_BUNDLE_VALIDITY_HOURS).optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await VerificationBundleService.buildBundle(input.projectId, input.validityHours);
+    }),
+
+  /**
+   * Publish a verification bundle to the exports bucket for scanner sync
+   */
+  publishVerificationBundle: requirePermission("codes:export")
+    .input(
+      z.object({
+        projectId: z.number(),
+        validityHours: z.number().int().min(1).max(MAX_BUNDLE_VALIDITY_HOURS).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const published = await VerificationBundleService.publishBundle(
+        input.projectId,
+        input.validityHours
+      );
+
+      await db.activityLog.create({
+        data: {
+          action: "VERIFICATION_BUNDLE_PUBLISHED",
+          entityType: "Project",
+          entityId: input.projectId,
+          newValues: {
+            objectKey: published.objectKey,
+            keyCount: published.bundle.keys.length,
+            expiresAt: published.bundle.expiresAt,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return {
+        url: published.url,
+        issuedAt: published.bundle.issuedAt,
+        expiresAt: published.bundle.expiresAt,
+      };
+    }),
+
   /**
    * List codes for a project
    */
-  list: protectedProcedure
+  list: requirePermission("codes:read")
     .input(
       z.object({
         projectId: z.number(),
       })
     )
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await CodeService.listCodes(input.projectId);
+    }),
+
+  /**
+   * Render the QR symbol of a code as SVG, PNG or raw module matrix
+   */
+  symbol: requirePermission("codes:read")
+    .input(
+      z.object({
+        codeId: z.number(),
+        format: z.enum(["svg", "png", "matrix"]).default("svg"),
+        errorCorrection: z.enum(["L", "M", "Q", "H"]).optional(),
+        quietZone: z.number().min(0).max(16).optional(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      const code = await db.optropicCode.findFirst({
         where: {
-          id: input.projectId,
-          userId: ctx.user.id,
+          id: input.codeId,
+        },
+        include: {
+          project: true,
         },
       });
 
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
+      if (!code || !inTenant(code.project, ctx.access.tenantId)) {
+        throw new Error("Code not found or unauthorized");
       }
 
-      return await CodeService.listCodes(input.projectId);
+      return await CodeService.renderSymbol(
+        input.codeId,
+        input.format,
+        input.errorCorrection,
+        input.quietZone
+      );
     }),
 
   /**
    * Revoke a code
    */
-  revoke: protectedProcedure
+  revoke: requirePermission("codes:revoke")
     .input(
       z.object({
         codeId: z.number(),
@@ -111,7 +537,7 @@ export const codesRouter = createTRPCRouter({
         },
       });
 
-      if (!code || code.project.userId !== ctx.user.id) {
+      if (!code || !inTenant(code.project, ctx.access.tenantId)) {
         throw new Error("Code not found or unauthorized");
       }
 
@@ -149,28 +575,70 @@ export const codesRouter = createTRPCRouter({
     }),
 
   /**
-   * Verify a code (public endpoint)
+   * Revoke many codes of a project at once (needs a step-up
+   * re-authentication)
    */
-  verify: publicProcedure
+  revokeMany: requirePermission("codes:revoke")
+    .use(requireStepUp)
     .input(
       z.object({
-        codeValue: z.string(),
-        deviceId: z.string().optional(),
-        ipAddress: z.string().optional(),
-        userAgent: z.string().optional(),
-        deviceType: z
-          .enum(["MOBILE", "DESKTOP", "TABLET", "IOT_DEVICE", "SCANNER"])
-          .optional(),
-        geoHash: z.string().optional(),
-        country: z.string().optional(),
-        city: z.string().optional(),
-        region: z.string().optional(),
+        projectId: z.number(),
+        codeIds: z.array(z.number()).min(1).max(10000),
       })
     )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const revoked = await CodeService.revokeCodes(input.projectId, input.codeIds);
+
+      await db.activityLog.create({
+        data: {
+          action: "CODES_REVOKED",
+          entityType: "Project",
+          entityId: project.id,
+          newValues: {
+            requested: input.codeIds.length,
+            revoked,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      await db.notification.create({
+        data: {
+          userId: ctx.user.id,
+          type: "CODE_REVOKED",
+          title: "Codes Revoked",
+          message: `${revoked} code${revoked !== 1 ? "s" : ""} of ${project.name} revoked`,
+          metadata: {
+            projectId: project.id,
+            revoked,
+          },
+        },
+      });
+
+      return { revoked };
+    }),
+
+  /**
+   * Verify a code (public endpoint)
+   */
+  verify: publicProcedure
+    .input(verifyCodeInput)
     .mutation(async ({ input }) => {
       return await VerificationService.verifyCode(input);
     }),
 
+  /**
+   * Verify a code scanned by one of the tenant's devices (scanner fleets,
+   * production lines). Only the tenant's own codes are found and recorded.
+   */
+  recordScan: requirePermission("scans:write")
+    .input(verifyCodeInput)
+    .mutation(async ({ input }) => {
+      return await VerificationService.verifyCode({ ...input, deviceType: input.deviceType ?? "SCANNER" });
+    }),
+
   /**
    * Verify and decrypt an encrypted code (public endpoint)
    * Supports codes with encrypted payloads
@@ -184,7 +652,7 @@ export const codesRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ input }) => {
-      return await CodeService.verifyEncryptedCode(
+      return await VerificationService.verifyEncryptedCode(
         input.codeValue,
         input.deviceId,
         input.geoHash
@@ -194,7 +662,7 @@ export const codesRouter = createTRPCRouter({
   /**
    * Get scan history
    */
-  scanHistory: protectedProcedure
+  scanHistory: requirePermission("analytics:read")
     .input(
       z.object({
         projectId: z.number(),
@@ -203,16 +671,7 @@ export const codesRouter = createTRPCRouter({
       })
     )
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await VerificationService.getScanHistory(
         input.projectId,
@@ -224,23 +683,14 @@ export const codesRouter = createTRPCRouter({
   /**
    * Get code statistics
    */
-  stats: protectedProcedure
+  stats: requirePermission("analytics:read")
     .input(
       z.object({
         projectId: z.number(),
       })
     )
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       const [codeStats, scanStats] = await Promise.all([
         CodeService.getCodeStats(input.projectId),
@@ -256,7 +706,7 @@ export const codesRouter = createTRPCRouter({
   /**
    * Detect suspicious activity
    */
-  detectSuspicious: protectedProcedure
+  detectSuspicious: requirePermission("analytics:read")
     .input(
       z.object({
         projectId: z.number(),
@@ -264,16 +714,7 @@ export const codesRouter = createTRPCRouter({
       })
     )
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await VerificationService.detectSuspiciousActivity(
         input.projectId,
@@ -0,0 +1,257 @@
+/**
+ * tRPC Router for Config Pack Versions
+ */
+
+import {
+  ConfigPackIdSchema,
+  CreateConfigPackVersionSchema,
+  DiffConfigPacksSchema,
+  ListConfigPacksSchema,
+  PinConfigPackSchema,
+  UnpinConfigPackSchema,
+  UpdateConfigPackDraftSchema,
+} from "@optropic/shared";
+import { protectedProcedure, requirePermission, createTRPCRouter } from "../main";
+import { ConfigPackService } from "../../services/configPackService";
+import { PermissionService, type UserAccess } from "../../services/permissionService";
+import { db } from "../../db";
+
+/**
+ * Load a config pack version of the caller's tenant; with `manage`, the
+ * caller must have created it or hold `config-packs:manage`
+ */
+async function getTenantConfigPack(configPackId: number, actor: UserAccess, manage = false) {
+  const pack = await db.tenantConfigPack.findUnique({ where: { id: configPackId } });
+
+  if (!pack || pack.tenantId !== actor.tenantId) {
+    throw new Error("Config pack not found or unauthorized");
+  }
+  if (manage && pack.createdById !== actor.userId && !actor.permissions.has("config-packs:manage")) {
+    throw new Error("Config pack not found or unauthorized");
+  }
+
+  return pack;
+}
+
+/**
+ * Load a project of the caller's tenant that the caller owns or manages
+ */
+async function getManagedProject(projectId: number, actor: UserAccess) {
+  const project = await db.project.findUnique({ where: { id: projectId } });
+
+  if (
+    !project ||
+    (project.tenantId ?? project.userId) !== actor.tenantId ||
+    (project.userId !== actor.userId && !actor.permissions.has("config-packs:manage"))
+  ) {
+    throw new Error("Project not found or unauthorized");
+  }
+
+  return project;
+}
+
+export const configPacksRouter = createTRPCRouter({
+  /**
+   * The tenant's config pack versions
+   */
+  list: protectedProcedure
+    .input(ListConfigPacksSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      return await ConfigPackService.list(actor.tenantId, input);
+    }),
+
+  /**
+   * All versions of the pack a version belongs to
+   */
+  versions: protectedProcedure
+    .input(ConfigPackIdSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      const pack = await getTenantConfigPack(input.configPackId, actor);
+      return await ConfigPackService.listVersions(pack.lineageId ?? pack.id);
+    }),
+
+  get: protectedProcedure
+    .input(ConfigPackIdSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getTenantConfigPack(input.configPackId, actor);
+      return await ConfigPackService.getConfigPack(input.configPackId);
+    }),
+
+  updateDraft: protectedProcedure
+    .input(UpdateConfigPackDraftSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getTenantConfigPack(input.configPackId, actor, true);
+
+      const pack = await ConfigPackService.updateDraft(input);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_DRAFT_UPDATED",
+          entityType: "TenantConfigPack",
+          entityId: pack.id,
+          newValues: { name: input.name, description: input.description, configJson: input.configJson !== undefined },
+          userId: actor.userId,
+        },
+      });
+
+      return pack;
+    }),
+
+  /**
+   * Start the next draft of a pack from one of its versions
+   */
+  createVersion: protectedProcedure
+    .input(CreateConfigPackVersionSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getTenantConfigPack(input.fromId, actor, true);
+
+      const pack = await ConfigPackService.createVersion(input.fromId, actor.userId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_VERSION_CREATED",
+          entityType: "TenantConfigPack",
+          entityId: pack.id,
+          newValues: { lineageId: pack.lineageId, version: pack.version, basedOnId: input.fromId },
+          userId: actor.userId,
+        },
+      });
+
+      return pack;
+    }),
+
+  publish: requirePermission("config-packs:publish")
+    .input(ConfigPackIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = ctx.access;
+      await getTenantConfigPack(input.configPackId, actor, true);
+
+      const pack = await ConfigPackService.publish(input.configPackId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_PUBLISHED",
+          entityType: "TenantConfigPack",
+          entityId: pack.id,
+          newValues: { lineageId: pack.lineageId, version: pack.version },
+          userId: actor.userId,
+        },
+      });
+
+      return pack;
+    }),
+
+  deprecate: requirePermission("config-packs:publish")
+    .input(ConfigPackIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = ctx.access;
+      await getTenantConfigPack(input.configPackId, actor, true);
+
+      const pack = await ConfigPackService.deprecate(input.configPackId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_DEPRECATED",
+          entityType: "TenantConfigPack",
+          entityId: pack.id,
+          newValues: { lineageId: pack.lineageId, version: pack.version, pinnedCount: pack.pinnedCount },
+          userId: actor.userId,
+        },
+      });
+
+      return pack;
+    }),
+
+  /**
+   * Structural diff between two versions
+   */
+  diff: protectedProcedure
+    .input(DiffConfigPacksSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getTenantConfigPack(input.fromId, actor);
+      await getTenantConfigPack(input.toId, actor);
+      return await ConfigPackService.diff(input.fromId, input.toId);
+    }),
+
+  /**
+   * Publish a copy of an older version and re-pin the pack's projects to it
+   */
+  rollback: requirePermission("config-packs:publish")
+    .input(ConfigPackIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = ctx.access;
+      await getTenantConfigPack(input.configPackId, actor, true);
+
+      const result = await ConfigPackService.rollback(input.configPackId, actor.userId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_ROLLED_BACK",
+          entityType: "TenantConfigPack",
+          entityId: result.configPack.id,
+          newValues: {
+            lineageId: result.configPack.lineageId,
+            version: result.configPack.version,
+            rolledBackTo: input.configPackId,
+            repinnedProjectIds: result.repinnedProjectIds,
+          },
+          userId: actor.userId,
+        },
+      });
+
+      return result;
+    }),
+
+  /**
+   * Pin a project to a published version
+   */
+  pin: requirePermission("config-packs:publish")
+    .input(PinConfigPackSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = ctx.access;
+      const project = await getManagedProject(input.projectId, actor);
+      await getTenantConfigPack(input.configPackId, actor);
+
+      const pack = await ConfigPackService.pin(project.id, input.configPackId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_PINNED",
+          entityType: "Project",
+          entityId: project.id,
+          oldValues: { configPackId: project.configPackId },
+          newValues: { configPackId: pack.id, lineageId: pack.lineageId, version: pack.version },
+          userId: actor.userId,
+        },
+      });
+
+      return pack;
+    }),
+
+  unpin: requirePermission("config-packs:publish")
+    .input(UnpinConfigPackSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = ctx.access;
+      const project = await getManagedProject(input.projectId, actor);
+
+      await ConfigPackService.unpin(project.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONFIG_PACK_UNPINNED",
+          entityType: "Project",
+          entityId: project.id,
+          oldValues: { configPackId: project.configPackId },
+          userId: actor.userId,
+        },
+      });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,227 @@
+/**
+ * tRPC Router for the Content Hub
+ */
+
+import { z } from "zod";
+import {
+  CreateContentSchema,
+  CreateContentUploadUrlSchema,
+  ListContentSchema,
+  PreviewLandingPageSchema,
+  RollbackContentSchema,
+  UpdateContentSchema,
+} from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { ContentService } from "../../services/contentService";
+import { LandingPageService } from "../../services/landingPageService";
+import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+/**
+ * Load a content item of a project in the caller's tenant
+ */
+async function getTenantContent(id: number, tenantId: number) {
+  const record = await db.content.findUnique({
+    where: { id },
+    include: { project: true },
+  });
+
+  if (!record || !inTenant(record.project, tenantId)) {
+    throw new Error("Content not found or unauthorized");
+  }
+
+  return record;
+}
+
+export const contentRouter = createTRPCRouter({
+  /**
+   * List content for a project
+   */
+  list: requirePermission("projects:read")
+    .input(ListContentSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await ContentService.listContent(input);
+    }),
+
+  /**
+   * Get a single content item
+   */
+  get: requirePermission("projects:read")
+    .input(z.object({ contentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await getTenantContent(input.contentId, ctx.access.tenantId);
+      return await ContentService.getContent(input.contentId);
+    }),
+
+  /**
+   * Content totals for a project
+   */
+  stats: requirePermission("projects:read")
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await ContentService.getStats(input.projectId);
+    }),
+
+  /**
+   * Presigned URL to PUT a file into the content bucket. Pass the returned
+   * objectKey as `upload` to create or update.
+   */
+  createUploadUrl: requirePermission("content:manage")
+    .input(CreateContentUploadUrlSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await ContentService.createUploadUrl(input);
+    }),
+
+  /**
+   * Create a content item
+   */
+  create: requirePermission("content:manage")
+    .input(CreateContentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const content = await ContentService.createContent(
+        { ...input, tenantId: project.tenantId ?? project.userId },
+        ctx.user.id
+      );
+
+      await db.activityLog.create({
+        data: {
+          action: "CONTENT_CREATED",
+          entityType: "Content",
+          entityId: content.id,
+          newValues: {
+            title: content.title,
+            contentType: content.contentType,
+            version: content.version,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return content;
+    }),
+
+  /**
+   * Update a content item; each change is stored as a new version
+   */
+  update: requirePermission("content:manage")
+    .input(UpdateContentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const current = await getTenantContent(input.contentId, ctx.access.tenantId);
+      const content = await ContentService.updateContent(input, ctx.user.id);
+
+      if (content.version !== current.version) {
+        await db.activityLog.create({
+          data: {
+            action: "CONTENT_UPDATED",
+            entityType: "Content",
+            entityId: content.id,
+            oldValues: {
+              version: current.version,
+            },
+            newValues: {
+              version: content.version,
+              fields: Object.keys(input).filter((key) => key !== "contentId"),
+            },
+            userId: ctx.user.id,
+          },
+        });
+      }
+
+      return content;
+    }),
+
+  /**
+   * Archive a content item
+   */
+  archive: requirePermission("content:manage")
+    .input(z.object({ contentId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await getTenantContent(input.contentId, ctx.access.tenantId);
+      const content = await ContentService.archiveContent(input.contentId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONTENT_ARCHIVED",
+          entityType: "Content",
+          entityId: content.id,
+          userId: ctx.user.id,
+        },
+      });
+
+      return content;
+    }),
+
+  /**
+   * Restore an archived content item
+   */
+  restore: requirePermission("content:manage")
+    .input(z.object({ contentId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await getTenantContent(input.contentId, ctx.access.tenantId);
+      const content = await ContentService.restoreContent(input.contentId);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONTENT_RESTORED",
+          entityType: "Content",
+          entityId: content.id,
+          userId: ctx.user.id,
+        },
+      });
+
+      return content;
+    }),
+
+  /**
+   * Render a landing page, or unsaved changes to it, with sample scan data
+   */
+  previewPage: requirePermission("content:manage")
+    .input(PreviewLandingPageSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantContent(input.contentId, ctx.access.tenantId);
+      return { html: await LandingPageService.renderPreview(input.contentId, input.page) };
+    }),
+
+  /**
+   * Version history of a content item
+   */
+  versions: requirePermission("projects:read")
+    .input(z.object({ contentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await getTenantContent(input.contentId, ctx.access.tenantId);
+      return await ContentService.listVersions(input.contentId);
+    }),
+
+  /**
+   * Roll back to an earlier version (recorded as a new version)
+   */
+  rollback: requirePermission("content:manage")
+    .input(RollbackContentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const current = await getTenantContent(input.contentId, ctx.access.tenantId);
+      const content = await ContentService.rollback(input.contentId, input.version, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "CONTENT_ROLLED_BACK",
+          entityType: "Content",
+          entityId: content.id,
+          oldValues: {
+            version: current.version,
+          },
+          newValues: {
+            version: content.version,
+            restoredFrom: input.version,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return content;
+    }),
+});
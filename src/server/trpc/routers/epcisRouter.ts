@@ -0,0 +1,75 @@
+/**
+ * tRPC Router for EPCIS Supply Chain Events
+ */
+
+import { AssetIdSchema, CaptureEpcisSchema, ListSupplyChainEventsSchema } from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { EpcisService } from "../../services/epcisService";
+import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+/**
+ * Load an asset of a project in the caller's tenant
+ */
+async function getTenantAsset(id: number, tenantId: number) {
+  const record = await db.asset.findUnique({
+    where: { id },
+    include: { project: true },
+  });
+
+  if (!record || !inTenant(record.project, tenantId)) {
+    throw new Error("Asset not found or unauthorized");
+  }
+
+  return record;
+}
+
+export const epcisRouter = createTRPCRouter({
+  /**
+   * Query a project's events
+   */
+  events: requirePermission("projects:read")
+    .input(ListSupplyChainEventsSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await EpcisService.queryEvents(input);
+    }),
+
+  /**
+   * Custody timeline of an asset
+   */
+  timeline: requirePermission("projects:read")
+    .input(AssetIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantAsset(input.assetId, ctx.access.tenantId);
+      return await EpcisService.getCustodyTimeline(input.assetId);
+    }),
+
+  /**
+   * Capture an EPCIS document
+   */
+  capture: requirePermission("epcis:capture")
+    .input(CaptureEpcisSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      const result = await EpcisService.captureEvents(project.id, input.document.epcisBody.eventList, ctx.user.id);
+
+      if (result.captured.length > 0) {
+        await db.activityLog.create({
+          data: {
+            action: "EPCIS_EVENTS_CAPTURED",
+            entityType: "Project",
+            entityId: project.id,
+            newValues: {
+              captured: result.captured.length,
+              duplicates: result.duplicates.length,
+            },
+            userId: ctx.user.id,
+          },
+        });
+      }
+
+      return result;
+    }),
+});
@@ -0,0 +1,156 @@
+/**
+ * tRPC Router for Campaign Experiments
+ */
+
+import {
+  CreateExperimentSchema,
+  ExperimentIdSchema,
+  ListExperimentsSchema,
+  PromoteVariantSchema,
+  UpdateExperimentSchema,
+} from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { ExperimentService } from "../../services/experimentService";
+import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+/**
+ * Load an experiment of a project in the caller's tenant
+ */
+async function getTenantExperiment(experimentId: number, tenantId: number) {
+  const experiment = await db.experiment.findUnique({
+    where: { id: experimentId },
+    include: { content: { include: { project: true } } },
+  });
+
+  if (!experiment || !inTenant(experiment.content.project, tenantId)) {
+    throw new Error("Experiment not found or unauthorized");
+  }
+
+  return experiment;
+}
+
+async function logExperimentActivity(
+  action: string,
+  experimentId: number,
+  userId: number,
+  newValues: Record<string, string | number | boolean | null>
+) {
+  await db.activityLog.create({
+    data: {
+      action,
+      entityType: "Experiment",
+      entityId: experimentId,
+      newValues,
+      userId,
+    },
+  });
+}
+
+export const experimentsRouter = createTRPCRouter({
+  /**
+   * List a project's experiments
+   */
+  list: requirePermission("analytics:read")
+    .input(ListExperimentsSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+      return await ExperimentService.listExperiments(input.projectId, input.status);
+    }),
+
+  /**
+   * Get an experiment
+   */
+  get: requirePermission("analytics:read")
+    .input(ExperimentIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      return await ExperimentService.getExperiment(input.experimentId);
+    }),
+
+  /**
+   * Exposures, conversions and significance per variant
+   */
+  results: requirePermission("analytics:read")
+    .input(ExperimentIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      return await ExperimentService.getResults(input.experimentId);
+    }),
+
+  /**
+   * Create a draft experiment on CAMPAIGN content
+   */
+  create: requirePermission("content:manage")
+    .input(CreateExperimentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const content = await db.content.findFirst({
+        where: { id: input.contentId },
+        include: { project: true },
+      });
+      if (!content || !inTenant(content.project, ctx.access.tenantId)) {
+        throw new Error("Content not found or unauthorized");
+      }
+
+      const experiment = await ExperimentService.createExperiment(input);
+      await logExperimentActivity("EXPERIMENT_CREATED", experiment.id, ctx.user.id, {
+        name: experiment.name,
+        contentId: experiment.contentId,
+        variants: experiment.variants.length,
+      });
+
+      return experiment;
+    }),
+
+  /**
+   * Edit an experiment's name, settings or (as a draft) variants
+   */
+  update: requirePermission("content:manage")
+    .input(UpdateExperimentSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      return await ExperimentService.updateExperiment(input);
+    }),
+
+  /**
+   * Start splitting scan traffic
+   */
+  start: requirePermission("content:manage")
+    .input(ExperimentIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      const experiment = await ExperimentService.startExperiment(input.experimentId);
+      await logExperimentActivity("EXPERIMENT_STARTED", experiment.id, ctx.user.id, { status: experiment.status });
+
+      return experiment;
+    }),
+
+  /**
+   * Stop without promoting a winner
+   */
+  stop: requirePermission("content:manage")
+    .input(ExperimentIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      const experiment = await ExperimentService.stopExperiment(input.experimentId);
+      await logExperimentActivity("EXPERIMENT_STOPPED", experiment.id, ctx.user.id, { status: experiment.status });
+
+      return experiment;
+    }),
+
+  /**
+   * Promote a variant by hand, ending the experiment
+   */
+  promote: requirePermission("content:manage")
+    .input(PromoteVariantSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getTenantExperiment(input.experimentId, ctx.access.tenantId);
+      const experiment = await ExperimentService.promoteVariant(input.experimentId, input.variantKey, ctx.user.id);
+      await logExperimentActivity("EXPERIMENT_PROMOTED", experiment.id, ctx.user.id, {
+        winnerKey: experiment.winnerKey,
+        automatic: false,
+      });
+
+      return experiment;
+    }),
+});
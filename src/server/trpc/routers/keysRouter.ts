@@ -10,33 +10,26 @@ import {
   RevokeKeySchema,
   GetActiveKeysSchema,
 } from "@optropic/shared";
-import { protectedProcedure, createTRPCRouter } from "../main";
+import { requirePermission, requireStepUp, createTRPCRouter } from "../main";
 import { KeyService } from "../../services/keyService";
 import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
 
 export const keysRouter = createTRPCRouter({
   /**
    * Generate a new key
    */
-  generate: protectedProcedure
+  generate: requirePermission("keys:create")
     .input(GenerateKeySchema)
     .mutation(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      const project = await getTenantProject(input.projectId, ctx.access.tenantId);
 
       const key = await KeyService.generateKey(
         input.projectId,
         input.keyName,
         input.keyType,
-        input.expiresAt ? new Date(input.expiresAt) : undefined
+        input.expiresAt ? new Date(input.expiresAt) : undefined,
+        input.algorithm
       );
 
       await db.activityLog.create({
@@ -58,27 +51,19 @@ export const keysRouter = createTRPCRouter({
   /**
    * List keys for a project
    */
-  list: protectedProcedure
+  list: requirePermission("keys:read")
     .input(ListKeysSchema)
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await KeyService.listKeys(input.projectId);
     }),
 
   /**
-   * Rotate a key
+   * Rotate a key (needs a step-up re-authentication)
    */
-  rotate: protectedProcedure
+  rotate: requirePermission("keys:rotate")
+    .use(requireStepUp)
     .input(RotateKeySchema)
     .mutation(async ({ input, ctx }) => {
       const existingKey = await db.key.findFirst({
@@ -90,11 +75,14 @@ export const keysRouter = createTRPCRouter({
         },
       });
 
-      if (!existingKey || existingKey.project.userId !== ctx.user.id) {
+      if (!existingKey || !inTenant(existingKey.project, ctx.access.tenantId)) {
         throw new Error("Key not found or unauthorized");
       }
 
-      const newKey = await KeyService.rotateKey(input.keyId);
+      const { newKey, report } = await KeyService.rotateKey(input.keyId, {
+        gracePeriodDays: input.gracePeriodDays,
+        policy: input.policy,
+      });
 
       await db.activityLog.create({
         data: {
@@ -108,18 +96,22 @@ export const keysRouter = createTRPCRouter({
           newValues: {
             keyId: newKey.id,
             keyName: newKey.keyName,
+            policy: report.policy,
+            graceEndsAt: report.graceEndsAt.toISOString(),
+            affectedCodes: report.affectedCodes.total,
           },
           userId: ctx.user.id,
         },
       });
 
-      return newKey;
+      return { key: newKey, report };
     }),
 
   /**
-   * Revoke a key
+   * Revoke a key (needs a step-up re-authentication)
    */
-  revoke: protectedProcedure
+  revoke: requirePermission("keys:revoke")
+    .use(requireStepUp)
     .input(RevokeKeySchema)
     .mutation(async ({ input, ctx }) => {
       const key = await db.key.findFirst({
@@ -131,7 +123,7 @@ export const keysRouter = createTRPCRouter({
         },
       });
 
-      if (!key || key.project.userId !== ctx.user.id) {
+      if (!key || !inTenant(key.project, ctx.access.tenantId)) {
         throw new Error("Key not found or unauthorized");
       }
 
@@ -143,10 +135,12 @@ export const keysRouter = createTRPCRouter({
           entityType: "Key",
           entityId: revokedKey.id,
           oldValues: {
-            isActive: true,
+            isActive: key.isActive,
+            status: key.status,
           },
           newValues: {
             isActive: false,
+            status: revokedKey.status,
           },
           userId: ctx.user.id,
         },
@@ -171,19 +165,10 @@ export const keysRouter = createTRPCRouter({
   /**
    * Get active keys
    */
-  getActive: protectedProcedure
+  getActive: requirePermission("keys:read")
     .input(GetActiveKeysSchema)
     .query(async ({ input, ctx }) => {
-      const project = await db.project.findFirst({
-        where: {
-          id: input.projectId,
-          userId: ctx.user.id,
-        },
-      });
-
-      if (!project) {
-        throw new Error("Project not found or unauthorized");
-      }
+      await getTenantProject(input.projectId, ctx.access.tenantId);
 
       return await KeyService.getActiveKeys(input.projectId);
     }),
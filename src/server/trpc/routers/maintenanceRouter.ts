@@ -0,0 +1,332 @@
+/**
+ * tRPC Router for Equipment Maintenance
+ */
+
+import {
+  AssetIdSchema,
+  AttachEvidenceSchema,
+  CompleteWorkOrderSchema,
+  CreateEvidenceUploadUrlSchema,
+  CreateMaintenanceScheduleSchema,
+  ListMaintenanceSchedulesSchema,
+  ListWorkOrdersSchema,
+  OpenWorkOrderSchema,
+  RecordUsageSchema,
+  UpdateChecklistItemSchema,
+  UpdateMaintenanceScheduleSchema,
+  WorkOrderEvidenceIdSchema,
+  WorkOrderIdSchema,
+} from "@optropic/shared";
+import { protectedProcedure, createTRPCRouter } from "../main";
+import { MaintenanceService } from "../../services/maintenanceService";
+import { PermissionService } from "../../services/permissionService";
+import { db } from "../../db";
+
+/** Permissions beyond owning the project: managers set up schedules, maintainers carry them out */
+const MAINTENANCE_PERMISSIONS = {
+  manage: "maintenance:manage",
+  maintain: "maintenance:perform",
+} as const;
+
+type MaintenanceAccess = keyof typeof MAINTENANCE_PERMISSIONS;
+
+/**
+ * Load a project and verify the caller owns it or holds the maintenance
+ * permission in its tenant
+ */
+async function getMaintainedProject(projectId: number, userId: number, access: MaintenanceAccess) {
+  const project = await db.project.findUnique({ where: { id: projectId } });
+
+  if (!project) {
+    throw new Error("Project not found or unauthorized");
+  }
+  if (project.userId === userId) {
+    return project;
+  }
+
+  const caller = await PermissionService.forUser(userId);
+  if (
+    caller.tenantId !== (project.tenantId ?? project.userId) ||
+    !caller.permissions.has(MAINTENANCE_PERMISSIONS[access])
+  ) {
+    throw new Error("Project not found or unauthorized");
+  }
+
+  return project;
+}
+
+/**
+ * Load an asset and verify maintenance access to its project
+ */
+async function getMaintainedAsset(assetId: number, userId: number, access: MaintenanceAccess) {
+  const asset = await db.asset.findUnique({ where: { id: assetId } });
+  if (!asset) {
+    throw new Error("Asset not found or unauthorized");
+  }
+
+  const project = await getMaintainedProject(asset.projectId, userId, access);
+  return { asset, project };
+}
+
+/**
+ * Load a schedule and verify maintenance access to its project
+ */
+async function getMaintainedSchedule(scheduleId: number, userId: number, access: MaintenanceAccess) {
+  const schedule = await db.maintenanceSchedule.findUnique({ where: { id: scheduleId } });
+  if (!schedule) {
+    throw new Error("Maintenance schedule not found or unauthorized");
+  }
+
+  await getMaintainedProject(schedule.projectId, userId, access);
+  return schedule;
+}
+
+/**
+ * Load a work order and verify the caller may work on it
+ */
+async function getMaintainedWorkOrder(workOrderId: number, userId: number) {
+  const order = await db.workOrder.findUnique({ where: { id: workOrderId } });
+  if (!order) {
+    throw new Error("Work order not found or unauthorized");
+  }
+
+  await getMaintainedProject(order.projectId, userId, "maintain");
+  return order;
+}
+
+export const maintenanceRouter = createTRPCRouter({
+  /**
+   * A project's maintenance schedules
+   */
+  schedules: protectedProcedure
+    .input(ListMaintenanceSchedulesSchema)
+    .query(async ({ input, ctx }) => {
+      await getMaintainedProject(input.projectId, ctx.user.id, "maintain");
+      return await MaintenanceService.listSchedules(input);
+    }),
+
+  /**
+   * Create a schedule for an EQUIPMENT asset
+   */
+  createSchedule: protectedProcedure
+    .input(CreateMaintenanceScheduleSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { project } = await getMaintainedAsset(input.assetId, ctx.user.id, "manage");
+
+      const schedule = await MaintenanceService.createSchedule(
+        { ...input, projectId: project.id, tenantId: project.tenantId ?? project.userId },
+        ctx.user.id
+      );
+
+      await db.activityLog.create({
+        data: {
+          action: "MAINTENANCE_SCHEDULE_CREATED",
+          entityType: "MaintenanceSchedule",
+          entityId: schedule.id,
+          newValues: {
+            assetId: schedule.assetId,
+            name: schedule.name,
+            triggerType: schedule.triggerType,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return schedule;
+    }),
+
+  /**
+   * Update or deactivate a schedule
+   */
+  updateSchedule: protectedProcedure
+    .input(UpdateMaintenanceScheduleSchema)
+    .mutation(async ({ input, ctx }) => {
+      const existing = await getMaintainedSchedule(input.scheduleId, ctx.user.id, "manage");
+
+      const schedule = await MaintenanceService.updateSchedule(input);
+
+      await db.activityLog.create({
+        data: {
+          action: "MAINTENANCE_SCHEDULE_UPDATED",
+          entityType: "MaintenanceSchedule",
+          entityId: schedule.id,
+          oldValues: {
+            name: existing.name,
+            triggerType: existing.triggerType,
+            intervalDays: existing.intervalDays,
+            usageInterval: existing.usageInterval,
+            isActive: existing.isActive,
+          },
+          newValues: {
+            name: schedule.name,
+            triggerType: schedule.triggerType,
+            intervalDays: schedule.intervalDays,
+            usageInterval: schedule.usageInterval,
+            isActive: schedule.isActive,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return schedule;
+    }),
+
+  /**
+   * Record a meter reading for an asset
+   */
+  recordUsage: protectedProcedure
+    .input(RecordUsageSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedAsset(input.assetId, ctx.user.id, "maintain");
+      return await MaintenanceService.recordUsage(input);
+    }),
+
+  /**
+   * Work orders of a project, or the caller's own without one
+   */
+  workOrders: protectedProcedure
+    .input(ListWorkOrdersSchema)
+    .query(async ({ input, ctx }) => {
+      if (input.projectId) {
+        await getMaintainedProject(input.projectId, ctx.user.id, "maintain");
+        return await MaintenanceService.listWorkOrders(input);
+      }
+      return await MaintenanceService.listWorkOrders({ ...input, openedById: ctx.user.id });
+    }),
+
+  workOrder: protectedProcedure
+    .input(WorkOrderIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+      return await MaintenanceService.getWorkOrder(input.workOrderId);
+    }),
+
+  /**
+   * Open (or resume) a work order by scanning the asset's code
+   */
+  openFromScan: protectedProcedure
+    .input(OpenWorkOrderSchema)
+    .mutation(async ({ input, ctx }) => {
+      const { codeValue, ...options } = input;
+      const scanned = await MaintenanceService.findScannedAsset(codeValue);
+      await getMaintainedProject(scanned.projectId, ctx.user.id, "maintain");
+
+      const result = await MaintenanceService.openWorkOrder(scanned, options, ctx.user.id);
+
+      if (!result.resumed) {
+        await db.activityLog.create({
+          data: {
+            action: "WORK_ORDER_OPENED",
+            entityType: "WorkOrder",
+            entityId: result.workOrder.id,
+            newValues: {
+              assetId: result.workOrder.assetId,
+              scheduleId: result.workOrder.scheduleId,
+              codeId: scanned.codeId,
+            },
+            userId: ctx.user.id,
+          },
+        });
+      }
+
+      return result;
+    }),
+
+  updateChecklistItem: protectedProcedure
+    .input(UpdateChecklistItemSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+      return await MaintenanceService.updateChecklistItem(input);
+    }),
+
+  /**
+   * Presigned URL for uploading a photo to a work order
+   */
+  createEvidenceUploadUrl: protectedProcedure
+    .input(CreateEvidenceUploadUrlSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+      return await MaintenanceService.createEvidenceUploadUrl(input);
+    }),
+
+  attachEvidence: protectedProcedure
+    .input(AttachEvidenceSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+      return await MaintenanceService.attachEvidence(input, ctx.user.id);
+    }),
+
+  /**
+   * Short-lived URL for viewing a photo
+   */
+  evidenceUrl: protectedProcedure
+    .input(WorkOrderEvidenceIdSchema)
+    .query(async ({ input, ctx }) => {
+      const evidence = await db.workOrderEvidence.findUnique({
+        where: { id: input.evidenceId },
+        select: { workOrderId: true },
+      });
+      if (!evidence) {
+        throw new Error("Evidence not found or unauthorized");
+      }
+
+      await getMaintainedWorkOrder(evidence.workOrderId, ctx.user.id);
+      const { url } = await MaintenanceService.getEvidenceUrl(input.evidenceId);
+      return { url };
+    }),
+
+  completeWorkOrder: protectedProcedure
+    .input(CompleteWorkOrderSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+
+      const workOrder = await MaintenanceService.completeWorkOrder(input, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "WORK_ORDER_COMPLETED",
+          entityType: "WorkOrder",
+          entityId: workOrder.id,
+          newValues: {
+            assetId: workOrder.assetId,
+            scheduleId: workOrder.scheduleId,
+            usageReading: workOrder.usageReading,
+            evidence: workOrder.evidence.length,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return workOrder;
+    }),
+
+  cancelWorkOrder: protectedProcedure
+    .input(WorkOrderIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      await getMaintainedWorkOrder(input.workOrderId, ctx.user.id);
+
+      const workOrder = await MaintenanceService.cancelWorkOrder(input.workOrderId);
+
+      await db.activityLog.create({
+        data: {
+          action: "WORK_ORDER_CANCELLED",
+          entityType: "WorkOrder",
+          entityId: workOrder.id,
+          newValues: { assetId: workOrder.assetId, scheduleId: workOrder.scheduleId },
+          userId: ctx.user.id,
+        },
+      });
+
+      return workOrder;
+    }),
+
+  /**
+   * Completed work orders of an asset
+   */
+  serviceHistory: protectedProcedure
+    .input(AssetIdSchema)
+    .query(async ({ input, ctx }) => {
+      await getMaintainedAsset(input.assetId, ctx.user.id, "maintain");
+      return await MaintenanceService.getServiceHistory(input.assetId);
+    }),
+});
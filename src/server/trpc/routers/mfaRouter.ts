@@ -0,0 +1,240 @@
+/**
+ * tRPC Router for Multi-Factor Authentication
+ */
+
+import { TRPCError } from "@trpc/server";
+import bcrypt from "bcryptjs";
+import {
+  BeginMfaEnrollmentSchema,
+  ConfirmMfaEnrollmentSchema,
+  DisableMfaSchema,
+  RegenerateRecoveryCodesSchema,
+  StepUpSchema,
+  UpdateMfaPolicySchema,
+  VerifyMfaSchema,
+} from "@optropic/shared";
+import { protectedProcedure, publicProcedure, requirePermission, createTRPCRouter } from "../main";
+import { checkRateLimit } from "../../middleware/rateLimitStore";
+import { AuthService } from "../../services/authService";
+import { MfaService, type MfaChallengePurpose } from "../../services/mfaService";
+import { createStepUpAccessToken } from "../../services/refreshTokenService";
+import { db } from "../../db";
+
+/** Code attempts per user before verification is locked for the window */
+const CODE_ATTEMPTS = 5;
+const CODE_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * A person's own MFA settings; API keys have none
+ */
+const userProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  if (ctx.apiKey) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Not available to API keys" });
+  }
+  return next();
+});
+
+function limitCodeAttempts(userId: number) {
+  const { allowed } = checkRateLimit(`mfa:${userId}`, CODE_ATTEMPT_WINDOW_MS, CODE_ATTEMPTS);
+  if (!allowed) {
+    throw new TRPCError({
+      code: "TOO_MANY_REQUESTS",
+      message: "Too many authentication attempts. Please try again in 15 minutes.",
+    });
+  }
+}
+
+function challengeUser(challengeToken: string, purpose: MfaChallengePurpose): number {
+  const userId = MfaService.readChallenge(challengeToken, purpose);
+  if (userId === null) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Sign-in expired, please sign in again" });
+  }
+  return userId;
+}
+
+/**
+ * Who enrolls: the user the tenant policy stopped at sign-in, or the signed-in
+ * user
+ */
+async function enrollingUser(
+  ctx: { auth?: Awaited<ReturnType<typeof AuthService.resolve>>; req?: unknown },
+  challengeToken: string | undefined
+): Promise<number> {
+  if (challengeToken) {
+    return challengeUser(challengeToken, "enroll");
+  }
+
+  const auth = ctx.auth ?? (await AuthService.resolve(ctx.req as Request | undefined));
+  if (auth.status !== "authenticated" || auth.user.apiKey) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "No authorization token provided" });
+  }
+  return auth.user.id;
+}
+
+export const mfaRouter = createTRPCRouter({
+  status: userProcedure.query(async ({ ctx }) => {
+    return await MfaService.status(ctx.user.id);
+  }),
+
+  /**
+   * Second sign-in step: a TOTP or recovery code for the challenge `login`
+   * returned
+   */
+  verify: publicProcedure
+    .input(VerifyMfaSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = challengeUser(input.challengeToken, "verify");
+      limitCodeAttempts(userId);
+
+      if (!(await MfaService.verify(userId, input.code))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid authentication code" });
+      }
+
+      return {
+        status: "AUTHENTICATED" as const,
+        ...(await AuthService.signIn(userId, ctx.resHeaders)),
+      };
+    }),
+
+  /**
+   * A new secret to scan as a QR code
+   */
+  beginEnrollment: publicProcedure
+    .input(BeginMfaEnrollmentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = await enrollingUser(ctx, input.challengeToken);
+      return await MfaService.beginEnrollment(userId);
+    }),
+
+  /**
+   * Enable MFA with a first code; returns the recovery codes, and completes
+   * the sign-in when enrolling from the sign-in challenge
+   */
+  confirmEnrollment: publicProcedure
+    .input(ConfirmMfaEnrollmentSchema)
+    .mutation(async ({ input, ctx }) => {
+      const userId = await enrollingUser(ctx, input.challengeToken);
+      limitCodeAttempts(userId);
+
+      const recoveryCodes = await MfaService.confirmEnrollment(userId, input.code);
+
+      await db.activityLog.create({
+        data: {
+          action: "MFA_ENABLED",
+          entityType: "User",
+          entityId: userId,
+          userId,
+        },
+      });
+
+      return {
+        recoveryCodes,
+        session: input.challengeToken ? await AuthService.signIn(userId, ctx.resHeaders) : null,
+      };
+    }),
+
+  disable: userProcedure
+    .input(DisableMfaSchema)
+    .mutation(async ({ input, ctx }) => {
+      limitCodeAttempts(ctx.user.id);
+      await MfaService.disable(ctx.user.id, input.code);
+
+      await db.activityLog.create({
+        data: {
+          action: "MFA_DISABLED",
+          entityType: "User",
+          entityId: ctx.user.id,
+          userId: ctx.user.id,
+        },
+      });
+
+      return { success: true };
+    }),
+
+  regenerateRecoveryCodes: userProcedure
+    .input(RegenerateRecoveryCodesSchema)
+    .mutation(async ({ input, ctx }) => {
+      limitCodeAttempts(ctx.user.id);
+      const recoveryCodes = await MfaService.regenerateRecoveryCodes(ctx.user.id, input.code);
+
+      await db.activityLog.create({
+        data: {
+          action: "MFA_RECOVERY_CODES_REGENERATED",
+          entityType: "User",
+          entityId: ctx.user.id,
+          userId: ctx.user.id,
+        },
+      });
+
+      return { recoveryCodes };
+    }),
+
+  /**
+   * Re-authenticate for sensitive mutations: with the second factor when
+   * enrolled, with the password otherwise. Returns an access token that
+   * passes `requireStepUp` for a few minutes.
+   */
+  stepUp: userProcedure
+    .input(StepUpSchema)
+    .mutation(async ({ input, ctx }) => {
+      limitCodeAttempts(ctx.user.id);
+
+      const user = await db.user.findUniqueOrThrow({
+        where: { id: ctx.user.id },
+        select: { password: true, mfaEnabled: true },
+      });
+
+      const verified = user.mfaEnabled
+        ? input.code !== undefined && (await MfaService.verify(ctx.user.id, input.code))
+        : input.password !== undefined && (await bcrypt.compare(input.password, user.password));
+
+      if (!verified) {
+        throw new TRPCError({
+          code: "UNAUTHORIZED",
+          message: user.mfaEnabled ? "Invalid authentication code" : "Invalid password",
+        });
+      }
+
+      const { accessToken, expiresIn, stepUpAt } = createStepUpAccessToken(ctx.user.id);
+      AuthService.setSessionCookie(ctx.resHeaders, accessToken, expiresIn);
+
+      await db.activityLog.create({
+        data: {
+          action: "STEP_UP_AUTHENTICATED",
+          entityType: "User",
+          entityId: ctx.user.id,
+          newValues: { factor: user.mfaEnabled ? "mfa" : "password" },
+          userId: ctx.user.id,
+        },
+      });
+
+      return { token: accessToken, expiresIn, stepUpAt };
+    }),
+
+  /**
+   * Archetypes of the caller's tenant that must use MFA
+   */
+  policy: requirePermission("roles:manage").query(async ({ ctx }) => {
+    return await MfaService.getPolicy(ctx.access.tenantId);
+  }),
+
+  updatePolicy: requirePermission("roles:manage")
+    .input(UpdateMfaPolicySchema)
+    .mutation(async ({ input, ctx }) => {
+      const previous = await MfaService.getPolicy(ctx.access.tenantId);
+      const policy = await MfaService.updatePolicy(ctx.access.tenantId, input.mfaRequiredArchetypes, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "MFA_POLICY_UPDATED",
+          entityType: "TenantSecurityPolicy",
+          entityId: ctx.access.tenantId,
+          oldValues: { mfaRequiredArchetypes: previous.mfaRequiredArchetypes },
+          newValues: { mfaRequiredArchetypes: policy.mfaRequiredArchetypes },
+          userId: ctx.user.id,
+        },
+      });
+
+      return policy;
+    }),
+});
@@ -5,7 +5,8 @@
 
 import { z } from "zod";
 import { observable } from "@trpc/server/observable";
-import { protectedProcedure, createTRPCRouter } from "../main";
+import { protectedProcedure, requirePermission, createTRPCRouter } from "../main";
+import { runAsSystem } from "../../tenantContext";
 import {
   NotificationService,
   notifier,
@@ -126,20 +127,17 @@ export const notificationsRouter = createTRPCRouter({
   }),
 
   /**
-   * Manually trigger key expiry check (admin only)
+   * Manually trigger key expiry check (needs notifications:admin)
    */
-  triggerKeyExpiryCheck: protectedProcedure
+  triggerKeyExpiryCheck: requirePermission("notifications:admin")
     .input(
       z.object({
         days: z.number().min(1).max(90).optional(),
       })
     )
-    .mutation(async ({ ctx, input }) => {
-      if (ctx.user.role !== "ADMIN") {
-        throw new Error("Unauthorized: Admin access required");
-      }
-
-      await NotificationService.triggerKeyExpiry(input?.days);
+    .mutation(async ({ input, ctx }) => {
+      // Expiring keys are found across all tenants
+      await runAsSystem("notifications:triggerKeyExpiryCheck", () => NotificationService.triggerKeyExpiry(input?.days), ctx.user.id);
 
       return {
         success: true,
@@ -0,0 +1,106 @@
+/**
+ * tRPC Router for NFC/RFID Tag Pairing
+ */
+
+import { z } from "zod";
+import { requirePermission, createTRPCRouter } from "../main";
+import { TagPairingService } from "../../services/tagPairingService";
+import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+export const pairingsRouter = createTRPCRouter({
+  /**
+   * Pair a code with a tag. Returns the SDM keys to write to the tag once.
+   */
+  pair: requirePermission("projects:manage")
+    .input(
+      z.object({
+        codeId: z.number(),
+        pairingKeyId: z.number(),
+        tagUid: z.string().regex(/^([0-9A-Fa-f]{2}:?){6}[0-9A-Fa-f]{2}$/, "Tag UID must be 7 bytes of hex"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const code = await db.optropicCode.findFirst({
+        where: {
+          id: input.codeId,
+        },
+        include: {
+          project: true,
+        },
+      });
+
+      if (!code || !inTenant(code.project, ctx.access.tenantId)) {
+        throw new Error("Code not found or unauthorized");
+      }
+
+      const result = await TagPairingService.pairTag(input);
+
+      await db.activityLog.create({
+        data: {
+          action: "TAG_PAIRED",
+          entityType: "TagPairing",
+          entityId: result.pairing.id,
+          newValues: {
+            codeId: result.pairing.codeId,
+            pairingKeyId: result.pairing.pairingKeyId,
+            technology: result.pairing.technology,
+            tagUid: result.pairing.tagUid,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return result;
+    }),
+
+  /**
+   * Unpair a tag
+   */
+  unpair: requirePermission("projects:manage")
+    .input(z.object({ pairingId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const pairing = await db.tagPairing.findFirst({
+        where: {
+          id: input.pairingId,
+        },
+        include: {
+          project: true,
+        },
+      });
+
+      if (!pairing || !inTenant(pairing.project, ctx.access.tenantId)) {
+        throw new Error("Pairing not found or unauthorized");
+      }
+
+      const unpaired = await TagPairingService.unpairTag(input.pairingId);
+
+      await db.activityLog.create({
+        data: {
+          action: "TAG_UNPAIRED",
+          entityType: "TagPairing",
+          entityId: unpaired.id,
+          oldValues: {
+            status: pairing.status,
+          },
+          newValues: {
+            status: unpaired.status,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return unpaired;
+    }),
+
+  /**
+   * List tag pairings for a project
+   */
+  list: requirePermission("projects:read")
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await TagPairingService.listPairings(input.projectId);
+    }),
+});
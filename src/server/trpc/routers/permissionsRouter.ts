@@ -0,0 +1,97 @@
+/**
+ * tRPC Router for Role Permissions
+ */
+
+import {
+  ResetRolePermissionsSchema,
+  RolePermissionsQuerySchema,
+  UpdateRolePermissionsSchema,
+} from "@optropic/shared";
+import { protectedProcedure, requirePermission, createTRPCRouter } from "../main";
+import { PermissionService, type UserAccess } from "../../services/permissionService";
+import { db } from "../../db";
+
+/**
+ * The tenant whose matrix the caller edits; only ADMINs may pick another
+ * tenant than their own
+ */
+function getTargetTenant(access: UserAccess, tenantId: number | undefined): number {
+  if (tenantId === undefined || tenantId === access.tenantId) {
+    return access.tenantId;
+  }
+  if (access.archetype !== "ADMIN") {
+    throw new Error("Tenant not found or unauthorized");
+  }
+  return tenantId;
+}
+
+export const permissionsRouter = createTRPCRouter({
+  /**
+   * The caller's own permissions
+   */
+  me: protectedProcedure.query(async ({ ctx }) => {
+    const access = await PermissionService.forUser(ctx.user.id);
+    return {
+      tenantId: access.tenantId,
+      archetype: access.archetype,
+      isTenantOwner: access.isTenantOwner,
+      permissions: [...access.permissions],
+    };
+  }),
+
+  /**
+   * Archetype × permission matrix of a tenant
+   */
+  matrix: requirePermission("roles:manage")
+    .input(RolePermissionsQuerySchema)
+    .query(async ({ input, ctx }) => {
+      const tenantId = getTargetTenant(ctx.access, input.tenantId);
+      return await PermissionService.getMatrix(tenantId);
+    }),
+
+  updateRole: requirePermission("roles:manage")
+    .input(UpdateRolePermissionsSchema)
+    .mutation(async ({ input, ctx }) => {
+      const tenantId = getTargetTenant(ctx.access, input.tenantId);
+      const role = await PermissionService.setRolePermissions(tenantId, input.archetypeCode, input.permissions);
+
+      await db.activityLog.create({
+        data: {
+          action: "ROLE_PERMISSIONS_UPDATED",
+          entityType: "TenantRoleMapping",
+          entityId: role.archetypeId,
+          newValues: {
+            tenantId,
+            archetypeCode: role.code,
+            grantedPermissions: role.grantedPermissions,
+            revokedPermissions: role.revokedPermissions,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return role;
+    }),
+
+  /**
+   * Drop a tenant's overrides of an archetype
+   */
+  resetRole: requirePermission("roles:manage")
+    .input(ResetRolePermissionsSchema)
+    .mutation(async ({ input, ctx }) => {
+      const tenantId = getTargetTenant(ctx.access, input.tenantId);
+      const role = await PermissionService.resetRolePermissions(tenantId, input.archetypeCode);
+
+      await db.activityLog.create({
+        data: {
+          action: "ROLE_PERMISSIONS_RESET",
+          entityType: "TenantRoleMapping",
+          entityId: role.archetypeId,
+          newValues: { tenantId, archetypeCode: role.code },
+          userId: ctx.user.id,
+        },
+      });
+
+      return role;
+    }),
+});
@@ -0,0 +1,96 @@
+/**
+ * tRPC Router for Dynamic Redirect Rules
+ */
+
+import { z } from "zod";
+import { DryRunRedirectSchema, UpdateRedirectRulesSchema } from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { RedirectService } from "../../services/redirectService";
+import { parseRuleSet } from "../../utils/redirectRules";
+import { db } from "../../db";
+import { getTenantProject, inTenant } from "../tenantAccess";
+
+/**
+ * Load a content item of a project in the caller's tenant
+ */
+async function getTenantContent(id: number, tenantId: number) {
+  const record = await db.content.findUnique({
+    where: { id },
+    include: { project: true },
+  });
+
+  if (!record || !inTenant(record.project, tenantId)) {
+    throw new Error("Content not found or unauthorized");
+  }
+
+  return record;
+}
+
+export const redirectsRouter = createTRPCRouter({
+  /**
+   * Get a content item's redirect rules
+   */
+  getRules: requirePermission("projects:read")
+    .input(z.object({ contentId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const content = await getTenantContent(input.contentId, ctx.access.tenantId);
+
+      return {
+        contentId: content.id,
+        ruleSet: parseRuleSet(content.redirectRules),
+      };
+    }),
+
+  /**
+   * Replace a content item's redirect rules; null clears them
+   */
+  updateRules: requirePermission("content:manage")
+    .input(UpdateRedirectRulesSchema)
+    .mutation(async ({ input, ctx }) => {
+      const content = await getTenantContent(input.contentId, ctx.access.tenantId);
+
+      if (input.ruleSet) {
+        for (const rule of input.ruleSet.rules) {
+          if (rule.action.type !== "SERVE_CONTENT") continue;
+
+          const target = await db.content.findFirst({
+            where: { id: rule.action.contentId, projectId: content.projectId },
+          });
+          if (!target) {
+            throw new Error(`Rule ${rule.id} serves content that is not in this project`);
+          }
+        }
+      }
+
+      const ruleSet = await RedirectService.updateRules(content.id, input.ruleSet, ctx.user.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "REDIRECT_RULES_UPDATED",
+          entityType: "Content",
+          entityId: content.id,
+          oldValues: {
+            rules: (content.redirectRules as { rules?: unknown[] } | null)?.rules?.length ?? 0,
+          },
+          newValues: {
+            rules: ruleSet?.rules.length ?? 0,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return { contentId: content.id, ruleSet };
+    }),
+
+  /**
+   * Show which rule would fire for a simulated scan, without verifying or
+   * recording anything
+   */
+  dryRun: requirePermission("projects:read")
+    .input(DryRunRedirectSchema)
+    .query(async ({ input, ctx }) => {
+      await getTenantProject(input.projectId, ctx.access.tenantId);
+
+      return await RedirectService.dryRun(input.projectId, input.scan, input.override);
+    }),
+});
@@ -0,0 +1,144 @@
+/**
+ * tRPC Router for Service Accounts and their API Keys
+ */
+
+import { z } from "zod";
+import {
+  ApiKeyActivitySchema,
+  CreateApiKeySchema,
+  CreateServiceAccountSchema,
+  RevokeApiKeySchema,
+  RotateApiKeySchema,
+  UpdateServiceAccountSchema,
+} from "@optropic/shared";
+import { requirePermission, createTRPCRouter } from "../main";
+import { ServiceAccountService } from "../../services/serviceAccountService";
+import { db } from "../../db";
+
+export const serviceAccountsRouter = createTRPCRouter({
+  /**
+   * The tenant's service accounts with their keys
+   */
+  list: requirePermission("service-accounts:manage").query(async ({ ctx }) => {
+    return await ServiceAccountService.list(ctx.access.tenantId);
+  }),
+
+  get: requirePermission("service-accounts:manage")
+    .input(z.object({ serviceAccountId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      return await ServiceAccountService.get(ctx.access.tenantId, input.serviceAccountId);
+    }),
+
+  create: requirePermission("service-accounts:manage")
+    .input(CreateServiceAccountSchema)
+    .mutation(async ({ input, ctx }) => {
+      const account = await ServiceAccountService.create(ctx.access.tenantId, ctx.user.id, input);
+
+      await db.activityLog.create({
+        data: {
+          action: "SERVICE_ACCOUNT_CREATED",
+          entityType: "ServiceAccount",
+          entityId: account.id,
+          newValues: { name: account.name },
+          userId: ctx.user.id,
+        },
+      });
+
+      return account;
+    }),
+
+  update: requirePermission("service-accounts:manage")
+    .input(UpdateServiceAccountSchema)
+    .mutation(async ({ input, ctx }) => {
+      const account = await ServiceAccountService.update(ctx.access.tenantId, input);
+
+      await db.activityLog.create({
+        data: {
+          action: "SERVICE_ACCOUNT_UPDATED",
+          entityType: "ServiceAccount",
+          entityId: account.id,
+          newValues: { name: account.name, description: account.description, isActive: account.isActive },
+          userId: ctx.user.id,
+        },
+      });
+
+      return account;
+    }),
+
+  /**
+   * Issue a key; the returned `key` is shown once and never stored
+   */
+  createKey: requirePermission("service-accounts:manage")
+    .input(CreateApiKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const issued = await ServiceAccountService.createKey(ctx.access.tenantId, ctx.user.id, input);
+
+      await db.activityLog.create({
+        data: {
+          action: "API_KEY_CREATED",
+          entityType: "ApiKey",
+          entityId: issued.apiKey.id,
+          newValues: {
+            serviceAccountId: input.serviceAccountId,
+            name: issued.apiKey.name,
+            scopes: issued.apiKey.scopes,
+            rateLimitTier: issued.apiKey.rateLimitTier,
+            expiresAt: issued.apiKey.expiresAt?.toISOString() ?? null,
+          },
+          userId: ctx.user.id,
+        },
+      });
+
+      return issued;
+    }),
+
+  rotateKey: requirePermission("service-accounts:manage")
+    .input(RotateApiKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const issued = await ServiceAccountService.rotateKey(
+        ctx.access.tenantId,
+        ctx.user.id,
+        input.apiKeyId,
+        input.overlapHours
+      );
+
+      await db.activityLog.create({
+        data: {
+          action: "API_KEY_ROTATED",
+          entityType: "ApiKey",
+          entityId: issued.apiKey.id,
+          oldValues: { apiKeyId: input.apiKeyId },
+          newValues: { apiKeyId: issued.apiKey.id, overlapHours: input.overlapHours },
+          userId: ctx.user.id,
+        },
+      });
+
+      return issued;
+    }),
+
+  revokeKey: requirePermission("service-accounts:manage")
+    .input(RevokeApiKeySchema)
+    .mutation(async ({ input, ctx }) => {
+      const apiKey = await ServiceAccountService.revokeKey(ctx.access.tenantId, input.apiKeyId);
+
+      await db.activityLog.create({
+        data: {
+          action: "API_KEY_REVOKED",
+          entityType: "ApiKey",
+          entityId: apiKey.id,
+          userId: ctx.user.id,
+        },
+      });
+
+      return apiKey;
+    }),
+
+  /**
+   * Audited calls made with a key, newest first
+   */
+  activity: requirePermission("service-accounts:manage")
+    .input(ApiKeyActivitySchema)
+    .query(async ({ input, ctx }) => {
+      return await ServiceAccountService.activity(ctx.access.tenantId, input.apiKeyId, input.limit);
+    }),
+});
@@ -0,0 +1,219 @@
+/**
+ * tRPC Router for the Config Pack Template Catalog
+ */
+
+import {
+  CreateTemplateSchema,
+  ExportTemplatesSchema,
+  ImportTemplatesSchema,
+  InstantiateTemplateSchema,
+  ListTemplatesSchema,
+  TemplateIdSchema,
+  UpdateTemplateSchema,
+  type TemplateScope,
+} from "@optropic/shared";
+import { protectedProcedure, createTRPCRouter } from "../main";
+import { TemplateService } from "../../services/templateService";
+import { PermissionService, type UserAccess } from "../../services/permissionService";
+import { db } from "../../db";
+
+/**
+ * GLOBAL templates need `templates:global`; TENANT templates are curated by
+ * their author and holders of `templates:manage`
+ */
+function assertCanCurate(scope: TemplateScope, actor: UserAccess, createdById: number | null = null) {
+  const allowed =
+    scope === "GLOBAL"
+      ? actor.permissions.has("templates:global")
+      : createdById === actor.userId || actor.permissions.has("templates:manage");
+
+  if (!allowed) {
+    throw new Error("Template not found or unauthorized");
+  }
+}
+
+/**
+ * Load a template the caller sees: GLOBAL or of the caller's tenant
+ */
+async function getVisibleTemplate(templateId: number, actor: UserAccess, curate = false) {
+  const template = await db.configPackTemplate.findUnique({ where: { id: templateId } });
+
+  if (!template || (template.scope !== "GLOBAL" && template.tenantId !== actor.tenantId)) {
+    throw new Error("Template not found or unauthorized");
+  }
+  if (curate) {
+    assertCanCurate(template.scope, actor, template.createdById);
+  }
+
+  return template;
+}
+
+export const templatesRouter = createTRPCRouter({
+  /**
+   * GLOBAL templates and the caller's tenant templates
+   */
+  list: protectedProcedure
+    .input(ListTemplatesSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      return await TemplateService.list(actor.tenantId, input);
+    }),
+
+  get: protectedProcedure
+    .input(TemplateIdSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getVisibleTemplate(input.templateId, actor);
+      return await TemplateService.getTemplate(input.templateId);
+    }),
+
+  create: protectedProcedure
+    .input(CreateTemplateSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      assertCanCurate(input.scope, actor, actor.userId);
+
+      const template = await TemplateService.create(input, { tenantId: actor.tenantId, createdById: actor.userId });
+
+      await db.activityLog.create({
+        data: {
+          action: "TEMPLATE_CREATED",
+          entityType: "ConfigPackTemplate",
+          entityId: template.id,
+          newValues: { key: template.key, scope: template.scope, category: template.category },
+          userId: actor.userId,
+        },
+      });
+
+      return template;
+    }),
+
+  update: protectedProcedure
+    .input(UpdateTemplateSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getVisibleTemplate(input.templateId, actor, true);
+
+      const template = await TemplateService.update(input);
+
+      await db.activityLog.create({
+        data: {
+          action: "TEMPLATE_UPDATED",
+          entityType: "ConfigPackTemplate",
+          entityId: template.id,
+          newValues: { key: template.key, version: template.version },
+          userId: actor.userId,
+        },
+      });
+
+      return template;
+    }),
+
+  archive: protectedProcedure
+    .input(TemplateIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getVisibleTemplate(input.templateId, actor, true);
+
+      const template = await TemplateService.archive(input.templateId);
+
+      await db.activityLog.create({
+        data: {
+          action: "TEMPLATE_ARCHIVED",
+          entityType: "ConfigPackTemplate",
+          entityId: template.id,
+          newValues: { key: template.key },
+          userId: actor.userId,
+        },
+      });
+
+      return template;
+    }),
+
+  /**
+   * Create a draft config pack from a template and parameter values
+   */
+  instantiate: protectedProcedure
+    .input(InstantiateTemplateSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      await getVisibleTemplate(input.templateId, actor);
+
+      if (input.projectId) {
+        const project = await db.project.findUnique({ where: { id: input.projectId } });
+        if (
+          !project ||
+          (project.tenantId ?? project.userId) !== actor.tenantId ||
+          (project.userId !== actor.userId && !actor.permissions.has("templates:manage"))
+        ) {
+          throw new Error("Project not found or unauthorized");
+        }
+      }
+
+      const configPack = await TemplateService.instantiate(input, { tenantId: actor.tenantId, createdById: actor.userId });
+
+      await db.activityLog.create({
+        data: {
+          action: "TEMPLATE_INSTANTIATED",
+          entityType: "TenantConfigPack",
+          entityId: configPack.id,
+          newValues: { templateId: input.templateId, projectId: input.projectId, name: configPack.name },
+          userId: actor.userId,
+        },
+      });
+
+      return configPack;
+    }),
+
+  /**
+   * Templates as a JSON bundle; the tenant's own templates by default
+   */
+  export: protectedProcedure
+    .input(ExportTemplatesSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+
+      let templateIds = input.templateIds;
+      if (templateIds) {
+        for (const templateId of templateIds) {
+          await getVisibleTemplate(templateId, actor);
+        }
+      } else {
+        const own = await db.configPackTemplate.findMany({
+          where: { tenantId: actor.tenantId, isActive: true },
+          select: { id: true },
+        });
+        templateIds = own.map((template) => template.id);
+      }
+
+      if (templateIds.length === 0) {
+        throw new Error("No templates to export");
+      }
+
+      return await TemplateService.exportBundle(templateIds);
+    }),
+
+  /**
+   * Add a bundle's templates to the tenant, or to the GLOBAL catalog for
+   * ADMINs
+   */
+  import: protectedProcedure
+    .input(ImportTemplatesSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await PermissionService.forUser(ctx.user.id);
+      assertCanCurate(input.scope, actor);
+
+      const result = await TemplateService.importBundle(input, { tenantId: actor.tenantId, createdById: actor.userId });
+
+      await db.activityLog.create({
+        data: {
+          action: "TEMPLATES_IMPORTED",
+          entityType: "ConfigPackTemplate",
+          newValues: { scope: input.scope, ...result },
+          userId: actor.userId,
+        },
+      });
+
+      return result;
+    }),
+});
@@ -0,0 +1,171 @@
+/**
+ * tRPC Router for Config Pack Workflows
+ */
+
+import {
+  CompleteWorkflowTaskSchema,
+  ListWorkflowInstancesSchema,
+  ListWorkflowTasksSchema,
+  StartWorkflowSchema,
+  WorkflowInstanceIdSchema,
+} from "@optropic/shared";
+import { protectedProcedure, createTRPCRouter } from "../main";
+import { WorkflowService, type WorkflowActor } from "../../services/workflowService";
+import { PermissionService } from "../../services/permissionService";
+import { db } from "../../db";
+
+/**
+ * The caller as a workflow actor
+ */
+async function getActor(userId: number): Promise<WorkflowActor> {
+  const user = await db.user.findUnique({ where: { id: userId }, include: { archetype: true } });
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return {
+    id: user.id,
+    archetype: user.archetype?.code ?? user.role,
+    tenantId: user.tenantId ?? user.id,
+  };
+}
+
+/**
+ * Load a project in the caller's tenant; with `manage`, the caller must own
+ * it or hold `workflows:manage`
+ */
+async function getTenantProject(projectId: number, actor: WorkflowActor, manage = false) {
+  const project = await db.project.findUnique({ where: { id: projectId } });
+
+  if (!project || (project.tenantId ?? project.userId) !== actor.tenantId) {
+    throw new Error("Project not found or unauthorized");
+  }
+  if (manage && project.userId !== actor.id && !(await PermissionService.can(actor.id, "workflows:manage"))) {
+    throw new Error("Project not found or unauthorized");
+  }
+
+  return project;
+}
+
+export const workflowsRouter = createTRPCRouter({
+  /**
+   * Open tasks for the caller's role
+   */
+  inbox: protectedProcedure
+    .input(ListWorkflowTasksSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      return await WorkflowService.listInbox(actor, input);
+    }),
+
+  /**
+   * Complete a task; the caller must hold one of the step's roles
+   */
+  completeTask: protectedProcedure
+    .input(CompleteWorkflowTaskSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      const task = await db.workflowTask.findUnique({ where: { id: input.taskId }, select: { tenantId: true } });
+      if (!task || task.tenantId !== actor.tenantId) {
+        throw new Error("Workflow task not found or unauthorized");
+      }
+
+      return await WorkflowService.completeTask(input, actor);
+    }),
+
+  /**
+   * A project's workflow instances
+   */
+  instances: protectedProcedure
+    .input(ListWorkflowInstancesSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      await getTenantProject(input.projectId, actor);
+      return await WorkflowService.listInstances(input);
+    }),
+
+  /**
+   * An instance with its execution audit trail
+   */
+  instance: protectedProcedure
+    .input(WorkflowInstanceIdSchema)
+    .query(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      const instance = await db.workflowInstance.findUnique({
+        where: { id: input.instanceId },
+        select: { projectId: true },
+      });
+      if (!instance) {
+        throw new Error("Workflow instance not found or unauthorized");
+      }
+
+      await getTenantProject(instance.projectId, actor);
+      return await WorkflowService.getInstance(input.instanceId);
+    }),
+
+  /**
+   * Fire a trigger by hand, e.g. when an audit is required
+   */
+  start: protectedProcedure
+    .input(StartWorkflowSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      const project = await getTenantProject(input.projectId, actor, true);
+
+      if (input.assetId) {
+        const asset = await db.asset.findFirst({ where: { id: input.assetId, projectId: project.id } });
+        if (!asset) {
+          throw new Error("Asset not found or unauthorized");
+        }
+      }
+
+      const started = await WorkflowService.trigger(input.trigger, {
+        projectId: project.id,
+        assetId: input.assetId,
+        actorId: actor.id,
+        details: { manual: true },
+      });
+
+      if (started.length > 0) {
+        await db.activityLog.create({
+          data: {
+            action: "WORKFLOWS_STARTED",
+            entityType: "Project",
+            entityId: project.id,
+            newValues: { trigger: input.trigger, assetId: input.assetId, instanceIds: started },
+            userId: actor.id,
+          },
+        });
+      }
+
+      return { started };
+    }),
+
+  cancel: protectedProcedure
+    .input(WorkflowInstanceIdSchema)
+    .mutation(async ({ input, ctx }) => {
+      const actor = await getActor(ctx.user.id);
+      const existing = await db.workflowInstance.findUnique({
+        where: { id: input.instanceId },
+        select: { projectId: true },
+      });
+      if (!existing) {
+        throw new Error("Workflow instance not found or unauthorized");
+      }
+      await getTenantProject(existing.projectId, actor, true);
+
+      const instance = await WorkflowService.cancelInstance(input.instanceId, actor.id);
+
+      await db.activityLog.create({
+        data: {
+          action: "WORKFLOW_CANCELLED",
+          entityType: "WorkflowInstance",
+          entityId: instance.id,
+          newValues: { workflowName: instance.workflowName, assetId: instance.assetId },
+          userId: actor.id,
+        },
+      });
+
+      return instance;
+    }),
+});
@@ -0,0 +1,38 @@
+/**
+ * Tenant Access
+ * -------------
+ * Lookups for procedures behind `requirePermission`: the permission decides
+ * what the caller may do, these check that the row is in the caller's
+ * tenant. Who created a project does not matter.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { db } from "../db";
+
+/**
+ * Whether a project belongs to a tenant; projects of users without a tenant
+ * belong to their owner's own tenant
+ */
+export function inTenant(project: { tenantId: number | null; userId: number }, tenantId: number): boolean {
+  return (project.tenantId ?? project.userId) === tenantId;
+}
+
+/**
+ * The same condition as `inTenant`, for filtering rows by their project
+ */
+export function tenantProjectWhere(tenantId: number): Prisma.ProjectWhereInput {
+  return { OR: [{ tenantId }, { tenantId: null, userId: tenantId }] };
+}
+
+/**
+ * Load a project of the caller's tenant
+ */
+export async function getTenantProject(projectId: number, tenantId: number) {
+  const project = await db.project.findUnique({ where: { id: projectId } });
+
+  if (!project || !inTenant(project, tenantId)) {
+    throw new Error("Project not found or unauthorized");
+  }
+
+  return project;
+}
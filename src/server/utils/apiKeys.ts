@@ -0,0 +1,105 @@
+/**
+ * API Keys
+ * --------
+ * Pure helpers for service account API keys:
+ *  - key format `opk_<prefix>_<secret>`: the prefix is public and used for
+ *    lookup, only a SHA-256 of the whole key is stored
+ *  - whether a stored key is usable at a given time
+ *  - request budgets per rate-limit tier
+ *  - the permissions a key actually holds: its scopes, as far as the tenant
+ *    grants them
+ */
+
+import crypto from "crypto";
+import { ApiKeyScopeSchema, type ApiKeyRateLimitTier, type Permission } from "@optropic/shared";
+
+export const API_KEY_PREFIX = "opk_";
+
+const KEY_PATTERN = /^opk_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+export interface GeneratedApiKey {
+  /** Full key, shown to the caller once */
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+export interface RateLimitBudget {
+  windowMs: number;
+  maxRequests: number;
+}
+
+/** Requests per minute and key */
+export const RATE_LIMIT_TIERS: Record<ApiKeyRateLimitTier, RateLimitBudget> = {
+  LOW: { windowMs: 60_000, maxRequests: 60 },
+  STANDARD: { windowMs: 60_000, maxRequests: 600 },
+  HIGH: { windowMs: 60_000, maxRequests: 6_000 },
+};
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): GeneratedApiKey {
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const key = `${API_KEY_PREFIX}${prefix}_${secret}`;
+  return { key, prefix, keyHash: hashApiKey(key) };
+}
+
+export function looksLikeApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * Lookup prefix of a well-formed key, null otherwise
+ */
+export function parseApiKey(key: string): string | null {
+  return KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+/**
+ * Whether `key` matches the stored hash, in constant time
+ */
+export function matchesApiKeyHash(key: string, keyHash: string): boolean {
+  const actual = Buffer.from(hashApiKey(key), "hex");
+  const expected = Buffer.from(keyHash, "hex");
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export interface ApiKeyState {
+  revokedAt: Date | null;
+  expiresAt: Date | null;
+  serviceAccount: { isActive: boolean };
+}
+
+export function isApiKeyUsable(key: ApiKeyState, now: Date): boolean {
+  if (key.revokedAt) return false;
+  if (key.expiresAt && key.expiresAt <= now) return false;
+  return key.serviceAccount.isActive;
+}
+
+/**
+ * Known, grantable scopes among stored strings
+ */
+export function apiKeyScopes(scopes: string[]): Permission[] {
+  return scopes.flatMap((scope) => {
+    const parsed = ApiKeyScopeSchema.safeParse(scope);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * What a key may do: its scopes that the tenant's own permissions cover
+ */
+export function grantedScopes(scopes: readonly Permission[], tenantPermissions: Set<Permission>): Set<Permission> {
+  return new Set(scopes.filter((scope) => tenantPermissions.has(scope)));
+}
+
+/**
+ * Whether last-used tracking should be written again; limits it to one
+ * write per key and interval
+ */
+export function shouldTrackUse(lastUsedAt: Date | null, now: Date, intervalMs = 60_000): boolean {
+  return !lastUsedAt || now.getTime() - lastUsedAt.getTime() >= intervalMs;
+}
@@ -0,0 +1,322 @@
+/**
+ * Asset Import
+ * ------------
+ * Parse CSV/JSON asset rows and validate each one, collecting every problem
+ * per row instead of stopping at the first:
+ *  - GTIN and SSCC check digits, GS1 batch/serial character set
+ *  - ISO expiry dates, asset types and packaging levels
+ *  - duplicates within the file (SSCC, GTIN + batch + serial)
+ *  - parent references (parentSscc) to a higher packaging level in the file
+ *
+ * Rows are numbered from 1, not counting the CSV header.
+ */
+
+import type { AssetType, PackagingLevel } from "@optropic/shared";
+import { normalizeGtin, normalizeSscc } from "./gs1DigitalLink";
+
+export const MAX_IMPORT_ROWS = 10_000;
+
+const ASSET_TYPES: AssetType[] = ["PRODUCT", "PACKAGE", "BATCH", "EQUIPMENT", "DOCUMENT"];
+const PACKAGING_LEVELS: PackagingLevel[] = ["ITEM", "CASE", "PALLET"];
+
+/** GS1 AI encodable character set 82, up to 20 characters */
+const GS1_VALUE = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]{1,20}$/;
+
+/** Accepted column names (lower-case, without spaces/underscores) */
+const COLUMNS: Record<string, keyof RawAssetRow> = {
+  assetname: "assetName",
+  name: "assetName",
+  assettype: "assetType",
+  type: "assetType",
+  productid: "productId",
+  gtin: "gtin",
+  batchnumber: "batchNumber",
+  batch: "batchNumber",
+  lot: "batchNumber",
+  serialnumber: "serialNumber",
+  serial: "serialNumber",
+  expirydate: "expiryDate",
+  expiry: "expiryDate",
+  packaginglevel: "packagingLevel",
+  level: "packagingLevel",
+  sscc: "sscc",
+  parentsscc: "parentSscc",
+};
+
+export interface RawAssetRow {
+  assetName?: string;
+  assetType?: string;
+  productId?: string;
+  gtin?: string;
+  batchNumber?: string;
+  serialNumber?: string;
+  expiryDate?: string;
+  packagingLevel?: string;
+  sscc?: string;
+  parentSscc?: string;
+}
+
+export interface ImportedAsset {
+  assetName: string;
+  assetType: AssetType;
+  productId: string | null;
+  gtin: string | null;
+  batchNumber: string | null;
+  serialNumber: string | null;
+  expiryDate: Date | null;
+  packagingLevel: PackagingLevel | null;
+  sscc: string | null;
+  parentSscc: string | null;
+}
+
+export interface ImportRowError {
+  row: number;
+  field?: keyof RawAssetRow;
+  message: string;
+}
+
+export interface ValidatedRow {
+  row: number;
+  asset: ImportedAsset | null;
+  errors: ImportRowError[];
+}
+
+export const PACKAGING_RANK: Record<PackagingLevel, number> = { ITEM: 0, CASE: 1, PALLET: 2 };
+
+/**
+ * Rank of a packaging level; assets without one are items
+ */
+export function packagingRank(level: PackagingLevel | null | undefined): number {
+  return PACKAGING_RANK[level ?? "ITEM"];
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, "" escapes, CRLF or LF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV has an unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no record
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function columnFor(name: string): keyof RawAssetRow | undefined {
+  return COLUMNS[name.toLowerCase().replace(/[\s_-]/g, "")];
+}
+
+function toRawRow(entries: [string, unknown][]): RawAssetRow {
+  const row: RawAssetRow = {};
+  for (const [name, value] of entries) {
+    const column = columnFor(name);
+    if (!column || value === null || value === undefined) continue;
+    const text = (typeof value === "string" ? value : JSON.stringify(value)).trim();
+    if (text !== "") row[column] = text;
+  }
+  return row;
+}
+
+/**
+ * Read import rows from CSV (with a header row) or a JSON array of objects
+ */
+export function readImportRows(format: "CSV" | "JSON", data: string): RawAssetRow[] {
+  let rows: RawAssetRow[];
+
+  if (format === "CSV") {
+    const [header, ...records] = parseCsv(data.replace(/^\uFEFF/, ""));
+    if (!header) {
+      throw new Error("CSV is empty");
+    }
+    if (!header.some((name) => columnFor(name) === "assetName")) {
+      throw new Error("CSV header must include an assetName column");
+    }
+    rows = records.map((cells) => toRawRow(header.map((name, index) => [name, cells[index]])));
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      throw new Error("Import data is not valid JSON");
+    }
+    if (!Array.isArray(parsed) || parsed.some((item) => typeof item !== "object" || item === null)) {
+      throw new Error("JSON import must be an array of objects");
+    }
+    rows = (parsed as Record<string, unknown>[]).map((item) => toRawRow(Object.entries(item)));
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+  return rows;
+}
+
+/**
+ * Validate one row in isolation
+ */
+export function validateImportRow(raw: RawAssetRow, row: number, defaultAssetType: AssetType): ValidatedRow {
+  const errors: ImportRowError[] = [];
+  const fail = (field: keyof RawAssetRow, message: string) => errors.push({ row, field, message });
+
+  if (!raw.assetName) fail("assetName", "assetName is required");
+  else if (raw.assetName.length > 200) fail("assetName", "assetName is longer than 200 characters");
+
+  const assetType = (raw.assetType?.toUpperCase() ?? defaultAssetType) as AssetType;
+  if (!ASSET_TYPES.includes(assetType)) {
+    fail("assetType", `assetType must be one of ${ASSET_TYPES.join(", ")}`);
+  }
+
+  const packagingLevel = (raw.packagingLevel?.toUpperCase() ?? null) as PackagingLevel | null;
+  if (packagingLevel !== null && !PACKAGING_LEVELS.includes(packagingLevel)) {
+    fail("packagingLevel", `packagingLevel must be one of ${PACKAGING_LEVELS.join(", ")}`);
+  }
+
+  const gs1 = (field: "gtin" | "sscc" | "parentSscc", normalize: (value: string) => string) => {
+    const value = raw[field];
+    if (value === undefined) return null;
+    try {
+      return normalize(value);
+    } catch (error) {
+      fail(field, (error as Error).message);
+      return null;
+    }
+  };
+  const gtin = gs1("gtin", normalizeGtin);
+  const sscc = gs1("sscc", normalizeSscc);
+  const parentSscc = gs1("parentSscc", normalizeSscc);
+
+  for (const field of ["batchNumber", "serialNumber"] as const) {
+    const value = raw[field];
+    if (value !== undefined && !GS1_VALUE.test(value)) {
+      fail(field, `${field} must be 1-20 characters of the GS1 character set`);
+    }
+  }
+
+  let expiryDate: Date | null = null;
+  if (raw.expiryDate !== undefined) {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(raw.expiryDate);
+    expiryDate = match ? new Date(`${raw.expiryDate}T00:00:00.000Z`) : null;
+    if (!expiryDate || Number.isNaN(expiryDate.getTime()) || expiryDate.toISOString().slice(0, 10) !== raw.expiryDate) {
+      fail("expiryDate", "expiryDate must be a date (YYYY-MM-DD)");
+      expiryDate = null;
+    }
+  }
+
+  if (sscc && packagingLevel !== null && packagingRank(packagingLevel) === 0) {
+    fail("sscc", "Only cases and pallets carry an SSCC");
+  }
+  if (packagingLevel !== null && packagingRank(packagingLevel) > 0 && raw.sscc === undefined) {
+    fail("sscc", `A ${packagingLevel.toLowerCase()} needs an SSCC`);
+  }
+
+  if (errors.length > 0) {
+    return { row, asset: null, errors };
+  }
+
+  return {
+    row,
+    asset: {
+      assetName: raw.assetName!,
+      assetType,
+      productId: raw.productId ?? null,
+      gtin,
+      batchNumber: raw.batchNumber ?? null,
+      serialNumber: raw.serialNumber ?? null,
+      expiryDate,
+      // An SSCC without a level is a case
+      packagingLevel: packagingLevel ?? (sscc ? "CASE" : null),
+      sscc,
+      parentSscc,
+    },
+    errors,
+  };
+}
+
+/**
+ * Cross-row checks: duplicates and parent references within the file.
+ * Parents not in the file are checked against the database by the caller.
+ */
+export function checkImportBatch(rows: ValidatedRow[]): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const bySscc = new Map<string, ValidatedRow>();
+  const byItemKey = new Map<string, number>();
+
+  for (const row of rows) {
+    const asset = row.asset;
+    if (!asset) continue;
+
+    if (asset.sscc) {
+      const first = bySscc.get(asset.sscc);
+      if (first) errors.push({ row: row.row, field: "sscc", message: `Duplicate SSCC (also on row ${first.row})` });
+      else bySscc.set(asset.sscc, row);
+    }
+
+    if (asset.gtin && asset.serialNumber) {
+      const key = `${asset.gtin}|${asset.batchNumber ?? ""}|${asset.serialNumber}`;
+      const first = byItemKey.get(key);
+      if (first) {
+        errors.push({ row: row.row, field: "serialNumber", message: `Duplicate GTIN and serial (also on row ${first})` });
+      } else {
+        byItemKey.set(key, row.row);
+      }
+    }
+  }
+
+  for (const row of rows) {
+    const asset = row.asset;
+    if (!asset?.parentSscc) continue;
+
+    const parent = bySscc.get(asset.parentSscc)?.asset;
+    if (parent && packagingRank(parent.packagingLevel) <= packagingRank(asset.packagingLevel)) {
+      errors.push({
+        row: row.row,
+        field: "parentSscc",
+        message: `A ${(asset.packagingLevel ?? "ITEM").toLowerCase()} cannot be packed into a ${(
+          parent.packagingLevel ?? "ITEM"
+        ).toLowerCase()}`,
+      });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,86 @@
+/**
+ * Request Credentials
+ * -------------------
+ * Pure helpers for reading a caller's credentials from a request:
+ *  - `Authorization: Bearer <access token>` header (API clients, the SPA)
+ *  - the HttpOnly session cookie set at sign-in (browsers, including
+ *    EventSource subscriptions that cannot send headers)
+ *  - a service account API key, as `X-API-Key` or as the bearer token
+ * and for writing and clearing that cookie.
+ */
+
+import { looksLikeApiKey } from "./apiKeys";
+
+export const SESSION_COOKIE = "optropic_session";
+
+export const API_KEY_HEADER = "x-api-key";
+
+export type CredentialSource = "header" | "cookie" | "api-key";
+
+export interface Credentials {
+  source: CredentialSource;
+  token: string;
+}
+
+/**
+ * Cookie name/value pairs of a Cookie header
+ */
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(";").map((item) => item.trim())) {
+    const separator = part.indexOf("=");
+    if (separator <= 0) continue;
+
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * The caller's credentials; headers win over the cookie
+ */
+export function readCredentials(headers: Pick<Headers, "get">): Credentials | null {
+  const apiKey = headers.get(API_KEY_HEADER)?.trim();
+  if (apiKey) return { source: "api-key", token: apiKey };
+
+  const authorization = headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    const token = authorization.substring(7).trim();
+    if (token) return { source: looksLikeApiKey(token) ? "api-key" : "header", token };
+  }
+
+  const session = parseCookies(headers.get("cookie"))[SESSION_COOKIE];
+  if (session) return { source: "cookie", token: session };
+
+  return null;
+}
+
+/**
+ * Set-Cookie value holding an access token for `maxAgeSeconds`
+ */
+export function sessionCookie(token: string, maxAgeSeconds: number, secure: boolean): string {
+  return [
+    `${SESSION_COOKIE}=${encodeURIComponent(token)}`,
+    "Path=/",
+    `Max-Age=${maxAgeSeconds}`,
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+/**
+ * Set-Cookie value removing the session cookie
+ */
+export function clearedSessionCookie(secure: boolean): string {
+  return sessionCookie("", 0, secure);
+}
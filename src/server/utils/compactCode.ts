@@ -0,0 +1,139 @@
+/**
+ * Compact Signed Code Format
+ * --------------------------
+ * Binary code value that can be verified with only the project's public keys.
+ *
+ * Layout (76 bytes, base64url encoded → 102 characters):
+ *   0      format version (0x01)
+ *   1      flags (bits 0–1: code type)
+ *   2–5    key id (uint32, big endian)
+ *   6–11   serial (uint48, big endian, unique per key)
+ *   12–75  signature over bytes 0–11: ECDSA P-256 / SHA-256 (raw r||s)
+ *          or Ed25519, depending on the key's algorithm
+ *
+ * Legacy code values are base64url JSON and always decode to a leading "{",
+ * so the two formats can be told apart from the first byte.
+ */
+
+import crypto from "crypto";
+import { keyAlgorithmOf } from "./cryptoSuites";
+
+export const COMPACT_CODE_VERSION = 0x01;
+export const COMPACT_HEADER_LENGTH = 12;
+export const COMPACT_SIGNATURE_LENGTH = 64;
+export const COMPACT_CODE_LENGTH = COMPACT_HEADER_LENGTH + COMPACT_SIGNATURE_LENGTH;
+export const MAX_COMPACT_SERIAL = 2 ** 48 - 1;
+
+export type CompactCodeType = "OPTROPIC" | "QRSSL" | "GS1_COMPLIANT";
+
+const CODE_TYPES: CompactCodeType[] = ["OPTROPIC", "QRSSL", "GS1_COMPLIANT"];
+
+export interface CompactCodeFields {
+  keyId: number;
+  serial: number;
+  codeType: CompactCodeType;
+}
+
+export interface DecodedCompactCode extends CompactCodeFields {
+  version: number;
+  /** Signed bytes (header) */
+  header: Buffer;
+  /** Raw r||s signature */
+  signature: Buffer;
+}
+
+function encodeHeader(fields: CompactCodeFields): Buffer {
+  if (!Number.isInteger(fields.keyId) || fields.keyId < 0 || fields.keyId > 0xffffffff) {
+    throw new Error("Key id does not fit the compact code format");
+  }
+  if (!Number.isInteger(fields.serial) || fields.serial < 1 || fields.serial > MAX_COMPACT_SERIAL) {
+    throw new Error("Serial does not fit the compact code format");
+  }
+
+  const header = Buffer.alloc(COMPACT_HEADER_LENGTH);
+  header.writeUInt8(COMPACT_CODE_VERSION, 0);
+  header.writeUInt8(CODE_TYPES.indexOf(fields.codeType) & 0x03, 1);
+  header.writeUInt32BE(fields.keyId, 2);
+  header.writeUIntBE(fields.serial, 6, 6);
+  return header;
+}
+
+/**
+ * Build and sign a compact code value with a P-256 or Ed25519 private key (PEM)
+ */
+export function signCompactCode(fields: CompactCodeFields, privateKey: string): string {
+  const header = encodeHeader(fields);
+  const algorithm = keyAlgorithmOf(privateKey);
+
+  if (algorithm !== "prime256v1" && algorithm !== "ed25519") {
+    throw new Error("Compact codes require a P-256 or Ed25519 signing key");
+  }
+
+  const signature =
+    algorithm === "ed25519"
+      ? crypto.sign(null, header, privateKey)
+      : crypto.sign("sha256", header, { key: privateKey, dsaEncoding: "ieee-p1363" });
+
+  return Buffer.concat([header, signature]).toString("base64url");
+}
+
+/**
+ * Check whether a code value uses the compact binary format
+ */
+export function isCompactCode(codeValue: string): boolean {
+  return decodeCompactCode(codeValue) !== null;
+}
+
+/**
+ * Parse a compact code value; returns null for legacy or malformed values
+ */
+export function decodeCompactCode(codeValue: string): DecodedCompactCode | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(codeValue)) return null;
+
+  const bytes = Buffer.from(codeValue, "base64url");
+  if (bytes.length !== COMPACT_CODE_LENGTH || bytes[0] !== COMPACT_CODE_VERSION) {
+    return null;
+  }
+
+  const codeType = CODE_TYPES[bytes[1]! & 0x03];
+  if (!codeType) return null;
+
+  return {
+    version: bytes[0],
+    codeType,
+    keyId: bytes.readUInt32BE(2),
+    serial: bytes.readUIntBE(6, 6),
+    header: bytes.subarray(0, COMPACT_HEADER_LENGTH),
+    signature: bytes.subarray(COMPACT_HEADER_LENGTH),
+  };
+}
+
+/**
+ * Verify the signature of a decoded compact code against a public key (PEM)
+ * using the key's stored algorithm
+ */
+export function verifyCompactSignature(
+  code: DecodedCompactCode,
+  publicKey: string,
+  algorithm = "prime256v1"
+): boolean {
+  try {
+    if (keyAlgorithmOf(publicKey) !== algorithm) return false;
+
+    switch (algorithm) {
+      case "prime256v1":
+        return crypto.verify(
+          "sha256",
+          code.header,
+          { key: publicKey, dsaEncoding: "ieee-p1363" },
+          code.signature
+        );
+      case "ed25519":
+        return crypto.verify(null, code.header, publicKey, code.signature);
+      default:
+        return false;
+    }
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Config Pack Versions
+ * --------------------
+ * Pure helpers for versioned config packs:
+ *  - structural diff of two versions' `configJson`: roles, actions per
+ *    role, products and workflows
+ *  - content ETag of the config served to field devices
+ */
+
+import { createHash } from "crypto";
+import { canonicalize } from "./jcs";
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface KeyedDiff extends ListDiff {
+  /** Keys present on both sides with different content */
+  changed: string[];
+}
+
+export interface RoleActionsDiff extends ListDiff {
+  role: string;
+}
+
+export interface ConfigPackDiff {
+  roles: ListDiff;
+  /** Roles whose permitted actions differ */
+  actions: RoleActionsDiff[];
+  /** Products keyed by GTIN, batch and serial, or by name */
+  products: KeyedDiff;
+  /** Workflows keyed by name; a changed trigger or steps counts as changed */
+  workflows: KeyedDiff;
+  unchanged: boolean;
+}
+
+type ConfigObject = Record<string, unknown>;
+
+function asObject(value: unknown): ConfigObject {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as ConfigObject) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function strings(value: unknown): string[] {
+  return asArray(value).filter((item): item is string => typeof item === "string");
+}
+
+function listDiff(from: string[], to: string[]): ListDiff {
+  return {
+    added: [...new Set(to.filter((item) => !from.includes(item)))],
+    removed: [...new Set(from.filter((item) => !to.includes(item)))],
+  };
+}
+
+function keyedDiff(from: Map<string, string>, to: Map<string, string>): KeyedDiff {
+  const { added, removed } = listDiff([...from.keys()], [...to.keys()]);
+  const changed = [...to.keys()].filter((key) => from.has(key) && from.get(key) !== to.get(key));
+  return { added, removed, changed };
+}
+
+/**
+ * Identity of a product entry: its GS1 keys if any, else its name
+ */
+export function productKey(product: unknown): string {
+  const { gtin, batch, serial, name } = asObject(product);
+  const keys = [gtin, batch, serial].filter((key): key is string => typeof key === "string" && key !== "");
+  if (keys.length > 0) return keys.join("/");
+  return typeof name === "string" ? name : canonicalize(product ?? null);
+}
+
+function products(config: ConfigObject): Map<string, string> {
+  return new Map(asArray(config.products).map((product) => [productKey(product), canonicalize(product ?? null)]));
+}
+
+function workflows(config: ConfigObject): Map<string, string> {
+  return new Map(
+    asArray(config.workflows).flatMap((workflow) => {
+      const { name, trigger, steps } = asObject(workflow);
+      return typeof name === "string" ? [[name, canonicalize({ trigger: trigger ?? null, steps: steps ?? [] })]] : [];
+    })
+  );
+}
+
+/**
+ * What changed from one config pack version's `configJson` to another's
+ */
+export function diffConfigPacks(fromConfig: unknown, toConfig: unknown): ConfigPackDiff {
+  const from = asObject(fromConfig);
+  const to = asObject(toConfig);
+
+  const fromActions = asObject(from.permissions);
+  const toActions = asObject(to.permissions);
+  const actions = [...new Set([...Object.keys(fromActions), ...Object.keys(toActions)])]
+    .sort()
+    .map((role) => ({ role, ...listDiff(strings(fromActions[role]), strings(toActions[role])) }))
+    .filter((diff) => diff.added.length > 0 || diff.removed.length > 0);
+
+  const diff = {
+    roles: listDiff(strings(from.roles), strings(to.roles)),
+    actions,
+    products: keyedDiff(products(from), products(to)),
+    workflows: keyedDiff(workflows(from), workflows(to)),
+  };
+
+  const unchanged =
+    diff.roles.added.length + diff.roles.removed.length + actions.length === 0 &&
+    [diff.products, diff.workflows].every(
+      (keyed) => keyed.added.length + keyed.removed.length + keyed.changed.length === 0
+    );
+
+  return { ...diff, unchanged };
+}
+
+/**
+ * Strong ETag of a config: the SHA-256 of its canonical JSON, so equal
+ * content (e.g. a rolled-back version) keeps its tag
+ */
+export function configEtag(configJson: unknown): string {
+  return `"${createHash("sha256").update(canonicalize(configJson ?? null)).digest("hex")}"`;
+}
+
+/**
+ * Whether an If-None-Match header matches the ETag
+ */
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
@@ -0,0 +1,261 @@
+/**
+ * Cryptographic Suites
+ * --------------------
+ * Maps each EncryptionLevel to a concrete algorithm suite and dispatches
+ * signing / payload encryption on the stored key algorithm.
+ *
+ *   Level     Key algorithm   Signature            Payload encryption
+ *   AES_128   prime256v1      ECDSA P-256 SHA-256  AES-128-GCM
+ *   AES_256   prime256v1      ECDSA P-256 SHA-256  AES-256-GCM
+ *   RSA_2048  rsa-2048        RSA-PSS SHA-256      RSA-OAEP-256 wrapped AES-256-GCM
+ *   RSA_4096  rsa-4096        RSA-PSS SHA-256      RSA-OAEP-256 wrapped AES-256-GCM
+ *   ED25519   ed25519         Ed25519              AES-256-GCM
+ *
+ * Symmetric payload keys are derived with HKDF from the tenant data key
+ * (see services/envelopeService), or from the server secret for payloads
+ * issued before envelope encryption.
+ */
+
+import crypto from "crypto";
+
+export type KeyAlgorithm = "prime256v1" | "rsa-2048" | "rsa-4096" | "ed25519";
+export type SuiteEncryptionLevel = "AES_128" | "AES_256" | "RSA_2048" | "RSA_4096" | "ED25519";
+
+/**
+ * Payload cipher identifiers carried in code values (`alg`), JOSE-style
+ */
+export type PayloadCipher = "A128GCM" | "A256GCM" | "RSA-OAEP-256+A256GCM";
+
+export const KEY_ALGORITHMS: KeyAlgorithm[] = ["prime256v1", "rsa-2048", "rsa-4096", "ed25519"];
+
+export interface CryptoSuite {
+  keyAlgorithm: KeyAlgorithm;
+  signature: "ECDSA_P256_SHA256" | "RSA_PSS_SHA256" | "ED25519";
+  payloadCipher: PayloadCipher;
+}
+
+export const ENCRYPTION_SUITES: Record<SuiteEncryptionLevel, CryptoSuite> = {
+  AES_128: { keyAlgorithm: "prime256v1", signature: "ECDSA_P256_SHA256", payloadCipher: "A128GCM" },
+  AES_256: { keyAlgorithm: "prime256v1", signature: "ECDSA_P256_SHA256", payloadCipher: "A256GCM" },
+  RSA_2048: { keyAlgorithm: "rsa-2048", signature: "RSA_PSS_SHA256", payloadCipher: "RSA-OAEP-256+A256GCM" },
+  RSA_4096: { keyAlgorithm: "rsa-4096", signature: "RSA_PSS_SHA256", payloadCipher: "RSA-OAEP-256+A256GCM" },
+  ED25519: { keyAlgorithm: "ed25519", signature: "ED25519", payloadCipher: "A256GCM" },
+};
+
+export interface SuiteEncryptedPayload {
+  encrypted: string;
+  iv: string;
+  tag: string;
+  /** Cipher identifier; absent on payloads from before suites existed */
+  alg?: PayloadCipher;
+  /** RSA-OAEP wrapped content key (RSA suites only) */
+  wrappedKey?: string;
+  /** Tenant data key reference ("tenantId.version"); absent when the server secret was used */
+  dataKey?: string;
+}
+
+export function isKeyAlgorithm(value: string): value is KeyAlgorithm {
+  return (KEY_ALGORITHMS as string[]).includes(value);
+}
+
+/**
+ * Throw unless a key can be used for the given encryption level
+ */
+export function assertKeySupportsLevel(keyAlgorithm: string, level: SuiteEncryptionLevel): void {
+  const expected = ENCRYPTION_SUITES[level].keyAlgorithm;
+  if (keyAlgorithm !== expected) {
+    throw new Error(
+      `Encryption level ${level} requires a ${expected} key (key uses ${keyAlgorithm})`
+    );
+  }
+}
+
+// ---- Key material ----------------------------------------------------------
+
+/**
+ * Generate a PEM keypair (SPKI public, PKCS#8 private) for an algorithm
+ */
+export function generateKeyPairFor(algorithm: KeyAlgorithm): { publicKey: string; privateKey: string } {
+  const publicKeyEncoding = { type: "spki", format: "pem" } as const;
+  const privateKeyEncoding = { type: "pkcs8", format: "pem" } as const;
+
+  switch (algorithm) {
+    case "prime256v1":
+      return crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1", publicKeyEncoding, privateKeyEncoding });
+    case "rsa-2048":
+      return crypto.generateKeyPairSync("rsa", { modulusLength: 2048, publicKeyEncoding, privateKeyEncoding });
+    case "rsa-4096":
+      return crypto.generateKeyPairSync("rsa", { modulusLength: 4096, publicKeyEncoding, privateKeyEncoding });
+    case "ed25519":
+      return crypto.generateKeyPairSync("ed25519", { publicKeyEncoding, privateKeyEncoding });
+  }
+}
+
+/**
+ * Identify the algorithm of a PEM key (public or private)
+ */
+export function keyAlgorithmOf(pem: string): KeyAlgorithm {
+  const key = pem.includes("PRIVATE KEY") ? crypto.createPrivateKey(pem) : crypto.createPublicKey(pem);
+
+  switch (key.asymmetricKeyType) {
+    case "ec":
+      if (key.asymmetricKeyDetails?.namedCurve === "prime256v1") return "prime256v1";
+      break;
+    case "rsa":
+      if (key.asymmetricKeyDetails?.modulusLength === 2048) return "rsa-2048";
+      if (key.asymmetricKeyDetails?.modulusLength === 4096) return "rsa-4096";
+      break;
+    case "ed25519":
+      return "ed25519";
+  }
+
+  throw new Error(`Unsupported key type: ${key.asymmetricKeyType ?? "unknown"}`);
+}
+
+// ---- Signatures ------------------------------------------------------------
+
+function signingOptions(algorithm: string, key: string) {
+  if (algorithm.startsWith("rsa-")) {
+    return {
+      key,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+    };
+  }
+  return { key };
+}
+
+function digestFor(algorithm: string): string | null {
+  // Ed25519 hashes internally and takes no digest parameter
+  return algorithm === "ed25519" ? null : "sha256";
+}
+
+/**
+ * Sign bytes with the suite matching the key algorithm
+ */
+export function signWithAlgorithm(algorithm: string, privateKey: string, data: Buffer): Buffer {
+  if (!isKeyAlgorithm(algorithm)) {
+    throw new Error(`Unsupported key algorithm: ${algorithm}`);
+  }
+  return crypto.sign(digestFor(algorithm), data, signingOptions(algorithm, privateKey));
+}
+
+/**
+ * Verify a signature with the suite matching the key algorithm
+ */
+export function verifyWithAlgorithm(
+  algorithm: string,
+  publicKey: string,
+  data: Buffer,
+  signature: Buffer
+): boolean {
+  if (!isKeyAlgorithm(algorithm)) return false;
+
+  try {
+    // A key stored under the wrong algorithm must not verify through
+    // another suite's defaults (e.g. a null digest on an EC key)
+    if (keyAlgorithmOf(publicKey) !== algorithm) return false;
+
+    return crypto.verify(digestFor(algorithm), data, signingOptions(algorithm, publicKey), signature);
+  } catch {
+    return false;
+  }
+}
+
+// ---- Payload encryption ----------------------------------------------------
+
+/**
+ * Derive a payload encryption key from a tenant data key (or server secret)
+ */
+function deriveSymmetricKey(secret: string | Buffer, bytes: 16 | 32): Buffer {
+  return Buffer.from(
+    crypto.hkdfSync("sha256", secret, "optropic-payload", `optropic-payload-aes-${bytes * 8}-gcm`, bytes)
+  );
+}
+
+function gcmCipherFor(key: Buffer): crypto.CipherGCMTypes {
+  return key.length === 16 ? "aes-128-gcm" : "aes-256-gcm";
+}
+
+function aesGcmEncrypt(key: Buffer, plaintext: Buffer) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(gcmCipherFor(key), key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    encrypted: encrypted.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+function aesGcmDecrypt(key: Buffer, payload: SuiteEncryptedPayload): Buffer {
+  const decipher = crypto.createDecipheriv(gcmCipherFor(key), key, Buffer.from(payload.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(payload.tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.encrypted, "base64")),
+    decipher.final(),
+  ]);
+}
+
+/**
+ * Encrypt a payload with the level's cipher.
+ * RSA levels need the key's public key to wrap the content key.
+ */
+export function encryptWithSuite(
+  level: SuiteEncryptionLevel,
+  plaintext: Buffer,
+  options: { secret: string | Buffer; publicKey?: string }
+): SuiteEncryptedPayload {
+  const alg = ENCRYPTION_SUITES[level].payloadCipher;
+
+  switch (alg) {
+    case "A128GCM":
+      return { ...aesGcmEncrypt(deriveSymmetricKey(options.secret, 16), plaintext), alg };
+    case "A256GCM":
+      return { ...aesGcmEncrypt(deriveSymmetricKey(options.secret, 32), plaintext), alg };
+    case "RSA-OAEP-256+A256GCM": {
+      if (!options.publicKey) {
+        throw new Error("RSA payload encryption requires the key's public key");
+      }
+      const contentKey = crypto.randomBytes(32);
+      const wrappedKey = crypto.publicEncrypt(
+        { key: options.publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+        contentKey
+      );
+      return { ...aesGcmEncrypt(contentKey, plaintext), alg, wrappedKey: wrappedKey.toString("base64") };
+    }
+  }
+}
+
+/**
+ * Decrypt a payload produced by encryptWithSuite (or the pre-suite format)
+ */
+export function decryptWithSuite(
+  payload: SuiteEncryptedPayload,
+  options: { secret: string | Buffer; privateKey?: string }
+): Buffer {
+  switch (payload.alg) {
+    case undefined:
+      // Pre-suite payloads used the server secret padded to 32 bytes directly
+      if (typeof options.secret !== "string") {
+        throw new Error("Pre-suite payloads can only be decrypted with the server secret");
+      }
+      return aesGcmDecrypt(Buffer.from(options.secret.padEnd(32, "0").substring(0, 32)), payload);
+    case "A128GCM":
+      return aesGcmDecrypt(deriveSymmetricKey(options.secret, 16), payload);
+    case "A256GCM":
+      return aesGcmDecrypt(deriveSymmetricKey(options.secret, 32), payload);
+    case "RSA-OAEP-256+A256GCM": {
+      if (!options.privateKey || !payload.wrappedKey) {
+        throw new Error("RSA payload decryption requires the key's private key");
+      }
+      const contentKey = crypto.privateDecrypt(
+        { key: options.privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+        Buffer.from(payload.wrappedKey, "base64")
+      );
+      return aesGcmDecrypt(contentKey, payload);
+    }
+    default:
+      throw new Error(`Unsupported payload cipher: ${String(payload.alg)}`);
+  }
+}
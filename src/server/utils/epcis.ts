@@ -0,0 +1,243 @@
+/**
+ * EPCIS 2.0
+ * ---------
+ * Pure helpers for the supply chain event store:
+ *  - EPC identifiers: GS1 Digital Link URIs (01/21, 01/10, 00), EPC URNs
+ *    (sgtin, sscc, lgtin, sgtin patterns) and Optropic scan URLs (/r/{code})
+ *  - CBV values: bizStep, disposition and source/destination types are
+ *    stored as short names ("shipping") whichever form they arrive in
+ *  - the EPCs an event names, with their role
+ *  - custody timelines: an asset's events in time order, carrying the
+ *    owning and possessing parties forward from destination lists
+ */
+
+import type { EpcisAction, EpcisEvent, EpcisEventType, EpcisObjectRole } from "@optropic/shared";
+import { gs1CheckDigit, normalizeSscc, parseDigitalLink } from "./gs1DigitalLink";
+
+export const EPCIS_CONTEXT = "https://ref.gs1.org/standards/epcis/2.0.0/epcis-context.jsonld";
+
+export const EVENT_TYPES: Record<EpcisEvent["type"], EpcisEventType> = {
+  ObjectEvent: "OBJECT",
+  AggregationEvent: "AGGREGATION",
+  TransformationEvent: "TRANSFORMATION",
+};
+
+/** What an EPC identifies */
+export type EpcIdentity =
+  | { kind: "item"; gtin: string; serial: string }
+  | { kind: "class"; gtin: string; lot: string | null }
+  | { kind: "sscc"; sscc: string }
+  | { kind: "code"; codeValue: string };
+
+export interface EventObject {
+  role: EpcisObjectRole;
+  epc: string;
+  quantity: number | null;
+  uom: string | null;
+}
+
+type CbvVocabulary = "bizStep" | "disposition" | "sourceDestType";
+
+/** URN, Web URI and compact forms of each vocabulary */
+const CBV_PREFIXES: Record<CbvVocabulary, string[]> = {
+  bizStep: ["urn:epcglobal:cbv:bizstep:", "https://ref.gs1.org/cbv/BizStep-", "https://gs1.org/voc/BizStep-", "cbv:BizStep-"],
+  disposition: ["urn:epcglobal:cbv:disp:", "https://ref.gs1.org/cbv/Disp-", "https://gs1.org/voc/Disp-", "cbv:Disp-"],
+  sourceDestType: ["urn:epcglobal:cbv:sdt:", "https://ref.gs1.org/cbv/SDT-", "https://gs1.org/voc/SDT-", "cbv:SDT-"],
+};
+
+/**
+ * CBV short name of a standard value; custom values are kept as given
+ */
+export function normalizeCbv(value: string, vocabulary: CbvVocabulary): string {
+  for (const prefix of CBV_PREFIXES[vocabulary]) {
+    if (value.startsWith(prefix) && value.length > prefix.length) {
+      return value.slice(prefix.length);
+    }
+  }
+  return value;
+}
+
+/**
+ * Readable label for a CBV value: "in_transit" -> "In transit"
+ */
+export function cbvLabel(value: string): string {
+  const name = /^[a-z0-9_]+$/i.test(value) ? value : (value.split(/[/:#]/).filter(Boolean).pop() ?? value);
+  const words = name.replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * GS1 key from an EPC URN's company prefix and reference: the reference's
+ * first digit (indicator or extension digit) leads, the check digit follows
+ */
+function keyFromUrn(companyPrefix: string, reference: string, digits: number): string | null {
+  const body = reference.charAt(0) + companyPrefix + reference.slice(1);
+  if (!/^\d+$/.test(body) || body.length !== digits - 1) return null;
+  return body + gs1CheckDigit(body);
+}
+
+function parseUrn(urn: string): EpcIdentity | null {
+  const match = /^urn:epc:(id|class|idpat):([a-z]+):(.+)$/i.exec(urn);
+  if (!match) return null;
+
+  const [, category, scheme, value] = match;
+  const parts = value!.split(".");
+
+  switch (`${category!.toLowerCase()}:${scheme!.toLowerCase()}`) {
+    case "id:sgtin": {
+      const gtin = parts.length === 3 ? keyFromUrn(parts[0]!, parts[1]!, 14) : null;
+      return gtin ? { kind: "item", gtin, serial: decodeURIComponent(parts[2]!) } : null;
+    }
+    case "id:sscc": {
+      const sscc = parts.length === 2 ? keyFromUrn(parts[0]!, parts[1]!, 18) : null;
+      return sscc ? { kind: "sscc", sscc } : null;
+    }
+    case "class:lgtin": {
+      const gtin = parts.length === 3 ? keyFromUrn(parts[0]!, parts[1]!, 14) : null;
+      return gtin ? { kind: "class", gtin, lot: decodeURIComponent(parts[2]!) } : null;
+    }
+    case "idpat:sgtin": {
+      const gtin = parts.length === 3 && parts[2] === "*" ? keyFromUrn(parts[0]!, parts[1]!, 14) : null;
+      return gtin ? { kind: "class", gtin, lot: null } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function parseUrl(uri: string): EpcIdentity | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  // Optropic scan URL: {base}/r/{codeValue}
+  if (segments.length >= 2 && segments[segments.length - 2] === "r") {
+    return { kind: "code", codeValue: segments[segments.length - 1]! };
+  }
+
+  const ssccAt = segments.indexOf("00");
+  if (ssccAt !== -1 && segments[ssccAt + 1]) {
+    try {
+      return { kind: "sscc", sscc: normalizeSscc(segments[ssccAt + 1]!) };
+    } catch {
+      return null;
+    }
+  }
+
+  try {
+    const ids = parseDigitalLink(uri);
+    return ids.serial !== undefined
+      ? { kind: "item", gtin: ids.gtin, serial: ids.serial }
+      : { kind: "class", gtin: ids.gtin, lot: ids.lot ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What an EPC identifies; null for identifiers the platform does not issue
+ */
+export function parseEpc(epc: string): EpcIdentity | null {
+  return epc.toLowerCase().startsWith("urn:") ? parseUrn(epc) : parseUrl(epc);
+}
+
+/**
+ * Every EPC and EPC class an event names, with its role
+ */
+export function eventObjects(event: EpcisEvent): EventObject[] {
+  const epcs = (role: EpcisObjectRole, list: string[]): EventObject[] =>
+    list.map((epc) => ({ role, epc, quantity: null, uom: null }));
+  const quantities = (role: EpcisObjectRole, list: { epcClass: string; quantity?: number; uom?: string }[]) =>
+    list.map((element) => ({
+      role,
+      epc: element.epcClass,
+      quantity: element.quantity ?? null,
+      uom: element.uom ?? null,
+    }));
+
+  switch (event.type) {
+    case "ObjectEvent":
+      return [...epcs("EPC", event.epcList), ...quantities("EPC", event.quantityList)];
+    case "AggregationEvent":
+      return [
+        ...(event.parentID ? epcs("PARENT", [event.parentID]) : []),
+        ...epcs("CHILD", event.childEPCs),
+        ...quantities("CHILD", event.childQuantityList),
+      ];
+    case "TransformationEvent":
+      return [
+        ...epcs("INPUT", event.inputEPCList),
+        ...quantities("INPUT", event.inputQuantityList),
+        ...epcs("OUTPUT", event.outputEPCList),
+        ...quantities("OUTPUT", event.outputQuantityList),
+      ];
+  }
+}
+
+export interface CustodyEvent {
+  eventId: string;
+  eventType: EpcisEventType;
+  action: EpcisAction | null;
+  eventTime: Date;
+  eventTimeZoneOffset: string;
+  bizStep: string | null;
+  disposition: string | null;
+  readPoint: string | null;
+  bizLocation: string | null;
+  role: EpcisObjectRole;
+  /** Packaging unit the event named, when it did not name the asset itself */
+  via: { assetId: number; assetName: string; sscc: string | null } | null;
+  /** The captured event; its source and destination lists name the parties */
+  document: unknown;
+}
+
+export interface CustodyStep extends Omit<CustodyEvent, "document"> {
+  /** Business location, else the read point */
+  location: string | null;
+  owner: string | null;
+  possessor: string | null;
+}
+
+function parties(document: unknown, list: "sourceList" | "destinationList") {
+  const found: { owner?: string; possessor?: string } = {};
+  const entries = typeof document === "object" && document !== null ? (document as Record<string, unknown>)[list] : null;
+  if (!Array.isArray(entries)) return found;
+
+  const key = list === "sourceList" ? "source" : "destination";
+  for (const entry of entries as unknown[]) {
+    if (typeof entry !== "object" || entry === null) continue;
+    const { type, [key]: party } = entry as Record<string, unknown>;
+    if (typeof type !== "string" || typeof party !== "string") continue;
+
+    const partyType = normalizeCbv(type, "sourceDestType");
+    if (partyType === "owning_party") found.owner = party;
+    if (partyType === "possessing_party") found.possessor = party;
+  }
+  return found;
+}
+
+/**
+ * Order an asset's events and work out who owned and held it after each.
+ * Destinations hand custody over; without one, custody stays where it was
+ * (or with the event's source, when nothing is known yet).
+ */
+export function buildCustodyTimeline(events: CustodyEvent[]): CustodyStep[] {
+  const sorted = [...events].sort((a, b) => a.eventTime.getTime() - b.eventTime.getTime());
+  let owner: string | null = null;
+  let possessor: string | null = null;
+
+  return sorted.map(({ document, ...event }) => {
+    const source = parties(document, "sourceList");
+    const destination = parties(document, "destinationList");
+    owner = destination.owner ?? owner ?? source.owner ?? null;
+    possessor = destination.possessor ?? possessor ?? source.possessor ?? null;
+
+    return { ...event, location: event.bizLocation ?? event.readPoint, owner, possessor };
+  });
+}
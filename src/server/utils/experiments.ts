@@ -0,0 +1,161 @@
+/**
+ * Campaign Experiments
+ * --------------------
+ * Pure helpers for splitting scan traffic across weighted variants:
+ *  - sticky assignment: a scanner's device/IP hash always lands on the
+ *    same variant of an experiment
+ *  - significance: two-sided two-proportion z-tests of the leading variant
+ *    against every other one, Bonferroni-corrected for the comparisons
+ *  - conversion tokens: signed scan ids carried to the destination and
+ *    returned by its conversion pixel
+ */
+
+import crypto from "crypto";
+import type { ExperimentVariant } from "@optropic/shared";
+
+/** Query parameter carrying the conversion token to the destination */
+export const CONVERSION_PARAM = "opx";
+
+export interface VariantTally {
+  key: string;
+  exposures: number;
+  conversions: number;
+}
+
+export interface VariantStats extends VariantTally {
+  conversionRate: number;
+  /** Two-sided p-value against the leader; null for the leader itself */
+  pValue: number | null;
+}
+
+export interface ExperimentAnalysis {
+  variants: VariantStats[];
+  /** Variant with the highest conversion rate, null before any conversion */
+  leader: string | null;
+  /** Corrected confidence that the leader beats every other variant */
+  confidence: number;
+  /** Every variant has the minimum number of exposures */
+  sampleSizeReached: boolean;
+  significant: boolean;
+}
+
+/**
+ * Pick a variant for a scanner. The same visitor key and salt (the
+ * experiment id) always give the same variant while the weights are unchanged.
+ */
+export function assignVariant<T extends Pick<ExperimentVariant, "weight">>(
+  variants: T[],
+  visitorKey: string,
+  salt: string
+): T {
+  if (variants.length === 0) {
+    throw new Error("Experiment has no variants");
+  }
+
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  const digest = crypto.createHash("sha256").update(`${salt}:${visitorKey}`).digest();
+  let point = (digest.readUInt32BE(0) / 0x1_0000_0000) * total;
+
+  for (const variant of variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return variants[variants.length - 1]!;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value of a pooled two-proportion z-test
+ */
+export function twoProportionPValue(a: VariantTally, b: VariantTally): number {
+  if (a.exposures === 0 || b.exposures === 0) return 1;
+
+  const pooled = (a.conversions + b.conversions) / (a.exposures + b.exposures);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.exposures + 1 / b.exposures));
+  if (standardError === 0) return 1;
+
+  const z = (a.conversions / a.exposures - b.conversions / b.exposures) / standardError;
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Compare the leading variant against the rest
+ */
+export function analyzeExperiment(
+  tallies: VariantTally[],
+  options: { confidenceLevel: number; minSamplesPerVariant: number }
+): ExperimentAnalysis {
+  const rate = (tally: VariantTally) => (tally.exposures > 0 ? tally.conversions / tally.exposures : 0);
+
+  const leader = tallies.reduce<VariantTally | null>(
+    (best, tally) => (tally.conversions > 0 && (!best || rate(tally) > rate(best)) ? tally : best),
+    null
+  );
+
+  const variants: VariantStats[] = tallies.map((tally) => ({
+    ...tally,
+    conversionRate: rate(tally),
+    pValue: leader && tally.key !== leader.key ? twoProportionPValue(leader, tally) : null,
+  }));
+
+  const comparisons = variants.filter((variant) => variant.pValue !== null);
+  const worstP = comparisons.reduce((worst, variant) => Math.max(worst, variant.pValue!), 0);
+  const confidence = leader && comparisons.length > 0 ? Math.max(0, 1 - Math.min(1, worstP * comparisons.length)) : 0;
+  const sampleSizeReached =
+    tallies.length > 0 && tallies.every((tally) => tally.exposures >= options.minSamplesPerVariant);
+
+  return {
+    variants,
+    leader: leader?.key ?? null,
+    confidence,
+    sampleSizeReached,
+    significant: sampleSizeReached && confidence >= options.confidenceLevel,
+  };
+}
+
+function tokenSignature(scanId: number, secret: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`experiment-conversion:${scanId}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+/**
+ * Signed conversion token for a scan
+ */
+export function signConversionToken(scanId: number, secret: string): string {
+  return `${scanId}.${tokenSignature(scanId, secret)}`;
+}
+
+/**
+ * Scan id of a conversion token, or null when it is malformed or forged
+ */
+export function verifyConversionToken(token: string, secret: string): number | null {
+  const match = /^(\d{1,10})\.([A-Za-z0-9_-]{22})$/.exec(token);
+  if (!match) return null;
+
+  const scanId = Number(match[1]);
+  const expected = Buffer.from(tokenSignature(scanId, secret));
+  const given = Buffer.from(match[2]!);
+  return crypto.timingSafeEqual(expected, given) ? scanId : null;
+}
+
+/**
+ * Destination URL with the conversion token appended
+ */
+export function withConversionToken(url: string, token: string): string {
+  const destination = new URL(url);
+  destination.searchParams.set(CONVERSION_PARAM, token);
+  return destination.toString();
+}
@@ -0,0 +1,328 @@
+/**
+ * GS1 Digital Link URIs
+ * ---------------------
+ * Compose, parse and compress GS1 Digital Link URIs for the identifiers the
+ * platform issues:
+ *   01  GTIN (primary key, 14 digits with check digit)
+ *   10  batch / lot (key qualifier, up to 20 characters)
+ *   21  serial number (key qualifier, up to 20 characters)
+ *   17  expiry date (data attribute, YYMMDD, carried in the query string)
+ *   00  SSCC of a logistic unit (validated only; not part of a Digital Link)
+ *
+ * Uncompressed: https://{domain}/01/{gtin}/10/{lot}/21/{serial}?17={YYMMDD}
+ * Compressed:   https://{domain}/{base64url bits} (GS1 Digital Link
+ * compression for the AIs above; optimisation codes and non-GS1 query
+ * parameters are not produced)
+ */
+
+export interface Gs1Identifiers {
+  gtin: string;
+  lot?: string;
+  serial?: string;
+  /** YYMMDD; DD may be 00 for "end of month" */
+  expiry?: string;
+}
+
+interface AiDefinition {
+  /** Fixed digit count, or the maximum length of a variable value */
+  length: number;
+  fixed: boolean;
+  numeric: boolean;
+}
+
+const AIS: Record<string, AiDefinition> = {
+  "01": { length: 14, fixed: true, numeric: true },
+  "10": { length: 20, fixed: false, numeric: false },
+  "21": { length: 20, fixed: false, numeric: false },
+  "17": { length: 6, fixed: true, numeric: true },
+};
+
+/** Key qualifiers in the order the path must list them */
+const QUALIFIERS = ["10", "21"] as const;
+
+/** Convenience short names accepted by resolvers */
+const SHORT_NAMES: Record<string, string> = { gtin: "01", lot: "10", ser: "21", exp: "17" };
+
+/** GS1 AI encodable character set 82 */
+const CSET82 = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/;
+
+const BASE64URL = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+// ---- Check digits ----------------------------------------------------------
+
+/**
+ * GS1 mod-10 check digit for the digits preceding it
+ */
+export function gs1CheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3, 1 starting from the rightmost digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a GTIN-8/12/13/14 and return it as GTIN-14
+ */
+export function normalizeGtin(gtin: string): string {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(gtin)) {
+    throw new Error("GTIN must have 8, 12, 13 or 14 digits");
+  }
+
+  const padded = gtin.padStart(14, "0");
+  if (gs1CheckDigit(padded.slice(0, 13)) !== Number(padded[13])) {
+    throw new Error(`Invalid GTIN check digit: ${gtin}`);
+  }
+  return padded;
+}
+
+export function isValidGtin(gtin: string): boolean {
+  try {
+    normalizeGtin(gtin);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate an SSCC (AI 00): 18 digits, the last a GS1 check digit
+ */
+export function normalizeSscc(sscc: string): string {
+  const digits = sscc.replace(/^\(00\)/, "").replace(/\s/g, "");
+  if (!/^\d{18}$/.test(digits)) {
+    throw new Error("SSCC must have 18 digits");
+  }
+  if (gs1CheckDigit(digits.slice(0, 17)) !== Number(digits[17])) {
+    throw new Error(`Invalid SSCC check digit: ${sscc}`);
+  }
+  return digits;
+}
+
+function validateValue(ai: string, value: string): void {
+  const definition = AIS[ai]!;
+
+  if (ai === "17") {
+    const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+    const month = Number(match?.[2]);
+    if (!match || month < 1 || month > 12 || Number(match[3]) > 31) {
+      throw new Error(`Invalid expiry date (YYMMDD): ${value}`);
+    }
+    return;
+  }
+
+  if (!definition.numeric && (value.length === 0 || value.length > definition.length || !CSET82.test(value))) {
+    throw new Error(`AI (${ai}) must be 1-${definition.length} characters of the GS1 character set`);
+  }
+}
+
+function validated(ids: Gs1Identifiers): Gs1Identifiers {
+  const result: Gs1Identifiers = { gtin: normalizeGtin(ids.gtin) };
+  if (ids.lot !== undefined) validateValue("10", (result.lot = ids.lot));
+  if (ids.serial !== undefined) validateValue("21", (result.serial = ids.serial));
+  if (ids.expiry !== undefined) validateValue("17", (result.expiry = ids.expiry));
+  return result;
+}
+
+/**
+ * YYMMDD for a date (UTC)
+ */
+export function toGs1Date(date: Date): string {
+  return date.toISOString().slice(2, 10).replace(/-/g, "");
+}
+
+// ---- Uncompressed URIs -----------------------------------------------------
+
+/**
+ * Compose a Digital Link URI on a resolver domain
+ */
+export function buildDigitalLink(ids: Gs1Identifiers, baseUrl: string): string {
+  const checked = validated(ids);
+  let path = `/01/${checked.gtin}`;
+  if (checked.lot !== undefined) path += `/10/${encodeURIComponent(checked.lot)}`;
+  if (checked.serial !== undefined) path += `/21/${encodeURIComponent(checked.serial)}`;
+
+  const query = checked.expiry !== undefined ? `?17=${checked.expiry}` : "";
+  return `${baseUrl.replace(/\/+$/, "")}${path}${query}`;
+}
+
+/**
+ * Parse an uncompressed Digital Link URI or path. Path segments before the
+ * primary key (a resolver prefix) are ignored.
+ */
+export function parseDigitalLink(uri: string): Gs1Identifiers {
+  const url = new URL(uri, "https://resolver.invalid");
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  const aiOf = (segment: string) => SHORT_NAMES[segment] ?? segment;
+
+  const start = segments.findIndex((segment) => aiOf(segment) === "01");
+  if (start === -1) {
+    throw new Error("Digital Link has no GTIN (01) primary key");
+  }
+
+  const values = new Map<string, string>();
+  const rest = segments.slice(start);
+  if (rest.length % 2 !== 0) {
+    throw new Error("Digital Link path must alternate AIs and values");
+  }
+
+  let lastQualifier = -1;
+  for (let i = 0; i < rest.length; i += 2) {
+    const ai = aiOf(rest[i]!);
+    if (i > 0) {
+      const position = QUALIFIERS.indexOf(ai as (typeof QUALIFIERS)[number]);
+      if (position === -1) throw new Error(`AI (${ai}) is not a key qualifier of GTIN`);
+      if (position <= lastQualifier) throw new Error("Key qualifiers must be in the order 10, 21");
+      lastQualifier = position;
+    }
+    values.set(ai, rest[i + 1]!);
+  }
+
+  for (const [name, value] of url.searchParams) {
+    if (aiOf(name) === "17") values.set("17", value);
+  }
+
+  return validated({
+    gtin: values.get("01")!,
+    lot: values.get("10"),
+    serial: values.get("21"),
+    expiry: values.get("17"),
+  });
+}
+
+// ---- Compression -----------------------------------------------------------
+
+function numericBits(digits: number): number {
+  return Math.ceil(digits * Math.log2(10));
+}
+
+function lengthBits(maxLength: number): number {
+  return Math.ceil(Math.log2(maxLength + 1));
+}
+
+function toBits(value: bigint | number, width: number): string {
+  return value.toString(2).padStart(width, "0");
+}
+
+/**
+ * Encoding indicators for variable-length values
+ */
+const ENCODINGS = [
+  { id: 0, test: /^\d+$/, bits: 0 },
+  { id: 1, test: /^[0-9a-f]+$/, bits: 4, alphabet: "0123456789abcdef" },
+  { id: 2, test: /^[0-9A-F]+$/, bits: 4, alphabet: "0123456789ABCDEF" },
+  { id: 3, test: /^[A-Za-z0-9_-]+$/, bits: 6, alphabet: BASE64URL },
+  { id: 4, test: /^\p{ASCII}+$/u, bits: 7 },
+] as const;
+
+function encodeValue(ai: string, value: string): string {
+  const definition = AIS[ai]!;
+
+  if (definition.fixed) {
+    return toBits(BigInt(value), numericBits(definition.length));
+  }
+
+  const encoding = ENCODINGS.find((candidate) => candidate.test.test(value))!;
+  let bits = toBits(encoding.id, 3) + toBits(value.length, lengthBits(definition.length));
+
+  if (encoding.id === 0) {
+    bits += toBits(BigInt(value), numericBits(value.length));
+  } else {
+    for (const char of value) {
+      const code = "alphabet" in encoding ? encoding.alphabet.indexOf(char) : char.charCodeAt(0);
+      bits += toBits(code, encoding.bits);
+    }
+  }
+  return bits;
+}
+
+/**
+ * Compress a Digital Link to {domain}/{base64url}
+ */
+export function compressDigitalLink(uri: string, baseUrl: string): string {
+  const ids = parseDigitalLink(uri);
+  const entries: [string, string | undefined][] = [
+    ["01", ids.gtin],
+    ["10", ids.lot],
+    ["21", ids.serial],
+    ["17", ids.expiry],
+  ];
+
+  let bits = "";
+  for (const [ai, value] of entries) {
+    if (value === undefined) continue;
+    // Two-digit AIs are written as two 4-bit nibbles
+    bits += toBits(Number(ai[0]), 4) + toBits(Number(ai[1]), 4) + encodeValue(ai, value);
+  }
+
+  bits = bits.padEnd(Math.ceil(bits.length / 6) * 6, "0");
+  let encoded = "";
+  for (let i = 0; i < bits.length; i += 6) {
+    encoded += BASE64URL[parseInt(bits.slice(i, i + 6), 2)];
+  }
+
+  return `${baseUrl.replace(/\/+$/, "")}/${encoded}`;
+}
+
+/**
+ * Expand a compressed Digital Link back to its uncompressed form
+ */
+export function decompressDigitalLink(uri: string, baseUrl: string): string {
+  const url = new URL(uri, "https://resolver.invalid");
+  const encoded = url.pathname.split("/").filter(Boolean).pop() ?? "";
+  if (!/^[A-Za-z0-9_-]+$/.test(encoded)) {
+    throw new Error("Not a compressed Digital Link");
+  }
+
+  const bits = [...encoded].map((char) => toBits(BASE64URL.indexOf(char), 6)).join("");
+  let position = 0;
+  const read = (width: number): bigint => {
+    if (position + width > bits.length) throw new Error("Truncated compressed Digital Link");
+    const value = BigInt(`0b${bits.slice(position, position + width) || "0"}`);
+    position += width;
+    return value;
+  };
+
+  const values = new Map<string, string>();
+  // Anything shorter than an AI is padding
+  while (bits.length - position >= 8) {
+    const ai = `${read(4)}${read(4)}`;
+    const definition = AIS[ai];
+    if (!definition) {
+      if (/^0*$/.test(bits.slice(position - 8))) break;
+      throw new Error(`Unsupported AI (${ai}) in compressed Digital Link`);
+    }
+
+    if (definition.fixed) {
+      values.set(ai, read(numericBits(definition.length)).toString().padStart(definition.length, "0"));
+      continue;
+    }
+
+    const encodingId = Number(read(3));
+    const encoding = ENCODINGS.find((candidate) => candidate.id === encodingId);
+    const length = Number(read(lengthBits(definition.length)));
+    if (!encoding) throw new Error("Unknown value encoding in compressed Digital Link");
+
+    if (encoding.id === 0) {
+      values.set(ai, read(numericBits(length)).toString().padStart(length, "0"));
+    } else {
+      let value = "";
+      for (let i = 0; i < length; i++) {
+        const code = Number(read(encoding.bits));
+        value += "alphabet" in encoding ? encoding.alphabet[code] : String.fromCharCode(code);
+      }
+      values.set(ai, value);
+    }
+  }
+
+  if (!values.has("01")) {
+    throw new Error("Compressed Digital Link has no GTIN");
+  }
+
+  return buildDigitalLink(
+    { gtin: values.get("01")!, lot: values.get("10"), serial: values.get("21"), expiry: values.get("17") },
+    baseUrl
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * JSON Canonicalization Scheme (RFC 8785)
+ * ---------------------------------------
+ * Deterministic JSON used as the signed form of code payloads and bundles.
+ *  - Object members sorted by UTF-16 code units
+ *  - ECMAScript number and string serialization
+ *  - No insignificant whitespace
+ *  - `undefined` members are omitted, like JSON.stringify
+ */
+
+export function canonicalize(value: unknown): string {
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new Error("JCS cannot represent NaN or Infinity");
+      }
+      return JSON.stringify(value);
+    case "string":
+      return JSON.stringify(value);
+    case "object":
+      break;
+    default:
+      throw new Error(`JCS cannot represent values of type ${typeof value}`);
+  }
+
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item: unknown) => (item === undefined ? "null" : canonicalize(item))).join(",")}]`;
+  }
+
+  // Default sort compares UTF-16 code units, as the RFC requires
+  const members = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+
+  return `{${members.join(",")}}`;
+}
+
+/**
+ * Canonical UTF-8 bytes of a value
+ */
+export function canonicalBytes(value: unknown): Buffer {
+  return Buffer.from(canonicalize(value), "utf8");
+}
@@ -0,0 +1,293 @@
+/**
+ * Master Key Providers
+ * --------------------
+ * Wrap and unwrap per-tenant data-encryption keys with a master key that
+ * never leaves the provider.
+ *  - LocalKeyProvider: AES-256-GCM master keys from a key file or env
+ *  - KmsKeyProvider: AWS KMS Encrypt/Decrypt (JSON protocol, SigV4), so any
+ *    KMS-compatible endpoint (LocalStack, a test stub) works
+ *
+ * Wrapped keys record the master key id they were wrapped with, so master
+ * keys can rotate: new wraps use the current key while old ones still unwrap.
+ * The encryption context (tenant id, key version) is bound as AAD.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import { env } from "../env";
+import { canonicalBytes } from "./jcs";
+
+export type KeyProviderName = "local" | "kms";
+
+/** Authenticated, non-secret data bound to a wrapped key */
+export type EncryptionContext = Record<string, string>;
+
+export interface WrappedKey {
+  provider: KeyProviderName;
+  masterKeyId: string;
+  /** base64 */
+  ciphertext: string;
+}
+
+export interface KeyProvider {
+  readonly name: KeyProviderName;
+  /** Master key that new wraps use */
+  currentMasterKeyId(): string;
+  wrap(plaintext: Buffer, context: EncryptionContext): Promise<WrappedKey>;
+  unwrap(wrapped: WrappedKey, context: EncryptionContext): Promise<Buffer>;
+}
+
+// ---- Local provider --------------------------------------------------------
+
+const LOCAL_IV_LENGTH = 12;
+const LOCAL_TAG_LENGTH = 16;
+
+/**
+ * Master key file format: { "current": "2025-10", "keys": { "2025-10": "<base64, 32 bytes>" } }
+ */
+interface MasterKeyFile {
+  current: string;
+  keys: Record<string, string>;
+}
+
+export class LocalKeyProvider implements KeyProvider {
+  readonly name = "local" as const;
+  private readonly keys: Map<string, Buffer>;
+
+  constructor(
+    keys: Record<string, Buffer>,
+    private readonly currentKeyId: string
+  ) {
+    this.keys = new Map(Object.entries(keys));
+
+    for (const [id, key] of this.keys) {
+      if (key.length !== 32) {
+        throw new Error(`Master key ${id} must be 32 bytes`);
+      }
+    }
+    if (!this.keys.has(currentKeyId)) {
+      throw new Error(`Current master key ${currentKeyId} is not configured`);
+    }
+  }
+
+  /**
+   * Load master keys from MASTER_KEY_FILE, then MASTER_KEYS ("id:base64,…",
+   * first is current). Without either, a key is derived from SECRET_KEY so
+   * development setups keep working.
+   */
+  static fromEnv(): LocalKeyProvider {
+    if (env.MASTER_KEY_FILE) {
+      const file = JSON.parse(fs.readFileSync(env.MASTER_KEY_FILE, "utf8")) as MasterKeyFile;
+      return new LocalKeyProvider(
+        Object.fromEntries(Object.entries(file.keys).map(([id, key]) => [id, Buffer.from(key, "base64")])),
+        file.current
+      );
+    }
+
+    if (env.MASTER_KEYS) {
+      const entries = env.MASTER_KEYS.split(",").map((entry) => {
+        const separator = entry.indexOf(":");
+        if (separator < 1) {
+          throw new Error("MASTER_KEYS entries must look like <id>:<base64 key>");
+        }
+        return [entry.slice(0, separator).trim(), Buffer.from(entry.slice(separator + 1).trim(), "base64")] as const;
+      });
+      return new LocalKeyProvider(Object.fromEntries(entries), entries[0]![0]);
+    }
+
+    const derived = Buffer.from(
+      crypto.hkdfSync("sha256", env.SECRET_KEY, "optropic-master-key", "local-master-key", 32)
+    );
+    return new LocalKeyProvider({ "secret-key": derived }, "secret-key");
+  }
+
+  currentMasterKeyId(): string {
+    return this.currentKeyId;
+  }
+
+  async wrap(plaintext: Buffer, context: EncryptionContext): Promise<WrappedKey> {
+    const iv = crypto.randomBytes(LOCAL_IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.keys.get(this.currentKeyId)!, iv);
+    cipher.setAAD(canonicalBytes(context));
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return {
+      provider: this.name,
+      masterKeyId: this.currentKeyId,
+      ciphertext: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64"),
+    };
+  }
+
+  async unwrap(wrapped: WrappedKey, context: EncryptionContext): Promise<Buffer> {
+    const masterKey = this.keys.get(wrapped.masterKeyId);
+    if (!masterKey) {
+      throw new Error(`Master key ${wrapped.masterKeyId} is not available`);
+    }
+
+    const bytes = Buffer.from(wrapped.ciphertext, "base64");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", masterKey, bytes.subarray(0, LOCAL_IV_LENGTH));
+    decipher.setAAD(canonicalBytes(context));
+    decipher.setAuthTag(bytes.subarray(LOCAL_IV_LENGTH, LOCAL_IV_LENGTH + LOCAL_TAG_LENGTH));
+
+    return Buffer.concat([
+      decipher.update(bytes.subarray(LOCAL_IV_LENGTH + LOCAL_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  }
+}
+
+// ---- KMS provider ----------------------------------------------------------
+
+export interface KmsKeyProviderOptions {
+  keyId: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Defaults to https://kms.{region}.amazonaws.com */
+  endpoint?: string;
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * AWS Signature Version 4 headers for a JSON POST to the KMS root path
+ */
+export function signKmsRequest(
+  options: Pick<KmsKeyProviderOptions, "region" | "accessKeyId" | "secretAccessKey">,
+  host: string,
+  target: string,
+  body: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${options.region}/kms/aws4_request`;
+
+  const headers: Record<string, string> = {
+    "content-type": "application/x-amz-json-1.1",
+    host,
+    "x-amz-date": amzDate,
+    "x-amz-target": target,
+  };
+  const signedHeaders = Object.keys(headers).sort().join(";");
+  const canonicalRequest = [
+    "POST",
+    "/",
+    "",
+    ...Object.keys(headers)
+      .sort()
+      .map((name) => `${name}:${headers[name]}`),
+    "",
+    signedHeaders,
+    sha256Hex(body),
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = ["kms", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region)
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export class KmsKeyProvider implements KeyProvider {
+  readonly name = "kms" as const;
+  private readonly endpoint: URL;
+
+  constructor(private readonly options: KmsKeyProviderOptions) {
+    this.endpoint = new URL(options.endpoint ?? `https://kms.${options.region}.amazonaws.com`);
+  }
+
+  static fromEnv(): KmsKeyProvider {
+    if (!env.AWS_KMS_KEY_ID || !env.AWS_REGION || !env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+      throw new Error(
+        "KEY_PROVIDER=kms requires AWS_KMS_KEY_ID, AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY"
+      );
+    }
+
+    return new KmsKeyProvider({
+      keyId: env.AWS_KMS_KEY_ID,
+      region: env.AWS_REGION,
+      accessKeyId: env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+      endpoint: env.AWS_KMS_ENDPOINT,
+    });
+  }
+
+  currentMasterKeyId(): string {
+    return this.options.keyId;
+  }
+
+  private async call<T>(action: "Encrypt" | "Decrypt", payload: Record<string, unknown>): Promise<T> {
+    const body = JSON.stringify(payload);
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: signKmsRequest(this.options, this.endpoint.host, `TrentService.${action}`, body),
+      body,
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { __type?: string; message?: string };
+      throw new Error(`KMS ${action} failed: ${error.__type ?? response.status} ${error.message ?? ""}`.trim());
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async wrap(plaintext: Buffer, context: EncryptionContext): Promise<WrappedKey> {
+    const result = await this.call<{ CiphertextBlob: string }>("Encrypt", {
+      KeyId: this.options.keyId,
+      Plaintext: plaintext.toString("base64"),
+      EncryptionContext: context,
+    });
+
+    // Record the configured id (alias or ARN) so rotation compares like with like
+    return { provider: this.name, masterKeyId: this.options.keyId, ciphertext: result.CiphertextBlob };
+  }
+
+  async unwrap(wrapped: WrappedKey, context: EncryptionContext): Promise<Buffer> {
+    const result = await this.call<{ Plaintext: string }>("Decrypt", {
+      KeyId: wrapped.masterKeyId,
+      CiphertextBlob: wrapped.ciphertext,
+      EncryptionContext: context,
+    });
+
+    return Buffer.from(result.Plaintext, "base64");
+  }
+}
+
+// ---- Configured provider ---------------------------------------------------
+
+const providers = new Map<KeyProviderName, KeyProvider>();
+
+/**
+ * Provider by name, configured from env
+ */
+export function getKeyProviderByName(name: KeyProviderName): KeyProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = name === "kms" ? KmsKeyProvider.fromEnv() : LocalKeyProvider.fromEnv();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Provider that new wraps use, selected by KEY_PROVIDER (defaults to local).
+ * Keys wrapped by the other provider still unwrap while it stays configured,
+ * which lets the re-wrap job move tenants between providers.
+ */
+export function getKeyProvider(): KeyProvider {
+  return getKeyProviderByName(env.KEY_PROVIDER);
+}
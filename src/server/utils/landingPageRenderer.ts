@@ -0,0 +1,282 @@
+/**
+ * Landing Page Renderer
+ * ---------------------
+ * Renders a hosted LANDING_PAGE (see LandingPageSchema in @optropic/shared)
+ * to a self-contained HTML document: inline styles, no scripts. Every value
+ * from content, assets or branding is escaped or validated before output.
+ */
+
+import type { LandingPage, LandingPageBlock, ProductFactField } from "@optropic/shared";
+import { cbvLabel } from "./epcis";
+
+export interface PageBranding {
+  brandName: string;
+  /** Hex colour */
+  primaryColor: string;
+  accentColor: string;
+  /** Icon identifier from the tenant's role mappings */
+  icon: string;
+}
+
+export interface PageVerification {
+  verified: boolean;
+  trustScore: number;
+  warnings: string[];
+  /** OPTICAL, TAG */
+  factors: string[];
+  checkedAt: Date;
+}
+
+export interface PageAssetFacts {
+  assetName: string;
+  productId: string | null;
+  gtin: string | null;
+  batchNumber: string | null;
+  serialNumber: string | null;
+  expiryDate: Date | null;
+  assetType: string;
+}
+
+export interface PageDocument {
+  title: string;
+  href: string;
+  contentType: string;
+  fileSize: number | null;
+}
+
+export interface PageProvenanceStep {
+  /** CBV short name or URI */
+  bizStep: string | null;
+  disposition: string | null;
+  eventTime: Date;
+  location: string | null;
+}
+
+export interface LandingPageRenderData {
+  branding: PageBranding;
+  verification: PageVerification | null;
+  asset: PageAssetFacts | null;
+  /** Image URLs by content id */
+  images: Map<number, string>;
+  /** Linkable content by id */
+  documents: Map<number, PageDocument>;
+  /** Supply chain steps of the asset, oldest first */
+  provenance?: PageProvenanceStep[];
+  /** Form target; null disables the feedback form */
+  feedbackAction: string | null;
+  contentId: number;
+  preview: boolean;
+  notice?: string;
+}
+
+export const DEFAULT_BRANDING: PageBranding = {
+  brandName: "Optropic",
+  primaryColor: "#2563eb",
+  accentColor: "#7c3aed",
+  icon: "shield-check",
+};
+
+const FACT_LABELS: Record<ProductFactField, string> = {
+  assetName: "Product",
+  productId: "Product ID",
+  gtin: "GTIN",
+  batchNumber: "Batch / lot",
+  serialNumber: "Serial number",
+  expiryDate: "Expiry date",
+  assetType: "Type",
+};
+
+/** Lucide path data for the icons tenants can pick */
+const ICON_PATHS: Record<string, string[]> = {
+  shield: [
+    "M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z",
+  ],
+  "shield-check": [
+    "M20 13c0 5-3.5 7.5-7.66 8.95a1 1 0 0 1-.67-.01C7.5 20.5 4 18 4 13V6a1 1 0 0 1 1-1c2 0 4.5-1.2 6.24-2.72a1.17 1.17 0 0 1 1.52 0C14.51 3.81 17 5 19 5a1 1 0 0 1 1 1z",
+    "m9 12 2 2 4-4",
+  ],
+  eye: ["M2.062 12.348a1 1 0 0 1 0-.696 10.75 10.75 0 0 1 19.876 0 1 1 0 0 1 0 .696 10.75 10.75 0 0 1-19.876 0", "M12 9a3 3 0 1 0 0 6 3 3 0 0 0 0-6"],
+  hash: ["M4 9h16", "M4 15h16", "M10 3 8 21", "M16 3l-2 18"],
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function safeColor(color: string, fallback: string): string {
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : fallback;
+}
+
+function safeHref(href: string): string | null {
+  return /^https?:\/\//i.test(href) ? escapeHtml(href) : null;
+}
+
+function icon(name: string, size = 24): string {
+  const paths = (ICON_PATHS[name] ?? ICON_PATHS["shield-check"]!)
+    .map((d) => `<path d="${d}"/>`)
+    .join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">${paths}</svg>`;
+}
+
+function formatFact(field: ProductFactField, asset: PageAssetFacts): string | null {
+  const value = asset[field];
+  if (value === null || value === "") return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (field === "assetType") return value.charAt(0) + value.slice(1).toLowerCase();
+  return value;
+}
+
+function formatSize(bytes: number | null): string {
+  if (!bytes) return "";
+  return bytes < 1024 * 1024 ? ` · ${(bytes / 1024).toFixed(0)} KB` : ` · ${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function renderBlock(block: LandingPageBlock, data: LandingPageRenderData): string {
+  switch (block.type) {
+    case "HERO": {
+      const image = block.imageContentId !== undefined ? data.images.get(block.imageContentId) : undefined;
+      const src = image ? safeHref(image) : null;
+      return `<section class="hero">${src ? `<img src="${src}" alt="">` : ""}<h1>${escapeHtml(block.title)}</h1>${
+        block.subtitle ? `<p>${escapeHtml(block.subtitle)}</p>` : ""
+      }</section>`;
+    }
+
+    case "PRODUCT_FACTS": {
+      const asset = data.asset;
+      const rows = asset
+        ? block.fields
+            .map((field) => [FACT_LABELS[field], formatFact(field, asset)] as const)
+            .filter(([, value]) => value !== null)
+            .map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value!)}</dd>`)
+        : [];
+      if (rows.length === 0) {
+        return data.preview ? `<section class="card muted">No product linked to this code</section>` : "";
+      }
+      return `<section class="card">${block.title ? `<h2>${escapeHtml(block.title)}</h2>` : ""}<dl>${rows.join("")}</dl></section>`;
+    }
+
+    case "VERIFICATION_BADGE": {
+      const verification = data.verification;
+      if (!verification) return "";
+      const label = verification.verified ? (block.verifiedText ?? "Verified authentic") : "Could not verify";
+      const details = [
+        block.showTrustScore ? `Trust score ${verification.trustScore}/100` : null,
+        verification.factors.includes("TAG") ? "Optical code and NFC tag" : null,
+        `Checked ${verification.checkedAt.toISOString().slice(0, 16).replace("T", " ")} UTC`,
+      ].filter(Boolean);
+      const warnings = verification.warnings.map((warning) => `<li>${escapeHtml(warning)}</li>`).join("");
+      return `<section class="badge ${verification.verified ? "ok" : "fail"}">${icon(data.branding.icon, 32)}<div><strong>${escapeHtml(
+        label
+      )}</strong><small>${details.join(" · ")}</small>${warnings ? `<ul>${warnings}</ul>` : ""}</div></section>`;
+    }
+
+    case "DOCUMENT_LIST": {
+      const items = block.contentIds
+        .map((id) => data.documents.get(id))
+        .filter((doc): doc is PageDocument => doc !== undefined)
+        .map((doc) => {
+          const href = safeHref(doc.href);
+          return href
+            ? `<li><a href="${href}" rel="noopener">${escapeHtml(doc.title)}</a><small>${escapeHtml(
+                doc.contentType.replace(/_/g, " ").toLowerCase()
+              )}${formatSize(doc.fileSize)}</small></li>`
+            : "";
+        })
+        .join("");
+      if (!items) return "";
+      return `<section class="card">${block.title ? `<h2>${escapeHtml(block.title)}</h2>` : ""}<ul class="docs">${items}</ul></section>`;
+    }
+
+    case "FEEDBACK_FORM": {
+      const disabled = data.feedbackAction === null;
+      const rating = block.askRating
+        ? `<fieldset class="rating"><legend>Rating</legend>${[1, 2, 3, 4, 5]
+            .map((value) => `<label><input type="radio" name="rating" value="${value}">${value}</label>`)
+            .join("")}</fieldset>`
+        : "";
+      const email = block.askEmail
+        ? `<label>Email (optional)<input type="email" name="email" maxlength="254"></label>`
+        : "";
+      return `<section class="card"><h2>${escapeHtml(block.title ?? "Your feedback")}</h2>${
+        block.prompt ? `<p>${escapeHtml(block.prompt)}</p>` : ""
+      }<form method="post" action="${escapeHtml(data.feedbackAction ?? "#")}"><fieldset${disabled ? " disabled" : ""}><input type="hidden" name="contentId" value="${
+        data.contentId
+      }">${rating}<label>Comment<textarea name="comment" maxlength="2000" rows="3"></textarea></label>${email}<button type="submit">Send</button></fieldset></form></section>`;
+    }
+
+    case "PROVENANCE": {
+      const steps = (data.provenance ?? []).filter((step) => step.bizStep !== null).slice(-block.limit);
+      if (steps.length === 0) {
+        return data.preview ? `<section class="card muted">No supply chain events recorded yet</section>` : "";
+      }
+      const items = steps
+        .map((step) => {
+          const details = [
+            step.eventTime.toISOString().slice(0, 10),
+            step.disposition ? cbvLabel(step.disposition) : null,
+            block.showLocations ? step.location : null,
+          ].filter((detail): detail is string => !!detail);
+          return `<li><strong>${escapeHtml(cbvLabel(step.bizStep!))}</strong><small>${escapeHtml(details.join(" · "))}</small></li>`;
+        })
+        .join("");
+      return `<section class="card"><h2>${escapeHtml(block.title ?? "Product journey")}</h2><ol class="trail">${items}</ol></section>`;
+    }
+  }
+}
+
+/**
+ * Render a landing page to a complete HTML document
+ */
+export function renderLandingPage(page: LandingPage, data: LandingPageRenderData): string {
+  const primary = safeColor(data.branding.primaryColor, DEFAULT_BRANDING.primaryColor);
+  const accent = safeColor(data.branding.accentColor, DEFAULT_BRANDING.accentColor);
+  const blocks = page.blocks.map((block) => renderBlock(block, data)).join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(page.title)}</title>
+<style>
+:root{--primary:${primary};--accent:${accent}}
+*{box-sizing:border-box}
+body{margin:0;font-family:system-ui,-apple-system,"Segoe UI",Roboto,sans-serif;color:#111827;background:#f9fafb;line-height:1.5}
+header{display:flex;align-items:center;gap:.5rem;padding:.75rem 1rem;color:#fff;background:linear-gradient(90deg,var(--primary),var(--accent))}
+main{max-width:40rem;margin:0 auto;padding:1rem;display:grid;gap:1rem}
+.preview{padding:.5rem 1rem;background:#fef3c7;color:#92400e;text-align:center;font-size:.875rem}
+.notice{padding:.75rem 1rem;border-radius:.5rem;background:#ecfdf5;color:#065f46}
+.hero{text-align:center}.hero img{max-width:100%;border-radius:.75rem}.hero h1{margin:.5rem 0 0}.hero p{color:#4b5563}
+.card{background:#fff;border:1px solid #e5e7eb;border-radius:.75rem;padding:1rem}.card h2{margin:0 0 .75rem;font-size:1.125rem}
+.muted{color:#6b7280;text-align:center}
+dl{display:grid;grid-template-columns:auto 1fr;gap:.25rem 1rem;margin:0}dt{color:#6b7280}dd{margin:0;font-weight:500}
+.badge{display:flex;gap:.75rem;align-items:flex-start;padding:1rem;border-radius:.75rem;color:#fff}
+.badge.ok{background:var(--primary)}.badge.fail{background:#dc2626}
+.badge strong{display:block;font-size:1.125rem}.badge small{display:block;opacity:.9}.badge ul{margin:.5rem 0 0;padding-left:1.25rem}
+.docs{list-style:none;margin:0;padding:0}.docs li{padding:.5rem 0;border-top:1px solid #f3f4f6}.docs li:first-child{border-top:0}
+.docs a{color:var(--primary);font-weight:500}.docs small{display:block;color:#6b7280}
+.trail{list-style:none;margin:0;padding:0 0 0 1rem;border-left:2px solid var(--primary)}.trail li{padding:0 0 .75rem .75rem}.trail small{display:block;color:#6b7280;overflow-wrap:anywhere}
+form fieldset{border:0;margin:0;padding:0;display:grid;gap:.75rem}
+.rating{display:flex;gap:.75rem}.rating legend{margin-bottom:.25rem}
+label{display:grid;gap:.25rem;font-size:.875rem}
+textarea,input[type=email]{font:inherit;padding:.5rem;border:1px solid #d1d5db;border-radius:.375rem}
+button{font:inherit;padding:.5rem 1rem;border:0;border-radius:.375rem;color:#fff;background:var(--primary);cursor:pointer}
+button:disabled,fieldset:disabled button{opacity:.5;cursor:default}
+</style>
+</head>
+<body>
+${data.preview ? `<div class="preview">Preview: verification and product data are samples</div>` : ""}
+<header>${icon(data.branding.icon)}<strong>${escapeHtml(data.branding.brandName)}</strong></header>
+<main>
+${data.notice ? `<div class="notice">${escapeHtml(data.notice)}</div>` : ""}
+${blocks}
+</main>
+</body>
+</html>`;
+}
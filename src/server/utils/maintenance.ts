@@ -0,0 +1,95 @@
+/**
+ * Maintenance Scheduling
+ * ----------------------
+ * Pure helpers for equipment maintenance:
+ *  - when a schedule falls due next: a date for INTERVAL schedules, a meter
+ *    reading for USAGE schedules
+ *  - whether a schedule is overdue
+ *  - work order checklists and what still blocks completion
+ *  - which photos are accepted as evidence
+ */
+
+import type { ChecklistItem, MaintenanceTrigger } from "@optropic/shared";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Photo evidence types; SVG is excluded (it can carry script) */
+export const EVIDENCE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"];
+export const EVIDENCE_MAX_BYTES = 15 * 1024 * 1024;
+
+export interface ScheduleTrigger {
+  triggerType: MaintenanceTrigger;
+  intervalDays: number | null;
+  usageInterval: number | null;
+}
+
+export interface ScheduleDue {
+  nextDueAt: Date | null;
+  nextDueUsage: number | null;
+}
+
+export type WorkOrderChecklistItem = ChecklistItem & {
+  done: boolean;
+  note: string | null;
+};
+
+/**
+ * When a schedule falls due after being serviced (or created) at
+ * `performedAt` with the meter at `performedUsage`
+ */
+export function nextDue(schedule: ScheduleTrigger, performedAt: Date, performedUsage: number): ScheduleDue {
+  if (schedule.triggerType === "INTERVAL") {
+    if (!schedule.intervalDays) throw new Error("Interval schedules need intervalDays");
+    return { nextDueAt: new Date(performedAt.getTime() + schedule.intervalDays * DAY_MS), nextDueUsage: null };
+  }
+
+  if (!schedule.usageInterval) throw new Error("Usage schedules need usageInterval");
+  return { nextDueAt: null, nextDueUsage: performedUsage + schedule.usageInterval };
+}
+
+/**
+ * A schedule is overdue once its due date passed or its meter reached the
+ * due reading
+ */
+export function isOverdue(
+  schedule: ScheduleDue & { triggerType: MaintenanceTrigger; currentUsage: number },
+  now: Date
+): boolean {
+  if (schedule.triggerType === "INTERVAL") {
+    return schedule.nextDueAt !== null && schedule.nextDueAt.getTime() <= now.getTime();
+  }
+  return schedule.nextDueUsage !== null && schedule.currentUsage >= schedule.nextDueUsage;
+}
+
+/**
+ * A work order's copy of a schedule checklist, nothing done yet
+ */
+export function toWorkOrderChecklist(items: ChecklistItem[]): WorkOrderChecklistItem[] {
+  return items.map((item) => ({ ...item, done: false, note: null }));
+}
+
+/**
+ * What keeps a work order from completing: open items and items still
+ * missing their photo
+ */
+export function completionProblems(items: WorkOrderChecklistItem[], photographedKeys: Set<string>): string[] {
+  const problems: string[] = [];
+  for (const item of items) {
+    if (!item.done) problems.push(`"${item.label}" is not done`);
+    if (item.requiresPhoto && !photographedKeys.has(item.key)) problems.push(`"${item.label}" needs a photo`);
+  }
+  return problems;
+}
+
+/**
+ * Reject anything but a reasonably sized photo
+ */
+export function validateEvidence(mimeType: string, fileSize: number): void {
+  const baseType = mimeType.split(";")[0]!.trim().toLowerCase();
+  if (!EVIDENCE_MIME_TYPES.includes(baseType)) {
+    throw new Error(`Evidence must be one of: ${EVIDENCE_MIME_TYPES.join(", ")}`);
+  }
+  if (fileSize > EVIDENCE_MAX_BYTES) {
+    throw new Error(`Evidence photos are limited to ${EVIDENCE_MAX_BYTES / 1024 / 1024} MB`);
+  }
+}
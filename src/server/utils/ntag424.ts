@@ -0,0 +1,186 @@
+/**
+ * NTAG 424 DNA Secure Unique NFC (SUN) Messages
+ * ---------------------------------------------
+ * Server-side verification of the SUN/SDM data a tag mirrors into its URL on
+ * every tap (NXP AN12196):
+ *  - PICCData: AES-128-CBC (zero IV) under the SDM meta read key,
+ *    0xC7 ‖ UID (7 bytes) ‖ SDMReadCtr (3 bytes, LSB first) ‖ random padding
+ *  - SDMMAC: AES-CMAC over the mirrored data under a session key derived
+ *    from the SDM file read key, UID and counter, truncated to the odd bytes
+ *
+ * The counter increments on every read, so a response can be accepted once.
+ * Tag keys are diversified from a pairing key's AES master (CMAC-based, in
+ * the style of NXP AN10922): the meta read key is shared by the pairing key,
+ * the file read key is unique per tag UID.
+ */
+
+import crypto from "crypto";
+
+export const PAIRING_KEY_ALGORITHM = "aes-128-cmac";
+export const TAG_UID_LENGTH = 7;
+export const PICC_DATA_TAG = 0xc7;
+
+const BLOCK = 16;
+const ZERO_BLOCK = Buffer.alloc(BLOCK);
+const SV2_PREFIX = Buffer.from([0x3c, 0xc3, 0x00, 0x01, 0x00, 0x80]);
+const MAX_COUNTER = 0xffffff;
+
+export interface TagKeys {
+  /** Decrypts PICCData */
+  metaReadKey: Buffer;
+  /** Derives the per-read MAC session key */
+  fileReadKey: Buffer;
+}
+
+export interface SunMessage {
+  /** Encrypted PICCData, 32 hex characters */
+  piccData: string;
+  /** Truncated SDMMAC, 16 hex characters */
+  cmac: string;
+}
+
+export interface SunReading {
+  /** Upper-case hex */
+  uid: string;
+  counter: number;
+}
+
+function aesEcb(key: Buffer, block: Buffer): Buffer {
+  const cipher = crypto.createCipheriv("aes-128-ecb", key, null).setAutoPadding(false);
+  return Buffer.concat([cipher.update(block), cipher.final()]);
+}
+
+function xor(a: Buffer, b: Buffer): Buffer {
+  const out = Buffer.alloc(a.length);
+  for (let i = 0; i < a.length; i++) out[i] = a[i]! ^ b[i]!;
+  return out;
+}
+
+function shiftLeft(block: Buffer): Buffer {
+  const out = Buffer.alloc(BLOCK);
+  for (let i = 0; i < BLOCK; i++) {
+    out[i] = ((block[i]! << 1) | (i + 1 < BLOCK ? block[i + 1]! >> 7 : 0)) & 0xff;
+  }
+  return out;
+}
+
+function subkey(block: Buffer): Buffer {
+  const shifted = shiftLeft(block);
+  if (block[0]! & 0x80) shifted[BLOCK - 1]! ^= 0x87;
+  return shifted;
+}
+
+/**
+ * AES-128-CMAC (RFC 4493)
+ */
+export function aesCmac(key: Buffer, message: Buffer): Buffer {
+  const k1 = subkey(aesEcb(key, ZERO_BLOCK));
+  const k2 = subkey(k1);
+
+  const blocks = Math.max(1, Math.ceil(message.length / BLOCK));
+  const complete = message.length > 0 && message.length % BLOCK === 0;
+
+  let last: Buffer = Buffer.alloc(BLOCK);
+  message.copy(last, 0, (blocks - 1) * BLOCK);
+  if (complete) {
+    last = xor(last, k1);
+  } else {
+    last[message.length - (blocks - 1) * BLOCK] = 0x80;
+    last = xor(last, k2);
+  }
+
+  let state: Buffer = ZERO_BLOCK;
+  for (let i = 0; i < blocks - 1; i++) {
+    state = aesEcb(key, xor(state, message.subarray(i * BLOCK, (i + 1) * BLOCK)));
+  }
+  return aesEcb(key, xor(state, last));
+}
+
+/**
+ * Derive the SUN keys for a tag from a pairing key's AES master
+ */
+export function deriveTagKeys(master: Buffer, uid: string): TagKeys {
+  const uidBytes = parseUid(uid);
+  return {
+    metaReadKey: aesCmac(master, Buffer.concat([Buffer.from([0x01, 0x01]), Buffer.from("optropic-sdm")])),
+    fileReadKey: aesCmac(master, Buffer.concat([Buffer.from([0x01, 0x02]), uidBytes, Buffer.from("optropic-sdm")])),
+  };
+}
+
+/**
+ * Normalise a tag UID (hex, optional ":" separators) to 7 bytes
+ */
+export function parseUid(uid: string): Buffer {
+  const hex = uid.replace(/:/g, "");
+  if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== TAG_UID_LENGTH * 2) {
+    throw new Error(`Tag UID must be ${TAG_UID_LENGTH} bytes of hex`);
+  }
+  return Buffer.from(hex, "hex");
+}
+
+function counterBytes(counter: number): Buffer {
+  const bytes = Buffer.alloc(3);
+  bytes.writeUIntLE(counter, 0, 3);
+  return bytes;
+}
+
+/**
+ * SDMMAC over an empty mirrored input, truncated to the odd-indexed bytes
+ */
+export function computeSunMac(fileReadKey: Buffer, uid: Buffer, counter: number): Buffer {
+  const sessionKey = aesCmac(fileReadKey, Buffer.concat([SV2_PREFIX, uid, counterBytes(counter)]));
+  const mac = aesCmac(sessionKey, Buffer.alloc(0));
+  return Buffer.from(mac.filter((_, index) => index % 2 === 1));
+}
+
+/**
+ * Decrypt PICCData, returning null when it is malformed or not
+ * encrypted under the given key
+ */
+export function decryptPiccData(metaReadKey: Buffer, piccData: string): SunReading | null {
+  if (!/^[0-9a-fA-F]{32}$/.test(piccData)) return null;
+
+  const decipher = crypto.createDecipheriv("aes-128-cbc", metaReadKey, ZERO_BLOCK).setAutoPadding(false);
+  const plain = Buffer.concat([decipher.update(Buffer.from(piccData, "hex")), decipher.final()]);
+  if (plain[0] !== PICC_DATA_TAG) return null;
+
+  return {
+    uid: plain.subarray(1, 1 + TAG_UID_LENGTH).toString("hex").toUpperCase(),
+    counter: plain.readUIntLE(1 + TAG_UID_LENGTH, 3),
+  };
+}
+
+/**
+ * Verify a SUN message and return the tag UID and read counter it carries
+ */
+export function verifySunMessage(keys: TagKeys, message: SunMessage): SunReading | null {
+  const reading = decryptPiccData(keys.metaReadKey, message.piccData);
+  if (!reading || !/^[0-9a-fA-F]{16}$/.test(message.cmac)) return null;
+
+  const expected = computeSunMac(keys.fileReadKey, Buffer.from(reading.uid, "hex"), reading.counter);
+  return crypto.timingSafeEqual(expected, Buffer.from(message.cmac, "hex")) ? reading : null;
+}
+
+/**
+ * Produce the SUN message a tag would mirror for a read (tag-side
+ * emulation for tests and the scan simulator)
+ */
+export function emulateSunMessage(keys: TagKeys, uid: string, counter: number): SunMessage {
+  if (!Number.isInteger(counter) || counter < 0 || counter > MAX_COUNTER) {
+    throw new Error("SDM read counter must fit 3 bytes");
+  }
+
+  const uidBytes = parseUid(uid);
+  const plain = Buffer.concat([
+    Buffer.from([PICC_DATA_TAG]),
+    uidBytes,
+    counterBytes(counter),
+    crypto.randomBytes(BLOCK - 1 - TAG_UID_LENGTH - 3),
+  ]);
+  const cipher = crypto.createCipheriv("aes-128-cbc", keys.metaReadKey, ZERO_BLOCK).setAutoPadding(false);
+
+  return {
+    piccData: Buffer.concat([cipher.update(plain), cipher.final()]).toString("hex").toUpperCase(),
+    cmac: computeSunMac(keys.fileReadKey, uidBytes, counter).toString("hex").toUpperCase(),
+  };
+}
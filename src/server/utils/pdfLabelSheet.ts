@@ -0,0 +1,257 @@
+/**
+ * PDF Label Sheet Writer
+ * ----------------------
+ * Dependency-free PDF 1.4 writer for printable QR label sheets.
+ *  - Configurable page size, grid, margins and gaps (millimetres)
+ *  - QR symbols drawn as vector rectangles (crisp at any print resolution)
+ *  - Optional human-readable caption under each symbol (Helvetica)
+ *  - Pages are streamed one at a time so large print runs stay out of memory
+ */
+
+import zlib from "zlib";
+import { encodeQR, type QRErrorCorrectionLevel } from "./qrEncoder";
+
+export interface LabelSheetLayout {
+  /** Page width in mm (default A4: 210) */
+  pageWidth: number;
+  /** Page height in mm (default A4: 297) */
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  marginTop: number;
+  marginLeft: number;
+  /** Horizontal gap between labels in mm */
+  gapX: number;
+  /** Vertical gap between labels in mm */
+  gapY: number;
+  /** Label size in mm; derived from the grid when omitted */
+  labelWidth?: number;
+  labelHeight?: number;
+  /** Quiet zone around each symbol in modules */
+  quietZone: number;
+  /** Caption font size in points (0 disables captions) */
+  fontSize: number;
+  errorCorrection: QRErrorCorrectionLevel;
+}
+
+export interface LabelSheetItem {
+  /** Data encoded in the QR symbol */
+  data: string;
+  /** Human-readable text printed under the symbol */
+  caption?: string;
+}
+
+export const DEFAULT_LABEL_LAYOUT: LabelSheetLayout = {
+  pageWidth: 210,
+  pageHeight: 297,
+  columns: 4,
+  rows: 6,
+  marginTop: 10,
+  marginLeft: 10,
+  gapX: 4,
+  gapY: 4,
+  quietZone: 2,
+  fontSize: 6,
+  errorCorrection: "M",
+};
+
+const PT_PER_MM = 72 / 25.4;
+const OBJ_CATALOG = 1;
+const OBJ_PAGES = 2;
+const OBJ_FONT = 3;
+const FIRST_PAGE_OBJ = 4;
+
+function fmt(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function escapePdfText(text: string): string {
+  // Helvetica with the standard encoding only covers Latin-1
+  return text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+/**
+ * Resolve the label grid in points, validating that it fits on the page
+ */
+export function resolveLabelLayout(overrides: Partial<LabelSheetLayout> = {}) {
+  const layout = { ...DEFAULT_LABEL_LAYOUT, ...overrides };
+
+  if (layout.columns < 1 || layout.rows < 1) {
+    throw new Error("Label sheet needs at least one column and one row");
+  }
+
+  const labelWidth =
+    layout.labelWidth ??
+    (layout.pageWidth - layout.marginLeft * 2 - layout.gapX * (layout.columns - 1)) /
+      layout.columns;
+  const labelHeight =
+    layout.labelHeight ??
+    (layout.pageHeight - layout.marginTop * 2 - layout.gapY * (layout.rows - 1)) / layout.rows;
+
+  const usedWidth = layout.marginLeft + layout.columns * labelWidth + (layout.columns - 1) * layout.gapX;
+  const usedHeight = layout.marginTop + layout.rows * labelHeight + (layout.rows - 1) * layout.gapY;
+
+  if (labelWidth <= 0 || labelHeight <= 0 || usedWidth > layout.pageWidth || usedHeight > layout.pageHeight) {
+    throw new Error("Label grid does not fit on the page");
+  }
+
+  return {
+    ...layout,
+    labelWidth,
+    labelHeight,
+    perPage: layout.columns * layout.rows,
+    pt: {
+      pageWidth: layout.pageWidth * PT_PER_MM,
+      pageHeight: layout.pageHeight * PT_PER_MM,
+      marginTop: layout.marginTop * PT_PER_MM,
+      marginLeft: layout.marginLeft * PT_PER_MM,
+      gapX: layout.gapX * PT_PER_MM,
+      gapY: layout.gapY * PT_PER_MM,
+      labelWidth: labelWidth * PT_PER_MM,
+      labelHeight: labelHeight * PT_PER_MM,
+    },
+  };
+}
+
+type ResolvedLayout = ReturnType<typeof resolveLabelLayout>;
+
+function drawLabel(item: LabelSheetItem, slot: number, layout: ResolvedLayout): string {
+  const { pt } = layout;
+  const column = slot % layout.columns;
+  const row = Math.floor(slot / layout.columns);
+
+  const left = pt.marginLeft + column * (pt.labelWidth + pt.gapX);
+  const top = pt.pageHeight - pt.marginTop - row * (pt.labelHeight + pt.gapY);
+
+  const captionHeight = item.caption && layout.fontSize > 0 ? layout.fontSize * 1.6 : 0;
+  const symbolSide = Math.min(pt.labelWidth, pt.labelHeight - captionHeight);
+
+  const matrix = encodeQR(item.data, { errorCorrection: layout.errorCorrection });
+  const moduleSize = symbolSide / (matrix.size + layout.quietZone * 2);
+  const originX = left + (pt.labelWidth - symbolSide) / 2 + layout.quietZone * moduleSize;
+  const originY = top - layout.quietZone * moduleSize;
+
+  const ops: string[] = [];
+
+  // Merge horizontal runs of dark modules into single rectangles
+  for (let y = 0; y < matrix.size; y++) {
+    let x = 0;
+    while (x < matrix.size) {
+      if (!matrix.modules[y]![x]) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < matrix.size && matrix.modules[y]![x]) x++;
+      ops.push(
+        `${fmt(originX + start * moduleSize)} ${fmt(originY - (y + 1) * moduleSize)} ${fmt((x - start) * moduleSize)} ${fmt(moduleSize)} re`
+      );
+    }
+  }
+  ops.push("f");
+
+  if (captionHeight > 0) {
+    // Helvetica averages ~0.55em per glyph; truncate rather than overflow the label
+    const maxChars = Math.max(1, Math.floor(pt.labelWidth / (layout.fontSize * 0.55)));
+    const caption =
+      item.caption!.length > maxChars ? item.caption!.slice(0, maxChars - 1) + "~" : item.caption!;
+    const textWidth = caption.length * layout.fontSize * 0.55;
+    const textX = left + Math.max(0, (pt.labelWidth - textWidth) / 2);
+    const textY = top - symbolSide - layout.fontSize * 1.1;
+    ops.push(
+      `BT /F1 ${fmt(layout.fontSize)} Tf ${fmt(textX)} ${fmt(textY)} Td (${escapePdfText(caption)}) Tj ET`
+    );
+  }
+
+  return ops.join("\n");
+}
+
+/**
+ * Render items onto label sheets, yielding the PDF in chunks
+ */
+export async function* renderLabelSheetPDF(
+  items: AsyncIterable<LabelSheetItem> | Iterable<LabelSheetItem>,
+  overrides: Partial<LabelSheetLayout> = {}
+): AsyncGenerator<Buffer> {
+  const layout = resolveLabelLayout(overrides);
+  const offsets: number[] = [];
+  const pageObjects: number[] = [];
+  let position = 0;
+  let nextObject = FIRST_PAGE_OBJ;
+
+  const emit = (data: string | Buffer): Buffer => {
+    const buffer = typeof data === "string" ? Buffer.from(data, "latin1") : data;
+    position += buffer.length;
+    return buffer;
+  };
+
+  const object = (id: number, body: string | Buffer): Buffer => {
+    offsets[id] = position;
+    const head = Buffer.from(`${id} 0 obj\n`, "latin1");
+    const tail = Buffer.from("\nendobj\n", "latin1");
+    const content = typeof body === "string" ? Buffer.from(body, "latin1") : body;
+    return emit(Buffer.concat([head, content, tail]));
+  };
+
+  yield emit("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+  yield object(OBJ_CATALOG, `<< /Type /Catalog /Pages ${OBJ_PAGES} 0 R >>`);
+  yield object(
+    OBJ_FONT,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  );
+
+  const writePage = (labels: string[]): Buffer => {
+    const contentId = nextObject++;
+    const pageId = nextObject++;
+    const stream = zlib.deflateSync(Buffer.from(labels.join("\n"), "latin1"));
+
+    const chunks = [
+      object(
+        contentId,
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          stream,
+          Buffer.from("\nendstream", "latin1"),
+        ])
+      ),
+      object(
+        pageId,
+        `<< /Type /Page /Parent ${OBJ_PAGES} 0 R /MediaBox [0 0 ${fmt(layout.pt.pageWidth)} ${fmt(layout.pt.pageHeight)}] ` +
+          `/Resources << /Font << /F1 ${OBJ_FONT} 0 R >> >> /Contents ${contentId} 0 R >>`
+      ),
+    ];
+    pageObjects.push(pageId);
+    return Buffer.concat(chunks);
+  };
+
+  let labels: string[] = [];
+  for await (const item of items) {
+    labels.push(drawLabel(item, labels.length, layout));
+    if (labels.length === layout.perPage) {
+      yield writePage(labels);
+      labels = [];
+    }
+  }
+  if (labels.length > 0 || pageObjects.length === 0) {
+    yield writePage(labels);
+  }
+
+  yield object(
+    OBJ_PAGES,
+    `<< /Type /Pages /Kids [${pageObjects.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageObjects.length} >>`
+  );
+
+  const xrefOffset = position;
+  const xref = [`xref\n0 ${nextObject}\n`, "0000000000 65535 f \n"];
+  for (let id = 1; id < nextObject; id++) {
+    xref.push(`${String(offsets[id] ?? 0).padStart(10, "0")} 00000 n \n`);
+  }
+  yield emit(
+    xref.join("") +
+      `trailer\n<< /Size ${nextObject} /Root ${OBJ_CATALOG} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Permission Resolution
+ * ---------------------
+ * Pure helpers for the permission model:
+ *  - an archetype's default permissions
+ *  - effective permissions after the tenant's overrides on its
+ *    TenantRoleMapping; ADMIN is fixed, tenant owners hold every tenant
+ *    permission, and overrides never grant platform-wide permissions
+ *  - overrides that turn the defaults into a wanted permission set
+ */
+
+import {
+  DEFAULT_ARCHETYPE_PERMISSIONS,
+  GLOBAL_PERMISSIONS,
+  PERMISSIONS,
+  PermissionSchema,
+  type ArchetypeCode,
+  type Permission,
+} from "@optropic/shared";
+
+/**
+ * A tenant's override of an archetype, as stored on TenantRoleMapping
+ */
+export interface RoleOverride {
+  isEnabled: boolean;
+  grantedPermissions: string[];
+  revokedPermissions: string[];
+}
+
+export interface RoleOverrides {
+  grantedPermissions: Permission[];
+  revokedPermissions: Permission[];
+}
+
+const globalPermissions: readonly Permission[] = GLOBAL_PERMISSIONS;
+
+/** Everything a tenant can hand out */
+export const TENANT_PERMISSIONS: Permission[] = PERMISSIONS.filter(
+  (permission) => !globalPermissions.includes(permission)
+);
+
+function isArchetypeCode(code: string | null): code is ArchetypeCode {
+  return code !== null && code in DEFAULT_ARCHETYPE_PERMISSIONS;
+}
+
+/**
+ * Known permissions among stored strings; unknown ones are dropped
+ */
+function known(permissions: string[]): Permission[] {
+  return permissions.flatMap((permission) => {
+    const parsed = PermissionSchema.safeParse(permission);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+export function defaultPermissions(archetype: string | null): Permission[] {
+  return isArchetypeCode(archetype) ? [...DEFAULT_ARCHETYPE_PERMISSIONS[archetype]] : [];
+}
+
+/**
+ * What a user with the archetype may do in a tenant. A disabled mapping
+ * takes the archetype's permissions away.
+ */
+export function resolvePermissions(
+  archetype: string | null,
+  override: RoleOverride | null,
+  isTenantOwner = false
+): Set<Permission> {
+  if (archetype === "ADMIN") {
+    return new Set(PERMISSIONS);
+  }
+
+  const permissions = new Set<Permission>();
+  if (!override || override.isEnabled) {
+    const revoked = known(override?.revokedPermissions ?? []);
+    const granted = known(override?.grantedPermissions ?? []).filter(
+      (permission) => !globalPermissions.includes(permission)
+    );
+
+    for (const permission of [...defaultPermissions(archetype), ...granted]) {
+      if (!revoked.includes(permission)) permissions.add(permission);
+    }
+  }
+
+  if (isTenantOwner) {
+    TENANT_PERMISSIONS.forEach((permission) => permissions.add(permission));
+  }
+
+  return permissions;
+}
+
+/**
+ * Grants and revocations that give the archetype exactly `wanted`
+ */
+export function overridesFor(archetype: string, wanted: Permission[]): RoleOverrides {
+  const defaults = defaultPermissions(archetype);
+  const target = wanted.filter((permission) => !globalPermissions.includes(permission));
+
+  return {
+    grantedPermissions: TENANT_PERMISSIONS.filter(
+      (permission) => target.includes(permission) && !defaults.includes(permission)
+    ),
+    revokedPermissions: defaults.filter((permission) => !target.includes(permission)),
+  };
+}
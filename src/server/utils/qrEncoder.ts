@@ -0,0 +1,703 @@
+/**
+ * QR Code Encoder (ISO/IEC 18004)
+ * -------------------------------
+ * Dependency-free QR Code model 2 encoder used for printable Optropic codes.
+ *  - Numeric / alphanumeric / byte mode detection
+ *  - Selectable error-correction level (L, M, Q, H)
+ *  - Automatic version selection (1–40)
+ *  - Mask evaluation using the standard penalty rules
+ *  - Output as raw module matrix, SVG or PNG (with quiet zone)
+ */
+
+import zlib from "zlib";
+import { crc32 } from "./crc32";
+
+export type QRErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+export type QRMode = "NUMERIC" | "ALPHANUMERIC" | "BYTE";
+
+export interface QREncodeOptions {
+  errorCorrection?: QRErrorCorrectionLevel;
+  minVersion?: number;
+  maxVersion?: number;
+  /** Force a mask pattern (0–7) instead of picking the lowest penalty */
+  mask?: number;
+}
+
+export interface QRCodeMatrix {
+  version: number;
+  size: number;
+  errorCorrection: QRErrorCorrectionLevel;
+  mode: QRMode;
+  mask: number;
+  /** modules[y][x] – true means a dark module */
+  modules: boolean[][];
+}
+
+export interface QRRenderOptions {
+  /** Quiet zone width in modules (spec minimum is 4) */
+  quietZone?: number;
+  darkColor?: string;
+  lightColor?: string;
+}
+
+export interface QRSVGOptions extends QRRenderOptions {
+  /** Rendered width/height of the SVG in pixels */
+  size?: number;
+}
+
+export interface QRPNGOptions {
+  quietZone?: number;
+  /** Pixels per module */
+  scale?: number;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+const DEFAULT_QUIET_ZONE = 4;
+
+const ECL_ORDINAL: Record<QRErrorCorrectionLevel, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MODE_INDICATOR: Record<QRMode, number> = {
+  NUMERIC: 0x1,
+  ALPHANUMERIC: 0x2,
+  BYTE: 0x4,
+};
+
+const CHAR_COUNT_BITS: Record<QRMode, [number, number, number]> = {
+  NUMERIC: [10, 12, 14],
+  ALPHANUMERIC: [9, 11, 13],
+  BYTE: [8, 16, 16],
+};
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+// Indexed by [ecl ordinal][version]; index 0 is padding
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const FINDER_LIKE_PATTERNS = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+// ---- Bit buffer ------------------------------------------------------------
+
+class BitBuffer {
+  readonly bits: number[] = [];
+
+  append(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bits.push((value >>> i) & 1);
+    }
+  }
+
+  get length(): number {
+    return this.bits.length;
+  }
+}
+
+// ---- Segment encoding ------------------------------------------------------
+
+/**
+ * Pick the most compact single mode that can represent the whole input
+ */
+export function detectMode(data: string): QRMode {
+  if (/^[0-9]*$/.test(data)) return "NUMERIC";
+  if ([...data].every((ch) => ALPHANUMERIC_CHARSET.includes(ch))) {
+    return "ALPHANUMERIC";
+  }
+  return "BYTE";
+}
+
+function charCountBits(mode: QRMode, version: number): number {
+  const bits = CHAR_COUNT_BITS[mode];
+  if (version <= 9) return bits[0];
+  if (version <= 26) return bits[1];
+  return bits[2];
+}
+
+function encodeSegmentData(data: string, mode: QRMode): { bits: BitBuffer; count: number } {
+  const bits = new BitBuffer();
+
+  switch (mode) {
+    case "NUMERIC": {
+      for (let i = 0; i < data.length; i += 3) {
+        const chunk = data.substring(i, i + 3);
+        bits.append(parseInt(chunk, 10), chunk.length * 3 + 1);
+      }
+      return { bits, count: data.length };
+    }
+
+    case "ALPHANUMERIC": {
+      let i = 0;
+      for (; i + 2 <= data.length; i += 2) {
+        const value =
+          ALPHANUMERIC_CHARSET.indexOf(data.charAt(i)) * 45 +
+          ALPHANUMERIC_CHARSET.indexOf(data.charAt(i + 1));
+        bits.append(value, 11);
+      }
+      if (i < data.length) {
+        bits.append(ALPHANUMERIC_CHARSET.indexOf(data.charAt(i)), 6);
+      }
+      return { bits, count: data.length };
+    }
+
+    case "BYTE": {
+      const bytes = Buffer.from(data, "utf8");
+      for (const byte of bytes) {
+        bits.append(byte, 8);
+      }
+      return { bits, count: bytes.length };
+    }
+  }
+}
+
+// ---- Capacity helpers ------------------------------------------------------
+
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getNumDataCodewords(version: number, ecl: QRErrorCorrectionLevel): number {
+  const ordinal = ECL_ORDINAL[ecl];
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ordinal]![version]! *
+      NUM_ERROR_CORRECTION_BLOCKS[ordinal]![version]!
+  );
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// ---- Reed–Solomon over GF(2^8) ---------------------------------------------
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root);
+      if (j + 1 < result.length) {
+        result[j] = result[j]! ^ result[j + 1]!;
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] = result[i]! ^ gfMultiply(coef, factor);
+    });
+  }
+  return result;
+}
+
+function addEccAndInterleave(
+  data: number[],
+  version: number,
+  ecl: QRErrorCorrectionLevel
+): number[] {
+  const ordinal = ECL_ORDINAL[ecl];
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ordinal]![version]!;
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ordinal]![version]!;
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const blockData = data.slice(
+      k,
+      k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+    );
+    k += blockData.length;
+    const ecc = reedSolomonRemainder(blockData, divisor);
+    if (i < numShortBlocks) blockData.push(0);
+    blocks.push(blockData.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte inserted into short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+}
+
+// ---- Matrix construction ---------------------------------------------------
+
+class QRMatrixBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(
+    private readonly version: number,
+    private readonly ecl: QRErrorCorrectionLevel
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+    this.isFunction = Array.from({ length: this.size }, () =>
+      new Array<boolean>(this.size).fill(false)
+    );
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0);
+      this.setFunctionModule(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+
+    const alignPositions = getAlignmentPatternPositions(this.version);
+    const numAlign = alignPositions.length;
+    for (let i = 0; i < numAlign; i++) {
+      for (let j = 0; j < numAlign; j++) {
+        const overlapsFinder =
+          (i === 0 && j === 0) ||
+          (i === 0 && j === numAlign - 1) ||
+          (i === numAlign - 1 && j === 0);
+        if (!overlapsFinder) {
+          this.drawAlignmentPattern(alignPositions[i]!, alignPositions[j]!);
+        }
+      }
+    }
+
+    // Reserve format areas with a dummy mask; overwritten after masking
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) {
+      rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i));
+    this.setFunctionModule(8, 7, getBit(bits, 6));
+    this.setFunctionModule(8, 8, getBit(bits, 7));
+    this.setFunctionModule(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+    }
+    // Always-dark module
+    this.setFunctionModule(8, this.size - 8, true);
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y]![x] && i < codewords.length * 8) {
+            this.modules[y]![x] = getBit(codewords[i >>> 3]!, 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR the data area with a mask pattern; applying twice undoes it
+   */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y]![x] && maskApplies(mask, x, y)) {
+          this.modules[y]![x] = !this.modules[y]![x];
+        }
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    let result = 0;
+    const size = this.size;
+    const modules = this.modules;
+
+    // Rule 1: runs of five or more same-coloured modules
+    for (let y = 0; y < size; y++) {
+      result += runPenalty((x) => modules[y]![x]!, size);
+    }
+    for (let x = 0; x < size; x++) {
+      result += runPenalty((y) => modules[y]![x]!, size);
+    }
+
+    // Rule 2: 2×2 blocks of the same colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y]![x];
+        if (
+          color === modules[y]![x + 1] &&
+          color === modules[y + 1]![x] &&
+          color === modules[y + 1]![x + 1]
+        ) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    // Rule 3: finder-like 1:1:3:1:1 patterns with a light border
+    for (let y = 0; y < size; y++) {
+      result += finderLikePenalty((x) => modules[y]![x]!, size);
+    }
+    for (let x = 0; x < size; x++) {
+      result += finderLikePenalty((y) => modules[y]![x]!, size);
+    }
+
+    // Rule 4: overall dark/light balance
+    let dark = 0;
+    for (const row of modules) {
+      for (const module of row) {
+        if (module) dark++;
+      }
+    }
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    result += Math.max(0, k) * PENALTY_N4;
+
+    return result;
+  }
+
+  private setFunctionModule(x: number, y: number, isDark: boolean): void {
+    this.modules[y]![x] = isDark;
+    this.isFunction[y]![x] = true;
+  }
+
+  private drawFinderPattern(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) {
+      rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunctionModule(a, b, bit);
+      this.setFunctionModule(b, a, bit);
+    }
+  }
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    case 7: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: throw new Error(`Invalid QR mask pattern: ${mask}`);
+  }
+}
+
+function runPenalty(get: (i: number) => boolean, size: number): number {
+  let result = 0;
+  let runColor = get(0);
+  let runLength = 1;
+
+  for (let i = 1; i < size; i++) {
+    if (get(i) === runColor) {
+      runLength++;
+    } else {
+      if (runLength >= 5) result += PENALTY_N1 + (runLength - 5);
+      runColor = get(i);
+      runLength = 1;
+    }
+  }
+  if (runLength >= 5) result += PENALTY_N1 + (runLength - 5);
+
+  return result;
+}
+
+function finderLikePenalty(get: (i: number) => boolean, size: number): number {
+  let result = 0;
+  for (let i = 0; i + 11 <= size; i++) {
+    for (const pattern of FINDER_LIKE_PATTERNS) {
+      if (pattern.every((dark, k) => get(i + k) === dark)) {
+        result += PENALTY_N3;
+      }
+    }
+  }
+  return result;
+}
+
+// ---- Public API ------------------------------------------------------------
+
+/**
+ * Encode text into a QR Code module matrix
+ */
+export function encodeQR(data: string, options: QREncodeOptions = {}): QRCodeMatrix {
+  const ecl = options.errorCorrection ?? "M";
+  const minVersion = options.minVersion ?? MIN_VERSION;
+  const maxVersion = options.maxVersion ?? MAX_VERSION;
+
+  if (minVersion < MIN_VERSION || maxVersion > MAX_VERSION || minVersion > maxVersion) {
+    throw new Error(`Invalid QR version range: ${minVersion}-${maxVersion}`);
+  }
+  if (options.mask !== undefined && (options.mask < 0 || options.mask > 7)) {
+    throw new Error(`Invalid QR mask pattern: ${options.mask}`);
+  }
+
+  const mode = detectMode(data);
+  const segment = encodeSegmentData(data, mode);
+
+  let version = minVersion;
+  for (; ; version++) {
+    const capacityBits = getNumDataCodewords(version, ecl) * 8;
+    const countBits = charCountBits(mode, version);
+    const usedBits = 4 + countBits + segment.bits.length;
+
+    if (segment.count < 1 << countBits && usedBits <= capacityBits) break;
+
+    if (version >= maxVersion) {
+      throw new Error(
+        `Data too long for a QR code (${segment.count} chars, mode ${mode}, level ${ecl})`
+      );
+    }
+  }
+
+  const buffer = new BitBuffer();
+  buffer.append(MODE_INDICATOR[mode], 4);
+  buffer.append(segment.count, charCountBits(mode, version));
+  buffer.bits.push(...segment.bits.bits);
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  buffer.append(0, Math.min(4, capacityBits - buffer.length));
+  buffer.append(0, (8 - (buffer.length % 8)) % 8);
+  for (let pad = 0xec; buffer.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    buffer.append(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < buffer.length; i += 8) {
+    let byte = 0;
+    for (let j = 0; j < 8; j++) byte = (byte << 1) | buffer.bits[i + j]!;
+    dataCodewords.push(byte);
+  }
+
+  const builder = new QRMatrixBuilder(version, ecl);
+  builder.drawFunctionPatterns();
+  builder.drawCodewords(addEccAndInterleave(dataCodewords, version, ecl));
+
+  let mask = options.mask;
+  if (mask === undefined) {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      builder.applyMask(candidate);
+      builder.drawFormatBits(candidate);
+      const penalty = builder.penaltyScore();
+      if (penalty < minPenalty) {
+        mask = candidate;
+        minPenalty = penalty;
+      }
+      builder.applyMask(candidate);
+    }
+  }
+
+  builder.applyMask(mask!);
+  builder.drawFormatBits(mask!);
+
+  return {
+    version,
+    size: builder.size,
+    errorCorrection: ecl,
+    mode,
+    mask: mask!,
+    modules: builder.modules,
+  };
+}
+
+/**
+ * Render a module matrix as an SVG document
+ */
+export function renderQRCodeSVG(matrix: QRCodeMatrix, options: QRSVGOptions = {}): string {
+  const quietZone = options.quietZone ?? DEFAULT_QUIET_ZONE;
+  const darkColor = options.darkColor ?? "#000000";
+  const lightColor = options.lightColor ?? "#ffffff";
+  const dimension = matrix.size + quietZone * 2;
+  const pixelSize = options.size ?? dimension * 4;
+
+  const path: string[] = [];
+  matrix.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + quietZone},${y + quietZone}h1v1h-1z`);
+    });
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pixelSize}" height="${pixelSize}" ` +
+    `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="${dimension}" height="${dimension}" fill="${lightColor}"/>` +
+    `<path d="${path.join("")}" fill="${darkColor}"/>` +
+    `</svg>`
+  );
+}
+
+/**
+ * Render a module matrix as an 8-bit grayscale PNG
+ */
+export function renderQRCodePNG(matrix: QRCodeMatrix, options: QRPNGOptions = {}): Buffer {
+  const quietZone = options.quietZone ?? DEFAULT_QUIET_ZONE;
+  const scale = options.scale ?? 8;
+  const dimension = (matrix.size + quietZone * 2) * scale;
+
+  // One filter byte (0 = none) followed by one byte per pixel for each row
+  const raw = Buffer.alloc((dimension + 1) * dimension, 0xff);
+  for (let py = 0; py < dimension; py++) {
+    const rowOffset = py * (dimension + 1);
+    raw[rowOffset] = 0;
+    const my = Math.floor(py / scale) - quietZone;
+    for (let px = 0; px < dimension; px++) {
+      const mx = Math.floor(px / scale) - quietZone;
+      if (matrix.modules[my]?.[mx]) {
+        raw[rowOffset + 1 + px] = 0x00;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(dimension, 0);
+  header.writeUInt32BE(dimension, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // colour type: grayscale
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Encode text and return an SVG data URL
+ */
+export function toQRCodeSVGDataUrl(
+  data: string,
+  options: QREncodeOptions & QRSVGOptions = {}
+): string {
+  const svg = renderQRCodeSVG(encodeQR(data, options), options);
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+// ---- PNG helpers -----------------------------------------------------------
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
@@ -0,0 +1,192 @@
+/**
+ * Redirect Rule Evaluation
+ * ------------------------
+ * Evaluates a content item's redirect rule set (see RedirectRuleSetSchema in
+ * @optropic/shared) against a scan. Rules are checked in order and the first
+ * enabled rule whose conditions all hold fires. Every rule is traced with
+ * the conditions that failed, so dry runs can explain the outcome.
+ */
+
+import crypto from "crypto";
+import {
+  RedirectRuleSetSchema,
+  type RedirectAction,
+  type RedirectConditions,
+  type RedirectRule,
+  type RedirectRuleSet,
+  type RedirectTimeWindow,
+  type ScanDeviceType,
+} from "@optropic/shared";
+
+export interface RedirectScanContext {
+  now: Date;
+  country?: string;
+  region?: string;
+  deviceType?: ScanDeviceType;
+  /** Scans of the code including this one */
+  scanCount: number;
+  /** `role` from the verified code payload */
+  role?: string;
+  /** Lower-case language tags, most preferred first */
+  languages: string[];
+  /** 0-99 */
+  abBucket: number;
+  /** Device/IP hash input; experiments assign variants from it */
+  visitorKey: string;
+}
+
+export type RedirectCondition = keyof RedirectConditions;
+
+export interface RuleTrace {
+  ruleId: string;
+  name?: string;
+  enabled: boolean;
+  matched: boolean;
+  /** Conditions that did not hold */
+  failed: RedirectCondition[];
+}
+
+export interface RuleEvaluation {
+  rule: RedirectRule | null;
+  action: RedirectAction | null;
+  trace: RuleTrace[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Validate a stored rule set. Null/undefined means "no rules"; anything else
+ * that does not match the schema throws.
+ */
+export function parseRuleSet(value: unknown): RedirectRuleSet | null {
+  if (value === null || value === undefined) return null;
+
+  const result = RedirectRuleSetSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid redirect rules: ${issue ? `${issue.path.join(".")} ${issue.message}` : "unknown error"}`);
+  }
+  return result.data;
+}
+
+/**
+ * Stable A/B bucket (0-99) for a scanning device
+ */
+export function abBucketFor(deviceKey: string, salt = ""): number {
+  return crypto.createHash("sha256").update(`${salt}:${deviceKey}`).digest().readUInt32BE(0) % 100;
+}
+
+/**
+ * Language tags from an Accept-Language header, by descending quality
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+  if (!header) return [];
+
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [tag = "", ...params] = part.trim().split(";");
+      const q = params.map((param) => /^\s*q=([\d.]+)\s*$/.exec(param)?.[1]).find(Boolean);
+      return { tag: tag.trim().toLowerCase(), q: q === undefined ? 1 : Number(q), index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== "*" && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+/**
+ * Coarse device class from a User-Agent header
+ */
+export function detectDeviceType(userAgent: string | null | undefined): ScanDeviceType | undefined {
+  if (!userAgent) return undefined;
+  if (/ipad|tablet|playbook|silk|(android(?!.*mobile))/i.test(userAgent)) return "TABLET";
+  if (/mobi|iphone|ipod|android|windows phone/i.test(userAgent)) return "MOBILE";
+  if (/windows|macintosh|x11|linux|cros/i.test(userAgent)) return "DESKTOP";
+  return undefined;
+}
+
+function localTime(now: Date, timeZone = "UTC"): { day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  return {
+    day: WEEKDAYS.indexOf(parts.find((part) => part.type === "weekday")?.value ?? ""),
+    hour: Number(parts.find((part) => part.type === "hour")?.value),
+  };
+}
+
+function inTimeWindow(window: RedirectTimeWindow, now: Date): boolean {
+  if (window.from && now < new Date(window.from)) return false;
+  if (window.until && now >= new Date(window.until)) return false;
+  if (!window.days && !window.hours) return true;
+
+  const { day, hour } = localTime(now, window.timezone);
+  if (window.days && !window.days.includes(day)) return false;
+  if (window.hours) {
+    const { from, to } = window.hours;
+    // from > to spans midnight, e.g. 22-6
+    const inHours = from < to ? hour >= from && hour < to : hour >= from || hour < to;
+    if (!inHours) return false;
+  }
+  return true;
+}
+
+function languageMatches(wanted: string, languages: string[]): boolean {
+  return languages.some((language) => language === wanted || language.startsWith(`${wanted}-`));
+}
+
+const CONDITION_CHECKS: {
+  [K in RedirectCondition]-?: (value: NonNullable<RedirectConditions[K]>, ctx: RedirectScanContext) => boolean;
+} = {
+  country: (countries, ctx) => !!ctx.country && countries.includes(ctx.country.toUpperCase()),
+  region: (regions, ctx) =>
+    !!ctx.region && regions.some((region) => region.toLowerCase() === ctx.region!.toLowerCase()),
+  deviceType: (deviceTypes, ctx) => !!ctx.deviceType && deviceTypes.includes(ctx.deviceType),
+  time: (window, ctx) => inTimeWindow(window, ctx.now),
+  scanCount: (range, ctx) =>
+    (range.min === undefined || ctx.scanCount >= range.min) && (range.max === undefined || ctx.scanCount <= range.max),
+  role: (roles, ctx) => !!ctx.role && roles.includes(ctx.role),
+  language: (languages, ctx) => languages.some((language) => languageMatches(language, ctx.languages)),
+  abBucket: (range, ctx) => ctx.abBucket >= range.from && ctx.abBucket <= range.to,
+};
+
+/**
+ * Conditions of a rule that do not hold for a scan
+ */
+export function failedConditions(conditions: RedirectConditions, ctx: RedirectScanContext): RedirectCondition[] {
+  return (Object.keys(CONDITION_CHECKS) as RedirectCondition[]).filter((name) => {
+    const value = conditions[name];
+    if (value === undefined) return false;
+    return !(CONDITION_CHECKS[name] as (value: unknown, ctx: RedirectScanContext) => boolean)(value, ctx);
+  });
+}
+
+/**
+ * Evaluate a rule set; rules after the one that fires are traced as not
+ * matched without evaluating them
+ */
+export function evaluateRules(ruleSet: RedirectRuleSet | null, ctx: RedirectScanContext): RuleEvaluation {
+  const evaluation: RuleEvaluation = { rule: null, action: null, trace: [] };
+
+  for (const rule of ruleSet?.rules ?? []) {
+    if (evaluation.rule || !rule.enabled) {
+      evaluation.trace.push({ ruleId: rule.id, name: rule.name, enabled: rule.enabled, matched: false, failed: [] });
+      continue;
+    }
+
+    const failed = failedConditions(rule.conditions, ctx);
+    const matched = failed.length === 0;
+    evaluation.trace.push({ ruleId: rule.id, name: rule.name, enabled: true, matched, failed });
+
+    if (matched) {
+      evaluation.rule = rule;
+      evaluation.action = rule.action;
+    }
+  }
+
+  return evaluation;
+}
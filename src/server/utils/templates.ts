@@ -0,0 +1,116 @@
+/**
+ * Config Pack Templates
+ * ---------------------
+ * Pure helpers for the template catalog:
+ *  - `{{parameter}}` placeholders in a template body
+ *  - validation of parameter values against the template's definitions
+ *  - rendering a body with resolved values
+ */
+
+import { z } from "zod";
+import { TemplateProductSchema, type TemplateParameter } from "@optropic/shared";
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*\}\}$/;
+
+/**
+ * Keys of the parameters a template body refers to
+ */
+export function templatePlaceholders(value: unknown): string[] {
+  const keys = new Set<string>();
+
+  const visit = (node: unknown) => {
+    if (typeof node === "string") {
+      for (const match of node.matchAll(PLACEHOLDER)) keys.add(match[1]!);
+    } else if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === "object") {
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(value);
+
+  return [...keys];
+}
+
+/**
+ * Problems with a template's parameter definitions: duplicate keys,
+ * placeholders without a parameter and defaults of the wrong type
+ */
+export function templateProblems(parameters: TemplateParameter[], body: unknown): string[] {
+  const problems: string[] = [];
+  const keys = parameters.map((parameter) => parameter.key);
+
+  for (const key of new Set(keys.filter((key, index) => keys.indexOf(key) !== index))) {
+    problems.push(`Parameter "${key}" is defined more than once`);
+  }
+  for (const key of templatePlaceholders(body)) {
+    if (!keys.includes(key)) problems.push(`Placeholder "{{${key}}}" has no parameter`);
+  }
+  for (const parameter of parameters) {
+    if (parameter.default !== undefined && !valueSchema(parameter).safeParse(parameter.default).success) {
+      problems.push(`Default of "${parameter.key}" is not a valid ${parameter.type}`);
+    }
+  }
+
+  return problems;
+}
+
+function valueSchema(parameter: TemplateParameter): z.ZodTypeAny {
+  switch (parameter.type) {
+    case "string":
+      return parameter.required ? z.string().min(1) : z.string();
+    case "number":
+      return z.number();
+    case "boolean":
+      return z.boolean();
+    case "enum":
+      return z.enum((parameter.options ?? []) as [string, ...string[]]);
+    case "list":
+      return z.array(z.string());
+    case "products":
+      return z.array(TemplateProductSchema);
+  }
+}
+
+/**
+ * Schema of a template's parameter values; defaults fill omitted values
+ */
+export function parametersSchema(parameters: TemplateParameter[]) {
+  return z.object(
+    Object.fromEntries(
+      parameters.map((parameter) => {
+        const schema = valueSchema(parameter);
+        if (parameter.default !== undefined) return [parameter.key, schema.default(parameter.default)];
+        return [parameter.key, parameter.required ? schema : schema.optional()];
+      })
+    )
+  );
+}
+
+function embed(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(embed).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/**
+ * Replace placeholders with parameter values. A string that is only a
+ * placeholder becomes the value itself (a list stays a list); placeholders
+ * inside longer strings are written out as text.
+ */
+export function renderTemplate(node: unknown, values: Record<string, unknown>): unknown {
+  if (typeof node === "string") {
+    const whole = WHOLE_PLACEHOLDER.exec(node);
+    if (whole) return values[whole[1]!] ?? null;
+    return node.replace(PLACEHOLDER, (_, key: string) => embed(values[key]));
+  }
+  if (Array.isArray(node)) {
+    return node.map((item) => renderTemplate(item, values));
+  }
+  if (node && typeof node === "object") {
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, renderTemplate(value, values)]));
+  }
+  return node;
+}
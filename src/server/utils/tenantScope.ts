@@ -0,0 +1,220 @@
+/**
+ * Tenant Scoping
+ * --------------
+ * Pure helpers for the tenant-aware database client:
+ *  - which models belong to a tenant
+ *  - query arguments restricted to one tenant: reads and filtered writes get
+ *    a `tenantId` condition, created rows get the tenant's id
+ *  - nested writes into tenant models: creates are rejected, as they would
+ *    skip the stamp, and connects are narrowed to the tenant
+ *
+ * Relation includes are not rewritten; they hang off a row that was already
+ * scoped.
+ */
+
+/** Models whose rows belong to exactly one tenant */
+export const TENANT_SCOPED_MODELS: ReadonlySet<string> = new Set([
+  "Project",
+  "OptropicCode",
+  "Key",
+  "TagPairing",
+  "TenantDataKey",
+  "CodeBatch",
+  "CodeExport",
+  "Content",
+  "ContentVersion",
+  "PageFeedback",
+  "Experiment",
+  "Asset",
+  "MaintenanceSchedule",
+  "WorkOrder",
+  "WorkflowInstance",
+  "WorkflowTask",
+  "SupplyChainEvent",
+  "Scan",
+  "ActivityLog",
+  "TenantConfigPack",
+  "ServiceAccount",
+  "ApiKey",
+  "TenantSecurityPolicy",
+]);
+
+/** Operations whose `where` is narrowed to the tenant */
+const FILTERED_OPERATIONS = new Set([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "updateManyAndReturn",
+  "delete",
+  "deleteMany",
+]);
+
+/** Operations that only read */
+const READ_OPERATIONS = new Set([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+]);
+
+/** Nested operations that would create rows of the related model */
+const NESTED_CREATES = ["create", "createMany", "connectOrCreate", "upsert"];
+
+type QueryArgs = Record<string, unknown>;
+
+/** Relation fields of each model and the model each one points to */
+export type RelationMap = ReadonlyMap<string, ReadonlyMap<string, string>>;
+
+export function isTenantScoped(model: string | undefined): boolean {
+  return model !== undefined && TENANT_SCOPED_MODELS.has(model);
+}
+
+export function isReadOperation(operation: string): boolean {
+  return READ_OPERATIONS.has(operation);
+}
+
+function scopeWhere(where: unknown, tenantId: number): QueryArgs {
+  return { ...(where as QueryArgs | undefined), tenantId };
+}
+
+/**
+ * Stamp the tenant on created data; data naming another tenant is rejected
+ */
+function scopeData(data: unknown, tenantId: number): QueryArgs {
+  const row = data as QueryArgs;
+  if (row.tenantId !== undefined && row.tenantId !== tenantId) {
+    throw new Error("Cross-tenant write rejected");
+  }
+  // Relation-style input connects the tenant itself
+  if ("tenant" in row) {
+    return row;
+  }
+  return { ...row, tenantId };
+}
+
+/**
+ * Query arguments of a tenant-scoped model restricted to `tenantId`
+ */
+export function scopeArgs(operation: string, args: unknown, tenantId: number): QueryArgs {
+  const scoped: QueryArgs = { ...(args as QueryArgs | undefined) };
+
+  if (FILTERED_OPERATIONS.has(operation)) {
+    if (
+      (operation === "update" || operation === "updateMany" || operation === "updateManyAndReturn") &&
+      scoped.data
+    ) {
+      const data = scoped.data as QueryArgs;
+      if (data.tenantId !== undefined && data.tenantId !== tenantId) {
+        throw new Error("Cross-tenant write rejected");
+      }
+    }
+    scoped.where = scopeWhere(scoped.where, tenantId);
+  } else if (operation === "create") {
+    scoped.data = scopeData(scoped.data, tenantId);
+  } else if (operation === "createMany" || operation === "createManyAndReturn") {
+    scoped.data = Array.isArray(scoped.data)
+      ? scoped.data.map((row) => scopeData(row, tenantId))
+      : scopeData(scoped.data, tenantId);
+  } else if (operation === "upsert") {
+    scoped.where = scopeWhere(scoped.where, tenantId);
+    scoped.create = scopeData(scoped.create, tenantId);
+  }
+
+  return scoped;
+}
+
+/** Apply `fn` to a value or to each entry of a list of them */
+const mapList = (value: unknown, fn: (entry: unknown) => unknown): unknown =>
+  Array.isArray(value) ? value.map(fn) : fn(value);
+
+/**
+ * Nested writes through one relation field into `target`
+ */
+function scopeRelationWrite(target: string, write: QueryArgs, tenantId: number, relations: RelationMap): QueryArgs {
+  const scoped: QueryArgs = { ...write };
+
+  if (isTenantScoped(target)) {
+    const create = NESTED_CREATES.find((operation) => scoped[operation] !== undefined);
+    if (create) {
+      throw new Error(`Nested ${create} of ${target} rejected; create it on its own`);
+    }
+    if (scoped.connect !== undefined) {
+      scoped.connect = mapList(scoped.connect, (where) => scopeWhere(where, tenantId));
+    }
+  } else {
+    if (scoped.create !== undefined) {
+      scoped.create = scopeWriteData(target, scoped.create, tenantId, relations);
+    }
+    for (const operation of ["connectOrCreate", "upsert"]) {
+      if (scoped[operation] !== undefined) {
+        scoped[operation] = mapList(scoped[operation], (nested) =>
+          scopeNestedWrites(target, nested, tenantId, relations)
+        );
+      }
+    }
+  }
+
+  // To-many updates name their rows; a to-one update is the data itself
+  if (scoped.update !== undefined) {
+    scoped.update = mapList(scoped.update, (update) => {
+      const { where, data } = update as QueryArgs;
+      return where !== undefined && data !== undefined
+        ? { where, data: scopeWriteData(target, data, tenantId, relations) }
+        : scopeWriteData(target, update, tenantId, relations);
+    });
+  }
+
+  return scoped;
+}
+
+/**
+ * Create or update data of `model` with its nested writes checked
+ */
+function scopeWriteData(model: string, data: unknown, tenantId: number, relations: RelationMap): unknown {
+  if (Array.isArray(data)) {
+    return data.map((row) => scopeWriteData(model, row, tenantId, relations));
+  }
+
+  const fields = relations.get(model);
+  if (!fields || data === null || typeof data !== "object") {
+    return data;
+  }
+
+  const scoped: QueryArgs = { ...(data as QueryArgs) };
+  for (const [field, target] of fields) {
+    const write = scoped[field];
+    if (write !== null && typeof write === "object") {
+      scoped[field] = scopeRelationWrite(target, write as QueryArgs, tenantId, relations);
+    }
+  }
+  return scoped;
+}
+
+/**
+ * Write arguments of any model with nested writes into tenant models
+ * checked. Nested creates are rejected rather than stamped: the tenant
+ * column sits on the related model, which the caller's input type may not
+ * expose. Nested connects only reach rows of the tenant.
+ */
+export function scopeNestedWrites(model: string, args: unknown, tenantId: number, relations: RelationMap): QueryArgs {
+  const scoped: QueryArgs = { ...(args as QueryArgs | undefined) };
+
+  for (const key of ["data", "create", "update"]) {
+    if (scoped[key] !== undefined) {
+      scoped[key] = scopeWriteData(model, scoped[key], tenantId, relations);
+    }
+  }
+
+  return scoped;
+}
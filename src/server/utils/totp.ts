@@ -0,0 +1,177 @@
+/**
+ * TOTP and Recovery Codes
+ * -----------------------
+ * Pure helpers for the second sign-in factor:
+ *  - RFC 4648 base32 secrets and RFC 6238 time-based one-time passwords
+ *    (HMAC-SHA1, 6 digits, 30-second steps), as authenticator apps expect
+ *  - verification within a small clock-drift window that refuses steps at
+ *    or before the last accepted one, so a code cannot be replayed
+ *  - `otpauth://` enrollment URIs for QR codes
+ *  - one-time recovery codes and their normalised form
+ *  - the tenant MFA policy and how long a step-up re-authentication lasts
+ */
+
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+/** Steps accepted either side of the current one */
+export const TOTP_DRIFT_STEPS = 1;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/** A step-up re-authentication covers sensitive mutations this long */
+export const STEP_UP_WINDOW_SECONDS = 5 * 60;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=-]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * A new random secret (160 bits, as RFC 4226 recommends), base32 encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * RFC 4226 HOTP value of a raw key at `counter`
+ */
+export function hotp(key: Buffer, counter: number, digits = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+
+  return binary.toString().padStart(digits, "0");
+}
+
+export function totpStep(time: Date): number {
+  return Math.floor(time.getTime() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * The code a base32 secret shows at `time`
+ */
+export function totp(secret: string, time: Date, digits = TOTP_DIGITS): string {
+  return hotp(base32Decode(secret), totpStep(time), digits);
+}
+
+/**
+ * The step `code` belongs to, within the drift window and after
+ * `lastUsedStep`; null when it does not verify
+ */
+export function verifyTotp(secret: string, code: string, time: Date, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time);
+
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== undefined && lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    const expected = Buffer.from(hotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Key URI for authenticator apps, rendered as the enrollment QR code
+ */
+export function otpauthUri(issuer: string, account: string, secret: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * One-time recovery codes, `xxxxx-xxxxx` in base32 (50 bits each)
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Recovery codes compare without case, spaces or dashes
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function looksLikeTotp(code: string): boolean {
+  return /^\d{6}$/.test(code.replace(/\s/g, ""));
+}
+
+/**
+ * Whether the tenant's policy makes MFA mandatory for an archetype
+ */
+export function isMfaRequired(requiredArchetypes: readonly string[], archetype: string | null): boolean {
+  return archetype !== null && requiredArchetypes.includes(archetype);
+}
+
+/**
+ * Whether a step-up at `stepUpAt` (epoch seconds) still covers `now`
+ */
+export function isStepUpFresh(stepUpAt: number | undefined, now: Date, windowSeconds = STEP_UP_WINDOW_SECONDS): boolean {
+  if (stepUpAt === undefined) return false;
+  const age = now.getTime() / 1000 - stepUpAt;
+  return age >= 0 && age <= windowSeconds;
+}
@@ -0,0 +1,181 @@
+/**
+ * Offline Verification Bundle
+ * ---------------------------
+ * Snapshot of a project's public keys and revoked compact-code serials that
+ * field scanners can download once and use to verify codes without network.
+ *  - Bundle is signed (over its JCS form) by one of the project's keys,
+ *    which the scanner pins
+ *  - Revoked serials are stored as inclusive ranges to keep bundles small
+ *  - Only compact codes can be verified offline; legacy JSON codes sign a
+ *    payload that lives in the database
+ */
+
+import crypto from "crypto";
+import { canonicalBytes } from "./jcs";
+import { decodeCompactCode, verifyCompactSignature, type CompactCodeType } from "./compactCode";
+
+export const BUNDLE_FORMAT = "optropic.verification-bundle";
+export const BUNDLE_VERSION = 1;
+
+export interface BundleKey {
+  keyId: number;
+  algorithm: string;
+  /** SPKI PEM */
+  publicKey: string;
+  status: "ACTIVE" | "REVOKED";
+  expiresAt: string | null;
+}
+
+export interface BundleRevocation {
+  keyId: number;
+  /** Inclusive [first, last] serial ranges */
+  serials: [number, number][];
+}
+
+export interface VerificationBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  projectId: number;
+  issuedAt: string;
+  expiresAt: string;
+  keys: BundleKey[];
+  revocations: BundleRevocation[];
+  signature?: {
+    keyId: number;
+    /** base64url ECDSA P-256 / SHA-256 signature, raw r||s */
+    value: string;
+  };
+}
+
+export type OfflineFailureReason =
+  | "INVALID_FORMAT"
+  | "UNKNOWN_KEY"
+  | "KEY_REVOKED"
+  | "CODE_REVOKED"
+  | "INVALID_SIGNATURE"
+  | "BUNDLE_EXPIRED";
+
+export interface OfflineVerificationResult {
+  valid: boolean;
+  reason?: OfflineFailureReason;
+  keyId?: number;
+  serial?: number;
+  codeType?: CompactCodeType;
+  warnings: string[];
+}
+
+function signedBytes(bundle: VerificationBundle): Buffer {
+  const { signature: _signature, ...body } = bundle;
+  return canonicalBytes(body);
+}
+
+/**
+ * Collapse a list of serials into sorted inclusive ranges
+ */
+export function toSerialRanges(serials: number[]): [number, number][] {
+  const sorted = [...new Set(serials)].sort((a, b) => a - b);
+  const ranges: [number, number][] = [];
+
+  for (const serial of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && serial === last[1] + 1) {
+      last[1] = serial;
+    } else {
+      ranges.push([serial, serial]);
+    }
+  }
+
+  return ranges;
+}
+
+function isSerialRevoked(ranges: [number, number][], serial: number): boolean {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const [first, last] = ranges[mid]!;
+    if (serial < first) high = mid - 1;
+    else if (serial > last) low = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+/**
+ * Sign a bundle with a P-256 private key (PEM)
+ */
+export function signBundle(
+  bundle: VerificationBundle,
+  keyId: number,
+  privateKey: string
+): VerificationBundle {
+  const value = crypto
+    .sign("sha256", signedBytes(bundle), { key: privateKey, dsaEncoding: "ieee-p1363" })
+    .toString("base64url");
+
+  return { ...bundle, signature: { keyId, value } };
+}
+
+/**
+ * Verify a bundle signature against a pinned public key (PEM)
+ */
+export function verifyBundleSignature(bundle: VerificationBundle, publicKey: string): boolean {
+  if (!bundle.signature) return false;
+
+  try {
+    return crypto.verify(
+      "sha256",
+      signedBytes(bundle),
+      { key: publicKey, dsaEncoding: "ieee-p1363" },
+      Buffer.from(bundle.signature.value, "base64url")
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify a compact code using only a verification bundle
+ */
+export function verifyCodeOffline(
+  codeValue: string,
+  bundle: VerificationBundle,
+  now: Date = new Date()
+): OfflineVerificationResult {
+  const warnings: string[] = [];
+
+  if (new Date(bundle.expiresAt) < now) {
+    return { valid: false, reason: "BUNDLE_EXPIRED", warnings };
+  }
+
+  const code = decodeCompactCode(codeValue);
+  if (!code) {
+    return { valid: false, reason: "INVALID_FORMAT", warnings };
+  }
+
+  const base = { keyId: code.keyId, serial: code.serial, codeType: code.codeType };
+  const key = bundle.keys.find((k) => k.keyId === code.keyId);
+
+  if (!key) {
+    return { valid: false, reason: "UNKNOWN_KEY", ...base, warnings };
+  }
+
+  if (key.status === "REVOKED") {
+    return { valid: false, reason: "KEY_REVOKED", ...base, warnings };
+  }
+
+  if (!verifyCompactSignature(code, key.publicKey, key.algorithm)) {
+    return { valid: false, reason: "INVALID_SIGNATURE", ...base, warnings };
+  }
+
+  const revocation = bundle.revocations.find((r) => r.keyId === code.keyId);
+  if (revocation && isSerialRevoked(revocation.serials, code.serial)) {
+    return { valid: false, reason: "CODE_REVOKED", ...base, warnings };
+  }
+
+  if (key.expiresAt && new Date(key.expiresAt) < now) {
+    warnings.push("Signing key has expired");
+  }
+
+  return { valid: true, ...base, warnings };
+}
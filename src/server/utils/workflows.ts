@@ -0,0 +1,65 @@
+/**
+ * Workflow Definitions
+ * --------------------
+ * Pure helpers for running config pack workflows:
+ *  - which of a config pack's workflows a trigger starts
+ *  - config pack role types as the archetype codes users hold
+ *  - who may complete a step; PUBLIC-only steps have no signed-in actor
+ */
+
+import { WorkflowDefinitionSchema, type WorkflowDefinition, type WorkflowTrigger } from "@optropic/shared";
+
+/** Trigger names as written into `configJson.workflows` */
+export const TRIGGER_NAMES: Record<WorkflowTrigger, string> = {
+  CODE_SCAN: "code_scan",
+  MAINTENANCE_DUE: "maintenance_due",
+  AUDIT_REQUIRED: "audit_required",
+  PUBLIC_SCAN: "public_scan",
+};
+
+/** Config pack role types and the archetype codes they stand for */
+export const ROLE_ARCHETYPES: Record<string, string> = {
+  INSTALLER: "OPERATOR",
+  INSPECTOR: "INSPECTOR",
+  MAINTAINER: "MAINTAINER",
+  MANAGER: "MANAGER",
+  PUBLIC: "PUBLIC",
+};
+
+/**
+ * Workflows of a config pack that the trigger starts; malformed entries are
+ * ignored
+ */
+export function workflowsFor(configJson: unknown, trigger: WorkflowTrigger): WorkflowDefinition[] {
+  const workflows = (configJson as { workflows?: unknown } | null)?.workflows;
+  if (!Array.isArray(workflows)) return [];
+
+  return workflows.flatMap((workflow) => {
+    const parsed = WorkflowDefinitionSchema.safeParse(workflow);
+    return parsed.success && parsed.data.trigger === TRIGGER_NAMES[trigger] ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Archetype codes for a step's roles; archetype codes pass through
+ */
+export function stepArchetypes(roles: string[]): string[] {
+  return [...new Set(roles.map((role) => ROLE_ARCHETYPES[role] ?? role))];
+}
+
+/**
+ * Steps only the public takes happen on the public page itself and are
+ * recorded as done when reached
+ */
+export function isPublicStep(archetypes: string[]): boolean {
+  return archetypes.length > 0 && archetypes.every((archetype) => archetype === "PUBLIC");
+}
+
+/**
+ * Whether a user with the archetype may complete the step; ADMIN may
+ * complete any step
+ */
+export function canCompleteStep(archetypes: string[], archetype: string | null): boolean {
+  if (!archetype) return false;
+  return archetype === "ADMIN" || archetypes.includes(archetype);
+}
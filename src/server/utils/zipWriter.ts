@@ -0,0 +1,143 @@
+/**
+ * ZIP Archive Writer
+ * ------------------
+ * Minimal streaming ZIP (PKWARE APPNOTE 6.3) writer for export archives.
+ *  - Entries are emitted as soon as they are added (no full archive in memory)
+ *  - STORE for already-compressed data (PNG), DEFLATE for text (SVG, CSV)
+ *  - No ZIP64: archives are limited to 65,535 entries and 4 GiB
+ */
+
+import zlib from "zlib";
+import { crc32 } from "./crc32";
+
+export const ZIP_MAX_ENTRIES = 0xffff;
+const ZIP_MAX_OFFSET = 0xffffffff;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20;
+const FLAG_UTF8 = 0x0800;
+
+interface CentralDirectoryEntry {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  dosTime: number;
+  dosDate: number;
+  offset: number;
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime:
+      (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export class ZipWriter {
+  private readonly entries: CentralDirectoryEntry[] = [];
+  private offset = 0;
+  private finished = false;
+
+  constructor(private readonly modifiedAt: Date = new Date()) {}
+
+  /**
+   * Add a file and return the bytes to write (local header + data)
+   */
+  addFile(name: string, data: Buffer, options: { compress?: boolean } = {}): Buffer {
+    if (this.finished) {
+      throw new Error("ZIP archive is already finished");
+    }
+    if (this.entries.length >= ZIP_MAX_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${ZIP_MAX_ENTRIES} entries`);
+    }
+
+    const nameBuffer = Buffer.from(name, "utf8");
+    const method = options.compress === false ? METHOD_STORE : METHOD_DEFLATE;
+    const body = method === METHOD_DEFLATE ? zlib.deflateRawSync(data) : data;
+    const { dosTime, dosDate } = toDosDateTime(this.modifiedAt);
+
+    const entry: CentralDirectoryEntry = {
+      name: nameBuffer,
+      method,
+      crc: crc32(data),
+      compressedSize: body.length,
+      size: data.length,
+      dosTime,
+      dosDate,
+      offset: this.offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION_NEEDED, 4);
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    const chunk = Buffer.concat([header, nameBuffer, body]);
+    if (this.offset + chunk.length > ZIP_MAX_OFFSET) {
+      throw new Error("ZIP archive exceeds the 4 GiB limit");
+    }
+
+    this.entries.push(entry);
+    this.offset += chunk.length;
+    return chunk;
+  }
+
+  /**
+   * Close the archive and return the central directory bytes
+   */
+  finish(): Buffer {
+    if (this.finished) {
+      throw new Error("ZIP archive is already finished");
+    }
+    this.finished = true;
+
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(VERSION_NEEDED, 4);
+      record.writeUInt16LE(VERSION_NEEDED, 6);
+      record.writeUInt16LE(FLAG_UTF8, 8);
+      record.writeUInt16LE(entry.method, 10);
+      record.writeUInt16LE(entry.dosTime, 12);
+      record.writeUInt16LE(entry.dosDate, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt16LE(0, 30);
+      record.writeUInt16LE(0, 32);
+      record.writeUInt16LE(0, 34);
+      record.writeUInt16LE(0, 36);
+      record.writeUInt32LE(0, 38);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+
+    const directory = Buffer.concat(records);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(0, 4);
+    end.writeUInt16LE(0, 6);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(this.offset, 16);
+    end.writeUInt16LE(0, 20);
+
+    return Buffer.concat([directory, end]);
+  }
+}
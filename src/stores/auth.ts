@@ -35,10 +35,16 @@ export interface AuthUser {
 
 interface AuthStore {
   user: AuthUser | null;
+  // Sent as the Bearer header by the tRPC client; the server also keeps it
+  // in an HttpOnly session cookie for requests that cannot send headers
   token: string | null;
+  // Revoked on logout
+  refreshToken: string | null;
   isAuthenticated: boolean;
-  login: (user: AuthUser, token: string) => void;
+  login: (user: AuthUser, token: string, refreshToken?: string) => void;
   logout: () => void;
+  // Replaces the access token, e.g. with one carrying a step-up
+  setToken: (token: string) => void;
   updateUser: (user: AuthUser) => void;
   // Helper functions for role checking
   hasRole: (roleCode: string) => boolean;
@@ -53,12 +59,14 @@ export const useAuthStore = create<AuthStore>()(
     (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
       isAuthenticated: false,
       
-      login: (user: AuthUser, token: string) => {
+      login: (user: AuthUser, token: string, refreshToken?: string) => {
         set({
           user,
           token,
+          refreshToken: refreshToken ?? null,
           isAuthenticated: true,
         });
       },
@@ -67,10 +75,15 @@ export const useAuthStore = create<AuthStore>()(
         set({
           user: null,
           token: null,
+          refreshToken: null,
           isAuthenticated: false,
         });
       },
       
+      setToken: (token: string) => {
+        set({ token });
+      },
+      
       updateUser: (user: AuthUser) => {
         set({ user });
       },
@@ -0,0 +1,28 @@
+import { create } from "zustand";
+
+/** Callers waiting for the re-authentication prompt to close */
+const waiting: ((confirmed: boolean) => void)[] = [];
+
+interface StepUpStore {
+  // Open while a sensitive request waits for the user to re-authenticate
+  isOpen: boolean;
+  // Open the prompt; resolves true once the user has stepped up, false if
+  // they cancelled. Requests failing together share one prompt.
+  request: () => Promise<boolean>;
+  settle: (confirmed: boolean) => void;
+}
+
+export const useStepUpStore = create<StepUpStore>()((set) => ({
+  isOpen: false,
+
+  request: () =>
+    new Promise<boolean>((resolve) => {
+      waiting.push(resolve);
+      set({ isOpen: true });
+    }),
+
+  settle: (confirmed: boolean) => {
+    waiting.splice(0).forEach((resolve) => resolve(confirmed));
+    set({ isOpen: false });
+  },
+}));
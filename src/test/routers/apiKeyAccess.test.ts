@@ -0,0 +1,186 @@
+/**
+ * API Key Access Tests
+ * --------------------
+ * An API key acts as its tenant's owner but holds only its scopes: reads
+ * need their read scope like writes do, and procedures without a
+ * permission check refuse keys altogether. The EPCIS and device config
+ * endpoints apply the same scopes.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Permission } from "@optropic/shared";
+import { createCallerFactory } from "../../server/trpc/main";
+import { codesRouter } from "../../server/trpc/routers/codesRouter";
+import { notificationsRouter } from "../../server/trpc/routers/notificationsRouter";
+import epcisHandler from "../../server/api/epcis";
+import deviceConfigHandler from "../../server/api/deviceConfig";
+
+/** User 1 owns tenant 1 */
+const OWNER = { id: 1, email: "owner@example.com", role: "ADMIN", tenantId: null, archetype: { code: "ADMIN" } };
+
+const mocks = vi.hoisted(() => ({
+  findUser: vi.fn(),
+  listCodes: vi.fn(async () => []),
+  getUnreadCount: vi.fn(async () => 0),
+  resolveAuth: vi.fn(),
+  captureEvents: vi.fn(async () => ({ captured: ["urn:uuid:1"], duplicates: [] })),
+  getDeviceConfig: vi.fn(async () => ({
+    configPackId: 5,
+    version: 2,
+    status: "PUBLISHED",
+    deprecatedAt: null,
+    etag: '"abc"',
+    configJson: { scanMode: "fast" },
+  })),
+  logActivity: vi.fn(async (_args: { data: { action: string } }) => ({})),
+}));
+
+vi.mock("../../server/db", () => ({
+  db: {
+    user: { findUnique: mocks.findUser },
+    tenantRoleMapping: { findFirst: vi.fn(async () => null) },
+    project: { findUnique: vi.fn(async () => ({ id: 9, userId: 1, tenantId: 1 })) },
+    activityLog: { create: mocks.logActivity },
+  },
+}));
+
+vi.mock("../../server/minio", () => ({ minioClient: {} }));
+
+vi.mock("../../server/services/codeService", () => ({
+  CodeService: { listCodes: mocks.listCodes },
+}));
+
+vi.mock("../../server/services/notificationService", () => ({
+  NotificationService: { getUnreadCount: mocks.getUnreadCount },
+}));
+
+vi.mock("../../server/services/authService", () => ({
+  AuthService: { resolve: mocks.resolveAuth },
+}));
+
+vi.mock("../../server/services/epcisService", () => ({
+  EpcisService: { captureEvents: mocks.captureEvents },
+  toQueryDocument: vi.fn(),
+}));
+
+vi.mock("../../server/services/configPackService", () => ({
+  ConfigPackService: { getDeviceConfig: mocks.getDeviceConfig },
+}));
+
+/** Context of a call made with an API key of tenant 1 */
+function apiKey(scopes: Permission[]) {
+  return {
+    auth: {
+      status: "authenticated",
+      user: {
+        id: OWNER.id,
+        email: OWNER.email,
+        role: OWNER.role,
+        tenantId: 1,
+        source: "api-key",
+        apiKey: {
+          apiKeyId: 4,
+          serviceAccountId: 2,
+          scopes,
+          name: "Line 3 scanners",
+          rateLimitTier: "STANDARD",
+          tenantId: 1,
+        },
+      },
+    },
+  } as const;
+}
+
+describe("API key access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findUser.mockResolvedValue(OWNER);
+    mocks.resolveAuth.mockResolvedValue({ status: "missing" });
+  });
+
+  it("should refuse a scans:write key reading codes", async () => {
+    await expect(createCallerFactory(codesRouter)(apiKey(["scans:write"])).list({ projectId: 9 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Missing permission: codes:read",
+    });
+    expect(mocks.listCodes).not.toHaveBeenCalled();
+  });
+
+  it("should let a codes:read key read codes", async () => {
+    await expect(createCallerFactory(codesRouter)(apiKey(["codes:read"])).list({ projectId: 9 })).resolves.toEqual([]);
+  });
+
+  it("should refuse keys on procedures without a permission check", async () => {
+    await expect(
+      createCallerFactory(notificationsRouter)(apiKey(["codes:read", "scans:write"])).getUnreadCount()
+    ).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "This procedure cannot be called with an API key",
+    });
+    expect(mocks.getUnreadCount).not.toHaveBeenCalled();
+  });
+
+  describe("HTTP endpoints", () => {
+    const captureRequest = () =>
+      new Request("http://localhost/api/epcis/capture?projectId=9", {
+        method: "POST",
+        body: JSON.stringify({
+          type: "EPCISDocument",
+          epcisBody: {
+            eventList: [
+              {
+                type: "ObjectEvent",
+                eventTime: "2026-05-01T10:00:00Z",
+                eventTimeZoneOffset: "+00:00",
+                action: "OBSERVE",
+                epcList: ["urn:epc:id:sgtin:0614141.107346.2017"],
+              },
+            ],
+          },
+        }),
+      });
+
+    it("should let an epcis:capture key capture events and audit the call", async () => {
+      mocks.resolveAuth.mockResolvedValue(apiKey(["epcis:capture"]).auth);
+
+      const response = await epcisHandler({ request: captureRequest() });
+
+      expect(response.status).toBe(201);
+      expect(mocks.captureEvents).toHaveBeenCalledWith(9, expect.any(Array), OWNER.id);
+      const audit = mocks.logActivity.mock.calls.find(([args]) => args.data.action === "API_KEY_CALL");
+      expect(audit?.[0]).toMatchObject({
+        data: { apiKeyId: 4, newValues: { path: "/api/epcis/capture", ok: true } },
+      });
+    });
+
+    it("should refuse a key without epcis:capture", async () => {
+      mocks.resolveAuth.mockResolvedValue(apiKey(["scans:write"]).auth);
+
+      const response = await epcisHandler({ request: captureRequest() });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ title: "Missing permission: epcis:capture" });
+      expect(mocks.captureEvents).not.toHaveBeenCalled();
+    });
+
+    it("should serve device config to a projects:read key", async () => {
+      mocks.resolveAuth.mockResolvedValue(apiKey(["projects:read"]).auth);
+
+      const response = await deviceConfigHandler({ request: new Request("http://localhost/api/config/9") });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("ETag")).toBe('"abc"');
+      expect(await response.json()).toEqual({ scanMode: "fast" });
+    });
+
+    it("should refuse device config without credentials or scope", async () => {
+      const request = () => new Request("http://localhost/api/config/9");
+
+      expect((await deviceConfigHandler({ request: request() })).status).toBe(401);
+
+      mocks.resolveAuth.mockResolvedValue(apiKey(["scans:write"]).auth);
+      expect((await deviceConfigHandler({ request: request() })).status).toBe(403);
+      expect(mocks.getDeviceConfig).not.toHaveBeenCalled();
+    });
+  });
+});
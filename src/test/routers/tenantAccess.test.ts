@@ -0,0 +1,270 @@
+/**
+ * Router Tenant Access Tests
+ * --------------------------
+ * Procedures behind `requirePermission` act on any project of the caller's
+ * tenant: the permission decides what a member may do, not who created the
+ * project. Reads need their read permission as much as writes need theirs.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Permission } from "@optropic/shared";
+import { createCallerFactory } from "../../server/trpc/main";
+import { codesRouter } from "../../server/trpc/routers/codesRouter";
+import { keysRouter } from "../../server/trpc/routers/keysRouter";
+import { assetsRouter } from "../../server/trpc/routers/assetsRouter";
+import { contentRouter } from "../../server/trpc/routers/contentRouter";
+import { epcisRouter } from "../../server/trpc/routers/epcisRouter";
+import { experimentsRouter } from "../../server/trpc/routers/experimentsRouter";
+import { pairingsRouter } from "../../server/trpc/routers/pairingsRouter";
+import { redirectsRouter } from "../../server/trpc/routers/redirectsRouter";
+
+/** Project 9 was created by the tenant owner, user 1 */
+const PROJECT = { id: 9, name: "Labels", userId: 1, tenantId: 1 };
+
+const mocks = vi.hoisted(() => ({
+  forUser: vi.fn(),
+  findProject: vi.fn(),
+  findCode: vi.fn(),
+  findKey: vi.fn(),
+  findRow: vi.fn(),
+  revokeCode: vi.fn(async () => ({ id: 4, isActive: false })),
+  revokeCodes: vi.fn(async () => 2),
+  revokeKey: vi.fn(async () => ({ id: 3, status: "REVOKED" })),
+}));
+
+vi.mock("../../server/db", () => ({
+  db: {
+    project: { findUnique: mocks.findProject },
+    optropicCode: { findFirst: mocks.findCode },
+    key: { findFirst: mocks.findKey },
+    codeBatch: { findUnique: mocks.findRow },
+    codeExport: { findUnique: mocks.findRow },
+    asset: { findUnique: mocks.findRow },
+    content: { findUnique: mocks.findRow },
+    experiment: { findUnique: mocks.findRow },
+    tagPairing: { findFirst: mocks.findRow },
+    activityLog: { create: vi.fn() },
+    notification: { create: vi.fn() },
+  },
+}));
+
+vi.mock("../../server/minio", () => ({ minioClient: {} }));
+
+vi.mock("../../server/services/permissionService", () => ({
+  PermissionService: { forUser: mocks.forUser },
+}));
+
+vi.mock("../../server/services/codeService", () => ({
+  CodeService: { revokeCode: mocks.revokeCode, revokeCodes: mocks.revokeCodes, listCodes: vi.fn(async () => []) },
+}));
+
+vi.mock("../../server/services/batchService", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../server/services/batchService")>()),
+  BatchService: { getBatch: vi.fn(async () => ({ id: 2 })) },
+}));
+
+vi.mock("../../server/services/exportService", () => ({
+  ExportService: { getExport: vi.fn(async () => ({ id: 2 })) },
+}));
+
+vi.mock("../../server/services/assetService", () => ({
+  AssetService: { listAssets: vi.fn(async () => []), deleteAsset: vi.fn() },
+}));
+
+vi.mock("../../server/services/contentService", () => ({
+  ContentService: { getStats: vi.fn(async () => ({})), archiveContent: vi.fn(async () => ({ id: 2 })) },
+}));
+
+vi.mock("../../server/services/epcisService", () => ({
+  EpcisService: {
+    getCustodyTimeline: vi.fn(async () => []),
+    captureEvents: vi.fn(async () => ({ captured: [], duplicates: [] })),
+  },
+}));
+
+vi.mock("../../server/services/experimentService", () => ({
+  ExperimentService: {
+    listExperiments: vi.fn(async () => []),
+    startExperiment: vi.fn(async () => ({ id: 2, status: "RUNNING" })),
+  },
+}));
+
+vi.mock("../../server/services/tagPairingService", () => ({
+  TagPairingService: {
+    listPairings: vi.fn(async () => []),
+    unpairTag: vi.fn(async () => ({ id: 2, status: "UNPAIRED" })),
+  },
+}));
+
+vi.mock("../../server/services/keyService", () => ({
+  KeyService: { revokeKey: mocks.revokeKey, listKeys: vi.fn(async () => []) },
+}));
+
+const codesCaller = createCallerFactory(codesRouter);
+const keysCaller = createCallerFactory(keysRouter);
+const assetsCaller = createCallerFactory(assetsRouter);
+const contentCaller = createCallerFactory(contentRouter);
+const epcisCaller = createCallerFactory(epcisRouter);
+const experimentsCaller = createCallerFactory(experimentsRouter);
+const pairingsCaller = createCallerFactory(pairingsRouter);
+const redirectsCaller = createCallerFactory(redirectsRouter);
+
+/** Context of a signed-in member of a tenant who did not create the project */
+function member(permissions: Permission[], tenantId = 1) {
+  mocks.forUser.mockResolvedValue({
+    userId: 5,
+    tenantId,
+    archetype: "OPERATOR",
+    isTenantOwner: false,
+    permissions: new Set(permissions),
+  });
+  return {
+    auth: {
+      status: "authenticated",
+      user: {
+        id: 5,
+        email: "member@example.com",
+        role: "USER",
+        tenantId,
+        source: "cookie",
+        stepUpAt: Math.floor(Date.now() / 1000),
+      },
+    },
+  } as const;
+}
+
+describe("Tenant access in routers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findProject.mockResolvedValue(PROJECT);
+    mocks.findCode.mockResolvedValue({ id: 4, codeValue: "OPT-4", project: PROJECT });
+    mocks.findKey.mockResolvedValue({ id: 3, keyName: "Signing", project: PROJECT });
+    mocks.findRow.mockResolvedValue({
+      id: 2,
+      status: "PAIRED",
+      redirectRules: null,
+      project: PROJECT,
+      content: { project: PROJECT },
+    });
+  });
+
+  it("should let a member with the permission revoke a code of a project they did not create", async () => {
+    const caller = codesCaller(member(["codes:revoke"]));
+
+    await expect(caller.revoke({ codeId: 4 })).resolves.toMatchObject({ id: 4, isActive: false });
+    await expect(caller.revokeMany({ projectId: 9, codeIds: [4, 6] })).resolves.toEqual({ revoked: 2 });
+  });
+
+  it("should refuse a member without the permission", async () => {
+    const caller = codesCaller(member(["codes:generate"]));
+
+    await expect(caller.revoke({ codeId: 4 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Missing permission: codes:revoke",
+    });
+    expect(mocks.revokeCode).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a caller of another tenant even with the permission", async () => {
+    const caller = codesCaller(member(["codes:revoke"], 2));
+
+    await expect(caller.revoke({ codeId: 4 })).rejects.toThrow("Code not found or unauthorized");
+    await expect(caller.revokeMany({ projectId: 9, codeIds: [4] })).rejects.toThrow(
+      "Project not found or unauthorized"
+    );
+    expect(mocks.revokeCodes).not.toHaveBeenCalled();
+  });
+
+  it("should check keys by tenant too", async () => {
+    await expect(keysCaller(member(["keys:revoke"])).revoke({ keyId: 3 })).resolves.toMatchObject({ id: 3 });
+    await expect(keysCaller(member(["keys:rotate"])).revoke({ keyId: 3 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(keysCaller(member(["keys:revoke"], 2)).revoke({ keyId: 3 })).rejects.toThrow(
+      "Key not found or unauthorized"
+    );
+    expect(mocks.revokeKey).toHaveBeenCalledTimes(1);
+  });
+
+  type Context = ReturnType<typeof member>;
+
+  const procedures: { name: string; permission: Permission; call: (ctx: Context) => Promise<unknown> }[] = [
+    { name: "codes.list", permission: "codes:read", call: (ctx) => codesCaller(ctx).list({ projectId: 9 }) },
+    { name: "codes.batchStatus", permission: "codes:read", call: (ctx) => codesCaller(ctx).batchStatus({ batchId: 2 }) },
+    {
+      name: "codes.exportStatus",
+      permission: "codes:export",
+      call: (ctx) => codesCaller(ctx).exportStatus({ exportId: 2 }),
+    },
+    { name: "keys.list", permission: "keys:read", call: (ctx) => keysCaller(ctx).list({ projectId: 9 }) },
+    { name: "assets.list", permission: "projects:read", call: (ctx) => assetsCaller(ctx).list({ projectId: 9 }) },
+    { name: "assets.delete", permission: "assets:manage", call: (ctx) => assetsCaller(ctx).delete({ assetId: 2 }) },
+    { name: "content.stats", permission: "projects:read", call: (ctx) => contentCaller(ctx).stats({ projectId: 9 }) },
+    {
+      name: "content.archive",
+      permission: "content:manage",
+      call: (ctx) => contentCaller(ctx).archive({ contentId: 2 }),
+    },
+    { name: "epcis.timeline", permission: "projects:read", call: (ctx) => epcisCaller(ctx).timeline({ assetId: 2 }) },
+    {
+      name: "epcis.capture",
+      permission: "epcis:capture",
+      call: (ctx) =>
+        epcisCaller(ctx).capture({
+          projectId: 9,
+          document: {
+            type: "EPCISDocument",
+            epcisBody: {
+              eventList: [
+                {
+                  type: "ObjectEvent",
+                  eventTime: "2026-05-01T10:00:00Z",
+                  eventTimeZoneOffset: "+00:00",
+                  action: "OBSERVE",
+                  epcList: ["urn:epc:id:sgtin:0614141.107346.2017"],
+                },
+              ],
+            },
+          },
+        }),
+    },
+    {
+      name: "experiments.list",
+      permission: "analytics:read",
+      call: (ctx) => experimentsCaller(ctx).list({ projectId: 9 }),
+    },
+    {
+      name: "experiments.start",
+      permission: "content:manage",
+      call: (ctx) => experimentsCaller(ctx).start({ experimentId: 2 }),
+    },
+    { name: "pairings.list", permission: "projects:read", call: (ctx) => pairingsCaller(ctx).list({ projectId: 9 }) },
+    {
+      name: "pairings.unpair",
+      permission: "projects:manage",
+      call: (ctx) => pairingsCaller(ctx).unpair({ pairingId: 2 }),
+    },
+    {
+      name: "redirects.getRules",
+      permission: "projects:read",
+      call: (ctx) => redirectsCaller(ctx).getRules({ contentId: 2 }),
+    },
+  ];
+
+  describe.each(procedures)("$name", ({ permission, call }) => {
+    it(`should let a member with ${permission} in`, async () => {
+      await expect(call(member([permission]))).resolves.toBeDefined();
+    });
+
+    it(`should refuse a member without ${permission}`, async () => {
+      await expect(call(member([]))).rejects.toMatchObject({
+        code: "FORBIDDEN",
+        message: `Missing permission: ${permission}`,
+      });
+    });
+
+    it("should refuse a caller of another tenant", async () => {
+      await expect(call(member([permission], 2))).rejects.toThrow("not found or unauthorized");
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Batch Service Tests
+ * -------------------
+ * Batches run in chunks under a database lease: a cancel that lands during
+ * a chunk stops the run, an interrupted batch resumes from its last
+ * committed chunk, and a batch leased by a live run is not run again.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BatchService, batchEvents, type BatchProgressEvent } from "../../server/services/batchService";
+
+type Row = Record<string, unknown>;
+
+const store = vi.hoisted(() => ({
+  batch: {} as Record<string, unknown>,
+  /** Runs while a code is signed, i.e. in the middle of a chunk */
+  onSign: undefined as ((serial: number) => void) | undefined,
+  createMany: vi.fn(async ({ data }: { data: { codeValue: string }[] }) => ({ count: data.length })),
+  getPrivateKey: vi.fn(async () => "private-key"),
+  notify: vi.fn(async () => undefined),
+}));
+
+/** Enough of Prisma's where semantics for the batch service's conditions */
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === "OR") {
+      return (condition as Row[]).some((branch) => matches(row, branch));
+    }
+    if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+      const { in: among, lt } = condition as { in?: unknown[]; lt?: Date };
+      if (among) return among.includes(row[field]);
+      if (lt) return row[field] instanceof Date && row[field] < lt;
+    }
+    return row[field] === condition;
+  });
+}
+
+function apply(row: Row, data: Row): void {
+  for (const [field, value] of Object.entries(data)) {
+    const increment = (value as { increment?: number } | null)?.increment;
+    row[field] = increment !== undefined ? (row[field] as number) + increment : value;
+  }
+}
+
+vi.mock("../../server/db", () => {
+  const codeBatch = {
+    findUnique: vi.fn(async () => ({ ...store.batch, key: { isActive: true } })),
+    findUniqueOrThrow: vi.fn(async () => ({ ...store.batch })),
+    findMany: vi.fn(async ({ where }: { where: Row }) => (matches(store.batch, where) ? [{ id: store.batch.id }] : [])),
+    update: vi.fn(async ({ data }: { data: Row }) => {
+      apply(store.batch, data);
+      return { ...store.batch };
+    }),
+    updateMany: vi.fn(async ({ where, data }: { where: Row; data: Row }) => {
+      if (!matches(store.batch, where)) return { count: 0 };
+      apply(store.batch, data);
+      return { count: 1 };
+    }),
+  };
+  const db = {
+    codeBatch,
+    optropicCode: { createMany: store.createMany },
+    $transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => await callback(db)),
+  };
+  return { db };
+});
+
+vi.mock("../../server/services/keyService", () => ({
+  KeyService: { getPrivateKey: store.getPrivateKey },
+}));
+
+vi.mock("../../server/services/envelopeService", () => ({ EnvelopeService: {} }));
+vi.mock("../../server/services/gs1Service", () => ({ Gs1Service: {} }));
+
+vi.mock("../../server/services/notificationService", () => ({
+  NotificationService: { create: store.notify },
+}));
+
+vi.mock("../../server/services/codeService", () => ({
+  allocateSerials: vi.fn(),
+  buildCompactCode: vi.fn(),
+  buildSignedCode: vi.fn((_privateKey: string, params: { metadata: { serial: number } }) => {
+    store.onSign?.(params.metadata.serial);
+    return { codeValue: `code-${params.metadata.serial}`, entropySeed: "seed", signature: "signature", payload: {} };
+  }),
+}));
+
+function seedBatch(overrides: Row = {}): void {
+  store.batch = {
+    id: 7,
+    projectId: 1,
+    tenantId: 1,
+    keyId: 3,
+    requestedById: 1,
+    status: "PENDING",
+    quantity: 3000,
+    generatedCount: 0,
+    chunkSize: 1000,
+    codeType: "QR_CODE",
+    encryptionLevel: "AES_128",
+    encryptPayload: false,
+    options: { metadata: {} },
+    errorMessage: null,
+    createdAt: new Date(),
+    startedAt: null,
+    completedAt: null,
+    cancelledAt: null,
+    leaseOwner: null,
+    leaseExpiresAt: null,
+    ...overrides,
+  };
+}
+
+function insertedSerials(): number[] {
+  return store.createMany.mock.calls
+    .flatMap(([args]) => args.data)
+    .map((row) => Number(row.codeValue.replace("code-", "")));
+}
+
+describe("BatchService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store.onSign = undefined;
+  });
+
+  it("should generate a batch in chunks and report progress", async () => {
+    seedBatch();
+    const events: BatchProgressEvent[] = [];
+    const listener = (event: BatchProgressEvent) => events.push(event);
+    batchEvents.on("batch:progress", listener);
+
+    const result = await BatchService.runBatch(7);
+    batchEvents.off("batch:progress", listener);
+
+    expect(result.status).toBe("COMPLETED");
+    expect(store.createMany).toHaveBeenCalledTimes(3);
+    expect(insertedSerials()).toHaveLength(3000);
+    expect(events.map((event) => event.progress)).toEqual([0, 33.33, 66.66, 100, 100]);
+    expect(store.batch.leaseOwner).toBeNull();
+    expect(store.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop the chunk a cancel lands in and stop", async () => {
+    seedBatch();
+    store.onSign = (serial) => {
+      if (serial === 1500) void BatchService.cancelBatch(7);
+    };
+
+    const result = await BatchService.runBatch(7);
+
+    expect(result.status).toBe("CANCELLED");
+    expect(result.generatedCount).toBe(1000);
+    expect(store.createMany).toHaveBeenCalledTimes(1);
+    expect(store.notify).not.toHaveBeenCalled();
+  });
+
+  it("should keep a cancel that lands while the last chunk commits", async () => {
+    seedBatch({ quantity: 1000 });
+    store.createMany.mockImplementationOnce(async ({ data }) => {
+      store.batch.status = "CANCELLED";
+      return { count: data.length };
+    });
+
+    const result = await BatchService.runBatch(7);
+
+    expect(result.status).toBe("CANCELLED");
+    expect(store.batch.completedAt).toBeNull();
+    expect(store.notify).not.toHaveBeenCalled();
+  });
+
+  it("should resume an interrupted batch from its last committed chunk", async () => {
+    seedBatch({
+      status: "RUNNING",
+      generatedCount: 2000,
+      startedAt: new Date(Date.now() - 60 * 60 * 1000),
+      leaseOwner: "stopped-process",
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    });
+
+    const result = await BatchService.runBatch(7);
+
+    expect(result.status).toBe("COMPLETED");
+    expect(result.generatedCount).toBe(3000);
+    expect(insertedSerials()).toEqual(Array.from({ length: 1000 }, (_, i) => 2001 + i));
+  });
+
+  it("should not run a batch another process holds the lease of", async () => {
+    seedBatch({
+      status: "RUNNING",
+      generatedCount: 1000,
+      leaseOwner: "other-process",
+      leaseExpiresAt: new Date(Date.now() + 60 * 1000),
+    });
+
+    const result = await BatchService.runBatch(7);
+
+    expect(result.status).toBe("RUNNING");
+    expect(store.getPrivateKey).not.toHaveBeenCalled();
+    expect(store.createMany).not.toHaveBeenCalled();
+    expect(await BatchService.resumeInterruptedBatches()).toBe(0);
+  });
+
+  it("should not run a batch twice when started twice", async () => {
+    seedBatch({ quantity: 1000 });
+
+    const [first, second] = await Promise.all([BatchService.runBatch(7), BatchService.runBatch(7)]);
+
+    expect([first.status, second.status].sort()).toEqual(["COMPLETED", "RUNNING"]);
+    expect(store.createMany).toHaveBeenCalledTimes(1);
+    expect(insertedSerials()).toHaveLength(1000);
+  });
+});
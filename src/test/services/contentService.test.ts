@@ -0,0 +1,87 @@
+/**
+ * Content Service Tests
+ * ---------------------
+ * Uploads are checked against per-type MIME and size limits before a
+ * presigned URL is issued and again once the object is stored. Downloads
+ * are found by token and count once per client.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ContentService, UPLOAD_RULES, downloadProxyUrl, validateUpload } from "../../server/services/contentService";
+
+const mocks = vi.hoisted(() => ({
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  presignedGetObject: vi.fn(async () => "https://minio.local/signed"),
+}));
+
+vi.mock("../../server/minio", () => ({
+  minioClient: { presignedGetObject: mocks.presignedGetObject },
+}));
+
+vi.mock("../../server/db", () => ({
+  db: { content: { findUnique: mocks.findUnique, update: mocks.update } },
+}));
+
+describe("Content uploads", () => {
+  it("should accept files matching the content type", () => {
+    expect(() => validateUpload("PDF_DOCUMENT", "application/pdf", 1024)).not.toThrow();
+    expect(() => validateUpload("IMAGE", "image/PNG; charset=binary", 1024)).not.toThrow();
+    expect(() => validateUpload("VIDEO", "video/mp4", UPLOAD_RULES.VIDEO!.maxBytes)).not.toThrow();
+  });
+
+  it("should reject other MIME types", () => {
+    expect(() => validateUpload("IMAGE", "image/svg+xml", 1024)).toThrow(/must be one of/);
+    expect(() => validateUpload("PDF_DOCUMENT", "text/html", 1024)).toThrow(/must be one of/);
+  });
+
+  it("should reject oversized files", () => {
+    expect(() => validateUpload("IMAGE", "image/jpeg", UPLOAD_RULES.IMAGE!.maxBytes + 1)).toThrow(/limited to 10 MB/);
+  });
+
+  it("should reject uploads for link content", () => {
+    expect(() => validateUpload("URL_REDIRECT", "application/pdf", 1024)).toThrow(/does not take file uploads/);
+  });
+
+  it("should serve files through the download proxy", () => {
+    expect(downloadProxyUrl("6f1c2a9e-3b7d-4c55-9a0e-2d8f41b7c301")).toBe(
+      "http://localhost:3000/api/content/6f1c2a9e-3b7d-4c55-9a0e-2d8f41b7c301/download"
+    );
+  });
+});
+
+describe("Content downloads", () => {
+  const token = "6f1c2a9e-3b7d-4c55-9a0e-2d8f41b7c301";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.findUnique.mockResolvedValue({
+      id: 42,
+      title: "Manual",
+      isActive: true,
+      objectKey: "projects/1/manual.pdf",
+      mimeType: "application/pdf",
+    });
+  });
+
+  it("should find content by its download token", async () => {
+    expect(await ContentService.getDownloadUrl(token, "203.0.113.1")).toBe("https://minio.local/signed");
+    expect(mocks.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { downloadToken: token } }));
+  });
+
+  it("should count a client's repeated downloads once", async () => {
+    await ContentService.getDownloadUrl(token, "203.0.113.2");
+    await ContentService.getDownloadUrl(token, "203.0.113.2");
+    await ContentService.getDownloadUrl(token, "203.0.113.3");
+
+    expect(mocks.update).toHaveBeenCalledTimes(2);
+    expect(mocks.presignedGetObject).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not serve archived content", async () => {
+    mocks.findUnique.mockResolvedValue({ id: 42, title: "Manual", isActive: false, objectKey: "a", mimeType: null });
+
+    expect(await ContentService.getDownloadUrl(token, "203.0.113.4")).toBeNull();
+    expect(mocks.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * GS1 Resolver Tests
+ * ------------------
+ * Resolver answers depend on the requested link type: a linkset for "all",
+ * otherwise a redirect to the requested or default link.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  answerResolverRequest,
+  buildLinkset,
+  type ResolvedIdentifiers,
+} from "../../server/services/gs1Service";
+
+const resolved: ResolvedIdentifiers = {
+  anchor: "https://id.example.com/01/09506000134352/10/L1",
+  projectId: 1,
+  links: [
+    { linkType: "gs1:instructions", href: "https://cdn.example.com/manual.pdf", title: "Manual", type: "application/pdf" },
+    { linkType: "gs1:pip", href: "https://brand.example/product", title: "Product page" },
+  ],
+};
+
+describe("GS1 resolver", () => {
+  it("should return a linkset with the default link for linkType=all", () => {
+    const answer = answerResolverRequest(resolved, { linkType: "all" });
+
+    expect(answer).toEqual({ kind: "linkset", body: buildLinkset(resolved) });
+    expect(buildLinkset(resolved).linkset[0]).toEqual({
+      anchor: resolved.anchor,
+      "https://gs1.org/voc/defaultLink": [{ href: "https://brand.example/product", title: "Product page" }],
+      "https://gs1.org/voc/instructions": [
+        { href: "https://cdn.example.com/manual.pdf", title: "Manual", type: "application/pdf" },
+      ],
+      "https://gs1.org/voc/pip": [{ href: "https://brand.example/product", title: "Product page" }],
+    });
+  });
+
+  it("should return a linkset when the client accepts linkset JSON", () => {
+    expect(answerResolverRequest(resolved, { acceptLinkset: true }).kind).toBe("linkset");
+  });
+
+  it("should redirect to the requested link type by CURIE or URI", () => {
+    expect(answerResolverRequest(resolved, { linkType: "gs1:instructions" })).toMatchObject({
+      kind: "redirect",
+      location: "https://cdn.example.com/manual.pdf",
+    });
+    expect(answerResolverRequest(resolved, { linkType: "https://gs1.org/voc/instructions" })).toMatchObject({
+      location: "https://cdn.example.com/manual.pdf",
+    });
+  });
+
+  it("should fall back to the default link", () => {
+    expect(answerResolverRequest(resolved)).toMatchObject({ kind: "redirect", linkType: "gs1:pip" });
+    expect(answerResolverRequest(resolved, { linkType: "gs1:recipeInfo" })).toMatchObject({
+      location: "https://brand.example/product",
+    });
+  });
+
+  it("should answer not found for unknown identifiers or unpublished content", () => {
+    expect(answerResolverRequest(null).kind).toBe("notFound");
+    expect(answerResolverRequest({ ...resolved, links: [] }).kind).toBe("notFound");
+  });
+});
@@ -1,13 +1,127 @@
 /**
  * Key Service Tests
  * -----------------
- * Unit tests for cryptographic key management
+ * Unit tests for cryptographic key management, and for key rotation with a
+ * mocked db: the conditional ACTIVE → ROTATING change, the rotation report
+ * and re-signing codes with saved progress
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { signData, verifySignature } from "../../server/services/keyService";
+import { KeyService, effectiveKeyStatus, signData, verifySignature } from "../../server/services/keyService";
 import crypto from "crypto";
 
+type Row = Record<string, unknown>;
+
+const store = vi.hoisted(() => ({
+  keys: new Map<number, Record<string, unknown>>(),
+  codes: [] as Record<string, unknown>[],
+  /** Runs when the successor key is created, before the old key changes state */
+  onCreateKey: undefined as (() => void) | undefined,
+  triggerSystem: vi.fn(async () => undefined),
+}));
+
+/** Plain equality plus `in`, `gt`, `lte` and `not: null` */
+function matches(row: Row, where: Row): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+      const { gt, lte, not } = condition as { gt?: number; lte?: Date; not?: null };
+      if (gt !== undefined) return (row[field] as number) > gt;
+      if (lte !== undefined) return (row[field] as Date) <= lte;
+      if ("not" in condition) return row[field] !== not;
+    }
+    return row[field] === condition;
+  });
+}
+
+function apply(row: Row, data: Row): void {
+  for (const [field, value] of Object.entries(data)) {
+    const increment = (value as { increment?: number } | null)?.increment;
+    row[field] = increment !== undefined ? (row[field] as number) + increment : value;
+  }
+}
+
+vi.mock("../../server/db", () => {
+  const key = {
+    findUnique: vi.fn(async ({ where }: { where: { id: number } }) => {
+      const row = store.keys.get(where.id);
+      return row ? { ...row } : null;
+    }),
+    findMany: vi.fn(async ({ where }: { where: Row }) => [...store.keys.values()].filter((row) => matches(row, where))),
+    create: vi.fn(async ({ data }: { data: Row }) => {
+      const row = { ...data, id: store.keys.size + 1, status: "ACTIVE", createdAt: new Date(), resignPending: false };
+      store.keys.set(row.id, row);
+      store.onCreateKey?.();
+      return { ...row };
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: number }; data: Row }) => {
+      const row = store.keys.get(where.id)!;
+      apply(row, data);
+      return { ...row };
+    }),
+    updateMany: vi.fn(async ({ where, data }: { where: Row; data: Row }) => {
+      const rows = [...store.keys.values()].filter((row) => matches(row, where));
+      rows.forEach((row) => apply(row, data));
+      return { count: rows.length };
+    }),
+  };
+  const optropicCode = {
+    count: vi.fn(async ({ where }: { where: Row }) => store.codes.filter((code) => matches(code, where)).length),
+    groupBy: vi.fn(async ({ where }: { where: Row }) => {
+      const counts = new Map<unknown, number>();
+      store.codes
+        .filter((code) => matches(code, where))
+        .forEach((code) => counts.set(code.batchId, (counts.get(code.batchId) ?? 0) + 1));
+      return [...counts].map(([batchId, count]) => ({ batchId, _count: { _all: count } }));
+    }),
+    findMany: vi.fn(async ({ where, take }: { where: Row; take: number }) =>
+      store.codes
+        .filter((code) => matches(code, where))
+        .sort((a, b) => (a.id as number) - (b.id as number))
+        .slice(0, take)
+        .map((code) => ({ ...code }))
+    ),
+    updateMany: vi.fn(async ({ where, data }: { where: Row; data: Row }) => {
+      const rows = store.codes.filter((code) => matches(code, where));
+      rows.forEach((row) => apply(row, data));
+      return { count: rows.length };
+    }),
+  };
+  const db = {
+    key,
+    optropicCode,
+    $transaction: vi.fn(async (callback: (tx: unknown) => Promise<unknown>) => await callback(db)),
+  };
+  return { db };
+});
+
+vi.mock("../../server/services/envelopeService", () => ({
+  EnvelopeService: {
+    resolveTenantId: vi.fn(async () => 1),
+    encryptPrivateKey: vi.fn(async (_tenantId: number, privateKey: string) => `enc:${privateKey}`),
+    decryptPrivateKey: vi.fn(async (encrypted: string) => encrypted.replace(/^enc:/, "")),
+    getDataKey: vi.fn(async () => ({})),
+  },
+}));
+
+vi.mock("../../server/services/notificationService", () => ({
+  NotificationService: { triggerSystem: store.triggerSystem },
+}));
+
+vi.mock("../../server/services/codeService", () => ({
+  allocateSerials: vi.fn(async () => 1),
+  resignCode: vi.fn((_privateKey: string, code: { codeValue: string; payload: Row }, newKeyId: number) => {
+    if (code.codeValue === "broken") {
+      throw new Error("Payload cannot be re-signed");
+    }
+    return {
+      codeValue: `resigned-${code.codeValue}`,
+      entropySeed: "seed",
+      signature: "signature",
+      payload: { ...code.payload, keyId: newKeyId },
+    };
+  }),
+}));
+
 describe("KeyService", () => {
   describe("signData and verifySignature", () => {
     let publicKey: string;
@@ -76,4 +190,149 @@ describe("KeyService", () => {
       expect(isValid).toBe(true);
     });
   });
+
+  describe("rotateKey", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      store.onCreateKey = undefined;
+      store.keys = new Map([
+        [
+          1,
+          {
+            id: 1,
+            keyName: "Line key",
+            keyType: "SIGNING",
+            algorithm: "prime256v1",
+            encryptedPrivateKey: "enc:old-private-key",
+            status: "ACTIVE",
+            isActive: true,
+            expiresAt: null,
+            projectId: 1,
+            pairedKeyId: null,
+            resignPending: false,
+            resignCursor: 0,
+            resignedCount: 0,
+            resignFailedCount: 0,
+          },
+        ],
+      ]);
+      store.codes = [
+        { id: 1, keyId: 1, isActive: true, serial: null, batchId: 5, codeValue: "a", payload: {} },
+        { id: 2, keyId: 1, isActive: true, serial: 7, batchId: 5, codeValue: "b", payload: {} },
+        { id: 3, keyId: 1, isActive: false, serial: null, batchId: null, codeValue: "c", payload: {} },
+      ];
+    });
+
+    it("should move the key to ROTATING and report the codes it affects", async () => {
+      const { newKey, report } = await KeyService.rotateKey(1, { gracePeriodDays: 10 });
+
+      const oldKey = store.keys.get(1)!;
+      expect(oldKey.status).toBe("ROTATING");
+      expect(oldKey.isActive).toBe(false);
+      expect(oldKey.successorKeyId).toBe(newKey.id);
+      expect(oldKey.resignPending).toBe(false);
+      expect(report.policy).toBe("RETAIN");
+      expect(report.affectedCodes).toEqual({
+        total: 3,
+        active: 2,
+        revoked: 1,
+        compact: 1,
+        json: 2,
+        byBatch: [
+          { batchId: 5, count: 2 },
+          { batchId: null, count: 1 },
+        ],
+      });
+      expect(report.resignQueued).toBe(0);
+      expect(report.graceEndsAt.getTime() - (oldKey.rotatedAt as Date).getTime()).toBe(10 * 24 * 60 * 60 * 1000);
+    });
+
+    it("should refuse a rotation when another one won", async () => {
+      store.onCreateKey = () => {
+        store.keys.get(1)!.status = "ROTATING";
+      };
+
+      await expect(KeyService.rotateKey(1)).rejects.toThrow("Key is already being rotated");
+    });
+
+    it("should refuse keys that are not active", async () => {
+      store.keys.get(1)!.status = "COMPROMISED";
+
+      await expect(KeyService.rotateKey(1)).rejects.toThrow("Only active keys can be rotated (key is COMPROMISED)");
+    });
+
+    it("should re-sign the active codes under the RESIGN policy", async () => {
+      const { newKey, report } = await KeyService.rotateKey(1, { policy: "RESIGN" });
+
+      expect(report.resignQueued).toBe(2);
+      await vi.waitFor(() => expect(store.keys.get(1)!.resignPending).toBe(false));
+      expect(store.codes.filter((code) => code.keyId === newKey.id).map((code) => code.id)).toEqual([1, 2]);
+      expect(store.triggerSystem).toHaveBeenCalledWith(expect.stringContaining("re-signed 2 codes"), "SUCCESS");
+    });
+  });
+
+  describe("resignCodes", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      store.keys = new Map([
+        [1, { id: 1, status: "ROTATING", projectId: 1, successorKeyId: 2, resignPending: true, resignCursor: 0, resignedCount: 0, resignFailedCount: 0 }],
+        [2, { id: 2, status: "ACTIVE", projectId: 1, encryptedPrivateKey: "enc:new-private-key" }],
+      ]);
+      store.codes = [
+        { id: 1, keyId: 1, isActive: true, codeValue: "a", payload: { keyId: 1 } },
+        { id: 2, keyId: 1, isActive: true, codeValue: "broken", payload: { keyId: 1 } },
+        { id: 3, keyId: 1, isActive: false, codeValue: "c", payload: { keyId: 1 } },
+        { id: 4, keyId: 1, isActive: true, codeValue: "d", payload: { keyId: 1 } },
+      ];
+    });
+
+    it("should re-sign active codes and keep their previous value", async () => {
+      const report = await KeyService.resignCodes(1, 2, 2);
+
+      expect(report).toEqual({ resigned: 2, failed: 1 });
+      expect(store.codes[0]).toMatchObject({
+        keyId: 2,
+        codeValue: "resigned-a",
+        previousCodeValue: "a",
+        previousKeyId: 1,
+        payload: { keyId: 2 },
+      });
+      expect(store.codes[1]).toMatchObject({ keyId: 1, codeValue: "broken" });
+      expect(store.codes[2]).toMatchObject({ keyId: 1, codeValue: "c" });
+      expect(store.codes[3]).toMatchObject({ keyId: 2, codeValue: "resigned-d", previousCodeValue: "d" });
+    });
+
+    it("should save progress on the key and clear the pending flag", async () => {
+      await KeyService.resignCodes(1, 2, 2);
+
+      expect(store.keys.get(1)).toMatchObject({
+        resignCursor: 4,
+        resignedCount: 2,
+        resignFailedCount: 1,
+        resignPending: false,
+      });
+    });
+
+    it("should continue after the last code a previous run passed", async () => {
+      store.keys.get(1)!.resignCursor = 2;
+
+      const report = await KeyService.resignCodes(1, 2);
+
+      expect(report).toEqual({ resigned: 1, failed: 0 });
+      expect(store.codes[0]).toMatchObject({ keyId: 1, codeValue: "a" });
+      expect(store.codes[3]).toMatchObject({ keyId: 2, codeValue: "resigned-d" });
+    });
+
+    it("should resume pending re-signs from the sweep", async () => {
+      expect(await KeyService.resumePendingResigns()).toBe(1);
+      expect(store.keys.get(1)!.resignPending).toBe(false);
+    });
+
+    it("should not retire a key while its re-sign is pending", () => {
+      const key = { status: "ROTATING", graceEndsAt: new Date(Date.now() - 1000) };
+
+      expect(effectiveKeyStatus({ ...key, resignPending: true })).toBe("ROTATING");
+      expect(effectiveKeyStatus({ ...key, resignPending: false })).toBe("RETIRED");
+    });
+  });
 });
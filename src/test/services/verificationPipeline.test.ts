@@ -0,0 +1,515 @@
+/**
+ * Verification Pipeline Conformance Tests
+ * ---------------------------------------
+ * Every code format the platform issues must verify through the shared
+ * pipeline, and every failure mode must map to a stable reason.
+ */
+
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import crypto from "crypto";
+import {
+  buildCompactCode,
+  buildSignedCode,
+  decryptPayload,
+  resignCode,
+  type CodePayload,
+  type EncryptedPayload,
+} from "../../server/services/codeService";
+import {
+  createVerificationPipeline,
+  DEFAULT_CHECKS,
+  parseCodeValue,
+  type VerifiableCode,
+  type VerificationCheck,
+  type VerificationDeps,
+} from "../../server/services/verificationPipeline";
+import { canonicalize } from "../../server/utils/jcs";
+import { generateKeyPairFor } from "../../server/utils/cryptoSuites";
+import { deriveTagKeys, emulateSunMessage } from "../../server/utils/ntag424";
+import type { TenantDataKey } from "../../server/services/envelopeService";
+import type { VerifiableTagPairing } from "../../server/services/tagPairingService";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let keyPair: { publicKey: string; privateKey: string };
+
+const dataKey: TenantDataKey = { tenantId: 3, version: 1, ref: "3.1", key: crypto.randomBytes(32) };
+
+beforeAll(() => {
+  keyPair = crypto.generateKeyPairSync("ec", {
+    namedCurve: "prime256v1",
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+});
+
+const params = {
+  projectId: 1,
+  keyId: 7,
+  codeType: "OPTROPIC" as const,
+  encryptionLevel: "AES_256" as const,
+  metadata: { lot: "A-1", nested: { b: 2, a: 1 } },
+};
+
+/**
+ * Store an issued code the way Postgres JSONB would: keys reordered
+ */
+function issued(payload: CodePayload, overrides: Partial<VerifiableCode> = {}): VerifiableCode {
+  const reordered = JSON.parse(canonicalize(payload)) as unknown;
+  return {
+    id: 1,
+    codeType: "OPTROPIC",
+    encryptionLevel: "AES_256",
+    createdAt: new Date(),
+    isActive: true,
+    payload: reordered,
+    key: {
+      id: 7,
+      isActive: true,
+      status: "ACTIVE",
+      rotationPolicy: null,
+      graceEndsAt: null,
+      algorithm: "prime256v1",
+      publicKey: keyPair.publicKey,
+      expiresAt: null,
+    },
+    project: { id: 1, name: "Test Project", userId: 3 },
+    ...overrides,
+  };
+}
+
+function pipelineFor(code: VerifiableCode | null, overrides: Partial<VerificationDeps> = {}) {
+  const deps = {
+    findCode: vi.fn(async () => code),
+    findTagPairing: vi.fn(async (): Promise<VerifiableTagPairing | null> => null),
+    advanceTagCounter: vi.fn(async () => true),
+    logScan: vi.fn(async () => undefined),
+    notifyRevokedUsage: vi.fn(async () => undefined),
+    decrypt: async (encrypted: EncryptedPayload) => decryptPayload(encrypted, { dataKey }),
+    ...overrides,
+  };
+  return { deps, pipeline: createVerificationPipeline({ deps }) };
+}
+
+/**
+ * Sign the way scheme 1 did: ECDSA over a SHA-256 digest of JSON.stringify
+ */
+function legacyCodeValue(payload: CodePayload): string {
+  const digest = crypto.createHash("sha256").update(JSON.stringify(payload)).digest();
+  const sign = crypto.createSign("SHA256");
+  sign.update(digest);
+  const signature = sign.sign(keyPair.privateKey).toString("base64");
+  return Buffer.from(JSON.stringify({ e: payload.entropySeed, s: signature, k: payload.keyId })).toString(
+    "base64url"
+  );
+}
+
+describe("JCS (RFC 8785)", () => {
+  it("should sort members and serialize numbers like ECMAScript", () => {
+    expect(canonicalize({ b: [1e21, 0.000001, 1e-7, -0], a: "€\n", c: undefined })).toBe(
+      '{"a":"€\\n","b":[1e+21,0.000001,1e-7,0]}'
+    );
+  });
+
+  it("should sort by UTF-16 code units", () => {
+    expect(canonicalize({ "\u20ac": 1, "\r": 2, "\ud83d\ude00": 3, "1": 4, "\u0080": 5 })).toBe(
+      '{"\\r":2,"1":4,"\u0080":5,"\u20ac":1,"\ud83d\ude00":3}'
+    );
+  });
+
+  it("should reject values JSON cannot represent", () => {
+    expect(() => canonicalize({ n: NaN })).toThrow();
+  });
+});
+
+describe("Verification Pipeline", () => {
+  describe("scheme conformance", () => {
+    it("should verify JCS-signed plaintext codes", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline } = pipelineFor(issued(signed.payload));
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(parseCodeValue(signed.codeValue)).toMatchObject({ scheme: "JCS" });
+      expect(outcome).toMatchObject({ success: true, scheme: "JCS", trustScore: 100 });
+    });
+
+    it("should verify JCS-signed codes with an encrypted payload", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, { ...params, encryptPayload: true, dataKey });
+      const { pipeline } = pipelineFor(issued(signed.payload));
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.payload).toMatchObject({ entropySeed: signed.entropySeed });
+    });
+
+    it("should verify compact codes", async () => {
+      const signed = buildCompactCode(keyPair.privateKey, 99, params);
+      const { pipeline, deps } = pipelineFor(issued(signed.payload));
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome).toMatchObject({ success: true, scheme: "COMPACT_V1" });
+      expect(deps.findCode).toHaveBeenCalledWith(expect.objectContaining({ keyId: 7 }));
+    });
+
+    it("should verify Ed25519 codes by the stored key algorithm", async () => {
+      const edKeys = generateKeyPairFor("ed25519");
+      const signed = buildSignedCode(edKeys.privateKey, { ...params, encryptionLevel: "ED25519" });
+      const code = issued(signed.payload, { encryptionLevel: "ED25519" });
+      const { pipeline } = pipelineFor({
+        ...code,
+        key: { ...code.key!, algorithm: "ed25519", publicKey: edKeys.publicKey },
+      });
+
+      expect(await pipeline.verify({ codeValue: signed.codeValue })).toMatchObject({ success: true, scheme: "JCS" });
+    });
+
+    it("should verify RSA-PSS codes with an RSA-OAEP wrapped payload", async () => {
+      const rsaKeys = generateKeyPairFor("rsa-2048");
+      const signed = buildSignedCode(rsaKeys.privateKey, {
+        ...params,
+        encryptionLevel: "RSA_2048",
+        encryptPayload: true,
+        dataKey,
+      });
+      const code = issued(signed.payload, { encryptionLevel: "RSA_2048" });
+      const { pipeline } = pipelineFor(
+        { ...code, key: { ...code.key!, algorithm: "rsa-2048", publicKey: rsaKeys.publicKey } },
+        { decrypt: async (encrypted) => decryptPayload(encrypted, { dataKey, privateKey: rsaKeys.privateKey }) }
+      );
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(signed.encryptedPayload).toMatchObject({ alg: "RSA-OAEP-256+A256GCM" });
+      expect(outcome).toMatchObject({ success: true, payload: { entropySeed: signed.entropySeed } });
+    });
+
+    it("should verify compact codes signed with Ed25519", async () => {
+      const edKeys = generateKeyPairFor("ed25519");
+      const signed = buildCompactCode(edKeys.privateKey, 5, { ...params, encryptionLevel: "ED25519" });
+      const code = issued(signed.payload, { encryptionLevel: "ED25519" });
+      const { pipeline } = pipelineFor({
+        ...code,
+        key: { ...code.key!, algorithm: "ed25519", publicKey: edKeys.publicKey },
+      });
+
+      expect(await pipeline.verify({ codeValue: signed.codeValue })).toMatchObject({
+        success: true,
+        scheme: "COMPACT_V1",
+      });
+    });
+
+    it("should verify legacy v1 codes despite JSONB key reordering", async () => {
+      // Top-level order is rebuilt; nested metadata order cannot be recovered
+      const signed = buildSignedCode(keyPair.privateKey, { ...params, metadata: { lot: "A-1" } });
+      const codeValue = legacyCodeValue(signed.payload);
+      const { pipeline } = pipelineFor(issued(signed.payload));
+
+      const outcome = await pipeline.verify({ codeValue });
+
+      expect(outcome).toMatchObject({ success: true, scheme: "LEGACY_SHA256_DIGEST" });
+      expect(outcome.warnings).toContain("Code uses the deprecated v1 signature scheme");
+    });
+  });
+
+  describe("failure modes", () => {
+    it("should reject malformed and unknown-scheme code values", async () => {
+      const { pipeline, deps } = pipelineFor(null);
+      const future = Buffer.from(JSON.stringify({ v: 99, e: "x", s: "y", k: 1 })).toString("base64url");
+
+      expect((await pipeline.verify({ codeValue: "%%%" })).reason).toBe("INVALID_FORMAT");
+      expect((await pipeline.verify({ codeValue: future })).reason).toBe("UNSUPPORTED_SCHEME");
+      expect(deps.findCode).not.toHaveBeenCalled();
+    });
+
+    it("should report unknown codes without logging a scan", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline, deps } = pipelineFor(null);
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome.reason).toBe("CODE_NOT_FOUND");
+      expect(deps.logScan).not.toHaveBeenCalled();
+    });
+
+    it("should reject revoked codes and notify the owner", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline, deps } = pipelineFor(issued(signed.payload, { isActive: false }));
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome.reason).toBe("CODE_REVOKED");
+      expect(deps.notifyRevokedUsage).toHaveBeenCalledWith(1, 3);
+    });
+
+    it("should reject codes whose key is inactive", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = issued(signed.payload);
+      const { pipeline } = pipelineFor({ ...code, key: { ...code.key!, isActive: false } });
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("KEY_INACTIVE");
+    });
+
+    it("should reject codes issued after their key expired", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = issued(signed.payload);
+      const { pipeline } = pipelineFor({
+        ...code,
+        key: { ...code.key!, expiresAt: new Date(Date.now() - DAY) },
+      });
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("KEY_EXPIRED");
+    });
+
+    it("should accept codes from a since-expired key with a lower trust score", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = issued(signed.payload, { createdAt: new Date(Date.now() - 10 * DAY) });
+      const { pipeline } = pipelineFor({
+        ...code,
+        key: { ...code.key!, expiresAt: new Date(Date.now() - DAY) },
+      });
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.trustScore).toBe(70);
+      expect(outcome.warnings).toContain("Signing key has expired");
+    });
+
+    it("should reject a signature checked against another key algorithm", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = issued(signed.payload);
+      const { pipeline } = pipelineFor({ ...code, key: { ...code.key!, algorithm: "ed25519" } });
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("INVALID_SIGNATURE");
+    });
+
+    it("should reject a payload that no longer matches the signature", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline } = pipelineFor(issued({ ...signed.payload, contentId: 5 }));
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("INVALID_SIGNATURE");
+    });
+
+    it("should reject tampered ciphertext", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, { ...params, encryptPayload: true, dataKey });
+      const decoded = JSON.parse(Buffer.from(signed.codeValue, "base64url").toString("utf8")) as Record<
+        string,
+        string
+      >;
+      decoded.enc = Buffer.from("tampered").toString("base64");
+      const codeValue = Buffer.from(JSON.stringify(decoded)).toString("base64url");
+      const { pipeline } = pipelineFor(issued(signed.payload));
+
+      expect((await pipeline.verify({ codeValue })).reason).toBe("DECRYPTION_FAILED");
+    });
+
+    it("should not decrypt payloads with another tenant's data key", async () => {
+      const otherKey: TenantDataKey = { tenantId: 4, version: 1, ref: "4.1", key: crypto.randomBytes(32) };
+      const signed = buildSignedCode(keyPair.privateKey, { ...params, encryptPayload: true, dataKey: otherKey });
+      const { pipeline } = pipelineFor(issued(signed.payload));
+
+      expect(signed.encryptedPayload?.dataKey).toBe("4.1");
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("DECRYPTION_FAILED");
+    });
+  });
+
+  describe("key rotation", () => {
+    function rotated(code: VerifiableCode, status: string, rotationPolicy: string, graceEndsAt: Date) {
+      return { ...code, key: { ...code.key!, isActive: false, status, rotationPolicy, graceEndsAt } };
+    }
+
+    it("should verify codes under a rotating key with a warning", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = rotated(issued(signed.payload), "ROTATING", "RETAIN", new Date(Date.now() + DAY));
+      const { pipeline } = pipelineFor(code);
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome).toMatchObject({ success: true, trustScore: 90 });
+      expect(outcome.warnings).toContain("Signing key is being rotated");
+    });
+
+    it("should keep verifying codes of a retired key under the RETAIN policy", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = rotated(issued(signed.payload), "RETIRED", "RETAIN", new Date(Date.now() - DAY));
+      const { pipeline } = pipelineFor(code);
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.warnings).toContain("Signing key has been retired");
+    });
+
+    it("should reject codes once a RESIGN rotation's grace window has ended", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      // Not yet swept to RETIRED
+      const code = rotated(issued(signed.payload), "ROTATING", "RESIGN", new Date(Date.now() - DAY));
+      const { pipeline } = pipelineFor(code);
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("KEY_RETIRED");
+    });
+
+    it("should reject codes of a compromised key", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const code = issued(signed.payload);
+      const { pipeline } = pipelineFor({ ...code, key: { ...code.key!, isActive: false, status: "COMPROMISED" } });
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("KEY_COMPROMISED");
+    });
+
+    it("should verify re-signed codes and old labels during the grace window", async () => {
+      const successor = generateKeyPairFor("prime256v1");
+      const signed = buildSignedCode(keyPair.privateKey, { ...params, encryptPayload: true, dataKey });
+      const resigned = resignCode(successor.privateKey, signed, 8, { dataKey });
+      const newKey = { ...issued(signed.payload).key!, id: 8, publicKey: successor.publicKey };
+
+      const current = pipelineFor({ ...issued(resigned.payload), key: newKey });
+      const currentOutcome = await current.pipeline.verify({ codeValue: resigned.codeValue });
+
+      const oldLabel = rotated(issued(signed.payload), "ROTATING", "RESIGN", new Date(Date.now() + DAY));
+      const previous = pipelineFor({ ...oldLabel, rebound: true });
+      const previousOutcome = await previous.pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(parseCodeValue(resigned.codeValue)).toMatchObject({ keyId: 8, entropySeed: signed.entropySeed });
+      expect(currentOutcome).toMatchObject({ success: true, trustScore: 100 });
+      expect(previousOutcome.success).toBe(true);
+      expect(previousOutcome.warnings).toContain("Code has been re-signed with a new key; replace this label");
+    });
+
+    it("should re-sign compact codes onto a serial of the new key", async () => {
+      const successor = generateKeyPairFor("prime256v1");
+      const signed = buildCompactCode(keyPair.privateKey, 41, params);
+      const resigned = resignCode(successor.privateKey, signed, 8, { serial: 3 });
+      const { pipeline } = pipelineFor({
+        ...issued(resigned.payload),
+        key: { ...issued(signed.payload).key!, id: 8, publicKey: successor.publicKey },
+      });
+
+      expect(resigned.payload).toMatchObject({ keyId: 8, serial: 3, entropySeed: signed.entropySeed });
+      expect((await pipeline.verify({ codeValue: resigned.codeValue })).success).toBe(true);
+      expect(() => resignCode(successor.privateKey, signed, 8)).toThrow(/serial/);
+    });
+
+    it("should reject old labels once a RESIGN rotation has retired the key", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const oldLabel = rotated(issued(signed.payload), "RETIRED", "RESIGN", new Date(Date.now() - DAY));
+      const { pipeline } = pipelineFor({ ...oldLabel, rebound: true });
+
+      expect((await pipeline.verify({ codeValue: signed.codeValue })).reason).toBe("KEY_RETIRED");
+    });
+  });
+
+  describe("tag pairing", () => {
+    const uid = "04DE5F1EACC040";
+    const tagKeys = deriveTagKeys(crypto.randomBytes(16), uid);
+    const pairing: VerifiableTagPairing = { id: 5, tagUid: uid, lastCounter: 10, keys: tagKeys };
+
+    function pairedPipeline(overrides: Partial<VerificationDeps> = {}) {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline, deps } = pipelineFor(issued(signed.payload), {
+        findTagPairing: vi.fn(async () => pairing),
+        ...overrides,
+      });
+      return { signed, pipeline, deps };
+    }
+
+    it("should trust a scan fully only when code and tag both match", async () => {
+      const { signed, pipeline, deps } = pairedPipeline();
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue, tag: emulateSunMessage(tagKeys, uid, 11) });
+
+      expect(outcome).toMatchObject({ success: true, trustScore: 100, factors: ["OPTICAL", "TAG"] });
+      expect(deps.advanceTagCounter).toHaveBeenCalledWith(5, 11);
+      expect(deps.logScan).toHaveBeenCalledWith(expect.objectContaining({ tagVerified: true }));
+    });
+
+    it("should lower trust for a paired code scanned without its tag", async () => {
+      const { signed, pipeline, deps } = pairedPipeline();
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue });
+
+      expect(outcome).toMatchObject({ success: true, trustScore: 70, factors: ["OPTICAL"] });
+      expect(outcome.warnings).toContain("Paired tag was not presented");
+      expect(deps.logScan).toHaveBeenCalledWith(expect.objectContaining({ tagVerified: undefined }));
+    });
+
+    it("should reject a response from another tag", async () => {
+      const otherUid = "04AABBCCDDEEFF";
+      const { signed, pipeline } = pairedPipeline();
+
+      const forged = await pipeline.verify({
+        codeValue: signed.codeValue,
+        tag: emulateSunMessage(deriveTagKeys(crypto.randomBytes(16), uid), uid, 11),
+      });
+      const swapped = await pipeline.verify({
+        codeValue: signed.codeValue,
+        tag: emulateSunMessage({ ...tagKeys, fileReadKey: deriveTagKeys(crypto.randomBytes(16), otherUid).fileReadKey }, otherUid, 11),
+      });
+
+      expect(forged).toMatchObject({ success: false, reason: "TAG_MISMATCH" });
+      expect(swapped).toMatchObject({ success: false, reason: "TAG_MISMATCH" });
+    });
+
+    it("should reject a replayed tag response", async () => {
+      const { signed, pipeline, deps } = pairedPipeline({ advanceTagCounter: vi.fn(async () => false) });
+
+      const stale = await pipeline.verify({ codeValue: signed.codeValue, tag: emulateSunMessage(tagKeys, uid, 10) });
+      const raced = await pipeline.verify({ codeValue: signed.codeValue, tag: emulateSunMessage(tagKeys, uid, 12) });
+
+      expect(stale.reason).toBe("TAG_REPLAYED");
+      expect(raced.reason).toBe("TAG_REPLAYED");
+      expect(deps.advanceTagCounter).toHaveBeenCalledTimes(1);
+      expect(deps.logScan).toHaveBeenLastCalledWith(expect.objectContaining({ tagVerified: false }));
+    });
+
+    it("should reject tags of a compromised pairing key", async () => {
+      const { signed, pipeline } = pairedPipeline({ findTagPairing: vi.fn(async () => ({ ...pairing, keys: null })) });
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue, tag: emulateSunMessage(tagKeys, uid, 11) });
+
+      expect(outcome.reason).toBe("TAG_MISMATCH");
+    });
+  });
+
+  describe("pluggable checks", () => {
+    it("should log one scan per verification with the request context", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const { pipeline, deps } = pipelineFor(issued(signed.payload));
+
+      await pipeline.verify({ codeValue: signed.codeValue, country: "DE", deviceType: "SCANNER" });
+
+      expect(deps.logScan).toHaveBeenCalledTimes(1);
+      expect(deps.logScan).toHaveBeenCalledWith(
+        expect.objectContaining({ codeId: 1, verificationSuccess: true, country: "DE", deviceType: "SCANNER" })
+      );
+    });
+
+    it("should run custom checks in order and stop at the first failure", async () => {
+      const signed = buildSignedCode(keyPair.privateKey, params);
+      const geofence: VerificationCheck = {
+        name: "geofence",
+        run: (ctx) =>
+          ctx.request.country === "XX"
+            ? { reason: "INVALID_SIGNATURE", message: "Region blocked", riskScore: 80 }
+            : undefined,
+      };
+      const later = { name: "later", run: vi.fn() };
+
+      const pipeline = createVerificationPipeline({
+        checks: [geofence, later, ...DEFAULT_CHECKS],
+        deps: {
+          findCode: async () => issued(signed.payload),
+          logScan: async () => undefined,
+        },
+      });
+
+      const outcome = await pipeline.verify({ codeValue: signed.codeValue, country: "XX" });
+
+      expect(outcome).toMatchObject({ success: false, message: "Region blocked" });
+      expect(later.run).not.toHaveBeenCalled();
+    });
+  });
+});
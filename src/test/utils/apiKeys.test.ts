@@ -0,0 +1,96 @@
+/**
+ * API Key Tests
+ * -------------
+ * Keys are `opk_<prefix>_<secret>` and stored as a hash, expire, revoke and
+ * follow their service account, and only hold scopes the tenant grants.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Permission } from "@optropic/shared";
+import {
+  apiKeyScopes,
+  generateApiKey,
+  grantedScopes,
+  hashApiKey,
+  isApiKeyUsable,
+  looksLikeApiKey,
+  matchesApiKeyHash,
+  parseApiKey,
+  shouldTrackUse,
+} from "../../server/utils/apiKeys";
+
+const now = new Date("2025-11-08T12:00:00Z");
+
+describe("generateApiKey", () => {
+  it("returns a parseable key with its prefix and hash", () => {
+    const { key, prefix, keyHash } = generateApiKey();
+
+    expect(looksLikeApiKey(key)).toBe(true);
+    expect(parseApiKey(key)).toBe(prefix);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).not.toContain(key);
+  });
+
+  it("never repeats", () => {
+    expect(generateApiKey().key).not.toBe(generateApiKey().key);
+  });
+});
+
+describe("parseApiKey", () => {
+  it("rejects malformed keys", () => {
+    expect(parseApiKey("opk_short_secret")).toBeNull();
+    expect(parseApiKey("eyJhbGciOiJIUzI1NiJ9.payload.signature")).toBeNull();
+  });
+});
+
+describe("matchesApiKeyHash", () => {
+  it("matches only the original key", () => {
+    const { key, keyHash } = generateApiKey();
+
+    expect(matchesApiKeyHash(key, keyHash)).toBe(true);
+    expect(matchesApiKeyHash(`${key}x`, keyHash)).toBe(false);
+    expect(matchesApiKeyHash(key, "not-a-hash")).toBe(false);
+  });
+});
+
+describe("isApiKeyUsable", () => {
+  const key = { revokedAt: null, expiresAt: null, serviceAccount: { isActive: true } };
+
+  it("accepts active keys without expiry", () => {
+    expect(isApiKeyUsable(key, now)).toBe(true);
+    expect(isApiKeyUsable({ ...key, expiresAt: new Date("2025-11-09T00:00:00Z") }, now)).toBe(true);
+  });
+
+  it("rejects revoked and expired keys", () => {
+    expect(isApiKeyUsable({ ...key, revokedAt: now }, now)).toBe(false);
+    expect(isApiKeyUsable({ ...key, expiresAt: now }, now)).toBe(false);
+  });
+
+  it("rejects keys of disabled service accounts", () => {
+    expect(isApiKeyUsable({ ...key, serviceAccount: { isActive: false } }, now)).toBe(false);
+  });
+});
+
+describe("apiKeyScopes", () => {
+  it("drops unknown and unscopable permissions", () => {
+    expect(apiKeyScopes(["codes:generate", "scans:write", "roles:manage", "analytics:global", "bogus"])).toEqual([
+      "codes:generate",
+      "scans:write",
+    ]);
+  });
+});
+
+describe("grantedScopes", () => {
+  it("keeps scopes the tenant holds", () => {
+    const tenant = new Set<Permission>(["codes:read", "codes:generate"]);
+    expect([...grantedScopes(["codes:generate", "scans:write"], tenant)]).toEqual(["codes:generate"]);
+  });
+});
+
+describe("shouldTrackUse", () => {
+  it("writes at most once per interval", () => {
+    expect(shouldTrackUse(null, now)).toBe(true);
+    expect(shouldTrackUse(new Date(now.getTime() - 30_000), now)).toBe(false);
+    expect(shouldTrackUse(new Date(now.getTime() - 60_000), now)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Asset Import Tests
+ * ------------------
+ * CSV/JSON parsing, per-row validation of GS1 identifiers and cross-row
+ * duplicate and packaging hierarchy checks.
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkImportBatch, parseCsv, readImportRows, validateImportRow } from "../../server/utils/assetImport";
+import { normalizeSscc } from "../../server/utils/gs1DigitalLink";
+
+// Valid check digits
+const GTIN = "09506000134352";
+const PALLET_SSCC = "106141411234567897";
+const CASE_SSCC = "006141411234567890";
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, CRLF and blank lines", () => {
+    expect(parseCsv('name,note\r\n"Box, large","say ""hi"""\r\n\r\nplain,x')).toEqual([
+      ["name", "note"],
+      ["Box, large", 'say "hi"'],
+      ["plain", "x"],
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    expect(() => parseCsv('name\n"open')).toThrow("unterminated");
+  });
+});
+
+describe("readImportRows", () => {
+  it("maps CSV column aliases", () => {
+    const rows = readImportRows("CSV", `Name,GTIN,Lot,Serial,Expiry\nAspirin,${GTIN},L1,S1,2027-01-31`);
+    expect(rows).toEqual([
+      { assetName: "Aspirin", gtin: GTIN, batchNumber: "L1", serialNumber: "S1", expiryDate: "2027-01-31" },
+    ]);
+  });
+
+  it("reads JSON arrays and requires objects", () => {
+    expect(readImportRows("JSON", JSON.stringify([{ assetName: "Pallet 1", sscc: PALLET_SSCC }]))).toEqual([
+      { assetName: "Pallet 1", sscc: PALLET_SSCC },
+    ]);
+    expect(() => readImportRows("JSON", "[1]")).toThrow("array of objects");
+    expect(() => readImportRows("CSV", "gtin\n123")).toThrow("assetName");
+  });
+});
+
+describe("validateImportRow", () => {
+  it("accepts a valid row and normalises identifiers", () => {
+    const { asset, errors } = validateImportRow(
+      { assetName: "Aspirin", gtin: "9506000134352", expiryDate: "2027-01-31" },
+      1,
+      "PRODUCT"
+    );
+    expect(errors).toEqual([]);
+    expect(asset).toMatchObject({ gtin: GTIN, assetType: "PRODUCT", expiryDate: new Date("2027-01-31T00:00:00Z") });
+  });
+
+  it("reports every problem of a row", () => {
+    const { asset, errors } = validateImportRow(
+      { gtin: "09506000134353", serialNumber: "bad serial!", expiryDate: "2027-02-30", packagingLevel: "BOX" },
+      4,
+      "PRODUCT"
+    );
+    expect(asset).toBeNull();
+    expect(errors.map((error) => error.field)).toEqual([
+      "assetName",
+      "packagingLevel",
+      "gtin",
+      "serialNumber",
+      "expiryDate",
+    ]);
+    expect(errors.every((error) => error.row === 4)).toBe(true);
+  });
+
+  it("requires an SSCC on cases and pallets and defaults SSCC rows to cases", () => {
+    expect(validateImportRow({ assetName: "Pallet", packagingLevel: "pallet" }, 1, "PACKAGE").errors[0]?.field).toBe(
+      "sscc"
+    );
+    expect(validateImportRow({ assetName: "Case", sscc: CASE_SSCC }, 1, "PACKAGE").asset?.packagingLevel).toBe("CASE");
+  });
+});
+
+describe("checkImportBatch", () => {
+  it("flags duplicates and parents that are not a higher level", () => {
+    const rows = [
+      { assetName: "Case A", sscc: CASE_SSCC, parentSscc: PALLET_SSCC },
+      { assetName: "Pallet", sscc: PALLET_SSCC, packagingLevel: "PALLET", parentSscc: CASE_SSCC },
+      { assetName: "Item", gtin: GTIN, serialNumber: "1", parentSscc: CASE_SSCC },
+      { assetName: "Item again", gtin: GTIN, serialNumber: "1" },
+      { assetName: "Case B", sscc: CASE_SSCC },
+    ].map((row, index) => validateImportRow(row, index + 1, "PRODUCT"));
+
+    expect(checkImportBatch(rows)).toEqual([
+      { row: 4, field: "serialNumber", message: "Duplicate GTIN and serial (also on row 3)" },
+      { row: 5, field: "sscc", message: "Duplicate SSCC (also on row 1)" },
+      { row: 2, field: "parentSscc", message: "A pallet cannot be packed into a case" },
+    ]);
+  });
+});
+
+describe("normalizeSscc", () => {
+  it("validates the check digit and accepts the (00) prefix", () => {
+    expect(normalizeSscc(`(00)${CASE_SSCC}`)).toBe(CASE_SSCC);
+    expect(() => normalizeSscc("006141411234567891")).toThrow("check digit");
+    expect(() => normalizeSscc("123")).toThrow("18 digits");
+  });
+});
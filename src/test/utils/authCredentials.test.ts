@@ -0,0 +1,69 @@
+/**
+ * Request Credential Tests
+ * ------------------------
+ * Credentials come from an API key, the Bearer header or the session
+ * cookie, headers win, and the cookie is written HttpOnly and cleared with
+ * Max-Age 0.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  SESSION_COOKIE,
+  clearedSessionCookie,
+  parseCookies,
+  readCredentials,
+  sessionCookie,
+} from "../../server/utils/authCredentials";
+
+describe("parseCookies", () => {
+  it("splits and decodes cookies", () => {
+    expect(parseCookies("a=1; b=hello%20world;c=x=y")).toEqual({ a: "1", b: "hello world", c: "x=y" });
+  });
+
+  it("ignores empty and malformed parts", () => {
+    expect(parseCookies(null)).toEqual({});
+    expect(parseCookies("; novalue; =orphan; ok=%E0%A4%A")).toEqual({ ok: "%E0%A4%A" });
+  });
+});
+
+describe("readCredentials", () => {
+  it("reads the Bearer header", () => {
+    expect(readCredentials(new Headers({ authorization: "Bearer abc" }))).toEqual({ source: "header", token: "abc" });
+  });
+
+  it("falls back to the session cookie", () => {
+    const headers = new Headers({ cookie: `theme=dark; ${SESSION_COOKIE}=jwt.value` });
+    expect(readCredentials(headers)).toEqual({ source: "cookie", token: "jwt.value" });
+  });
+
+  it("prefers the header over the cookie", () => {
+    const headers = new Headers({ authorization: "Bearer header", cookie: `${SESSION_COOKIE}=cookie` });
+    expect(readCredentials(headers)?.source).toBe("header");
+  });
+
+  it("reads API keys from their header or as bearer token", () => {
+    expect(readCredentials(new Headers({ "x-api-key": "opk_key" }))).toEqual({ source: "api-key", token: "opk_key" });
+    expect(readCredentials(new Headers({ authorization: "Bearer opk_key" }))?.source).toBe("api-key");
+  });
+
+  it("has nothing without credentials", () => {
+    expect(readCredentials(new Headers())).toBeNull();
+    expect(readCredentials(new Headers({ authorization: "Basic dXNlcjpwdw==" }))).toBeNull();
+    expect(readCredentials(new Headers({ authorization: "Bearer " }))).toBeNull();
+  });
+});
+
+describe("sessionCookie", () => {
+  it("is HttpOnly and SameSite", () => {
+    const cookie = sessionCookie("jwt", 3600, true);
+    expect(cookie).toBe(`${SESSION_COOKIE}=jwt; Path=/; Max-Age=3600; HttpOnly; SameSite=Lax; Secure`);
+  });
+
+  it("drops Secure outside production", () => {
+    expect(sessionCookie("jwt", 60, false)).not.toContain("Secure");
+  });
+
+  it("clears with Max-Age 0", () => {
+    expect(clearedSessionCookie(false)).toBe(`${SESSION_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Compact Code & Offline Verification Tests
+ * -----------------------------------------
+ * Binary code format round-trips and bundle-only verification
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import crypto from "crypto";
+import {
+  COMPACT_CODE_LENGTH,
+  decodeCompactCode,
+  isCompactCode,
+  signCompactCode,
+  verifyCompactSignature,
+} from "../../server/utils/compactCode";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  signBundle,
+  toSerialRanges,
+  verifyBundleSignature,
+  verifyCodeOffline,
+  type VerificationBundle,
+} from "../../server/utils/verificationBundle";
+
+function generateKeyPair() {
+  return crypto.generateKeyPairSync("ec", {
+    namedCurve: "prime256v1",
+    publicKeyEncoding: { type: "spki", format: "pem" },
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+  });
+}
+
+describe("Compact Codes", () => {
+  let keyPair: { publicKey: string; privateKey: string };
+
+  beforeAll(() => {
+    keyPair = generateKeyPair();
+  });
+
+  describe("format", () => {
+    it("should round-trip header fields", () => {
+      const codeValue = signCompactCode(
+        { keyId: 42, serial: 123456789, codeType: "GS1_COMPLIANT" },
+        keyPair.privateKey
+      );
+      const decoded = decodeCompactCode(codeValue)!;
+
+      expect(Buffer.from(codeValue, "base64url")).toHaveLength(COMPACT_CODE_LENGTH);
+      expect(codeValue).toHaveLength(102);
+      expect(decoded.keyId).toBe(42);
+      expect(decoded.serial).toBe(123456789);
+      expect(decoded.codeType).toBe("GS1_COMPLIANT");
+      expect(verifyCompactSignature(decoded, keyPair.publicKey)).toBe(true);
+    });
+
+    it("should not treat legacy JSON code values as compact", () => {
+      const legacy = Buffer.from(JSON.stringify({ e: "seed", s: "sig", k: 1 })).toString("base64url");
+
+      expect(isCompactCode(legacy)).toBe(false);
+      expect(decodeCompactCode("not base64!")).toBeNull();
+    });
+
+    it("should reject serials outside the 48-bit range", () => {
+      expect(() =>
+        signCompactCode({ keyId: 1, serial: 0, codeType: "OPTROPIC" }, keyPair.privateKey)
+      ).toThrow(/Serial/);
+    });
+
+    it("should fail verification when the serial is tampered", () => {
+      const codeValue = signCompactCode({ keyId: 1, serial: 7, codeType: "OPTROPIC" }, keyPair.privateKey);
+      const bytes = Buffer.from(codeValue, "base64url");
+      bytes.writeUIntBE(8, 6, 6);
+
+      const tampered = decodeCompactCode(bytes.toString("base64url"))!;
+      expect(verifyCompactSignature(tampered, keyPair.publicKey)).toBe(false);
+    });
+
+    it("should fail verification with another key", () => {
+      const codeValue = signCompactCode({ keyId: 1, serial: 7, codeType: "OPTROPIC" }, keyPair.privateKey);
+
+      expect(verifyCompactSignature(decodeCompactCode(codeValue)!, generateKeyPair().publicKey)).toBe(false);
+    });
+  });
+
+  describe("offline verification bundle", () => {
+    let bundle: VerificationBundle;
+    const revokedKey = generateKeyPair();
+
+    beforeAll(() => {
+      bundle = signBundle(
+        {
+          format: BUNDLE_FORMAT,
+          version: BUNDLE_VERSION,
+          projectId: 1,
+          issuedAt: new Date().toISOString(),
+          expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          keys: [
+            { keyId: 1, algorithm: "prime256v1", publicKey: keyPair.publicKey, status: "ACTIVE", expiresAt: null },
+            { keyId: 2, algorithm: "prime256v1", publicKey: revokedKey.publicKey, status: "REVOKED", expiresAt: null },
+          ],
+          revocations: [{ keyId: 1, serials: toSerialRanges([10, 11, 12, 20]) }],
+        },
+        1,
+        keyPair.privateKey
+      );
+    });
+
+    it("should collapse serials into ranges", () => {
+      expect(toSerialRanges([5, 3, 4, 9, 3])).toEqual([[3, 5], [9, 9]]);
+    });
+
+    it("should verify a valid code", () => {
+      const codeValue = signCompactCode({ keyId: 1, serial: 1, codeType: "OPTROPIC" }, keyPair.privateKey);
+      const result = verifyCodeOffline(codeValue, bundle);
+
+      expect(result).toMatchObject({ valid: true, keyId: 1, serial: 1 });
+    });
+
+    it("should reject revoked serials", () => {
+      const codeValue = signCompactCode({ keyId: 1, serial: 11, codeType: "OPTROPIC" }, keyPair.privateKey);
+
+      expect(verifyCodeOffline(codeValue, bundle).reason).toBe("CODE_REVOKED");
+    });
+
+    it("should reject revoked and unknown keys", () => {
+      const revoked = signCompactCode({ keyId: 2, serial: 1, codeType: "OPTROPIC" }, revokedKey.privateKey);
+      const unknown = signCompactCode({ keyId: 3, serial: 1, codeType: "OPTROPIC" }, keyPair.privateKey);
+
+      expect(verifyCodeOffline(revoked, bundle).reason).toBe("KEY_REVOKED");
+      expect(verifyCodeOffline(unknown, bundle).reason).toBe("UNKNOWN_KEY");
+    });
+
+    it("should reject forged signatures and expired bundles", () => {
+      const forged = signCompactCode({ keyId: 1, serial: 5, codeType: "OPTROPIC" }, revokedKey.privateKey);
+      const valid = signCompactCode({ keyId: 1, serial: 5, codeType: "OPTROPIC" }, keyPair.privateKey);
+
+      expect(verifyCodeOffline(forged, bundle).reason).toBe("INVALID_SIGNATURE");
+      expect(verifyCodeOffline(valid, bundle, new Date(Date.now() + 2 * 60 * 60 * 1000)).reason).toBe(
+        "BUNDLE_EXPIRED"
+      );
+    });
+
+    it("should detect a tampered revocation list", () => {
+      expect(verifyBundleSignature(bundle, keyPair.publicKey)).toBe(true);
+
+      const tampered = JSON.parse(JSON.stringify(bundle)) as VerificationBundle;
+      tampered.revocations = [];
+
+      expect(verifyBundleSignature(tampered, keyPair.publicKey)).toBe(false);
+    });
+  });
+});
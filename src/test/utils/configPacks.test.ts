@@ -0,0 +1,113 @@
+/**
+ * Config Pack Version Tests
+ * -------------------------
+ * Diffs between versions report roles, actions per role, products and
+ * workflows, and the device ETag follows the content only.
+ */
+
+import { describe, it, expect } from "vitest";
+import { configEtag, diffConfigPacks, etagMatches, productKey } from "../../server/utils/configPacks";
+
+const v1 = {
+  metadata: { name: "Pack", generatedAt: "2025-11-01T00:00:00.000Z" },
+  roles: ["INSPECTOR", "MANAGER"],
+  permissions: { INSPECTOR: ["VERIFY", "LOG"], MANAGER: ["VIEW_INFO"] },
+  products: [
+    { gtin: "09506000134352", batch: "A1", name: "Widget" },
+    { name: "Manual" },
+  ],
+  workflows: [
+    {
+      name: "Compliance Audit",
+      trigger: "audit_required",
+      steps: [{ action: "initiate_audit", roles: ["INSPECTOR"] }],
+    },
+  ],
+};
+
+const v2 = {
+  metadata: { name: "Pack", generatedAt: "2025-11-02T00:00:00.000Z" },
+  roles: ["INSPECTOR", "MAINTAINER"],
+  permissions: { INSPECTOR: ["VERIFY", "INSPECT"], MAINTAINER: ["LOG"] },
+  products: [
+    { gtin: "09506000134352", batch: "A1", name: "Widget v2" },
+    { gtin: "09506000134369", name: "Gadget" },
+  ],
+  workflows: [
+    {
+      name: "Compliance Audit",
+      trigger: "audit_required",
+      steps: [
+        { action: "initiate_audit", roles: ["INSPECTOR"] },
+        { action: "generate_report", roles: ["MANAGER"] },
+      ],
+    },
+    {
+      name: "Maintenance Workflow",
+      trigger: "maintenance_due",
+      steps: [{ action: "perform_maintenance", roles: ["MAINTAINER"] }],
+    },
+  ],
+};
+
+describe("diffConfigPacks", () => {
+  it("reports roles, actions, products and workflows", () => {
+    const diff = diffConfigPacks(v1, v2);
+
+    expect(diff.roles).toEqual({ added: ["MAINTAINER"], removed: ["MANAGER"] });
+    expect(diff.actions).toEqual([
+      { role: "INSPECTOR", added: ["INSPECT"], removed: ["LOG"] },
+      { role: "MAINTAINER", added: ["LOG"], removed: [] },
+      { role: "MANAGER", added: [], removed: ["VIEW_INFO"] },
+    ]);
+    expect(diff.products).toEqual({
+      added: ["09506000134369"],
+      removed: ["Manual"],
+      changed: ["09506000134352/A1"],
+    });
+    expect(diff.workflows).toEqual({
+      added: ["Maintenance Workflow"],
+      removed: [],
+      changed: ["Compliance Audit"],
+    });
+    expect(diff.unchanged).toBe(false);
+  });
+
+  it("ignores metadata and member order", () => {
+    const reordered = {
+      ...v1,
+      metadata: { name: "Renamed" },
+      permissions: { MANAGER: ["VIEW_INFO"], INSPECTOR: ["LOG", "VERIFY"] },
+    };
+    expect(diffConfigPacks(v1, reordered).unchanged).toBe(true);
+  });
+
+  it("tolerates malformed configs", () => {
+    const diff = diffConfigPacks(null, { roles: "none", workflows: [{ steps: [] }] });
+    expect(diff.unchanged).toBe(true);
+  });
+});
+
+describe("productKey", () => {
+  it("prefers GS1 keys over the name", () => {
+    expect(productKey({ gtin: "09506000134352", serial: "S1", name: "Widget" })).toBe("09506000134352/S1");
+    expect(productKey({ name: "Widget" })).toBe("Widget");
+  });
+});
+
+describe("configEtag", () => {
+  it("depends on content, not key order", () => {
+    expect(configEtag({ a: 1, b: [2] })).toBe(configEtag({ b: [2], a: 1 }));
+    expect(configEtag({ a: 1 })).not.toBe(configEtag({ a: 2 }));
+    expect(configEtag({ a: 1 })).toMatch(/^"[0-9a-f]{64}"$/);
+  });
+
+  it("matches If-None-Match lists and weak tags", () => {
+    const etag = configEtag(v1);
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`"other", W/${etag}`, etag)).toBe(true);
+    expect(etagMatches("*", etag)).toBe(true);
+    expect(etagMatches('"other"', etag)).toBe(false);
+    expect(etagMatches(null, etag)).toBe(false);
+  });
+});
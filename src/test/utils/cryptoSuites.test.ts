@@ -0,0 +1,94 @@
+/**
+ * Crypto Suite Tests
+ * ------------------
+ * Every encryption level must round-trip its payload cipher, and signatures
+ * must verify only under the algorithm the key was generated for.
+ */
+
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  assertKeySupportsLevel,
+  decryptWithSuite,
+  ENCRYPTION_SUITES,
+  encryptWithSuite,
+  generateKeyPairFor,
+  keyAlgorithmOf,
+  signWithAlgorithm,
+  verifyWithAlgorithm,
+  type KeyAlgorithm,
+  type SuiteEncryptionLevel,
+} from "../../server/utils/cryptoSuites";
+
+const SECRET = "test-secret-key-for-encryption";
+const plaintext = Buffer.from(JSON.stringify({ entropySeed: "seed", lot: "A-1" }));
+
+const keys = {} as Record<KeyAlgorithm, { publicKey: string; privateKey: string }>;
+
+beforeAll(() => {
+  // rsa-4096 generation is slow; RSA_4096 shares its code path with RSA_2048
+  for (const algorithm of ["prime256v1", "rsa-2048", "ed25519"] as const) {
+    keys[algorithm] = generateKeyPairFor(algorithm);
+  }
+});
+
+describe("Crypto Suites", () => {
+  describe("payload encryption", () => {
+    it.each<[SuiteEncryptionLevel, string]>([
+      ["AES_128", "A128GCM"],
+      ["AES_256", "A256GCM"],
+      ["RSA_2048", "RSA-OAEP-256+A256GCM"],
+      ["ED25519", "A256GCM"],
+    ])("should round-trip %s payloads as %s", (level, alg) => {
+      const { publicKey, privateKey } = keys[ENCRYPTION_SUITES[level].keyAlgorithm];
+
+      const encrypted = encryptWithSuite(level, plaintext, { secret: SECRET, publicKey });
+
+      expect(encrypted.alg).toBe(alg);
+      expect(decryptWithSuite(encrypted, { secret: SECRET, privateKey }).equals(plaintext)).toBe(true);
+    });
+
+    it("should not decrypt AES-128 payloads with the AES-256 key", () => {
+      const encrypted = encryptWithSuite("AES_128", plaintext, { secret: SECRET });
+
+      expect(() => decryptWithSuite({ ...encrypted, alg: "A256GCM" }, { secret: SECRET })).toThrow();
+    });
+
+    it("should require the private key to unwrap RSA payloads", () => {
+      const encrypted = encryptWithSuite("RSA_2048", plaintext, {
+        secret: SECRET,
+        publicKey: keys["rsa-2048"].publicKey,
+      });
+
+      expect(() => decryptWithSuite(encrypted, { secret: SECRET })).toThrow(/private key/);
+    });
+  });
+
+  describe("signatures", () => {
+    it.each<KeyAlgorithm>(["prime256v1", "rsa-2048", "ed25519"])("should sign and verify with %s", (algorithm) => {
+      const { publicKey, privateKey } = keys[algorithm];
+      const signature = signWithAlgorithm(algorithm, privateKey, plaintext);
+
+      expect(keyAlgorithmOf(privateKey)).toBe(algorithm);
+      expect(verifyWithAlgorithm(algorithm, publicKey, plaintext, signature)).toBe(true);
+      expect(verifyWithAlgorithm(algorithm, publicKey, Buffer.from("other"), signature)).toBe(false);
+    });
+
+    it("should use randomized RSA-PSS signatures", () => {
+      const { privateKey } = keys["rsa-2048"];
+
+      expect(signWithAlgorithm("rsa-2048", privateKey, plaintext)).not.toEqual(
+        signWithAlgorithm("rsa-2048", privateKey, plaintext)
+      );
+    });
+
+    it("should reject unknown algorithms", () => {
+      expect(verifyWithAlgorithm("dsa", keys.prime256v1.publicKey, plaintext, Buffer.alloc(64))).toBe(false);
+    });
+  });
+
+  it("should only allow keys whose algorithm matches the level", () => {
+    expect(() => assertKeySupportsLevel("prime256v1", "AES_128")).not.toThrow();
+    expect(() => assertKeySupportsLevel("prime256v1", "ED25519")).toThrow(/requires a ed25519 key/);
+    expect(() => assertKeySupportsLevel("rsa-2048", "RSA_4096")).toThrow();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * EPCIS Tests
+ * -----------
+ * EPC identifiers resolve from URNs and Digital Links, CBV values normalise
+ * to short names, events list their EPCs by role and custody carries over
+ * between events.
+ */
+
+import { describe, it, expect } from "vitest";
+import { EpcisDocumentSchema, EpcisEventSchema } from "@optropic/shared";
+import {
+  buildCustodyTimeline,
+  cbvLabel,
+  eventObjects,
+  normalizeCbv,
+  parseEpc,
+  type CustodyEvent,
+} from "../../server/utils/epcis";
+
+const custodyEvent = (overrides: Partial<CustodyEvent>): CustodyEvent => ({
+  eventId: "urn:uuid:1",
+  eventType: "OBJECT",
+  action: "OBSERVE",
+  eventTime: new Date("2026-05-01T08:00:00Z"),
+  eventTimeZoneOffset: "+02:00",
+  bizStep: null,
+  disposition: null,
+  readPoint: null,
+  bizLocation: null,
+  role: "EPC",
+  via: null,
+  document: {},
+  ...overrides,
+});
+
+describe("parseEpc", () => {
+  it("converts SGTIN and SSCC URNs to GS1 keys", () => {
+    expect(parseEpc("urn:epc:id:sgtin:0614141.107346.2017")).toEqual({
+      kind: "item",
+      gtin: "10614141073464",
+      serial: "2017",
+    });
+    expect(parseEpc("urn:epc:id:sscc:0614141.1234567890")).toEqual({ kind: "sscc", sscc: "106141412345678908" });
+    expect(parseEpc("urn:epc:class:lgtin:0614141.107346.L42")).toEqual({
+      kind: "class",
+      gtin: "10614141073464",
+      lot: "L42",
+    });
+  });
+
+  it("reads Digital Links and Optropic scan URLs", () => {
+    expect(parseEpc("https://id.gs1.org/01/10614141073464/21/2017")).toEqual({
+      kind: "item",
+      gtin: "10614141073464",
+      serial: "2017",
+    });
+    expect(parseEpc("https://id.gs1.org/00/106141412345678908")).toEqual({ kind: "sscc", sscc: "106141412345678908" });
+    expect(parseEpc("https://scan.example.com/r/OPX-123")).toEqual({ kind: "code", codeValue: "OPX-123" });
+  });
+
+  it("returns null for identifiers the platform does not issue", () => {
+    expect(parseEpc("urn:epc:id:grai:0614141.12345.400")).toBeNull();
+    expect(parseEpc("https://id.gs1.org/00/106141412345678900")).toBeNull();
+    expect(parseEpc("not an epc")).toBeNull();
+  });
+});
+
+describe("CBV values", () => {
+  it("normalises URN and Web URI forms to short names", () => {
+    expect(normalizeCbv("urn:epcglobal:cbv:bizstep:shipping", "bizStep")).toBe("shipping");
+    expect(normalizeCbv("https://ref.gs1.org/cbv/Disp-in_transit", "disposition")).toBe("in_transit");
+    expect(normalizeCbv("https://example.com/steps/blending", "bizStep")).toBe("https://example.com/steps/blending");
+  });
+
+  it("labels short names and custom URIs", () => {
+    expect(cbvLabel("in_transit")).toBe("In transit");
+    expect(cbvLabel("https://example.com/steps/blending")).toBe("Blending");
+  });
+});
+
+describe("EPCIS events", () => {
+  it("lists aggregation EPCs by role", () => {
+    const event = EpcisEventSchema.parse({
+      type: "AggregationEvent",
+      action: "ADD",
+      eventTime: "2026-05-01T10:00:00.000+02:00",
+      eventTimeZoneOffset: "+02:00",
+      parentID: "urn:epc:id:sscc:0614141.1234567890",
+      childEPCs: ["urn:epc:id:sgtin:0614141.107346.2017"],
+      childQuantityList: [{ epcClass: "urn:epc:class:lgtin:0614141.107346.L42", quantity: 12 }],
+    });
+
+    expect(eventObjects(event)).toEqual([
+      { role: "PARENT", epc: "urn:epc:id:sscc:0614141.1234567890", quantity: null, uom: null },
+      { role: "CHILD", epc: "urn:epc:id:sgtin:0614141.107346.2017", quantity: null, uom: null },
+      { role: "CHILD", epc: "urn:epc:class:lgtin:0614141.107346.L42", quantity: 12, uom: null },
+    ]);
+  });
+
+  it("rejects events missing their required EPCs", () => {
+    const document = (event: Record<string, unknown>) => ({
+      type: "EPCISDocument",
+      epcisBody: {
+        eventList: [
+          { eventTime: "2026-05-01T10:00:00Z", eventTimeZoneOffset: "+00:00", action: "ADD", ...event },
+        ],
+      },
+    });
+
+    expect(EpcisDocumentSchema.safeParse(document({ type: "ObjectEvent" })).success).toBe(false);
+    expect(EpcisDocumentSchema.safeParse(document({ type: "AggregationEvent", childEPCs: ["x"] })).success).toBe(false);
+    expect(EpcisDocumentSchema.safeParse(document({ type: "ObjectEvent", epcList: ["x"] })).success).toBe(true);
+  });
+});
+
+describe("buildCustodyTimeline", () => {
+  it("orders events and carries custody forward from destinations", () => {
+    const timeline = buildCustodyTimeline([
+      custodyEvent({
+        eventId: "receiving",
+        eventTime: new Date("2026-05-03T08:00:00Z"),
+        bizStep: "receiving",
+        bizLocation: "urn:epc:id:sgln:0614141.00888.0",
+      }),
+      custodyEvent({
+        eventId: "shipping",
+        eventTime: new Date("2026-05-02T08:00:00Z"),
+        bizStep: "shipping",
+        readPoint: "urn:epc:id:sgln:0614141.00777.0",
+        document: {
+          sourceList: [{ type: "owning_party", source: "urn:epc:id:pgln:0614141.00001" }],
+          destinationList: [
+            { type: "urn:epcglobal:cbv:sdt:possessing_party", destination: "urn:epc:id:pgln:0614141.00002" },
+          ],
+        },
+      }),
+    ]);
+
+    expect(timeline.map((step) => step.eventId)).toEqual(["shipping", "receiving"]);
+    expect(timeline[0]).toMatchObject({
+      location: "urn:epc:id:sgln:0614141.00777.0",
+      owner: "urn:epc:id:pgln:0614141.00001",
+      possessor: "urn:epc:id:pgln:0614141.00002",
+    });
+    expect(timeline[1]).toMatchObject({
+      location: "urn:epc:id:sgln:0614141.00888.0",
+      owner: "urn:epc:id:pgln:0614141.00001",
+      possessor: "urn:epc:id:pgln:0614141.00002",
+    });
+    expect(timeline[1]).not.toHaveProperty("document");
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Campaign Experiment Tests
+ * -------------------------
+ * Sticky weighted assignment, significance of the leading variant and
+ * signed conversion tokens.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  analyzeExperiment,
+  assignVariant,
+  normalCdf,
+  signConversionToken,
+  twoProportionPValue,
+  verifyConversionToken,
+  withConversionToken,
+} from "../../server/utils/experiments";
+
+const variants = [
+  { key: "a", weight: 3 },
+  { key: "b", weight: 1 },
+];
+
+describe("assignVariant", () => {
+  it("keeps a visitor on the same variant", () => {
+    const first = assignVariant(variants, "203.0.113.7", "12");
+    for (let i = 0; i < 5; i++) {
+      expect(assignVariant(variants, "203.0.113.7", "12")).toBe(first);
+    }
+  });
+
+  it("splits traffic by weight", () => {
+    const counts = { a: 0, b: 0 };
+    for (let i = 0; i < 4000; i++) {
+      counts[assignVariant(variants, `device-${i}`, "12").key as "a" | "b"]++;
+    }
+    expect(counts.a / 4000).toBeGreaterThan(0.72);
+    expect(counts.a / 4000).toBeLessThan(0.78);
+  });
+});
+
+describe("significance", () => {
+  it("approximates the normal CDF", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 5);
+    expect(normalCdf(-1.959964)).toBeCloseTo(0.025, 5);
+  });
+
+  it("computes a two-sided two-proportion p-value", () => {
+    // 200/1000 vs 150/1000: z ≈ 2.94
+    const p = twoProportionPValue({ key: "a", exposures: 1000, conversions: 200 }, { key: "b", exposures: 1000, conversions: 150 });
+    expect(p).toBeCloseTo(0.0033, 3);
+    expect(twoProportionPValue({ key: "a", exposures: 0, conversions: 0 }, { key: "b", exposures: 10, conversions: 1 })).toBe(1);
+  });
+
+  it("declares a winner only with enough samples and confidence", () => {
+    const options = { confidenceLevel: 0.95, minSamplesPerVariant: 500 };
+    const clear = analyzeExperiment(
+      [
+        { key: "a", exposures: 1000, conversions: 150 },
+        { key: "b", exposures: 1000, conversions: 200 },
+      ],
+      options
+    );
+    expect(clear.leader).toBe("b");
+    expect(clear.significant).toBe(true);
+    expect(clear.variants.find((variant) => variant.key === "b")!.pValue).toBeNull();
+
+    const early = analyzeExperiment(
+      [
+        { key: "a", exposures: 100, conversions: 15 },
+        { key: "b", exposures: 100, conversions: 30 },
+      ],
+      options
+    );
+    expect(early.sampleSizeReached).toBe(false);
+    expect(early.significant).toBe(false);
+  });
+
+  it("corrects for comparing the leader with several variants", () => {
+    const tallies = [
+      { key: "a", exposures: 1000, conversions: 200 },
+      { key: "b", exposures: 1000, conversions: 165 },
+      { key: "c", exposures: 1000, conversions: 165 },
+    ];
+    const single = 1 - twoProportionPValue(tallies[0]!, tallies[1]!);
+    const analysis = analyzeExperiment(tallies, { confidenceLevel: 0.95, minSamplesPerVariant: 100 });
+
+    expect(single).toBeGreaterThan(0.95);
+    expect(analysis.confidence).toBeLessThan(single);
+    expect(analysis.significant).toBe(false);
+  });
+
+  it("has no leader before any conversion", () => {
+    const analysis = analyzeExperiment(
+      [
+        { key: "a", exposures: 10, conversions: 0 },
+        { key: "b", exposures: 10, conversions: 0 },
+      ],
+      { confidenceLevel: 0.95, minSamplesPerVariant: 10 }
+    );
+    expect(analysis.leader).toBeNull();
+    expect(analysis.confidence).toBe(0);
+  });
+});
+
+describe("conversion tokens", () => {
+  it("round-trips a scan id and rejects forgeries", () => {
+    const token = signConversionToken(4711, "secret");
+    expect(verifyConversionToken(token, "secret")).toBe(4711);
+    expect(verifyConversionToken(token, "other-secret")).toBeNull();
+    expect(verifyConversionToken(token.replace("4711", "4712"), "secret")).toBeNull();
+    expect(verifyConversionToken("garbage", "secret")).toBeNull();
+  });
+
+  it("appends the token to the destination", () => {
+    expect(withConversionToken("https://shop.example.com/offer?utm=qr", "1.x")).toBe(
+      "https://shop.example.com/offer?utm=qr&opx=1.x"
+    );
+  });
+});
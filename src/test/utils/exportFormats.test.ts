@@ -0,0 +1,117 @@
+/**
+ * Export Format Tests
+ * -------------------
+ * Structural checks for the ZIP and PDF label sheet writers
+ */
+
+import { describe, it, expect } from "vitest";
+import zlib from "zlib";
+import { ZipWriter } from "../../server/utils/zipWriter";
+import { crc32 } from "../../server/utils/crc32";
+import { renderLabelSheetPDF, resolveLabelLayout } from "../../server/utils/pdfLabelSheet";
+
+/**
+ * Read entries back through the central directory
+ */
+function readZip(archive: Buffer) {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries: Record<string, Buffer> = {};
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = archive.readUInt16LE(offset + 10);
+    const crc = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const localNameLength = archive.readUInt16LE(localOffset + 26);
+    const dataStart = localOffset + 30 + localNameLength;
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+    const data = method === 8 ? zlib.inflateRawSync(raw) : raw;
+
+    expect(crc32(data)).toBe(crc);
+    entries[name] = data;
+    offset += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+async function collect(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+describe("Export Formats", () => {
+  describe("crc32", () => {
+    it("should match the standard check value", () => {
+      expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    });
+  });
+
+  describe("ZipWriter", () => {
+    it("should round-trip stored and deflated entries", () => {
+      const zip = new ZipWriter();
+      const svg = Buffer.from("<svg>" + "x".repeat(500) + "</svg>");
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 1, 2, 3]);
+
+      const archive = Buffer.concat([
+        zip.addFile("symbols/0000001.svg", svg),
+        zip.addFile("symbols/0000002.png", png, { compress: false }),
+        zip.finish(),
+      ]);
+      const entries = readZip(archive);
+
+      expect(Object.keys(entries)).toEqual(["symbols/0000001.svg", "symbols/0000002.png"]);
+      expect(entries["symbols/0000001.svg"]!.equals(svg)).toBe(true);
+      expect(entries["symbols/0000002.png"]!.equals(png)).toBe(true);
+    });
+
+    it("should reject entries after finish", () => {
+      const zip = new ZipWriter();
+      zip.finish();
+
+      expect(() => zip.addFile("late.txt", Buffer.from("x"))).toThrow(/already finished/);
+    });
+  });
+
+  describe("PDF label sheets", () => {
+    it("should paginate labels and write a valid xref table", async () => {
+      const items = Array.from({ length: 30 }, (_, i) => ({
+        data: `CODE-${i}`,
+        caption: `#${i + 1}`,
+      }));
+
+      const pdf = await collect(renderLabelSheetPDF(items, { columns: 4, rows: 6 }));
+      const text = pdf.toString("latin1");
+
+      expect(text.startsWith("%PDF-1.4")).toBe(true);
+      expect(text.trimEnd().endsWith("%%EOF")).toBe(true);
+      expect(text).toContain("/Count 2");
+
+      const xrefOffset = Number(/startxref\n(\d+)/.exec(text)![1]);
+      expect(text.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+
+      const rows = text.slice(xrefOffset).split("\n").slice(3);
+      rows.forEach((row, index) => {
+        if (!/^\d{10} 00000 n/.test(row)) return;
+        const objectOffset = Number(row.slice(0, 10));
+        expect(text.slice(objectOffset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it("should derive label size from the grid and reject layouts that overflow", () => {
+      const layout = resolveLabelLayout({ columns: 2, rows: 2, marginLeft: 5, gapX: 0 });
+
+      expect(layout.labelWidth).toBe(100);
+      expect(() => resolveLabelLayout({ columns: 3, labelWidth: 80 })).toThrow(/does not fit/);
+    });
+  });
+});
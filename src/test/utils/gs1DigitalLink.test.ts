@@ -0,0 +1,89 @@
+/**
+ * GS1 Digital Link Tests
+ * ----------------------
+ * URIs must carry valid GTINs, keep key qualifiers in order, and survive a
+ * compression round trip unchanged.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildDigitalLink,
+  compressDigitalLink,
+  decompressDigitalLink,
+  gs1CheckDigit,
+  isValidGtin,
+  normalizeGtin,
+  parseDigitalLink,
+  toGs1Date,
+} from "../../server/utils/gs1DigitalLink";
+
+const base = "https://id.example.com";
+
+describe("GTIN check digits", () => {
+  it("should compute the GS1 mod-10 check digit", () => {
+    expect(gs1CheckDigit("950600013435")).toBe(2);
+    expect(gs1CheckDigit("0001234560001")).toBe(2);
+  });
+
+  it("should validate and pad GTIN-8/12/13/14", () => {
+    expect(normalizeGtin("9506000134352")).toBe("09506000134352");
+    expect(normalizeGtin("96385074")).toBe("00000096385074");
+    expect(isValidGtin("9506000134353")).toBe(false);
+    expect(isValidGtin("95060001343")).toBe(false);
+  });
+});
+
+describe("Digital Link URIs", () => {
+  it("should compose and parse a URI with all supported AIs", () => {
+    const link = buildDigitalLink({ gtin: "9506000134352", lot: "ABC/12", serial: "0042", expiry: "261231" }, base);
+
+    expect(link).toBe("https://id.example.com/01/09506000134352/10/ABC%2F12/21/0042?17=261231");
+    expect(parseDigitalLink(link)).toEqual({
+      gtin: "09506000134352",
+      lot: "ABC/12",
+      serial: "0042",
+      expiry: "261231",
+    });
+  });
+
+  it("should accept resolver prefixes and convenience short names", () => {
+    expect(parseDigitalLink("https://brand.example/p/gtin/09506000134352/ser/X1?exp=270100")).toEqual({
+      gtin: "09506000134352",
+      serial: "X1",
+      expiry: "270100",
+    });
+  });
+
+  it("should reject invalid identifiers", () => {
+    expect(() => parseDigitalLink("/01/09506000134353")).toThrow(/check digit/);
+    expect(() => parseDigitalLink("/01/09506000134352/21/1/10/A")).toThrow(/order/);
+    expect(() => parseDigitalLink("/01/09506000134352/22/A")).toThrow(/key qualifier/);
+    expect(() => parseDigitalLink("/01/09506000134352/10")).toThrow(/alternate/);
+    expect(() => parseDigitalLink("/01/09506000134352?17=261331")).toThrow(/expiry/);
+    expect(() => buildDigitalLink({ gtin: "09506000134352", serial: "x".repeat(21) }, base)).toThrow(/1-20/);
+  });
+
+  it("should format expiry dates as YYMMDD", () => {
+    expect(toGs1Date(new Date("2026-12-31T00:00:00Z"))).toBe("261231");
+  });
+});
+
+describe("Digital Link compression", () => {
+  it.each([
+    { gtin: "09506000134352" },
+    { gtin: "09506000134352", lot: "0012", serial: "abc123" },
+    { gtin: "09506000134352", lot: "ABC/12", serial: "9F0A", expiry: "261231" },
+    { gtin: "09506000134352", serial: "Serial_-9" },
+  ])("should round-trip %o", (ids) => {
+    const link = buildDigitalLink(ids, base);
+    const compressed = compressDigitalLink(link, base);
+
+    expect(compressed).toMatch(/^https:\/\/id\.example\.com\/[A-Za-z0-9_-]+$/);
+    expect(compressed.length).toBeLessThan(link.length);
+    expect(decompressDigitalLink(compressed, base)).toBe(link);
+  });
+
+  it("should reject values that are not compressed links", () => {
+    expect(() => decompressDigitalLink(`${base}/not.compressed`, base)).toThrow(/compressed/);
+  });
+});
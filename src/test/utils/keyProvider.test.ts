@@ -0,0 +1,172 @@
+// @vitest-environment node
+/**
+ * Key Provider Tests
+ * ------------------
+ * Master key providers must round-trip data keys, bind the encryption
+ * context, and keep unwrapping keys wrapped before a master-key rotation.
+ * The KMS provider is exercised against a local stub of the KMS JSON API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { KmsKeyProvider, LocalKeyProvider, signKmsRequest } from "../../server/utils/keyProvider";
+
+const context = { tenantId: "3", version: "1", purpose: "tenant-data-key" };
+const dataKey = crypto.randomBytes(32);
+
+describe("LocalKeyProvider", () => {
+  const oldMaster = crypto.randomBytes(32);
+  const newMaster = crypto.randomBytes(32);
+
+  it("should wrap and unwrap with the current master key", async () => {
+    const provider = new LocalKeyProvider({ "2025-09": oldMaster }, "2025-09");
+    const wrapped = await provider.wrap(dataKey, context);
+
+    expect(wrapped).toMatchObject({ provider: "local", masterKeyId: "2025-09" });
+    expect(Buffer.from(wrapped.ciphertext, "base64").includes(dataKey)).toBe(false);
+    expect((await provider.unwrap(wrapped, context)).equals(dataKey)).toBe(true);
+  });
+
+  it("should bind the encryption context", async () => {
+    const provider = new LocalKeyProvider({ "2025-09": oldMaster }, "2025-09");
+    const wrapped = await provider.wrap(dataKey, context);
+
+    await expect(provider.unwrap(wrapped, { ...context, tenantId: "4" })).rejects.toThrow();
+  });
+
+  it("should unwrap keys from a previous master key after rotation", async () => {
+    const before = new LocalKeyProvider({ "2025-09": oldMaster }, "2025-09");
+    const after = new LocalKeyProvider({ "2025-10": newMaster, "2025-09": oldMaster }, "2025-10");
+
+    const wrapped = await before.wrap(dataKey, context);
+    const rewrapped = await after.wrap(await after.unwrap(wrapped, context), context);
+
+    expect(rewrapped.masterKeyId).toBe("2025-10");
+    expect((await after.unwrap(rewrapped, context)).equals(dataKey)).toBe(true);
+  });
+
+  it("should reject keys wrapped by a master key it does not hold", async () => {
+    const before = new LocalKeyProvider({ "2025-09": oldMaster }, "2025-09");
+    const retired = new LocalKeyProvider({ "2025-10": newMaster }, "2025-10");
+
+    await expect(retired.unwrap(await before.wrap(dataKey, context), context)).rejects.toThrow(/not available/);
+  });
+
+  it("should validate master key configuration", () => {
+    expect(() => new LocalKeyProvider({ short: Buffer.alloc(16) }, "short")).toThrow(/32 bytes/);
+    expect(() => new LocalKeyProvider({ a: oldMaster }, "b")).toThrow(/not configured/);
+  });
+});
+
+describe("KmsKeyProvider", () => {
+  const credentials = { region: "eu-central-1", accessKeyId: "AKIDEXAMPLE", secretAccessKey: "secret" };
+  const stubKeys = new Map([
+    ["alias/optropic-old", crypto.randomBytes(32)],
+    ["alias/optropic-new", crypto.randomBytes(32)],
+  ]);
+  const requests: { target: string; authorized: boolean }[] = [];
+  let server: http.Server;
+  let endpoint: string;
+
+  /**
+   * Minimal KMS stub: checks the SigV4 signature, then encrypts with a
+   * per-key AES-GCM key. Like KMS, the blob records which key made it.
+   */
+  function handle(target: string, body: Record<string, unknown>): [number, unknown] {
+    const aad = Buffer.from(JSON.stringify(body.EncryptionContext ?? {}));
+
+    if (target === "TrentService.Encrypt") {
+      const key = stubKeys.get(body.KeyId as string);
+      if (!key) return [400, { __type: "NotFoundException", message: "Unknown key" }];
+
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv("aes-256-gcm", key, iv).setAAD(aad);
+      const encrypted = Buffer.concat([cipher.update(Buffer.from(body.Plaintext as string, "base64")), cipher.final()]);
+      const blob = Buffer.concat([Buffer.from(`${body.KeyId as string}|`), iv, cipher.getAuthTag(), encrypted]);
+      return [200, { CiphertextBlob: blob.toString("base64"), KeyId: `arn:aws:kms:${body.KeyId as string}` }];
+    }
+
+    const blob = Buffer.from(body.CiphertextBlob as string, "base64");
+    const separator = blob.indexOf("|");
+    const key = stubKeys.get(blob.subarray(0, separator).toString());
+    if (!key) return [400, { __type: "InvalidCiphertextException" }];
+
+    try {
+      const decipher = crypto.createDecipheriv("aes-256-gcm", key, blob.subarray(separator + 1, separator + 13));
+      decipher.setAAD(aad).setAuthTag(blob.subarray(separator + 13, separator + 29));
+      const plaintext = Buffer.concat([decipher.update(blob.subarray(separator + 29)), decipher.final()]);
+      return [200, { Plaintext: plaintext.toString("base64") }];
+    } catch {
+      return [400, { __type: "InvalidCiphertextException" }];
+    }
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk: Buffer) => (raw += chunk.toString()));
+      req.on("end", () => {
+        const target = req.headers["x-amz-target"] as string;
+        const expected = signKmsRequest(
+          credentials,
+          req.headers.host!,
+          target,
+          raw,
+          new Date(
+            (req.headers["x-amz-date"] as string).replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, "$1-$2-$3T$4:$5:$6Z")
+          )
+        );
+        const authorized = expected.authorization === req.headers.authorization;
+        requests.push({ target, authorized });
+
+        const [status, body] = authorized
+          ? handle(target, JSON.parse(raw) as Record<string, unknown>)
+          : [403, { __type: "InvalidSignatureException" }];
+        res.writeHead(status, { "content-type": "application/x-amz-json-1.1" });
+        res.end(JSON.stringify(body));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should wrap and unwrap through signed KMS requests", async () => {
+    const provider = new KmsKeyProvider({ ...credentials, keyId: "alias/optropic-old", endpoint });
+
+    const wrapped = await provider.wrap(dataKey, context);
+
+    expect(wrapped).toMatchObject({ provider: "kms", masterKeyId: "alias/optropic-old" });
+    expect((await provider.unwrap(wrapped, context)).equals(dataKey)).toBe(true);
+    expect(requests.map((r) => r.target)).toEqual(["TrentService.Encrypt", "TrentService.Decrypt"]);
+    expect(requests.every((r) => r.authorized)).toBe(true);
+  });
+
+  it("should re-wrap under a new KMS key without losing the data key", async () => {
+    const before = new KmsKeyProvider({ ...credentials, keyId: "alias/optropic-old", endpoint });
+    const after = new KmsKeyProvider({ ...credentials, keyId: "alias/optropic-new", endpoint });
+
+    const wrapped = await before.wrap(dataKey, context);
+    const rewrapped = await after.wrap(await after.unwrap(wrapped, context), context);
+
+    expect(rewrapped.masterKeyId).toBe("alias/optropic-new");
+    expect((await after.unwrap(rewrapped, context)).equals(dataKey)).toBe(true);
+  });
+
+  it("should surface KMS errors", async () => {
+    const provider = new KmsKeyProvider({ ...credentials, keyId: "alias/optropic-old", endpoint });
+    const wrapped = await provider.wrap(dataKey, context);
+    const wrongSecret = new KmsKeyProvider({ ...credentials, secretAccessKey: "wrong", keyId: "x", endpoint });
+
+    await expect(provider.unwrap(wrapped, { ...context, tenantId: "4" })).rejects.toThrow(
+      /InvalidCiphertextException/
+    );
+    await expect(wrongSecret.wrap(dataKey, context)).rejects.toThrow(/InvalidSignatureException/);
+  });
+});
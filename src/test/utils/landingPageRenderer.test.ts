@@ -0,0 +1,115 @@
+/**
+ * Landing Page Renderer Tests
+ * ---------------------------
+ * Blocks render from scan data, user text is escaped and unsafe branding
+ * or links never reach the page.
+ */
+
+import { describe, it, expect } from "vitest";
+import { LandingPageSchema, type LandingPage } from "@optropic/shared";
+import {
+  DEFAULT_BRANDING,
+  escapeHtml,
+  renderLandingPage,
+  type LandingPageRenderData,
+} from "../../server/utils/landingPageRenderer";
+
+const data = (overrides: Partial<LandingPageRenderData> = {}): LandingPageRenderData => ({
+  branding: DEFAULT_BRANDING,
+  verification: {
+    verified: true,
+    trustScore: 92,
+    warnings: [],
+    factors: ["SIGNATURE", "TAG"],
+    checkedAt: new Date("2026-03-04T10:30:00Z"),
+  },
+  asset: {
+    assetName: "Aspirin 500mg",
+    productId: "ASP-500",
+    gtin: "09506000134352",
+    batchNumber: "L42",
+    serialNumber: null,
+    expiryDate: new Date("2027-01-31T00:00:00Z"),
+    assetType: "PRODUCT",
+  },
+  images: new Map(),
+  documents: new Map(),
+  feedbackAction: "/r/ABC/feedback",
+  contentId: 7,
+  preview: false,
+  ...overrides,
+});
+
+const page = (blocks: unknown[]): LandingPage => LandingPageSchema.parse({ title: "Product", blocks });
+
+describe("escapeHtml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;");
+  });
+});
+
+describe("renderLandingPage", () => {
+  it("renders verification and product facts from the scan", () => {
+    const html = renderLandingPage(
+      page([{ type: "VERIFICATION_BADGE", showTrustScore: true }, { type: "PRODUCT_FACTS" }]),
+      data()
+    );
+
+    expect(html).toContain("Verified authentic");
+    expect(html).toContain("Trust score 92/100");
+    expect(html).toContain("Optical code and NFC tag");
+    expect(html).toContain("<dd>L42</dd>");
+    expect(html).toContain("<dd>2027-01-31</dd>");
+    expect(html).not.toContain("Serial number");
+  });
+
+  it("escapes author text", () => {
+    const html = renderLandingPage(page([{ type: "HERO", title: "<script>alert(1)</script>" }]), data());
+
+    expect(html).not.toContain("<script>alert(1)</script>");
+    expect(html).toContain("&lt;script&gt;");
+  });
+
+  it("falls back to default colours and drops non-http links", () => {
+    const html = renderLandingPage(
+      page([{ type: "DOCUMENT_LIST", contentIds: [1, 2] }]),
+      data({
+        branding: { ...DEFAULT_BRANDING, primaryColor: "red;}body{display:none" },
+        documents: new Map([
+          [1, { title: "Leaflet", href: "https://cdn.example.com/leaflet.pdf", contentType: "PDF_DOCUMENT", fileSize: 2048 }],
+          [2, { title: "Bad", href: "javascript:alert(1)", contentType: "PDF_DOCUMENT", fileSize: null }],
+        ]),
+      })
+    );
+
+    expect(html).toContain(DEFAULT_BRANDING.primaryColor);
+    expect(html).not.toContain("display:none");
+    expect(html).toContain("https://cdn.example.com/leaflet.pdf");
+    expect(html).not.toContain("javascript:");
+  });
+
+  it("disables the feedback form in previews", () => {
+    const blocks = [{ type: "FEEDBACK_FORM", askRating: true }];
+
+    expect(renderLandingPage(page(blocks), data())).not.toContain("<fieldset disabled>");
+    const preview = renderLandingPage(page(blocks), data({ preview: true, feedbackAction: null }));
+    expect(preview).toContain("<fieldset disabled>");
+    expect(preview).toContain("Preview: verification and product data are samples");
+  });
+
+  it("shows the latest supply chain steps with readable labels", () => {
+    const provenance = [
+      { bizStep: "commissioning", disposition: "active", eventTime: new Date("2026-05-01T08:00:00Z"), location: "Plant A" },
+      { bizStep: null, disposition: null, eventTime: new Date("2026-05-02T08:00:00Z"), location: null },
+      { bizStep: "shipping", disposition: "in_transit", eventTime: new Date("2026-05-03T08:00:00Z"), location: "<Dock 4>" },
+    ];
+
+    const html = renderLandingPage(page([{ type: "PROVENANCE", limit: 1 }]), data({ provenance }));
+    expect(html).toContain("Product journey");
+    expect(html).toContain("<strong>Shipping</strong>");
+    expect(html).toContain("2026-05-03 · In transit · &lt;Dock 4&gt;");
+    expect(html).not.toContain("Commissioning");
+
+    expect(renderLandingPage(page([{ type: "PROVENANCE" }]), data())).not.toContain("Product journey");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Maintenance Tests
+ * -----------------
+ * Schedules fall due by date or meter reading, work orders only complete
+ * with every item done and photographed where required, and evidence must
+ * be a reasonably sized photo.
+ */
+
+import { describe, it, expect } from "vitest";
+import { CreateMaintenanceScheduleSchema } from "@optropic/shared";
+import {
+  EVIDENCE_MAX_BYTES,
+  completionProblems,
+  isOverdue,
+  nextDue,
+  toWorkOrderChecklist,
+  validateEvidence,
+} from "../../server/utils/maintenance";
+
+describe("nextDue", () => {
+  it("adds the interval to the service date", () => {
+    const due = nextDue(
+      { triggerType: "INTERVAL", intervalDays: 30, usageInterval: null },
+      new Date("2026-03-01T00:00:00Z"),
+      0
+    );
+    expect(due).toEqual({ nextDueAt: new Date("2026-03-31T00:00:00Z"), nextDueUsage: null });
+  });
+
+  it("adds the usage interval to the reading at service", () => {
+    const due = nextDue({ triggerType: "USAGE", intervalDays: null, usageInterval: 500 }, new Date(), 1240);
+    expect(due).toEqual({ nextDueAt: null, nextDueUsage: 1740 });
+  });
+});
+
+describe("isOverdue", () => {
+  const now = new Date("2026-03-15T12:00:00Z");
+
+  it("compares interval schedules by date", () => {
+    const schedule = { triggerType: "INTERVAL" as const, nextDueUsage: null, currentUsage: 0 };
+    expect(isOverdue({ ...schedule, nextDueAt: new Date("2026-03-15T11:59:59Z") }, now)).toBe(true);
+    expect(isOverdue({ ...schedule, nextDueAt: new Date("2026-03-16T00:00:00Z") }, now)).toBe(false);
+  });
+
+  it("compares usage schedules by meter reading", () => {
+    const schedule = { triggerType: "USAGE" as const, nextDueAt: null, nextDueUsage: 500 };
+    expect(isOverdue({ ...schedule, currentUsage: 500 }, now)).toBe(true);
+    expect(isOverdue({ ...schedule, currentUsage: 499.5 }, now)).toBe(false);
+  });
+});
+
+describe("work order checklists", () => {
+  const checklist = toWorkOrderChecklist([
+    { key: "belt", label: "Check belt tension", requiresPhoto: false },
+    { key: "filter", label: "Replace filter", requiresPhoto: true },
+  ]);
+
+  it("starts with nothing done", () => {
+    expect(checklist.every((item) => !item.done && item.note === null)).toBe(true);
+  });
+
+  it("lists open items and missing photos", () => {
+    expect(completionProblems(checklist, new Set())).toEqual([
+      '"Check belt tension" is not done',
+      '"Replace filter" is not done',
+      '"Replace filter" needs a photo',
+    ]);
+
+    const done = checklist.map((item) => ({ ...item, done: true }));
+    expect(completionProblems(done, new Set())).toEqual(['"Replace filter" needs a photo']);
+    expect(completionProblems(done, new Set(["filter"]))).toEqual([]);
+  });
+});
+
+describe("validateEvidence", () => {
+  it("accepts photos within the size limit", () => {
+    expect(() => validateEvidence("image/jpeg", 2_000_000)).not.toThrow();
+    expect(() => validateEvidence("image/svg+xml", 2_000)).toThrow(/Evidence must be one of/);
+    expect(() => validateEvidence("image/png", EVIDENCE_MAX_BYTES + 1)).toThrow(/limited to 15 MB/);
+  });
+});
+
+describe("CreateMaintenanceScheduleSchema", () => {
+  it("requires the fields of the chosen trigger and unique checklist keys", () => {
+    const base = { assetId: 1, name: "Inspection" };
+
+    expect(CreateMaintenanceScheduleSchema.safeParse({ ...base, triggerType: "INTERVAL" }).success).toBe(false);
+    expect(CreateMaintenanceScheduleSchema.safeParse({ ...base, triggerType: "USAGE", usageInterval: 500 }).success).toBe(
+      false
+    );
+    expect(
+      CreateMaintenanceScheduleSchema.safeParse({
+        ...base,
+        triggerType: "INTERVAL",
+        intervalDays: 90,
+        checklist: [
+          { key: "a", label: "One" },
+          { key: "a", label: "Two" },
+        ],
+      }).success
+    ).toBe(false);
+    expect(
+      CreateMaintenanceScheduleSchema.safeParse({ ...base, triggerType: "USAGE", usageInterval: 500, usageUnit: "hours" })
+        .success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Permission Resolution Tests
+ * ---------------------------
+ * Archetype defaults, tenant grants and revocations, the fixed ADMIN role
+ * and tenant owners, and the overrides stored for a wanted permission set.
+ */
+
+import { describe, it, expect } from "vitest";
+import { DEFAULT_ARCHETYPE_PERMISSIONS, PERMISSIONS } from "@optropic/shared";
+import {
+  TENANT_PERMISSIONS,
+  defaultPermissions,
+  overridesFor,
+  resolvePermissions,
+} from "../../server/utils/permissions";
+
+describe("defaultPermissions", () => {
+  it("returns the archetype's defaults", () => {
+    expect(defaultPermissions("MAINTAINER")).toEqual(["projects:read", "codes:read", "maintenance:perform"]);
+  });
+
+  it("has none for unknown archetypes", () => {
+    expect(defaultPermissions("AUDITOR")).toEqual([]);
+    expect(defaultPermissions(null)).toEqual([]);
+  });
+});
+
+describe("resolvePermissions", () => {
+  it("uses the defaults without an override", () => {
+    expect([...resolvePermissions("OPERATOR", null)].sort()).toEqual([...DEFAULT_ARCHETYPE_PERMISSIONS.OPERATOR].sort());
+  });
+
+  it("applies grants and revocations", () => {
+    const permissions = resolvePermissions("OPERATOR", {
+      isEnabled: true,
+      grantedPermissions: ["keys:rotate"],
+      revokedPermissions: ["codes:generate"],
+    });
+
+    expect(permissions.has("keys:rotate")).toBe(true);
+    expect(permissions.has("codes:generate")).toBe(false);
+    expect(permissions.has("codes:read")).toBe(true);
+  });
+
+  it("never grants platform-wide or unknown permissions", () => {
+    const permissions = resolvePermissions("MANAGER", {
+      isEnabled: true,
+      grantedPermissions: ["analytics:global", "everything:all"],
+      revokedPermissions: [],
+    });
+
+    expect(permissions.has("analytics:global")).toBe(false);
+    expect(permissions.size).toBe(DEFAULT_ARCHETYPE_PERMISSIONS.MANAGER.length);
+  });
+
+  it("takes everything away from a disabled archetype", () => {
+    const permissions = resolvePermissions("INSPECTOR", { isEnabled: false, grantedPermissions: [], revokedPermissions: [] });
+    expect(permissions.size).toBe(0);
+  });
+
+  it("gives ADMIN every permission regardless of overrides", () => {
+    const permissions = resolvePermissions("ADMIN", {
+      isEnabled: false,
+      grantedPermissions: [],
+      revokedPermissions: ["keys:revoke"],
+    });
+    expect(permissions.size).toBe(PERMISSIONS.length);
+  });
+
+  it("gives tenant owners every tenant permission", () => {
+    const permissions = resolvePermissions("OPERATOR", null, true);
+
+    expect(permissions.has("roles:manage")).toBe(true);
+    expect(permissions.has("keys:revoke")).toBe(true);
+    expect(permissions.has("notifications:admin")).toBe(false);
+    expect(permissions.size).toBe(TENANT_PERMISSIONS.length);
+  });
+});
+
+describe("overridesFor", () => {
+  it("stores the difference from the defaults", () => {
+    const wanted = [...DEFAULT_ARCHETYPE_PERMISSIONS.INSPECTOR.filter((p) => p !== "epcis:capture"), "codes:revoke" as const];
+
+    expect(overridesFor("INSPECTOR", wanted)).toEqual({
+      grantedPermissions: ["codes:revoke"],
+      revokedPermissions: ["epcis:capture"],
+    });
+  });
+
+  it("stores nothing for the defaults", () => {
+    expect(overridesFor("MANAGER", [...DEFAULT_ARCHETYPE_PERMISSIONS.MANAGER])).toEqual({
+      grantedPermissions: [],
+      revokedPermissions: [],
+    });
+  });
+
+  it("drops platform-wide permissions", () => {
+    expect(overridesFor("OPERATOR", [...DEFAULT_ARCHETYPE_PERMISSIONS.OPERATOR, "templates:global"]).grantedPermissions).toEqual([]);
+  });
+
+  it("round-trips through resolvePermissions", () => {
+    const wanted = ["projects:read", "keys:read", "keys:rotate"] as const;
+    const override = { isEnabled: true, ...overridesFor("OPERATOR", [...wanted]) };
+
+    expect([...resolvePermissions("OPERATOR", override)].sort()).toEqual([...wanted].sort());
+  });
+});
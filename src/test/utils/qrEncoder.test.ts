@@ -0,0 +1,170 @@
+/**
+ * QR Encoder Tests
+ * ----------------
+ * Round-trip tests: encode with our encoder, decode with jsQR
+ */
+
+import { describe, it, expect } from "vitest";
+import zlib from "zlib";
+import crypto from "crypto";
+import jsQR from "jsqr";
+import {
+  encodeQR,
+  detectMode,
+  renderQRCodePNG,
+  renderQRCodeSVG,
+  type QRCodeMatrix,
+  type QRErrorCorrectionLevel,
+} from "../../server/utils/qrEncoder";
+
+/**
+ * Rasterise a module matrix into RGBA pixels for jsQR
+ */
+function matrixToImage(matrix: QRCodeMatrix, scale = 4, quietZone = 4) {
+  const dimension = (matrix.size + quietZone * 2) * scale;
+  const data = new Uint8ClampedArray(dimension * dimension * 4).fill(255);
+
+  for (let py = 0; py < dimension; py++) {
+    for (let px = 0; px < dimension; px++) {
+      const my = Math.floor(py / scale) - quietZone;
+      const mx = Math.floor(px / scale) - quietZone;
+      if (matrix.modules[my]?.[mx]) {
+        const offset = (py * dimension + px) * 4;
+        data[offset] = 0;
+        data[offset + 1] = 0;
+        data[offset + 2] = 0;
+      }
+    }
+  }
+
+  return { data, width: dimension, height: dimension };
+}
+
+/**
+ * Minimal decoder for the grayscale, unfiltered PNGs we emit
+ */
+function decodeGrayscalePNG(png: Buffer) {
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Buffer[] = [];
+
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const body = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+    } else if (type === "IDAT") {
+      idat.push(body);
+    }
+    offset += 12 + length;
+  }
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = raw[y * (width + 1) + 1 + x]!;
+      const o = (y * width + x) * 4;
+      data[o] = value;
+      data[o + 1] = value;
+      data[o + 2] = value;
+      data[o + 3] = 255;
+    }
+  }
+
+  return { data, width, height };
+}
+
+function decode(matrix: QRCodeMatrix): string | undefined {
+  const image = matrixToImage(matrix);
+  return jsQR(image.data, image.width, image.height)?.data;
+}
+
+describe("QR Encoder", () => {
+  describe("mode detection", () => {
+    it("should detect numeric, alphanumeric and byte modes", () => {
+      expect(detectMode("0123456789")).toBe("NUMERIC");
+      expect(detectMode("HTTPS://EXAMPLE.COM/01/123")).toBe("ALPHANUMERIC");
+      expect(detectMode("eyJlIjoiYWJjIn0")).toBe("BYTE");
+    });
+  });
+
+  describe("version selection", () => {
+    it("should use version 1 for short input", () => {
+      const matrix = encodeQR("HELLO WORLD", { errorCorrection: "Q" });
+
+      expect(matrix.version).toBe(1);
+      expect(matrix.size).toBe(21);
+      expect(matrix.modules).toHaveLength(21);
+    });
+
+    it("should grow the version for long base64url code values", () => {
+      const codeValue = crypto.randomBytes(300).toString("base64url");
+      const matrix = encodeQR(codeValue, { errorCorrection: "M" });
+
+      expect(matrix.version).toBeGreaterThan(10);
+      expect(matrix.size).toBe(matrix.version * 4 + 17);
+    });
+
+    it("should throw when data exceeds version 40 capacity", () => {
+      const tooLong = "x".repeat(3000);
+
+      expect(() => encodeQR(tooLong, { errorCorrection: "H" })).toThrow(
+        /Data too long/
+      );
+    });
+  });
+
+  describe("round-trip decoding", () => {
+    const levels: QRErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+    it.each(levels)("should decode byte mode at level %s", (level) => {
+      const text = "https://optropic.example/v/" + crypto.randomBytes(24).toString("base64url");
+      const matrix = encodeQR(text, { errorCorrection: level });
+
+      expect(decode(matrix)).toBe(text);
+    });
+
+    it("should decode numeric and alphanumeric payloads", () => {
+      expect(decode(encodeQR("01234567890123456789"))).toBe("01234567890123456789");
+      expect(decode(encodeQR("OPTROPIC-CODE 42/$%*+.:"))).toBe("OPTROPIC-CODE 42/$%*+.:");
+    });
+
+    it("should decode a large multi-block symbol with version information", () => {
+      const codeValue = crypto.randomBytes(400).toString("base64url");
+      const matrix = encodeQR(codeValue, { errorCorrection: "L" });
+
+      expect(matrix.version).toBeGreaterThanOrEqual(7);
+      expect(decode(matrix)).toBe(codeValue);
+    });
+
+    it.each([0, 1, 2, 3, 4, 5, 6, 7])("should decode with forced mask %i", (mask) => {
+      const matrix = encodeQR("MASK TEST 12345", { mask });
+
+      expect(matrix.mask).toBe(mask);
+      expect(decode(matrix)).toBe("MASK TEST 12345");
+    });
+
+    it("should decode the rendered PNG", () => {
+      const text = crypto.randomBytes(64).toString("base64url");
+      const png = renderQRCodePNG(encodeQR(text), { scale: 4 });
+      const image = decodeGrayscalePNG(png);
+
+      expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+      expect(jsQR(image.data, image.width, image.height)?.data).toBe(text);
+    });
+  });
+
+  describe("SVG rendering", () => {
+    it("should include the quiet zone in the viewBox", () => {
+      const matrix = encodeQR("HELLO");
+      const svg = renderQRCodeSVG(matrix, { quietZone: 4 });
+
+      expect(svg).toContain(`viewBox="0 0 ${matrix.size + 8} ${matrix.size + 8}"`);
+      expect(svg.startsWith("<svg")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Redirect Rule Tests
+ * -------------------
+ * The first enabled rule whose conditions all hold fires; traces explain
+ * which conditions failed.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  abBucketFor,
+  detectDeviceType,
+  evaluateRules,
+  failedConditions,
+  parseAcceptLanguage,
+  parseRuleSet,
+  type RedirectScanContext,
+} from "../../server/utils/redirectRules";
+
+const scan = (overrides: Partial<RedirectScanContext> = {}): RedirectScanContext => ({
+  now: new Date("2026-03-04T10:30:00Z"), // Wednesday
+  country: "DE",
+  region: "BY",
+  deviceType: "MOBILE",
+  scanCount: 1,
+  role: "consumer",
+  languages: ["de-de", "en"],
+  abBucket: 42,
+  visitorKey: "device-1",
+  ...overrides,
+});
+
+const ruleSet = parseRuleSet({
+  rules: [
+    { id: "blocked-market", conditions: { country: ["ru"] }, action: { type: "BLOCK" } },
+    { id: "disabled", enabled: false, action: { type: "REDIRECT", url: "https://example.com/off" } },
+    {
+      id: "de-mobile",
+      conditions: { country: ["DE", "AT"], deviceType: ["MOBILE"], language: ["de"] },
+      action: { type: "REDIRECT", url: "https://example.com/de" },
+    },
+    { id: "default", action: { type: "SERVE_CONTENT", contentId: 7 } },
+  ],
+});
+
+describe("Redirect rule sets", () => {
+  it("should validate stored rules and apply defaults", () => {
+    expect(parseRuleSet(null)).toBeNull();
+    expect(ruleSet!.rules[0]!.enabled).toBe(true);
+    expect(ruleSet!.rules[0]!.conditions.country).toEqual(["RU"]);
+    expect(() => parseRuleSet({ rules: [{ id: "x", action: { type: "REDIRECT", url: "javascript:alert(1)" } }] })).toThrow(
+      /Invalid redirect rules/
+    );
+    expect(() =>
+      parseRuleSet({ rules: [{ id: "x", action: { type: "BLOCK" } }, { id: "x", action: { type: "BLOCK" } }] })
+    ).toThrow(/unique/);
+  });
+
+  it("should fire the first matching enabled rule and trace the rest", () => {
+    const evaluation = evaluateRules(ruleSet, scan());
+
+    expect(evaluation.rule?.id).toBe("de-mobile");
+    expect(evaluation.action).toEqual({ type: "REDIRECT", url: "https://example.com/de" });
+    expect(evaluation.trace).toEqual([
+      { ruleId: "blocked-market", name: undefined, enabled: true, matched: false, failed: ["country"] },
+      { ruleId: "disabled", name: undefined, enabled: false, matched: false, failed: [] },
+      { ruleId: "de-mobile", name: undefined, enabled: true, matched: true, failed: [] },
+      { ruleId: "default", name: undefined, enabled: true, matched: false, failed: [] },
+    ]);
+  });
+
+  it("should fall through to later rules when conditions fail", () => {
+    expect(evaluateRules(ruleSet, scan({ deviceType: "DESKTOP" })).rule?.id).toBe("default");
+    expect(evaluateRules(ruleSet, scan({ country: "RU" })).action).toEqual({ type: "BLOCK" });
+    expect(evaluateRules(null, scan()).rule).toBeNull();
+  });
+});
+
+describe("Redirect conditions", () => {
+  it("should match time windows in the configured time zone", () => {
+    const window = { days: [3], hours: { from: 9, to: 12 }, timezone: "Europe/Berlin" };
+
+    expect(failedConditions({ time: window }, scan())).toEqual([]);
+    expect(failedConditions({ time: window }, scan({ now: new Date("2026-03-04T11:30:00Z") }))).toEqual(["time"]);
+    expect(failedConditions({ time: { hours: { from: 22, to: 6 } } }, scan({ now: new Date("2026-03-04T23:00:00Z") }))).toEqual([]);
+    expect(failedConditions({ time: { until: "2026-01-01T00:00:00Z" } }, scan())).toEqual(["time"]);
+  });
+
+  it("should match scan counts, roles, languages and A/B buckets", () => {
+    const conditions = {
+      scanCount: { max: 1 },
+      role: ["consumer"],
+      language: ["de"],
+      abBucket: { from: 0, to: 49 },
+    };
+
+    expect(failedConditions(conditions, scan())).toEqual([]);
+    expect(failedConditions(conditions, scan({ scanCount: 2, role: undefined, languages: ["en"], abBucket: 50 }))).toEqual([
+      "scanCount",
+      "role",
+      "language",
+      "abBucket",
+    ]);
+    expect(failedConditions({ language: ["de-ch"] }, scan())).toEqual(["language"]);
+  });
+
+  it("should fail conditions on attributes the scan does not carry", () => {
+    expect(failedConditions({ country: ["DE"], region: ["by"] }, scan({ country: undefined }))).toEqual(["country"]);
+  });
+});
+
+describe("Scan attributes", () => {
+  it("should assign stable buckets per device", () => {
+    const bucket = abBucketFor("device-1", "project-1");
+
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+    expect(abBucketFor("device-1", "project-1")).toBe(bucket);
+  });
+
+  it("should order Accept-Language tags by quality", () => {
+    expect(parseAcceptLanguage("en;q=0.5, de-CH, fr;q=0.8, *;q=0.1")).toEqual(["de-ch", "fr", "en"]);
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+
+  it("should classify user agents", () => {
+    expect(detectDeviceType("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Mobile/15E148")).toBe("MOBILE");
+    expect(detectDeviceType("Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36")).toBe("TABLET");
+    expect(detectDeviceType("Mozilla/5.0 (Windows NT 10.0; Win64; x64)")).toBe("DESKTOP");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Template Catalog Tests
+ * ----------------------
+ * Template bodies declare their placeholders, parameter values are checked
+ * against the definitions, and rendering keeps typed values typed.
+ */
+
+import { describe, it, expect } from "vitest";
+import { TemplateParameterSchema, type TemplateParameter } from "@optropic/shared";
+import {
+  parametersSchema,
+  renderTemplate,
+  templatePlaceholders,
+  templateProblems,
+} from "../../server/utils/templates";
+
+const parameters: TemplateParameter[] = [
+  { key: "organizationName", label: "Organization", type: "string", required: true },
+  { key: "region", label: "Region", type: "enum", required: false, options: ["EU", "US"], default: "EU" },
+  { key: "products", label: "Products", type: "products", required: false, default: [] },
+  { key: "retentionDays", label: "Retention", type: "number", required: false },
+];
+
+const body = {
+  roles: ["MANAGER", "INSPECTOR"],
+  actions: { MANAGER: ["VIEW_INFO"], INSPECTOR: ["INSPECT"] },
+  productList: "{{products}}",
+  configJson: {
+    metadata: { organization: "{{ organizationName }}", label: "{{organizationName}} ({{region}})" },
+    settings: { retentionDays: "{{retentionDays}}" },
+  },
+};
+
+describe("templatePlaceholders", () => {
+  it("collects placeholder keys anywhere in the body", () => {
+    expect(templatePlaceholders(body).sort()).toEqual(["organizationName", "products", "region", "retentionDays"]);
+    expect(templatePlaceholders({ a: "{{ not valid }}", b: 1 })).toEqual([]);
+  });
+});
+
+describe("templateProblems", () => {
+  it("accepts consistent templates", () => {
+    expect(templateProblems(parameters, body)).toEqual([]);
+  });
+
+  it("reports undeclared placeholders, duplicates and bad defaults", () => {
+    const problems = templateProblems(
+      [
+        { key: "region", label: "Region", type: "enum", required: false, options: ["EU"], default: "APAC" },
+        { key: "region", label: "Again", type: "string", required: false },
+      ],
+      { site: "{{siteName}}", region: "{{region}}" }
+    );
+    expect(problems).toEqual([
+      'Parameter "region" is defined more than once',
+      'Placeholder "{{siteName}}" has no parameter',
+      'Default of "region" is not a valid enum',
+    ]);
+  });
+
+  it("requires options for enum parameters", () => {
+    expect(TemplateParameterSchema.safeParse({ key: "tier", label: "Tier", type: "enum" }).success).toBe(false);
+  });
+});
+
+describe("parametersSchema", () => {
+  it("applies defaults and enforces required parameters", () => {
+    const schema = parametersSchema(parameters);
+    expect(schema.parse({ organizationName: "Acme" })).toEqual({
+      organizationName: "Acme",
+      region: "EU",
+      products: [],
+    });
+    expect(schema.safeParse({}).success).toBe(false);
+    expect(schema.safeParse({ organizationName: "Acme", region: "APAC" }).success).toBe(false);
+    expect(schema.safeParse({ organizationName: "Acme", retentionDays: "30" }).success).toBe(false);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("substitutes typed values and embeds text", () => {
+    const products = [{ gtin: "09506000134352", name: "Widget" }];
+    const rendered = renderTemplate(body, { organizationName: "Acme", region: "EU", products, retentionDays: 30 });
+
+    expect(rendered).toEqual({
+      roles: ["MANAGER", "INSPECTOR"],
+      actions: { MANAGER: ["VIEW_INFO"], INSPECTOR: ["INSPECT"] },
+      productList: products,
+      configJson: {
+        metadata: { organization: "Acme", label: "Acme (EU)" },
+        settings: { retentionDays: 30 },
+      },
+    });
+  });
+
+  it("renders omitted optional values as null or empty text", () => {
+    expect(renderTemplate({ a: "{{x}}", b: "x={{x}}" }, {})).toEqual({ a: null, b: "x=" });
+  });
+});
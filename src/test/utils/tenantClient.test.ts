@@ -0,0 +1,129 @@
+// @vitest-environment node
+/**
+ * Tenant-Aware Client Tests
+ * -------------------------
+ * The query hook of the tenant extension in `db.ts`, run against an
+ * in-memory table: reads only see the tenant's rows and skip the session
+ * variable transaction, creates are stamped, writes to another tenant's rows
+ * match nothing, and nested writes into tenant models are checked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Prisma } from "@prisma/client";
+import { createTenantQuery } from "../../server/db";
+import { runAsTenant } from "../../server/tenantContext";
+
+vi.unmock("../../server/db");
+
+type Row = Record<string, unknown>;
+
+let projects: Row[] = [];
+
+const base = {
+  $transaction: vi.fn(async (queries: Promise<unknown>[]) => await Promise.all(queries)),
+  $executeRaw: vi.fn(async () => 1),
+};
+
+const matches = (row: Row, where: Row = {}) => Object.entries(where).every(([field, value]) => row[field] === value);
+
+/** Enough of Prisma's project delegate for the hook's rewritten arguments */
+async function runQuery(model: string, operation: string, args: Row): Promise<unknown> {
+  if (model !== "Project") return args;
+
+  const where = args.where as Row | undefined;
+  switch (operation) {
+    case "findMany":
+      return projects.filter((row) => matches(row, where));
+    case "findUnique":
+      return projects.find((row) => matches(row, where)) ?? null;
+    case "create": {
+      const row = { id: projects.length + 1, ...(args.data as Row) };
+      projects.push(row);
+      return row;
+    }
+    case "update": {
+      const row = projects.find((candidate) => matches(candidate, where));
+      if (!row) throw new Error("Record to update not found.");
+      return Object.assign(row, args.data);
+    }
+    case "updateMany": {
+      const rows = projects.filter((row) => matches(row, where));
+      rows.forEach((row) => Object.assign(row, args.data));
+      return { count: rows.length };
+    }
+    default:
+      throw new Error(`Unexpected ${operation}`);
+  }
+}
+
+/** Run one operation through the hook as user 3 of tenant 7 */
+function asTenant(model: string, operation: string, args: Row) {
+  const tenantQuery = createTenantQuery(base as unknown as Parameters<typeof createTenantQuery>[0]);
+  const query = vi.fn((scoped: unknown) => runQuery(model, operation, scoped as Row) as Prisma.PrismaPromise<unknown>);
+  return { query, result: runAsTenant(3, 7, () => tenantQuery({ model, operation, args, query })) };
+}
+
+describe("Tenant-aware client", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    projects = [
+      { id: 1, name: "Ours", tenantId: 7 },
+      { id: 2, name: "Theirs", tenantId: 8 },
+    ];
+  });
+
+  it("should filter reads to the tenant", async () => {
+    const { result } = asTenant("Project", "findMany", {});
+
+    expect(await result).toEqual([{ id: 1, name: "Ours", tenantId: 7 }]);
+    expect(await asTenant("Project", "findUnique", { where: { id: 2 } }).result).toBeNull();
+  });
+
+  it("should set the session variable for reads", async () => {
+    await asTenant("Project", "findMany", {}).result;
+
+    expect(base.$transaction).toHaveBeenCalledTimes(1);
+    expect(base.$executeRaw).toHaveBeenCalledWith(expect.anything(), "3");
+  });
+
+  it("should stamp created rows and set the session variable", async () => {
+    const created = await asTenant("Project", "create", { data: { name: "New" } }).result;
+
+    expect(created).toEqual({ id: 3, name: "New", tenantId: 7 });
+    expect(base.$transaction).toHaveBeenCalledTimes(1);
+    expect(base.$executeRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it("should match nothing when updating another tenant's row", async () => {
+    await expect(asTenant("Project", "update", { where: { id: 2 }, data: { name: "Taken" } }).result).rejects.toThrow(
+      "Record to update not found."
+    );
+    expect(await asTenant("Project", "updateMany", { where: { id: 2 }, data: { name: "Taken" } }).result).toEqual({
+      count: 0,
+    });
+    expect(projects[1]!.name).toBe("Theirs");
+  });
+
+  it("should reject nested creates of tenant models", async () => {
+    const { query, result } = asTenant("User", "update", {
+      where: { id: 3 },
+      data: { projects: { create: { name: "Nested" } } },
+    });
+
+    await expect(result).rejects.toThrow("Nested create of Project rejected");
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it("should narrow nested connects to the tenant", async () => {
+    const { query, result } = asTenant("Key", "update", {
+      where: { id: 4 },
+      data: { project: { connect: { id: 2 } } },
+    });
+    await result;
+
+    expect(query).toHaveBeenCalledWith({
+      where: { id: 4, tenantId: 7 },
+      data: { project: { connect: { id: 2, tenantId: 7 } } },
+    });
+  });
+});
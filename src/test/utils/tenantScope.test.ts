@@ -0,0 +1,113 @@
+/**
+ * Tenant Scoping Tests
+ * --------------------
+ * Reads and filtered writes of tenant models are narrowed to the tenant,
+ * created rows are stamped with it, and writes naming another tenant fail.
+ * Nested creates of tenant models are refused and nested connects narrowed.
+ */
+
+import { describe, it, expect } from "vitest";
+import { isTenantScoped, scopeArgs, scopeNestedWrites, type RelationMap } from "../../server/utils/tenantScope";
+
+describe("isTenantScoped", () => {
+  it("covers tenant models only", () => {
+    expect(isTenantScoped("OptropicCode")).toBe(true);
+    expect(isTenantScoped("ActivityLog")).toBe(true);
+    expect(isTenantScoped("User")).toBe(false);
+    expect(isTenantScoped("ConfigPackTemplate")).toBe(false);
+    expect(isTenantScoped(undefined)).toBe(false);
+  });
+});
+
+describe("scopeArgs", () => {
+  it("narrows reads", () => {
+    expect(scopeArgs("findMany", { where: { projectId: 3 }, take: 10 }, 7)).toEqual({
+      where: { projectId: 3, tenantId: 7 },
+      take: 10,
+    });
+    expect(scopeArgs("count", undefined, 7)).toEqual({ where: { tenantId: 7 } });
+  });
+
+  it("narrows unique lookups", () => {
+    expect(scopeArgs("findUnique", { where: { id: 1 } }, 7)).toEqual({ where: { id: 1, tenantId: 7 } });
+  });
+
+  it("narrows updates and deletes", () => {
+    expect(scopeArgs("update", { where: { id: 1 }, data: { status: "REVOKED" } }, 7)).toEqual({
+      where: { id: 1, tenantId: 7 },
+      data: { status: "REVOKED" },
+    });
+    expect(scopeArgs("deleteMany", { where: { projectId: 3 } }, 7)).toEqual({ where: { projectId: 3, tenantId: 7 } });
+  });
+
+  it("stamps created rows", () => {
+    expect(scopeArgs("create", { data: { projectId: 3 } }, 7)).toEqual({ data: { projectId: 3, tenantId: 7 } });
+    expect(scopeArgs("createMany", { data: [{ projectId: 3 }, { projectId: 4, tenantId: 7 }] }, 7)).toEqual({
+      data: [
+        { projectId: 3, tenantId: 7 },
+        { projectId: 4, tenantId: 7 },
+      ],
+    });
+  });
+
+  it("narrows and stamps upserts", () => {
+    expect(scopeArgs("upsert", { where: { id: 1 }, create: { name: "A" }, update: { name: "B" } }, 7)).toEqual({
+      where: { id: 1, tenantId: 7 },
+      create: { name: "A", tenantId: 7 },
+      update: { name: "B" },
+    });
+  });
+
+  it("leaves relation-style tenant input alone", () => {
+    const data = { name: "Key", tenant: { connect: { id: 7 } } };
+    expect(scopeArgs("create", { data }, 7)).toEqual({ data });
+  });
+
+  it("rejects writes for another tenant", () => {
+    expect(() => scopeArgs("create", { data: { tenantId: 8 } }, 7)).toThrow("Cross-tenant write rejected");
+    expect(() => scopeArgs("update", { where: { id: 1 }, data: { tenantId: 8 } }, 7)).toThrow(
+      "Cross-tenant write rejected"
+    );
+  });
+});
+
+describe("scopeNestedWrites", () => {
+  const relations: RelationMap = new Map([
+    ["User", new Map([["projects", "Project"], ["notifications", "Notification"]])],
+    ["Notification", new Map([["project", "Project"]])],
+    ["Project", new Map([["codes", "OptropicCode"], ["tenant", "User"]])],
+  ]);
+
+  it("rejects nested creates of tenant models at any depth", () => {
+    expect(() => scopeNestedWrites("User", { data: { projects: { create: { name: "A" } } } }, 7, relations)).toThrow(
+      "Nested create of Project rejected"
+    );
+    expect(() =>
+      scopeNestedWrites(
+        "User",
+        { data: { notifications: { create: [{ title: "A", project: { connectOrCreate: {} } }] } } },
+        7,
+        relations
+      )
+    ).toThrow("Nested connectOrCreate of Project rejected");
+    expect(() =>
+      scopeNestedWrites(
+        "User",
+        { data: { projects: { update: { where: { id: 1 }, data: { codes: { createMany: { data: [] } } } } } } },
+        7,
+        relations
+      )
+    ).toThrow("Nested createMany of OptropicCode rejected");
+  });
+
+  it("narrows nested connects to the tenant", () => {
+    expect(scopeNestedWrites("User", { data: { projects: { connect: [{ id: 1 }, { id: 2 }] } } }, 7, relations)).toEqual({
+      data: { projects: { connect: [{ id: 1, tenantId: 7 }, { id: 2, tenantId: 7 }] } },
+    });
+  });
+
+  it("leaves other writes alone", () => {
+    const args = { create: { name: "A", tenant: { connect: { id: 7 } } }, update: { name: "B", data: { create: true } } };
+    expect(scopeNestedWrites("Project", args, 7, relations)).toEqual(args);
+  });
+});
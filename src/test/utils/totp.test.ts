@@ -0,0 +1,120 @@
+/**
+ * TOTP Tests
+ * ----------
+ * Codes match the RFC 6238 SHA-1 test vectors, verify within one step of
+ * drift and never twice, and recovery codes are unique and normalise.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  isMfaRequired,
+  isStepUpFresh,
+  normalizeRecoveryCode,
+  otpauthUri,
+  totp,
+  totpStep,
+  verifyTotp,
+} from "../../server/utils/totp";
+
+// RFC 6238 appendix B: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe("base32", () => {
+  it("round-trips and matches RFC 4648", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("MZXW6YTBOI======").toString()).toBe("foobar");
+    expect(base32Decode("mzxw 6ytb-oi").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow("Invalid base32 character");
+  });
+});
+
+describe("totp", () => {
+  it("matches the RFC 6238 test vectors", () => {
+    expect(totp(RFC_SECRET, at(59), 8)).toBe("94287082");
+    expect(totp(RFC_SECRET, at(1111111109), 8)).toBe("07081804");
+    expect(totp(RFC_SECRET, at(1111111111), 8)).toBe("14050471");
+    expect(totp(RFC_SECRET, at(1234567890), 8)).toBe("89005924");
+    expect(totp(RFC_SECRET, at(2000000000), 8)).toBe("69279037");
+  });
+
+  it("generates 160-bit secrets", () => {
+    expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+  });
+});
+
+describe("verifyTotp", () => {
+  const secret = generateTotpSecret();
+  const now = at(1_700_000_000);
+
+  it("accepts the current code and one step of drift", () => {
+    expect(verifyTotp(secret, totp(secret, now), now)).toBe(totpStep(now));
+    expect(verifyTotp(secret, totp(secret, at(1_700_000_000 - 30)), now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(secret, totp(secret, at(1_700_000_000 + 30)), now)).toBe(totpStep(now) + 1);
+  });
+
+  it("rejects codes outside the window", () => {
+    expect(verifyTotp(secret, totp(secret, at(1_700_000_000 - 90)), now)).toBeNull();
+  });
+
+  it("refuses a step that was already used", () => {
+    const code = totp(secret, now);
+    expect(verifyTotp(secret, code, now, totpStep(now))).toBeNull();
+    expect(verifyTotp(secret, code, now, totpStep(now) - 1)).toBe(totpStep(now));
+  });
+
+  it("rejects malformed codes", () => {
+    expect(verifyTotp(secret, "12345", now)).toBeNull();
+    expect(verifyTotp(secret, "abcdef", now)).toBeNull();
+  });
+});
+
+describe("otpauthUri", () => {
+  it("names the issuer and account", () => {
+    const uri = otpauthUri("Optropic", "ada@example.com", "ABC");
+    expect(uri).toBe(
+      "otpauth://totp/Optropic:ada%40example.com?secret=ABC&issuer=Optropic&algorithm=SHA1&digits=6&period=30"
+    );
+  });
+});
+
+describe("recovery codes", () => {
+  it("are unique and formatted in two groups", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    }
+  });
+
+  it("normalise case, spaces and dashes", () => {
+    expect(normalizeRecoveryCode(" ABCDE-fgh23 ")).toBe("abcdefgh23");
+  });
+});
+
+describe("isMfaRequired", () => {
+  it("follows the tenant policy", () => {
+    expect(isMfaRequired(["ADMIN", "MANAGER"], "MANAGER")).toBe(true);
+    expect(isMfaRequired(["ADMIN"], "OPERATOR")).toBe(false);
+    expect(isMfaRequired(["ADMIN"], null)).toBe(false);
+  });
+});
+
+describe("isStepUpFresh", () => {
+  const now = at(1_700_000_000);
+
+  it("lasts five minutes", () => {
+    expect(isStepUpFresh(1_700_000_000 - 60, now)).toBe(true);
+    expect(isStepUpFresh(1_700_000_000 - 301, now)).toBe(false);
+    expect(isStepUpFresh(undefined, now)).toBe(false);
+  });
+});
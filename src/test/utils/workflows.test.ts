@@ -0,0 +1,68 @@
+/**
+ * Workflow Tests
+ * --------------
+ * Triggers pick their workflows out of a config pack, config pack roles map
+ * to archetypes, and only the step's archetypes (or ADMIN) complete a step.
+ */
+
+import { describe, it, expect } from "vitest";
+import { canCompleteStep, isPublicStep, stepArchetypes, workflowsFor } from "../../server/utils/workflows";
+
+const configJson = {
+  metadata: { name: "Pack" },
+  workflows: [
+    {
+      name: "Maintenance Workflow",
+      trigger: "maintenance_due",
+      steps: [
+        { action: "schedule_maintenance", roles: ["MANAGER"] },
+        { action: "perform_maintenance", roles: ["MAINTAINER"] },
+      ],
+    },
+    {
+      name: "Public Engagement",
+      trigger: "public_scan",
+      steps: [
+        { action: "display_info", roles: ["PUBLIC"] },
+        { action: "analyze_engagement", roles: ["MANAGER"] },
+      ],
+    },
+    { name: "Broken", trigger: "maintenance_due", steps: [] },
+  ],
+};
+
+describe("workflowsFor", () => {
+  it("returns the valid workflows for a trigger", () => {
+    expect(workflowsFor(configJson, "MAINTENANCE_DUE").map((workflow) => workflow.name)).toEqual([
+      "Maintenance Workflow",
+    ]);
+    expect(workflowsFor(configJson, "PUBLIC_SCAN")).toHaveLength(1);
+    expect(workflowsFor(configJson, "CODE_SCAN")).toEqual([]);
+  });
+
+  it("tolerates config packs without workflows", () => {
+    expect(workflowsFor({}, "CODE_SCAN")).toEqual([]);
+    expect(workflowsFor(null, "CODE_SCAN")).toEqual([]);
+    expect(workflowsFor({ workflows: "none" }, "CODE_SCAN")).toEqual([]);
+  });
+});
+
+describe("step roles", () => {
+  it("maps config pack roles to archetype codes", () => {
+    expect(stepArchetypes(["INSTALLER", "INSPECTOR", "INSTALLER"])).toEqual(["OPERATOR", "INSPECTOR"]);
+    expect(stepArchetypes(["ADMIN"])).toEqual(["ADMIN"]);
+  });
+
+  it("recognises steps only the public takes", () => {
+    expect(isPublicStep(["PUBLIC"])).toBe(true);
+    expect(isPublicStep(["PUBLIC", "MANAGER"])).toBe(false);
+    expect(isPublicStep([])).toBe(false);
+  });
+
+  it("lets the step's archetypes and ADMIN complete it", () => {
+    expect(canCompleteStep(["MAINTAINER"], "MAINTAINER")).toBe(true);
+    expect(canCompleteStep(["MAINTAINER"], "ADMIN")).toBe(true);
+    expect(canCompleteStep(["MAINTAINER"], "INSPECTOR")).toBe(false);
+    expect(canCompleteStep(["MAINTAINER"], null)).toBe(false);
+  });
+});
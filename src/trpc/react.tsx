@@ -5,12 +5,17 @@ import {
   httpBatchStreamLink,
   httpSubscriptionLink,
   createTRPCClient,
+  type TRPCLink,
 } from "@trpc/client";
 import { createTRPCContext } from "@trpc/tanstack-react-query";
+import { observable } from "@trpc/server/observable";
 import { useState } from "react";
 import SuperJSON from "superjson";
+import { STEP_UP_REQUIRED } from "@optropic/shared";
 
 import { AppRouter } from "~/server/trpc/root";
+import { useAuthStore } from "~/stores/auth";
+import { useStepUpStore } from "~/stores/stepUp";
 import { getQueryClient } from "./query-client";
 
 // Now, with the newer @trpc/tanstack-react-query package, we no longer need createTRPCReact.
@@ -24,6 +29,42 @@ function getBaseUrl() {
   return `http://localhost:3000`;
 }
 
+/**
+ * Mutations refused for a stale step-up open the re-authentication prompt
+ * and are sent again once the user has stepped up
+ */
+const stepUpLink: TRPCLink<AppRouter> =
+  () =>
+  ({ op, next }) =>
+    observable((observer) => {
+      let stopped = false;
+      let subscription = next(op).subscribe({
+        next: (result) => observer.next(result),
+        complete: () => observer.complete(),
+        error: (error) => {
+          if (op.type !== "mutation" || error.message !== STEP_UP_REQUIRED) {
+            observer.error(error);
+            return;
+          }
+          void useStepUpStore
+            .getState()
+            .request()
+            .then((confirmed) => {
+              if (stopped) return;
+              if (confirmed) {
+                subscription = next(op).subscribe(observer);
+              } else {
+                observer.error(error);
+              }
+            });
+        },
+      });
+      return () => {
+        stopped = true;
+        subscription.unsubscribe();
+      };
+    });
+
 export function TRPCReactProvider(props: { children: React.ReactNode }) {
   const queryClient = getQueryClient();
 
@@ -35,11 +76,16 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
             process.env.NODE_ENV === "development" ||
             (op.direction === "down" && op.result instanceof Error),
         }),
+        stepUpLink,
         splitLink({
           condition: (op) => op.type === "subscription",
           false: httpBatchStreamLink({
             transformer: SuperJSON,
             url: getBaseUrl() + "/trpc",
+            headers() {
+              const token = useAuthStore.getState().token;
+              return token ? { Authorization: `Bearer ${token}` } : {};
+            },
           }),
           true: httpSubscriptionLink({
             transformer: SuperJSON,
@@ -0,0 +1,96 @@
+/*
+  # Bulk Code Generation Batches
+
+  ## Overview
+  Persists bulk code generation jobs so print runs of 50k–1M codes can be
+  processed in chunks, resumed after a crash and cancelled.
+
+  ## Changes
+
+  ### 1. Create code_batches Table
+  - Tracks quantity, generated count and chunk size
+  - Stores per-batch code options (content, asset, role, metadata)
+  - Lifecycle status: PENDING, RUNNING, COMPLETED, FAILED, CANCELLED
+
+  ### 2. Link Codes to Batches
+  - Add optional `batchId` to `optropic_codes`
+
+  ### 3. RLS Policies
+  - Tenant-scoped select/insert/update, same pattern as other tables
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'CodeBatchStatus') THEN
+    CREATE TYPE "CodeBatchStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+  END IF;
+END $$;
+
+-- Create code_batches table
+CREATE TABLE IF NOT EXISTS code_batches (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  status "CodeBatchStatus" DEFAULT 'PENDING' NOT NULL,
+  quantity INTEGER NOT NULL,
+  "generatedCount" INTEGER DEFAULT 0 NOT NULL,
+  "chunkSize" INTEGER DEFAULT 1000 NOT NULL,
+  "codeType" "CodeType" NOT NULL,
+  "encryptionLevel" "EncryptionLevel" DEFAULT 'AES_128' NOT NULL,
+  "encryptPayload" BOOLEAN DEFAULT false NOT NULL,
+  options JSONB,
+  "errorMessage" TEXT,
+  "startedAt" TIMESTAMPTZ,
+  "completedAt" TIMESTAMPTZ,
+  "cancelledAt" TIMESTAMPTZ,
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER REFERENCES users(id),
+  "keyId" INTEGER NOT NULL REFERENCES keys(id),
+  "requestedById" INTEGER NOT NULL REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_batches_status ON code_batches(status);
+CREATE INDEX IF NOT EXISTS idx_code_batches_tenantid ON code_batches("tenantId");
+
+-- Add batchId to optropic_codes table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'optropic_codes' AND column_name = 'batchId'
+  ) THEN
+    ALTER TABLE optropic_codes ADD COLUMN "batchId" INTEGER;
+
+    ALTER TABLE optropic_codes
+    ADD CONSTRAINT optropic_codes_batchid_fkey
+    FOREIGN KEY ("batchId") REFERENCES code_batches(id);
+
+    CREATE INDEX IF NOT EXISTS idx_optropic_codes_batchid ON optropic_codes("batchId");
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE code_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "code_batches_select_policy" ON code_batches;
+CREATE POLICY "code_batches_select_policy" ON code_batches
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "code_batches_insert_policy" ON code_batches;
+CREATE POLICY "code_batches_insert_policy" ON code_batches
+  FOR INSERT
+  WITH CHECK ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "code_batches_update_policy" ON code_batches;
+CREATE POLICY "code_batches_update_policy" ON code_batches
+  FOR UPDATE
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE code_batches IS 'Bulk code generation jobs with resumable chunked progress';
@@ -0,0 +1,78 @@
+/*
+  # Code Export Jobs
+
+  ## Overview
+  Tracks print and manifest exports of generated codes. Export files are
+  written to the `optropic-exports` MinIO bucket and downloaded through
+  short-lived signed URLs.
+
+  ## Changes
+
+  ### 1. Create code_exports Table
+  - Format: CSV, JSONL, ZIP_SVG, ZIP_PNG, PDF_LABELS
+  - Filters (batch, asset, date range) and rendering options as JSON
+  - Object key, file size and code count of the finished export
+  - Lifecycle status: PENDING, RUNNING, COMPLETED, FAILED
+
+  ### 2. RLS Policies
+  - Tenant-scoped select/insert/update, same pattern as other tables
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'CodeExportFormat') THEN
+    CREATE TYPE "CodeExportFormat" AS ENUM ('CSV', 'JSONL', 'ZIP_SVG', 'ZIP_PNG', 'PDF_LABELS');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'CodeExportStatus') THEN
+    CREATE TYPE "CodeExportStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+  END IF;
+END $$;
+
+-- Create code_exports table
+CREATE TABLE IF NOT EXISTS code_exports (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  format "CodeExportFormat" NOT NULL,
+  status "CodeExportStatus" DEFAULT 'PENDING' NOT NULL,
+  filters JSONB,
+  options JSONB,
+  "codeCount" INTEGER DEFAULT 0 NOT NULL,
+  "objectKey" TEXT,
+  "fileSize" INTEGER,
+  "errorMessage" TEXT,
+  "completedAt" TIMESTAMPTZ,
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER REFERENCES users(id),
+  "requestedById" INTEGER NOT NULL REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_exports_projectid ON code_exports("projectId");
+CREATE INDEX IF NOT EXISTS idx_code_exports_tenantid ON code_exports("tenantId");
+
+-- Enable RLS
+ALTER TABLE code_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "code_exports_select_policy" ON code_exports;
+CREATE POLICY "code_exports_select_policy" ON code_exports
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "code_exports_insert_policy" ON code_exports;
+CREATE POLICY "code_exports_insert_policy" ON code_exports
+  FOR INSERT
+  WITH CHECK ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "code_exports_update_policy" ON code_exports;
+CREATE POLICY "code_exports_update_policy" ON code_exports
+  FOR UPDATE
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE code_exports IS 'Code manifest, symbol archive and label sheet exports stored in MinIO';
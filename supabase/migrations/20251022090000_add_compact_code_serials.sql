@@ -0,0 +1,37 @@
+/*
+  # Compact Code Serials
+
+  ## Overview
+  Compact binary codes embed a per-key serial instead of the full entropy
+  seed, so they can be verified offline with only the project's public keys.
+
+  ## Changes
+
+  ### 1. Keys
+  - Add `serialCounter` (last serial issued for compact codes)
+
+  ### 2. Codes
+  - Add nullable `serial` to `optropic_codes` (null for JSON codes)
+  - Unique per key, used for lookup and revocation lists
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'keys' AND column_name = 'serialCounter'
+  ) THEN
+    ALTER TABLE keys ADD COLUMN "serialCounter" INTEGER DEFAULT 0 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'optropic_codes' AND column_name = 'serial'
+  ) THEN
+    ALTER TABLE optropic_codes ADD COLUMN serial INTEGER;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS optropic_codes_keyid_serial_key ON optropic_codes("keyId", serial);
+CREATE INDEX IF NOT EXISTS idx_optropic_codes_revoked_serials
+  ON optropic_codes("projectId") WHERE "isActive" = false AND serial IS NOT NULL;
@@ -0,0 +1,29 @@
+/*
+  # Ed25519 Encryption Level
+
+  ## Overview
+  Encryption levels now map to concrete algorithm suites, and keys record
+  the algorithm their material was generated for. Ed25519 is added as a
+  new level.
+
+  ## Changes
+
+  ### 1. Enums
+  - Add `ED25519` to `EncryptionLevel`
+
+  ### 2. Keys
+  - `algorithm` may now be `prime256v1`, `rsa-2048`, `rsa-4096` or `ed25519`
+    (existing keys stay `prime256v1`)
+*/
+
+ALTER TYPE "EncryptionLevel" ADD VALUE IF NOT EXISTS 'ED25519';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'keys_algorithm_check'
+  ) THEN
+    ALTER TABLE keys ADD CONSTRAINT keys_algorithm_check
+      CHECK (algorithm IN ('prime256v1', 'rsa-2048', 'rsa-4096', 'ed25519'));
+  END IF;
+END $$;
@@ -0,0 +1,51 @@
+/*
+  # Tenant Data Keys (Envelope Encryption)
+
+  ## Overview
+  Private keys and encrypted code payloads were encrypted with a key padded
+  from `SECRET_KEY`, shared by every tenant. Each tenant now gets a random
+  data-encryption key that is stored only wrapped by a master key held by a
+  key provider (local key file or KMS). Purpose-specific keys are derived
+  from it with HKDF.
+
+  ## Changes
+
+  ### 1. Create tenant_data_keys Table
+  - Wrapped key, provider name and the master key id it was wrapped with
+  - Version per tenant, for future data-key rotation
+  - `rewrappedAt` set by the master-key re-wrap job
+
+  ### 2. RLS Policies
+  - Tenant-scoped select; rows are written by the server only
+
+  ## Notes
+  - Legacy `iv:tag:ciphertext` private keys keep decrypting with `SECRET_KEY`
+    until the re-wrap job migrates them
+*/
+
+-- Create tenant_data_keys table
+CREATE TABLE IF NOT EXISTS tenant_data_keys (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "rewrappedAt" TIMESTAMPTZ,
+  version INTEGER DEFAULT 1 NOT NULL,
+  provider TEXT NOT NULL,
+  "masterKeyId" TEXT NOT NULL,
+  "wrappedKey" TEXT NOT NULL,
+  "tenantId" INTEGER NOT NULL REFERENCES users(id),
+  UNIQUE ("tenantId", version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_data_keys_masterkeyid ON tenant_data_keys("masterKeyId");
+
+-- Enable RLS
+ALTER TABLE tenant_data_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "tenant_data_keys_select_policy" ON tenant_data_keys;
+CREATE POLICY "tenant_data_keys_select_policy" ON tenant_data_keys
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE tenant_data_keys IS 'Per-tenant data-encryption keys wrapped by the configured master key provider';
@@ -0,0 +1,66 @@
+/*
+  # Key Rotation States
+
+  ## Overview
+  Rotating a key used to deactivate it immediately, so every code it signed
+  failed verification. Keys now move through ACTIVE → ROTATING (verify-only
+  grace window) → RETIRED, or to COMPROMISED. A rotation policy decides
+  whether old codes keep verifying under the retired key (RETAIN) or are
+  re-signed with the successor key (RESIGN).
+
+  ## Changes
+
+  ### 1. Enums
+  - `KeyStatus`: ACTIVE, ROTATING, RETIRED, COMPROMISED
+  - `KeyRotationPolicy`: RETAIN, RESIGN
+
+  ### 2. Keys
+  - `status`, `rotationPolicy`, `rotatedAt`, `graceEndsAt`, `retiredAt`
+  - `successorKeyId` linking a rotated key to its replacement
+  - Existing inactive keys become RETIRED without a policy, so their codes
+    keep failing verification as before
+
+  ### 3. Codes
+  - `previousCodeValue`, `previousKeyId`, `reboundAt` for codes re-signed
+    by a RESIGN rotation; the old value verifies until the grace window ends
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'KeyStatus') THEN
+    CREATE TYPE "KeyStatus" AS ENUM ('ACTIVE', 'ROTATING', 'RETIRED', 'COMPROMISED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'KeyRotationPolicy') THEN
+    CREATE TYPE "KeyRotationPolicy" AS ENUM ('RETAIN', 'RESIGN');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'keys' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE keys ADD COLUMN status "KeyStatus" DEFAULT 'ACTIVE' NOT NULL;
+    ALTER TABLE keys ADD COLUMN "rotationPolicy" "KeyRotationPolicy";
+    ALTER TABLE keys ADD COLUMN "rotatedAt" TIMESTAMPTZ;
+    ALTER TABLE keys ADD COLUMN "graceEndsAt" TIMESTAMPTZ;
+    ALTER TABLE keys ADD COLUMN "retiredAt" TIMESTAMPTZ;
+    ALTER TABLE keys ADD COLUMN "successorKeyId" INTEGER REFERENCES keys(id);
+
+    UPDATE keys SET status = 'RETIRED', "retiredAt" = now() WHERE "isActive" = false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'optropic_codes' AND column_name = 'previousCodeValue'
+  ) THEN
+    ALTER TABLE optropic_codes ADD COLUMN "previousCodeValue" TEXT UNIQUE;
+    ALTER TABLE optropic_codes ADD COLUMN "previousKeyId" INTEGER REFERENCES keys(id);
+    ALTER TABLE optropic_codes ADD COLUMN "reboundAt" TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_keys_status_grace ON keys(status, "graceEndsAt");
+CREATE INDEX IF NOT EXISTS idx_optropic_codes_previouskeyid ON optropic_codes("previousKeyId");
@@ -0,0 +1,80 @@
+/*
+  # NFC/RFID Tag Pairings
+
+  ## Overview
+  NFC_PAIRING and RFID_PAIRING keys existed but nothing used them. A pairing
+  binds an optical code to a physical tag UID. The tag authenticates each
+  read with a SUN message (NTAG 424 DNA: encrypted PICCData plus a truncated
+  CMAC) under keys diversified from the pairing key, and the scan is trusted
+  fully only when both the code signature and the tag response match.
+
+  ## Changes
+
+  ### 1. Enums
+  - `TagTechnology`: NFC, RFID
+  - `TagPairingStatus`: ACTIVE, REVOKED
+
+  ### 2. Create tag_pairings Table
+  - One pairing per code (`codeId` unique), one per tag UID and pairing key
+  - `lastCounter` holds the highest SDM read counter accepted, so replayed
+    tag responses are rejected
+
+  ### 3. Scans
+  - `tagVerified`: null when no tag response was presented
+
+  ### 4. RLS Policies
+  - Tenant-scoped select; rows are written by the server only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'TagTechnology') THEN
+    CREATE TYPE "TagTechnology" AS ENUM ('NFC', 'RFID');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'TagPairingStatus') THEN
+    CREATE TYPE "TagPairingStatus" AS ENUM ('ACTIVE', 'REVOKED');
+  END IF;
+END $$;
+
+-- Create tag_pairings table
+CREATE TABLE IF NOT EXISTS tag_pairings (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  technology "TagTechnology" NOT NULL,
+  "tagUid" TEXT NOT NULL,
+  status "TagPairingStatus" DEFAULT 'ACTIVE' NOT NULL,
+  "lastCounter" INTEGER DEFAULT 0 NOT NULL,
+  "lastVerifiedAt" TIMESTAMPTZ,
+  "revokedAt" TIMESTAMPTZ,
+  "codeId" INTEGER NOT NULL UNIQUE REFERENCES optropic_codes(id),
+  "pairingKeyId" INTEGER NOT NULL REFERENCES keys(id),
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER,
+  UNIQUE ("pairingKeyId", "tagUid")
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_pairings_projectid ON tag_pairings("projectId");
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scans' AND column_name = 'tagVerified'
+  ) THEN
+    ALTER TABLE scans ADD COLUMN "tagVerified" BOOLEAN;
+  END IF;
+END $$;
+
+-- Enable RLS
+ALTER TABLE tag_pairings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "tag_pairings_select_policy" ON tag_pairings;
+CREATE POLICY "tag_pairings_select_policy" ON tag_pairings
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE tag_pairings IS 'Optical codes bound to NFC/RFID tags authenticated by SUN messages';
@@ -0,0 +1,39 @@
+/*
+  # GS1 Digital Link Fields
+
+  ## Overview
+  GS1-compliant codes carry a Digital Link URI built from the asset's GTIN,
+  batch/lot, serial and expiry date, and the resolver answers those URIs
+  with the project's content. Assets had no GTIN or expiry date, and content
+  had no way to say which GS1 link type it serves.
+
+  ## Changes
+
+  ### 1. Assets
+  - `gtin`: GTIN-14 (AI 01), indexed for resolver lookups
+  - `expiryDate`: AI 17
+
+  ### 2. Contents
+  - `gs1LinkType`: link relation (e.g. `gs1:pip`, `gs1:instructions`);
+    when null the resolver derives one from the content type
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'gtin'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN gtin TEXT;
+    ALTER TABLE assets ADD COLUMN "expiryDate" TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'gs1LinkType'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "gs1LinkType" TEXT;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_assets_gtin ON assets(gtin);
@@ -0,0 +1,90 @@
+/*
+  # Content Hub: Uploads and Version History
+
+  ## Overview
+  Content items were static rows with no API. Files are now uploaded
+  directly to the optropic-content bucket with presigned URLs and served
+  through a download proxy that counts downloads. Every change writes an
+  immutable snapshot so an item can be rolled back to any earlier version.
+
+  ## Changes
+
+  ### 1. Contents
+  - `updatedAt`: last change
+  - `archivedAt`: set when archived (`isActive` false)
+  - `objectKey`: uploaded file in the optropic-content bucket
+
+  ### 2. Create content_versions Table
+  - One row per (`contentId`, `version`), never updated
+  - `restoredFrom`: source version of a rollback
+
+  ### 3. Backfill
+  - A version 1 snapshot for every existing content item
+
+  ### 4. RLS Policies
+  - Tenant-scoped select; rows are written by the server only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'updatedAt'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'archivedAt'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "archivedAt" TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'objectKey'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "objectKey" TEXT;
+  END IF;
+END $$;
+
+-- Create content_versions table
+CREATE TABLE IF NOT EXISTS content_versions (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT,
+  "fileUrl" TEXT,
+  "objectKey" TEXT,
+  "fileSize" INTEGER,
+  "mimeType" TEXT,
+  "redirectRules" JSONB,
+  "gs1LinkType" TEXT,
+  "restoredFrom" INTEGER,
+  "createdById" INTEGER,
+  "contentId" INTEGER NOT NULL REFERENCES contents(id),
+  "tenantId" INTEGER,
+  UNIQUE ("contentId", version)
+);
+
+-- Backfill the current state of existing content as its first snapshot
+INSERT INTO content_versions (
+  version, title, url, "fileUrl", "fileSize", "mimeType", "redirectRules", "gs1LinkType", "contentId", "tenantId"
+)
+SELECT version, title, url, "fileUrl", "fileSize", "mimeType", "redirectRules", "gs1LinkType", id, "tenantId"
+FROM contents
+ON CONFLICT ("contentId", version) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE content_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "content_versions_select_policy" ON content_versions;
+CREATE POLICY "content_versions_select_policy" ON content_versions
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE content_versions IS 'Immutable snapshots of content items for history and rollback';
@@ -0,0 +1,64 @@
+/*
+  # Hosted Landing Pages
+
+  ## Overview
+  LANDING_PAGE content can now be hosted by the platform: a list of blocks
+  (hero, product facts, verification badge, document list, feedback form)
+  rendered server-side when a code is scanned, branded with the tenant's
+  role mapping colors and icon.
+
+  ## Changes
+
+  ### 1. Contents and Versions
+  - `landingPage`: page blocks (JSONB), versioned with the content
+
+  ### 2. Create page_feedback Table
+  - Rating, comment and optional email per scanned code and page
+
+  ### 3. RLS Policies
+  - Tenant-scoped select; rows are written by the server only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'landingPage'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "landingPage" JSONB;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'content_versions' AND column_name = 'landingPage'
+  ) THEN
+    ALTER TABLE content_versions ADD COLUMN "landingPage" JSONB;
+  END IF;
+END $$;
+
+-- Create page_feedback table
+CREATE TABLE IF NOT EXISTS page_feedback (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  email TEXT,
+  "contentId" INTEGER NOT NULL REFERENCES contents(id),
+  "codeId" INTEGER NOT NULL REFERENCES optropic_codes(id),
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_feedback_contentid ON page_feedback("contentId");
+
+-- Enable RLS
+ALTER TABLE page_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "page_feedback_select_policy" ON page_feedback;
+CREATE POLICY "page_feedback_select_policy" ON page_feedback
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE page_feedback IS 'Feedback submitted from hosted landing pages';
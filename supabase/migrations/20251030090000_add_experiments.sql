@@ -0,0 +1,92 @@
+/*
+  # Campaign Experiments
+
+  ## Overview
+  CAMPAIGN content can split scan traffic across weighted destinations.
+  Scanners are assigned a variant sticky to their device/IP hash; the scan
+  row records the variant served and, when the destination fires the
+  conversion pixel, when it converted. Significance is computed from these
+  scans and the winner can be promoted automatically.
+
+  ## Changes
+
+  ### 1. Create ExperimentStatus Enum
+  - DRAFT, RUNNING, COMPLETED, STOPPED
+
+  ### 2. Create experiments Table
+  - Variants (JSONB), confidence level, minimum samples, auto-promotion
+  - Winner and start/end timestamps
+
+  ### 3. Scans
+  - `experimentId`, `variantKey`: variant served for the scan
+  - `convertedAt`: conversion recorded by the callback pixel
+
+  ### 4. RLS Policies
+  - Tenant-scoped select; rows are written by the server only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ExperimentStatus') THEN
+    CREATE TYPE "ExperimentStatus" AS ENUM ('DRAFT', 'RUNNING', 'COMPLETED', 'STOPPED');
+  END IF;
+END $$;
+
+-- Create experiments table
+CREATE TABLE IF NOT EXISTS experiments (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  name TEXT NOT NULL,
+  status "ExperimentStatus" DEFAULT 'DRAFT' NOT NULL,
+  variants JSONB NOT NULL,
+  "confidenceLevel" DOUBLE PRECISION DEFAULT 0.95 NOT NULL,
+  "minSamplesPerVariant" INTEGER DEFAULT 100 NOT NULL,
+  "autoPromote" BOOLEAN DEFAULT true NOT NULL,
+  "winnerKey" TEXT,
+  "startedAt" TIMESTAMPTZ,
+  "endedAt" TIMESTAMPTZ,
+  "contentId" INTEGER NOT NULL REFERENCES contents(id),
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_contentid_status ON experiments("contentId", status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scans' AND column_name = 'experimentId'
+  ) THEN
+    ALTER TABLE scans ADD COLUMN "experimentId" INTEGER REFERENCES experiments(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scans' AND column_name = 'variantKey'
+  ) THEN
+    ALTER TABLE scans ADD COLUMN "variantKey" TEXT;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'scans' AND column_name = 'convertedAt'
+  ) THEN
+    ALTER TABLE scans ADD COLUMN "convertedAt" TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_scans_experimentid_variantkey ON scans("experimentId", "variantKey");
+
+-- Enable RLS
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "experiments_select_policy" ON experiments;
+CREATE POLICY "experiments_select_policy" ON experiments
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE experiments IS 'Weighted traffic splits for CAMPAIGN content';
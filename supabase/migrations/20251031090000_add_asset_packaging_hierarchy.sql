@@ -0,0 +1,67 @@
+/*
+  # Asset Packaging Hierarchy
+
+  ## Overview
+  Assets can be aggregated into logistic units: items into cases, cases
+  onto pallets. Cases and pallets are identified by their SSCC (GS1 AI 00).
+  Scanning a parent's code reveals what it contains.
+
+  ## Changes
+
+  ### 1. Create PackagingLevel Enum
+  - ITEM, CASE, PALLET
+
+  ### 2. Assets
+  - `updatedAt`: last change
+  - `packagingLevel`, `sscc` (unique): logistic unit identification
+  - `parentId`, `aggregatedAt`: the unit the asset is packed in, and when
+  - Index on (projectId, gtin, serialNumber) for import duplicate checks
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'PackagingLevel') THEN
+    CREATE TYPE "PackagingLevel" AS ENUM ('ITEM', 'CASE', 'PALLET');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'updatedAt'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'packagingLevel'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN "packagingLevel" "PackagingLevel";
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'sscc'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN sscc TEXT UNIQUE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'aggregatedAt'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN "aggregatedAt" TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'assets' AND column_name = 'parentId'
+  ) THEN
+    ALTER TABLE assets ADD COLUMN "parentId" INTEGER REFERENCES assets(id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_assets_parentid ON assets("parentId");
+CREATE INDEX IF NOT EXISTS idx_assets_projectid_gtin_serialnumber ON assets("projectId", gtin, "serialNumber");
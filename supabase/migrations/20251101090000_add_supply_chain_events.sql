@@ -0,0 +1,102 @@
+/*
+  # EPCIS Supply Chain Events
+
+  ## Overview
+  An EPCIS 2.0 event store on top of assets and codes. Captured Object,
+  Aggregation and Transformation events keep their JSON-LD document; the
+  standard fields are columns for queries, and every EPC an event names is
+  a row linked to the asset or code it identifies. Custody timelines and
+  the provenance trail on landing pages are read from these rows.
+
+  ## Changes
+
+  ### 1. Create Enums
+  - EpcisEventType: OBJECT, AGGREGATION, TRANSFORMATION
+  - EpcisAction: ADD, OBSERVE, DELETE
+  - EpcisObjectRole: EPC, PARENT, CHILD, INPUT, OUTPUT
+
+  ### 2. Create supply_chain_events Table
+  - eventID unique per project, event time and time zone offset
+  - bizStep, disposition, readPoint, bizLocation
+  - The captured event (JSONB)
+
+  ### 3. Create supply_chain_event_objects Table
+  - EPC (or EPC class with quantity) and its role in the event
+  - Resolved asset and code, when the EPC identifies one
+
+  ### 4. RLS Policies
+  - Tenant-scoped select on events; objects follow their event
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'EpcisEventType') THEN
+    CREATE TYPE "EpcisEventType" AS ENUM ('OBJECT', 'AGGREGATION', 'TRANSFORMATION');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'EpcisAction') THEN
+    CREATE TYPE "EpcisAction" AS ENUM ('ADD', 'OBSERVE', 'DELETE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'EpcisObjectRole') THEN
+    CREATE TYPE "EpcisObjectRole" AS ENUM ('EPC', 'PARENT', 'CHILD', 'INPUT', 'OUTPUT');
+  END IF;
+END $$;
+
+-- Create supply_chain_events table
+CREATE TABLE IF NOT EXISTS supply_chain_events (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "eventId" TEXT NOT NULL,
+  "eventType" "EpcisEventType" NOT NULL,
+  action "EpcisAction",
+  "eventTime" TIMESTAMPTZ NOT NULL,
+  "eventTimeZoneOffset" TEXT NOT NULL,
+  "bizStep" TEXT,
+  disposition TEXT,
+  "readPoint" TEXT,
+  "bizLocation" TEXT,
+  document JSONB NOT NULL,
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER,
+  "capturedById" INTEGER
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supply_chain_events_projectid_eventid ON supply_chain_events("projectId", "eventId");
+CREATE INDEX IF NOT EXISTS idx_supply_chain_events_projectid_eventtime ON supply_chain_events("projectId", "eventTime");
+
+-- Create supply_chain_event_objects table
+CREATE TABLE IF NOT EXISTS supply_chain_event_objects (
+  id SERIAL PRIMARY KEY,
+  role "EpcisObjectRole" NOT NULL,
+  epc TEXT NOT NULL,
+  quantity DOUBLE PRECISION,
+  uom TEXT,
+  "eventId" INTEGER NOT NULL REFERENCES supply_chain_events(id) ON DELETE CASCADE,
+  "assetId" INTEGER REFERENCES assets(id),
+  "codeId" INTEGER REFERENCES optropic_codes(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_supply_chain_event_objects_eventid ON supply_chain_event_objects("eventId");
+CREATE INDEX IF NOT EXISTS idx_supply_chain_event_objects_epc ON supply_chain_event_objects(epc);
+CREATE INDEX IF NOT EXISTS idx_supply_chain_event_objects_assetid ON supply_chain_event_objects("assetId");
+CREATE INDEX IF NOT EXISTS idx_supply_chain_event_objects_codeid ON supply_chain_event_objects("codeId");
+
+-- Enable RLS
+ALTER TABLE supply_chain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE supply_chain_event_objects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "supply_chain_events_select_policy" ON supply_chain_events;
+CREATE POLICY "supply_chain_events_select_policy" ON supply_chain_events
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "supply_chain_event_objects_select_policy" ON supply_chain_event_objects;
+CREATE POLICY "supply_chain_event_objects_select_policy" ON supply_chain_event_objects
+  FOR SELECT
+  USING ("eventId" IN (SELECT id FROM supply_chain_events));
+
+COMMENT ON TABLE supply_chain_events IS 'Captured EPCIS 2.0 events';
+COMMENT ON TABLE supply_chain_event_objects IS 'EPCs named by EPCIS events, resolved to assets and codes';
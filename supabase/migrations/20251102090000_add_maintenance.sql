@@ -0,0 +1,140 @@
+/*
+  # Equipment Maintenance
+
+  ## Overview
+  Maintenance schedules for EQUIPMENT assets and the work orders that carry
+  them out. A schedule falls due after a number of days or a meter delta;
+  a maintainer opens a work order by scanning the asset's code, works
+  through the schedule's checklist and attaches photo evidence stored in
+  MinIO. Completed work orders form the asset's service history, and
+  overdue schedules notify the project owner and the tenant's maintainers.
+
+  ## Changes
+
+  ### 1. Create Enums
+  - MaintenanceTrigger: INTERVAL, USAGE
+  - WorkOrderStatus: OPEN, IN_PROGRESS, COMPLETED, CANCELLED
+
+  ### 2. Create maintenance_schedules Table
+  - Interval (days) or usage (meter delta and unit) trigger
+  - Checklist (JSONB), last service, next due date or reading
+  - Overdue notification marker
+
+  ### 3. Create work_orders Table
+  - Status, checklist with results (JSONB), meter reading at completion
+  - Asset, schedule and scanned code
+
+  ### 4. Create work_order_evidence Table
+  - MinIO object key, type and size per photo, optionally per checklist item
+
+  ### 5. RLS Policies
+  - Tenant-scoped select; evidence follows its work order
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'MaintenanceTrigger') THEN
+    CREATE TYPE "MaintenanceTrigger" AS ENUM ('INTERVAL', 'USAGE');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WorkOrderStatus') THEN
+    CREATE TYPE "WorkOrderStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+  END IF;
+END $$;
+
+-- Create maintenance_schedules table
+CREATE TABLE IF NOT EXISTS maintenance_schedules (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  "triggerType" "MaintenanceTrigger" NOT NULL,
+  "intervalDays" INTEGER,
+  "usageInterval" DOUBLE PRECISION,
+  "usageUnit" TEXT,
+  "currentUsage" DOUBLE PRECISION DEFAULT 0 NOT NULL,
+  checklist JSONB NOT NULL,
+  "lastPerformedAt" TIMESTAMPTZ,
+  "lastPerformedUsage" DOUBLE PRECISION,
+  "nextDueAt" TIMESTAMPTZ,
+  "nextDueUsage" DOUBLE PRECISION,
+  "overdueNotifiedAt" TIMESTAMPTZ,
+  "isActive" BOOLEAN DEFAULT true NOT NULL,
+  "assetId" INTEGER NOT NULL REFERENCES assets(id),
+  "projectId" INTEGER NOT NULL REFERENCES projects(id),
+  "tenantId" INTEGER,
+  "createdById" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_assetid ON maintenance_schedules("assetId");
+CREATE INDEX IF NOT EXISTS idx_maintenance_schedules_projectid_isactive ON maintenance_schedules("projectId", "isActive");
+
+-- Create work_orders table
+CREATE TABLE IF NOT EXISTS work_orders (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  title TEXT NOT NULL,
+  notes TEXT,
+  status "WorkOrderStatus" DEFAULT 'OPEN' NOT NULL,
+  checklist JSONB NOT NULL,
+  "usageReading" DOUBLE PRECISION,
+  "dueAt" TIMESTAMPTZ,
+  "startedAt" TIMESTAMPTZ,
+  "completedAt" TIMESTAMPTZ,
+  "assetId" INTEGER NOT NULL REFERENCES assets(id),
+  "scheduleId" INTEGER REFERENCES maintenance_schedules(id),
+  "codeId" INTEGER REFERENCES optropic_codes(id),
+  "openedById" INTEGER NOT NULL,
+  "completedById" INTEGER,
+  "projectId" INTEGER NOT NULL,
+  "tenantId" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_assetid_status ON work_orders("assetId", status);
+CREATE INDEX IF NOT EXISTS idx_work_orders_projectid_status ON work_orders("projectId", status);
+CREATE INDEX IF NOT EXISTS idx_work_orders_scheduleid ON work_orders("scheduleId");
+CREATE INDEX IF NOT EXISTS idx_work_orders_openedbyid ON work_orders("openedById");
+
+-- Create work_order_evidence table
+CREATE TABLE IF NOT EXISTS work_order_evidence (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "itemKey" TEXT,
+  "objectKey" TEXT NOT NULL UNIQUE,
+  "mimeType" TEXT NOT NULL,
+  "fileSize" INTEGER NOT NULL,
+  "workOrderId" INTEGER NOT NULL REFERENCES work_orders(id) ON DELETE CASCADE,
+  "uploadedById" INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_evidence_workorderid ON work_order_evidence("workOrderId");
+
+-- Enable RLS
+ALTER TABLE maintenance_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_order_evidence ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "maintenance_schedules_select_policy" ON maintenance_schedules;
+CREATE POLICY "maintenance_schedules_select_policy" ON maintenance_schedules
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "work_orders_select_policy" ON work_orders;
+CREATE POLICY "work_orders_select_policy" ON work_orders
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "work_order_evidence_select_policy" ON work_order_evidence;
+CREATE POLICY "work_order_evidence_select_policy" ON work_order_evidence
+  FOR SELECT
+  USING ("workOrderId" IN (SELECT id FROM work_orders));
+
+COMMENT ON TABLE maintenance_schedules IS 'Recurring service of EQUIPMENT assets';
+COMMENT ON TABLE work_orders IS 'Maintenance jobs opened by scanning an asset code';
+COMMENT ON TABLE work_order_evidence IS 'Photo evidence for work orders, stored in MinIO';
@@ -0,0 +1,144 @@
+/*
+  # Workflow Engine
+
+  ## Overview
+  Runs the workflows generated into config packs (`configJson.workflows`).
+  A trigger (code scan, maintenance due, audit required, public scan) starts
+  each matching workflow of the project's active config packs for the
+  scanned asset or code. Steps run in order; the current step is an open
+  task for the archetypes its roles map to, and every start, step and
+  refused attempt is recorded in the execution trail.
+
+  ## Changes
+
+  ### 1. Create Enums
+  - WorkflowTrigger: CODE_SCAN, MAINTENANCE_DUE, AUDIT_REQUIRED, PUBLIC_SCAN
+  - WorkflowStatus: ACTIVE, COMPLETED, CANCELLED
+  - WorkflowTaskStatus: PENDING, OPEN, COMPLETED, CANCELLED
+  - WorkflowEventType: STARTED, STEP_OPENED, STEP_COMPLETED, STEP_DENIED,
+    COMPLETED, CANCELLED
+
+  ### 2. Create workflow_instances Table
+  - Workflow definition snapshot (JSONB), trigger context, status
+  - Config pack, project, asset and code
+
+  ### 3. Create workflow_tasks Table
+  - One row per step with the archetype codes allowed to complete it
+  - Unique step index per instance
+
+  ### 4. Create workflow_events Table
+  - Execution audit trail with actor and archetype
+
+  ### 5. RLS Policies
+  - Tenant-scoped select; events follow their instance
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WorkflowTrigger') THEN
+    CREATE TYPE "WorkflowTrigger" AS ENUM ('CODE_SCAN', 'MAINTENANCE_DUE', 'AUDIT_REQUIRED', 'PUBLIC_SCAN');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WorkflowStatus') THEN
+    CREATE TYPE "WorkflowStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WorkflowTaskStatus') THEN
+    CREATE TYPE "WorkflowTaskStatus" AS ENUM ('PENDING', 'OPEN', 'COMPLETED', 'CANCELLED');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'WorkflowEventType') THEN
+    CREATE TYPE "WorkflowEventType" AS ENUM (
+      'STARTED', 'STEP_OPENED', 'STEP_COMPLETED', 'STEP_DENIED', 'COMPLETED', 'CANCELLED'
+    );
+  END IF;
+END $$;
+
+-- Create workflow_instances table
+CREATE TABLE IF NOT EXISTS workflow_instances (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "workflowName" TEXT NOT NULL,
+  trigger "WorkflowTrigger" NOT NULL,
+  status "WorkflowStatus" DEFAULT 'ACTIVE' NOT NULL,
+  definition JSONB NOT NULL,
+  context JSONB,
+  "completedAt" TIMESTAMPTZ,
+  "configPackId" INTEGER NOT NULL REFERENCES tenant_config_packs(id),
+  "projectId" INTEGER NOT NULL,
+  "assetId" INTEGER REFERENCES assets(id),
+  "codeId" INTEGER,
+  "tenantId" INTEGER,
+  "startedById" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_instances_projectid_status ON workflow_instances("projectId", status);
+CREATE INDEX IF NOT EXISTS idx_workflow_instances_assetid ON workflow_instances("assetId");
+CREATE INDEX IF NOT EXISTS idx_workflow_instances_configpackid_name_status
+  ON workflow_instances("configPackId", "workflowName", status);
+
+-- Create workflow_tasks table
+CREATE TABLE IF NOT EXISTS workflow_tasks (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "stepIndex" INTEGER NOT NULL,
+  action TEXT NOT NULL,
+  roles TEXT[] NOT NULL,
+  status "WorkflowTaskStatus" DEFAULT 'PENDING' NOT NULL,
+  notes TEXT,
+  result JSONB,
+  "openedAt" TIMESTAMPTZ,
+  "completedAt" TIMESTAMPTZ,
+  "instanceId" INTEGER NOT NULL REFERENCES workflow_instances(id) ON DELETE CASCADE,
+  "assetId" INTEGER,
+  "tenantId" INTEGER,
+  "completedById" INTEGER,
+  UNIQUE ("instanceId", "stepIndex")
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_tasks_tenantid_status ON workflow_tasks("tenantId", status);
+
+-- Create workflow_events table
+CREATE TABLE IF NOT EXISTS workflow_events (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  type "WorkflowEventType" NOT NULL,
+  "stepIndex" INTEGER,
+  role TEXT,
+  details JSONB,
+  "instanceId" INTEGER NOT NULL REFERENCES workflow_instances(id) ON DELETE CASCADE,
+  "taskId" INTEGER,
+  "actorId" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_events_instanceid_createdat ON workflow_events("instanceId", "createdAt");
+
+-- Enable RLS
+ALTER TABLE workflow_instances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "workflow_instances_select_policy" ON workflow_instances;
+CREATE POLICY "workflow_instances_select_policy" ON workflow_instances
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "workflow_tasks_select_policy" ON workflow_tasks;
+CREATE POLICY "workflow_tasks_select_policy" ON workflow_tasks
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "workflow_events_select_policy" ON workflow_events;
+CREATE POLICY "workflow_events_select_policy" ON workflow_events
+  FOR SELECT
+  USING ("instanceId" IN (SELECT id FROM workflow_instances));
+
+COMMENT ON TABLE workflow_instances IS 'Runs of config pack workflows, started by triggers';
+COMMENT ON TABLE workflow_tasks IS 'Workflow steps; open steps form the role task inbox';
+COMMENT ON TABLE workflow_events IS 'Execution audit trail of workflow instances';
@@ -0,0 +1,143 @@
+/*
+  # Config Pack Versioning
+
+  ## Overview
+  Config packs move through DRAFT → PUBLISHED → DEPRECATED. Versions of one
+  pack share a lineage (the id of version 1); published versions are
+  immutable, so changes go into a new draft version and rollback publishes
+  a copy of an older version. Projects pin a specific published version,
+  which field devices fetch.
+
+  ## Changes
+
+  ### 1. Create Enum
+  - ConfigPackStatus: DRAFT, PUBLISHED, DEPRECATED
+
+  ### 2. Alter tenant_config_packs Table
+  - status, lineageId, version, basedOnId, publishedAt, deprecatedAt, createdById
+  - Unique version per lineage
+
+  ### 3. Backfill
+  - Existing packs become version 1 of their own lineage, published at
+    creation, with the tenant of their project
+
+  ### 4. Alter projects Table
+  - configPackId: the pinned published version
+
+  ### 5. Immutability
+  - Trigger rejecting content changes to non-draft versions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ConfigPackStatus') THEN
+    CREATE TYPE "ConfigPackStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'DEPRECATED');
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN status "ConfigPackStatus" DEFAULT 'DRAFT' NOT NULL;
+    -- Packs created before versioning are already in use
+    UPDATE tenant_config_packs SET status = 'PUBLISHED';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'lineageId'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "lineageId" INTEGER;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'version'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN version INTEGER DEFAULT 1 NOT NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'basedOnId'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "basedOnId" INTEGER REFERENCES tenant_config_packs(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'publishedAt'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "publishedAt" TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'deprecatedAt'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "deprecatedAt" TIMESTAMPTZ;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'createdById'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "createdById" INTEGER;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'configPackId'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN "configPackId" INTEGER REFERENCES tenant_config_packs(id);
+  END IF;
+END $$;
+
+-- Backfill lineage, publication time and tenant of existing packs
+UPDATE tenant_config_packs SET "lineageId" = id WHERE "lineageId" IS NULL;
+
+UPDATE tenant_config_packs SET "publishedAt" = "createdAt"
+WHERE status = 'PUBLISHED' AND "publishedAt" IS NULL;
+
+UPDATE tenant_config_packs p
+SET "tenantId" = COALESCE(pr."tenantId", pr."userId")
+FROM projects pr
+WHERE p."projectId" = pr.id AND p."tenantId" IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tenant_config_packs_lineageid_version
+  ON tenant_config_packs("lineageId", version);
+CREATE INDEX IF NOT EXISTS idx_tenant_config_packs_tenantid_status ON tenant_config_packs("tenantId", status);
+CREATE INDEX IF NOT EXISTS idx_projects_configpackid ON projects("configPackId");
+
+-- Published and deprecated versions keep their content
+CREATE OR REPLACE FUNCTION prevent_published_config_pack_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'DRAFT' AND (
+    NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW."useCase" IS DISTINCT FROM OLD."useCase"
+    OR NEW.roles IS DISTINCT FROM OLD.roles
+    OR NEW.actions IS DISTINCT FROM OLD.actions
+    OR NEW."productList" IS DISTINCT FROM OLD."productList"
+    OR NEW."configJson" IS DISTINCT FROM OLD."configJson"
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW."lineageId" IS DISTINCT FROM OLD."lineageId"
+  ) THEN
+    RAISE EXCEPTION 'Config pack version % is % and cannot be changed', OLD.id, OLD.status;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tenant_config_packs_immutable ON tenant_config_packs;
+CREATE TRIGGER tenant_config_packs_immutable
+  BEFORE UPDATE ON tenant_config_packs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_published_config_pack_changes();
+
+COMMENT ON COLUMN tenant_config_packs."lineageId" IS 'Id of version 1; shared by all versions of a config pack';
+COMMENT ON COLUMN projects."configPackId" IS 'Published config pack version pinned for the project and its devices';
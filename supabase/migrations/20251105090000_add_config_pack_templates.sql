@@ -0,0 +1,116 @@
+/*
+  # Config Pack Template Catalog
+
+  ## Overview
+  Templates were config packs recognised by name. The catalog makes them
+  an entity of their own: a key, category, parameter definitions and a body
+  with {{parameter}} placeholders. GLOBAL templates are visible to every
+  tenant, TENANT templates only to their own. Instantiating a template with
+  parameter values produces a draft config pack that records the template
+  and its version.
+
+  ## Changes
+
+  ### 1. Create Enum
+  - TemplateScope: GLOBAL, TENANT
+
+  ### 2. Create config_pack_templates Table
+  - Key unique per tenant, category, use case, parameters and body (JSONB)
+  - Body format version and template revision
+
+  ### 3. Alter tenant_config_packs Table
+  - templateId, templateVersion: where an instantiated pack came from
+
+  ### 4. Backfill
+  - The seeded industry template packs become GLOBAL catalog templates
+
+  ### 5. RLS Policies
+  - GLOBAL templates readable by all, TENANT templates by their tenant
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'TemplateScope') THEN
+    CREATE TYPE "TemplateScope" AS ENUM ('GLOBAL', 'TENANT');
+  END IF;
+END $$;
+
+-- Create config_pack_templates table
+CREATE TABLE IF NOT EXISTS config_pack_templates (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL,
+  "useCase" "UseCase" NOT NULL,
+  scope "TemplateScope" DEFAULT 'TENANT' NOT NULL,
+  parameters JSONB DEFAULT '[]'::jsonb NOT NULL,
+  body JSONB NOT NULL,
+  "schemaVersion" INTEGER DEFAULT 1 NOT NULL,
+  version INTEGER DEFAULT 1 NOT NULL,
+  "isActive" BOOLEAN DEFAULT true NOT NULL,
+  "tenantId" INTEGER,
+  "createdById" INTEGER,
+  UNIQUE ("tenantId", key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_pack_templates_scope_category ON config_pack_templates(scope, category);
+-- NULL tenants do not collide in the unique constraint; keep GLOBAL keys unique too
+CREATE UNIQUE INDEX IF NOT EXISTS idx_config_pack_templates_global_key
+  ON config_pack_templates(key) WHERE scope = 'GLOBAL';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'templateId'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "templateId" INTEGER REFERENCES config_pack_templates(id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_config_packs' AND column_name = 'templateVersion'
+  ) THEN
+    ALTER TABLE tenant_config_packs ADD COLUMN "templateVersion" INTEGER;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_config_packs_templateid ON tenant_config_packs("templateId");
+
+-- Move the seeded industry template packs into the catalog
+INSERT INTO config_pack_templates (key, name, description, category, "useCase", scope, parameters, body)
+SELECT DISTINCT ON (lower(p.name))
+  lower(p.name),
+  p.name,
+  p.description,
+  COALESCE(p."configJson" #>> '{metadata,industry}', 'General'),
+  p."useCase",
+  'GLOBAL',
+  '[]'::jsonb,
+  jsonb_build_object(
+    'roles', to_jsonb(p.roles),
+    'actions', p.actions,
+    'productList', p."productList",
+    'configJson', p."configJson"
+  )
+FROM tenant_config_packs p
+WHERE p."projectId" IS NULL
+  AND p."tenantId" IS NULL
+  AND (p.name IN ('SafeEvac', 'PharmaChain', 'SecureAsset') OR p.name LIKE '%Template%')
+ORDER BY lower(p.name), p.id
+ON CONFLICT DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE config_pack_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "config_pack_templates_select_policy" ON config_pack_templates;
+CREATE POLICY "config_pack_templates_select_policy" ON config_pack_templates
+  FOR SELECT
+  USING (scope = 'GLOBAL' OR "tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE config_pack_templates IS 'Catalog of parameterised config pack templates, global or tenant-private';
@@ -0,0 +1,37 @@
+/*
+  # Role Permissions
+
+  ## Overview
+  Access checks compared archetype codes per router. Each archetype now
+  maps to fine-grained permissions (keys:rotate, codes:revoke, ...) with
+  defaults defined in code. A tenant adjusts an archetype on its
+  tenant_role_mappings row by granting and revoking permissions relative to
+  those defaults, so changed defaults reach every tenant that did not
+  override them.
+
+  ## Changes
+
+  ### 1. Alter tenant_role_mappings Table
+  - grantedPermissions: permissions added to the archetype's defaults
+  - revokedPermissions: default permissions taken away
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_role_mappings' AND column_name = 'grantedPermissions'
+  ) THEN
+    ALTER TABLE tenant_role_mappings ADD COLUMN "grantedPermissions" TEXT[] NOT NULL DEFAULT '{}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tenant_role_mappings' AND column_name = 'revokedPermissions'
+  ) THEN
+    ALTER TABLE tenant_role_mappings ADD COLUMN "revokedPermissions" TEXT[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+COMMENT ON COLUMN tenant_role_mappings."grantedPermissions" IS 'Permissions the tenant adds to the archetype defaults';
+COMMENT ON COLUMN tenant_role_mappings."revokedPermissions" IS 'Archetype default permissions the tenant takes away';
@@ -0,0 +1,100 @@
+/*
+  # Tenant Scoping in the Data Layer
+
+  ## Overview
+  Authenticated requests now use a tenant-aware Prisma client: rows of
+  tenant models are filtered by and stamped with the caller's tenantId, and
+  each query runs in a transaction that sets app.current_user_id so the RLS
+  policies apply. Rows
+  written before this (code generation never set tenantId) or by
+  unauthenticated paths such as public scans would be invisible to their
+  tenant, so tenantId is backfilled and inherited from the parent row on
+  insert.
+
+  ## Changes
+
+  ### 1. Inherit Function
+  - inherit_tenant_id(parent_table, fk_column): BEFORE INSERT trigger that
+    fills a missing tenantId from the parent row; for users the tenant is
+    the user's tenantId or, for tenant owners, their own id
+
+  ### 2. Backfill
+  - Every tenant table without tenantId takes it from its parent, in
+    dependency order (projects first)
+
+  ### 3. Triggers
+  - Insert triggers on every tenant table
+*/
+
+CREATE OR REPLACE FUNCTION inherit_tenant_id() RETURNS TRIGGER AS $$
+DECLARE
+  parent_id TEXT;
+  parent_tenant INTEGER;
+BEGIN
+  IF NEW."tenantId" IS NULL THEN
+    parent_id := to_jsonb(NEW) ->> TG_ARGV[1];
+
+    IF parent_id IS NOT NULL THEN
+      IF TG_ARGV[0] = 'users' THEN
+        SELECT COALESCE("tenantId", id) INTO parent_tenant FROM users WHERE id = parent_id::INTEGER;
+      ELSE
+        EXECUTE format('SELECT "tenantId" FROM %I WHERE id = $1', TG_ARGV[0])
+          INTO parent_tenant
+          USING parent_id::INTEGER;
+      END IF;
+
+      NEW."tenantId" := parent_tenant;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Tenant tables and the parent they inherit from, parents before children
+DO $$
+DECLARE
+  inheritance TEXT[][] := ARRAY[
+    ARRAY['projects', 'users', 'userId'],
+    ARRAY['activity_logs', 'users', 'userId'],
+    ARRAY['optropic_codes', 'projects', 'projectId'],
+    ARRAY['keys', 'projects', 'projectId'],
+    ARRAY['tag_pairings', 'projects', 'projectId'],
+    ARRAY['code_batches', 'projects', 'projectId'],
+    ARRAY['code_exports', 'projects', 'projectId'],
+    ARRAY['contents', 'projects', 'projectId'],
+    ARRAY['page_feedback', 'projects', 'projectId'],
+    ARRAY['experiments', 'projects', 'projectId'],
+    ARRAY['assets', 'projects', 'projectId'],
+    ARRAY['maintenance_schedules', 'projects', 'projectId'],
+    ARRAY['work_orders', 'projects', 'projectId'],
+    ARRAY['workflow_instances', 'projects', 'projectId'],
+    ARRAY['supply_chain_events', 'projects', 'projectId'],
+    ARRAY['content_versions', 'contents', 'contentId'],
+    ARRAY['workflow_tasks', 'workflow_instances', 'instanceId'],
+    ARRAY['scans', 'optropic_codes', 'codeId']
+  ];
+  entry TEXT[];
+BEGIN
+  FOREACH entry SLICE 1 IN ARRAY inheritance LOOP
+    IF entry[2] = 'users' THEN
+      EXECUTE format(
+        'UPDATE %I t SET "tenantId" = COALESCE(u."tenantId", u.id) FROM users u WHERE t.%I = u.id AND t."tenantId" IS NULL',
+        entry[1], entry[3]
+      );
+    ELSE
+      EXECUTE format(
+        'UPDATE %I t SET "tenantId" = p."tenantId" FROM %I p WHERE t.%I = p.id AND t."tenantId" IS NULL',
+        entry[1], entry[2], entry[3]
+      );
+    END IF;
+
+    EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', entry[1] || '_inherit_tenant_id', entry[1]);
+    EXECUTE format(
+      'CREATE TRIGGER %I BEFORE INSERT ON %I FOR EACH ROW EXECUTE FUNCTION inherit_tenant_id(%L, %L)',
+      entry[1] || '_inherit_tenant_id', entry[1], entry[2], entry[3]
+    );
+  END LOOP;
+END $$;
+
+COMMENT ON FUNCTION inherit_tenant_id() IS 'Fills a missing tenantId on insert from the parent row named by the trigger arguments';
@@ -0,0 +1,107 @@
+/*
+  # Service Accounts and API Keys
+
+  ## Overview
+  Scanner fleets, MES lines and ERP integrations had to sign in as a person
+  and refresh a 15-minute JWT. A tenant now registers them as service
+  accounts and issues API keys (`opk_<prefix>_<secret>`). Only a SHA-256 of
+  a key is stored; the prefix finds it. A key carries permission scopes, a
+  rate-limit tier and an optional expiry, records when and from where it
+  was last used, and can be rotated with an overlap or revoked. Calls made
+  with a key act as the tenant owner narrowed to its scopes, and each one
+  is written to activity_logs with the key's id.
+
+  ## Changes
+
+  ### 1. Create Enum
+  - ApiKeyRateLimitTier: LOW, STANDARD, HIGH
+
+  ### 2. Create service_accounts Table
+  - Name unique per tenant, description, active flag, creator
+
+  ### 3. Create api_keys Table
+  - Unique prefix, key hash, scopes, tier, expiry, last use, revocation
+  - rotatedFromId links a key to the one it replaced
+
+  ### 4. Alter activity_logs Table
+  - apiKeyId: the key a logged call was made with
+
+  ### 5. RLS Policies
+  - Tenant-scoped select on both tables
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ApiKeyRateLimitTier') THEN
+    CREATE TYPE "ApiKeyRateLimitTier" AS ENUM ('LOW', 'STANDARD', 'HIGH');
+  END IF;
+END $$;
+
+-- Create service_accounts table
+CREATE TABLE IF NOT EXISTS service_accounts (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  "isActive" BOOLEAN DEFAULT true NOT NULL,
+  "createdById" INTEGER,
+  "tenantId" INTEGER NOT NULL,
+  UNIQUE ("tenantId", name)
+);
+
+-- Create api_keys table
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL UNIQUE,
+  "keyHash" TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  "rateLimitTier" "ApiKeyRateLimitTier" DEFAULT 'STANDARD' NOT NULL,
+  "expiresAt" TIMESTAMPTZ,
+  "lastUsedAt" TIMESTAMPTZ,
+  "lastUsedIp" TEXT,
+  "revokedAt" TIMESTAMPTZ,
+  "createdById" INTEGER,
+  "rotatedFromId" INTEGER,
+  "serviceAccountId" INTEGER NOT NULL REFERENCES service_accounts(id) ON DELETE CASCADE,
+  "tenantId" INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_serviceaccountid ON api_keys("serviceAccountId");
+
+-- Alter activity_logs table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'activity_logs' AND column_name = 'apiKeyId'
+  ) THEN
+    ALTER TABLE activity_logs ADD COLUMN "apiKeyId" INTEGER REFERENCES api_keys(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_apikeyid_createdat ON activity_logs("apiKeyId", "createdAt");
+
+-- Enable RLS
+ALTER TABLE service_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "service_accounts_select_policy" ON service_accounts;
+CREATE POLICY "service_accounts_select_policy" ON service_accounts
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+DROP POLICY IF EXISTS "api_keys_select_policy" ON api_keys;
+CREATE POLICY "api_keys_select_policy" ON api_keys
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON TABLE service_accounts IS 'Machine clients of a tenant that call the API with API keys';
+COMMENT ON COLUMN api_keys."keyHash" IS 'SHA-256 of the full key; the key is shown once at issue';
+COMMENT ON COLUMN activity_logs."apiKeyId" IS 'API key the logged call was made with; userId is then the tenant owner';
@@ -0,0 +1,87 @@
+/*
+  # Multi-Factor Authentication
+
+  ## Overview
+  Password sign-in was the only factor. Users can now enroll a TOTP
+  authenticator app (RFC 6238); the secret is encrypted with the tenant's
+  data key and enabled only after a first code verifies. Enrollment issues
+  ten one-time recovery codes, stored as bcrypt hashes. A tenant names the
+  archetypes that must use MFA; their users are sent to enrollment at the
+  next sign-in. The last accepted TOTP step is kept so a code cannot be
+  replayed.
+
+  ## Changes
+
+  ### 1. Alter users Table
+  - mfaEnabled, mfaEnabledAt
+  - mfaSecret: envelope-encrypted TOTP secret
+  - mfaPendingSecret: secret awaiting its first code during enrollment
+  - mfaLastStep: last accepted TOTP step
+
+  ### 2. Create mfa_recovery_codes Table
+  - Code hash and the time it was used, removed with the user
+
+  ### 3. Create tenant_security_policies Table
+  - One row per tenant with the archetypes that require MFA
+
+  ### 4. RLS Policies
+  - Recovery codes readable only by their owner
+  - Tenant-scoped select on security policies
+*/
+
+-- Alter users table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'users' AND column_name = 'mfaEnabled'
+  ) THEN
+    ALTER TABLE users ADD COLUMN "mfaEnabled" BOOLEAN DEFAULT false NOT NULL;
+    ALTER TABLE users ADD COLUMN "mfaEnabledAt" TIMESTAMPTZ;
+    ALTER TABLE users ADD COLUMN "mfaSecret" TEXT;
+    ALTER TABLE users ADD COLUMN "mfaPendingSecret" TEXT;
+    ALTER TABLE users ADD COLUMN "mfaLastStep" INTEGER;
+  END IF;
+END $$;
+
+-- Create mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "userId" INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  "codeHash" TEXT NOT NULL,
+  "usedAt" TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_userid ON mfa_recovery_codes("userId");
+
+-- Create tenant_security_policies table
+CREATE TABLE IF NOT EXISTS tenant_security_policies (
+  id SERIAL PRIMARY KEY,
+  "createdAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "updatedAt" TIMESTAMPTZ DEFAULT now() NOT NULL,
+  "tenantId" INTEGER NOT NULL UNIQUE,
+  "mfaRequiredArchetypes" TEXT[] NOT NULL DEFAULT '{}',
+  "updatedById" INTEGER
+);
+
+-- Enable RLS
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tenant_security_policies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "mfa_recovery_codes_select_policy" ON mfa_recovery_codes;
+CREATE POLICY "mfa_recovery_codes_select_policy" ON mfa_recovery_codes
+  FOR SELECT
+  USING ("userId" = current_setting('app.current_user_id', true)::INTEGER);
+
+DROP POLICY IF EXISTS "tenant_security_policies_select_policy" ON tenant_security_policies;
+CREATE POLICY "tenant_security_policies_select_policy" ON tenant_security_policies
+  FOR SELECT
+  USING ("tenantId" IN (
+    SELECT get_user_tenant_id(id) FROM users WHERE id = current_setting('app.current_user_id', true)::INTEGER
+  ));
+
+COMMENT ON COLUMN users."mfaSecret" IS 'TOTP secret encrypted with the tenant data key (env1 format)';
+COMMENT ON COLUMN users."mfaLastStep" IS 'Last accepted TOTP step; codes at or before it are refused as replays';
+COMMENT ON TABLE mfa_recovery_codes IS 'One-time bcrypt-hashed codes accepted in place of a TOTP code';
+COMMENT ON TABLE tenant_security_policies IS 'Per-tenant sign-in rules, such as archetypes that must use MFA';
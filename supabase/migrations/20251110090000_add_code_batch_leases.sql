@@ -0,0 +1,31 @@
+/*
+  # Code Batch Leases
+
+  ## Overview
+  Only an in-process set kept a batch from being generated twice. With two
+  app instances, or a resume racing a restart, the same batch could run
+  twice and hand out the same serials twice. A process now claims a batch
+  with a conditional update that sets a lease, renews it with every chunk
+  and only takes over a batch whose lease has expired.
+
+  ## Changes
+
+  ### 1. Alter code_batches Table
+  - leaseOwner: process generating the batch
+  - leaseExpiresAt: when another process may take the batch over
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'code_batches' AND column_name = 'leaseOwner'
+  ) THEN
+    ALTER TABLE code_batches ADD COLUMN "leaseOwner" TEXT;
+    ALTER TABLE code_batches ADD COLUMN "leaseExpiresAt" TIMESTAMPTZ;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_code_batches_status_leaseexpiresat ON code_batches(status, "leaseExpiresAt");
+
+COMMENT ON COLUMN code_batches."leaseExpiresAt" IS 'Renewed with every committed chunk; an expired lease may be claimed by another process';
@@ -0,0 +1,36 @@
+/*
+  # Key Re-sign Progress
+
+  ## Overview
+  Under the RESIGN rotation policy a rotated key's codes were re-signed by a
+  background promise that was not recorded anywhere. If the process stopped
+  mid-run, the remaining codes stayed on the old key and failed with
+  KEY_RETIRED once the grace window ended. Progress is now saved on the key
+  after every page, the scheduled sweep resumes unfinished runs, and a key
+  is not retired while its re-sign is pending.
+
+  ## Changes
+
+  ### 1. Alter keys Table
+  - resignPending: a RESIGN rotation still has codes to move
+  - resignCursor: last code id the run has passed
+  - resignedCount, resignFailedCount: running totals
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'keys' AND column_name = 'resignPending'
+  ) THEN
+    ALTER TABLE keys ADD COLUMN "resignPending" BOOLEAN DEFAULT false NOT NULL;
+    ALTER TABLE keys ADD COLUMN "resignCursor" INTEGER DEFAULT 0 NOT NULL;
+    ALTER TABLE keys ADD COLUMN "resignedCount" INTEGER DEFAULT 0 NOT NULL;
+    ALTER TABLE keys ADD COLUMN "resignFailedCount" INTEGER DEFAULT 0 NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_keys_resignpending ON keys("resignPending") WHERE "resignPending";
+
+COMMENT ON COLUMN keys."resignPending" IS 'RESIGN rotation still re-signing codes; the key is not retired until it clears';
+COMMENT ON COLUMN keys."resignCursor" IS 'Last optropic_codes id the re-sign run has passed; a resumed run continues after it';
@@ -0,0 +1,36 @@
+/*
+  # Content Download Tokens
+
+  ## Overview
+  The public download proxy looked content up by its sequential id, so
+  anyone could walk /api/content/{n}/download, collect signed URLs for every
+  tenant's files and inflate download counts. Each content item now has an
+  unguessable download token that the proxy URL carries instead.
+
+  ## Changes
+
+  ### 1. Alter contents Table
+  - downloadToken: random UUID, unique, stable across versions
+
+  ### 2. Rewrite Proxy URLs
+  - fileUrl of existing uploads points at the token instead of the id
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contents' AND column_name = 'downloadToken'
+  ) THEN
+    ALTER TABLE contents ADD COLUMN "downloadToken" TEXT NOT NULL DEFAULT gen_random_uuid()::TEXT;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contents_downloadtoken ON contents("downloadToken");
+
+-- Rewrite proxy URLs
+UPDATE contents
+SET "fileUrl" = regexp_replace("fileUrl", '/api/content/[0-9]+/download$', '/api/content/' || "downloadToken" || '/download')
+WHERE "fileUrl" ~ '/api/content/[0-9]+/download$';
+
+COMMENT ON COLUMN contents."downloadToken" IS 'Unguessable id in the public download proxy URL';